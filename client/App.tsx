@@ -24,9 +24,24 @@ const SongDetailPage = lazy(() =>
 const CategoryBrowser = lazy(() =>
   import("@features/categories").then((m) => ({ default: m.CategoryBrowser })),
 );
+const CategoryAdminPage = lazy(() =>
+  import("@features/categories").then((m) => ({
+    default: m.CategoryAdminPage,
+  })),
+);
 const SetlistsPage = lazy(() =>
   import("@features/setlists").then((m) => ({ default: m.SetlistsPage })),
 );
+const SharedSetlistPage = lazy(() =>
+  import("@features/setlists").then((m) => ({
+    default: m.SharedSetlistPage,
+  })),
+);
+const SetlistPerformancePage = lazy(() =>
+  import("@features/setlists").then((m) => ({
+    default: m.SetlistPerformancePage,
+  })),
+);
 const ArrangementsPage = lazy(() =>
   import("@features/arrangements").then((m) => ({
     default: m.ArrangementsPage,
@@ -37,6 +52,16 @@ const ArrangementDetailPage = lazy(() =>
     default: m.ArrangementDetailPage,
   })),
 );
+const MashupBuilderPage = lazy(() =>
+  import("@features/arrangements").then((m) => ({
+    default: m.MashupBuilderPage,
+  })),
+);
+const ProgressionSearchPage = lazy(() =>
+  import("@features/arrangements").then((m) => ({
+    default: m.ProgressionSearchPage,
+  })),
+);
 const ProfilePage = lazy(() =>
   import("@features/profile").then((m) => ({ default: m.ProfilePage })),
 );
@@ -66,8 +91,32 @@ const App = () => (
                   path="/categories/:categoryId"
                   element={<CategoryBrowser />}
                 />
+                <Route
+                  path="/admin/categories"
+                  element={<CategoryAdminPage />}
+                />
                 <Route path="/setlists" element={<SetlistsPage />} />
+                <Route
+                  path="/setlists/share/:token"
+                  element={<SharedSetlistPage />}
+                />
+                <Route
+                  path="/setlists/:id/perform"
+                  element={<SetlistPerformancePage />}
+                />
+                <Route
+                  path="/setlists/share/:token/perform"
+                  element={<SetlistPerformancePage />}
+                />
                 <Route path="/arrangements" element={<ArrangementsPage />} />
+                <Route
+                  path="/arrangements/mashup"
+                  element={<MashupBuilderPage />}
+                />
+                <Route
+                  path="/arrangements/progressions"
+                  element={<ProgressionSearchPage />}
+                />
                 <Route
                   path="/arrangements/:slug"
                   element={<ArrangementDetailPage />}
@@ -14,6 +14,7 @@ import {
 } from "@/features/songs/hooks/useArrangements";
 import { ArrangementHeader } from "./ArrangementHeader";
 import { ArrangementTabs } from "./ArrangementTabs";
+import { ArrangementPrintDialog } from "./ArrangementPrintDialog";
 
 type ArrangementParams = {
   slug: string;
@@ -45,6 +46,7 @@ export default function ArrangementDetailPage(): ReactElement {
     useState<ArrangementDetail | null>(null);
   const [isViewMode, setIsViewMode] = useState(false);
   const [transpose, setTranspose] = useState(0);
+  const [isPrintOpen, setIsPrintOpen] = useState(false);
   const fontSize = "base" as const;
   const theme = "light" as const;
 
@@ -187,6 +189,7 @@ export default function ArrangementDetailPage(): ReactElement {
           onToggleFavorite={handleToggleFavorite}
           onEdit={handleEdit}
           onAddToSetlist={handleAddToSetlist}
+          onPrint={() => setIsPrintOpen(true)}
           onBack={() => navigate(-1)}
         />
 
@@ -199,6 +202,16 @@ export default function ArrangementDetailPage(): ReactElement {
           onCopyChords={handleCopyChords}
           fontSize={fontSize}
           theme={theme}
+          onRevisionRestored={refetch}
+        />
+
+        <ArrangementPrintDialog
+          arrangement={arrangement}
+          songTitle={songData?.title}
+          songArtist={songData?.artist}
+          transpose={transpose}
+          open={isPrintOpen}
+          onOpenChange={setIsPrintOpen}
         />
       </div>
     </Layout>
@@ -1,6 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Edit, Heart, Star, ListMusic, Key, Clock } from "lucide-react";
+import { ArrowLeft, Edit, Heart, Star, ListMusic, Key, Clock, Printer } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { ArrangementWithMetrics } from "@/features/songs/types/song.types";
 
@@ -12,6 +12,7 @@ interface ArrangementHeaderProps {
   onToggleFavorite: () => void;
   onEdit: () => void;
   onAddToSetlist: () => void;
+  onPrint: () => void;
   onBack: () => void;
 }
 
@@ -23,6 +24,7 @@ export function ArrangementHeader({
   onToggleFavorite,
   onEdit,
   onAddToSetlist,
+  onPrint,
   onBack,
 }: ArrangementHeaderProps) {
   return (
@@ -87,6 +89,10 @@ export function ArrangementHeader({
             <Edit className="h-4 w-4 mr-2" />
             Edit
           </Button>
+          <Button variant="outline" size="sm" onClick={onPrint}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
           <Button size="sm" onClick={onAddToSetlist}>
             <ListMusic className="h-4 w-4 mr-2" />
             Add to Setlist
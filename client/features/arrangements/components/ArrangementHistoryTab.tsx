@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { History, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuthContext } from "@/shared/contexts/AuthContext";
+import {
+  useArrangementRevisions,
+  useRestoreRevision,
+  type ArrangementRevision,
+} from "@/features/songs/hooks/useArrangementRevisions";
+import { RevisionDiffView } from "./RevisionDiffView";
+
+interface ArrangementHistoryTabProps {
+  arrangementId: string;
+  onRevisionRestored?: () => void;
+}
+
+function describeChange(revision: ArrangementRevision): string {
+  if (revision.restoredFrom) {
+    return `Restored revision ${revision.restoredFrom}`;
+  }
+  const labels = revision.changedFields.map((field) =>
+    field === "chordData" ? "chords" : field,
+  );
+  return `Changed ${labels.join(", ")}`;
+}
+
+export function ArrangementHistoryTab({
+  arrangementId,
+  onRevisionRestored,
+}: ArrangementHistoryTabProps) {
+  const { toast } = useToast();
+  const { isAuthenticated } = useAuthContext();
+  const { data: revisions, isLoading } = useArrangementRevisions(arrangementId);
+  const restoreMutation = useRestoreRevision();
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const latest = revisions?.[0]?.revision;
+
+  const handleRestore = async (revision: number) => {
+    try {
+      await restoreMutation.mutateAsync({ arrangementId, revision });
+      setSelected(null);
+      toast({
+        title: "Revision restored",
+        description: `Revision ${revision} is now the current version.`,
+      });
+      onRevisionRestored?.();
+    } catch (error) {
+      toast({
+        title: "Failed to restore revision",
+        description:
+          error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <Skeleton className="h-32 w-full" />}
+
+        {!isLoading && (!revisions || revisions.length === 0) && (
+          <p className="text-muted-foreground text-center py-8">
+            No revisions recorded yet.
+          </p>
+        )}
+
+        {revisions && revisions.length > 0 && (
+          <ul className="divide-y rounded-md border">
+            {revisions.map((revision) => (
+              <li
+                key={revision.revision}
+                className="flex flex-wrap items-center justify-between gap-2 p-3"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">
+                      Revision {revision.revision}
+                    </span>
+                    {revision.revision === latest && (
+                      <Badge variant="secondary">Current</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {describeChange(revision)} by{" "}
+                    {revision.author.name || "Unknown user"} on{" "}
+                    {new Date(revision.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                {revision.revision !== latest && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        setSelected(
+                          selected === revision.revision
+                            ? null
+                            : revision.revision,
+                        )
+                      }
+                    >
+                      {selected === revision.revision
+                        ? "Hide changes"
+                        : "Compare with current"}
+                    </Button>
+                    {isAuthenticated && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={restoreMutation.isPending}
+                        onClick={() => handleRestore(revision.revision)}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selected !== null && latest !== undefined && (
+          <RevisionDiffView
+            arrangementId={arrangementId}
+            from={selected}
+            to={latest}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
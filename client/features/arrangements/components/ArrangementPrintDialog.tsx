@@ -0,0 +1,64 @@
+import type { ArrangementWithMetrics } from "@/features/songs/types/song.types";
+import { PrintDialog } from "@/features/songs/components/PrintDialog";
+import {
+  toPrintQuery,
+  usePrintDocument,
+} from "@/features/songs/hooks/usePrintDocument";
+import {
+  renderChartDocument,
+  type PrintOptions,
+} from "@shared/songs/printRenderer";
+
+interface ArrangementPrintDialogProps {
+  arrangement: ArrangementWithMetrics;
+  songTitle?: string;
+  songArtist?: string;
+  transpose: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Prints the chart in the key currently shown on the page
+export function ArrangementPrintDialog({
+  arrangement,
+  songTitle,
+  songArtist,
+  transpose,
+  open,
+  onOpenChange,
+}: ArrangementPrintDialogProps) {
+  const { print, isPrinting } = usePrintDocument();
+
+  const handlePrint = async (options: PrintOptions) => {
+    const printed = await print(
+      `/api/arrangements/${arrangement._id}/print?${toPrintQuery(options, { transpose })}`,
+      () =>
+        renderChartDocument(
+          {
+            title: songTitle,
+            artist: songArtist,
+            key: arrangement.metadata.key,
+            tempo: arrangement.metadata.tempo,
+            timeSignature: arrangement.metadata.timeSignature,
+            capo: arrangement.metadata.capo,
+            chordData: arrangement.chordData,
+            transpose,
+          },
+          options,
+        ),
+    );
+    if (printed) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <PrintDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Print Chord Chart"
+      isPrinting={isPrinting}
+      onPrint={handlePrint}
+    />
+  );
+}
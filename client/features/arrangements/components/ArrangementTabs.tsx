@@ -1,10 +1,18 @@
+import { useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Music, Copy, Download, Share2 } from "lucide-react";
 import { LazyChordDisplay } from "@/features/songs/components/LazyChordDisplay";
+import { useChordNotation } from "@/features/songs/hooks/useChordNotation";
 import type { ArrangementWithMetrics } from "@/features/songs/types/song.types";
+import type { Instrument } from "@/features/songs/types/chord.types";
+import { ArrangementHistoryTab } from "./ArrangementHistoryTab";
+import { ChordsUsedPanel } from "./ChordsUsedPanel";
+import { VocalRangePanel } from "./VocalRangePanel";
+import { AutoScrollControls } from "./AutoScrollControls";
+import { PracticeLoopPanel } from "./PracticeLoopPanel";
 
 interface ArrangementTabsProps {
   arrangement: ArrangementWithMetrics;
@@ -15,6 +23,7 @@ interface ArrangementTabsProps {
   onCopyChords: () => void;
   fontSize?: "sm" | "base" | "lg" | "xl";
   theme?: "light" | "dark" | "stage";
+  onRevisionRestored?: () => void;
 }
 
 export function ArrangementTabs({
@@ -26,16 +35,22 @@ export function ArrangementTabs({
   onCopyChords,
   fontSize = "base",
   theme = "light",
+  onRevisionRestored,
 }: ArrangementTabsProps) {
+  const notation = useChordNotation();
+  const [instrument, setInstrument] = useState<Instrument>("guitar");
+  const chartRef = useRef<HTMLDivElement>(null);
+
   return (
     <Tabs value={activeTab} onValueChange={onTabChange}>
-      <TabsList className="grid w-full grid-cols-3">
+      <TabsList className="grid w-full grid-cols-4">
         <TabsTrigger value="chords">
           <Music className="h-4 w-4 mr-2" />
           Chord Chart
         </TabsTrigger>
         <TabsTrigger value="details">Details</TabsTrigger>
         <TabsTrigger value="reviews">Reviews</TabsTrigger>
+        <TabsTrigger value="history">History</TabsTrigger>
       </TabsList>
 
       <TabsContent value="chords" className="mt-6">
@@ -57,9 +72,14 @@ export function ArrangementTabs({
               </Button>
             </div>
           </CardHeader>
-          <CardContent>
+          <CardContent ref={chartRef} className="space-y-4">
+            <AutoScrollControls arrangement={arrangement} chartRef={chartRef} />
             <LazyChordDisplay
               content={arrangement.chordData}
+              songKey={arrangement.metadata.key}
+              notation={notation}
+              capo={arrangement.metadata.capo}
+              diagramInstrument={instrument}
               transpose={transpose}
               fontSize={fontSize}
               theme={theme}
@@ -70,6 +90,22 @@ export function ArrangementTabs({
             />
           </CardContent>
         </Card>
+
+        <ChordsUsedPanel
+          chordData={arrangement.chordData}
+          songKey={arrangement.metadata.key}
+          transpose={transpose}
+          instrument={instrument}
+          onInstrumentChange={setInstrument}
+        />
+
+        <VocalRangePanel arrangement={arrangement} transpose={transpose} />
+
+        <PracticeLoopPanel
+          arrangement={arrangement}
+          transpose={transpose}
+          notation={notation}
+        />
       </TabsContent>
 
       <TabsContent value="details" className="mt-6">
@@ -133,6 +169,13 @@ export function ArrangementTabs({
           </CardContent>
         </Card>
       </TabsContent>
+
+      <TabsContent value="history" className="mt-6">
+        <ArrangementHistoryTab
+          arrangementId={arrangement._id}
+          onRevisionRestored={onRevisionRestored}
+        />
+      </TabsContent>
     </Tabs>
   );
 }
\ No newline at end of file
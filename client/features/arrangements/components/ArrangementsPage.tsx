@@ -1,7 +1,7 @@
 import { Layout } from "@/shared/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { BookOpen, ArrowLeft } from "lucide-react";
+import { BookOpen, ArrowLeft, GitBranch, Layers } from "lucide-react";
 import { Link } from "react-router-dom";
 
 export default function Arrangements() {
@@ -28,11 +28,22 @@ export default function Arrangements() {
                 <li>• Multiple arrangements per song</li>
                 <li>• Key and capo variations</li>
                 <li>• Instrument-specific arrangements</li>
-                <li>• Mashup builder</li>
                 <li>• Community contributed arrangements</li>
               </ul>
             </div>
-            <div className="pt-4">
+            <div className="pt-4 flex justify-center gap-2">
+              <Button variant="outline" asChild>
+                <Link to="/arrangements/mashup">
+                  <Layers className="mr-2 h-4 w-4" />
+                  Build a Mashup
+                </Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link to="/arrangements/progressions">
+                  <GitBranch className="mr-2 h-4 w-4" />
+                  Find a Progression
+                </Link>
+              </Button>
               <Button asChild>
                 <Link to="/">
                   <ArrowLeft className="mr-2 h-4 w-4" />
@@ -0,0 +1,77 @@
+import { useMemo, type RefObject } from "react";
+import { Button } from "@/components/ui/button";
+import { Minus, Pause, Play, Plus } from "lucide-react";
+import type { ArrangementWithMetrics } from "@/features/songs/types/song.types";
+import { formatDuration } from "@/features/setlists/utils/setlistItems";
+import { useAutoScroll } from "../hooks/useAutoScroll";
+import { useScrollSpeed } from "../hooks/useScrollSpeed";
+import {
+  SCROLL_SPEED_BOUNDS,
+  getChartDuration,
+  nudgeScrollSpeed,
+} from "@shared/arrangements/autoScroll";
+
+interface AutoScrollControlsProps {
+  arrangement: ArrangementWithMetrics;
+  chartRef: RefObject<HTMLElement>;
+}
+
+/**
+ * Hands-free scrolling paced by the arrangement's tempo, time signature
+ * and section lengths, with pause and speed nudges
+ */
+export function AutoScrollControls({
+  arrangement,
+  chartRef,
+}: AutoScrollControlsProps) {
+  const { tempo, timeSignature } = arrangement.metadata;
+  const duration = useMemo(
+    () => getChartDuration(arrangement.chordData, tempo, timeSignature),
+    [arrangement.chordData, tempo, timeSignature],
+  );
+  const { speed, setSpeed } = useScrollSpeed(arrangement._id);
+  const { isScrolling, toggle } = useAutoScroll(chartRef, duration, speed);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button
+        variant={isScrolling ? "secondary" : "outline"}
+        size="sm"
+        onClick={toggle}
+      >
+        {isScrolling ? (
+          <Pause className="mr-2 h-4 w-4" />
+        ) : (
+          <Play className="mr-2 h-4 w-4" />
+        )}
+        {isScrolling ? "Pause" : "Auto-scroll"}
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => setSpeed(nudgeScrollSpeed(speed, -1))}
+        disabled={speed <= SCROLL_SPEED_BOUNDS.min}
+        aria-label="Scroll slower"
+      >
+        <Minus className="h-4 w-4" />
+      </Button>
+      <span className="w-12 text-center text-sm tabular-nums">{speed}×</span>
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-8 w-8"
+        onClick={() => setSpeed(nudgeScrollSpeed(speed, 1))}
+        disabled={speed >= SCROLL_SPEED_BOUNDS.max}
+        aria-label="Scroll faster"
+      >
+        <Plus className="h-4 w-4" />
+      </Button>
+      <span className="text-xs text-muted-foreground">
+        {formatDuration(duration / speed)}
+        {tempo ? ` at ${tempo} BPM` : " (no tempo set)"}
+        {timeSignature && `, ${timeSignature}`}
+      </span>
+    </div>
+  );
+}
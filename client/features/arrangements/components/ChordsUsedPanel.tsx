@@ -0,0 +1,87 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChordDiagram } from "@/features/songs/components/ChordDiagram";
+import { useChordNotation } from "@/features/songs/hooks/useChordNotation";
+import type { Instrument } from "@/features/songs/types/chord.types";
+import {
+  convertChordNotation,
+  normalizeChordChart,
+} from "@/features/songs/utils/chordNotation";
+import {
+  extractChordsFromContent,
+  transposeChord,
+} from "@shared/songs/chordSheetHelpers";
+import { INSTRUMENTS } from "@/features/songs/utils/chordVoicings";
+
+interface ChordsUsedPanelProps {
+  chordData: string;
+  songKey?: string;
+  transpose: number;
+  instrument: Instrument;
+  onInstrumentChange: (instrument: Instrument) => void;
+}
+
+// Diagrams for every chord in the chart, in the key it is being played in
+export function ChordsUsedPanel({
+  chordData,
+  songKey,
+  transpose,
+  instrument,
+  onInstrumentChange,
+}: ChordsUsedPanelProps) {
+  const notation = useChordNotation();
+
+  const chords = useMemo(() => {
+    const chart = normalizeChordChart(chordData, songKey);
+    const played = extractChordsFromContent(chart).map((chord) =>
+      transpose === 0 ? chord : (transposeChord(chord, transpose) ?? chord),
+    );
+    return Array.from(new Set(played));
+  }, [chordData, songKey, transpose]);
+
+  if (chords.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Chords Used</CardTitle>
+        <Select
+          value={instrument}
+          onValueChange={(value) => onInstrumentChange(value as Instrument)}
+        >
+          <SelectTrigger className="h-8 w-32" aria-label="Diagram instrument">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(INSTRUMENTS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-[repeat(auto-fill,minmax(7rem,1fr))] gap-4">
+          {chords.map((chord) => (
+            <ChordDiagram
+              key={chord}
+              chord={chord}
+              label={convertChordNotation(chord, "english", notation) ?? chord}
+              instrument={instrument}
+            />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
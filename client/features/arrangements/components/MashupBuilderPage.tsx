@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Layout } from "@/shared/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Layers, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateArrangement } from "@features/songs/hooks/useArrangements";
+import {
+  MUSICAL_KEYS,
+  isMusicalKey,
+  type MusicalKey,
+} from "@features/songs/types/chord.types";
+import { useMashupBuilder } from "../hooks/useMashupBuilder";
+import { MashupSongSearch } from "./MashupSongSearch";
+import { MashupSongSource } from "./MashupSongSource";
+import { MashupPartsList } from "./MashupPartsList";
+
+// Builds one mashup arrangement from sections of other songs' arrangements
+export default function MashupBuilderPage() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const builder = useMashupBuilder();
+  const createArrangement = useCreateArrangement();
+  const [name, setName] = useState("");
+  const [chosenKey, setChosenKey] = useState<MusicalKey | null>(null);
+
+  const sourceKey = builder.firstSource?.metadata?.key;
+  const key =
+    chosenKey ?? (sourceKey && isMusicalKey(sourceKey) ? sourceKey : "C");
+  const canSave =
+    name.trim().length > 0 && !builder.error && !createArrangement.isPending;
+
+  const handleSave = () => {
+    createArrangement.mutate(
+      {
+        name: name.trim(),
+        songIds: builder.songIds,
+        chordData: builder.mashup.chordData,
+        key,
+        tempo: builder.firstSource?.metadata?.tempo,
+        difficulty: "intermediate",
+        tags: [],
+        mashupSections: builder.mashup.sections,
+      },
+      {
+        onSuccess: (arrangement) =>
+          navigate(`/arrangements/${arrangement.slug}`),
+        onError: (error) =>
+          toast({
+            title: "Could not save the mashup",
+            description: error.message,
+            variant: "destructive",
+          }),
+      },
+    );
+  };
+
+  return (
+    <Layout>
+      <div className="mx-auto max-w-6xl space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="flex items-center gap-2 text-2xl font-bold">
+            <Layers className="h-6 w-6" />
+            Mashup Builder
+          </h1>
+          <Button variant="outline" asChild>
+            <Link to="/arrangements">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Arrangements
+            </Link>
+          </Button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Songs</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <MashupSongSearch
+                selectedIds={builder.songs.map((song) => song.id)}
+                onAdd={builder.addSong}
+              />
+              {builder.songs.map((song) => (
+                <MashupSongSource
+                  key={song.id}
+                  song={song}
+                  arrangement={builder.sources[song.id]}
+                  onArrangementChange={(arrangement) =>
+                    builder.chooseArrangement(song.id, arrangement)
+                  }
+                  onAddSection={(section) => builder.addSection(song, section)}
+                  onRemove={() => builder.removeSong(song.id)}
+                />
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Mashup</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-[1fr_auto] gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="mashupName">Name</Label>
+                  <Input
+                    id="mashupName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    maxLength={200}
+                    placeholder="e.g. Amazing Grace / Cornerstone"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="mashupKey">Key</Label>
+                  <Select
+                    value={key}
+                    onValueChange={(value) => setChosenKey(value as MusicalKey)}
+                  >
+                    <SelectTrigger id="mashupKey" className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MUSICAL_KEYS.map((k) => (
+                        <SelectItem key={k} value={k}>
+                          {k}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <MashupPartsList
+                parts={builder.parts}
+                sections={builder.mashup.sections}
+                onMove={builder.moveSection}
+                onRemove={builder.removeSection}
+              />
+
+              {builder.parts.length > 0 && builder.error && (
+                <p role="status" className="text-sm text-muted-foreground">
+                  {builder.error}
+                </p>
+              )}
+
+              <Button onClick={handleSave} disabled={!canSave}>
+                <Save className="mr-2 h-4 w-4" />
+                {createArrangement.isPending ? "Saving..." : "Save Mashup"}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronUp, X } from "lucide-react";
+import type { GeneratedMashup, MashupPart } from "@shared/arrangements/mashup";
+
+interface MashupPartsListProps {
+  parts: MashupPart[];
+  sections: GeneratedMashup["sections"];
+  onMove: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+}
+
+// The mashup's sections in playing order, with the bars each one covers
+export function MashupPartsList({
+  parts,
+  sections,
+  onMove,
+  onRemove,
+}: MashupPartsListProps) {
+  if (parts.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        Add sections from the songs to start building the mashup.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-2">
+      {parts.map((part, index) => (
+        <li
+          key={`${part.songId}-${part.section.label}-${index}`}
+          className="flex items-center gap-2 rounded-md border p-2 text-sm"
+        >
+          <span className="w-6 text-muted-foreground">{index + 1}.</span>
+          <div className="min-w-0 flex-1">
+            <p className="truncate font-medium">{part.section.label}</p>
+            <p className="truncate text-xs text-muted-foreground">
+              {part.songTitle} · Bars {sections[index]?.startBar}–
+              {sections[index]?.endBar}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onMove(index, index - 1)}
+            disabled={index === 0}
+            aria-label="Move up"
+          >
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onMove(index, index + 1)}
+            disabled={index === parts.length - 1}
+            aria-label="Move down"
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => onRemove(index)}
+            aria-label="Remove section"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </li>
+      ))}
+    </ol>
+  );
+}
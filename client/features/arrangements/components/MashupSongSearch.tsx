@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+import { useSearchSongs } from "@features/songs/hooks/useSongsAPI";
+import type { ClientSong } from "@features/songs/types/song.types";
+
+interface MashupSongSearchProps {
+  selectedIds: string[];
+  onAdd: (song: ClientSong) => void;
+}
+
+// Song search for adding source songs to a mashup
+export function MashupSongSearch({
+  selectedIds,
+  onAdd,
+}: MashupSongSearchProps) {
+  const [query, setQuery] = useState("");
+  const { data: results = [], isFetching } = useSearchSongs(query);
+  const available = results.filter((song) => !selectedIds.includes(song.id));
+
+  return (
+    <div className="space-y-2">
+      <Input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search songs to add..."
+        aria-label="Search songs"
+      />
+      {query.trim() && (
+        <div className="max-h-60 overflow-y-auto rounded-md border">
+          {isFetching && (
+            <p className="p-3 text-sm text-muted-foreground">Searching...</p>
+          )}
+          {!isFetching && available.length === 0 && (
+            <p className="p-3 text-sm text-muted-foreground">No songs found</p>
+          )}
+          {available.map((song) => (
+            <div
+              key={song.id}
+              className="flex items-center justify-between gap-2 border-b px-3 py-2 last:border-b-0"
+            >
+              <div className="min-w-0">
+                <p className="truncate font-medium">{song.title}</p>
+                {song.artist && (
+                  <p className="truncate text-xs text-muted-foreground">
+                    {song.artist}
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  onAdd(song);
+                  setQuery("");
+                }}
+              >
+                <Plus className="mr-1 h-3 w-3" />
+                Add
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
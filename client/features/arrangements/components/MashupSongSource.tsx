@@ -0,0 +1,123 @@
+import { useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { useArrangementsBySong } from "@features/songs/hooks/useArrangements";
+import type { Arrangement, ClientSong } from "@features/songs/types/song.types";
+import {
+  splitChordProSections,
+  type ChordProSection,
+} from "@shared/arrangements/mashup";
+
+interface MashupSongSourceProps {
+  song: ClientSong;
+  arrangement?: Arrangement;
+  onArrangementChange: (arrangement: Arrangement) => void;
+  onAddSection: (section: ChordProSection) => void;
+  onRemove: () => void;
+}
+
+// One source song: pick its arrangement, then add its sections to the mashup
+export function MashupSongSource({
+  song,
+  arrangement,
+  onArrangementChange,
+  onAddSection,
+  onRemove,
+}: MashupSongSourceProps) {
+  const { data = [], isLoading } = useArrangementsBySong(song.id);
+  const arrangements = data.filter((a) => !a.metadata?.isMashup);
+
+  // Preselect the first arrangement once they load
+  useEffect(() => {
+    if (!arrangement && arrangements.length > 0) {
+      onArrangementChange(arrangements[0]);
+    }
+  }, [arrangement, arrangements, onArrangementChange]);
+
+  const sections = useMemo(
+    () => splitChordProSections(arrangement?.chordData || ""),
+    [arrangement?.chordData],
+  );
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="truncate font-medium">{song.title}</p>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={onRemove}
+          aria-label={`Remove ${song.title}`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {!isLoading && arrangements.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          This song has no arrangements yet.
+        </p>
+      ) : (
+        <Select
+          value={arrangement?._id || ""}
+          onValueChange={(id) => {
+            const next = arrangements.find((a) => a._id === id);
+            if (next) {
+              onArrangementChange(next);
+            }
+          }}
+        >
+          <SelectTrigger aria-label={`Arrangement of ${song.title}`}>
+            <SelectValue placeholder="Choose an arrangement" />
+          </SelectTrigger>
+          <SelectContent>
+            {arrangements.map((a) => (
+              <SelectItem key={a._id} value={a._id}>
+                {a.name}
+                {a.metadata?.key && ` (${a.metadata.key})`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {sections.length > 0 && (
+        <ul className="space-y-1">
+          {sections.map((section, index) => (
+            <li
+              key={`${section.label}-${index}`}
+              className="flex items-center justify-between gap-2 text-sm"
+            >
+              <span className="truncate">
+                {section.label}
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {section.bars} bars
+                </span>
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                onClick={() => onAddSection(section)}
+                disabled={section.bars === 0}
+                aria-label={`Add ${section.label} from ${song.title}`}
+              >
+                <Plus className="mr-1 h-3 w-3" />
+                Add
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
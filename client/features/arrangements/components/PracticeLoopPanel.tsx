@@ -0,0 +1,146 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Pause, Play, Repeat } from "lucide-react";
+import { LazyChordDisplay } from "@/features/songs/components/LazyChordDisplay";
+import type { ChordNotation } from "@/features/songs/types/chord.types";
+import type { ArrangementWithMetrics } from "@/features/songs/types/song.types";
+import { usePracticeLoop } from "../hooks/usePracticeLoop";
+import {
+  PRACTICE_TEMPO_PERCENTAGES,
+  getBeatsPerBar,
+  getPracticeTempo,
+} from "@shared/arrangements/autoScroll";
+import { splitChordProSections } from "@shared/arrangements/mashup";
+
+interface PracticeLoopPanelProps {
+  arrangement: ArrangementWithMetrics;
+  transpose: number;
+  notation: ChordNotation;
+}
+
+// Loops one section at a reduced tempo with a metronome click
+export function PracticeLoopPanel({
+  arrangement,
+  transpose,
+  notation,
+}: PracticeLoopPanelProps) {
+  const { key: songKey, tempo, timeSignature } = arrangement.metadata;
+  const sections = useMemo(
+    () =>
+      splitChordProSections(arrangement.chordData).filter(
+        (section) => section.bars > 0,
+      ),
+    [arrangement.chordData],
+  );
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [percent, setPercent] = useState(75);
+
+  const section = sections[Math.min(sectionIndex, sections.length - 1)];
+  const practiceTempo = getPracticeTempo(tempo, percent);
+  const loop = usePracticeLoop({
+    bars: section?.bars ?? 1,
+    tempo: practiceTempo,
+    beatsPerBar: getBeatsPerBar(timeSignature),
+  });
+
+  if (!section) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="h-5 w-5" />
+          Practice Loop
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="practiceSection">Section</Label>
+            <Select
+              value={String(sectionIndex)}
+              onValueChange={(value) => {
+                loop.stop();
+                setSectionIndex(Number(value));
+              }}
+            >
+              <SelectTrigger id="practiceSection" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sections.map((s, index) => (
+                  <SelectItem key={`${s.label}-${index}`} value={String(index)}>
+                    {s.label} ({s.bars} bars)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="practiceTempo">Tempo</Label>
+            <Select
+              value={String(percent)}
+              onValueChange={(value) => setPercent(Number(value))}
+            >
+              <SelectTrigger id="practiceTempo" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRACTICE_TEMPO_PERCENTAGES.map((p) => (
+                  <SelectItem key={p} value={String(p)}>
+                    {p}% · {getPracticeTempo(tempo, p)} BPM
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={loop.isPlaying ? loop.stop : loop.start}
+            disabled={!loop.isSupported}
+          >
+            {loop.isPlaying ? (
+              <Pause className="mr-2 h-4 w-4" />
+            ) : (
+              <Play className="mr-2 h-4 w-4" />
+            )}
+            {loop.isPlaying ? "Stop" : "Start loop"}
+          </Button>
+        </div>
+
+        {!loop.isSupported && (
+          <p className="text-muted-foreground">
+            This browser cannot play the metronome click.
+          </p>
+        )}
+
+        {loop.position && (
+          <p role="status" className="font-medium tabular-nums">
+            Bar {loop.position.bar} of {section.bars} · Beat{" "}
+            {loop.position.beat} at {practiceTempo} BPM
+          </p>
+        )}
+
+        {/* Remounted so it follows the page's transposition */}
+        <LazyChordDisplay
+          key={`${sectionIndex}:${transpose}`}
+          content={section.content}
+          songKey={songKey}
+          notation={notation}
+          transpose={transpose}
+          fontSize="sm"
+        />
+      </CardContent>
+    </Card>
+  );
+}
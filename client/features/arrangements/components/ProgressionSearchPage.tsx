@@ -0,0 +1,131 @@
+import { useDeferredValue } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Layout } from "@/shared/components/Layout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, GitBranch } from "lucide-react";
+import { useProgressionSearch } from "../hooks/useProgressionSearch";
+import {
+  formatProgression,
+  parseProgression,
+} from "@shared/arrangements/chordProgression";
+
+const COMMON_PROGRESSIONS = ["I V vi IV", "vi IV I V", "ii V I", "I IV V"];
+
+// Finds arrangements by chord progression, in any key
+export default function ProgressionSearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") || "";
+  const deferredQuery = useDeferredValue(query.trim());
+  const parsed = parseProgression(deferredQuery);
+  const { data, isLoading, error } = useProgressionSearch(
+    deferredQuery,
+    parsed !== null,
+  );
+
+  const setQuery = (value: string) =>
+    setSearchParams(value ? { q: value } : {}, { replace: true });
+
+  return (
+    <Layout>
+      <div className="mx-auto max-w-4xl space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="flex items-center gap-2 text-2xl font-bold">
+            <GitBranch className="h-6 w-6" />
+            Progression Search
+          </h1>
+          <Button variant="outline" asChild>
+            <Link to="/arrangements">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Arrangements
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="space-y-3 pt-6">
+            <Label htmlFor="progression">Progression</Label>
+            <Input
+              id="progression"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="I V vi IV, 2m 5 1 or G D Em C"
+            />
+            <div className="flex flex-wrap gap-2">
+              {COMMON_PROGRESSIONS.map((progression) => (
+                <Button
+                  key={progression}
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setQuery(progression)}
+                >
+                  {progression.replace(/ /g, "–")}
+                </Button>
+              ))}
+            </div>
+            {deferredQuery &&
+              (parsed ? (
+                <p className="text-sm text-muted-foreground">
+                  Searching for {formatProgression(parsed.steps)}
+                  {parsed.key && ` (read in ${parsed.key})`} in any key
+                </p>
+              ) : (
+                <p className="text-sm text-destructive">
+                  Write 2 to 8 chords as numbers (1 5 6m 4), Roman numerals (I V
+                  vi IV) or chords (G D Em C)
+                </p>
+              ))}
+          </CardContent>
+        </Card>
+
+        {parsed && isLoading && (
+          <p className="text-sm text-muted-foreground">Searching...</p>
+        )}
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+        {data && data.arrangements.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No arrangements play {data.progression}
+          </p>
+        )}
+
+        {data?.arrangements.map((arrangement) => (
+          <Card key={arrangement.id}>
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center justify-between gap-2 text-base">
+                <Link
+                  to={`/arrangements/${arrangement.slug}`}
+                  className="hover:underline"
+                >
+                  {arrangement.name}
+                </Link>
+                <Badge variant="outline">Key of {arrangement.key}</Badge>
+              </CardTitle>
+              {arrangement.songTitles.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {arrangement.songTitles.join(" / ")}
+                </p>
+              )}
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-1 text-sm">
+                {arrangement.occurrences.map((occurrence, index) => (
+                  <li key={index} className="flex gap-2">
+                    <span className="w-24 shrink-0 text-muted-foreground">
+                      {occurrence.section}
+                    </span>
+                    <span className="font-mono">
+                      {occurrence.chords.join(" – ")}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,91 @@
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { useRevisionDiff } from "@/features/songs/hooks/useArrangementRevisions";
+
+interface RevisionDiffViewProps {
+  arrangementId: string;
+  from: number;
+  to: number;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  chordData: "Chords",
+  key: "Key",
+  tempo: "Tempo",
+  structure: "Structure",
+};
+
+const LINE_STYLES = {
+  equal: "text-muted-foreground",
+  added: "bg-green-50 text-green-900 dark:bg-green-950 dark:text-green-100",
+  removed: "bg-red-50 text-red-900 dark:bg-red-950 dark:text-red-100",
+};
+
+const LINE_PREFIX = { equal: " ", added: "+", removed: "-" };
+
+export function RevisionDiffView({
+  arrangementId,
+  from,
+  to,
+}: RevisionDiffViewProps) {
+  const {
+    data: diff,
+    isLoading,
+    error,
+  } = useRevisionDiff(arrangementId, from, to);
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  if (error || !diff) {
+    return (
+      <p className="text-sm text-destructive">
+        {error instanceof Error ? error.message : "Unable to compare revisions"}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">
+          Revision {diff.from.revision} → {diff.to.revision}
+        </span>
+        {diff.changedFields.map((field) => (
+          <Badge key={field} variant="secondary">
+            {FIELD_LABELS[field] || field}
+          </Badge>
+        ))}
+        <span className="text-green-700">+{diff.summary.added}</span>
+        <span className="text-red-700">-{diff.summary.removed}</span>
+      </div>
+
+      {(diff.from.key !== diff.to.key || diff.from.tempo !== diff.to.tempo) && (
+        <p className="text-sm text-muted-foreground">
+          Key {diff.from.key} → {diff.to.key}
+          {diff.from.tempo !== diff.to.tempo &&
+            `, tempo ${diff.from.tempo ?? "—"} → ${diff.to.tempo ?? "—"} BPM`}
+        </p>
+      )}
+
+      <pre className="max-h-[480px] overflow-auto rounded-md border font-mono text-sm">
+        {diff.lines.map((line, index) => (
+          <div key={index} className={cn("flex px-2", LINE_STYLES[line.type])}>
+            <span className="w-10 shrink-0 select-none text-right opacity-50">
+              {line.oldLine ?? ""}
+            </span>
+            <span className="w-10 shrink-0 select-none text-right opacity-50">
+              {line.newLine ?? ""}
+            </span>
+            <span className="w-6 shrink-0 select-none text-center">
+              {LINE_PREFIX[line.type]}
+            </span>
+            <span className="whitespace-pre-wrap">{line.text}</span>
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Mic } from "lucide-react";
+import { useUserId } from "@/shared/hooks/useAuth";
+import { useProfile } from "@/features/profile/hooks/useProfile";
+import { useUpdateArrangement } from "@/features/songs/hooks/useArrangements";
+import { VocalRangeFields } from "@/features/songs/components/VocalRangeFields";
+import { isMusicalKey } from "@/features/songs/types/chord.types";
+import type {
+  ArrangementWithMetrics,
+  VocalRange,
+} from "@/features/songs/types/song.types";
+import {
+  describeRangeFit,
+  getRangeFit,
+  isValidVocalRange,
+  recommendTranspose,
+} from "@shared/songs/vocalRange";
+
+interface VocalRangePanelProps {
+  arrangement: ArrangementWithMetrics;
+  transpose: number;
+}
+
+const formatRange = (range: VocalRange) => `${range.low}–${range.high}`;
+const formatSemitones = (semitones: number) =>
+  semitones === 0 ? "as written" : `${semitones > 0 ? "+" : ""}${semitones}`;
+
+/**
+ * The arrangement's melody range and the key that suits the signed-in
+ * user's voice. The arrangement's creator can set the melody range here.
+ */
+export function VocalRangePanel({
+  arrangement,
+  transpose,
+}: VocalRangePanelProps) {
+  const userId = useUserId();
+  const { data: profile } = useProfile(userId ?? undefined);
+  const updateArrangement = useUpdateArrangement();
+
+  const melody = arrangement.vocalRange?.low ? arrangement.vocalRange : null;
+  const [draft, setDraft] = useState<VocalRange | null>(melody);
+
+  const isOwner = Boolean(userId && arrangement.createdBy === userId);
+  const singer = profile?.profile?.vocalRange;
+  const songKey = arrangement.metadata.key;
+
+  if (!melody && !isOwner) {
+    return null;
+  }
+
+  const recommendation =
+    melody && singer
+      ? recommendTranspose(
+          melody,
+          singer,
+          isMusicalKey(songKey) ? songKey : undefined,
+        )
+      : null;
+  const current =
+    melody && singer ? getRangeFit(melody, singer, transpose) : null;
+  const currentWarning = current && describeRangeFit(current, "your range");
+
+  const draftChanged =
+    draft?.low !== melody?.low || draft?.high !== melody?.high;
+  const canSave = draftChanged && draft !== null && isValidVocalRange(draft);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mic className="h-5 w-5" />
+          Vocal Range
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p>
+          {melody
+            ? `Melody range: ${formatRange(melody)}`
+            : "No melody range set yet."}
+        </p>
+
+        {recommendation && singer && (
+          <p>
+            Recommended for your range ({formatRange(singer)}):{" "}
+            <strong>
+              {recommendation.key ?? formatSemitones(recommendation.transpose)}
+            </strong>
+            {recommendation.key &&
+              ` (${formatSemitones(recommendation.transpose)})`}
+            {!recommendation.fits && " — the closest fit, but not a full one"}
+          </p>
+        )}
+
+        {melody && userId && !singer && (
+          <p className="text-muted-foreground">
+            Add your vocal range in your profile settings to get a key
+            recommendation.
+          </p>
+        )}
+
+        {currentWarning && (
+          <p role="status" className="flex items-center gap-2 text-amber-700">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {currentWarning} at the current key.
+          </p>
+        )}
+
+        {isOwner && (
+          <div className="space-y-2">
+            <VocalRangeFields
+              id="melodyRange"
+              value={draft}
+              onChange={setDraft}
+              disabled={updateArrangement.isPending}
+            />
+            <Button
+              size="sm"
+              disabled={!canSave || updateArrangement.isPending}
+              onClick={() =>
+                draft &&
+                updateArrangement.mutate({
+                  id: arrangement._id,
+                  vocalRange: draft,
+                })
+              }
+            >
+              Save melody range
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
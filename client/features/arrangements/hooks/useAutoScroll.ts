@@ -0,0 +1,68 @@
+import { useEffect, useState, type RefObject } from "react";
+import { getScrollRate } from "@shared/arrangements/autoScroll";
+
+/**
+ * Scrolls the page so the chart passes by in `duration` seconds at
+ * `speed` × its pace: from its top at the top of the screen to its bottom
+ * at the bottom. Stops by itself at the end of the page.
+ */
+export function useAutoScroll(
+  chartRef: RefObject<HTMLElement>,
+  duration: number,
+  speed: number,
+) {
+  const [isScrolling, setIsScrolling] = useState(false);
+
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!isScrolling || !chart) {
+      return;
+    }
+
+    const rate = getScrollRate(
+      chart.offsetHeight - window.innerHeight,
+      duration,
+      speed,
+    );
+    if (rate === 0) {
+      setIsScrolling(false);
+      return;
+    }
+
+    let frame = 0;
+    let lastTime: number | null = null;
+    // Browsers round scroll positions, so whole pixels are scrolled and the
+    // fraction carried over to the next frame
+    let carry = 0;
+
+    const step = (time: number) => {
+      if (lastTime !== null) {
+        carry += (rate * (time - lastTime)) / 1000;
+        const pixels = Math.floor(carry);
+        if (pixels > 0) {
+          window.scrollBy(0, pixels);
+          carry -= pixels;
+        }
+      }
+      lastTime = time;
+
+      const atBottom =
+        window.innerHeight + window.scrollY >=
+        document.documentElement.scrollHeight - 1;
+      if (atBottom) {
+        setIsScrolling(false);
+        return;
+      }
+      frame = requestAnimationFrame(step);
+    };
+
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [isScrolling, chartRef, duration, speed]);
+
+  return {
+    isScrolling,
+    toggle: () => setIsScrolling((current) => !current),
+    pause: () => setIsScrolling(false),
+  };
+}
@@ -0,0 +1,80 @@
+import { useCallback, useMemo, useState } from "react";
+import type { Arrangement, ClientSong } from "@features/songs/types/song.types";
+import {
+  buildMashup,
+  validateMashupSections,
+  type ChordProSection,
+  type MashupPart,
+} from "@shared/arrangements/mashup";
+
+/**
+ * Mashup builder state: the source songs with their chosen arrangements,
+ * and the sections taken from them in playing order
+ */
+export function useMashupBuilder() {
+  const [songs, setSongs] = useState<ClientSong[]>([]);
+  const [sources, setSources] = useState<Record<string, Arrangement>>({});
+  const [parts, setParts] = useState<MashupPart[]>([]);
+
+  const addSong = (song: ClientSong) =>
+    setSongs((current) => [...current, song]);
+
+  const removeSong = (songId: string) => {
+    setSongs((current) => current.filter((song) => song.id !== songId));
+    setParts((current) => current.filter((part) => part.songId !== songId));
+  };
+
+  // Sections taken from the previous arrangement no longer apply
+  const chooseArrangement = useCallback(
+    (songId: string, arrangement: Arrangement) => {
+      setSources((current) => ({ ...current, [songId]: arrangement }));
+      setParts((current) => current.filter((part) => part.songId !== songId));
+    },
+    [],
+  );
+
+  const addSection = (song: ClientSong, section: ChordProSection) =>
+    setParts((current) => [
+      ...current,
+      { songId: song.id, songTitle: song.title, section },
+    ]);
+
+  const moveSection = (from: number, to: number) =>
+    setParts((current) => {
+      if (to < 0 || to >= current.length) {
+        return current;
+      }
+      const next = [...current];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+
+  const removeSection = (index: number) =>
+    setParts((current) => current.filter((_, i) => i !== index));
+
+  const mashup = useMemo(() => buildMashup(parts), [parts]);
+  const songIds = [...new Set(parts.map((part) => part.songId))];
+  const firstSource = parts[0] ? sources[parts[0].songId] : undefined;
+
+  const error =
+    songIds.length < 2
+      ? "Take sections from at least two songs"
+      : validateMashupSections(mashup.chordData, mashup.sections, songIds);
+
+  return {
+    songs,
+    sources,
+    parts,
+    mashup,
+    songIds,
+    firstSource,
+    error,
+    addSong,
+    removeSong,
+    chooseArrangement,
+    addSection,
+    moveSection,
+    removeSection,
+  };
+}
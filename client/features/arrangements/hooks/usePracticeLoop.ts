@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createMetronome,
+  getAudioContextClass,
+  type Metronome,
+} from "../utils/metronome";
+
+interface PracticeLoopOptions {
+  bars: number;
+  tempo: number;
+  beatsPerBar: number;
+}
+
+/**
+ * Loops a section of `bars` bars with a metronome click, tracking the bar
+ * and beat being played. Changing the tempo restarts the loop.
+ */
+export function usePracticeLoop({
+  bars,
+  tempo,
+  beatsPerBar,
+}: PracticeLoopOptions) {
+  const contextRef = useRef<AudioContext | null>(null);
+  const metronomeRef = useRef<Metronome | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [beat, setBeat] = useState<number | null>(null);
+  const isSupported = Boolean(getAudioContextClass());
+
+  const stop = useCallback(() => {
+    metronomeRef.current?.stop();
+    setIsPlaying(false);
+    setBeat(null);
+  }, []);
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+    const AudioContextClass = getAudioContextClass();
+    if (!AudioContextClass) {
+      setIsPlaying(false);
+      return;
+    }
+
+    // Browsers only allow audio after a user gesture, which starting is
+    contextRef.current ??= new AudioContextClass();
+    void contextRef.current.resume();
+    metronomeRef.current ??= createMetronome(contextRef.current);
+    metronomeRef.current.start({ tempo, beatsPerBar, onBeat: setBeat });
+
+    return () => metronomeRef.current?.stop();
+  }, [isPlaying, tempo, beatsPerBar]);
+
+  // Release the audio device when the practice panel goes away
+  useEffect(
+    () => () => {
+      metronomeRef.current?.stop();
+      void contextRef.current?.close();
+      metronomeRef.current = null;
+      contextRef.current = null;
+    },
+    [],
+  );
+
+  const loopBeats = Math.max(bars, 1) * beatsPerBar;
+  const position =
+    beat === null
+      ? null
+      : {
+          bar: Math.floor((beat % loopBeats) / beatsPerBar) + 1,
+          beat: (beat % beatsPerBar) + 1,
+        };
+
+  return {
+    isSupported,
+    isPlaying,
+    position,
+    start: () => setIsPlaying(true),
+    stop,
+  };
+}
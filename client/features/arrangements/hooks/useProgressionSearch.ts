@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query";
+import { authFetch } from "@/shared/utils/api-helpers";
+import type { ProgressionOccurrence } from "@shared/arrangements/chordProgression";
+
+export interface ProgressionSearchResult {
+  id: string;
+  slug: string;
+  name: string;
+  key: string;
+  songTitles: string[];
+  occurrences: ProgressionOccurrence[];
+}
+
+export interface ProgressionSearchResults {
+  progression: string; // Roman numerals, e.g. "I–V–vi–IV"
+  key?: string; // Key letter chords were read in
+  arrangements: ProgressionSearchResult[];
+}
+
+/**
+ * Public arrangements that play a chord progression, with where they
+ * play it
+ */
+export function useProgressionSearch(query: string, enabled = true) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ["search", "progressions", trimmed],
+    queryFn: async (): Promise<ProgressionSearchResults> => {
+      const params = new URLSearchParams({ q: trimmed });
+      const response = await authFetch(`/api/search/progressions?${params}`);
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || "Progression search failed");
+      }
+
+      return result.data;
+    },
+    enabled: enabled && trimmed.length > 0,
+    staleTime: 2 * 60 * 1000,
+  });
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from "react";
+import { useUserId } from "@/shared/hooks/useAuth";
+import { useProfile } from "@/features/profile/hooks/useProfile";
+import { useUpdateProfile } from "@/features/profile/hooks/useUpdateProfile";
+
+// Nudges come in bursts, so the speed is saved once they settle
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * The auto-scroll speed the signed-in user last chose for an arrangement,
+ * kept in their profile preferences
+ */
+export function useScrollSpeed(arrangementId: string) {
+  const userId = useUserId();
+  const { data: profile } = useProfile(userId ?? undefined);
+  const { updateProfile } = useUpdateProfile();
+  const [chosenSpeed, setChosenSpeed] = useState<number | null>(null);
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(saveTimer.current), []);
+
+  const speed =
+    chosenSpeed ?? profile?.preferences?.scrollSpeeds?.[arrangementId] ?? 1;
+
+  const setSpeed = (next: number) => {
+    setChosenSpeed(next);
+    if (!userId) {
+      return;
+    }
+
+    clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(() => {
+      updateProfile(userId, {
+        // The normal pace needs no saved entry
+        preferences: {
+          scrollSpeeds: { [arrangementId]: next === 1 ? null : next },
+        },
+      }).catch((error) => {
+        console.error("Failed to save scroll speed:", error);
+      });
+    }, SAVE_DELAY_MS);
+  };
+
+  return { speed, setSpeed };
+}
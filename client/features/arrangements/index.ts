@@ -1,3 +1,5 @@
 // Public exports for arrangements feature
 export { default as ArrangementsPage } from "./components/ArrangementsPage";
 export { default as ArrangementDetailPage } from "./components/ArrangementDetailPage";
+export { default as MashupBuilderPage } from "./components/MashupBuilderPage";
+export { default as ProgressionSearchPage } from "./components/ProgressionSearchPage";
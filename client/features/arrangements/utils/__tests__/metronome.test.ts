@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { createMetronome } from "../metronome";
+
+function createFakeContext() {
+  const clicks: Array<{ time: number; frequency: number }> = [];
+  const context = {
+    currentTime: 0,
+    destination: {},
+    createGain: () => ({
+      gain: {
+        setValueAtTime: vi.fn(),
+        exponentialRampToValueAtTime: vi.fn(),
+      },
+      connect: vi.fn(),
+    }),
+    createOscillator: () => {
+      const oscillator = {
+        frequency: { value: 0 },
+        connect: vi.fn(),
+        start: (time: number) =>
+          clicks.push({ time, frequency: oscillator.frequency.value }),
+        stop: vi.fn(),
+      };
+      return oscillator;
+    },
+  };
+  return { context, clicks };
+}
+
+describe("createMetronome", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("clicks on every beat and accents the first of each bar", () => {
+    vi.useFakeTimers();
+    const { context, clicks } = createFakeContext();
+    const onBeat = vi.fn();
+    const metronome = createMetronome(context as unknown as AudioContext);
+
+    metronome.start({ tempo: 120, beatsPerBar: 3, onBeat });
+    for (let ms = 0; ms < 2000; ms += 25) {
+      context.currentTime = ms / 1000;
+      vi.advanceTimersByTime(25);
+    }
+    metronome.stop();
+
+    expect(clicks.slice(0, 4).map((click) => click.time)).toEqual([
+      0.05, 0.55, 1.05, 1.55,
+    ]);
+    expect(clicks.slice(0, 4).map((click) => click.frequency)).toEqual([
+      1500, 1000, 1000, 1500,
+    ]);
+    expect(onBeat.mock.calls.map(([beat]) => beat)).toEqual([0, 1, 2, 3]);
+  });
+
+  it("stops clicking and reporting beats when stopped", () => {
+    vi.useFakeTimers();
+    const { context, clicks } = createFakeContext();
+    const onBeat = vi.fn();
+    const metronome = createMetronome(context as unknown as AudioContext);
+
+    metronome.start({ tempo: 60, beatsPerBar: 4, onBeat });
+    metronome.stop();
+    context.currentTime = 5;
+    vi.advanceTimersByTime(5000);
+
+    expect(clicks).toHaveLength(1);
+    expect(onBeat).not.toHaveBeenCalled();
+  });
+});
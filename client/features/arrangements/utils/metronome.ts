@@ -0,0 +1,84 @@
+// Clicks are scheduled on the audio clock a little ahead of time, so timer
+// jitter on the main thread never makes the beat drift
+const LOOKAHEAD_MS = 25;
+const SCHEDULE_AHEAD_SECONDS = 0.1;
+const CLICK_SECONDS = 0.05;
+
+export interface MetronomeOptions {
+  tempo: number;
+  beatsPerBar: number;
+  /** Called as each beat sounds, counting from 0 since start */
+  onBeat?: (beat: number) => void;
+}
+
+export interface Metronome {
+  start: (options: MetronomeOptions) => void;
+  stop: () => void;
+}
+
+export function getAudioContextClass(): typeof AudioContext | undefined {
+  if (typeof window === "undefined") {
+    return undefined;
+  }
+  return (
+    window.AudioContext ??
+    (window as unknown as { webkitAudioContext?: typeof AudioContext })
+      .webkitAudioContext
+  );
+}
+
+/** A Web Audio click track that accents the first beat of every bar */
+export function createMetronome(context: AudioContext): Metronome {
+  let scheduler: ReturnType<typeof setInterval> | null = null;
+  const pendingBeats = new Set<ReturnType<typeof setTimeout>>();
+
+  const click = (time: number, accent: boolean) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = accent ? 1500 : 1000;
+    gain.gain.setValueAtTime(accent ? 1 : 0.6, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + CLICK_SECONDS);
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(time);
+    oscillator.stop(time + CLICK_SECONDS);
+  };
+
+  const stop = () => {
+    if (scheduler) {
+      clearInterval(scheduler);
+      scheduler = null;
+    }
+    pendingBeats.forEach(clearTimeout);
+    pendingBeats.clear();
+  };
+
+  const start = ({ tempo, beatsPerBar, onBeat }: MetronomeOptions) => {
+    stop();
+    const secondsPerBeat = 60 / tempo;
+    let beat = 0;
+    let nextBeatTime = context.currentTime + CLICK_SECONDS;
+
+    const schedule = () => {
+      while (nextBeatTime < context.currentTime + SCHEDULE_AHEAD_SECONDS) {
+        click(nextBeatTime, beat % beatsPerBar === 0);
+        const current = beat;
+        const timeout = setTimeout(
+          () => {
+            pendingBeats.delete(timeout);
+            onBeat?.(current);
+          },
+          Math.max(0, (nextBeatTime - context.currentTime) * 1000),
+        );
+        pendingBeats.add(timeout);
+        nextBeatTime += secondsPerBeat;
+        beat += 1;
+      }
+    };
+
+    schedule();
+    scheduler = setInterval(schedule, LOOKAHEAD_MS);
+  };
+
+  return { start, stop };
+}
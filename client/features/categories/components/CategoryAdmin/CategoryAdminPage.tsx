@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Plus, RefreshCw, Shield } from "lucide-react";
+import { Layout } from "@/shared/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCurrentUser } from "@/shared/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useCategories,
+  useCategoryMutations,
+} from "../../hooks/useCategoryAdmin";
+import type {
+  CategoryRecord,
+  RecategorizeJobStatus,
+} from "../../types/category.types";
+import { CATEGORY_SCORE_THRESHOLD } from "../../utils/categoryMappings";
+import { CategoryEditor } from "./CategoryEditor";
+
+function describeJob(job: RecategorizeJobStatus): string {
+  switch (job.state) {
+    case "running":
+      return `Re-categorizing songs... ${job.processed} processed, ${job.updated} updated`;
+    case "failed":
+      return `Re-categorizing failed: ${job.error}`;
+    default:
+      return job.finishedAt
+        ? `Last run updated ${job.updated} of ${job.processed} songs`
+        : "Songs are categorized when saved and whenever rules change";
+  }
+}
+
+// Lets admins edit the rules that place songs in categories
+export default function CategoryAdminPage() {
+  const currentUser = useCurrentUser();
+  const isAdmin = currentUser?.role === "ADMIN";
+  const { toast } = useToast();
+  const { data, isLoading, error } = useCategories();
+  const { createCategory, updateCategory, deleteCategory, recategorize } =
+    useCategoryMutations();
+  const [newName, setNewName] = useState("");
+
+  const notifyError = (title: string) => (err: Error) =>
+    toast({ title, description: err.message, variant: "destructive" });
+
+  const handleSave = (category: CategoryRecord) =>
+    updateCategory.mutate(category, {
+      onSuccess: () => toast({ title: `Saved ${category.name}` }),
+      onError: notifyError("Could not save category"),
+    });
+
+  const handleDelete = (category: CategoryRecord) => {
+    if (!confirm(`Delete the category "${category.name}"?`)) {
+      return;
+    }
+    deleteCategory.mutate(category.id, {
+      onError: notifyError("Could not delete category"),
+    });
+  };
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    const id = name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    createCategory.mutate(
+      { id, name, mappingRules: [], order: data?.categories.length ?? 0 },
+      {
+        onSuccess: () => setNewName(""),
+        onError: notifyError("Could not create category"),
+      },
+    );
+  };
+
+  if (!isAdmin) {
+    return (
+      <Layout>
+        <p className="py-12 text-center text-muted-foreground">
+          Only admins can manage categories
+        </p>
+      </Layout>
+    );
+  }
+
+  const job = data?.recategorization;
+  const isSaving = updateCategory.isPending || deleteCategory.isPending;
+
+  return (
+    <Layout>
+      <div className="mx-auto max-w-4xl space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="flex items-center gap-2 text-2xl font-bold">
+            <Shield className="h-6 w-6" />
+            Category Rules
+          </h1>
+          <Button
+            variant="outline"
+            onClick={() => recategorize.mutate()}
+            disabled={job?.state === "running" || recategorize.isPending}
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Re-categorize Songs
+          </Button>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          Each rule matching a song adds its weight; songs join a category at a
+          total of {CATEGORY_SCORE_THRESHOLD} or more.
+          {job && ` ${describeJob(job)}.`}
+        </p>
+
+        {isLoading && (
+          <p className="text-sm text-muted-foreground">Loading categories...</p>
+        )}
+        {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {data?.categories.map((category) => (
+          <CategoryEditor
+            key={`${category.id}-${category.updatedAt}`}
+            category={category}
+            isSaving={isSaving}
+            onSave={handleSave}
+            onDelete={() => handleDelete(category)}
+          />
+        ))}
+
+        <div className="flex items-center gap-2">
+          <Input
+            aria-label="New category name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New category name"
+            className="max-w-xs"
+          />
+          <Button
+            onClick={handleCreate}
+            disabled={!newName.trim() || createCategory.isPending}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Category
+          </Button>
+        </div>
+      </div>
+    </Layout>
+  );
+}
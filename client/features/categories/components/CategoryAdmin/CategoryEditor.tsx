@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  CategoryMappingRule,
+  CategoryRecord,
+} from "../../types/category.types";
+
+const RULE_TYPES: { value: CategoryMappingRule["type"]; label: string }[] = [
+  { value: "theme", label: "Theme" },
+  { value: "source", label: "Source" },
+  { value: "artist", label: "Artist" },
+  { value: "title_pattern", label: "Title" },
+  { value: "lyrics_pattern", label: "Lyrics" },
+];
+
+// Rule values are edited as one comma-separated field
+interface RuleDraft {
+  type: CategoryMappingRule["type"];
+  values: string;
+  weight: number;
+}
+
+const toDraft = (rule: CategoryMappingRule): RuleDraft => ({
+  ...rule,
+  values: rule.values.join(", "),
+});
+
+const fromDraft = (rule: RuleDraft): CategoryMappingRule => ({
+  ...rule,
+  values: rule.values
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean),
+});
+
+export interface CategoryEditorProps {
+  category: CategoryRecord;
+  isSaving: boolean;
+  onSave: (category: CategoryRecord) => void;
+  onDelete: () => void;
+}
+
+export function CategoryEditor({
+  category,
+  isSaving,
+  onSave,
+  onDelete,
+}: CategoryEditorProps) {
+  const [name, setName] = useState(category.name);
+  const [isActive, setIsActive] = useState(category.isActive);
+  const [rules, setRules] = useState(category.mappingRules.map(toDraft));
+
+  const updateRule = (index: number, changes: Partial<RuleDraft>) =>
+    setRules(
+      rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    );
+
+  const savedRules = rules.map(fromDraft);
+  const canSave =
+    name.trim() !== "" && savedRules.every((rule) => rule.values.length > 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-3 space-y-0">
+        <Input
+          aria-label="Category name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="max-w-xs font-semibold"
+        />
+        <span className="text-sm text-muted-foreground">{category.id}</span>
+        <div className="ml-auto flex items-center gap-2">
+          <Switch
+            id={`active-${category.id}`}
+            checked={isActive}
+            onCheckedChange={setIsActive}
+          />
+          <Label htmlFor={`active-${category.id}`}>Active</Label>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rules.map((rule, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Select
+              value={rule.type}
+              onValueChange={(type) =>
+                updateRule(index, { type: type as RuleDraft["type"] })
+              }
+            >
+              <SelectTrigger className="w-28" aria-label="Rule field">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RULE_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              aria-label="Rule values"
+              value={rule.values}
+              onChange={(e) => updateRule(index, { values: e.target.value })}
+              placeholder="Comma-separated words to match"
+            />
+            <Input
+              aria-label="Rule weight"
+              type="number"
+              min={1}
+              max={10}
+              value={rule.weight}
+              onChange={(e) =>
+                updateRule(index, {
+                  weight: Math.min(10, Math.max(1, Number(e.target.value))),
+                })
+              }
+              className="w-20"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              aria-label="Remove rule"
+              onClick={() => setRules(rules.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setRules([...rules, { type: "theme", values: "", weight: 5 }])
+            }
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Rule
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto text-destructive"
+            onClick={onDelete}
+            disabled={isSaving}
+          >
+            Delete
+          </Button>
+          <Button
+            size="sm"
+            disabled={!canSave || isSaving}
+            onClick={() =>
+              onSave({ ...category, name, isActive, mappingRules: savedRules })
+            }
+          >
+            <Save className="mr-2 h-4 w-4" />
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
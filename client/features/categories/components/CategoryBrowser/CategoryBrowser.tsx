@@ -3,7 +3,9 @@ import { useParams, useSearchParams, Link } from "react-router-dom";
 import { Layout } from "@/shared/components/Layout";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
 import { useCategoryBrowsing } from "../../hooks/useCategoryBrowsing";
+import { useCategoryList } from "../../hooks/useCategoryAdmin";
 import { getCategoryById } from "../../utils/categoryMappings";
 import { getCategoryThemeColors } from "../../utils/categoryHelpers";
 import { useUserId } from "@/shared/hooks/useAuth";
@@ -21,8 +23,14 @@ export function CategoryBrowser() {
   const { toast } = useToast();
 
   // Get category configuration
-  const categoryConfig = categoryId ? getCategoryById(categoryId) : null;
-  const themeColors = categoryId ? getCategoryThemeColors(categoryId) : null;
+  const { data: categories = [], isLoading: categoriesLoading } =
+    useCategoryList();
+  const categoryConfig = categoryId
+    ? getCategoryById(categoryId, categories)
+    : null;
+  const themeColors = categoryId
+    ? getCategoryThemeColors(categoryConfig?.color)
+    : null;
 
   // Fetch category songs
   const currentPage = parseInt(searchParams.get("page") || "1");
@@ -87,6 +95,17 @@ export function CategoryBrowser() {
     [userId, toast],
   );
 
+  // The category is only unknown once the list has loaded
+  if (categoriesLoading) {
+    return (
+      <Layout>
+        <div className="max-w-7xl mx-auto">
+          <Skeleton className="h-32 w-full" />
+        </div>
+      </Layout>
+    );
+  }
+
   // Handle invalid category
   if (!categoryId || !categoryConfig) {
     return (
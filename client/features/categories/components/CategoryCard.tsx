@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import type { CategoryCardProps } from "@features/categories/types/category.types";
+import { useCategoryList } from "@features/categories/hooks/useCategoryAdmin";
 import { getCategoryById } from "@features/categories/utils/categoryMappings";
 import {
   getCategoryThemeColors,
@@ -12,13 +13,15 @@ import {
 
 export const CategoryCard = memo<CategoryCardProps>(
   ({ category, onClick, isLoading = false }) => {
-    const categoryConfig = getCategoryById(category.id);
-    const themeColors = getCategoryThemeColors(category.id);
+    const { data: categories = [], isLoading: categoriesLoading } =
+      useCategoryList();
+    const categoryConfig = getCategoryById(category.id, categories);
+    const themeColors = getCategoryThemeColors(categoryConfig?.color);
     const { formattedRating } = formatCategoryStats(category);
 
     const IconComponent = categoryConfig?.icon;
 
-    if (isLoading) {
+    if (isLoading || categoriesLoading) {
       return (
         <Card className="animate-pulse">
           <CardHeader className="pb-2">
@@ -0,0 +1,116 @@
+import {
+  queryOptions,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { authFetch } from "@/shared/utils/api-helpers";
+import type {
+  CategoryRecord,
+  RecategorizeJobStatus,
+  SpiritualCategory,
+} from "@features/categories/types/category.types";
+import { getCategoryIcon } from "@features/categories/utils/categoryMappings";
+
+export interface CategoriesResponse {
+  categories: CategoryRecord[];
+  recategorization: RecategorizeJobStatus;
+}
+
+export type CategoryInput = Partial<Omit<CategoryRecord, "updatedAt">>;
+
+// API functions
+const fetchCategories = async (): Promise<CategoriesResponse> => {
+  const response = await authFetch("/api/categories");
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error?.message || "Failed to fetch categories");
+  }
+  return {
+    categories: result.data,
+    recategorization: result.meta.recategorization,
+  };
+};
+
+// Every category with its rules, for admins and for browsing alike
+export const categoriesQuery = queryOptions({
+  queryKey: ["categories", "all"],
+  queryFn: fetchCategories,
+});
+
+// Categories songs can be assigned to, with their icons
+const selectActiveCategories = ({
+  categories,
+}: CategoriesResponse): SpiritualCategory[] =>
+  categories
+    .filter((category) => category.isActive)
+    .map((category) => ({ ...category, icon: getCategoryIcon(category.id) }));
+
+// The server names categories by categoryId and rules by their own name
+const toRequestBody = ({ id, mappingRules, ...fields }: CategoryInput) =>
+  JSON.stringify({ ...fields, categoryId: id, rules: mappingRules });
+
+const sendCategory = async (
+  url: string,
+  method: "POST" | "PUT" | "DELETE",
+  body?: string,
+) => {
+  const response = await authFetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body,
+  });
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error?.message || "Failed to save category");
+  }
+  return result.data;
+};
+
+// Hooks
+export const useCategories = () => {
+  return useQuery({
+    ...categoriesQuery,
+    // Follow the re-categorize job while it runs
+    refetchInterval: (query) =>
+      query.state.data?.recategorization.state === "running" ? 2000 : false,
+  });
+};
+
+export const useCategoryList = () => {
+  return useQuery({
+    ...categoriesQuery,
+    select: selectActiveCategories,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useCategoryMutations = () => {
+  const queryClient = useQueryClient();
+  // Songs and counts change once the catalog is re-categorized
+  const onSuccess = () =>
+    queryClient.invalidateQueries({ queryKey: ["categories"] });
+
+  return {
+    createCategory: useMutation({
+      mutationFn: (category: CategoryInput) =>
+        sendCategory("/api/categories", "POST", toRequestBody(category)),
+      onSuccess,
+    }),
+    updateCategory: useMutation({
+      mutationFn: ({ id, ...category }: CategoryInput & { id: string }) =>
+        sendCategory(`/api/categories/${id}`, "PUT", toRequestBody(category)),
+      onSuccess,
+    }),
+    deleteCategory: useMutation({
+      mutationFn: (id: string) =>
+        sendCategory(`/api/categories/${id}`, "DELETE"),
+      onSuccess,
+    }),
+    recategorize: useMutation({
+      mutationFn: (): Promise<RecategorizeJobStatus> =>
+        sendCategory("/api/categories/recategorize", "POST"),
+      onSuccess,
+    }),
+  };
+};
@@ -1,6 +1,7 @@
 import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useCategoryStats } from "./useCategoryStats";
+import { useCategoryList } from "./useCategoryAdmin";
 import {
   generateCategoryInsights,
   getCategoryRecommendations,
@@ -64,17 +65,19 @@ export function useCategoryRecommendations(
   limit: number = 3,
 ) {
   const { data: categoryStats, ...query } = useCategoryStats();
+  const { data: categories } = useCategoryList();
 
   const recommendations = useMemo(() => {
-    if (!categoryStats) {
+    if (!categoryStats || !categories) {
       return [];
     }
 
-    return getCategoryRecommendations(userFavoriteThemes, categoryStats).slice(
-      0,
-      limit,
-    );
-  }, [categoryStats, userFavoriteThemes, limit]);
+    return getCategoryRecommendations(
+      userFavoriteThemes,
+      categoryStats,
+      categories,
+    ).slice(0, limit);
+  }, [categoryStats, categories, userFavoriteThemes, limit]);
 
   return {
     ...query,
@@ -13,6 +13,7 @@ interface CategorySongsResponse {
       totalPages: number;
       hasNextPage: boolean;
       hasPrevPage: boolean;
+      nextCursor?: string | null; // Missing for searches, which page by number
     };
     category: {
       id: string;
@@ -150,13 +151,17 @@ export function useCategoryBrowsingInfinite(
       "infinite",
       { limit, sortBy, searchQuery },
     ],
-    queryFn: async ({ pageParam = 1 }): Promise<CategorySongsResponse> => {
+    queryFn: async ({ pageParam }): Promise<CategorySongsResponse> => {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000);
 
       try {
         const searchParams = new URLSearchParams();
-        searchParams.append("page", String(pageParam));
+        if (pageParam.cursor) {
+          searchParams.append("cursor", pageParam.cursor);
+        } else {
+          searchParams.append("page", String(pageParam.page));
+        }
         searchParams.append("limit", String(limit));
         searchParams.append("sortBy", sortBy);
 
@@ -191,10 +196,17 @@ export function useCategoryBrowsingInfinite(
         throw error;
       }
     },
-    initialPageParam: 1,
-    getNextPageParam: (lastPage) => {
-      const { hasNextPage, page } = lastPage.meta.pagination;
-      return hasNextPage ? page + 1 : undefined;
+    // Cursors keep deep pages fast; searches fall back to page numbers
+    initialPageParam: { page: 1 } as { page: number; cursor?: string },
+    getNextPageParam: (lastPage, _pages, lastPageParam) => {
+      const { hasNextPage, nextCursor } = lastPage.meta.pagination;
+      if (!hasNextPage) {
+        return undefined;
+      }
+      return {
+        page: lastPageParam.page + 1,
+        cursor: nextCursor ?? undefined,
+      };
     },
     staleTime: 2 * 60 * 1000, // 2 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes
@@ -1,8 +1,9 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient, QueryClient } from "@tanstack/react-query";
 import type {
   CategoryStats,
   CategoryStatsResponse,
 } from "@features/categories/types/category.types";
+import { categoriesQuery } from "./useCategoryAdmin";
 
 interface CategoryStatsQueryParams {
   includeEmpty?: boolean;
@@ -10,7 +11,22 @@ interface CategoryStatsQueryParams {
   limit?: number;
 }
 
+// Mock stats for the stored categories, or none when they cannot be loaded
+async function loadMockCategoryStats(
+  queryClient: QueryClient,
+): Promise<CategoryStats[]> {
+  const [{ generateMockCategoryStats }, categories] = await Promise.all([
+    import("../utils/categoryHelpers"),
+    queryClient.fetchQuery(categoriesQuery).then(
+      (data) => data.categories,
+      () => [],
+    ),
+  ]);
+  return generateMockCategoryStats(categories);
+}
+
 export function useCategoryStats(params: CategoryStatsQueryParams = {}) {
+  const queryClient = useQueryClient();
   return useQuery({
     queryKey: ["categories", "stats", params],
     queryFn: async (): Promise<CategoryStats[]> => {
@@ -40,10 +56,7 @@ export function useCategoryStats(params: CategoryStatsQueryParams = {}) {
           // If API is not available, fallback to mock data
           if (response.status >= 500) {
             console.warn("Categories API not available, using mock data");
-            const { generateMockCategoryStats } = await import(
-              "../utils/categoryHelpers"
-            );
-            return generateMockCategoryStats();
+            return loadMockCategoryStats(queryClient);
           }
           throw new Error(
             `Failed to fetch category stats: ${response.statusText}`,
@@ -69,10 +82,7 @@ export function useCategoryStats(params: CategoryStatsQueryParams = {}) {
         }
 
         // Fallback to mock data for development and error scenarios
-        const { generateMockCategoryStats } = await import(
-          "../utils/categoryHelpers"
-        );
-        return generateMockCategoryStats();
+        return loadMockCategoryStats(queryClient);
       }
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
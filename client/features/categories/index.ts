@@ -1,8 +1,11 @@
 // Category types
 export type {
   SpiritualCategory,
+  CategoryDefinition,
   CategoryMappingRule,
   CategoryStats,
+  CategoryRecord,
+  RecategorizeJobStatus,
   CategoryBrowsingState,
   CategorizedSong,
   CategoryStatsResponse,
@@ -22,11 +25,11 @@ export {
 
 // Category mappings and utilities
 export {
-  SPIRITUAL_CATEGORIES,
-  assignSongCategories,
+  CATEGORY_SCORE_THRESHOLD,
+  scoreSongCategories,
+  getCategoryIcon,
   getCategoryById,
   getCategoryColorClass,
-  getAllCategories,
   getCategoriesByPopularity,
   filterCategories,
   categoryIdToSlug,
@@ -53,6 +56,7 @@ export {
 export { CategoryGrid, CategoryGridCompact } from "./components/CategoryGrid";
 export { CategoryCard } from "./components/CategoryCard";
 export { CategoryBrowser } from "./components/CategoryBrowser";
+export { default as CategoryAdminPage } from "./components/CategoryAdmin/CategoryAdminPage";
 // export { CategoryFilters } from './components/CategoryFilters';
 
 // Hooks
@@ -70,6 +74,15 @@ export {
   useCategoryBrowsingState,
 } from "./hooks/useCategoryBrowsing";
 
+export {
+  categoriesQuery,
+  useCategories,
+  useCategoryList,
+  useCategoryMutations,
+  type CategoriesResponse,
+  type CategoryInput,
+} from "./hooks/useCategoryAdmin";
+
 export {
   useCategoryAnalytics,
   useTrendingCategories,
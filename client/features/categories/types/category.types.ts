@@ -1,40 +1,26 @@
 import { z } from "zod";
 import { ComponentType } from "react";
 import type { ClientSong } from "@features/songs/types/song.types";
+import type {
+  CategoryDefinition,
+  CategoryMappingRule,
+} from "@shared/types/category.types";
+
+export type { CategoryDefinition, CategoryMappingRule };
 
 // Lucide icon component type
-type LucideIcon = ComponentType<{ className?: string }>;
+export type LucideIcon = ComponentType<{ className?: string }>;
 
 /**
  * Spiritual category for organizing worship songs
  * Based on worship themes and theological concepts
  * @interface SpiritualCategory
  */
-export interface SpiritualCategory {
-  /** Unique category identifier */
-  id: string;
-  /** Display name of the category */
-  name: string;
-  /** Detailed description of the category's purpose */
-  description: string;
-  /** Tailwind color class for theming (e.g., "blue", "green") */
-  color: string;
+export interface SpiritualCategory extends CategoryDefinition {
   /** Lucide React icon component for visual representation */
   icon: LucideIcon;
   /** Optional nested subcategories for hierarchical organization */
   subcategories?: SpiritualCategory[];
-  /** Rules for automatically categorizing songs */
-  mappingRules: CategoryMappingRule[];
-}
-
-/**
- * Rule for automatically mapping songs to categories
- * @interface CategoryMappingRule
- */
-export interface CategoryMappingRule {
-  type: "theme" | "source" | "artist" | "title_pattern" | "lyrics_pattern";
-  values: string[];
-  weight: number; // 1-10 for fuzzy matching
 }
 
 /**
@@ -96,6 +82,33 @@ export interface CategoryStatsResponse {
   };
 }
 
+/**
+ * A category as stored on the server, with rules admins can edit
+ * @interface CategoryRecord
+ */
+export interface CategoryRecord extends CategoryDefinition {
+  order: number;
+  /** Inactive categories are not assigned to songs */
+  isActive: boolean;
+  updatedAt?: string;
+}
+
+/**
+ * Progress of the server job that stores categories on every song after
+ * the rules change
+ * @interface RecategorizeJobStatus
+ */
+export interface RecategorizeJobStatus {
+  state: "idle" | "running" | "failed";
+  /** Another run follows because rules changed during this one */
+  queued: boolean;
+  processed: number;
+  updated: number;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+}
+
 // Zod validation schemas
 export const categoryStatsSchema = z.object({
   id: z.string(),
@@ -1,6 +1,11 @@
-import type { CategoryStats, CategorizedSong } from "../types/category.types";
+import type {
+  CategoryDefinition,
+  CategoryStats,
+  CategorizedSong,
+} from "../types/category.types";
 import type { ClientSong } from "@features/songs/types/song.types";
-import { SPIRITUAL_CATEGORIES, getCategoryById } from "./categoryMappings";
+import type { CategoryRuleSet } from "@shared/types/category.types";
+import { getCategoryById, scoreSongCategories } from "./categoryMappings";
 
 // Sort categories by various criteria
 export function sortCategories(
@@ -32,14 +37,23 @@ export function filterCategoriesByMinSongs(
 }
 
 // Calculate category diversity score (how many different categories a song belongs to)
-export function calculateCategoryDiversity(song: ClientSong): number {
-  const { categories } = assignClientSongCategories(song);
+export function calculateCategoryDiversity(
+  song: ClientSong,
+  categoryRules: CategoryRuleSet[],
+): number {
+  const { categories } = assignClientSongCategories(song, categoryRules);
   return categories.length;
 }
 
 // Get dominant category for a song (highest scoring category)
-export function getDominantCategory(song: ClientSong): string | null {
-  const { categories, scores } = assignClientSongCategories(song);
+export function getDominantCategory(
+  song: ClientSong,
+  categoryRules: CategoryRuleSet[],
+): string | null {
+  const { categories, scores } = assignClientSongCategories(
+    song,
+    categoryRules,
+  );
   if (categories.length === 0) {
     return null;
   }
@@ -49,68 +63,29 @@ export function getDominantCategory(song: ClientSong): string | null {
   );
 }
 
-// Client-side category assignment (simplified version for ClientSong)
-export function assignClientSongCategories(song: ClientSong): {
+// Client-side category assignment with the rules fetched from the API;
+// songs from the API carry the categories the server stored for them
+export function assignClientSongCategories(
+  song: ClientSong,
+  categoryRules: CategoryRuleSet[],
+): {
   categories: string[];
   scores: Record<string, number>;
 } {
-  const categoryScores: Record<string, number> = {};
-
-  SPIRITUAL_CATEGORIES.forEach((category) => {
-    let score = 0;
-
-    category.mappingRules.forEach((rule) => {
-      switch (rule.type) {
-        case "theme":
-          if (
-            song.themes?.some((theme) =>
-              rule.values.some((value) =>
-                theme.toLowerCase().includes(value.toLowerCase()),
-              ),
-            )
-          ) {
-            score += rule.weight;
-          }
-          break;
-        case "artist":
-          if (
-            song.artist &&
-            rule.values.some((value) =>
-              song.artist!.toLowerCase().includes(value.toLowerCase()),
-            )
-          ) {
-            score += rule.weight;
-          }
-          break;
-        case "title_pattern":
-          if (
-            rule.values.some((pattern) =>
-              song.title.toLowerCase().includes(pattern.toLowerCase()),
-            )
-          ) {
-            score += rule.weight;
-          }
-          break;
-        // Skip 'source' and 'lyrics_pattern' as they're not available in ClientSong
-      }
-    });
-
-    if (score >= 5) {
-      // Minimum threshold
-      categoryScores[category.id] = score;
-    }
-  });
-
-  const categories = Object.keys(categoryScores);
-  return { categories, scores: categoryScores };
+  const { categories, scores } = scoreSongCategories(song, categoryRules);
+  return { categories: song.categories ?? categories, scores };
 }
 
 // Enhance songs with category information
 export function enhanceSongsWithCategories(
   songs: ClientSong[],
+  categoryRules: CategoryRuleSet[],
 ): CategorizedSong[] {
   return songs.map((song) => {
-    const { categories, scores } = assignClientSongCategories(song);
+    const { categories, scores } = assignClientSongCategories(
+      song,
+      categoryRules,
+    );
 
     return {
       ...song,
@@ -230,14 +205,12 @@ export function formatCategoryStats(category: CategoryStats): {
 }
 
 // Get category theme colors for UI consistency
-export function getCategoryThemeColors(categoryId: string): {
+export function getCategoryThemeColors(color: string | undefined): {
   background: string;
   text: string;
   border: string;
   hover: string;
 } {
-  const category = getCategoryById(categoryId);
-
   const colorMap: Record<string, any> = {
     blue: {
       background: "bg-blue-50",
@@ -278,7 +251,7 @@ export function getCategoryThemeColors(categoryId: string): {
   };
 
   return (
-    colorMap[category?.color || "gray"] || {
+    colorMap[color || "gray"] || {
       background: "bg-gray-50",
       text: "text-gray-700",
       border: "border-gray-200",
@@ -288,8 +261,10 @@ export function getCategoryThemeColors(categoryId: string): {
 }
 
 // Mock data generator for development and testing
-export function generateMockCategoryStats(): CategoryStats[] {
-  return SPIRITUAL_CATEGORIES.map((category, index) => ({
+export function generateMockCategoryStats(
+  categories: CategoryDefinition[],
+): CategoryStats[] {
+  return categories.map((category, index) => ({
     id: category.id,
     name: category.name,
     songCount: Math.floor(Math.random() * 50) + 5, // 5-55 songs
@@ -327,6 +302,7 @@ export function hasRecentActivity(
 export function getCategoryRecommendations(
   userFavoriteThemes: string[],
   categories: CategoryStats[],
+  categoryRules: CategoryRuleSet[],
 ): CategoryStats[] {
   if (userFavoriteThemes.length === 0) {
     return sortCategories(categories, "popular").slice(0, 3);
@@ -334,12 +310,12 @@ export function getCategoryRecommendations(
 
   // Score categories based on theme overlap
   const scoredCategories = categories.map((category) => {
-    const spiritualCategory = getCategoryById(category.id);
-    if (!spiritualCategory) {
+    const rules = getCategoryById(category.id, categoryRules);
+    if (!rules) {
       return { ...category, recommendationScore: 0 };
     }
 
-    const themeOverlap = spiritualCategory.mappingRules
+    const themeOverlap = rules.mappingRules
       .filter((rule) => rule.type === "theme")
       .reduce((score, rule) => {
         const overlap = rule.values.filter((value) =>
@@ -2,7 +2,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
-import { Music, Palette, Type } from "lucide-react";
+import { Languages, Music, Palette, Type } from "lucide-react";
+import { CHORD_NOTATIONS } from "@features/songs/utils/chordNotation";
+import type { ChordNotation } from "@features/songs/types/chord.types";
 
 const MUSICAL_KEYS = [
   "C", "C#", "Db", "D", "D#", "Eb", "E", "F", "F#", "Gb", "G", "G#", "Ab", "A", "A#", "Bb", "B",
@@ -13,6 +15,7 @@ interface PreferencesCardProps {
     defaultKey: string;
     fontSize: number;
     theme: "light" | "dark" | "stage";
+    notation: ChordNotation;
   };
   onChange: (field: string, value: string | number) => void;
 }
@@ -48,6 +51,28 @@ export function PreferencesCard({ formData, onChange }: PreferencesCardProps) {
           </Select>
         </div>
 
+        <div className="space-y-2">
+          <Label htmlFor="notation">
+            <Languages className="w-4 h-4 inline mr-2" />
+            Chord Notation
+          </Label>
+          <Select
+            value={formData.notation}
+            onValueChange={(value: ChordNotation) => onChange("notation", value)}
+          >
+            <SelectTrigger id="notation">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CHORD_NOTATIONS) as ChordNotation[]).map((notation) => (
+                <SelectItem key={notation} value={notation}>
+                  {CHORD_NOTATIONS[notation]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <div className="space-y-2">
           <Label htmlFor="theme">
             <Palette className="w-4 h-4 inline mr-2" />
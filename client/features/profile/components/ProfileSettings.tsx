@@ -4,9 +4,14 @@ import { useToast } from "@/hooks/use-toast";
 import { Save } from "lucide-react";
 import { UserProfile, UserPrivacySettings } from "@features/profile/types/profile.types";
 import { useUpdateProfile } from "@features/profile/hooks/useUpdateProfile";
+import { useUserPreferences } from "@/shared/hooks/useAuth";
+import { useOfflinePreferences } from "@/shared/hooks/useIndexedDB";
 import { ProfileInfoCard } from "./ProfileInfoCard";
 import { PreferencesCard } from "./PreferencesCard";
 import { PrivacySettingsCard } from "./PrivacySettingsCard";
+import { VocalRangeCard } from "./VocalRangeCard";
+import { isValidVocalRange } from "@shared/songs/vocalRange";
+import type { VocalRange } from "@features/songs/types/song.types";
 
 interface ProfileSettingsProps {
   profile: UserProfile;
@@ -22,6 +27,8 @@ export function ProfileSettings({ profile, onUpdate }: ProfileSettingsProps) {
     profileError,
     privacyError,
   } = useUpdateProfile();
+  const { updatePreferences } = useUserPreferences();
+  const { savePreferences } = useOfflinePreferences();
 
   const [formData, setFormData] = useState({
     name: profile.name,
@@ -31,8 +38,13 @@ export function ProfileSettings({ profile, onUpdate }: ProfileSettingsProps) {
     defaultKey: profile.preferences?.defaultKey || "none",
     fontSize: profile.preferences?.fontSize || 16,
     theme: profile.preferences?.theme || "light" as "light" | "dark" | "stage",
+    notation: profile.preferences?.notation || "english" as "english" | "german" | "latin",
   });
 
+  const [vocalRange, setVocalRange] = useState<VocalRange | null>(
+    profile.profile?.vocalRange || null,
+  );
+
   // Privacy settings state
   const [privacyData, setPrivacyData] = useState<UserPrivacySettings>({
     isPublic: profile.profilePrivacy?.isPublic || false,
@@ -76,7 +88,23 @@ export function ProfileSettings({ profile, onUpdate }: ProfileSettingsProps) {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (vocalRange && !isValidVocalRange(vocalRange)) {
+      toast({
+        title: "Invalid vocal range",
+        description: "Choose both notes, with the lowest note below the highest.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
+      const preferences = {
+        defaultKey: formData.defaultKey === "none" ? undefined : formData.defaultKey,
+        fontSize: formData.fontSize,
+        theme: formData.theme,
+        notation: formData.notation,
+      };
+
       // Update profile information
       await updateProfile(profile._id, {
         name: formData.name,
@@ -84,12 +112,17 @@ export function ProfileSettings({ profile, onUpdate }: ProfileSettingsProps) {
           bio: formData.bio,
           website: formData.website,
           location: formData.location,
+          vocalRange,
         },
-        preferences: {
-          defaultKey: formData.defaultKey === "none" ? undefined : formData.defaultKey,
-          fontSize: formData.fontSize,
-          theme: formData.theme,
-        },
+        preferences,
+      });
+
+      // Apply the new preferences now and keep a copy for offline use
+      updatePreferences(preferences);
+      await savePreferences({
+        userId: profile._id,
+        ...preferences,
+        lastSync: Date.now(),
       });
 
       // Update privacy settings
@@ -153,10 +186,13 @@ export function ProfileSettings({ profile, onUpdate }: ProfileSettingsProps) {
           defaultKey: formData.defaultKey,
           fontSize: formData.fontSize,
           theme: formData.theme,
+          notation: formData.notation,
         }}
         onChange={handleFormChange}
       />
 
+      <VocalRangeCard vocalRange={vocalRange} onChange={setVocalRange} />
+
       <PrivacySettingsCard
         privacyData={privacyData}
         onChange={handlePrivacyChange}
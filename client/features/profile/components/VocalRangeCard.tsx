@@ -0,0 +1,35 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { VocalRangeFields } from "@features/songs/components/VocalRangeFields";
+import type { VocalRange } from "@features/songs/types/song.types";
+
+interface VocalRangeCardProps {
+  vocalRange: VocalRange | null;
+  onChange: (vocalRange: VocalRange | null) => void;
+}
+
+export function VocalRangeCard({ vocalRange, onChange }: VocalRangeCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Vocal Range</CardTitle>
+        <CardDescription>
+          The notes you sing comfortably, used to recommend keys and to assign
+          you songs in setlists
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <VocalRangeFields
+          id="vocalRange"
+          value={vocalRange}
+          onChange={onChange}
+        />
+      </CardContent>
+    </Card>
+  );
+}
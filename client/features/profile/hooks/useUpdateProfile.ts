@@ -1,6 +1,7 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiClient as api } from "@/shared/services/api";
 import { UserPrivacySettings } from "@features/profile/types/profile.types";
+import type { VocalRange } from "@features/songs/types/song.types";
 
 interface UpdateProfileData {
   name?: string;
@@ -8,11 +9,16 @@ interface UpdateProfileData {
     bio?: string;
     website?: string;
     location?: string;
+    /** null clears the stored range */
+    vocalRange?: VocalRange | null;
   };
   preferences?: {
     defaultKey?: string;
     fontSize?: number;
     theme?: "light" | "dark" | "stage";
+    notation?: "english" | "german" | "latin";
+    /** null forgets the speed saved for that arrangement */
+    scrollSpeeds?: Record<string, number | null>;
   };
 }
 
@@ -1,3 +1,5 @@
+import type { VocalRange } from "@features/songs/types/song.types";
+
 /**
  * Complete user profile with preferences and statistics
  * @interface UserProfile
@@ -21,6 +23,10 @@ export interface UserProfile {
     fontSize: number;
     /** Visual theme selection */
     theme: "light" | "dark" | "stage";
+    /** Note names used to display chords */
+    notation?: "english" | "german" | "latin";
+    /** Auto-scroll speed by arrangement ID */
+    scrollSpeeds?: Record<string, number>;
   };
   /** Public profile information */
   profile: {
@@ -30,6 +36,8 @@ export interface UserProfile {
     website?: string;
     /** Geographic location */
     location?: string;
+    /** Lowest and highest notes the user sings comfortably */
+    vocalRange?: VocalRange;
   };
   /** Privacy settings for profile visibility */
   profilePrivacy?: UserPrivacySettings;
@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useSearchSongs } from "@features/songs/hooks/useSongsAPI";
+import { useArrangementsBySong } from "@features/songs/hooks/useArrangements";
+import type { ClientSong } from "@features/songs/types/song.types";
+import type { SetlistArrangementRef } from "../types/setlist.types";
+
+interface AddSongDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdd: (songId: string, arrangement: SetlistArrangementRef) => void;
+  /** Song to start with instead of searching, e.g. from a recommendation */
+  initialSong?: ClientSong | null;
+}
+
+export default function AddSongDialog({
+  open,
+  onOpenChange,
+  onAdd,
+  initialSong = null,
+}: AddSongDialogProps) {
+  const [query, setQuery] = useState("");
+  const [song, setSong] = useState<ClientSong | null>(null);
+  const [arrangementId, setArrangementId] = useState("");
+
+  const { data: results = [], isFetching } = useSearchSongs(query, open);
+  const { data: arrangements = [], isLoading: arrangementsLoading } =
+    useArrangementsBySong(song?.id || "");
+
+  useEffect(() => {
+    if (open) {
+      setSong(initialSong);
+    } else {
+      setQuery("");
+      setSong(null);
+      setArrangementId("");
+    }
+  }, [open, initialSong]);
+
+  // Preselect the first arrangement once they load
+  useEffect(() => {
+    if (arrangements.length > 0 && !arrangementId) {
+      setArrangementId(arrangements[0]._id);
+    }
+  }, [arrangements, arrangementId]);
+
+  const handleAdd = () => {
+    const arrangement = arrangements.find((a) => a._id === arrangementId);
+    if (!song || !arrangement) {
+      return;
+    }
+    onAdd(song.id, {
+      _id: arrangement._id,
+      name: arrangement.name,
+      slug: arrangement.slug,
+      key: arrangement.metadata?.key,
+      tempo: arrangement.metadata?.tempo,
+      timeSignature: arrangement.metadata?.timeSignature,
+      songIds: [{ _id: song.id, title: song.title, artist: song.artist }],
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Add Song</DialogTitle>
+          <DialogDescription>
+            Search for a song, then choose which arrangement to play.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <Input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSong(null);
+              setArrangementId("");
+            }}
+            placeholder="Search by title or artist..."
+            aria-label="Search songs"
+            autoFocus
+          />
+
+          {!song && query.trim() && (
+            <div className="max-h-60 overflow-y-auto rounded-md border">
+              {isFetching && (
+                <p className="p-3 text-sm text-muted-foreground">
+                  Searching...
+                </p>
+              )}
+              {!isFetching && results.length === 0 && (
+                <p className="p-3 text-sm text-muted-foreground">
+                  No songs found
+                </p>
+              )}
+              {results.map((result) => (
+                <button
+                  key={result.id}
+                  type="button"
+                  onClick={() => setSong(result)}
+                  className={cn(
+                    "w-full px-3 py-2 text-left hover:bg-accent",
+                    "border-b last:border-b-0",
+                  )}
+                >
+                  <p className="font-medium">{result.title}</p>
+                  {result.artist && (
+                    <p className="text-xs text-muted-foreground">
+                      {result.artist}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {song && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                <span className="font-medium">{song.title}</span>
+                {song.artist && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {song.artist}
+                  </span>
+                )}
+              </p>
+              <label className="text-sm font-medium">Arrangement</label>
+              {!arrangementsLoading && arrangements.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  This song has no arrangements yet.
+                </p>
+              ) : (
+                <Select value={arrangementId} onValueChange={setArrangementId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose an arrangement" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {arrangements.map((arrangement) => (
+                      <SelectItem key={arrangement._id} value={arrangement._id}>
+                        {arrangement.name}
+                        {arrangement.metadata?.key &&
+                          ` (${arrangement.metadata.key})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleAdd}
+            disabled={!song || !arrangementId}
+          >
+            Add to Setlist
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useDeleteSetlist } from "../hooks/useSetlists";
+
+interface DeleteSetlistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  setlistId: string;
+  setlistName: string;
+  onDeleted: () => void;
+}
+
+export default function DeleteSetlistDialog({
+  open,
+  onOpenChange,
+  setlistId,
+  setlistName,
+  onDeleted,
+}: DeleteSetlistDialogProps) {
+  const deleteSetlist = useDeleteSetlist();
+  const { toast } = useToast();
+
+  const handleDelete = () => {
+    deleteSetlist.mutate(setlistId, {
+      onSuccess: () => {
+        toast({ title: "Setlist deleted" });
+        onDeleted();
+      },
+      onError: (err) => {
+        toast({
+          title: "Error",
+          description: err.message,
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete setlist?</AlertDialogTitle>
+          <AlertDialogDescription>
+            &quot;{setlistName}&quot; will be permanently deleted. Anyone with
+            its share link will lose access.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleDelete}
+            disabled={deleteSetlist.isPending}
+          >
+            Delete
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
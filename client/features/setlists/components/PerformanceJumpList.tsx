@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { ListMusic } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ClientSetlistItem } from "../types/setlist.types";
+import { getArrangementRef, getItemTitle } from "../utils/setlistItems";
+
+interface PerformanceJumpListProps {
+  items: ClientSetlistItem[];
+  currentIndex: number;
+  onSelect: (index: number) => void;
+}
+
+export default function PerformanceJumpList({
+  items,
+  currentIndex,
+  onSelect,
+}: PerformanceJumpListProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <ListMusic className="h-5 w-5 mr-1" />
+          Songs
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="left" data-theme="stage">
+        <SheetHeader>
+          <SheetTitle>Jump to song</SheetTitle>
+        </SheetHeader>
+        <ol className="mt-4 space-y-1">
+          {items.map((item, index) => (
+            <li key={`${item.songId}-${index}`}>
+              <button
+                type="button"
+                onClick={() => {
+                  onSelect(index);
+                  setOpen(false);
+                }}
+                className={cn(
+                  "w-full rounded-md px-3 py-3 text-left text-lg hover:bg-accent",
+                  index === currentIndex && "bg-accent font-semibold",
+                )}
+              >
+                <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                {getItemTitle(item)}
+                {getArrangementRef(item)?.key && (
+                  <span className="ml-2 text-sm text-muted-foreground">
+                    {getArrangementRef(item)?.key}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Flag,
+  Maximize,
+  Minus,
+  Plus,
+  X,
+} from "lucide-react";
+import { LazyChordDisplay } from "@features/songs/components/LazyChordDisplay";
+import { useChordNotation } from "@features/songs/hooks/useChordNotation";
+import type { CapoMode, FontSize } from "@features/songs/types/chord.types";
+import type { ClientSetlist } from "../types/setlist.types";
+import { usePerformanceNavigation } from "../hooks/usePerformanceNavigation";
+import { getArrangementRef, getItemTitle } from "../utils/setlistItems";
+import PerformanceJumpList from "./PerformanceJumpList";
+
+const FONT_SIZES: FontSize[] = ["sm", "base", "lg", "xl"];
+
+interface PerformanceViewProps {
+  setlist: ClientSetlist;
+  isFinishing?: boolean;
+  onFinish: () => void;
+  onExit: () => void;
+}
+
+// Full-screen, stage-themed walk through a setlist in order
+export default function PerformanceView({
+  setlist,
+  isFinishing = false,
+  onFinish,
+  onExit,
+}: PerformanceViewProps) {
+  const items = setlist.songs;
+  const { index, goTo, next, previous, isFirst, isLast } =
+    usePerformanceNavigation(items.length);
+  const [fontSize, setFontSize] = useState<FontSize>("xl");
+  const notation = useChordNotation();
+  const [capoMode, setCapoMode] = useState<CapoMode>("shapes");
+
+  const item = items[index];
+  const arrangement = item ? getArrangementRef(item) : undefined;
+  const sizeIndex = FONT_SIZES.indexOf(fontSize);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen?.();
+    }
+  };
+
+  return (
+    <div
+      data-theme="stage"
+      className="performance-mode fixed inset-0 z-50 flex flex-col bg-background text-foreground"
+    >
+      <header className="flex items-center gap-2 border-b px-4 py-2">
+        <PerformanceJumpList
+          items={items}
+          currentIndex={index}
+          onSelect={goTo}
+        />
+        <div className="min-w-0 flex-1 text-center">
+          <p className="truncate text-sm text-muted-foreground">
+            {setlist.name} · {items.length > 0 ? index + 1 : 0} / {items.length}
+          </p>
+        </div>
+        {!!item?.capo && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              setCapoMode(capoMode === "shapes" ? "sounding" : "shapes")
+            }
+            aria-label="Switch between capo shapes and sounding chords"
+          >
+            Capo {item.capo} · {capoMode === "shapes" ? "Shapes" : "Sounding"}
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setFontSize(FONT_SIZES[sizeIndex - 1])}
+          disabled={sizeIndex <= 0}
+          aria-label="Smaller text"
+        >
+          <Minus className="h-5 w-5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setFontSize(FONT_SIZES[sizeIndex + 1])}
+          disabled={sizeIndex >= FONT_SIZES.length - 1}
+          aria-label="Larger text"
+        >
+          <Plus className="h-5 w-5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={toggleFullscreen}
+          aria-label="Toggle full screen"
+        >
+          <Maximize className="h-5 w-5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onExit}
+          aria-label="Exit performance"
+        >
+          <X className="h-5 w-5" />
+        </Button>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-4 py-6 md:px-12">
+        {!item ? (
+          <p className="py-24 text-center text-xl text-muted-foreground">
+            This setlist has no songs.
+          </p>
+        ) : (
+          <div className="mx-auto max-w-4xl space-y-4">
+            {item.notes && (
+              <div className="rounded-md border border-worship-gold/60 bg-worship-gold/10 px-4 py-3 text-lg">
+                {item.notes}
+              </div>
+            )}
+            {arrangement?.chordData ? (
+              <LazyChordDisplay
+                key={`${index}-${arrangement._id}`}
+                content={arrangement.chordData}
+                transpose={item.transpose}
+                notation={notation}
+                capo={item.capo}
+                capoMode={item.capo ? capoMode : undefined}
+                fontSize={fontSize}
+                theme="stage"
+                showChords={true}
+                showControls={false}
+              />
+            ) : (
+              <div className="py-16 text-center">
+                <h2 className="text-3xl font-bold">{getItemTitle(item)}</h2>
+                <p className="mt-2 text-muted-foreground">
+                  {arrangement
+                    ? "This arrangement has no chord chart."
+                    : "No arrangement was chosen for this song."}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+
+      <footer className="flex items-center justify-between gap-4 border-t px-4 py-3">
+        <Button
+          variant="secondary"
+          size="lg"
+          onClick={previous}
+          disabled={isFirst}
+        >
+          <ChevronLeft className="h-5 w-5 mr-1" />
+          Previous
+        </Button>
+        <p className="hidden truncate text-muted-foreground sm:block">
+          {!isLast &&
+            items[index + 1] &&
+            `Next: ${getItemTitle(items[index + 1])}`}
+        </p>
+        {isLast ? (
+          <Button size="lg" onClick={onFinish} disabled={isFinishing}>
+            <Flag className="h-5 w-5 mr-1" />
+            Finish
+          </Button>
+        ) : (
+          <Button variant="secondary" size="lg" onClick={next}>
+            Next
+            <ChevronRight className="h-5 w-5 ml-1" />
+          </Button>
+        )}
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Clock, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSetlist, useUpdateSetlist } from "../hooks/useSetlists";
+import type {
+  ClientSetlistItem,
+  SetlistArrangementRef,
+  SetlistInput,
+} from "../types/setlist.types";
+import { formatDuration, toItemInputs } from "../utils/setlistItems";
+import SetlistItemsList from "./SetlistItemsList";
+import SetlistShareToggle from "./SetlistShareToggle";
+import SetlistFormDialog from "./SetlistFormDialog";
+import AddSongDialog from "./AddSongDialog";
+import SetlistSuggestions from "./SetlistSuggestions";
+import type { ClientSong } from "@features/songs/types/song.types";
+import DeleteSetlistDialog from "./DeleteSetlistDialog";
+import SetlistPrintButton from "./SetlistPrintButton";
+
+interface SetlistEditorProps {
+  setlistId: string;
+  onDeleted: () => void;
+}
+
+export default function SetlistEditor({
+  setlistId,
+  onDeleted,
+}: SetlistEditorProps) {
+  const { data, isLoading, error } = useSetlist(setlistId);
+  const updateSetlist = useUpdateSetlist();
+  const { toast } = useToast();
+
+  const [items, setItems] = useState<ClientSetlistItem[]>([]);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [suggestedSong, setSuggestedSong] = useState<ClientSong | null>(null);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const setlist = data?.setlist;
+
+  useEffect(() => {
+    setItems(setlist?.songs || []);
+  }, [setlist]);
+
+  const save = (input: SetlistInput, successMessage?: string) => {
+    updateSetlist.mutate(
+      { id: setlistId, ...input },
+      {
+        onSuccess: () => {
+          if (successMessage) {
+            toast({ title: successMessage });
+          }
+        },
+        onError: (err) => {
+          // Roll back optimistic item changes
+          setItems(setlist?.songs || []);
+          toast({
+            title: "Error",
+            description: err.message,
+            variant: "destructive",
+          });
+        },
+      },
+    );
+  };
+
+  const handleItemsChange = (next: ClientSetlistItem[]) => {
+    setItems(next);
+    save({ songs: toItemInputs(next) });
+  };
+
+  // Opens the add dialog, optionally starting from a suggested song
+  const openAddDialog = (song: ClientSong | null = null) => {
+    setSuggestedSong(song);
+    setIsAddOpen(true);
+  };
+
+  const handleAddSong = (
+    songId: string,
+    arrangement: SetlistArrangementRef,
+  ) => {
+    handleItemsChange([
+      ...items,
+      { songId, arrangementId: arrangement, transpose: 0, order: items.length },
+    ]);
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  if (error || !setlist) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          {error?.message || "Setlist not found"}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0 space-y-1">
+            <CardTitle className="text-2xl truncate">{setlist.name}</CardTitle>
+            {setlist.description && (
+              <p className="text-sm text-muted-foreground">
+                {setlist.description}
+              </p>
+            )}
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              <span>
+                {data.duration
+                  ? formatDuration(data.duration.totalSeconds)
+                  : `~${setlist.metadata.estimatedDuration} min`}
+              </span>
+              {setlist.tags.map((tag) => (
+                <Badge key={tag} variant="outline">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <div className="flex shrink-0 gap-2">
+            <Button size="sm" asChild>
+              <Link to={`/setlists/${setlistId}/perform`}>
+                <Play className="h-4 w-4 mr-1" />
+                Perform
+              </Link>
+            </Button>
+            <SetlistPrintButton setlist={setlist} />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEditOpen(true)}
+            >
+              <Pencil className="h-4 w-4 mr-1" />
+              Edit
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsDeleteOpen(true)}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+          </div>
+        </div>
+        <SetlistShareToggle
+          isPublic={setlist.metadata.isPublic}
+          shareToken={setlist.metadata.shareToken}
+          disabled={updateSetlist.isPending}
+          onToggle={(isPublic) =>
+            save(
+              { isPublic },
+              isPublic ? "Share link enabled" : "Share link disabled",
+            )
+          }
+        />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">
+            Songs{" "}
+            <span className="text-muted-foreground">({items.length})</span>
+          </h3>
+          <Button size="sm" onClick={() => openAddDialog()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Song
+          </Button>
+        </div>
+        <SetlistItemsList
+          items={items}
+          duration={data.duration}
+          onItemsChange={handleItemsChange}
+        />
+        <SetlistSuggestions items={items} onAdd={openAddDialog} />
+      </CardContent>
+
+      <SetlistFormDialog
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        title="Edit Setlist"
+        initialValues={setlist}
+        isSaving={updateSetlist.isPending}
+        onSubmit={(values) => {
+          save(values, "Setlist updated");
+          setIsEditOpen(false);
+        }}
+      />
+      <AddSongDialog
+        open={isAddOpen}
+        onOpenChange={setIsAddOpen}
+        onAdd={handleAddSong}
+        initialSong={suggestedSong}
+      />
+      <DeleteSetlistDialog
+        open={isDeleteOpen}
+        onOpenChange={setIsDeleteOpen}
+        setlistId={setlistId}
+        setlistName={setlist.name}
+        onDeleted={onDeleted}
+      />
+    </Card>
+  );
+}
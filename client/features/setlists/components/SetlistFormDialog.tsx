@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { SetlistInput } from "../types/setlist.types";
+
+interface SetlistFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  initialValues?: { name: string; description?: string; tags?: string[] };
+  isSaving?: boolean;
+  onSubmit: (values: SetlistInput) => void;
+}
+
+export default function SetlistFormDialog({
+  open,
+  onOpenChange,
+  title,
+  initialValues,
+  isSaving = false,
+  onSubmit,
+}: SetlistFormDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [tags, setTags] = useState("");
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(initialValues?.name || "");
+      setDescription(initialValues?.description || "");
+      setTags(initialValues?.tags?.join(", ") || "");
+    }
+  }, [open, initialValues]);
+
+  const handleSubmit = () => {
+    onSubmit({
+      name: name.trim(),
+      description: description.trim() || undefined,
+      tags: tags
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Give the setlist a name your team will recognize.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <label htmlFor="setlist-name" className="text-sm font-medium">
+              Name
+            </label>
+            <Input
+              id="setlist-name"
+              value={name}
+              maxLength={200}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Sunday Morning Worship"
+            />
+          </div>
+          <div className="space-y-2">
+            <label
+              htmlFor="setlist-description"
+              className="text-sm font-medium"
+            >
+              Description
+            </label>
+            <Textarea
+              id="setlist-description"
+              value={description}
+              maxLength={1000}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Service theme, team or other details"
+              rows={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="setlist-tags" className="text-sm font-medium">
+              Tags (comma separated)
+            </label>
+            <Input
+              id="setlist-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="sunday, communion"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!name.trim() || isSaving}
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChevronDown,
+  ChevronUp,
+  GripVertical,
+  Minus,
+  Plus,
+  X,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { MAX_CAPO } from "@features/songs/utils/capo";
+import type { ClientSetlistItem, SetlistSinger } from "../types/setlist.types";
+import {
+  formatDuration,
+  getArrangementRef,
+  getItemTitle,
+} from "../utils/setlistItems";
+import SetlistItemSinger from "./SetlistItemSinger";
+
+const MAX_TRANSPOSE = 11;
+const CAPO_POSITIONS = Array.from({ length: MAX_CAPO + 1 }, (_, fret) => fret);
+
+interface SetlistItemRowProps {
+  item: ClientSetlistItem;
+  index: number;
+  total: number;
+  seconds?: number;
+  singers: SetlistSinger[];
+  isDragOver: boolean;
+  disabled?: boolean;
+  onChange: (changes: Partial<ClientSetlistItem>) => void;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+  dragHandlers: React.HTMLAttributes<HTMLLIElement>;
+}
+
+export default function SetlistItemRow({
+  item,
+  index,
+  total,
+  seconds,
+  singers,
+  isDragOver,
+  disabled = false,
+  onChange,
+  onMove,
+  onRemove,
+  dragHandlers,
+}: SetlistItemRowProps) {
+  const arrangement = getArrangementRef(item);
+  const [notes, setNotes] = useState(item.notes || "");
+
+  useEffect(() => {
+    setNotes(item.notes || "");
+  }, [item.notes]);
+
+  const transposeBy = (step: number) => {
+    const next = Math.max(
+      -MAX_TRANSPOSE,
+      Math.min(MAX_TRANSPOSE, (item.transpose || 0) + step),
+    );
+    onChange({ transpose: next });
+  };
+
+  return (
+    <li
+      draggable={!disabled}
+      {...dragHandlers}
+      className={cn(
+        "rounded-md border bg-card p-3 space-y-2",
+        isDragOver && "border-primary border-dashed",
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <GripVertical
+          className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground"
+          aria-hidden
+        />
+        <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+        <div className="min-w-0 flex-1">
+          <p className="font-medium truncate">{getItemTitle(item)}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {arrangement?.name || "No arrangement"}
+            {arrangement?.key && ` · ${arrangement.key}`}
+            {seconds !== undefined && ` · ${formatDuration(seconds)}`}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => transposeBy(-1)}
+            disabled={disabled || item.transpose <= -MAX_TRANSPOSE}
+            aria-label="Transpose down"
+          >
+            <Minus className="h-3 w-3" />
+          </Button>
+          <Badge variant="secondary" className="w-10 justify-center">
+            {item.transpose > 0 ? `+${item.transpose}` : item.transpose}
+          </Badge>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => transposeBy(1)}
+            disabled={disabled || item.transpose >= MAX_TRANSPOSE}
+            aria-label="Transpose up"
+          >
+            <Plus className="h-3 w-3" />
+          </Button>
+        </div>
+
+        <Select
+          value={String(item.capo ?? 0)}
+          onValueChange={(value) => onChange({ capo: Number(value) })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-7 w-24 text-xs" aria-label="Capo">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CAPO_POSITIONS.map((fret) => (
+              <SelectItem key={fret} value={String(fret)}>
+                {fret === 0 ? "No capo" : `Capo ${fret}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex flex-col">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-5 w-7"
+            onClick={() => onMove(index - 1)}
+            disabled={disabled || index === 0}
+            aria-label="Move up"
+          >
+            <ChevronUp className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-5 w-7"
+            onClick={() => onMove(index + 1)}
+            disabled={disabled || index === total - 1}
+            aria-label="Move down"
+          >
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={onRemove}
+          disabled={disabled}
+          aria-label="Remove song"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <SetlistItemSinger
+        item={item}
+        singers={singers}
+        disabled={disabled}
+        onChange={onChange}
+      />
+
+      <Textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={() => {
+          if (notes !== (item.notes || "")) {
+            onChange({ notes });
+          }
+        }}
+        placeholder="Notes for this song (e.g. repeat last chorus)"
+        maxLength={500}
+        rows={1}
+        disabled={disabled}
+        className="min-h-[36px] text-sm"
+      />
+    </li>
+  );
+}
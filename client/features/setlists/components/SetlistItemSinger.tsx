@@ -0,0 +1,125 @@
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle } from "lucide-react";
+import { isMusicalKey } from "@features/songs/types/chord.types";
+import {
+  describeRangeFit,
+  getRangeFit,
+  recommendTranspose,
+} from "@shared/songs/vocalRange";
+import type { ClientSetlistItem, SetlistSinger } from "../types/setlist.types";
+import { getArrangementRef } from "../utils/setlistItems";
+
+const NO_SINGER = "none";
+
+interface SetlistItemSingerProps {
+  item: ClientSetlistItem;
+  singers: SetlistSinger[];
+  disabled?: boolean;
+  onChange: (changes: Partial<ClientSetlistItem>) => void;
+}
+
+const formatTranspose = (transpose: number) =>
+  transpose > 0 ? `+${transpose}` : String(transpose);
+
+// Singer picker with the key that suits them and a warning when the
+// item's transpose takes the melody outside their range
+export default function SetlistItemSinger({
+  item,
+  singers,
+  disabled = false,
+  onChange,
+}: SetlistItemSingerProps) {
+  const arrangement = getArrangementRef(item);
+  const melody = arrangement?.vocalRange?.low ? arrangement.vocalRange : null;
+  const singer = singers.find((s) => s._id === item.singerId);
+
+  const fit =
+    melody && singer
+      ? getRangeFit(melody, singer.vocalRange, item.transpose || 0)
+      : null;
+  const warning = fit && describeRangeFit(fit, `${singer!.name}'s range`);
+  const recommendation =
+    melody && singer
+      ? recommendTranspose(
+          melody,
+          singer.vocalRange,
+          arrangement?.key && isMusicalKey(arrangement.key)
+            ? arrangement.key
+            : undefined,
+        )
+      : null;
+
+  if (singers.length === 0 && !item.singerId) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <Select
+          value={item.singerId || NO_SINGER}
+          onValueChange={(value) =>
+            onChange({ singerId: value === NO_SINGER ? undefined : value })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-7 w-40 text-xs" aria-label="Singer">
+            <SelectValue placeholder="Singer" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_SINGER}>No singer</SelectItem>
+            {singers.map((s) => (
+              <SelectItem key={s._id} value={s._id}>
+                {s.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {singer && !melody && (
+          <span className="text-muted-foreground">
+            This arrangement has no melody range
+          </span>
+        )}
+
+        {recommendation && (
+          <span className="text-muted-foreground">
+            Best for {singer!.name}:{" "}
+            {recommendation.key
+              ? `${recommendation.key} (${formatTranspose(recommendation.transpose)})`
+              : formatTranspose(recommendation.transpose)}
+          </span>
+        )}
+
+        {recommendation && recommendation.transpose !== item.transpose && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() => onChange({ transpose: recommendation.transpose })}
+            disabled={disabled}
+          >
+            Use this key
+          </Button>
+        )}
+      </div>
+
+      {warning && (
+        <p
+          role="status"
+          className="flex items-center gap-1 text-xs text-amber-700"
+        >
+          <AlertCircle className="h-3 w-3 shrink-0" />
+          {warning}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import type {
+  ClientSetlistItem,
+  SetlistDuration,
+} from "../types/setlist.types";
+import { useSingers } from "../hooks/useSetlists";
+import { moveItem } from "../utils/setlistItems";
+import SetlistItemRow from "./SetlistItemRow";
+
+interface SetlistItemsListProps {
+  items: ClientSetlistItem[];
+  duration?: SetlistDuration;
+  disabled?: boolean;
+  onItemsChange: (items: ClientSetlistItem[]) => void;
+}
+
+// Ordered setlist items with native drag-and-drop reordering
+export default function SetlistItemsList({
+  items,
+  duration,
+  disabled = false,
+  onItemsChange,
+}: SetlistItemsListProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const { data: singers = [] } = useSingers();
+
+  if (items.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        No songs yet. Add a song to start building this setlist.
+      </p>
+    );
+  }
+
+  const handleMove = (from: number, to: number) => {
+    if (to < 0 || to >= items.length) {
+      return;
+    }
+    onItemsChange(moveItem(items, from, to));
+  };
+
+  const handleChange = (index: number, changes: Partial<ClientSetlistItem>) => {
+    onItemsChange(
+      items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    );
+  };
+
+  const handleRemove = (index: number) => {
+    onItemsChange(
+      items
+        .filter((_, i) => i !== index)
+        .map((item, order) => ({ ...item, order })),
+    );
+  };
+
+  const resetDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <ol className="space-y-2">
+      {items.map((item, index) => (
+        <SetlistItemRow
+          key={`${item.songId}-${index}`}
+          item={item}
+          index={index}
+          total={items.length}
+          seconds={duration?.items[index]?.seconds}
+          singers={singers}
+          isDragOver={overIndex === index && dragIndex !== index}
+          disabled={disabled}
+          onChange={(changes) => handleChange(index, changes)}
+          onMove={(to) => handleMove(index, to)}
+          onRemove={() => handleRemove(index)}
+          dragHandlers={{
+            onDragStart: (e) => {
+              e.dataTransfer.effectAllowed = "move";
+              setDragIndex(index);
+            },
+            onDragOver: (e) => {
+              e.preventDefault();
+              setOverIndex(index);
+            },
+            onDrop: (e) => {
+              e.preventDefault();
+              if (dragIndex !== null) {
+                handleMove(dragIndex, index);
+              }
+              resetDrag();
+            },
+            onDragEnd: resetDrag,
+          }}
+        />
+      ))}
+    </ol>
+  );
+}
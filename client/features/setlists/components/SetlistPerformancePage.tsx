@@ -0,0 +1,65 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { LoadingSpinner } from "@/shared/components/LoadingSpinner";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useRecordSetlistUsage,
+  useSetlist,
+  useSharedSetlist,
+} from "../hooks/useSetlists";
+import PerformanceView from "./PerformanceView";
+
+/**
+ * Performance mode for /setlists/:id/perform and
+ * /setlists/share/:token/perform. Both sources read through the offline
+ * cache, so a setlist opened once keeps working without a network.
+ */
+export default function SetlistPerformancePage() {
+  const { id = "", token = "" } = useParams<{ id: string; token: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const owned = useSetlist(token ? "" : id);
+  const shared = useSharedSetlist(token);
+  const recordUsage = useRecordSetlistUsage();
+
+  const setlist = token ? shared.data : owned.data?.setlist;
+  const isLoading = token ? shared.isLoading : owned.isLoading;
+  const error = token ? shared.error : owned.error;
+  const exitTo = token ? `/setlists/share/${token}` : "/setlists";
+
+  const handleFinish = () => {
+    recordUsage.mutate(token ? { shareToken: token } : { setlistId: id }, {
+      onSettled: () => {
+        toast({ title: "Performance finished" });
+        navigate(exitTo);
+      },
+    });
+  };
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading setlist..." />;
+  }
+
+  if (error || !setlist) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">
+          {error?.message || "Setlist not found"}
+        </p>
+        <Button variant="outline" onClick={() => navigate(exitTo)}>
+          Back
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <PerformanceView
+      setlist={setlist}
+      isFinishing={recordUsage.isPending}
+      onFinish={handleFinish}
+      onExit={() => navigate(exitTo)}
+    />
+  );
+}
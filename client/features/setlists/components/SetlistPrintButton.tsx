@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+import { PrintDialog } from "@features/songs/components/PrintDialog";
+import {
+  toPrintQuery,
+  usePrintDocument,
+} from "@features/songs/hooks/usePrintDocument";
+import {
+  renderSetlistBooklet,
+  type PrintOptions,
+} from "@shared/songs/printRenderer";
+import type { ClientSetlist } from "../types/setlist.types";
+import { getArrangementRef, getItemTitle } from "../utils/setlistItems";
+
+// Offline fallback built from the arrangements cached with the setlist
+function renderCachedBooklet(setlist: ClientSetlist, options: PrintOptions) {
+  const charts = setlist.songs.flatMap((item) => {
+    const arrangement = getArrangementRef(item);
+    if (!arrangement?.chordData) {
+      return [];
+    }
+    return [
+      {
+        title: getItemTitle(item),
+        key: arrangement.key,
+        tempo: arrangement.tempo,
+        timeSignature: arrangement.timeSignature,
+        chordData: arrangement.chordData,
+        transpose: item.transpose,
+        notes: item.notes,
+      },
+    ];
+  });
+
+  return renderSetlistBooklet(
+    { name: setlist.name, description: setlist.description, charts },
+    options,
+  );
+}
+
+export default function SetlistPrintButton({
+  setlist,
+}: {
+  setlist: ClientSetlist;
+}) {
+  const [open, setOpen] = useState(false);
+  const { print, isPrinting } = usePrintDocument();
+
+  const handlePrint = async (options: PrintOptions) => {
+    const printed = await print(
+      `/api/setlists/${setlist._id}/print?${toPrintQuery(options)}`,
+      () => renderCachedBooklet(setlist, options),
+    );
+    if (printed) {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <Printer className="h-4 w-4 mr-1" />
+        Print
+      </Button>
+      <PrintDialog
+        open={open}
+        onOpenChange={setOpen}
+        title="Print Setlist"
+        description="Prints a booklet with a cover page, contents and one chart per song."
+        isPrinting={isPrinting}
+        onPrint={handlePrint}
+      />
+    </>
+  );
+}
@@ -0,0 +1,56 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Copy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { buildShareUrl } from "../utils/setlistItems";
+
+interface SetlistShareToggleProps {
+  isPublic: boolean;
+  shareToken?: string;
+  disabled?: boolean;
+  onToggle: (isPublic: boolean) => void;
+}
+
+export default function SetlistShareToggle({
+  isPublic,
+  shareToken,
+  disabled = false,
+  onToggle,
+}: SetlistShareToggleProps) {
+  const { toast } = useToast();
+  const shareUrl = shareToken ? buildShareUrl(shareToken) : "";
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(shareUrl);
+    toast({
+      title: "Link copied",
+      description: "Anyone with this link can view the setlist.",
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <Switch
+          id="setlist-share"
+          checked={isPublic}
+          disabled={disabled}
+          onCheckedChange={onToggle}
+        />
+        <label htmlFor="setlist-share" className="text-sm font-medium">
+          Share with a public link
+        </label>
+      </div>
+      {isPublic && shareUrl && (
+        <div className="flex gap-2">
+          <Input value={shareUrl} readOnly aria-label="Share link" />
+          <Button variant="outline" size="icon" onClick={handleCopy}>
+            <Copy className="h-4 w-4" />
+            <span className="sr-only">Copy link</span>
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Globe, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ClientSetlist } from "../types/setlist.types";
+
+interface SetlistSidebarProps {
+  setlists?: ClientSetlist[];
+  isLoading: boolean;
+  error?: Error | null;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+}
+
+export default function SetlistSidebar({
+  setlists,
+  isLoading,
+  error,
+  selectedId,
+  onSelect,
+  onCreate,
+}: SetlistSidebarProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">My Setlists</CardTitle>
+        <Button size="sm" onClick={onCreate}>
+          <Plus className="h-4 w-4 mr-1" />
+          New
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading && (
+          <>
+            <Skeleton className="h-14 w-full" />
+            <Skeleton className="h-14 w-full" />
+          </>
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive">
+            {error.message || "Failed to load setlists"}
+          </p>
+        )}
+
+        {!isLoading && !error && setlists?.length === 0 && (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            You haven&apos;t created any setlists yet.
+          </p>
+        )}
+
+        {setlists?.map((setlist) => (
+          <button
+            key={setlist._id}
+            type="button"
+            onClick={() => onSelect(setlist._id)}
+            className={cn(
+              "w-full rounded-md border p-3 text-left transition-colors hover:bg-accent",
+              selectedId === setlist._id && "border-primary bg-accent",
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium truncate">{setlist.name}</span>
+              {setlist.metadata?.isPublic && (
+                <Globe
+                  className="h-4 w-4 shrink-0 text-muted-foreground"
+                  aria-label="Shared"
+                />
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {setlist.songs.length}{" "}
+              {setlist.songs.length === 1 ? "song" : "songs"} · ~
+              {setlist.metadata?.estimatedDuration ?? 0} min
+            </p>
+          </button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,27 @@
+import PairsWellWithRail from "@features/songs/components/PairsWellWithRail";
+import type { ClientSong } from "@features/songs/types/song.types";
+import type { ClientSetlistItem } from "../types/setlist.types";
+
+interface SetlistSuggestionsProps {
+  items: ClientSetlistItem[];
+  onAdd: (song: ClientSong) => void;
+}
+
+// Songs that pair well with the last one in the set, leaving out those already in it
+export default function SetlistSuggestions({
+  items,
+  onAdd,
+}: SetlistSuggestionsProps) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <PairsWellWithRail
+      songId={items[items.length - 1].songId}
+      exclude={items.map((item) => item.songId)}
+      limit={6}
+      onAdd={onAdd}
+    />
+  );
+}
@@ -1,47 +1,119 @@
+import { useState } from "react";
+import { SignInButton } from "@clerk/clerk-react";
 import { Layout } from "@/shared/components/Layout";
+import { LoadingSpinner } from "@/shared/components/LoadingSpinner";
+import { useAuthContext } from "@/shared/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { List, ArrowLeft } from "lucide-react";
-import { Link } from "react-router-dom";
+import { List } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateSetlist, useMySetlists } from "../hooks/useSetlists";
+import SetlistSidebar from "./SetlistSidebar";
+import SetlistEditor from "./SetlistEditor";
+import SetlistFormDialog from "./SetlistFormDialog";
 
 export default function Setlists() {
+  const { isAuthenticated, isLoading: authLoading } = useAuthContext();
+  const { data: setlists, isLoading, error } = useMySetlists();
+  const createSetlist = useCreateSetlist();
+  const { toast } = useToast();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  // Fall back to the first setlist until the user picks one
+  const activeId =
+    selectedId && setlists?.some((s) => s._id === selectedId)
+      ? selectedId
+      : setlists?.[0]?._id || null;
+
+  if (authLoading) {
+    return (
+      <Layout>
+        <LoadingSpinner message="Loading setlists..." />
+      </Layout>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <Layout>
+        <div className="max-w-md mx-auto py-16">
+          <Card className="text-center">
+            <CardHeader>
+              <div className="mx-auto w-16 h-16 bg-worship/10 rounded-full flex items-center justify-center mb-4">
+                <List className="h-8 w-8 text-worship" />
+              </div>
+              <CardTitle className="text-2xl">Setlist Manager</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-muted-foreground">
+                Sign in to build setlists, reorder songs and share them with
+                your team.
+              </p>
+              <SignInButton mode="modal">
+                <Button>Sign In</Button>
+              </SignInButton>
+            </CardContent>
+          </Card>
+        </div>
+      </Layout>
+    );
+  }
+
   return (
     <Layout>
-      <div className="max-w-2xl mx-auto text-center py-16">
-        <Card>
-          <CardHeader>
-            <div className="mx-auto w-16 h-16 bg-worship/10 rounded-full flex items-center justify-center mb-4">
-              <List className="h-8 w-8 text-worship" />
-            </div>
-            <CardTitle className="text-2xl">Setlist Manager</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <p className="text-muted-foreground">
-              This page will contain setlist creation and management tools. You
-              can continue prompting to build out this page with drag-and-drop
-              functionality, sharing options, and performance features.
-            </p>
-            <div className="space-y-2">
-              <p className="text-sm font-medium">Planned features:</p>
-              <ul className="text-sm text-muted-foreground space-y-1">
-                <li>• Drag-and-drop setlist builder</li>
-                <li>• Real-time collaboration</li>
-                <li>• Performance mode with navigation</li>
-                <li>• Setlist sharing and templates</li>
-                <li>• Export to PDF/print</li>
-              </ul>
-            </div>
-            <div className="pt-4">
-              <Button asChild>
-                <Link to="/">
-                  <ArrowLeft className="mr-2 h-4 w-4" />
-                  Back to Dashboard
-                </Link>
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
+      <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+        <SetlistSidebar
+          setlists={setlists}
+          isLoading={isLoading}
+          error={error}
+          selectedId={activeId}
+          onSelect={setSelectedId}
+          onCreate={() => setIsCreateOpen(true)}
+        />
+        {activeId ? (
+          <SetlistEditor
+            key={activeId}
+            setlistId={activeId}
+            onDeleted={() => setSelectedId(null)}
+          />
+        ) : (
+          !isLoading && (
+            <Card>
+              <CardContent className="py-16 text-center text-muted-foreground">
+                Create a setlist to get started.
+              </CardContent>
+            </Card>
+          )
+        )}
       </div>
+
+      <SetlistFormDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        title="New Setlist"
+        isSaving={createSetlist.isPending}
+        onSubmit={(values) =>
+          createSetlist.mutate(
+            { ...values, songs: [] },
+            {
+              onSuccess: (setlist) => {
+                setSelectedId(setlist._id);
+                setIsCreateOpen(false);
+                toast({ title: "Setlist created" });
+              },
+              onError: (err) => {
+                toast({
+                  title: "Error",
+                  description: err.message,
+                  variant: "destructive",
+                });
+              },
+            },
+          )
+        }
+      />
     </Layout>
   );
 }
@@ -0,0 +1,99 @@
+import { Link, useParams } from "react-router-dom";
+import { Layout } from "@/shared/components/Layout";
+import { LoadingSpinner } from "@/shared/components/LoadingSpinner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Play } from "lucide-react";
+import { useSharedSetlist } from "../hooks/useSetlists";
+import { getArrangementRef, getItemTitle } from "../utils/setlistItems";
+
+// Read-only view of a setlist opened from its public share link
+export default function SharedSetlistPage() {
+  const { token = "" } = useParams<{ token: string }>();
+  const { data: setlist, isLoading, error } = useSharedSetlist(token);
+
+  if (isLoading) {
+    return (
+      <Layout>
+        <LoadingSpinner message="Loading setlist..." />
+      </Layout>
+    );
+  }
+
+  if (error || !setlist) {
+    return (
+      <Layout>
+        <div className="max-w-md mx-auto py-16 text-center text-muted-foreground">
+          {error?.message || "Setlist not found"}
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <Card className="max-w-3xl mx-auto">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <CardTitle className="text-2xl">{setlist.name}</CardTitle>
+            {setlist.songs.length > 0 && (
+              <Button size="sm" asChild>
+                <Link to={`/setlists/share/${token}/perform`}>
+                  <Play className="h-4 w-4 mr-1" />
+                  Perform
+                </Link>
+              </Button>
+            )}
+          </div>
+          {setlist.description && (
+            <p className="text-muted-foreground">{setlist.description}</p>
+          )}
+          <p className="text-sm text-muted-foreground">
+            {setlist.songs.length} songs · ~{setlist.metadata.estimatedDuration}{" "}
+            min
+          </p>
+        </CardHeader>
+        <CardContent>
+          <ol className="space-y-2">
+            {setlist.songs.map((item, index) => {
+              const arrangement = getArrangementRef(item);
+              return (
+                <li
+                  key={`${item.songId}-${index}`}
+                  className="rounded-md border p-3"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="w-6 text-sm text-muted-foreground">
+                      {index + 1}.
+                    </span>
+                    <span className="font-medium flex-1">
+                      {getItemTitle(item)}
+                    </span>
+                    {arrangement?.key && (
+                      <Badge variant="outline">{arrangement.key}</Badge>
+                    )}
+                    {item.transpose !== 0 && (
+                      <Badge variant="secondary">
+                        {item.transpose > 0 ? "+" : ""}
+                        {item.transpose}
+                      </Badge>
+                    )}
+                    {!!item.capo && (
+                      <Badge variant="secondary">Capo {item.capo}</Badge>
+                    )}
+                  </div>
+                  {item.notes && (
+                    <p className="mt-1 pl-8 text-sm text-muted-foreground">
+                      {item.notes}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </CardContent>
+      </Card>
+    </Layout>
+  );
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Song-to-song navigation for performance mode. Arrow keys, Page Up/Down and
+ * the space bar (used by most foot pedals) move between songs.
+ */
+export function usePerformanceNavigation(count: number) {
+  const [index, setIndex] = useState(0);
+
+  const goTo = useCallback(
+    (next: number) => {
+      setIndex(Math.max(0, Math.min(count - 1, next)));
+    },
+    [count],
+  );
+
+  const next = useCallback(() => goTo(index + 1), [goTo, index]);
+  const previous = useCallback(() => goTo(index - 1), [goTo, index]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable=true]")) {
+        return;
+      }
+      if (["ArrowRight", "PageDown", " "].includes(event.key)) {
+        event.preventDefault();
+        next();
+      } else if (["ArrowLeft", "PageUp"].includes(event.key)) {
+        event.preventDefault();
+        previous();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [next, previous]);
+
+  return {
+    index,
+    goTo,
+    next,
+    previous,
+    isFirst: index === 0,
+    isLast: index >= count - 1,
+  };
+}
@@ -0,0 +1,303 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { authFetch } from "@/shared/utils/api-helpers";
+import { useCachedSetlists } from "@/shared/hooks/useIndexedDB";
+import { useAuthContext } from "@/shared/contexts/AuthContext";
+import { syncManager } from "@/shared/utils/sync/syncManager";
+import type {
+  ClientSetlist,
+  SetlistInput,
+  SetlistDuration,
+  SetlistSinger,
+  SetlistWithDuration,
+} from "../types/setlist.types";
+
+export const setlistKeys = {
+  all: ["setlists"] as const,
+  mine: () => ["setlists", "mine"] as const,
+  detail: (id: string) => ["setlists", id] as const,
+  shared: (token: string) => ["setlists", "share", token] as const,
+};
+
+// Extra details some setlist endpoints send beside the data
+interface SetlistResponseMeta {
+  duration?: SetlistDuration;
+}
+
+async function readResponse<T>(response: Response, fallback: string) {
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || fallback);
+  }
+  return result as { data: T; meta?: SetlistResponseMeta };
+}
+
+// Cached copies keep the server shape plus the fields IndexedDB indexes on
+function toCachedSetlist(setlist: ClientSetlist) {
+  return {
+    ...setlist,
+    id: setlist._id,
+    createdBy:
+      typeof setlist.createdBy === "object"
+        ? (setlist.createdBy as { _id: string })._id
+        : setlist.createdBy,
+  };
+}
+
+const isOffline = () => typeof navigator !== "undefined" && !navigator.onLine;
+
+// Mutations that handle being offline themselves must run straight away.
+// React Query otherwise pauses them until the connection returns, so an
+// offline edit would only be stamped, cached and queued at replay
+const OFFLINE_AWARE = { networkMode: "always" } as const;
+
+// The current user's setlists, read from the offline cache when the network fails
+export function useMySetlists() {
+  const { currentUser } = useAuthContext();
+  const { cacheSetlist, getUserSetlists } = useCachedSetlists();
+
+  return useQuery({
+    queryKey: setlistKeys.mine(),
+    queryFn: async (): Promise<ClientSetlist[]> => {
+      try {
+        const response = await authFetch("/api/setlists?mine=true&limit=50");
+        const { data } = await readResponse<ClientSetlist[]>(
+          response,
+          "Failed to fetch setlists",
+        );
+        await Promise.all(data.map((s) => cacheSetlist(toCachedSetlist(s))));
+        return data;
+      } catch (error) {
+        const cached = currentUser
+          ? await getUserSetlists(currentUser._id)
+          : [];
+        if (cached.length > 0) {
+          return cached as unknown as ClientSetlist[];
+        }
+        throw error;
+      }
+    },
+    enabled: !!currentUser,
+  });
+}
+
+export function useSetlist(id: string) {
+  const { cacheSetlist, getCachedSetlist } = useCachedSetlists();
+
+  return useQuery({
+    queryKey: setlistKeys.detail(id),
+    queryFn: async (): Promise<SetlistWithDuration> => {
+      try {
+        const response = await authFetch(`/api/setlists/${id}`);
+        const { data, meta } = await readResponse<ClientSetlist>(
+          response,
+          "Failed to fetch setlist",
+        );
+        await cacheSetlist(toCachedSetlist(data));
+        return { setlist: data, duration: meta?.duration };
+      } catch (error) {
+        const cached = await getCachedSetlist(id);
+        if (cached) {
+          return { setlist: cached as unknown as ClientSetlist };
+        }
+        throw error;
+      }
+    },
+    enabled: !!id,
+  });
+}
+
+// Users who can be assigned to lead a song, with their vocal ranges
+export function useSingers() {
+  const { currentUser } = useAuthContext();
+
+  return useQuery({
+    queryKey: ["users", "singers"],
+    queryFn: async (): Promise<SetlistSinger[]> => {
+      const response = await authFetch("/api/users/singers");
+      const { data } = await readResponse<SetlistSinger[]>(
+        response,
+        "Failed to fetch singers",
+      );
+      return data;
+    },
+    enabled: !!currentUser,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useCreateSetlist() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SetlistInput): Promise<ClientSetlist> => {
+      if (isOffline()) {
+        throw new Error("Setlists can only be created while online");
+      }
+      const response = await authFetch("/api/setlists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      const { data } = await readResponse<ClientSetlist>(
+        response,
+        "Failed to create setlist",
+      );
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: setlistKeys.all });
+    },
+  });
+}
+
+/**
+ * Saves setlist changes. Offline, the change is applied to the cached copy
+ * and queued for the sync manager to send once the connection returns.
+ */
+export function useUpdateSetlist() {
+  const queryClient = useQueryClient();
+  const { cacheSetlist, getCachedSetlist, markSetlistPending } =
+    useCachedSetlists();
+
+  return useMutation({
+    ...OFFLINE_AWARE,
+    mutationFn: async ({
+      id,
+      ...input
+    }: SetlistInput & { id: string }): Promise<ClientSetlist> => {
+      const editedAt = new Date().toISOString();
+      if (isOffline()) {
+        const cached = (await getCachedSetlist(id)) as unknown as
+          | ClientSetlist
+          | undefined;
+        if (!cached) {
+          throw new Error("This setlist is not available offline");
+        }
+        const { isPublic, ...fields } = input;
+        const updated: ClientSetlist = {
+          ...cached,
+          ...fields,
+          metadata: {
+            ...cached.metadata,
+            isPublic: isPublic ?? cached.metadata.isPublic,
+          },
+        } as ClientSetlist;
+        await cacheSetlist(toCachedSetlist(updated));
+        await markSetlistPending(id);
+        await syncManager.addOperation({
+          operation: "update",
+          entity: "setlist",
+          entityId: id,
+          data: { ...input, updatedAt: editedAt },
+        });
+        return updated;
+      }
+
+      const response = await authFetch(`/api/setlists/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      const { data } = await readResponse<ClientSetlist>(
+        response,
+        "Failed to update setlist",
+      );
+      return data;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: setlistKeys.detail(variables.id),
+      });
+      queryClient.invalidateQueries({ queryKey: setlistKeys.mine() });
+    },
+  });
+}
+
+export function useDeleteSetlist() {
+  const queryClient = useQueryClient();
+  const { removeCachedSetlist } = useCachedSetlists();
+
+  return useMutation({
+    ...OFFLINE_AWARE,
+    mutationFn: async (id: string): Promise<void> => {
+      if (isOffline()) {
+        await syncManager.addOperation({
+          operation: "delete",
+          entity: "setlist",
+          entityId: id,
+          data: {},
+        });
+      } else {
+        const response = await authFetch(`/api/setlists/${id}`, {
+          method: "DELETE",
+        });
+        await readResponse(response, "Failed to delete setlist");
+      }
+      await removeCachedSetlist(id);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: setlistKeys.detail(id) });
+      queryClient.invalidateQueries({ queryKey: setlistKeys.mine() });
+    },
+  });
+}
+
+// Read-only view of a shared setlist, kept in the offline cache for performing
+export function useSharedSetlist(token: string) {
+  const { cacheSetlist, getSharedSetlist } = useCachedSetlists();
+
+  return useQuery({
+    queryKey: setlistKeys.shared(token),
+    queryFn: async (): Promise<ClientSetlist> => {
+      try {
+        const response = await authFetch(`/api/setlists/share/${token}`);
+        const { data } = await readResponse<ClientSetlist>(
+          response,
+          "Setlist not found",
+        );
+        await cacheSetlist(toCachedSetlist(data));
+        return data;
+      } catch (error) {
+        const cached = await getSharedSetlist(token);
+        if (cached) {
+          return cached as unknown as ClientSetlist;
+        }
+        throw error;
+      }
+    },
+    enabled: !!token,
+  });
+}
+
+/**
+ * Records a finished performance. Usage counts are best effort, so nothing
+ * is queued while offline, and shared setlists only count signed-in users.
+ */
+export function useRecordSetlistUsage() {
+  const queryClient = useQueryClient();
+  const { currentUser } = useAuthContext();
+
+  return useMutation({
+    ...OFFLINE_AWARE,
+    mutationFn: async (
+      source: { setlistId: string } | { shareToken: string },
+    ): Promise<void> => {
+      if (isOffline() || (!("setlistId" in source) && !currentUser)) {
+        return;
+      }
+      const url =
+        "setlistId" in source
+          ? `/api/setlists/${source.setlistId}/usage`
+          : `/api/setlists/share/${source.shareToken}/usage`;
+      const response = await authFetch(url, { method: "POST" });
+      await readResponse(response, "Failed to record setlist usage");
+    },
+    onSuccess: (_data, source) => {
+      if ("setlistId" in source) {
+        queryClient.invalidateQueries({
+          queryKey: setlistKeys.detail(source.setlistId),
+        });
+      }
+    },
+  });
+}
@@ -1,2 +1,4 @@
 // Public exports for setlists feature
 export { default as SetlistsPage } from "./components/SetlistsPage";
+export { default as SharedSetlistPage } from "./components/SharedSetlistPage";
+export { default as SetlistPerformancePage } from "./components/SetlistPerformancePage";
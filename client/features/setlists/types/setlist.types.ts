@@ -0,0 +1,104 @@
+/**
+ * Setlist types as returned by the /api/setlists endpoints
+ */
+
+import type { VocalRange } from "@features/songs/types/song.types";
+
+// Arrangement reference, populated by the server on reads
+export interface SetlistArrangementRef {
+  _id: string;
+  name: string;
+  slug?: string;
+  key?: string;
+  tempo?: number;
+  timeSignature?: string;
+  chordData?: string;
+  vocalRange?: VocalRange; // Melody range at the written key
+  songIds?: Array<
+    | string
+    | {
+        _id: string;
+        title: string;
+        artist?: string;
+      }
+  >;
+}
+
+export interface ClientSetlistItem {
+  songId: string;
+  arrangementId?: string | SetlistArrangementRef;
+  transpose: number; // Semitones -11 to +11
+  capo?: number; // Capo fret 0 to 11
+  singerId?: string; // User leading this song
+  notes?: string;
+  order: number;
+  durationOverride?: number; // Seconds
+}
+
+// User with a vocal range, from GET /api/users/singers
+export interface SetlistSinger {
+  _id: string;
+  name: string;
+  vocalRange: VocalRange;
+}
+
+export interface ClientSetlist {
+  _id: string;
+  name: string;
+  description?: string;
+  createdBy: string;
+  songs: ClientSetlistItem[];
+  tags: string[];
+  metadata: {
+    isPublic: boolean;
+    shareToken?: string;
+    estimatedDuration: number; // Minutes
+    lastUsedAt?: string;
+    usageCount: number;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Per-song timing from GET /api/setlists/:id
+export interface SetlistItemDuration {
+  songId: string;
+  arrangementId?: string;
+  order: number;
+  seconds: number;
+  source: "override" | "mashup" | "chordpro" | "structure" | "default";
+  bars?: number;
+  tempo?: number;
+  timeSignature?: string;
+}
+
+export interface SetlistDuration {
+  totalSeconds: number;
+  estimatedMinutes: number;
+  items: SetlistItemDuration[];
+}
+
+export interface SetlistWithDuration {
+  setlist: ClientSetlist;
+  duration?: SetlistDuration; // Missing when loaded from the offline cache
+}
+
+// Item shape accepted by create and update
+export interface SetlistItemInput {
+  songId: string;
+  arrangementId?: string;
+  transpose: number;
+  capo?: number;
+  singerId?: string;
+  notes?: string;
+  order: number;
+  durationOverride?: number;
+}
+
+export interface SetlistInput {
+  name?: string;
+  description?: string;
+  tags?: string[];
+  isPublic?: boolean;
+  songs?: SetlistItemInput[];
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatDuration,
+  getArrangementId,
+  getItemTitle,
+  moveItem,
+  toItemInputs,
+} from "../setlistItems";
+import type { ClientSetlistItem } from "../../types/setlist.types";
+
+const items: ClientSetlistItem[] = [
+  {
+    songId: "song1",
+    arrangementId: {
+      _id: "arr1",
+      name: "Acoustic",
+      songIds: [{ _id: "song1", title: "Amazing Grace" }],
+    },
+    transpose: 2,
+    singerId: "user1",
+    notes: "Slow intro",
+    order: 0,
+  },
+  { songId: "song2", arrangementId: "arr2", transpose: 0, order: 1 },
+  { songId: "song3", transpose: -1, notes: "", order: 2 },
+];
+
+describe("setlistItems", () => {
+  describe("moveItem", () => {
+    it("moves an item and renumbers order", () => {
+      const result = moveItem(items, 0, 2);
+
+      expect(result.map((item) => item.songId)).toEqual([
+        "song2",
+        "song3",
+        "song1",
+      ]);
+      expect(result.map((item) => item.order)).toEqual([0, 1, 2]);
+    });
+
+    it("returns the same list for out of range moves", () => {
+      expect(moveItem(items, 1, 1)).toBe(items);
+      expect(moveItem(items, -1, 0)).toBe(items);
+      expect(moveItem(items, 5, 0)).toBe(items);
+    });
+  });
+
+  describe("toItemInputs", () => {
+    it("flattens populated arrangements to ids", () => {
+      const inputs = toItemInputs(moveItem(items, 2, 0));
+
+      expect(inputs).toEqual([
+        {
+          songId: "song3",
+          arrangementId: undefined,
+          transpose: -1,
+          notes: undefined,
+          order: 0,
+          durationOverride: undefined,
+        },
+        {
+          songId: "song1",
+          arrangementId: "arr1",
+          transpose: 2,
+          singerId: "user1",
+          notes: "Slow intro",
+          order: 1,
+          durationOverride: undefined,
+        },
+        {
+          songId: "song2",
+          arrangementId: "arr2",
+          transpose: 0,
+          notes: undefined,
+          order: 2,
+          durationOverride: undefined,
+        },
+      ]);
+    });
+  });
+
+  it("reads arrangement ids and titles", () => {
+    expect(getArrangementId(items[0])).toBe("arr1");
+    expect(getArrangementId(items[1])).toBe("arr2");
+    expect(getItemTitle(items[0])).toBe("Amazing Grace");
+    expect(getItemTitle(items[2])).toBe("Untitled song");
+  });
+
+  it("formats durations", () => {
+    expect(formatDuration(0)).toBe("0:00");
+    expect(formatDuration(245)).toBe("4:05");
+    expect(formatDuration(3725)).toBe("1:02:05");
+  });
+});
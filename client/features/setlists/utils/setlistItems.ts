@@ -0,0 +1,79 @@
+import type {
+  ClientSetlistItem,
+  SetlistArrangementRef,
+  SetlistItemInput,
+} from "../types/setlist.types";
+
+export function getArrangementRef(
+  item: ClientSetlistItem,
+): SetlistArrangementRef | undefined {
+  return typeof item.arrangementId === "object"
+    ? item.arrangementId
+    : undefined;
+}
+
+export function getArrangementId(item: ClientSetlistItem): string | undefined {
+  return typeof item.arrangementId === "object"
+    ? item.arrangementId._id
+    : item.arrangementId;
+}
+
+// Song title from the populated arrangement, falling back to its name
+export function getItemTitle(item: ClientSetlistItem): string {
+  const arrangement = getArrangementRef(item);
+  const song = arrangement?.songIds?.find(
+    (ref) => typeof ref === "object" && ref._id === item.songId,
+  );
+  if (song && typeof song === "object") {
+    return song.title;
+  }
+  const first = arrangement?.songIds?.[0];
+  if (first && typeof first === "object") {
+    return first.title;
+  }
+  return arrangement?.name || "Untitled song";
+}
+
+// Strip populated references so items can be sent back to the server
+export function toItemInputs(items: ClientSetlistItem[]): SetlistItemInput[] {
+  return items.map((item, index) => ({
+    songId: item.songId,
+    arrangementId: getArrangementId(item),
+    transpose: item.transpose ?? 0,
+    capo: item.capo || undefined,
+    singerId: item.singerId || undefined,
+    notes: item.notes || undefined,
+    order: index,
+    durationOverride: item.durationOverride,
+  }));
+}
+
+// Move an item and renumber the order of every item
+export function moveItem<T extends { order: number }>(
+  items: T[],
+  from: number,
+  to: number,
+): T[] {
+  if (from === to || from < 0 || to < 0 || from >= items.length) {
+    return items;
+  }
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.min(to, next.length), 0, moved);
+  return next.map((item, index) => ({ ...item, order: index }));
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}`;
+  }
+  return `${minutes}:${String(secs).padStart(2, "0")}`;
+}
+
+export function buildShareUrl(shareToken: string): string {
+  return `${window.location.origin}/setlists/share/${shareToken}`;
+}
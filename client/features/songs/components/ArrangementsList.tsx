@@ -19,7 +19,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Plus, Music, AlertCircle } from "lucide-react";
-import { ArrangementDetail, ArrangementWithMetrics } from "@features/songs/types/song.types";
+import {
+  ArrangementDetail,
+  ArrangementWithMetrics,
+} from "@features/songs/types/song.types";
 import ArrangementCard from "./ArrangementCard";
 import {
   useCreateArrangement,
@@ -71,7 +74,6 @@ export default function ArrangementsList({
         key: "C" as const, // Default key, user can change later
         difficulty: "intermediate" as const, // Default difficulty
         tags: [],
-        createdBy: currentUser._id, // Use actual user ID from auth context
         isPublic: true, // Make arrangement public by default
       });
 
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview SVG chord diagrams for fretted instruments and piano
+ * @module features/songs/components/ChordDiagram
+ */
+
+import { memo } from "react";
+import { cn } from "@/lib/utils";
+import type { Instrument } from "@features/songs/types/chord.types";
+import { getChordVoicing } from "@features/songs/utils/chordVoicings";
+import { FretboardDiagram } from "./ChordDiagramFretboard";
+import { KeyboardDiagram } from "./ChordDiagramKeyboard";
+
+interface ChordDiagramProps {
+  /** Chord in English letters, used to find the voicing */
+  chord: string;
+  /** Name shown above the diagram; defaults to the chord */
+  label?: string;
+  instrument?: Instrument;
+  className?: string;
+}
+
+/**
+ * Diagram showing how to play a chord on guitar, ukulele or piano
+ *
+ * @component
+ * @example
+ * ```tsx
+ * <ChordDiagram chord="Bm7/A" instrument="ukulele" />
+ * ```
+ */
+export const ChordDiagram = memo<ChordDiagramProps>(
+  ({ chord, label, instrument = "guitar", className }) => {
+    const voicing = getChordVoicing(chord, instrument);
+    const name = label ?? chord;
+
+    return (
+      <figure
+        className={cn("flex flex-col items-center gap-1", className)}
+        aria-label={`${name} on ${instrument}`}
+      >
+        <figcaption className="text-sm font-semibold">{name}</figcaption>
+        {!voicing ? (
+          <p className="px-2 py-6 text-xs text-muted-foreground">No diagram</p>
+        ) : voicing.instrument === "piano" ? (
+          <KeyboardDiagram voicing={voicing} />
+        ) : (
+          <FretboardDiagram voicing={voicing} />
+        )}
+      </figure>
+    );
+  },
+);
+
+ChordDiagram.displayName = "ChordDiagram";
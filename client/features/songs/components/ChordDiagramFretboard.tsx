@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Fretboard diagram for guitar and ukulele voicings
+ * @module features/songs/components/ChordDiagramFretboard
+ */
+
+import type { FrettedVoicing } from "@features/songs/utils/chordVoicings";
+
+const STRING_GAP = 12;
+const FRET_GAP = 14;
+const FRETS_SHOWN = 4;
+const MARGIN = { top: 14, left: 14, right: 8, bottom: 6 };
+
+export function FretboardDiagram({ voicing }: { voicing: FrettedVoicing }) {
+  const strings = voicing.frets.length;
+  const width = MARGIN.left + (strings - 1) * STRING_GAP + MARGIN.right;
+  const height = MARGIN.top + FRETS_SHOWN * FRET_GAP + MARGIN.bottom;
+  const x = (string: number) => MARGIN.left + string * STRING_GAP;
+  // Centre of the space for a fret, relative to the base fret
+  const y = (fret: number) =>
+    MARGIN.top + (fret - voicing.baseFret + 0.5) * FRET_GAP;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width * 1.5}
+      height={height * 1.5}
+      role="img"
+      className="text-foreground"
+    >
+      {voicing.baseFret === 1 ? (
+        <rect
+          x={x(0)}
+          y={MARGIN.top - 2}
+          width={(strings - 1) * STRING_GAP}
+          height={3}
+          fill="currentColor"
+        />
+      ) : (
+        <text
+          x={2}
+          y={MARGIN.top + FRET_GAP * 0.7}
+          fontSize={8}
+          fill="currentColor"
+        >
+          {voicing.baseFret}
+        </text>
+      )}
+      {Array.from({ length: FRETS_SHOWN + 1 }, (_, fret) => (
+        <line
+          key={`fret-${fret}`}
+          x1={x(0)}
+          x2={x(strings - 1)}
+          y1={MARGIN.top + fret * FRET_GAP}
+          y2={MARGIN.top + fret * FRET_GAP}
+          stroke="currentColor"
+          strokeWidth={0.75}
+        />
+      ))}
+      {voicing.frets.map((fret, string) => (
+        <g key={`string-${string}`}>
+          <line
+            x1={x(string)}
+            x2={x(string)}
+            y1={MARGIN.top}
+            y2={MARGIN.top + FRETS_SHOWN * FRET_GAP}
+            stroke="currentColor"
+            strokeWidth={0.75}
+          />
+          {fret === null && (
+            <text
+              x={x(string)}
+              y={MARGIN.top - 5}
+              fontSize={8}
+              textAnchor="middle"
+              fill="currentColor"
+            >
+              ×
+            </text>
+          )}
+          {fret === 0 && (
+            <circle
+              cx={x(string)}
+              cy={MARGIN.top - 7}
+              r={2.5}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={0.75}
+            />
+          )}
+          {fret !== null && fret > 0 && fret !== voicing.barre?.fret && (
+            <circle cx={x(string)} cy={y(fret)} r={4} fill="currentColor" />
+          )}
+        </g>
+      ))}
+      {voicing.barre && (
+        <rect
+          x={x(voicing.barre.from) - 4}
+          y={y(voicing.barre.fret) - 4}
+          width={(voicing.barre.to - voicing.barre.from) * STRING_GAP + 8}
+          height={8}
+          rx={4}
+          fill="currentColor"
+        />
+      )}
+    </svg>
+  );
+}
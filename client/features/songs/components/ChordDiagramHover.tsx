@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Chord diagram shown on hover or tap over a rendered chord
+ * @module features/songs/components/ChordDiagramHover
+ */
+
+import { useCallback, useRef, useState, type ReactNode } from "react";
+import type {
+  ChordNotation,
+  Instrument,
+} from "@features/songs/types/chord.types";
+import { convertChordNotation } from "@features/songs/utils/chordNotation";
+import { parseChordTones } from "@features/songs/utils/chordVoicings";
+import { ChordDiagram } from "./ChordDiagram";
+
+interface ChordDiagramHoverProps {
+  instrument: Instrument;
+  /** Notation the rendered chords are written in */
+  notation: ChordNotation;
+  children: ReactNode;
+}
+
+interface ActiveChord {
+  chord: string;
+  label: string;
+  top: number;
+  left: number;
+}
+
+/**
+ * Wraps formatted chord sheet HTML and shows a diagram for the chord under
+ * the pointer, or the chord last tapped on touch screens. Chords that are
+ * not letter chords, such as Nashville numbers, get no diagram.
+ */
+export function ChordDiagramHover({
+  instrument,
+  notation,
+  children,
+}: ChordDiagramHoverProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [active, setActive] = useState<ActiveChord | null>(null);
+
+  const findChord = useCallback(
+    (target: EventTarget): ActiveChord | null => {
+      const container = containerRef.current;
+      const element =
+        target instanceof Element ? target.closest(".chord") : null;
+      const label = element?.textContent?.trim();
+      if (!container || !element || !label) {
+        return null;
+      }
+      // With capo shapes and sounding chords both shown, "G (A)", the
+      // shape comes first and is what gets played
+      const shape = label.split(" (")[0];
+      const chord = convertChordNotation(shape, notation, "english") ?? shape;
+      if (!parseChordTones(chord)) {
+        return null;
+      }
+      const box = element.getBoundingClientRect();
+      const bounds = container.getBoundingClientRect();
+      return {
+        chord,
+        label: shape,
+        top: box.bottom - bounds.top + 4,
+        left: box.left - bounds.left,
+      };
+    },
+    [notation],
+  );
+
+  const handleMouseOver = (event: React.MouseEvent) => {
+    const next = findChord(event.target);
+    if (next?.chord !== active?.chord || next?.left !== active?.left) {
+      setActive(next);
+    }
+  };
+
+  const handleClick = (event: React.MouseEvent) => {
+    const next = findChord(event.target);
+    // Tapping the chord that is already open closes it
+    setActive(
+      next && active && next.chord === active.chord && next.left === active.left
+        ? null
+        : next,
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative"
+      onMouseOver={handleMouseOver}
+      onMouseLeave={() => setActive(null)}
+      onClick={handleClick}
+    >
+      {children}
+      {active && (
+        <div
+          role="tooltip"
+          className="pointer-events-none absolute z-20 rounded-md border bg-popover p-2 text-popover-foreground shadow-md"
+          style={{ top: active.top, left: active.left }}
+        >
+          <ChordDiagram
+            chord={active.chord}
+            label={active.label}
+            instrument={instrument}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
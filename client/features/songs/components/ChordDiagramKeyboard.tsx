@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Keyboard diagram for piano voicings
+ * @module features/songs/components/ChordDiagramKeyboard
+ */
+
+import type { KeyboardVoicing } from "@features/songs/utils/chordVoicings";
+
+const WHITE_KEY = { width: 10, height: 40 };
+const BLACK_KEY = { width: 6, height: 24 };
+const BLACK_PITCHES = [1, 3, 6, 8, 10];
+// Index of each pitch class among the white keys of its octave
+const WHITE_INDEX = [0, 0, 1, 1, 2, 3, 3, 4, 4, 5, 5, 6];
+
+export function KeyboardDiagram({ voicing }: { voicing: KeyboardVoicing }) {
+  // Show whole octaves from the C at or below the lowest note
+  const first = Math.floor(voicing.notes[0] / 12) * 12;
+  const last = voicing.notes[voicing.notes.length - 1];
+  const octaves = Math.floor((last - first) / 12) + 1;
+  const notes = Array.from({ length: octaves * 12 }, (_, i) => first + i);
+  const keyX = (note: number) =>
+    (Math.floor((note - first) / 12) * 7 + WHITE_INDEX[note % 12]) *
+    WHITE_KEY.width;
+  const pressed = (note: number) => voicing.notes.includes(note);
+  const whites = notes.filter((note) => !BLACK_PITCHES.includes(note % 12));
+  const blacks = notes.filter((note) => BLACK_PITCHES.includes(note % 12));
+  const width = octaves * 7 * WHITE_KEY.width + 1;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${WHITE_KEY.height + 1}`}
+      width={width * 1.5}
+      height={(WHITE_KEY.height + 1) * 1.5}
+      role="img"
+      className="text-foreground"
+    >
+      {whites.map((note) => (
+        <rect
+          key={note}
+          x={keyX(note) + 0.5}
+          y={0.5}
+          width={WHITE_KEY.width}
+          height={WHITE_KEY.height}
+          className={pressed(note) ? "fill-primary" : "fill-background"}
+          stroke="currentColor"
+          strokeWidth={0.75}
+        />
+      ))}
+      {blacks.map((note) => (
+        <rect
+          key={note}
+          x={keyX(note) + WHITE_KEY.width - BLACK_KEY.width / 2 + 0.5}
+          y={0.5}
+          width={BLACK_KEY.width}
+          height={BLACK_KEY.height}
+          className={pressed(note) ? "fill-primary" : "fill-foreground"}
+          stroke="currentColor"
+          strokeWidth={0.75}
+        />
+      ))}
+    </svg>
+  );
+}
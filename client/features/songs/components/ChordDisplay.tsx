@@ -3,22 +3,32 @@
  * @module features/songs/components/ChordDisplay
  */
 
-import { memo, useMemo, useCallback } from "react";
+import { memo, useMemo, useCallback, useEffect, useState } from "react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { LoadingSpinner } from "@/shared/components/LoadingSpinner";
 import { cn } from "@/lib/utils";
 import { AlertTriangle, Music, RefreshCw } from "lucide-react";
 import { ChordProPreviewErrorBoundary } from "./ChordProPreviewErrorBoundary";
 import { ChordDisplayControls } from "./ChordDisplayControls";
+import { ChordDiagramHover } from "./ChordDiagramHover";
 import {
+  CapoMode,
   ChordDisplayProps,
+  ChordMode,
   FONT_SIZE_CONFIG,
   THEME_CONFIG,
   ChordDisplayPropsSchema,
+  isMusicalKey,
 } from "@features/songs/types/chord.types";
 import { useChordSheetParser } from "@features/songs/hooks/useChordSheetParser";
 import { useChordTransposition } from "@features/songs/hooks/useChordTransposition";
-import { formatSongToHtml, transposeSong } from "@features/songs/utils/chordSheetHelpers";
+import { formatSongToHtml, transposeSong } from "@shared/songs/chordSheetHelpers";
+import {
+  formatKeyInNotation,
+  normalizeChordChart,
+} from "@features/songs/utils/chordNotation";
+import { getCapoShapeKey, parseCapo, songToCapo } from "@features/songs/utils/capo";
+import { songToNashville } from "@shared/songs/nashvilleNumbers";
 
 /**
  * ChordDisplay component with professional ChordSheetJS integration
@@ -46,10 +56,33 @@ export const ChordDisplay = memo<ChordDisplayProps>(
     theme = "light",
     showChords = true,
     showControls = false,
+    songKey,
+    chordMode = "letters",
+    notation = "english",
+    capo,
+    capoMode = "sounding",
+    diagramInstrument,
     className,
     onTranspose,
+    onChordModeChange,
+    onCapoChange,
+    onCapoModeChange,
     onError,
   }) => {
+    const [mode, setMode] = useState<ChordMode>(chordMode);
+    useEffect(() => {
+      setMode(chordMode);
+    }, [chordMode]);
+
+    const [capoFret, setCapoFret] = useState<number | undefined>(capo);
+    const [capoView, setCapoView] = useState<CapoMode>(capoMode);
+    useEffect(() => {
+      setCapoFret(capo);
+    }, [capo]);
+    useEffect(() => {
+      setCapoView(capoMode);
+    }, [capoMode]);
+
     // Validate props using Zod schema
     const validationResult = useMemo(() => {
       return ChordDisplayPropsSchema.safeParse({
@@ -59,6 +92,11 @@ export const ChordDisplay = memo<ChordDisplayProps>(
         theme,
         showChords,
         showControls,
+        chordMode,
+        notation,
+        capo,
+        capoMode,
+        diagramInstrument,
         className,
       });
     }, [
@@ -68,9 +106,21 @@ export const ChordDisplay = memo<ChordDisplayProps>(
       theme,
       showChords,
       showControls,
+      chordMode,
+      notation,
+      capo,
+      capoMode,
+      diagramInstrument,
       className,
     ]);
 
+    // Charts written in German or Latin names or in Nashville numbers are
+    // spelled out in English letters before parsing
+    const chartContent = useMemo(
+      () => normalizeChordChart(content, songKey),
+      [content, songKey],
+    );
+
     // Parse ChordPro content
     const {
       parsedSong,
@@ -78,7 +128,7 @@ export const ChordDisplay = memo<ChordDisplayProps>(
       metadata,
       isValid,
       isLoading,
-    } = useChordSheetParser(content, {
+    } = useChordSheetParser(chartContent, {
       enablePerformanceMeasurement: process.env.NODE_ENV === "development",
       enableValidation: true,
     });
@@ -86,8 +136,9 @@ export const ChordDisplay = memo<ChordDisplayProps>(
     // Set up transposition with detected key
     const transposition = useChordTransposition({
       initialTranspose: transpose,
+      originalKey: songKey && isMusicalKey(songKey) ? songKey : undefined,
       metadata: metadata || undefined,
-      content,
+      content: chartContent,
       onTranspositionChange: useCallback(
         (level: number) => {
           onTranspose?.(level);
@@ -97,6 +148,13 @@ export const ChordDisplay = memo<ChordDisplayProps>(
       enableKeyDetection: true,
     });
 
+    // A capo picked in the controls or passed in wins over the {capo:} directive
+    const activeCapo = capoFret ?? parseCapo(metadata?.capo);
+    const capoShapeKey =
+      activeCapo > 0 && transposition.currentKey
+        ? getCapoShapeKey(transposition.currentKey, activeCapo)
+        : null;
+
     // Create transposed song when needed
     const displaySong = useMemo(() => {
       if (!parsedSong) {
@@ -117,13 +175,28 @@ export const ChordDisplay = memo<ChordDisplayProps>(
       return transposedSong;
     }, [parsedSong, transposition.transpositionLevel, onError]);
 
-    // Format song to HTML
+    // Format song to HTML, as numbers relative to the current key or in the
+    // reader's notation, with capo shapes when a capo is set
     const formattedHtml = useMemo(() => {
       if (!displaySong) {
         return "";
       }
-      return formatSongToHtml(displaySong);
-    }, [displaySong]);
+      if (mode === "nashville" && transposition.currentKey) {
+        return formatSongToHtml(
+          songToNashville(displaySong, transposition.currentKey),
+        );
+      }
+      return formatSongToHtml(
+        songToCapo(displaySong, activeCapo, capoView, notation),
+      );
+    }, [
+      displaySong,
+      mode,
+      notation,
+      activeCapo,
+      capoView,
+      transposition.currentKey,
+    ]);
 
     // Handle prop validation errors
     const propValidationError = useMemo(() => {
@@ -164,6 +237,34 @@ export const ChordDisplay = memo<ChordDisplayProps>(
       [transposition],
     );
 
+    const handleChordModeChange = useCallback(
+      (nextMode: ChordMode) => {
+        setMode(nextMode);
+        onChordModeChange?.(nextMode);
+      },
+      [onChordModeChange],
+    );
+
+    const handleCapoModeChange = useCallback(
+      (nextMode: CapoMode) => {
+        setCapoView(nextMode);
+        onCapoModeChange?.(nextMode);
+      },
+      [onCapoModeChange],
+    );
+
+    const handleCapoChange = useCallback(
+      (fret: number) => {
+        setCapoFret(fret);
+        onCapoChange?.(fret);
+        // Picking a capo means the player wants to see the shapes
+        if (fret > 0 && capoView === "sounding") {
+          handleCapoModeChange("shapes");
+        }
+      },
+      [onCapoChange, capoView, handleCapoModeChange],
+    );
+
     // Loading state
     if (isLoading) {
       return (
@@ -248,6 +349,13 @@ export const ChordDisplay = memo<ChordDisplayProps>(
                   // This would need to be handled by parent component
                   // since showChords is a prop, not internal state
                 }}
+                chordMode={mode}
+                notation={notation}
+                onChordModeChange={handleChordModeChange}
+                capo={activeCapo}
+                capoMode={capoView}
+                onCapoChange={handleCapoChange}
+                onCapoModeChange={handleCapoModeChange}
               />
             </div>
           )}
@@ -273,20 +381,41 @@ export const ChordDisplay = memo<ChordDisplayProps>(
                 )}
                 {(metadata.key || transposition.currentKey) && (
                   <div className="flex items-center justify-center gap-4 text-sm text-muted-foreground">
-                    <span>Key: {transposition.currentKey || metadata.key}</span>
+                    <span>
+                      Key:{" "}
+                      {formatKeyInNotation(
+                        transposition.currentKey || metadata.key || "",
+                        notation,
+                      )}
+                    </span>
                     {metadata.tempo && <span>Tempo: {metadata.tempo}</span>}
                     {metadata.time && <span>Time: {metadata.time}</span>}
-                    {metadata.capo && <span>Capo: {metadata.capo}</span>}
+                    {activeCapo > 0 && (
+                      <span>
+                        Capo: {activeCapo}
+                        {capoShapeKey &&
+                          ` (${formatKeyInNotation(capoShapeKey, notation)} shapes)`}
+                      </span>
+                    )}
                   </div>
                 )}
               </div>
             )}
 
-            {/* Chord content */}
-            <div
-              className="chord-display-formatted"
-              dangerouslySetInnerHTML={{ __html: formattedHtml }}
-            />
+            {/* Chord content, with a diagram over the chord being pointed at */}
+            {diagramInstrument && showChords ? (
+              <ChordDiagramHover instrument={diagramInstrument} notation={notation}>
+                <div
+                  className="chord-display-formatted"
+                  dangerouslySetInnerHTML={{ __html: formattedHtml }}
+                />
+              </ChordDiagramHover>
+            ) : (
+              <div
+                className="chord-display-formatted"
+                dangerouslySetInnerHTML={{ __html: formattedHtml }}
+              />
+            )}
 
             {/* Hidden instructions for screen readers */}
             <div id="chord-display-instructions" className="sr-only">
@@ -294,7 +423,14 @@ export const ChordDisplay = memo<ChordDisplayProps>(
               {showControls &&
                 "Use the controls above to transpose or adjust display options."}
               {transposition.currentKey &&
-                ` Currently in the key of ${transposition.currentKey}.`}
+                ` Currently in the key of ${formatKeyInNotation(transposition.currentKey, notation)}.`}
+              {mode === "nashville" &&
+                transposition.currentKey &&
+                " Chords are shown as Nashville numbers."}
+              {mode !== "nashville" &&
+                activeCapo > 0 &&
+                capoView !== "sounding" &&
+                ` Capo on fret ${activeCapo}, showing the chord shapes to play.`}
               {transposition.transpositionLevel !== 0 &&
                 ` Transposed ${transposition.transpositionLevel > 0 ? "up" : "down"} by ${Math.abs(transposition.transpositionLevel)} semitone${Math.abs(transposition.transpositionLevel) !== 1 ? "s" : ""}.`}
             </div>
@@ -323,6 +459,12 @@ const arePropsEqual = (
     prevProps.theme !== nextProps.theme ||
     prevProps.showChords !== nextProps.showChords ||
     prevProps.showControls !== nextProps.showControls ||
+    prevProps.songKey !== nextProps.songKey ||
+    prevProps.chordMode !== nextProps.chordMode ||
+    prevProps.notation !== nextProps.notation ||
+    prevProps.capo !== nextProps.capo ||
+    prevProps.capoMode !== nextProps.capoMode ||
+    prevProps.diagramInstrument !== nextProps.diagramInstrument ||
     prevProps.className !== nextProps.className
   ) {
     return false;
@@ -331,6 +473,9 @@ const arePropsEqual = (
   // Compare callback functions by reference (parent should use useCallback)
   if (
     prevProps.onTranspose !== nextProps.onTranspose ||
+    prevProps.onChordModeChange !== nextProps.onChordModeChange ||
+    prevProps.onCapoChange !== nextProps.onCapoChange ||
+    prevProps.onCapoModeChange !== nextProps.onCapoModeChange ||
     prevProps.onError !== nextProps.onError
   ) {
     return false;
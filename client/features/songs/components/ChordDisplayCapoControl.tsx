@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Capo fret and capo mode selection for ChordDisplayControls
+ * @module features/songs/components/ChordDisplayCapoControl
+ */
+
+import { memo, useMemo } from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Guitar } from "lucide-react";
+import type {
+  CapoMode,
+  ChordNotation,
+} from "@features/songs/types/chord.types";
+import {
+  CAPO_MODES,
+  MAX_CAPO,
+  getCapoShapeKey,
+  suggestCapoPositions,
+} from "@features/songs/utils/capo";
+import { formatKeyInNotation } from "@features/songs/utils/chordNotation";
+
+interface ChordDisplayCapoControlProps {
+  /** Sounding key the capo suggestions are worked out from */
+  currentKey: string | null;
+  capo: number;
+  capoMode: CapoMode;
+  notation: ChordNotation;
+  onCapoChange: (capo: number) => void;
+  onCapoModeChange?: (mode: CapoMode) => void;
+}
+
+/**
+ * Capo fret picker with suggested positions for the current key, and the
+ * choice of showing shapes, sounding chords or both once a capo is set
+ */
+export const ChordDisplayCapoControl = memo<ChordDisplayCapoControlProps>(
+  ({
+    currentKey,
+    capo,
+    capoMode,
+    notation,
+    onCapoChange,
+    onCapoModeChange,
+  }) => {
+    const suggestions = useMemo(
+      () => (currentKey ? suggestCapoPositions(currentKey) : []),
+      [currentKey],
+    );
+    // Suggested frets are listed once, above the other positions
+    const otherPositions = useMemo(
+      () =>
+        Array.from({ length: MAX_CAPO + 1 }, (_, fret) => fret).filter(
+          (fret) => !suggestions.some((suggestion) => suggestion.capo === fret),
+        ),
+      [suggestions],
+    );
+
+    const describePosition = (fret: number) => {
+      if (fret === 0) {
+        return "No capo";
+      }
+      const shapeKey = currentKey && getCapoShapeKey(currentKey, fret);
+      return shapeKey
+        ? `Capo ${fret} · ${formatKeyInNotation(shapeKey, notation)} shapes`
+        : `Capo ${fret}`;
+    };
+
+    return (
+      <div className="flex items-center gap-2">
+        <Label className="text-sm font-medium flex items-center gap-1">
+          <Guitar className="h-4 w-4" />
+          Capo:
+        </Label>
+        <Select
+          value={String(capo)}
+          onValueChange={(value) => onCapoChange(Number(value))}
+        >
+          <SelectTrigger className="w-44 h-8" aria-label="Capo position">
+            <SelectValue>{describePosition(capo)}</SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {suggestions.length > 0 && (
+              <>
+                <SelectGroup>
+                  <SelectLabel>Suggested</SelectLabel>
+                  {suggestions.map(({ capo: fret }) => (
+                    <SelectItem key={`suggested-${fret}`} value={String(fret)}>
+                      {describePosition(fret)}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+                <SelectSeparator />
+              </>
+            )}
+            <SelectGroup>
+              <SelectLabel>Other positions</SelectLabel>
+              {otherPositions.map((fret) => (
+                <SelectItem key={fret} value={String(fret)}>
+                  {describePosition(fret)}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+
+        {capo > 0 && onCapoModeChange && (
+          <Select
+            value={capoMode}
+            onValueChange={(value) => onCapoModeChange(value as CapoMode)}
+          >
+            <SelectTrigger className="w-28 h-8" aria-label="Capo chords">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CAPO_MODES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    );
+  },
+);
+
+ChordDisplayCapoControl.displayName = "ChordDisplayCapoControl";
@@ -30,12 +30,15 @@ import {
   EyeOff,
   Type,
   Keyboard,
+  Hash,
 } from "lucide-react";
 import {
   ChordDisplayControlsProps,
   FontSize,
   FONT_SIZE_CONFIG,
 } from "@features/songs/types/chord.types";
+import { formatKeyInNotation } from "@features/songs/utils/chordNotation";
+import { ChordDisplayCapoControl } from "./ChordDisplayCapoControl";
 
 /**
  * ChordDisplayControls component providing transposition and display controls
@@ -65,6 +68,13 @@ export const ChordDisplayControls = memo<ChordDisplayControlsProps>(
     showChordsToggle = false,
     chordsVisible = true,
     onChordsVisibilityChange,
+    chordMode = "letters",
+    notation = "english",
+    onChordModeChange,
+    capo = 0,
+    capoMode = "sounding",
+    onCapoChange,
+    onCapoModeChange,
     className,
   }) => {
     // Handle keyboard shortcuts
@@ -124,8 +134,11 @@ export const ChordDisplayControls = memo<ChordDisplayControlsProps>(
 
     // Determine current key display
     const currentKeyDisplay = useMemo(() => {
-      return transpositionState.currentKey || "C";
-    }, [transpositionState.currentKey]);
+      return formatKeyInNotation(
+        transpositionState.currentKey || "C",
+        notation,
+      );
+    }, [transpositionState.currentKey, notation]);
 
     return (
       <TooltipProvider>
@@ -270,6 +283,36 @@ export const ChordDisplayControls = memo<ChordDisplayControlsProps>(
             </div>
           )}
 
+          {/* Nashville Number Toggle */}
+          {onChordModeChange && (
+            <div className="flex items-center gap-2">
+              <Label className="text-sm font-medium flex items-center gap-1">
+                <Hash className="h-4 w-4" />
+                Numbers:
+              </Label>
+              <Switch
+                checked={chordMode === "nashville"}
+                onCheckedChange={(checked) =>
+                  onChordModeChange(checked ? "nashville" : "letters")
+                }
+                disabled={!transpositionState.currentKey}
+                aria-label="Show chords as Nashville numbers"
+              />
+            </div>
+          )}
+
+          {/* Capo Position */}
+          {onCapoChange && chordMode !== "nashville" && (
+            <ChordDisplayCapoControl
+              currentKey={transpositionState.currentKey}
+              capo={capo}
+              capoMode={capoMode}
+              notation={notation}
+              onCapoChange={onCapoChange}
+              onCapoModeChange={onCapoModeChange}
+            />
+          )}
+
           {/* Keyboard Shortcuts Indicator */}
           <div className="ml-auto">
             <Tooltip>
@@ -329,6 +372,10 @@ const arePropsEqual = (
     prevProps.fontSize !== nextProps.fontSize ||
     prevProps.showChordsToggle !== nextProps.showChordsToggle ||
     prevProps.chordsVisible !== nextProps.chordsVisible ||
+    prevProps.chordMode !== nextProps.chordMode ||
+    prevProps.notation !== nextProps.notation ||
+    prevProps.capo !== nextProps.capo ||
+    prevProps.capoMode !== nextProps.capoMode ||
     prevProps.className !== nextProps.className
   ) {
     return false;
@@ -338,7 +385,10 @@ const arePropsEqual = (
   if (
     prevProps.onTranspose !== nextProps.onTranspose ||
     prevProps.onFontSizeChange !== nextProps.onFontSizeChange ||
-    prevProps.onChordsVisibilityChange !== nextProps.onChordsVisibilityChange
+    prevProps.onChordsVisibilityChange !== nextProps.onChordsVisibilityChange ||
+    prevProps.onChordModeChange !== nextProps.onChordModeChange ||
+    prevProps.onCapoChange !== nextProps.onCapoChange ||
+    prevProps.onCapoModeChange !== nextProps.onCapoModeChange
   ) {
     return false;
   }
@@ -14,10 +14,26 @@ import {
 } from "@/components/ui/alert-dialog";
 import { AlertCircle } from "lucide-react";
 import { useMediaQuery } from "@/hooks/use-media-query";
+import { useToast } from "@/hooks/use-toast";
+import { downloadTextFile } from "@/shared/utils/download";
 import { useChordTransposition } from "../hooks/useChordTransposition";
+import type { MusicalKey } from "../types/chord.types";
+import { detectMusicalKey } from "@shared/songs/chordSheetHelpers";
+import {
+  chordProToNashville,
+  getChartKey,
+  nashvilleToChordPro,
+} from "@shared/songs/nashvilleNumbers";
+import {
+  EXPORT_FORMATS,
+  exportChordChart,
+  getExportFilename,
+  type ExportFormat,
+} from "@shared/songs/chordExport";
 import { isCorruptedChordData } from "./ChordProEditorHelpers";
 import { ChordProEditorHeader } from "./ChordProEditorHeader";
 import { ChordProEditorContent } from "./ChordProEditorContent";
+import { ChordProEditorKeyCheck } from "./ChordProEditorKeyCheck";
 
 export interface ChordProEditorProps {
   initialContent: string;
@@ -50,6 +66,7 @@ function ChordProEditor({
   const [undoStack, setUndoStack] = useState<string[]>([]);
   const [redoStack, setRedoStack] = useState<string[]>([]);
   const isMobile = useMediaQuery("(max-width: 768px)");
+  const { toast } = useToast();
 
   // Debounced content update for live preview
   const debouncedUpdateContent = useMemo(() => {
@@ -89,6 +106,30 @@ function ChordProEditor({
     onSave(content);
   }, [content, onSave]);
 
+  // Exports the current editor content at the previewed transposition
+  const handleExport = useCallback(
+    (format: ExportFormat) => {
+      try {
+        const output = exportChordChart(content, format, {
+          transpose: transposition.transpositionLevel,
+        });
+        downloadTextFile(
+          output,
+          getExportFilename(songTitle.split(" - ")[0], format),
+          EXPORT_FORMATS[format].mimeType,
+        );
+      } catch (error) {
+        toast({
+          title: "Export failed",
+          description:
+            error instanceof Error ? error.message : "Unable to export chart",
+          variant: "destructive",
+        });
+      }
+    },
+    [content, songTitle, transposition.transpositionLevel, toast],
+  );
+
   const handleCancel = useCallback(() => {
     if (hasChanges) {
       setShowCancelDialog(true);
@@ -143,6 +184,29 @@ function ChordProEditor({
     [content],
   );
 
+  // Rewrites the chart as Nashville numbers, or spells it out in a key.
+  // Letter chords go through numbers so the whole chart lands in the key.
+  const handleConvertChords = useCallback(
+    (target: "nashville" | MusicalKey) => {
+      const key = getChartKey(content) ?? detectMusicalKey(content);
+      if (!key) {
+        toast({
+          title: "Key needed",
+          description: "Add a {key:} directive so chords can be numbered",
+          variant: "destructive",
+        });
+        return;
+      }
+      const numbers = chordProToNashville(content, key);
+      setUndoStack((prev) => [...prev.slice(-19), content]);
+      setRedoStack([]);
+      setContent(
+        target === "nashville" ? numbers : nashvilleToChordPro(numbers, target),
+      );
+    },
+    [content, toast],
+  );
+
   return (
     <>
       <Card className="chord-pro-editor-container h-full">
@@ -153,6 +217,8 @@ function ChordProEditor({
           isLoading={isLoading}
           onSave={handleSave}
           onCancel={handleCancel}
+          onExport={handleExport}
+          onConvertChords={handleConvertChords}
         />
 
         {/* Corrupted Data Warning */}
@@ -187,6 +253,13 @@ function ChordProEditor({
           </div>
         )}
 
+        {!readOnly && (
+          <ChordProEditorKeyCheck
+            content={debouncedContent}
+            candidates={transposition.keyCandidates}
+          />
+        )}
+
         <ChordProEditorContent
           content={content}
           onChange={handleContentChange}
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Eye, GripVertical } from "lucide-react";
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
 import { ChordDisplay } from "./ChordDisplay";
+import { useChordNotation } from "../hooks/useChordNotation";
 import { ChordProSyntaxHighlighter } from "./ChordProSyntaxHighlighter";
 import { cn } from "@/lib/utils";
 
@@ -33,6 +34,7 @@ export function ChordProEditorContent({
   onRedo, // eslint-disable-line @typescript-eslint/no-unused-vars
 }: ChordProEditorContentProps) {
   const [showPreview, setShowPreview] = useState(true);
+  const notation = useChordNotation();
   const [scrollTop, setScrollTop] = useState(0);
   const [scrollLeft, setScrollLeft] = useState(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -79,6 +81,7 @@ export function ChordProEditorContent({
       <p className="font-medium mb-2">ChordPro Quick Reference:</p>
       <ul className="space-y-1 text-muted-foreground">
         <li>• Chords: [C] [G] [Am] [F]</li>
+        <li>• Nashville numbers: [1] [5/7] [6m] with {"{key: G}"}</li>
         <li>• Title: {"{title: Song Title}"}</li>
         <li>• Artist: {"{subtitle: Artist Name}"}</li>
         <li>• Comments: {"{comment: This is a comment}"}</li>
@@ -120,6 +123,7 @@ export function ChordProEditorContent({
               <ChordDisplay
                 content={debouncedContent}
                 transpose={transposition.transpositionLevel}
+                notation={notation}
                 theme="light"
                 showControls={true}
                 className="max-w-none"
@@ -187,6 +191,7 @@ export function ChordProEditorContent({
               <ChordDisplay
                 content={debouncedContent}
                 transpose={transposition.transpositionLevel}
+                notation={notation}
                 theme="light"
                 showControls={!readOnly}
                 className="max-w-none"
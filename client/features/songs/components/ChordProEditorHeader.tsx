@@ -1,7 +1,18 @@
 import { CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { FileText, Save, X, AlertCircle } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FileText, Save, X, AlertCircle, Download } from "lucide-react";
+import { EXPORT_FORMATS, type ExportFormat } from "@shared/songs/chordExport";
+import type { MusicalKey } from "../types/chord.types";
+import { ChordProEditorNumbersMenu } from "./ChordProEditorNumbersMenu";
 
 interface ChordProEditorHeaderProps {
   songTitle: string;
@@ -10,6 +21,8 @@ interface ChordProEditorHeaderProps {
   isLoading: boolean;
   onSave: () => void;
   onCancel: () => void;
+  onExport?: (format: ExportFormat) => void;
+  onConvertChords?: (target: "nashville" | MusicalKey) => void;
 }
 
 export function ChordProEditorHeader({
@@ -19,6 +32,8 @@ export function ChordProEditorHeader({
   isLoading,
   onSave,
   onCancel,
+  onExport,
+  onConvertChords,
 }: ChordProEditorHeaderProps) {
   return (
     <CardHeader className="border-b">
@@ -34,6 +49,28 @@ export function ChordProEditorHeader({
               Unsaved changes
             </Badge>
           )}
+          {!readOnly && onConvertChords && (
+            <ChordProEditorNumbersMenu onConvert={onConvertChords} />
+          )}
+          {onExport && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="mr-2 h-4 w-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Export As</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                  <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+                    {EXPORT_FORMATS[format].label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
           <Button variant="outline" size="sm" onClick={onCancel}>
             <X className="mr-2 h-4 w-4" />
             {readOnly ? "Close" : "Cancel"}
@@ -0,0 +1,60 @@
+import { useMemo } from "react";
+import { AlertCircle } from "lucide-react";
+import type { KeyCandidate } from "../types/chord.types";
+import { findKeyMismatch } from "@shared/songs/keyDetection";
+import { getChartKey } from "@shared/songs/nashvilleNumbers";
+
+// Candidates below this confidence are not worth listing
+const MIN_LISTED_CONFIDENCE = 0.05;
+
+interface ChordProEditorKeyCheckProps {
+  content: string;
+  /** Ranked keys from useChordTransposition */
+  candidates: KeyCandidate[];
+}
+
+/**
+ * Warns when the chart's {key:} directive does not fit its chords, and
+ * lists the keys that do when the chart names no key
+ */
+export function ChordProEditorKeyCheck({
+  content,
+  candidates,
+}: ChordProEditorKeyCheckProps) {
+  const declaredKey = getChartKey(content);
+  const mismatch = useMemo(
+    () => (declaredKey ? findKeyMismatch(declaredKey, content) : null),
+    [declaredKey, content],
+  );
+
+  if (mismatch) {
+    return (
+      <div
+        role="status"
+        className="flex items-center gap-2 border-b bg-amber-50 px-4 py-2 text-sm text-amber-900"
+      >
+        <AlertCircle className="h-4 w-4 shrink-0" />
+        {mismatch.message}
+      </div>
+    );
+  }
+
+  const listed = candidates
+    .filter((candidate) => candidate.confidence >= MIN_LISTED_CONFIDENCE)
+    .slice(0, 3);
+  if (declaredKey || listed.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-b px-4 py-2 text-sm text-muted-foreground">
+      No {"{key:}"} directive. Keys that fit the chords:{" "}
+      {listed
+        .map(
+          (candidate) =>
+            `${candidate.key} (${Math.round(candidate.confidence * 100)}%)`,
+        )
+        .join(", ")}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Hash } from "lucide-react";
+import { MUSICAL_KEYS, type MusicalKey } from "../types/chord.types";
+
+interface ChordProEditorNumbersMenuProps {
+  onConvert: (target: "nashville" | MusicalKey) => void;
+}
+
+// Switches the chart between letter chords and Nashville numbers
+export function ChordProEditorNumbersMenu({
+  onConvert,
+}: ChordProEditorNumbersMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Hash className="mr-2 h-4 w-4" />
+          Numbers
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Nashville Numbers</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => onConvert("nashville")}>
+          Convert chords to numbers
+        </DropdownMenuItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>Convert to chords in</DropdownMenuSubTrigger>
+          <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+            {MUSICAL_KEYS.map((key) => (
+              <DropdownMenuItem key={key} onClick={() => onConvert(key)}>
+                {key}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
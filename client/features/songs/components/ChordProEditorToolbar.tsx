@@ -49,6 +49,7 @@ import {
   Settings,
   ChevronDown,
 } from "lucide-react";
+import { EXPORT_FORMATS, type ExportFormat } from "@shared/songs/chordExport";
 
 export interface ChordProEditorToolbarProps {
   // File operations
@@ -56,7 +57,7 @@ export interface ChordProEditorToolbarProps {
   onOpen?: () => void;
   onSave?: () => void;
   onSaveAs?: () => void;
-  onExport?: (format: "pdf" | "html" | "txt") => void;
+  onExport?: (format: ExportFormat) => void;
 
   // Edit operations
   canUndo?: boolean;
@@ -263,18 +264,17 @@ export function ChordProEditorToolbar({
             <DropdownMenuContent>
               <DropdownMenuLabel>Export As</DropdownMenuLabel>
               <DropdownMenuSeparator />
-              <DropdownMenuItem onClick={() => onExport?.("pdf")}>
-                <Download className="h-4 w-4 mr-2" />
-                PDF
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => onExport?.("html")}>
-                <Download className="h-4 w-4 mr-2" />
-                HTML
-              </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => onExport?.("txt")}>
-                <Download className="h-4 w-4 mr-2" />
-                Plain Text
-              </DropdownMenuItem>
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(
+                (format) => (
+                  <DropdownMenuItem
+                    key={format}
+                    onClick={() => onExport?.(format)}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {EXPORT_FORMATS[format].label}
+                  </DropdownMenuItem>
+                ),
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -0,0 +1,34 @@
+import type { ReactNode } from "react";
+import type { SearchHighlight } from "../types/search.types";
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: SearchHighlight["ranges"];
+}
+
+/** Text with the parts a search matched marked */
+export function HighlightedText({ text, ranges = [] }: HighlightedTextProps) {
+  const parts: ReactNode[] = [];
+  let last = 0;
+
+  for (const [start, end] of ranges) {
+    if (start < last) {
+      continue;
+    }
+    if (start > last) {
+      parts.push(text.slice(last, start));
+    }
+    parts.push(
+      <mark
+        key={start}
+        className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-800"
+      >
+        {text.slice(start, end)}
+      </mark>,
+    );
+    last = end;
+  }
+  parts.push(text.slice(last));
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,168 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { ImportSongPreview } from "./ImportSongPreview";
+import { useImportSong } from "../hooks/useSongImport";
+import type { MusicalKey } from "../types/chord.types";
+import {
+  parseSongImport,
+  updateImportDraft,
+  validateImportDraft,
+  type ImportDraft,
+} from "@shared/songs/songImport";
+
+const ACCEPTED_FILES = ".xml,.txt,.cho,.chordpro,.crd,.pro,text/plain,text/xml";
+
+interface ImportedFile {
+  name: string;
+  content: string;
+  draft: ImportDraft;
+  // Values changed in the preview, sent with the file when saving
+  changes: { title?: string; artist?: string; key?: MusicalKey };
+}
+
+/**
+ * Upload an OpenLyrics, OpenSong or chords-over-lyrics file, review the
+ * converted chart and save it as a new song with one arrangement
+ */
+export function ImportSongDialog() {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<ImportedFile | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const importSong = useImportSong();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const report = useMemo(
+    () => (file ? validateImportDraft(file.draft) : null),
+    [file],
+  );
+
+  const reset = () => {
+    setFile(null);
+    setReadError(null);
+    importSong.reset();
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      reset();
+    }
+  };
+
+  const handleFile = async (selected?: File) => {
+    reset();
+    if (!selected) {
+      return;
+    }
+    try {
+      const content = await selected.text();
+      const draft = parseSongImport(content, { filename: selected.name });
+      setFile({ name: selected.name, content, draft, changes: {} });
+    } catch (error) {
+      setReadError(
+        error instanceof Error ? error.message : "Unable to read the file",
+      );
+    }
+  };
+
+  const handleChange = (changes: ImportedFile["changes"]) => {
+    setFile(
+      (current) =>
+        current && {
+          ...current,
+          draft: updateImportDraft(current.draft, changes),
+          changes: { ...current.changes, ...changes },
+        },
+    );
+  };
+
+  const handleImport = async () => {
+    if (!file) {
+      return;
+    }
+    try {
+      const result = await importSong.mutateAsync({
+        content: file.content,
+        filename: file.name,
+        format: file.draft.format,
+        ...file.changes,
+      });
+      toast({
+        title: "Song imported",
+        description: `"${result.song.title}" was added to the library`,
+      });
+      handleOpenChange(false);
+      navigate(`/arrangements/${result.arrangement.slug}`);
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description:
+          error instanceof Error ? error.message : "Unable to import song",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="mr-2 h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Song</DialogTitle>
+          <DialogDescription>
+            Import an OpenLyrics or OpenSong file, or a text file with chords
+            above the lyrics. Check the converted chart before saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept={ACCEPTED_FILES}
+          aria-label="Song file"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+
+        {readError && <p className="text-sm text-destructive">{readError}</p>}
+
+        {file && report && (
+          <ImportSongPreview
+            draft={file.draft}
+            report={report}
+            onChange={handleChange}
+          />
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!report?.isValid || importSong.isPending}
+          >
+            {importSong.isPending ? "Importing..." : "Import Song"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
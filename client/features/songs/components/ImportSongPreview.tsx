@@ -0,0 +1,109 @@
+import { AlertCircle, AlertTriangle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChordDisplay } from "./ChordDisplay";
+import { MUSICAL_KEYS, type MusicalKey } from "../types/chord.types";
+import {
+  IMPORT_FORMATS,
+  type ImportDraft,
+  type ImportReport,
+} from "@shared/songs/songImport";
+
+interface ImportSongPreviewProps {
+  draft: ImportDraft;
+  report: ImportReport;
+  onChange: (changes: {
+    title?: string;
+    artist?: string;
+    key?: MusicalKey;
+  }) => void;
+}
+
+// Editable details and converted chart for a song file before it is saved
+export function ImportSongPreview({
+  draft,
+  report,
+  onChange,
+}: ImportSongPreviewProps) {
+  const { song, arrangement } = draft;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <span>Detected format</span>
+        <Badge variant="secondary">{IMPORT_FORMATS[draft.format]}</Badge>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto]">
+        <div className="space-y-1">
+          <Label htmlFor="import-title">Title</Label>
+          <Input
+            id="import-title"
+            value={song.title}
+            onChange={(e) => onChange({ title: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="import-artist">Artist</Label>
+          <Input
+            id="import-artist"
+            value={song.artist ?? ""}
+            onChange={(e) => onChange({ artist: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="import-key">Key</Label>
+          <Select
+            value={arrangement.key}
+            onValueChange={(value) => onChange({ key: value as MusicalKey })}
+          >
+            <SelectTrigger id="import-key" className="w-24">
+              <SelectValue placeholder="Key" />
+            </SelectTrigger>
+            <SelectContent>
+              {MUSICAL_KEYS.map((key) => (
+                <SelectItem key={key} value={key}>
+                  {key}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {report.issues.length > 0 && (
+        <ul className="space-y-1 text-sm" aria-label="Import issues">
+          {report.issues.map((issue, index) => (
+            <li
+              key={index}
+              className={
+                issue.severity === "error"
+                  ? "flex items-start gap-2 text-destructive"
+                  : "flex items-start gap-2 text-amber-600"
+              }
+            >
+              {issue.severity === "error" ? (
+                <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              ) : (
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              )}
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="max-h-72 overflow-y-auto rounded-md border p-3">
+        <ChordDisplay content={arrangement.chordData} fontSize="sm" />
+      </div>
+    </div>
+  );
+}
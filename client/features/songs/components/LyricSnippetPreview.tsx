@@ -0,0 +1,26 @@
+import type { LyricSnippet } from "../types/search.types";
+import { HighlightedText } from "./HighlightedText";
+
+interface LyricSnippetPreviewProps {
+  snippet: LyricSnippet;
+}
+
+/** The lines of a song where a searched phrase is sung */
+export function LyricSnippetPreview({ snippet }: LyricSnippetPreviewProps) {
+  return (
+    <figure className="rounded-md border-l-2 border-primary/40 bg-muted/40 px-3 py-2 text-sm">
+      <blockquote className="space-y-0.5 italic text-muted-foreground">
+        {snippet.lines.map((line, index) => (
+          <p key={index}>
+            <HighlightedText text={line.text} ranges={line.ranges} />
+          </p>
+        ))}
+      </blockquote>
+      {snippet.source === "arrangement" && snippet.arrangementName && (
+        <figcaption className="mt-1 text-xs text-muted-foreground">
+          From {snippet.arrangementName}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
@@ -0,0 +1,82 @@
+import { Link } from "react-router-dom";
+import { Plus, Sparkles } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { ClientSong } from "@features/songs/types/song.types";
+import {
+  useSimilarSongs,
+  type SimilarSongsOptions,
+} from "../hooks/useSimilarSongs";
+
+interface PairsWellWithRailProps extends SimilarSongsOptions {
+  songId: string;
+  title?: string;
+  /** Shows an add button on each song, e.g. in the setlist builder */
+  onAdd?: (song: ClientSong) => void;
+}
+
+// A scrolling row of songs that go well with the given one
+export default function PairsWellWithRail({
+  songId,
+  title = "Pairs well with",
+  onAdd,
+  ...options
+}: PairsWellWithRailProps) {
+  const { data: recommendations, isLoading } = useSimilarSongs(songId, options);
+
+  if (!isLoading && !recommendations?.length) {
+    return null;
+  }
+
+  return (
+    <section aria-label={title} className="space-y-3">
+      <h3 className="flex items-center gap-2 font-semibold">
+        <Sparkles className="h-4 w-4" />
+        {title}
+      </h3>
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {isLoading &&
+          [0, 1, 2].map((index) => (
+            <Skeleton key={index} className="h-28 w-56 shrink-0" />
+          ))}
+        {recommendations?.map(({ song, reasons }) => (
+          <div
+            key={song.id}
+            className="flex w-56 shrink-0 flex-col gap-1 rounded-md border p-3"
+          >
+            <Link
+              to={`/songs/${song.slug}`}
+              className="truncate font-medium hover:underline"
+            >
+              {song.title}
+            </Link>
+            {song.artist && (
+              <p className="truncate text-xs text-muted-foreground">
+                {song.artist}
+              </p>
+            )}
+            <div className="flex flex-wrap gap-1">
+              {song.key && <Badge variant="outline">{song.key}</Badge>}
+              {song.tempo && <Badge variant="outline">{song.tempo} BPM</Badge>}
+            </div>
+            {reasons[0] && (
+              <p className="text-xs text-muted-foreground">{reasons[0]}</p>
+            )}
+            {onAdd && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-auto"
+                onClick={() => onAdd(song)}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
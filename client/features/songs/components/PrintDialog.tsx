@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Printer } from "lucide-react";
+import type { PrintOptions } from "@shared/songs/printRenderer";
+
+interface PrintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+  isPrinting?: boolean;
+  onPrint: (
+    options: Required<Pick<PrintOptions, "columns" | "paperSize">>,
+  ) => void;
+}
+
+export function PrintDialog({
+  open,
+  onOpenChange,
+  title,
+  description = "Choose a layout, then use your browser's print dialog to print or save as PDF.",
+  isPrinting = false,
+  onPrint,
+}: PrintDialogProps) {
+  const [columns, setColumns] = useState<"1" | "2">("1");
+  const [paperSize, setPaperSize] = useState<"letter" | "a4">("letter");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Layout</label>
+            <RadioGroup
+              value={columns}
+              onValueChange={(value) => setColumns(value as "1" | "2")}
+              className="flex gap-6"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="1" id="print-columns-1" />
+                <Label htmlFor="print-columns-1">One column</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="2" id="print-columns-2" />
+                <Label htmlFor="print-columns-2">Two columns</Label>
+              </div>
+            </RadioGroup>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Paper</label>
+            <RadioGroup
+              value={paperSize}
+              onValueChange={(value) => setPaperSize(value as "letter" | "a4")}
+              className="flex gap-6"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="letter" id="print-paper-letter" />
+                <Label htmlFor="print-paper-letter">Letter</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="a4" id="print-paper-a4" />
+                <Label htmlFor="print-paper-a4">A4</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={isPrinting}
+            onClick={() =>
+              onPrint({ columns: columns === "2" ? 2 : 1, paperSize })
+            }
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            {isPrinting ? "Preparing..." : "Print"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -91,7 +91,6 @@ export default function ReviewsList({
         arrangementId,
         rating: formData.rating,
         comment: formData.comment.trim(),
-        userId,
       });
 
       toast({
@@ -131,7 +130,7 @@ export default function ReviewsList({
       }
 
       try {
-        await markHelpfulMutation.mutateAsync({ reviewId, userId });
+        await markHelpfulMutation.mutateAsync({ reviewId });
         refetch();
       } catch (error) {
         toast({
@@ -157,7 +156,7 @@ export default function ReviewsList({
       }
 
       try {
-        await reportReviewMutation.mutateAsync({ reviewId, userId });
+        await reportReviewMutation.mutateAsync({ reviewId });
         toast({
           title: "Review reported",
           description: "Thank you for helping keep our community safe",
@@ -0,0 +1,177 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { Layers, ListMusic, Music } from "lucide-react";
+import type {
+  LyricSnippet,
+  SearchHighlight,
+  SearchResults,
+} from "../types/search.types";
+import { HighlightedText } from "./HighlightedText";
+
+interface SearchResultsMenuProps {
+  results?: SearchResults;
+  isLoading: boolean;
+  onSelect: () => void;
+}
+
+interface ResultItem {
+  id: string;
+  href?: string;
+  title: ReactNode;
+  detail?: ReactNode;
+}
+
+const rangesFor = (highlights: SearchHighlight[], field: string) =>
+  highlights.find((highlight) => highlight.field === field)?.ranges;
+
+// Shows the first match outside the result's title, such as its artist
+function secondaryMatch(highlights: SearchHighlight[], titleField: string) {
+  const match = highlights.find((highlight) => highlight.field !== titleField);
+  return match ? (
+    <HighlightedText text={match.text} ranges={match.ranges} />
+  ) : undefined;
+}
+
+// The sung line itself, without the surrounding context
+function snippetMatch(snippet?: LyricSnippet) {
+  const line = snippet?.lines.find((item) => item.ranges.length > 0);
+  return line ? (
+    <HighlightedText text={line.text} ranges={line.ranges} />
+  ) : undefined;
+}
+
+function ResultGroup({
+  label,
+  icon,
+  items,
+  onSelect,
+}: {
+  label: string;
+  icon: ReactNode;
+  items: ResultItem[];
+  onSelect: () => void;
+}) {
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="py-1" role="group" aria-label={label}>
+      <p className="flex items-center gap-2 px-3 py-1 text-xs font-medium uppercase text-muted-foreground">
+        {icon}
+        {label}
+      </p>
+      {items.map((item) => {
+        const content = (
+          <>
+            <p className="truncate text-sm">{item.title}</p>
+            {item.detail && (
+              <p className="truncate text-xs text-muted-foreground">
+                {item.detail}
+              </p>
+            )}
+          </>
+        );
+        return item.href ? (
+          <Link
+            key={item.id}
+            to={item.href}
+            onClick={onSelect}
+            className="block px-3 py-2 hover:bg-accent focus:bg-accent focus:outline-none"
+          >
+            {content}
+          </Link>
+        ) : (
+          <div key={item.id} className="px-3 py-2">
+            {content}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Search results grouped by songs, arrangements and setlists */
+export function SearchResultsMenu({
+  results,
+  isLoading,
+  onSelect,
+}: SearchResultsMenuProps) {
+  if (isLoading || !results) {
+    return <p className="p-3 text-sm text-muted-foreground">Searching...</p>;
+  }
+
+  const songs = results.songs.map((song) => ({
+    id: song.id,
+    href: `/songs/${song.slug}`,
+    title: (
+      <HighlightedText
+        text={song.title}
+        ranges={rangesFor(song.highlights, "title")}
+      />
+    ),
+    detail:
+      secondaryMatch(song.highlights, "title") ??
+      snippetMatch(song.snippet) ??
+      song.artist,
+  }));
+
+  const arrangements = results.arrangements.map((arrangement) => ({
+    id: arrangement.id,
+    href: `/arrangements/${arrangement.slug}`,
+    title: (
+      <HighlightedText
+        text={arrangement.name}
+        ranges={rangesFor(arrangement.highlights, "name")}
+      />
+    ),
+    detail:
+      secondaryMatch(arrangement.highlights, "name") ??
+      arrangement.songTitles.join(" / "),
+  }));
+
+  const setlists = results.setlists.map((setlist) => ({
+    id: setlist.id,
+    href: setlist.shareToken
+      ? `/setlists/share/${setlist.shareToken}`
+      : setlist.isOwner
+        ? `/setlists/${setlist.id}/perform`
+        : undefined,
+    title: (
+      <HighlightedText
+        text={setlist.name}
+        ranges={rangesFor(setlist.highlights, "name")}
+      />
+    ),
+    detail:
+      secondaryMatch(setlist.highlights, "name") ??
+      `${setlist.songCount} song${setlist.songCount === 1 ? "" : "s"}`,
+  }));
+
+  if (songs.length + arrangements.length + setlists.length === 0) {
+    return <p className="p-3 text-sm text-muted-foreground">No matches</p>;
+  }
+
+  return (
+    <div className="divide-y">
+      <ResultGroup
+        label="Songs"
+        icon={<Music className="h-3 w-3" />}
+        items={songs}
+        onSelect={onSelect}
+      />
+      <ResultGroup
+        label="Arrangements"
+        icon={<Layers className="h-3 w-3" />}
+        items={arrangements}
+        onSelect={onSelect}
+      />
+      <ResultGroup
+        label="Setlists"
+        icon={<ListMusic className="h-3 w-3" />}
+        items={setlists}
+        onSelect={onSelect}
+      />
+    </div>
+  );
+}
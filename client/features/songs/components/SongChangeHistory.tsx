@@ -0,0 +1,131 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { History, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useSongChanges,
+  useRevertSongChange,
+  type SongChange,
+  type SongChangeField,
+} from "@features/songs/hooks/useSongChanges";
+
+interface SongChangeHistoryProps {
+  songId: string;
+}
+
+const FIELD_LABELS: Record<SongChangeField, string> = {
+  title: "Title",
+  artist: "Artist",
+  compositionYear: "Year",
+  ccli: "CCLI",
+  themes: "Themes",
+  source: "Source",
+  lyrics: "Lyrics",
+  notes: "Notes",
+};
+
+const SOURCE_LABELS: Record<SongChange["source"], string> = {
+  edit: "Edited",
+  sync: "Synced",
+  revert: "Reverted",
+};
+
+// Long text fields are summarized so the log stays readable
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "(empty)";
+  }
+  const text = Array.isArray(value) ? value.join(", ") : String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+export default function SongChangeHistory({ songId }: SongChangeHistoryProps) {
+  const { toast } = useToast();
+  const { data, isLoading } = useSongChanges(songId);
+  const revertMutation = useRevertSongChange();
+
+  const handleRevert = async (change: SongChange) => {
+    try {
+      await revertMutation.mutateAsync({ songId, changeId: change.id });
+      toast({
+        title: "Change reverted",
+        description: `${FIELD_LABELS[change.field]} was restored to its previous value.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to revert change",
+        description:
+          error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Edit History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading && <Skeleton className="h-32 w-full" />}
+
+        {!isLoading && (!data || data.changes.length === 0) && (
+          <p className="text-muted-foreground text-center py-8">
+            No edits have been recorded for this song yet.
+          </p>
+        )}
+
+        {data && data.changes.length > 0 && (
+          <ul className="divide-y rounded-md border">
+            {data.changes.map((change) => (
+              <li
+                key={change.id}
+                className="flex flex-wrap items-start justify-between gap-2 p-3"
+              >
+                <div className="space-y-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">
+                      {FIELD_LABELS[change.field]}
+                    </Badge>
+                    {change.reverted && (
+                      <Badge variant="outline">Reverted</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm break-words">
+                    <span className="text-muted-foreground line-through">
+                      {formatValue(change.oldValue)}
+                    </span>{" "}
+                    → {formatValue(change.newValue)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {SOURCE_LABELS[change.source]} by{" "}
+                    {change.changedBy.name || "Unknown user"} on{" "}
+                    {new Date(change.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                {data.canRevert &&
+                  !change.reverted &&
+                  change.source !== "revert" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={revertMutation.isPending}
+                      onClick={() => handleRevert(change)}
+                    >
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Revert
+                    </Button>
+                  )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
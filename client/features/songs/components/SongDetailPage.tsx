@@ -23,6 +23,8 @@ import CommunitySection from "./CommunitySection";
 import ArrangementsSection from "./ArrangementsSection";
 import ChordProEditor from "./ChordProEditor";
 import SongNotesTab from "./SongNotesTab";
+import SongChangeHistory from "./SongChangeHistory";
+import PairsWellWithRail from "./PairsWellWithRail";
 import {
   ArrangementDetail,
   ArrangementWithMetrics,
@@ -237,13 +239,13 @@ export default function SongDetailPage(): ReactElement {
 
         <div className="container mx-auto px-4">
           <div className="max-w-6xl mx-auto">
-            {/* Tabs for Notes, Verses, Community */}
+            {/* Tabs for Notes, Verses, Community, History */}
             <Tabs
               value={activeTab}
               onValueChange={setActiveTab}
               className="w-full"
             >
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="notes">Notes</TabsTrigger>
                 <TabsTrigger value="verses" className="gap-2">
                   Verses & Quotes
@@ -262,6 +264,7 @@ export default function SongDetailPage(): ReactElement {
                     </Badge>
                   )}
                 </TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
               </TabsList>
 
               <TabsContent value="notes" className="mt-6">
@@ -279,6 +282,10 @@ export default function SongDetailPage(): ReactElement {
               <TabsContent value="community" className="mt-6">
                 <CommunitySection songId={song.id} />
               </TabsContent>
+
+              <TabsContent value="history" className="mt-6">
+                <SongChangeHistory songId={song.id} />
+              </TabsContent>
             </Tabs>
 
             {/* Arrangements Section - Always visible below tabs */}
@@ -287,6 +294,8 @@ export default function SongDetailPage(): ReactElement {
                 arrangements={songWithRelations.arrangements}
               />
             )}
+
+            <PairsWellWithRail songId={song.id} />
           </div>
         </div>
       </div>
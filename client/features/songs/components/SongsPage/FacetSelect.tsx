@@ -0,0 +1,60 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export interface FacetOption {
+  value: string;
+  label?: string;
+  /** Songs matching the option under the other filters */
+  count?: number;
+}
+
+export interface FacetSelectProps {
+  value: string;
+  options: FacetOption[];
+  allLabel: string;
+  placeholder: string;
+  onValueChange: (value: string) => void;
+  className?: string;
+}
+
+// A filter select listing how many songs each option would leave
+export function FacetSelect({
+  value,
+  options,
+  allLabel,
+  placeholder,
+  onValueChange,
+  className = "w-32",
+}: FacetSelectProps) {
+  // The selection stays listed even when other filters leave it no songs
+  const listed =
+    value !== "all" && !options.some((option) => option.value === value)
+      ? [...options, { value, count: 0 }]
+      : options;
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className={className} aria-label={placeholder}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">{allLabel}</SelectItem>
+        {listed.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label ?? option.value}
+            {option.count !== undefined && (
+              <span className="ml-1 text-muted-foreground">
+                ({option.count})
+              </span>
+            )}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
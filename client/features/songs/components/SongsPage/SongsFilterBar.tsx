@@ -1,5 +1,4 @@
 import {
-  Search,
   Filter,
   Grid,
   List,
@@ -8,7 +7,6 @@ import {
   Star,
   Music,
 } from "lucide-react";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -18,17 +16,96 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { SPIRITUAL_CATEGORIES } from "@features/categories/utils/categoryMappings";
-import { getCategoryById } from "@features/categories";
 import {
-  FilterState,
-  SortOption,
-} from "../../hooks/useFilteredSongs";
+  getCategoryById,
+  useCategoryList,
+  type SpiritualCategory,
+} from "@features/categories";
+import type { SongFacet, SongFacets } from "@shared/types/facet.types";
+import { formatFacetValue, TEMPO_RANGES } from "@shared/songs/songFacets";
+import { FilterState, SortOption } from "../../hooks/useFilteredSongs";
+import { SongsSearchBar } from "../SongsSearchBar";
+import { FacetOption, FacetSelect } from "./FacetSelect";
+
+const FACET_SELECTS: {
+  facet: SongFacet;
+  filter: keyof FilterState;
+  placeholder: string;
+  allLabel: string;
+  className?: string;
+}[] = [
+  {
+    facet: "key",
+    filter: "selectedKey",
+    placeholder: "Key",
+    allLabel: "All Keys",
+    className: "w-28",
+  },
+  {
+    facet: "difficulty",
+    filter: "selectedDifficulty",
+    placeholder: "Difficulty",
+    allLabel: "All Levels",
+  },
+  {
+    facet: "theme",
+    filter: "selectedTheme",
+    placeholder: "Theme",
+    allLabel: "All Themes",
+  },
+  {
+    facet: "category",
+    filter: "selectedCategory",
+    placeholder: "Category",
+    allLabel: "All Categories",
+    className: "w-40",
+  },
+  {
+    facet: "tempo",
+    filter: "selectedTempo",
+    placeholder: "Tempo",
+    allLabel: "Any Tempo",
+    className: "w-40",
+  },
+  {
+    facet: "timeSignature",
+    filter: "selectedTimeSignature",
+    placeholder: "Time",
+    allLabel: "Any Time",
+  },
+  {
+    facet: "source",
+    filter: "selectedSource",
+    placeholder: "Source",
+    allLabel: "All Sources",
+    className: "w-40",
+  },
+  {
+    facet: "decade",
+    filter: "selectedDecade",
+    placeholder: "Decade",
+    allLabel: "Any Decade",
+  },
+];
+
+const DIFFICULTIES = ["beginner", "intermediate", "advanced"];
+
+function facetLabel(
+  facet: SongFacet,
+  value: string,
+  categories: SpiritualCategory[],
+): string {
+  return facet === "category"
+    ? getCategoryById(value, categories)?.name || value
+    : formatFacetValue(facet, value);
+}
 
 export interface SongsFilterBarProps {
   filters: FilterState;
   availableKeys: string[];
   availableThemes: string[];
+  /** Counts from the server; without them options come from loaded songs */
+  facets?: SongFacets;
   isPending: boolean;
   hasActiveFilters: boolean;
   onFilterChange: <K extends keyof FilterState>(
@@ -42,96 +119,62 @@ export function SongsFilterBar({
   filters,
   availableKeys,
   availableThemes,
+  facets,
   isPending,
   hasActiveFilters,
   onFilterChange,
   onClearFilters,
 }: SongsFilterBarProps) {
+  const { data: categories = [] } = useCategoryList();
+
+  const facetOptions = (facet: SongFacet): FacetOption[] => {
+    if (facets) {
+      return facets[facet].map(({ value, count }) => ({
+        value,
+        label: facetLabel(facet, value, categories),
+        count,
+      }));
+    }
+    const fallback: Partial<Record<SongFacet, string[]>> = {
+      key: availableKeys,
+      difficulty: DIFFICULTIES,
+      theme: availableThemes,
+      category: categories.map((category) => category.id),
+      tempo: TEMPO_RANGES.map((range) => range.value),
+    };
+    return (fallback[facet] ?? []).map((value) => ({
+      value,
+      label: facetLabel(facet, value, categories),
+    }));
+  };
+
   return (
     <div className="space-y-4 mb-6">
       {/* Search Bar */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder="Search songs, artists, or themes..."
-          value={filters.searchQuery}
-          onChange={(e) => onFilterChange("searchQuery", e.target.value)}
-          className="pl-10"
-        />
-      </div>
+      <SongsSearchBar
+        searchQuery={filters.searchQuery}
+        onSearchChange={(value) => onFilterChange("searchQuery", value)}
+      />
 
       {/* Filters Row */}
       <div className="flex flex-wrap items-center gap-3">
         <div className="flex items-center gap-3">
           <Filter className="h-4 w-4 text-muted-foreground" />
 
-          <Select
-            value={filters.selectedKey}
-            onValueChange={(value) => onFilterChange("selectedKey", value)}
-          >
-            <SelectTrigger className="w-24">
-              <SelectValue placeholder="Key" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Keys</SelectItem>
-              {availableKeys.map((key) => (
-                <SelectItem key={key} value={key}>
-                  {key}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-
-          <Select
-            value={filters.selectedDifficulty}
-            onValueChange={(value) =>
-              onFilterChange("selectedDifficulty", value)
-            }
-          >
-            <SelectTrigger className="w-32">
-              <SelectValue placeholder="Difficulty" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Levels</SelectItem>
-              <SelectItem value="beginner">Beginner</SelectItem>
-              <SelectItem value="intermediate">Intermediate</SelectItem>
-              <SelectItem value="advanced">Advanced</SelectItem>
-            </SelectContent>
-          </Select>
-
-          <Select
-            value={filters.selectedTheme}
-            onValueChange={(value) => onFilterChange("selectedTheme", value)}
-          >
-            <SelectTrigger className="w-32">
-              <SelectValue placeholder="Theme" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Themes</SelectItem>
-              {availableThemes.map((theme) => (
-                <SelectItem key={theme} value={theme}>
-                  {theme}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-
-          <Select
-            value={filters.selectedCategory}
-            onValueChange={(value) => onFilterChange("selectedCategory", value)}
-          >
-            <SelectTrigger className="w-40">
-              <SelectValue placeholder="Category" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Categories</SelectItem>
-              {SPIRITUAL_CATEGORIES.map((category) => (
-                <SelectItem key={category.id} value={category.id}>
-                  {category.name}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          {FACET_SELECTS.map(({ facet, filter, ...select }) => {
+            const options = facetOptions(facet);
+            const value = filters[filter] as string;
+            // Facets without values in the catalog are left out
+            return options.length > 0 || value !== "all" ? (
+              <FacetSelect
+                key={facet}
+                {...select}
+                value={value}
+                options={options}
+                onValueChange={(selected) => onFilterChange(filter, selected)}
+              />
+            ) : null;
+          })}
 
           <Select
             value={filters.sortBy}
@@ -212,25 +255,14 @@ export function SongsFilterBar({
           {filters.searchQuery && (
             <Badge variant="secondary">{`Search: "${filters.searchQuery}"`}</Badge>
           )}
-          {filters.selectedKey && filters.selectedKey !== "all" && (
-            <Badge variant="secondary">Key: {filters.selectedKey}</Badge>
-          )}
-          {filters.selectedDifficulty &&
-            filters.selectedDifficulty !== "all" && (
-              <Badge variant="secondary">
-                Difficulty: {filters.selectedDifficulty}
+          {FACET_SELECTS.map(({ facet, filter, placeholder }) => {
+            const value = filters[filter] as string;
+            return value && value !== "all" ? (
+              <Badge key={facet} variant="secondary">
+                {placeholder}: {facetLabel(facet, value, categories)}
               </Badge>
-            )}
-          {filters.selectedTheme && filters.selectedTheme !== "all" && (
-            <Badge variant="secondary">Theme: {filters.selectedTheme}</Badge>
-          )}
-          {filters.selectedCategory && filters.selectedCategory !== "all" && (
-            <Badge variant="secondary">
-              Category:{" "}
-              {getCategoryById(filters.selectedCategory)?.name ||
-                filters.selectedCategory}
-            </Badge>
-          )}
+            ) : null;
+          })}
           {filters.sortBy !== "recent" && (
             <Badge variant="secondary">Sort: {filters.sortBy}</Badge>
           )}
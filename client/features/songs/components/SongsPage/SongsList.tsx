@@ -2,7 +2,9 @@ import { Music } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import SongCard from "../SongCard";
+import { LyricSnippetPreview } from "../LyricSnippetPreview";
 import { ClientSong } from "../../types/song.types";
+import type { LyricSnippet } from "../../types/search.types";
 import { ViewMode } from "../../hooks/useFilteredSongs";
 
 export interface SongsListProps {
@@ -15,6 +17,8 @@ export interface SongsListProps {
   onClearFilters: () => void;
   onToggleFavorite: (songId: string) => void;
   onAddToSetlist: (songId: string) => void;
+  /** Lyric lines matching the search, by song ID */
+  snippets?: Record<string, LyricSnippet>;
 }
 
 export function SongsList({
@@ -27,6 +31,7 @@ export function SongsList({
   onClearFilters,
   onToggleFavorite,
   onAddToSetlist,
+  snippets = {},
 }: SongsListProps) {
   // Loading state
   if (isLoading || isPending) {
@@ -94,15 +99,26 @@ export function SongsList({
           : "space-y-3"
       }
     >
-      {songs.map((song) => (
-        <SongCard
-          key={song.id}
-          song={song}
-          variant={viewMode === "list" ? "compact" : "default"}
-          onToggleFavorite={onToggleFavorite}
-          onAddToSetlist={onAddToSetlist}
-        />
-      ))}
+      {songs.map((song) => {
+        const card = (
+          <SongCard
+            key={song.id}
+            song={song}
+            variant={viewMode === "list" ? "compact" : "default"}
+            onToggleFavorite={onToggleFavorite}
+            onAddToSetlist={onAddToSetlist}
+          />
+        );
+        const snippet = snippets[song.id];
+        return snippet ? (
+          <div key={song.id} className="space-y-2">
+            {card}
+            <LyricSnippetPreview snippet={snippet} />
+          </div>
+        ) : (
+          card
+        );
+      })}
     </div>
   );
 }
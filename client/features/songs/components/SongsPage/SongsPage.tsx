@@ -1,27 +1,66 @@
-import { useCallback, useEffect } from "react";
+import { useCallback, useDeferredValue, useEffect, useMemo } from "react";
 import { useSearchParams } from "react-router-dom";
 import { Layout } from "@/shared/components/Layout";
-import { useSongs } from "../../hooks/useSongsAPI";
-import { useFilteredSongs } from "../../hooks/useFilteredSongs";
+import { useInfiniteSongs, useUnifiedSearch } from "../../hooks/useSongsAPI";
+import {
+  getSongFacetFilters,
+  useFilteredSongs,
+} from "../../hooks/useFilteredSongs";
 import { useUserId } from "@/shared/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { SongsPageHeader } from "./SongsPageHeader";
 import { SongsFilterBar } from "./SongsFilterBar";
 import { SongsList } from "./SongsList";
+import { VirtualizedSongsList } from "./VirtualizedSongsList";
 
 export default function SongsPage() {
   const [searchParams] = useSearchParams();
   const userId = useUserId();
   const { toast } = useToast();
 
-  // Fetch songs with search parameters
+  // Typo-tolerant matches for the search in the URL, best first
+  const searchQuery = useDeferredValue(searchParams.get("search") || "");
+  const { data: searchResults } = useUnifiedSearch(searchQuery, 50);
+  const searchMatches = useMemo(
+    () => searchResults?.songs.map((song) => song.id),
+    [searchResults],
+  );
+  const snippets = useMemo(
+    () =>
+      Object.fromEntries(
+        (searchResults?.songs ?? []).flatMap((song) =>
+          song.snippet ? [[song.id, song.snippet]] : [],
+        ),
+      ),
+    [searchResults],
+  );
+
+  // Filters apply across the whole catalog, narrowed to the search matches
+  const searching = Boolean(searchQuery && searchMatches);
+  const catalogParams = useMemo(
+    () => ({
+      ...getSongFacetFilters(searchParams),
+      sort: searchParams.get("sort") || undefined,
+      ids: searching ? searchMatches?.join(",") : undefined,
+      limit: 50,
+    }),
+    [searchParams, searching, searchMatches],
+  );
+  // A search that matched nothing leaves no catalog to fetch
+  const noMatches = searching && searchMatches?.length === 0;
+  // Pages load as the list scrolls; the URL holds the filters, so the same
+  // pages come back from the cache when returning from a song
   const {
-    data: songs = [],
+    data: catalog,
     isLoading: songsLoading,
     error: songsError,
-  } = useSongs();
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteSongs(catalogParams, !noMatches);
+  const songs = catalog?.songs ?? [];
 
-  // Use the shared filtering hook
+  // Use the shared filtering hook; the API filters and counts the facets
   const {
     filters,
     isPending,
@@ -31,7 +70,11 @@ export default function SongsPage() {
     availableThemes,
     updateFilter,
     clearFilters,
-  } = useFilteredSongs({ songs });
+  } = useFilteredSongs({
+    songs,
+    searchMatches,
+    filterOnServer: Boolean(catalog?.facets),
+  });
 
   // Handle direct navigation with category parameter
   useEffect(() => {
@@ -75,12 +118,18 @@ export default function SongsPage() {
   return (
     <Layout>
       <div className="max-w-7xl mx-auto space-y-6">
-        <SongsPageHeader songCount={filteredSongs.length} />
+        <SongsPageHeader
+          songCount={
+            catalog?.facets && !searching ? catalog.total : filteredSongs.length
+          }
+          canImport={!!userId}
+        />
 
         <SongsFilterBar
           filters={filters}
           availableKeys={availableKeys}
           availableThemes={availableThemes}
+          facets={catalog?.facets}
           isPending={isPending}
           hasActiveFilters={hasActiveFilters}
           onFilterChange={updateFilter}
@@ -99,17 +148,36 @@ export default function SongsPage() {
             </h2>
           </div>
 
-          <SongsList
-            songs={filteredSongs}
-            viewMode={filters.viewMode}
-            isLoading={songsLoading}
-            isPending={isPending}
-            error={songsError}
-            hasActiveFilters={hasActiveFilters}
-            onClearFilters={clearFilters}
-            onToggleFavorite={handleToggleFavorite}
-            onAddToSetlist={handleAddToSetlist}
-          />
+          {searching ? (
+            <SongsList
+              songs={filteredSongs}
+              viewMode={filters.viewMode}
+              isLoading={songsLoading}
+              isPending={isPending}
+              error={songsError}
+              hasActiveFilters={hasActiveFilters}
+              onClearFilters={clearFilters}
+              onToggleFavorite={handleToggleFavorite}
+              onAddToSetlist={handleAddToSetlist}
+              snippets={snippets}
+            />
+          ) : (
+            <VirtualizedSongsList
+              songs={filteredSongs}
+              viewMode={filters.viewMode}
+              isLoading={songsLoading}
+              isPending={isPending}
+              error={songsError}
+              hasActiveFilters={hasActiveFilters}
+              onClearFilters={clearFilters}
+              onToggleFavorite={handleToggleFavorite}
+              onAddToSetlist={handleAddToSetlist}
+              hasMore={hasNextPage && !noMatches}
+              isLoadingMore={isFetchingNextPage}
+              onLoadMore={fetchNextPage}
+              scrollKey={searchParams.toString()}
+            />
+          )}
         </div>
       </div>
     </Layout>
@@ -1,8 +1,15 @@
+import { ImportSongDialog } from "../ImportSongDialog";
+
 export interface SongsPageHeaderProps {
   songCount: number;
+  /** Show the song import action (signed-in users only) */
+  canImport?: boolean;
 }
 
-export function SongsPageHeader({ songCount }: SongsPageHeaderProps) {
+export function SongsPageHeader({
+  songCount,
+  canImport = false,
+}: SongsPageHeaderProps) {
   return (
     <div className="flex items-center justify-between">
       <div>
@@ -11,11 +18,14 @@ export function SongsPageHeader({ songCount }: SongsPageHeaderProps) {
           Discover and explore our collection of worship songs
         </p>
       </div>
-      {songCount > 0 && (
-        <div className="text-sm text-muted-foreground">
-          {songCount} {songCount === 1 ? "song" : "songs"}
-        </div>
-      )}
+      <div className="flex items-center gap-4">
+        {songCount > 0 && (
+          <div className="text-sm text-muted-foreground">
+            {songCount} {songCount === 1 ? "song" : "songs"}
+          </div>
+        )}
+        {canImport && <ImportSongDialog />}
+      </div>
     </div>
   );
 }
@@ -11,6 +11,11 @@ import { ViewMode } from "../../hooks/useFilteredSongs";
 const CARD_HEIGHT = 160; // Approximate height for grid cards
 const LIST_ITEM_HEIGHT = 80; // Height for list items
 const GRID_GAP = 16;
+const LOAD_MORE_THRESHOLD = 5; // Rows from the end at which the next page loads
+
+// Scroll offsets by list, kept for the session so returning from a song
+// puts the user back where they were
+const scrollOffsets = new Map<string, number>();
 
 export interface VirtualizedSongsListProps {
   songs: ClientSong[];
@@ -22,6 +27,12 @@ export interface VirtualizedSongsListProps {
   onClearFilters: () => void;
   onToggleFavorite: (songId: string) => void;
   onAddToSetlist: (songId: string) => void;
+  /** Whether the catalog has songs beyond those loaded */
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  /** Identifies the list, e.g. by its filters, for restoring the scroll position */
+  scrollKey?: string;
 }
 
 interface GridRowProps {
@@ -98,6 +109,10 @@ export function VirtualizedSongsList({
   onClearFilters,
   onToggleFavorite,
   onAddToSetlist,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  scrollKey = "songs",
 }: VirtualizedSongsListProps) {
   const [itemsPerRow, setItemsPerRow] = useState(1);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -190,12 +205,20 @@ export function VirtualizedSongsList({
     ? songs.length 
     : Math.ceil(songs.length / itemsPerRow);
   
+  // Fetch the next page as the user nears the end of what is loaded
+  const handleItemsRendered = ({ visibleStopIndex }: { visibleStopIndex: number }) => {
+    if (hasMore && !isLoadingMore && visibleStopIndex >= itemCount - LOAD_MORE_THRESHOLD) {
+      onLoadMore?.();
+    }
+  };
+  
   // Virtualized songs display
   return (
     <div ref={containerRef} className="h-full min-h-[600px]">
       <AutoSizer>
         {({ height, width }) => (
           <List
+            key={scrollKey}
             height={height}
             width={width}
             itemCount={itemCount}
@@ -208,11 +231,19 @@ export function VirtualizedSongsList({
               onAddToSetlist,
             }}
             overscanCount={3}
+            initialScrollOffset={scrollOffsets.get(scrollKey) ?? 0}
+            onScroll={({ scrollOffset }) => scrollOffsets.set(scrollKey, scrollOffset)}
+            onItemsRendered={handleItemsRendered}
           >
             {GridRow}
           </List>
         )}
       </AutoSizer>
+      {isLoadingMore && (
+        <p className="py-2 text-center text-sm text-muted-foreground">
+          Loading more songs...
+        </p>
+      )}
     </div>
   );
 }
@@ -1,5 +1,11 @@
+import { useDeferredValue, useState } from "react";
 import { Search } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import { useUnifiedSearch } from "../hooks/useSongsAPI";
+import { SearchResultsMenu } from "./SearchResultsMenu";
+
+// Shorter queries match too much to be worth a request
+const MIN_QUERY_LENGTH = 2;
 
 export interface SongsSearchBarProps {
   searchQuery: string;
@@ -8,23 +14,60 @@ export interface SongsSearchBarProps {
 }
 
 /**
- * Search bar component for filtering songs
+ * Search bar for songs, arrangements and setlists. Tolerates typos and
+ * partial words, and lists the best matches of each kind as you type.
  */
 export const SongsSearchBar = ({
   searchQuery,
   onSearchChange,
   placeholder = "Search songs, artists, or themes...",
 }: SongsSearchBarProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const deferredQuery = useDeferredValue(searchQuery.trim());
+  const hasQuery = deferredQuery.length >= MIN_QUERY_LENGTH;
+  const { data, isLoading } = useUnifiedSearch(deferredQuery, 5, hasQuery);
+
   return (
-    <div className="relative">
+    <div
+      className="relative"
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget)) {
+          setIsOpen(false);
+        }
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          setIsOpen(false);
+        }
+      }}
+    >
       <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
       <Input
         placeholder={placeholder}
         value={searchQuery}
-        onChange={(e) => onSearchChange(e.target.value)}
+        onChange={(e) => {
+          onSearchChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
         className="pl-10"
         aria-label="Search songs"
+        aria-expanded={isOpen && hasQuery}
+        aria-controls="search-results"
+        role="combobox"
       />
+      {isOpen && hasQuery && (
+        <div
+          id="search-results"
+          className="absolute z-50 mt-1 max-h-96 w-full overflow-y-auto rounded-md border bg-popover shadow-md"
+        >
+          <SearchResultsMenu
+            results={data}
+            isLoading={isLoading}
+            onSelect={() => setIsOpen(false)}
+          />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,84 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { VocalRange } from "../types/song.types";
+import {
+  VOCAL_RANGE_NOTES,
+  midiToNote,
+  noteToMidi,
+} from "@shared/songs/vocalRange";
+
+const NOT_SET = "none";
+
+interface VocalRangeFieldsProps {
+  id: string;
+  value: VocalRange | null;
+  onChange: (range: VocalRange | null) => void;
+  disabled?: boolean;
+}
+
+// Stored notes may be spelled with flats; the pickers list sharps
+function toOption(note: string | undefined) {
+  const midi = note ? noteToMidi(note) : null;
+  return midi === null ? NOT_SET : midiToNote(midi);
+}
+
+/**
+ * Lowest and highest note pickers. Either end can be left unset while
+ * editing; the range is only passed on once both ends are chosen.
+ */
+export function VocalRangeFields({
+  id,
+  value,
+  onChange,
+  disabled = false,
+}: VocalRangeFieldsProps) {
+  const low = toOption(value?.low);
+  const high = toOption(value?.high);
+
+  const handleChange = (end: "low" | "high", note: string) => {
+    const next = { low, high, [end]: note };
+    onChange(
+      next.low === NOT_SET && next.high === NOT_SET
+        ? null
+        : {
+            low: next.low === NOT_SET ? "" : next.low,
+            high: next.high === NOT_SET ? "" : next.high,
+          },
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {(["low", "high"] as const).map((end) => (
+        <div key={end} className="space-y-2">
+          <Label htmlFor={`${id}-${end}`}>
+            {end === "low" ? "Lowest note" : "Highest note"}
+          </Label>
+          <Select
+            value={end === "low" ? low : high}
+            onValueChange={(note) => handleChange(end, note)}
+            disabled={disabled}
+          >
+            <SelectTrigger id={`${id}-${end}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NOT_SET}>Not set</SelectItem>
+              {VOCAL_RANGE_NOTES.map((note) => (
+                <SelectItem key={note} value={note}>
+                  {note}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
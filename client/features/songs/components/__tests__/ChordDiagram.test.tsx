@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { ChordDiagram } from "../ChordDiagram";
+import { ChordDiagramHover } from "../ChordDiagramHover";
+
+describe("ChordDiagram", () => {
+  it("draws a fretboard with open, muted and fretted strings", () => {
+    const { container } = render(<ChordDiagram chord="C" />);
+
+    expect(screen.getByText("C")).toBeInTheDocument();
+    expect(screen.getByText("×")).toBeInTheDocument();
+    // Three fretted dots and two open-string rings
+    expect(container.querySelectorAll("circle")).toHaveLength(5);
+  });
+
+  it("draws a keyboard with the chord's keys pressed", () => {
+    const { container } = render(
+      <ChordDiagram chord="Am" label="La m" instrument="piano" />,
+    );
+
+    expect(screen.getByText("La m")).toBeInTheDocument();
+    expect(container.querySelectorAll(".fill-primary")).toHaveLength(3);
+  });
+
+  it("says when there is no diagram", () => {
+    render(<ChordDiagram chord="N.C." />);
+
+    expect(screen.getByText("No diagram")).toBeInTheDocument();
+  });
+});
+
+describe("ChordDiagramHover", () => {
+  const sheet = (
+    <div className="chord-sheet">
+      <div className="chord">G (A)</div>
+      <div className="lyrics">Holy</div>
+      <div className="chord">6m7</div>
+    </div>
+  );
+
+  it("shows the shape diagram for the chord under the pointer", () => {
+    render(
+      <ChordDiagramHover instrument="guitar" notation="english">
+        {sheet}
+      </ChordDiagramHover>,
+    );
+
+    fireEvent.mouseOver(screen.getByText("G (A)"));
+    expect(screen.getByRole("tooltip")).toHaveTextContent("G");
+
+    fireEvent.mouseOver(screen.getByText("Holy"));
+    expect(screen.queryByRole("tooltip")).not.toBeInTheDocument();
+  });
+
+  it("toggles the diagram on tap and ignores Nashville numbers", () => {
+    render(
+      <ChordDiagramHover instrument="ukulele" notation="english">
+        {sheet}
+      </ChordDiagramHover>,
+    );
+
+    fireEvent.click(screen.getByText("6m7"));
+    expect(screen.queryByRole("tooltip")).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("G (A)"));
+    expect(screen.getByRole("tooltip")).toBeInTheDocument();
+    fireEvent.click(screen.getByText("G (A)"));
+    expect(screen.queryByRole("tooltip")).not.toBeInTheDocument();
+  });
+});
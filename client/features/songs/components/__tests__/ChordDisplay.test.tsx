@@ -63,6 +63,7 @@ vi.mock("../../hooks/useChordTransposition", () => ({
     transposeDown: vi.fn(),
     reset: vi.fn(),
     setTransposition: vi.fn(),
+    keyCandidates: [],
   })),
 }));
 
@@ -329,6 +330,7 @@ describe("ChordDisplay Component", () => {
         transposeDown: vi.fn(),
         reset: vi.fn(),
         setTransposition: vi.fn(),
+        keyCandidates: [],
       });
 
       render(<ChordDisplay {...defaultProps} transpose={2} />);
@@ -399,6 +401,7 @@ describe("ChordDisplay Component", () => {
           transposeDown: vi.fn(),
           reset: vi.fn(),
           setTransposition: vi.fn(),
+          keyCandidates: [],
         });
 
       render(<ChordDisplay {...defaultProps} transpose={2} />);
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { LyricSnippetPreview } from "../LyricSnippetPreview";
+
+const lines = [
+  { text: "How sweet the sound", ranges: [] },
+  {
+    text: "That saved a wretch like me",
+    ranges: [[5, 19]] as Array<[number, number]>,
+  },
+  { text: "I once was lost", ranges: [] },
+];
+
+describe("LyricSnippetPreview", () => {
+  it("shows the context lines and marks the sung phrase", () => {
+    render(<LyricSnippetPreview snippet={{ source: "lyrics", lines }} />);
+
+    expect(screen.getByText("How sweet the sound")).toBeInTheDocument();
+    expect(screen.getByText("I once was lost")).toBeInTheDocument();
+    expect(screen.getByText("saved a wretch").tagName).toBe("MARK");
+    expect(screen.queryByText(/^From /)).not.toBeInTheDocument();
+  });
+
+  it("names the arrangement the lines came from", () => {
+    render(
+      <LyricSnippetPreview
+        snippet={{ source: "arrangement", arrangementName: "Live Set", lines }}
+      />,
+    );
+
+    expect(screen.getByText("From Live Set")).toBeInTheDocument();
+  });
+});
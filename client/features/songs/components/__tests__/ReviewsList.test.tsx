@@ -368,7 +368,6 @@ describe("ReviewsList", () => {
 
       expect(mockSubmit).toHaveBeenCalledWith({
         arrangementId: "arr123",
-        userId: "user123",
         rating: 5,
         comment: "This is an excellent arrangement for our worship team!",
       });
@@ -428,7 +427,6 @@ describe("ReviewsList", () => {
 
       expect(mockMarkHelpful).toHaveBeenCalledWith({
         reviewId: "review1",
-        userId: "user123",
       });
     });
 
@@ -517,7 +515,6 @@ describe("ReviewsList", () => {
 
       expect(mockReport).toHaveBeenCalledWith({
         reviewId: "review1",
-        userId: "user123",
         reason: "Inappropriate content",
       });
     });
@@ -34,6 +34,10 @@ vi.mock("../../hooks/useArrangements", () => ({
   })),
 }));
 
+vi.mock("../../hooks/useSimilarSongs", () => ({
+  useSimilarSongs: vi.fn(() => ({ data: [], isLoading: false })),
+}));
+
 import { useSongBySlug } from "../../hooks/useSongsAPI";
 import { useArrangementsBySong } from "../../hooks/useArrangements";
 
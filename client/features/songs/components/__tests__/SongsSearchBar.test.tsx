@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { SongsSearchBar } from "../SongsSearchBar";
+import { useUnifiedSearch } from "../../hooks/useSongsAPI";
+
+vi.mock("../../hooks/useSongsAPI", () => ({
+  useUnifiedSearch: vi.fn(),
+}));
+
+const results = {
+  songs: [
+    {
+      id: "s1",
+      slug: "amazing-grace",
+      title: "Amazing Grace",
+      artist: "John Newton",
+      score: 0.9,
+      highlights: [
+        {
+          field: "title",
+          text: "Amazing Grace",
+          ranges: [
+            [0, 7],
+            [8, 13],
+          ],
+        },
+      ],
+    },
+  ],
+  arrangements: [
+    {
+      id: "a1",
+      slug: "grace-acoustic",
+      name: "Grace Acoustic",
+      songTitles: ["Amazing Grace"],
+      score: 0.8,
+      highlights: [],
+    },
+  ],
+  setlists: [],
+};
+
+const renderSearchBar = (searchQuery: string) => {
+  const onSearchChange = vi.fn();
+  render(
+    <MemoryRouter>
+      <SongsSearchBar
+        searchQuery={searchQuery}
+        onSearchChange={onSearchChange}
+      />
+    </MemoryRouter>,
+  );
+  return { onSearchChange };
+};
+
+describe("SongsSearchBar", () => {
+  beforeEach(() => {
+    vi.mocked(useUnifiedSearch).mockReturnValue({
+      data: results,
+      isLoading: false,
+    } as any);
+  });
+
+  it("lists matches grouped by type with the matched words marked", () => {
+    renderSearchBar("amazng grace");
+    fireEvent.focus(screen.getByRole("combobox"));
+
+    const songs = screen.getByRole("group", { name: "Songs" });
+    expect(songs.querySelectorAll("mark")).toHaveLength(2);
+    expect(screen.getByText("Amazing").closest("a")).toHaveAttribute(
+      "href",
+      "/songs/amazing-grace",
+    );
+    expect(
+      screen.getByRole("group", { name: "Arrangements" }),
+    ).toHaveTextContent("Grace Acoustic");
+    expect(screen.queryByRole("group", { name: "Setlists" })).toBeNull();
+  });
+
+  it("searches once the query is long enough", () => {
+    renderSearchBar("a");
+    fireEvent.focus(screen.getByRole("combobox"));
+
+    expect(useUnifiedSearch).toHaveBeenCalledWith("a", 5, false);
+    expect(screen.queryByRole("group", { name: "Songs" })).toBeNull();
+  });
+
+  it("reports typing and closes on Escape", () => {
+    const { onSearchChange } = renderSearchBar("grace");
+    const input = screen.getByRole("combobox");
+
+    fireEvent.change(input, { target: { value: "grace a" } });
+    expect(onSearchChange).toHaveBeenCalledWith("grace a");
+    expect(screen.getByRole("group", { name: "Songs" })).toBeInTheDocument();
+
+    fireEvent.keyDown(input, { key: "Escape" });
+    expect(screen.queryByRole("group", { name: "Songs" })).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { authFetch } from "@/shared/utils/api-helpers";
+
+// Types
+export type RevisionField = "chordData" | "key" | "tempo" | "structure";
+
+export interface ArrangementRevision {
+  revision: number;
+  key: string;
+  tempo?: number;
+  structure: string[];
+  changedFields: RevisionField[];
+  restoredFrom?: number;
+  author: {
+    _id: string;
+    name?: string;
+  };
+  createdAt: string;
+}
+
+export interface RevisionDiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface RevisionDiff {
+  from: ArrangementRevision;
+  to: ArrangementRevision;
+  changedFields: RevisionField[];
+  lines: RevisionDiffLine[];
+  summary: {
+    added: number;
+    removed: number;
+    unchanged: number;
+  };
+}
+
+export interface RestoreRevisionRequest {
+  arrangementId: string;
+  revision: number;
+}
+
+// API functions
+const fetchRevisions = async (
+  arrangementId: string,
+): Promise<ArrangementRevision[]> => {
+  const response = await authFetch(
+    `${window.location.origin}/api/arrangements/${arrangementId}/revisions`,
+  );
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error?.message || "Failed to fetch revisions");
+  }
+  return result.data;
+};
+
+const fetchRevisionDiff = async (
+  arrangementId: string,
+  from: number,
+  to: number,
+): Promise<RevisionDiff> => {
+  const response = await authFetch(
+    `${window.location.origin}/api/arrangements/${arrangementId}/revisions/diff?from=${from}&to=${to}`,
+  );
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error?.message || "Failed to compare revisions");
+  }
+  return result.data;
+};
+
+const restoreRevision = async (
+  data: RestoreRevisionRequest,
+): Promise<ArrangementRevision> => {
+  const response = await authFetch(
+    `${window.location.origin}/api/arrangements/${data.arrangementId}/revisions/${data.revision}/restore`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+    },
+  );
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error?.message || "Failed to restore revision");
+  }
+  return result.data;
+};
+
+// Hooks
+export const useArrangementRevisions = (arrangementId: string) => {
+  return useQuery({
+    queryKey: ["arrangement-revisions", arrangementId],
+    queryFn: () => fetchRevisions(arrangementId),
+    enabled: !!arrangementId,
+  });
+};
+
+export const useRevisionDiff = (
+  arrangementId: string,
+  from?: number,
+  to?: number,
+) => {
+  return useQuery({
+    queryKey: ["arrangement-revisions", arrangementId, "diff", from, to],
+    queryFn: () => fetchRevisionDiff(arrangementId, from!, to!),
+    enabled: !!arrangementId && !!from && !!to && from !== to,
+    staleTime: Infinity, // Revisions never change once written
+  });
+};
+
+export const useRestoreRevision = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: restoreRevision,
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["arrangement-revisions", variables.arrangementId],
+      });
+      // The restored content replaces the arrangement's current data
+      queryClient.invalidateQueries({ queryKey: ["arrangements"] });
+    },
+  });
+};
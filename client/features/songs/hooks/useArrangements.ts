@@ -1,4 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/shared/utils/api-helpers";
 import {
   Arrangement,
   ArrangementWithMetrics,
@@ -17,6 +19,12 @@ interface APIResponse<T> {
     message: string;
     details?: any;
   };
+  // Saved, but something in the content looks unintended
+  warnings?: Array<{
+    code: string;
+    field?: string;
+    message: string;
+  }>;
 }
 
 // Fetch arrangements for a specific song
@@ -28,7 +36,7 @@ export function useArrangementsBySong(songId: string) {
         return [];
       }
 
-      const response = await fetch(`/api/songs/${songId}/arrangements`);
+      const response = await authFetch(`/api/songs/${songId}/arrangements`);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch arrangements: ${response.statusText}`);
@@ -52,16 +60,16 @@ export function useArrangementsBySong(songId: string) {
 // Create new arrangement
 export function useCreateArrangement() {
   const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   return useMutation({
     mutationFn: async (
       arrangementData: z.infer<typeof arrangementCreateSchema> & {
         songIds: string[];
-        createdBy: string;
         isPublic?: boolean;
       },
     ): Promise<Arrangement> => {
-      const response = await fetch("/api/arrangements", {
+      const response = await authFetch("/api/arrangements", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -81,6 +89,10 @@ export function useCreateArrangement() {
         );
       }
 
+      result.warnings?.forEach((warning) =>
+        toast({ title: "Saved with a warning", description: warning.message }),
+      );
+
       return result.data;
     },
     onSuccess: (data) => {
@@ -99,6 +111,7 @@ export function useCreateArrangement() {
 // Update arrangement
 export function useUpdateArrangement() {
   const queryClient = useQueryClient();
+  const { toast } = useToast();
 
   return useMutation({
     mutationFn: async ({
@@ -110,7 +123,7 @@ export function useUpdateArrangement() {
         isPublic?: boolean;
       }
     >): Promise<Arrangement> => {
-      const response = await fetch(`/api/arrangements/${id}`, {
+      const response = await authFetch(`/api/arrangements/${id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -130,6 +143,10 @@ export function useUpdateArrangement() {
         );
       }
 
+      result.warnings?.forEach((warning) =>
+        toast({ title: "Saved with a warning", description: warning.message }),
+      );
+
       return result.data;
     },
     onSuccess: (data) => {
@@ -153,7 +170,7 @@ export function useDeleteArrangement() {
 
   return useMutation({
     mutationFn: async (id: string): Promise<{ id: string }> => {
-      const response = await fetch(`/api/arrangements/${id}`, {
+      const response = await authFetch(`/api/arrangements/${id}`, {
         method: "DELETE",
       });
 
@@ -186,7 +203,7 @@ export function useRateArrangement() {
 
   return useMutation({
     mutationFn: async ({ id, rating }: { id: string; rating: number }) => {
-      const response = await fetch(`/api/arrangements/${id}/rate`, {
+      const response = await authFetch(`/api/arrangements/${id}/rate`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -219,7 +236,7 @@ export function useArrangementById(id: string) {
   return useQuery({
     queryKey: ["arrangements", id],
     queryFn: async (): Promise<ArrangementWithMetrics> => {
-      const response = await fetch(`/api/arrangements/${id}`);
+      const response = await authFetch(`/api/arrangements/${id}`);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch arrangement: ${response.statusText}`);
@@ -273,7 +290,7 @@ export function useArrangementBySlug(slug: string) {
   return useQuery({
     queryKey: ["arrangements", "slug", slug],
     queryFn: async (): Promise<ArrangementWithMetrics> => {
-      const response = await fetch(`/api/arrangements/slug/${slug}`);
+      const response = await authFetch(`/api/arrangements/slug/${slug}`);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch arrangement: ${response.statusText}`);
@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { useUserId, useUserPreferences } from "@/shared/hooks/useAuth";
+import { useOfflinePreferences } from "@/shared/hooks/useIndexedDB";
+import type { ChordNotation } from "../types/chord.types";
+
+/**
+ * The signed-in user's chord notation. Reads the profile preference, or
+ * the copy kept in IndexedDB while the profile is loading or offline.
+ */
+export function useChordNotation(): ChordNotation {
+  const { preferences } = useUserPreferences();
+  const userId = useUserId();
+  const { getPreferences } = useOfflinePreferences();
+  const [cachedNotation, setCachedNotation] = useState<ChordNotation | null>(
+    null,
+  );
+
+  useEffect(() => {
+    if (!userId || preferences?.notation) {
+      return;
+    }
+
+    let cancelled = false;
+    getPreferences(userId)
+      .then((stored) => {
+        if (!cancelled && stored?.notation) {
+          setCachedNotation(stored.notation);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to read cached preferences:", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, preferences?.notation, getPreferences]);
+
+  return preferences?.notation ?? cachedNotation ?? "english";
+}
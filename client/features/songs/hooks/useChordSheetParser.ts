@@ -16,7 +16,7 @@ import {
   validateChordProContent,
   measureChordOperation,
   createCacheKey,
-} from "@features/songs/utils/chordSheetHelpers";
+} from "@shared/songs/chordSheetHelpers";
 
 /**
  * Options for the useChordSheetParser hook
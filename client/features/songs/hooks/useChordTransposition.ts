@@ -6,17 +6,19 @@
 import { useState, useCallback, useMemo, useEffect } from "react";
 import {
   ChordTranspositionResult,
+  KeyCandidate,
   MusicalKey,
   ChordSheetMeta,
   TRANSPOSITION_BOUNDS,
   TranspositionLevelSchema,
 } from "@features/songs/types/chord.types";
 import {
-  detectMusicalKey,
+  getDeclaredKey,
   calculateTransposedKey,
   getAvailableKeys,
   isValidMusicalKey,
-} from "@features/songs/utils/chordSheetHelpers";
+} from "@shared/songs/chordSheetHelpers";
+import { detectKeyCandidates } from "@shared/songs/keyDetection";
 
 /**
  * Options for the useChordTransposition hook
@@ -95,7 +97,13 @@ export function useChordTransposition(
     validatedInitialTranspose,
   );
 
-  // Detect original key from content, metadata, or provided key
+  // Rank keys by how well they fit the chords in the content
+  const keyCandidates = useMemo((): KeyCandidate[] => {
+    return enableKeyDetection && content ? detectKeyCandidates(content) : [];
+  }, [content, enableKeyDetection]);
+
+  // Detect original key from provided key, metadata, {key:} directive, or
+  // the most likely key from the chords
   const originalKey = useMemo((): MusicalKey | null => {
     // Use provided key if valid
     if (providedOriginalKey && isValidMusicalKey(providedOriginalKey)) {
@@ -105,7 +113,11 @@ export function useChordTransposition(
     // Detect key from content/metadata if enabled
     if (enableKeyDetection) {
       if (content) {
-        return detectMusicalKey(content, metadata);
+        return (
+          getDeclaredKey(content, metadata) ??
+          keyCandidates[0]?.majorKey ??
+          null
+        );
       }
       if (metadata?.key && isValidMusicalKey(metadata.key)) {
         return metadata.key as MusicalKey;
@@ -113,7 +125,13 @@ export function useChordTransposition(
     }
 
     return null;
-  }, [providedOriginalKey, content, metadata, enableKeyDetection]);
+  }, [
+    providedOriginalKey,
+    content,
+    metadata,
+    enableKeyDetection,
+    keyCandidates,
+  ]);
 
   // Calculate current key based on transposition
   const currentKey = useMemo((): MusicalKey | null => {
@@ -212,6 +230,7 @@ export function useChordTransposition(
     transposeDown,
     reset,
     setTransposition,
+    keyCandidates,
   };
 }
 
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
+  authFetch,
   getApiUrl,
   getFavoriteEndpoint,
   getFavoritesListEndpoint,
@@ -30,7 +31,7 @@ const fetchFavorites = async (
   type: "songs" | "arrangements" | "both" = "both",
 ): Promise<FavoritesResponse> => {
   const endpoint = getFavoritesListEndpoint(userId, type);
-  const response = await fetch(getApiUrl(endpoint));
+  const response = await authFetch(getApiUrl(endpoint));
   const data = await response.json();
   if (!data.success) {
     throw new Error(data.error?.message || "Failed to fetch favorites");
@@ -43,7 +44,7 @@ const addFavorite = async (
 ): Promise<AddFavoriteResponse> => {
   const endpoint = getFavoriteEndpoint(data.userId, data.type, data.itemId);
 
-  const response = await fetch(getApiUrl(endpoint), {
+  const response = await authFetch(getApiUrl(endpoint), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
   });
@@ -59,7 +60,7 @@ const removeFavorite = async (
 ): Promise<RemoveFavoriteResponse> => {
   const endpoint = getFavoriteEndpoint(data.userId, data.type, data.itemId);
 
-  const response = await fetch(getApiUrl(endpoint), {
+  const response = await authFetch(getApiUrl(endpoint), {
     method: "DELETE",
   });
   const result = await response.json();
@@ -7,9 +7,18 @@ import {
 } from "react";
 import { useSearchParams } from "react-router-dom";
 import { ClientSong } from "@features/songs/types/song.types";
-import { assignClientSongCategories } from "@features/categories";
+import {
+  assignClientSongCategories,
+  useCategoryList,
+  type SpiritualCategory,
+} from "@features/categories";
+import type { SongFacetFilters } from "@shared/types/facet.types";
+import { getDecade, getTempoRange } from "@shared/songs/songFacets";
 
 export type ViewMode = "grid" | "list";
+
+// Stable stand-in while the categories load
+const NO_CATEGORIES: SpiritualCategory[] = [];
 export type SortOption = "recent" | "popular" | "title" | "rating";
 
 export interface FilterState {
@@ -18,14 +27,51 @@ export interface FilterState {
   selectedDifficulty: string;
   selectedTheme: string;
   selectedCategory: string;
+  selectedTempo: string;
+  selectedTimeSignature: string;
+  selectedSource: string;
+  selectedDecade: string;
   sortBy: SortOption;
   viewMode: ViewMode;
 }
 
+// URL parameter holding each facet's filter
+const FACET_PARAMS: Record<keyof SongFacetFilters, string> = {
+  key: "key",
+  difficulty: "difficulty",
+  theme: "theme",
+  category: "category",
+  tempo: "tempo",
+  timeSignature: "time",
+  source: "source",
+  decade: "decade",
+};
+
+/** The facet filters in the URL, as the songs API takes them */
+export function getSongFacetFilters(
+  searchParams: URLSearchParams,
+): SongFacetFilters {
+  const filters: SongFacetFilters = {};
+  for (const [facet, param] of Object.entries(FACET_PARAMS)) {
+    const value = searchParams.get(param);
+    if (value && value !== "all") {
+      filters[facet as keyof SongFacetFilters] = value;
+    }
+  }
+  return filters;
+}
+
 export interface UseFilteredSongsOptions {
   songs: ClientSong[];
+  /** IDs of the songs the server search matched, best match first */
+  searchMatches?: string[];
   defaultSort?: SortOption;
   defaultView?: ViewMode;
+  /**
+   * The songs were already filtered and sorted by the server, so only the
+   * search is applied here
+   */
+  filterOnServer?: boolean;
 }
 
 export interface UseFilteredSongsReturn {
@@ -51,8 +97,10 @@ export interface UseFilteredSongsReturn {
 
 export function useFilteredSongs({
   songs,
+  searchMatches,
   defaultSort = "recent",
   defaultView = "grid",
+  filterOnServer = false,
 }: UseFilteredSongsOptions): UseFilteredSongsReturn {
   const [searchParams, setSearchParams] = useSearchParams();
 
@@ -78,6 +126,20 @@ export function useFilteredSongs({
   const [selectedCategory, setSelectedCategory] = useState<string>(
     searchParams.get("category") || "all",
   );
+  const [selectedTempo, setSelectedTempo] = useState<string>(
+    searchParams.get("tempo") || "all",
+  );
+  const [selectedTimeSignature, setSelectedTimeSignature] = useState<string>(
+    searchParams.get("time") || "all",
+  );
+  const [selectedSource, setSelectedSource] = useState<string>(
+    searchParams.get("source") || "all",
+  );
+  const [selectedDecade, setSelectedDecade] = useState<string>(
+    searchParams.get("decade") || "all",
+  );
+
+  const { data: categoryList = NO_CATEGORIES } = useCategoryList();
 
   // React 18 performance optimizations
   const deferredSearchQuery = useDeferredValue(searchQuery);
@@ -85,16 +147,30 @@ export function useFilteredSongs({
 
   // Filter and sort songs
   const filteredSongs = useMemo(() => {
+    // Server matches tolerate typos; the substring match below covers the
+    // wait for them and offline use
+    const searchRank =
+      deferredSearchQuery && searchMatches
+        ? new Map(searchMatches.map((id, index) => [id, index]))
+        : null;
+
     const filtered = songs.filter((song) => {
-      const matchesSearch =
-        !deferredSearchQuery ||
-        song.title.toLowerCase().includes(deferredSearchQuery.toLowerCase()) ||
-        song.artist
-          ?.toLowerCase()
-          .includes(deferredSearchQuery.toLowerCase()) ||
-        song.themes?.some((theme) =>
-          theme.toLowerCase().includes(deferredSearchQuery.toLowerCase()),
-        );
+      const matchesSearch = searchRank
+        ? searchRank.has(song.id)
+        : !deferredSearchQuery ||
+          song.title
+            .toLowerCase()
+            .includes(deferredSearchQuery.toLowerCase()) ||
+          song.artist
+            ?.toLowerCase()
+            .includes(deferredSearchQuery.toLowerCase()) ||
+          song.themes?.some((theme) =>
+            theme.toLowerCase().includes(deferredSearchQuery.toLowerCase()),
+          );
+
+      if (filterOnServer) {
+        return matchesSearch;
+      }
 
       const matchesKey =
         !selectedKey || selectedKey === "all" || song.key === selectedKey;
@@ -112,21 +188,45 @@ export function useFilteredSongs({
         !selectedCategory ||
         selectedCategory === "all" ||
         (() => {
-          const { categories } = assignClientSongCategories(song);
+          const { categories } = assignClientSongCategories(
+            song,
+            categoryList,
+          );
           return categories.includes(selectedCategory);
         })();
 
+      const matchesTempo =
+        !selectedTempo ||
+        selectedTempo === "all" ||
+        getTempoRange(song.tempo) === selectedTempo;
+      const matchesTimeSignature =
+        !selectedTimeSignature ||
+        selectedTimeSignature === "all" ||
+        song.timeSignature === selectedTimeSignature;
+      const matchesSource =
+        !selectedSource ||
+        selectedSource === "all" ||
+        song.source === selectedSource;
+      const matchesDecade =
+        !selectedDecade ||
+        selectedDecade === "all" ||
+        getDecade(song.compositionYear) === selectedDecade;
+
       return (
         matchesSearch &&
         matchesKey &&
         matchesDifficulty &&
         matchesTheme &&
-        matchesCategory
+        matchesCategory &&
+        matchesTempo &&
+        matchesTimeSignature &&
+        matchesSource &&
+        matchesDecade
       );
     });
 
-    // Sort songs
-    switch (sortBy) {
+    // Sort songs, unless the server already did
+    switch (filterOnServer ? "recent" : sortBy) {
       case "popular":
         filtered.sort((a, b) => b.viewCount - a.viewCount);
         break;
@@ -138,19 +238,33 @@ export function useFilteredSongs({
         break;
       case "recent":
       default:
-        // Already sorted by recent (assuming API returns in creation order)
+        // Search results are listed best match first
+        if (searchRank) {
+          filtered.sort(
+            (a, b) =>
+              (searchRank.get(a.id) ?? 0) - (searchRank.get(b.id) ?? 0),
+          );
+        }
+        // Otherwise already sorted by recent (assuming API returns in creation order)
         break;
     }
 
     return filtered;
   }, [
     songs,
+    searchMatches,
     deferredSearchQuery,
     selectedKey,
     selectedDifficulty,
     selectedTheme,
     selectedCategory,
+    categoryList,
+    selectedTempo,
+    selectedTimeSignature,
+    selectedSource,
+    selectedDecade,
     sortBy,
+    filterOnServer,
   ]);
 
   // Get unique values for filters
@@ -209,6 +323,22 @@ export function useFilteredSongs({
             setSelectedCategory(value as string);
             updateSearchParams({ category: value as string });
             break;
+          case "selectedTempo":
+            setSelectedTempo(value as string);
+            updateSearchParams({ tempo: value as string });
+            break;
+          case "selectedTimeSignature":
+            setSelectedTimeSignature(value as string);
+            updateSearchParams({ time: value as string });
+            break;
+          case "selectedSource":
+            setSelectedSource(value as string);
+            updateSearchParams({ source: value as string });
+            break;
+          case "selectedDecade":
+            setSelectedDecade(value as string);
+            updateSearchParams({ decade: value as string });
+            break;
           case "sortBy":
             setSortBy(value as SortOption);
             updateSearchParams({ sort: value as string });
@@ -230,6 +360,10 @@ export function useFilteredSongs({
       setSelectedDifficulty("all");
       setSelectedTheme("all");
       setSelectedCategory("all");
+      setSelectedTempo("all");
+      setSelectedTimeSignature("all");
+      setSelectedSource("all");
+      setSelectedDecade("all");
       setSortBy(defaultSort);
       setSearchParams({});
     });
@@ -241,6 +375,10 @@ export function useFilteredSongs({
     (selectedDifficulty && selectedDifficulty !== "all") ||
     (selectedTheme && selectedTheme !== "all") ||
     (selectedCategory && selectedCategory !== "all") ||
+    (selectedTempo && selectedTempo !== "all") ||
+    (selectedTimeSignature && selectedTimeSignature !== "all") ||
+    (selectedSource && selectedSource !== "all") ||
+    (selectedDecade && selectedDecade !== "all") ||
     sortBy !== defaultSort
   );
 
@@ -251,6 +389,10 @@ export function useFilteredSongs({
       selectedDifficulty,
       selectedTheme,
       selectedCategory,
+      selectedTempo,
+      selectedTimeSignature,
+      selectedSource,
+      selectedDecade,
       sortBy,
       viewMode,
     },
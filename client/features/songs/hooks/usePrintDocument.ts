@@ -0,0 +1,55 @@
+import { useCallback, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { loadPrintDocument, printHtmlDocument } from "@/shared/utils/print";
+import type { PrintOptions } from "@shared/songs/printRenderer";
+
+// Query string for the server print endpoints
+export function toPrintQuery(
+  options: PrintOptions,
+  extra: Record<string, string | number> = {},
+): string {
+  const params = new URLSearchParams();
+  Object.entries(extra).forEach(([key, value]) =>
+    params.set(key, String(value)),
+  );
+  if (options.columns) {
+    params.set("columns", String(options.columns));
+  }
+  if (options.paperSize) {
+    params.set("paper", options.paperSize);
+  }
+  return params.toString();
+}
+
+/**
+ * Loads a print document from the server (or renders it locally when
+ * offline) and opens the browser print dialog
+ */
+export function usePrintDocument() {
+  const { toast } = useToast();
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const print = useCallback(
+    async (url: string, renderOffline: () => string): Promise<boolean> => {
+      setIsPrinting(true);
+      try {
+        const html = await loadPrintDocument(url, renderOffline);
+        printHtmlDocument(html);
+        return true;
+      } catch (error) {
+        toast({
+          title: "Print failed",
+          description:
+            error instanceof Error ? error.message : "Unable to print",
+          variant: "destructive",
+        });
+        return false;
+      } finally {
+        setIsPrinting(false);
+      }
+    },
+    [toast],
+  );
+
+  return { print, isPrinting };
+}
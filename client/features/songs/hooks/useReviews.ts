@@ -1,4 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { authFetch } from "@/shared/utils/api-helpers";
 
 // Types
 export interface Review {
@@ -47,28 +48,24 @@ export interface CreateOrUpdateReviewRequest {
   arrangementId: string;
   rating: number;
   comment: string;
-  userId: string;
 }
 
 export interface MarkHelpfulRequest {
   reviewId: string;
-  userId: string;
 }
 
 export interface ReportReviewRequest {
   reviewId: string;
-  userId: string;
   reason?: string;
 }
 
 // API functions
 const fetchReviewsByArrangement = async (
   arrangementId: string,
-  userId?: string,
 ): Promise<ReviewsResponse> => {
-  const params = userId ? `?userId=${userId}` : "";
-  const response = await fetch(
-    `${window.location.origin}/api/arrangements/${arrangementId}/reviews${params}`,
+  // The session token identifies the current user's own review
+  const response = await authFetch(
+    `${window.location.origin}/api/arrangements/${arrangementId}/reviews`,
   );
   const data = await response.json();
   if (!data.success) {
@@ -80,7 +77,7 @@ const fetchReviewsByArrangement = async (
 const createOrUpdateReview = async (
   data: CreateOrUpdateReviewRequest,
 ): Promise<Review> => {
-  const response = await fetch(
+  const response = await authFetch(
     `${window.location.origin}/api/arrangements/${data.arrangementId}/reviews`,
     {
       method: "POST",
@@ -88,7 +85,6 @@ const createOrUpdateReview = async (
       body: JSON.stringify({
         rating: data.rating,
         comment: data.comment,
-        userId: data.userId,
       }),
     },
   );
@@ -106,12 +102,11 @@ const markReviewHelpful = async (
   helpfulCount: number;
   hasMarkedHelpful: boolean;
 }> => {
-  const response = await fetch(
+  const response = await authFetch(
     `${window.location.origin}/api/reviews/${data.reviewId}/helpful`,
     {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ userId: data.userId }),
     },
   );
   const result = await response.json();
@@ -124,13 +119,12 @@ const markReviewHelpful = async (
 const reportReview = async (
   data: ReportReviewRequest,
 ): Promise<{ message: string; reviewId: string }> => {
-  const response = await fetch(
+  const response = await authFetch(
     `${window.location.origin}/api/reviews/${data.reviewId}/report`,
     {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
-        userId: data.userId,
         reason: data.reason,
       }),
     },
@@ -149,7 +143,7 @@ export const useReviewsByArrangement = (
 ) => {
   return useQuery({
     queryKey: ["reviews", arrangementId, userId],
-    queryFn: () => fetchReviewsByArrangement(arrangementId, userId),
+    queryFn: () => fetchReviewsByArrangement(arrangementId),
     enabled: !!arrangementId,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
@@ -0,0 +1,48 @@
+import { useQuery } from "@tanstack/react-query";
+import { authFetch } from "@/shared/utils/api-helpers";
+import type { ClientSong } from "@features/songs/types/song.types";
+
+// Types
+export interface SongRecommendation {
+  song: ClientSong;
+  score: number;
+  reasons: string[]; // Why it pairs well, strongest first
+}
+
+export interface SimilarSongsOptions {
+  limit?: number;
+  exclude?: string[]; // Song IDs to leave out, e.g. a setlist's songs
+}
+
+// API functions
+const fetchSimilarSongs = async (
+  songId: string,
+  { limit, exclude = [] }: SimilarSongsOptions,
+): Promise<SongRecommendation[]> => {
+  const params = new URLSearchParams();
+  if (limit) {
+    params.set("limit", String(limit));
+  }
+  if (exclude.length > 0) {
+    params.set("exclude", exclude.join(","));
+  }
+  const response = await authFetch(`/api/songs/${songId}/similar?${params}`);
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error?.message || "Failed to fetch similar songs");
+  }
+  return result.data;
+};
+
+// Hooks
+export const useSimilarSongs = (
+  songId: string,
+  options: SimilarSongsOptions = {},
+) => {
+  return useQuery({
+    queryKey: ["songs", songId, "similar", options],
+    queryFn: () => fetchSimilarSongs(songId, options),
+    enabled: !!songId,
+    staleTime: 10 * 60 * 1000, // Setlists and favorites change slowly
+  });
+};
@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { authFetch } from "@/shared/utils/api-helpers";
+
+// Types
+export type SongChangeField =
+  | "title"
+  | "artist"
+  | "compositionYear"
+  | "ccli"
+  | "themes"
+  | "source"
+  | "lyrics"
+  | "notes";
+
+export interface SongChange {
+  id: string;
+  field: SongChangeField;
+  oldValue: unknown;
+  newValue: unknown;
+  source: "edit" | "sync" | "revert";
+  revertOf?: string;
+  reverted: boolean;
+  changedBy: {
+    _id: string;
+    name?: string;
+  };
+  createdAt: string;
+}
+
+export interface SongChangesResponse {
+  changes: SongChange[];
+  canRevert: boolean;
+}
+
+export interface RevertSongChangeRequest {
+  songId: string;
+  changeId: string;
+}
+
+// API functions
+const fetchSongChanges = async (
+  songId: string,
+): Promise<SongChangesResponse> => {
+  // The session token tells the server whether the user may revert
+  const response = await authFetch(
+    `${window.location.origin}/api/songs/${songId}/changes`,
+  );
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error?.message || "Failed to fetch song history");
+  }
+  return { changes: result.data, canRevert: !!result.meta?.canRevert };
+};
+
+const revertSongChange = async (
+  data: RevertSongChangeRequest,
+): Promise<SongChange> => {
+  const response = await authFetch(
+    `${window.location.origin}/api/songs/${data.songId}/changes/${data.changeId}/revert`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+    },
+  );
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error?.message || "Failed to revert change");
+  }
+  return result.data;
+};
+
+// Hooks
+export const useSongChanges = (songId: string) => {
+  return useQuery({
+    queryKey: ["song-changes", songId],
+    queryFn: () => fetchSongChanges(songId),
+    enabled: !!songId,
+  });
+};
+
+export const useRevertSongChange = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: revertSongChange,
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["song-changes", variables.songId],
+      });
+      // The reverted value shows up on the song itself
+      queryClient.invalidateQueries({ queryKey: ["songs"] });
+    },
+  });
+};
@@ -0,0 +1,73 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { authFetch } from "@/shared/utils/api-helpers";
+import type { MusicalKey } from "../types/chord.types";
+import type { ImportFormat, ImportReport } from "@shared/songs/songImport";
+
+// Types
+export interface ImportSongRequest {
+  content: string;
+  filename?: string;
+  format?: ImportFormat;
+  // Corrections made in the preview
+  title?: string;
+  artist?: string;
+  key?: MusicalKey;
+}
+
+export interface ImportSongResult {
+  song: { id: string; title: string; slug: string };
+  arrangement: { id: string; name: string; slug: string };
+  report: ImportReport;
+}
+
+interface APIResponse<T> {
+  success: boolean;
+  data: T;
+  error?: {
+    code: string;
+    message: string;
+    details?: unknown;
+  };
+}
+
+// API functions
+async function importSong({
+  content,
+  ...options
+}: ImportSongRequest): Promise<ImportSongResult> {
+  const params = new URLSearchParams();
+  Object.entries(options).forEach(([name, value]) => {
+    if (value) {
+      params.set(name, value);
+    }
+  });
+
+  const response = await authFetch(`/api/songs/import?${params}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "text/plain",
+    },
+    body: content,
+  });
+
+  const result: APIResponse<ImportSongResult> = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error?.message || "Failed to import song");
+  }
+
+  return result.data;
+}
+
+// Hooks
+export function useImportSong() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: importSong,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["songs"] });
+      queryClient.invalidateQueries({ queryKey: ["arrangements"] });
+    },
+  });
+}
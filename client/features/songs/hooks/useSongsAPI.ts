@@ -1,5 +1,14 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  keepPreviousData,
+  useInfiniteQuery,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { ClientSong } from "@features/songs/types/song.types";
+import type { SearchResults } from "@features/songs/types/search.types";
+import type { SongFacetFilters, SongFacets } from "@shared/types/facet.types";
+import { authFetch } from "@/shared/utils/api-helpers";
 
 interface APIResponse<T> {
   success: boolean;
@@ -10,6 +19,8 @@ interface APIResponse<T> {
     limit: number;
     compressed: boolean;
     cacheHit: boolean;
+    facets?: SongFacets;
+    nextCursor?: string | null;
   };
   error?: {
     code: string;
@@ -18,67 +29,102 @@ interface APIResponse<T> {
   };
 }
 
-interface SongQueryParams {
+interface SongQueryParams extends SongFacetFilters {
   search?: string;
-  key?: string;
-  difficulty?: string;
-  themes?: string;
+  /** Comma-separated song IDs, e.g. the matches of a search */
+  ids?: string;
+  sort?: string;
   limit?: number;
   offset?: number;
+  /** Opaque cursor from the previous page, used in place of the offset */
+  cursor?: string;
   isPublic?: boolean;
 }
 
-// Fetch songs with optional filters
-export function useSongs(params: SongQueryParams = {}) {
-  return useQuery({
-    queryKey: ["songs", params],
-    queryFn: async (): Promise<ClientSong[]> => {
-      try {
-        const searchParams = new URLSearchParams();
-
-        Object.entries(params).forEach(([key, value]) => {
-          if (value !== undefined && value !== null && value !== "") {
-            searchParams.append(key, String(value));
-          }
-        });
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout
+/**
+ * A page of the song catalog. Facets are missing when the API is
+ * unavailable and mock songs are shown instead.
+ */
+export interface SongCatalog {
+  songs: ClientSong[];
+  total: number;
+  facets?: SongFacets;
+  nextCursor?: string | null; // Null on the last page
+}
 
-        const response = await fetch(`/api/songs?${searchParams.toString()}`, {
-          signal: controller.signal,
-        });
+const fetchSongCatalog = async (
+  params: SongQueryParams,
+): Promise<SongCatalog> => {
+  try {
+    const searchParams = new URLSearchParams();
 
-        clearTimeout(timeoutId);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== "") {
+        searchParams.append(key, String(value));
+      }
+    });
 
-        if (!response.ok) {
-          // If API is not available, fallback to mock data
-          if (response.status >= 500) {
-            console.warn("API not available, using mock data");
-            const { mockClientSongs } = await import("../utils/mockData");
-            return mockClientSongs;
-          }
-          throw new Error(`Failed to fetch songs: ${response.statusText}`);
-        }
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout
 
-        const result: APIResponse<ClientSong[]> = await response.json();
+    const response = await authFetch(`/api/songs?${searchParams.toString()}`, {
+      signal: controller.signal,
+    });
 
-        if (!result.success) {
-          throw new Error(result.error?.message || "Failed to fetch songs");
-        }
+    clearTimeout(timeoutId);
 
-        return result.data;
-      } catch (error) {
-        // Fallback to mock data on any error (including timeouts)
-        if (error instanceof Error && error.name === "AbortError") {
-          console.warn("API request timed out, using mock data");
-        } else {
-          console.warn("Using mock data due to error:", error);
-        }
+    if (!response.ok) {
+      // If API is not available, fallback to mock data
+      if (response.status >= 500 && !params.cursor) {
+        console.warn("API not available, using mock data");
         const { mockClientSongs } = await import("../utils/mockData");
-        return mockClientSongs;
+        return {
+          songs: mockClientSongs,
+          total: mockClientSongs.length,
+          nextCursor: null,
+        };
       }
-    },
+      throw new Error(`Failed to fetch songs: ${response.statusText}`);
+    }
+
+    const result: APIResponse<ClientSong[]> = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error?.message || "Failed to fetch songs");
+    }
+
+    return {
+      songs: result.data,
+      total: result.meta?.total ?? result.data.length,
+      facets: result.meta?.facets,
+      nextCursor: result.meta?.nextCursor ?? null,
+    };
+  } catch (error) {
+    // Later pages fail rather than append mock songs to real ones
+    if (params.cursor) {
+      throw error;
+    }
+    // Fallback to mock data on any error (including timeouts)
+    if (error instanceof Error && error.name === "AbortError") {
+      console.warn("API request timed out, using mock data");
+    } else {
+      console.warn("Using mock data due to error:", error);
+    }
+    const { mockClientSongs } = await import("../utils/mockData");
+    return {
+      songs: mockClientSongs,
+      total: mockClientSongs.length,
+      nextCursor: null,
+    };
+  }
+};
+
+// Fetch songs with optional filters, with facet counts for the catalog
+export function useSongs(params: SongQueryParams = {}) {
+  return useQuery({
+    queryKey: ["songs", params],
+    queryFn: () => fetchSongCatalog(params),
+    placeholderData: keepPreviousData, // Keep the list while filters change
     staleTime: 5 * 60 * 1000, // 5 minutes
     gcTime: 10 * 60 * 1000, // 10 minutes (renamed from cacheTime)
     retry: false, // Disable retries to prevent infinite loops
@@ -86,12 +132,41 @@ export function useSongs(params: SongQueryParams = {}) {
   });
 }
 
+// Joins the loaded pages into one catalog; only the first page has totals and facets
+const joinSongCatalogPages = (data: { pages: SongCatalog[] }): SongCatalog => ({
+  songs: data.pages.flatMap((page) => page.songs),
+  total: data.pages[0]?.total ?? 0,
+  facets: data.pages[0]?.facets,
+  nextCursor: data.pages[data.pages.length - 1]?.nextCursor ?? null,
+});
+
+// The catalog a page at a time, following the API's cursors as the list scrolls
+export function useInfiniteSongs(
+  params: Omit<SongQueryParams, "offset"> = {},
+  enabled = true,
+) {
+  return useInfiniteQuery({
+    queryKey: ["songs", "infinite", params],
+    queryFn: ({ pageParam }) =>
+      fetchSongCatalog({ ...params, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    select: joinSongCatalogPages,
+    enabled,
+    placeholderData: keepPreviousData, // Keep the list while filters change
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // Keeps loaded pages for returning from a song
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+}
+
 // Fetch single song by ID
 export function useSong(id: string) {
   return useQuery({
     queryKey: ["songs", id],
     queryFn: async (): Promise<ClientSong> => {
-      const response = await fetch(`/api/songs/${id}`);
+      const response = await authFetch(`/api/songs/${id}`);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch song: ${response.statusText}`);
@@ -119,7 +194,7 @@ export function useSongBySlug(slug: string) {
         throw new Error("Slug is required");
       }
 
-      const response = await fetch(`/api/songs/slug/${slug}`);
+      const response = await authFetch(`/api/songs/slug/${slug}`);
 
       if (!response.ok) {
         throw new Error(`Failed to fetch song: ${response.statusText}`);
@@ -148,7 +223,7 @@ export function useSearchSongs(query: string, enabled = true) {
         return [];
       }
 
-      const response = await fetch(
+      const response = await authFetch(
         `/api/songs/search?q=${encodeURIComponent(query)}`,
       );
 
@@ -169,13 +244,40 @@ export function useSearchSongs(query: string, enabled = true) {
   });
 }
 
+// Typo-tolerant search across songs, arrangements and setlists
+export function useUnifiedSearch(query: string, limit = 10, enabled = true) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ["search", trimmed, limit],
+    queryFn: async (): Promise<SearchResults> => {
+      const params = new URLSearchParams({ q: trimmed, limit: String(limit) });
+      const response = await authFetch(`/api/search?${params}`);
+
+      if (!response.ok) {
+        throw new Error(`Search failed: ${response.statusText}`);
+      }
+
+      const result: APIResponse<SearchResults> = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error?.message || "Search failed");
+      }
+
+      return result.data;
+    },
+    enabled: enabled && trimmed.length > 0,
+    staleTime: 2 * 60 * 1000, // 2 minutes for search results
+  });
+}
+
 // Create new song
 export function useCreateSong() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (songData: any): Promise<ClientSong> => {
-      const response = await fetch("/api/songs", {
+      const response = await authFetch("/api/songs", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -211,7 +313,7 @@ export function useUpdateSong() {
       id,
       ...songData
     }: { id: string } & any): Promise<ClientSong> => {
-      const response = await fetch(`/api/songs/${id}`, {
+      const response = await authFetch(`/api/songs/${id}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -246,7 +348,7 @@ export function useDeleteSong() {
 
   return useMutation({
     mutationFn: async (id: string): Promise<{ id: string }> => {
-      const response = await fetch(`/api/songs/${id}`, {
+      const response = await authFetch(`/api/songs/${id}`, {
         method: "DELETE",
       });
 
@@ -275,7 +377,7 @@ export function useRateSong() {
 
   return useMutation({
     mutationFn: async ({ id, rating }: { id: string; rating: number }) => {
-      const response = await fetch(`/api/songs/${id}/rate`, {
+      const response = await authFetch(`/api/songs/${id}/rate`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -312,7 +414,7 @@ export function useSongsStats() {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout
 
-        const response = await fetch("/api/songs/stats", {
+        const response = await authFetch("/api/songs/stats", {
           signal: controller.signal,
         });
 
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { authFetch } from "@/shared/utils/api-helpers";
 import type { Verse, SongComment } from "@features/songs/types/song.types";
 
 // Mock data for development
@@ -61,7 +62,7 @@ export function useVerses(songId: string) {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), 3000);
 
-        const response = await fetch(`/api/songs/${songId}/verses`, {
+        const response = await authFetch(`/api/songs/${songId}/verses`, {
           signal: controller.signal,
         });
 
@@ -104,7 +105,7 @@ export function useSubmitVerse() {
       type: "bible" | "tf" | "tm";
     }): Promise<Verse> => {
       try {
-        const response = await fetch(`/api/songs/${songId}/verses`, {
+        const response = await authFetch(`/api/songs/${songId}/verses`, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -169,7 +170,7 @@ export function useVoteVerse() {
       songId: string;
     }): Promise<void> => {
       try {
-        const response = await fetch(`/api/verses/${verseId}/vote`, {
+        const response = await authFetch(`/api/verses/${verseId}/vote`, {
           method: "PUT",
           headers: {
             "Content-Type": "application/json",
@@ -272,7 +273,7 @@ export function useToggleSongFavorite() {
       isFavorited: boolean;
     }): Promise<void> => {
       try {
-        const response = await fetch(`/api/songs/${songId}/favorite`, {
+        const response = await authFetch(`/api/songs/${songId}/favorite`, {
           method: isFavorited ? "DELETE" : "POST",
         });
 
@@ -311,7 +312,7 @@ export function useSongComments(songId: string) {
     queryKey: ["song-comments", songId],
     queryFn: async (): Promise<SongComment[]> => {
       try {
-        const response = await fetch(`/api/songs/${songId}/comments`);
+        const response = await authFetch(`/api/songs/${songId}/comments`);
         if (!response.ok) {
           throw new Error("Failed to fetch comments");
         }
@@ -346,7 +347,7 @@ export function useSubmitComment() {
       parentId?: string;
     }): Promise<SongComment> => {
       try {
-        const response = await fetch(`/api/songs/${songId}/comments`, {
+        const response = await authFetch(`/api/songs/${songId}/comments`, {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -13,6 +13,7 @@ export { ReviewsSummary } from "./components/ReviewsSummary";
 export type { ReviewsSummaryProps } from "./components/ReviewsSummary";
 export { SongsSearchBar } from "./components/SongsSearchBar";
 export type { SongsSearchBarProps } from "./components/SongsSearchBar";
+export { default as PairsWellWithRail } from "./components/PairsWellWithRail";
 
 // ChordDisplay components
 export {
@@ -28,6 +29,11 @@ export {
 export { useSongSearch } from "./hooks/useSongSearch";
 export * from "./hooks/useSongsAPI";
 export * from "./hooks/useArrangements";
+export { useSimilarSongs } from "./hooks/useSimilarSongs";
+export type {
+  SimilarSongsOptions,
+  SongRecommendation,
+} from "./hooks/useSimilarSongs";
 
 // ChordDisplay hooks
 export {
@@ -55,8 +61,20 @@ export type {
   ClientSong,
   ChordChart,
   SongFilters,
+  VocalRange,
 } from "./types/song.types";
 export { songToClientFormat } from "./types/song.types";
+export type {
+  LyricSnippet,
+  SearchHighlight,
+  SearchResults,
+} from "./types/search.types";
+export type {
+  FacetBucket,
+  SongFacet,
+  SongFacetFilters,
+  SongFacets,
+} from "@shared/types/facet.types";
 
 // ChordDisplay types
 export type {
@@ -67,6 +85,7 @@ export type {
   ChordSheetMeta,
   ChordSheetParserResult,
   ChordTranspositionResult,
+  KeyCandidate,
   MusicalKey,
   FontSize,
   DisplayTheme,
@@ -109,4 +128,21 @@ export {
   createCacheKey,
   createChordParsingError,
   normalizeChordError,
-} from "./utils/chordSheetHelpers";
+} from "@shared/songs/chordSheetHelpers";
+export {
+  detectKeyCandidates,
+  findKeyMismatch,
+} from "@shared/songs/keyDetection";
+export {
+  VOCAL_RANGE_NOTES,
+  getRangeFit,
+  isValidVocalRange,
+  recommendTranspose,
+} from "@shared/songs/vocalRange";
+export {
+  SONG_FACETS,
+  TEMPO_RANGES,
+  formatFacetValue,
+  getDecade,
+  getTempoRange,
+} from "@shared/songs/songFacets";
@@ -1,10 +1,29 @@
 import { z } from "zod";
+import type {
+  ChordParsingError,
+  ChordSheetMeta,
+  KeyCandidate,
+} from "@shared/types/music.types";
 
 /**
  * @fileoverview Type definitions for ChordDisplay components and ChordSheetJS integration
  * @module features/songs/types/chord.types
  */
 
+// ==================== Shared Music Types ====================
+
+// Keys, chord sheet metadata and parsing errors live in shared/ for the server
+export {
+  MUSICAL_KEYS,
+  TRANSPOSITION_BOUNDS,
+  isMusicalKey,
+  type ChordParsingError,
+  type ChordSheetMeta,
+  type KeyCandidate,
+  type KeyMode,
+  type MusicalKey,
+} from "@shared/types/music.types";
+
 // ==================== Core ChordDisplay Types ====================
 
 /**
@@ -25,28 +44,30 @@ export interface ChordDisplayProps {
   showControls?: boolean;
   /** Additional CSS classes */
   className?: string;
+  /** Original key of the arrangement; falls back to the {key:} directive */
+  songKey?: string;
+  /** Show chords as letters or as Nashville numbers */
+  chordMode?: ChordMode;
+  /** Note names used for letter chords */
+  notation?: ChordNotation;
+  /** Capo fret; falls back to the {capo:} directive */
+  capo?: number;
+  /** Show capo shapes, sounding chords or both when a capo is set */
+  capoMode?: CapoMode;
+  /** Instrument for the diagram shown over a chord; none when omitted */
+  diagramInstrument?: Instrument;
   /** Callback when transposition changes */
   onTranspose?: (semitones: number) => void;
+  /** Callback when the chord mode is switched in the controls */
+  onChordModeChange?: (mode: ChordMode) => void;
+  /** Callback when the capo fret is changed in the controls */
+  onCapoChange?: (capo: number) => void;
+  /** Callback when the capo mode is changed in the controls */
+  onCapoModeChange?: (mode: CapoMode) => void;
   /** Callback when parsing errors occur */
   onError?: (error: ChordParsingError) => void;
 }
 
-/**
- * Standardized error interface for chord parsing failures
- */
-export interface ChordParsingError {
-  /** Type of parsing error */
-  type: "parse_error" | "format_error" | "transpose_error";
-  /** Human-readable error message */
-  message: string;
-  /** Original content that caused the error */
-  originalContent: string;
-  /** Line number where error occurred (if applicable) */
-  line?: number;
-  /** Column number where error occurred (if applicable) */
-  column?: number;
-}
-
 /**
  * State interface for transposition functionality
  */
@@ -63,26 +84,6 @@ export interface TranspositionState {
   canTransposeDown: boolean;
 }
 
-/**
- * Metadata extracted from ChordPro content
- */
-export interface ChordSheetMeta {
-  /** Song title from {title:} directive */
-  title?: string;
-  /** Artist name from {subtitle:} or {artist:} directive */
-  artist?: string;
-  /** Original key from {key:} directive */
-  key?: string;
-  /** Tempo from {tempo:} directive */
-  tempo?: string;
-  /** Time signature from {time:} directive */
-  time?: string;
-  /** Capo position from {capo:} directive */
-  capo?: string;
-  /** Additional custom metadata */
-  [key: string]: string | undefined;
-}
-
 // ==================== Control Component Types ====================
 
 /**
@@ -103,6 +104,20 @@ export interface ChordDisplayControlsProps {
   chordsVisible?: boolean;
   /** Callback for chord visibility changes */
   onChordsVisibilityChange?: (visible: boolean) => void;
+  /** Current chord mode */
+  chordMode?: ChordMode;
+  /** Note names used to show the current key */
+  notation?: ChordNotation;
+  /** Callback for chord mode changes */
+  onChordModeChange?: (mode: ChordMode) => void;
+  /** Current capo fret */
+  capo?: number;
+  /** Current capo mode */
+  capoMode?: CapoMode;
+  /** Callback for capo fret changes */
+  onCapoChange?: (capo: number) => void;
+  /** Callback for capo mode changes */
+  onCapoModeChange?: (mode: CapoMode) => void;
   /** Additional CSS classes */
   className?: string;
 }
@@ -139,32 +154,12 @@ export interface ChordTranspositionResult extends TranspositionState {
   reset: () => void;
   /** Function to set absolute transposition level */
   setTransposition: (level: number) => void;
+  /** Keys that fit the chords, most likely first; empty without content */
+  keyCandidates: KeyCandidate[];
 }
 
 // ==================== Utility Types ====================
 
-/**
- * Valid musical keys for transposition
- */
-export type MusicalKey =
-  | "C"
-  | "C#"
-  | "Db"
-  | "D"
-  | "D#"
-  | "Eb"
-  | "E"
-  | "F"
-  | "F#"
-  | "Gb"
-  | "G"
-  | "G#"
-  | "Ab"
-  | "A"
-  | "A#"
-  | "Bb"
-  | "B";
-
 /**
  * Font size variants for responsive chord display
  */
@@ -175,6 +170,28 @@ export type FontSize = "sm" | "base" | "lg" | "xl";
  */
 export type DisplayTheme = "light" | "dark" | "stage";
 
+/**
+ * Chord spelling: letter names or Nashville numbers relative to the key
+ */
+export type ChordMode = "letters" | "nashville";
+
+/**
+ * Note names used to spell chords: English letters, German (H for B
+ * natural) or Latin solfège
+ */
+export type ChordNotation = "english" | "german" | "latin";
+
+/**
+ * Chords shown with a capo: the shapes played, the chords that sound, or
+ * both side by side
+ */
+export type CapoMode = "shapes" | "sounding" | "both";
+
+/**
+ * Instruments chord diagrams are drawn for
+ */
+export type Instrument = "guitar" | "ukulele" | "piano";
+
 /**
  * ChordSheetJS formatter output options
  */
@@ -201,6 +218,11 @@ export const ChordDisplayPropsSchema = z.object({
   theme: z.enum(["light", "dark", "stage"]).optional(),
   showChords: z.boolean().optional(),
   showControls: z.boolean().optional(),
+  chordMode: z.enum(["letters", "nashville"]).optional(),
+  notation: z.enum(["english", "german", "latin"]).optional(),
+  capo: z.number().int().min(0).max(11).optional(),
+  capoMode: z.enum(["shapes", "sounding", "both"]).optional(),
+  diagramInstrument: z.enum(["guitar", "ukulele", "piano"]).optional(),
   className: z.string().optional(),
 });
 
@@ -244,29 +266,6 @@ export const DisplayThemeSchema = z.enum(["light", "dark", "stage"]);
 
 // ==================== Constants ====================
 
-/**
- * Array of all valid musical keys in chromatic order
- */
-export const MUSICAL_KEYS: MusicalKey[] = [
-  "C",
-  "C#",
-  "Db",
-  "D",
-  "D#",
-  "Eb",
-  "E",
-  "F",
-  "F#",
-  "Gb",
-  "G",
-  "G#",
-  "Ab",
-  "A",
-  "A#",
-  "Bb",
-  "B",
-];
-
 /**
  * Font size configuration with Tailwind CSS classes
  */
@@ -292,23 +291,8 @@ export const THEME_CONFIG: Record<
   stage: { label: "Stage", classes: "chord-display--stage" },
 } as const;
 
-/**
- * Transposition bounds for safety
- */
-export const TRANSPOSITION_BOUNDS = {
-  MIN: -11,
-  MAX: 11,
-} as const;
-
 // ==================== Type Guards ====================
 
-/**
- * Type guard to check if a value is a valid musical key
- */
-export function isMusicalKey(value: string): value is MusicalKey {
-  return MUSICAL_KEYS.includes(value as MusicalKey);
-}
-
 /**
  * Type guard to check if a value is a valid font size
  */
@@ -0,0 +1,61 @@
+// Type definitions for the search across songs, arrangements and setlists
+
+/**
+ * Where a query matched a field, as [start, end) character offsets
+ * @interface SearchHighlight
+ */
+export interface SearchHighlight {
+  field: string;
+  text: string;
+  ranges: Array<[number, number]>;
+}
+
+interface SearchHit {
+  id: string;
+  /** Relevance blended with ratings and views, highest first */
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+/**
+ * Lines of a song where a searched phrase is sung, with a line of context
+ * either side. Taken from an arrangement's chart when the song itself has
+ * no matching lyrics.
+ * @interface LyricSnippet
+ */
+export interface LyricSnippet {
+  source: "lyrics" | "arrangement";
+  arrangementName?: string;
+  lines: Array<{ text: string; ranges: SearchHighlight["ranges"] }>;
+}
+
+export interface SongSearchHit extends SearchHit {
+  slug: string;
+  title: string;
+  artist: string;
+  snippet?: LyricSnippet;
+}
+
+export interface ArrangementSearchHit extends SearchHit {
+  slug: string;
+  name: string;
+  key?: string;
+  songTitles: string[];
+}
+
+export interface SetlistSearchHit extends SearchHit {
+  name: string;
+  songCount: number;
+  isOwner: boolean;
+  shareToken?: string;
+}
+
+/**
+ * Search results grouped by entity type
+ * @interface SearchResults
+ */
+export interface SearchResults {
+  songs: SongSearchHit[];
+  arrangements: ArrangementSearchHit[];
+  setlists: SetlistSearchHit[];
+}
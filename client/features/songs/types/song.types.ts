@@ -33,6 +33,17 @@ export const arrangementCreateSchema = z.object({
     .default("intermediate"),
   description: z.string().max(1000).optional(),
   tags: z.array(z.string().max(50)).default([]),
+  vocalRange: z.object({ low: z.string(), high: z.string() }).optional(),
+  mashupSections: z
+    .array(
+      z.object({
+        songId: z.string(),
+        title: z.string().max(200),
+        startBar: z.number().min(1),
+        endBar: z.number().min(1),
+      }),
+    )
+    .optional(),
 });
 
 /**
@@ -99,10 +110,18 @@ export interface ClientSong {
   key?: string;
   /** Beats per minute */
   tempo?: number;
+  /** Time signature of the default arrangement, e.g. "4/4" */
+  timeSignature?: string;
   /** Difficulty level for musicians */
   difficulty: "beginner" | "intermediate" | "advanced";
   /** Worship themes/categories */
   themes: string[];
+  /** Songbook or collection the song comes from */
+  source?: string;
+  /** Year the song was composed */
+  compositionYear?: number;
+  /** Category IDs the server assigned from the mapping rules */
+  categories?: string[];
   /** Number of times viewed (maps to metadata.views) */
   viewCount: number;
   /** Average user rating (maps to metadata.ratings.average) */
@@ -330,6 +349,10 @@ export interface SongDetail extends ClientSong {
   totalArrangements: number;
 }
 
+// Shared with the server, which validates ranges the same way
+import type { VocalRange } from "@shared/types/music.types";
+export type { VocalRange };
+
 /**
  * Extended arrangement with full metadata and relationships
  * @interface ArrangementDetail
@@ -344,10 +367,7 @@ export interface ArrangementDetail extends Arrangement {
   tempo?: number;
   difficulty?: string;
   genreStyle?: string;
-  vocalRange?: {
-    low: string;
-    high: string;
-  };
+  vocalRange?: VocalRange;
   metadata: {
     key: string;
     capo?: number;
@@ -498,8 +518,10 @@ export function songToClientFormat(song: Song): ClientSong {
     slug: song.slug,
     key: song.key,
     tempo: song.tempo,
+    timeSignature: song.timeSignature,
     difficulty: song.difficulty,
     themes: song.themes,
+    source: song.source,
     viewCount: song.metadata.views,
     avgRating: song.metadata.ratings.average,
     basicChords,
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  getCapoShape,
+  getCapoShapeKey,
+  parseCapo,
+  songToCapo,
+  suggestCapoPositions,
+} from "../capo";
+import {
+  formatSongToHtml,
+  parseChordProContent,
+} from "@shared/songs/chordSheetHelpers";
+
+describe("capo", () => {
+  it("plays sounding chords as shapes below the capo", () => {
+    expect(getCapoShape("A", 2)).toBe("G");
+    expect(getCapoShape("F#m7/C#", 2)).toBe("Em7/B");
+    expect(getCapoShape("Bb", 3)).toBe("G");
+    expect(getCapoShape("Dsus4", 2)).toBe("Csus4");
+    expect(getCapoShape("N.C.", 2)).toBeNull();
+  });
+
+  it("works out the shape key", () => {
+    expect(getCapoShapeKey("A", 2)).toBe("G");
+    expect(getCapoShapeKey("F#m", 2)).toBe("Em");
+    expect(getCapoShapeKey("Eb", 1)).toBe("D");
+    expect(getCapoShapeKey("X", 1)).toBeNull();
+  });
+
+  it("suggests capo positions that give open shapes", () => {
+    expect(suggestCapoPositions("Bb")).toEqual([
+      { capo: 1, shapeKey: "A" },
+      { capo: 3, shapeKey: "G" },
+      { capo: 6, shapeKey: "E" },
+    ]);
+    expect(suggestCapoPositions("F#m")).toEqual([
+      { capo: 2, shapeKey: "Em" },
+      { capo: 4, shapeKey: "Dm" },
+    ]);
+    expect(suggestCapoPositions("")).toEqual([]);
+  });
+
+  it("reads capo directive values", () => {
+    expect(parseCapo("3")).toBe(3);
+    expect(parseCapo(" 2 ")).toBe(2);
+    expect(parseCapo("fret 2")).toBe(0);
+    expect(parseCapo("14")).toBe(0);
+    expect(parseCapo(undefined)).toBe(0);
+  });
+
+  describe("songToCapo", () => {
+    const { song } = parseChordProContent(
+      "{key: A}\n\n[A]Holy [D]holy [E]holy",
+    );
+
+    it("shows shapes, sounding chords or both", () => {
+      const shapes = formatSongToHtml(songToCapo(song!, 2, "shapes"));
+      expect(shapes).toContain(">G<");
+      expect(shapes).toContain(">C<");
+      expect(shapes).not.toContain(">A<");
+
+      const sounding = formatSongToHtml(songToCapo(song!, 2, "sounding"));
+      expect(sounding).toContain(">A<");
+
+      const both = formatSongToHtml(songToCapo(song!, 2, "both"));
+      expect(both).toContain(">G (A)<");
+      expect(both).toContain(">D (E)<");
+    });
+
+    it("spells shapes in the reader's notation", () => {
+      const html = formatSongToHtml(songToCapo(song!, 4, "shapes", "german"));
+      // A, D and E are played as F, Bb and C shapes; Bb is written B
+      expect(html).toContain(">F<");
+      expect(html).toContain(">B<");
+      expect(html).toContain(">C<");
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  chordProToEnglish,
+  convertChordNotation,
+  detectChartNotation,
+  formatKeyInNotation,
+  songToNotation,
+} from "../chordNotation";
+import {
+  detectMusicalKey,
+  formatSongToHtml,
+  parseChordProContent,
+  transposeSong,
+} from "@shared/songs/chordSheetHelpers";
+
+describe("chordNotation", () => {
+  describe("convertChordNotation", () => {
+    it("writes B and Bb as H and B in German", () => {
+      expect(convertChordNotation("B7", "english", "german")).toBe("H7");
+      expect(convertChordNotation("Bbmaj7", "english", "german")).toBe("Bmaj7");
+      expect(convertChordNotation("F#m/C#", "english", "german")).toBe(
+        "Fism/Cis",
+      );
+      expect(convertChordNotation("Eb/Bb", "english", "german")).toBe("Es/B");
+    });
+
+    it("reads German names back to English", () => {
+      expect(convertChordNotation("Hm7", "german", "english")).toBe("Bm7");
+      expect(convertChordNotation("B", "german", "english")).toBe("Bb");
+      expect(convertChordNotation("Hb", "german", "english")).toBe("Bb");
+      expect(convertChordNotation("Fis/Ais", "german", "english")).toBe(
+        "F#/A#",
+      );
+      expect(convertChordNotation("Asus4", "german", "english")).toBe("Asus4");
+      expect(convertChordNotation("As", "german", "english")).toBe("Ab");
+    });
+
+    it("converts to and from solfège", () => {
+      expect(convertChordNotation("G/B", "english", "latin")).toBe("Sol/Si");
+      expect(convertChordNotation("C#m7", "english", "latin")).toBe("Do#m7");
+      expect(convertChordNotation("Solm7", "latin", "english")).toBe("Gm7");
+      expect(convertChordNotation("sib/re", "latin", "english")).toBe("Bb/D");
+    });
+
+    it("returns null for chords it cannot read", () => {
+      expect(convertChordNotation("N.C.", "english", "german")).toBeNull();
+      expect(convertChordNotation("X", "latin", "english")).toBeNull();
+    });
+  });
+
+  it("formats keys in the reader's notation", () => {
+    expect(formatKeyInNotation("Bb", "german")).toBe("B");
+    expect(formatKeyInNotation("A", "latin")).toBe("La");
+    expect(formatKeyInNotation("E", "english")).toBe("E");
+  });
+
+  describe("charts", () => {
+    const german = "{key: H}\n\n[H]Halleluja [Fism]Halle[E]luja";
+    const latin = "{key: Re}\n\n[Re]Aleluya [Sim]ale[Sol]luya";
+
+    it("detects the chart notation", () => {
+      expect(detectChartNotation(german)).toBe("german");
+      expect(detectChartNotation(latin)).toBe("latin");
+      expect(detectChartNotation("[D]Hallelujah [Bm]")).toBe("english");
+    });
+
+    it("normalizes charts so key detection and transposition work", () => {
+      const fromGerman = chordProToEnglish(german);
+      expect(fromGerman).toContain("{key: B}");
+      expect(fromGerman).toContain("[B]Halleluja [F#m]Halle[E]luja");
+      expect(detectMusicalKey(fromGerman)).toBe("B");
+
+      const fromLatin = chordProToEnglish(latin);
+      expect(fromLatin).toContain("[D]Aleluya [Bm]ale[G]luya");
+
+      const { song } = parseChordProContent(fromLatin);
+      const { transposedSong } = transposeSong(song!, 2);
+      const html = formatSongToHtml(songToNotation(transposedSong, "latin"));
+      expect(html).toContain(">Mi<");
+      expect(html).toContain(">Do#m<");
+      expect(html).toContain(">La<");
+    });
+
+    it("leaves English charts untouched", () => {
+      const english = "{key: G}\n[G]Amazing [C]grace";
+      expect(chordProToEnglish(english)).toBe(english);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  getChordVoicing,
+  parseChordTones,
+  type FrettedVoicing,
+} from "../chordVoicings";
+
+const frets = (chord: string, instrument: "guitar" | "ukulele" = "guitar") =>
+  (getChordVoicing(chord, instrument) as FrettedVoicing | null)?.frets
+    .map((fret) => (fret === null ? "x" : fret))
+    .join("");
+
+describe("chordVoicings", () => {
+  it("reads chord tones, extensions and slash bass notes", () => {
+    expect(parseChordTones("Bm7/A")).toEqual({
+      root: 11,
+      bass: 9,
+      intervals: [0, 3, 7, 10],
+    });
+    expect(parseChordTones("C6/9")?.bass).toBe(0);
+    expect(parseChordTones("Am(maj7)")?.intervals).toEqual([0, 3, 7, 11]);
+    expect(parseChordTones("Cwhatever")).toBeNull();
+    expect(parseChordTones("6m7")).toBeNull();
+  });
+
+  it("finds the familiar open guitar shapes", () => {
+    expect(frets("C")).toBe("x32010");
+    expect(frets("G")).toBe("320003");
+    expect(frets("D")).toBe("xx0232");
+    expect(frets("Am")).toBe("x02210");
+    expect(frets("E7")).toBe("020100");
+  });
+
+  it("keeps the slash bass on the lowest guitar string", () => {
+    expect(frets("Bm7/A")).toBe("x00202");
+    expect(frets("D/F#")?.startsWith("2")).toBe(true);
+  });
+
+  it("uses a barre when four fingers are not enough", () => {
+    const voicing = getChordVoicing("F", "guitar") as FrettedVoicing;
+    expect(voicing.frets).toEqual([1, 3, 3, 2, 1, 1]);
+    expect(voicing.barre).toEqual({ fret: 1, from: 0, to: 5 });
+
+    const high = getChordVoicing("G#m", "guitar") as FrettedVoicing;
+    expect(high.baseFret).toBe(4);
+  });
+
+  it("finds ukulele shapes on all four strings", () => {
+    expect(frets("C", "ukulele")).toBe("0003");
+    expect(frets("G", "ukulele")).toBe("0232");
+    expect(frets("Am", "ukulele")).toBe("2000");
+    expect(frets("F", "ukulele")).toBe("2010");
+  });
+
+  it("stacks piano notes above the root with the bass below", () => {
+    expect(getChordVoicing("C", "piano")).toEqual({
+      instrument: "piano",
+      notes: [60, 64, 67],
+    });
+    expect(getChordVoicing("Bm7/A", "piano")).toEqual({
+      instrument: "piano",
+      notes: [57, 59, 62, 66, 69],
+    });
+  });
+
+  it("returns null for chords it cannot read", () => {
+    expect(getChordVoicing("N.C.", "guitar")).toBeNull();
+    expect(getChordVoicing("N.C.", "piano")).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Capo chord shapes and capo position suggestions
+ * @module features/songs/utils/capo
+ *
+ * Charts are written in sounding chords. With a capo on fret N a guitarist
+ * plays shapes N semitones lower, so an A chart with capo 2 is played with
+ * G shapes. Suggestions pick capo positions that turn the song key into one
+ * of the keys that lie well on open strings.
+ */
+
+import { ChordLyricsPair, type Song } from "chordsheetjs";
+import type { CapoMode, ChordNotation } from "../types/chord.types";
+import { convertChordNotation, songToNotation } from "./chordNotation";
+import { transposeChord } from "@shared/songs/chordSheetHelpers";
+
+export const MAX_CAPO = 11;
+// Higher positions leave too little neck to be useful for open shapes
+const MAX_SUGGESTED_CAPO = 7;
+
+export const CAPO_MODES: Record<CapoMode, string> = {
+  shapes: "Shapes",
+  sounding: "Sounding",
+  both: "Both",
+};
+
+const NOTE_PITCHES: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+const SHAPE_NAMES = [
+  "C",
+  "C#",
+  "D",
+  "Eb",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "Ab",
+  "A",
+  "Bb",
+  "B",
+];
+// Keys whose I, IV and V chords are all open chords
+const OPEN_MAJOR_KEYS = ["G", "C", "D", "E", "A"];
+const OPEN_MINOR_KEYS = ["Em", "Am", "Dm"];
+
+export interface CapoSuggestion {
+  capo: number;
+  /** Key of the shapes played with this capo, e.g. "G" */
+  shapeKey: string;
+}
+
+interface ParsedKey {
+  pitch: number;
+  minor: boolean;
+}
+
+function parseKey(key: string): ParsedKey | null {
+  const match = key.trim().match(/^([A-G])([#b]?)(m(?!aj))?/);
+  if (!match) {
+    return null;
+  }
+  const [, letter, accidental, minor] = match;
+  const offset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
+  return {
+    pitch: (NOTE_PITCHES[letter] + offset + 12) % 12,
+    minor: Boolean(minor),
+  };
+}
+
+/**
+ * Read a capo fret from a {capo:} directive value
+ * @returns Fret between 0 and {@link MAX_CAPO}, or 0 if the value is not one
+ */
+export function parseCapo(value?: string): number {
+  const fret = Number(value?.trim());
+  return Number.isInteger(fret) && fret >= 0 && fret <= MAX_CAPO ? fret : 0;
+}
+
+/**
+ * Key of the shapes played for a song key with the capo on a given fret
+ * @returns Shape key such as "G" or "Em", or null if the key cannot be read
+ */
+export function getCapoShapeKey(key: string, capo: number): string | null {
+  const parsed = parseKey(key);
+  if (!parsed) {
+    return null;
+  }
+  const name = SHAPE_NAMES[(((parsed.pitch - capo) % 12) + 12) % 12];
+  return parsed.minor ? `${name}m` : name;
+}
+
+/**
+ * Capo positions that let a song in the given key be played with open
+ * chord shapes, lowest fret first
+ */
+export function suggestCapoPositions(key: string): CapoSuggestion[] {
+  const parsed = parseKey(key);
+  if (!parsed) {
+    return [];
+  }
+  const openKeys = parsed.minor ? OPEN_MINOR_KEYS : OPEN_MAJOR_KEYS;
+  const suggestions: CapoSuggestion[] = [];
+  for (let capo = 1; capo <= MAX_SUGGESTED_CAPO; capo++) {
+    const shapeKey = getCapoShapeKey(key, capo);
+    if (shapeKey && openKeys.includes(shapeKey)) {
+      suggestions.push({ capo, shapeKey });
+    }
+  }
+  return suggestions;
+}
+
+/**
+ * Shape played for a sounding chord with the capo on a given fret
+ * @returns Shape chord, or null if the chord cannot be read
+ */
+export function getCapoShape(chord: string, capo: number): string | null {
+  return transposeChord(chord, -capo);
+}
+
+/**
+ * Show the chords of a parsed song as capo shapes, sounding chords, or
+ * shapes followed by the sounding chord in parentheses
+ */
+export function songToCapo(
+  song: Song,
+  capo: number,
+  mode: CapoMode,
+  notation: ChordNotation = "english",
+): Song {
+  if (capo === 0 || mode === "sounding") {
+    return songToNotation(song, notation);
+  }
+  const spell = (chord: string) =>
+    convertChordNotation(chord, "english", notation) ?? chord;
+
+  return song.mapItems((item) => {
+    if (!(item instanceof ChordLyricsPair) || !item.chords) {
+      return item;
+    }
+    const shape = getCapoShape(item.chords, capo);
+    if (!shape) {
+      return item;
+    }
+    const chords =
+      mode === "both"
+        ? `${spell(shape)} (${spell(item.chords)})`
+        : spell(shape);
+    return item.set({ chords });
+  });
+}
@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Chord spelling in English, German and Latin (solfège) notation
+ * @module features/songs/utils/chordNotation
+ *
+ * Charts are stored, parsed and transposed with English letter names.
+ * Charts written in German or Latin are converted to English on the way in,
+ * and chords are converted to the reader's notation only for display.
+ * German uses H for B natural and B for B flat, with -is/-es accidentals.
+ */
+
+import { ChordLyricsPair, type Song } from "chordsheetjs";
+import type { ChordNotation } from "../types/chord.types";
+import {
+  mapChordProChords,
+  setChordProDirective,
+} from "@shared/songs/chordSheetHelpers";
+import {
+  getChartKey,
+  hasNashvilleChords,
+  nashvilleToChordPro,
+} from "@shared/songs/nashvilleNumbers";
+
+export const CHORD_NOTATIONS: Record<ChordNotation, string> = {
+  english: "English (C D E F G A B)",
+  german: "German (C D E F G A H)",
+  latin: "Latin (Do Re Mi Fa Sol La Si)",
+};
+
+const GERMAN_NAMES: Record<string, string> = {
+  C: "C",
+  "C#": "Cis",
+  Db: "Des",
+  D: "D",
+  "D#": "Dis",
+  Eb: "Es",
+  E: "E",
+  F: "F",
+  "F#": "Fis",
+  Gb: "Ges",
+  G: "G",
+  "G#": "Gis",
+  Ab: "As",
+  A: "A",
+  "A#": "Ais",
+  Bb: "B",
+  B: "H",
+};
+
+const LATIN_NAMES: Record<string, string> = {
+  C: "Do",
+  D: "Re",
+  E: "Mi",
+  F: "Fa",
+  G: "Sol",
+  A: "La",
+  B: "Si",
+};
+
+const ENGLISH_NOTE = /^([A-G])([#b]?)/;
+// "As" and "Es" are not read as German when they start "sus", e.g. Asus4
+const GERMAN_NOTE =
+  /^(Cis|Ces|Des|Dis|Es(?!us)|Eis|Fis|Ges|Gis|As(?!us)|Ais|H|C|D|E|F|G|A|B)([#b]?)/;
+const LATIN_NOTE = /^(Do|Re|Mi|Fa|Sol|La|Si)([#b]?)/i;
+const CHORD_TOKEN = /\[([^\]\s]+)\]/g;
+
+interface ParsedNote {
+  /** English note name such as "F#" or "Bb" */
+  note: string;
+  /** Characters consumed from the input */
+  length: number;
+}
+
+function readNote(text: string, notation: ChordNotation): ParsedNote | null {
+  if (notation === "german") {
+    const match = text.match(GERMAN_NOTE);
+    if (!match) {
+      return null;
+    }
+    const [name, base, accidental] = match;
+    const english = Object.keys(GERMAN_NAMES).find(
+      (note) => GERMAN_NAMES[note] === base,
+    );
+    if (!english) {
+      // Rare spellings such as Ces and Eis
+      return {
+        note: `${base[0]}${base.endsWith("is") ? "#" : "b"}`,
+        length: name.length,
+      };
+    }
+    // "Hb" and "Bb" both mean B flat
+    if (accidental === "b" && (base === "H" || base === "B")) {
+      return { note: "Bb", length: name.length };
+    }
+    return { note: `${english}${accidental}`, length: name.length };
+  }
+
+  if (notation === "latin") {
+    const match = text.match(LATIN_NOTE);
+    if (!match) {
+      return null;
+    }
+    const [name, syllable, accidental] = match;
+    const letter = Object.keys(LATIN_NAMES).find(
+      (note) => LATIN_NAMES[note].toLowerCase() === syllable.toLowerCase(),
+    );
+    return letter
+      ? { note: `${letter}${accidental}`, length: name.length }
+      : null;
+  }
+
+  const match = text.match(ENGLISH_NOTE);
+  return match ? { note: match[0], length: match[0].length } : null;
+}
+
+function writeNote(note: string, notation: ChordNotation): string {
+  if (notation === "german") {
+    return GERMAN_NAMES[note] ?? note.replace(/^B/, "H");
+  }
+  if (notation === "latin") {
+    return `${LATIN_NAMES[note[0]]}${note.slice(1)}`;
+  }
+  return note;
+}
+
+/**
+ * Convert a chord between notations, keeping its quality, extensions and
+ * slash bass note
+ * @param chord - Chord such as `Bbm7/F`, `Hm7` or `Sol/Si`
+ * @param from - Notation the chord is written in
+ * @param to - Notation to write it in
+ * @returns Converted chord, or null if the chord cannot be read
+ */
+export function convertChordNotation(
+  chord: string,
+  from: ChordNotation,
+  to: ChordNotation,
+): string | null {
+  const root = readNote(chord, from);
+  if (!root) {
+    return null;
+  }
+  let rest = chord.slice(root.length);
+  let bass = "";
+  const slash = rest.lastIndexOf("/");
+  if (slash !== -1) {
+    const bassNote = readNote(rest.slice(slash + 1), from);
+    if (bassNote && bassNote.length === rest.length - slash - 1) {
+      bass = `/${writeNote(bassNote.note, to)}`;
+      rest = rest.slice(0, slash);
+    }
+  }
+  return `${writeNote(root.note, to)}${rest}${bass}`;
+}
+
+/**
+ * Show a key such as `Bb` in the given notation
+ */
+export function formatKeyInNotation(
+  key: string,
+  notation: ChordNotation,
+): string {
+  return convertChordNotation(key, "english", notation) ?? key;
+}
+
+// ==================== Charts ====================
+
+function chartChords(content: string): string[] {
+  return Array.from(content.matchAll(CHORD_TOKEN), ([, chord]) => chord);
+}
+
+/**
+ * Work out which notation a ChordPro chart is written in. Solfège names
+ * mark a Latin chart and an H chord marks a German one; anything else is
+ * read as English.
+ */
+export function detectChartNotation(content: string): ChordNotation {
+  const chords = chartChords(content);
+  // Do and Fa could be D or F chords, the other syllables cannot
+  if (chords.some((chord) => /^(Re|Mi|Sol|La|Si)/i.test(chord))) {
+    return "latin";
+  }
+  if (chords.some((chord) => /^H|\/H/.test(chord))) {
+    return "german";
+  }
+  return "english";
+}
+
+/**
+ * Rewrite a German or Latin chart with English chord names so it can be
+ * parsed, transposed and key-detected. English charts are returned as is.
+ */
+export function chordProToEnglish(
+  content: string,
+  notation: ChordNotation = detectChartNotation(content),
+): string {
+  if (notation === "english") {
+    return content;
+  }
+  const converted = mapChordProChords(content, (chord) =>
+    convertChordNotation(chord, notation, "english"),
+  );
+  const key = converted.match(/\{key:\s*([^}]+)\}/i)?.[1].trim();
+  const englishKey = key && convertChordNotation(key, notation, "english");
+  return englishKey
+    ? setChordProDirective(converted, "key", englishKey)
+    : converted;
+}
+
+/**
+ * Spell out a chart in English letter chords, whether it is written in
+ * German or Latin names or in Nashville numbers, so that parsing, key
+ * detection and transposition work the same for every chart
+ * @param content - ChordPro chart
+ * @param songKey - Key for Nashville numbers; falls back to the {key:} directive
+ */
+export function normalizeChordChart(content: string, songKey?: string): string {
+  const english = chordProToEnglish(content);
+  const key = songKey ?? getChartKey(english);
+  return key && hasNashvilleChords(english)
+    ? nashvilleToChordPro(english, key)
+    : english;
+}
+
+/**
+ * Show the chords of a parsed song in the given notation
+ */
+export function songToNotation(song: Song, notation: ChordNotation): Song {
+  if (notation === "english") {
+    return song;
+  }
+  return song.mapItems((item) => {
+    if (!(item instanceof ChordLyricsPair) || !item.chords) {
+      return item;
+    }
+    const chords = convertChordNotation(item.chords, "english", notation);
+    return chords ? item.set({ chords }) : item;
+  });
+}
@@ -0,0 +1,379 @@
+/**
+ * @fileoverview Chord voicings for guitar, ukulele and piano diagrams
+ * @module features/songs/utils/chordVoicings
+ *
+ * Fretted voicings are searched for rather than looked up, so every chord a
+ * chart uses gets a diagram. Each four-fret window up the neck is tried and
+ * the playable shape with the most strings, the fewest barres and the lowest
+ * position wins, which gives the familiar open shapes where they exist.
+ * Guitar voicings keep the root, or the slash bass, on the lowest string.
+ * Piano voicings stack the chord tones above the root, with a slash bass
+ * note below it.
+ */
+
+import type { Instrument } from "../types/chord.types";
+
+export const INSTRUMENTS: Record<Instrument, string> = {
+  guitar: "Guitar",
+  ukulele: "Ukulele",
+  piano: "Piano",
+};
+
+export interface Barre {
+  fret: number;
+  /** Lowest string covered, counted from the lowest string */
+  from: number;
+  /** Highest string covered */
+  to: number;
+}
+
+export interface FrettedVoicing {
+  instrument: "guitar" | "ukulele";
+  /** Fret for each string from lowest to highest; 0 is open, null muted */
+  frets: Array<number | null>;
+  /** Fret shown at the top of the diagram */
+  baseFret: number;
+  barre?: Barre;
+}
+
+export interface KeyboardVoicing {
+  instrument: "piano";
+  /** MIDI note numbers, lowest first */
+  notes: number[];
+}
+
+export type ChordVoicing = FrettedVoicing | KeyboardVoicing;
+
+export interface ChordTones {
+  /** Pitch class of the root, 0 = C */
+  root: number;
+  /** Pitch class of the lowest note: the slash bass or the root */
+  bass: number;
+  /** Intervals above the root in semitones, extensions above the octave */
+  intervals: number[];
+}
+
+const NOTE_PITCHES: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+// Chord suffixes and the intervals they stack on the root
+const SUFFIX_INTERVALS: Record<string, number[]> = {
+  "": [0, 4, 7],
+  maj: [0, 4, 7],
+  M: [0, 4, 7],
+  m: [0, 3, 7],
+  min: [0, 3, 7],
+  "-": [0, 3, 7],
+  "5": [0, 7],
+  dim: [0, 3, 6],
+  "°": [0, 3, 6],
+  dim7: [0, 3, 6, 9],
+  "°7": [0, 3, 6, 9],
+  aug: [0, 4, 8],
+  "+": [0, 4, 8],
+  sus: [0, 5, 7],
+  sus4: [0, 5, 7],
+  sus2: [0, 2, 7],
+  "2": [0, 2, 4, 7],
+  add2: [0, 2, 4, 7],
+  add9: [0, 4, 7, 14],
+  madd9: [0, 3, 7, 14],
+  add4: [0, 4, 5, 7],
+  "6": [0, 4, 7, 9],
+  m6: [0, 3, 7, 9],
+  "6/9": [0, 4, 7, 9, 14],
+  "69": [0, 4, 7, 9, 14],
+  "7": [0, 4, 7, 10],
+  m7: [0, 3, 7, 10],
+  min7: [0, 3, 7, 10],
+  "-7": [0, 3, 7, 10],
+  maj7: [0, 4, 7, 11],
+  M7: [0, 4, 7, 11],
+  Δ: [0, 4, 7, 11],
+  Δ7: [0, 4, 7, 11],
+  mmaj7: [0, 3, 7, 11],
+  "7sus": [0, 5, 7, 10],
+  "7sus4": [0, 5, 7, 10],
+  "7sus2": [0, 2, 7, 10],
+  m7b5: [0, 3, 6, 10],
+  ø: [0, 3, 6, 10],
+  ø7: [0, 3, 6, 10],
+  "7b5": [0, 4, 6, 10],
+  "7#5": [0, 4, 8, 10],
+  aug7: [0, 4, 8, 10],
+  "+7": [0, 4, 8, 10],
+  "7b9": [0, 4, 7, 10, 13],
+  "7#9": [0, 4, 7, 10, 15],
+  "9": [0, 4, 7, 10, 14],
+  m9: [0, 3, 7, 10, 14],
+  maj9: [0, 4, 7, 11, 14],
+  "11": [0, 7, 10, 14, 17],
+  m11: [0, 3, 7, 10, 17],
+  "13": [0, 4, 7, 10, 21],
+};
+
+const CHORD_PATTERN = /^([A-G])([#b]?)(.*?)(?:\/([A-G])([#b]?))?$/;
+
+function pitchOf(letter: string, accidental: string): number {
+  const offset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
+  return (NOTE_PITCHES[letter] + offset + 12) % 12;
+}
+
+/**
+ * Work out the notes of a chord such as `Bm7/A` or `Cadd9`
+ * @returns Chord tones, or null for chords with an unknown suffix
+ */
+export function parseChordTones(chord: string): ChordTones | null {
+  const match = chord.trim().match(CHORD_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, letter, accidental, suffix, bassLetter, bassAccidental] = match;
+  // "m(maj7)" and "7(b9)" are written without the parentheses in the table
+  const intervals = SUFFIX_INTERVALS[suffix.replace(/[()]/g, "")];
+  if (!intervals) {
+    return null;
+  }
+  const root = pitchOf(letter, accidental);
+  return {
+    root,
+    bass: bassLetter ? pitchOf(bassLetter, bassAccidental) : root,
+    intervals,
+  };
+}
+
+// ==================== Fretted Instruments ====================
+
+interface Tuning {
+  /** Open string pitch classes from lowest to highest */
+  strings: number[];
+  /** Whether the lowest sounding string must play the bass note */
+  bassOnLowestString: boolean;
+  /** How many low strings may be left unplayed */
+  maxMutedStrings: number;
+  /** Highest fret played alongside open strings without a penalty */
+  openPositionFrets: number;
+}
+
+const TUNINGS: Record<FrettedVoicing["instrument"], Tuning> = {
+  // E A D G B E
+  guitar: {
+    strings: [4, 9, 2, 7, 11, 4],
+    bassOnLowestString: true,
+    maxMutedStrings: 2,
+    openPositionFrets: 3,
+  },
+  // Re-entrant G C E A: the lowest string is not the lowest note
+  ukulele: {
+    strings: [7, 0, 4, 9],
+    bassOnLowestString: false,
+    maxMutedStrings: 0,
+    openPositionFrets: 4,
+  },
+};
+
+const HIGHEST_POSITION = 12;
+const FRET_SPAN = 3;
+const MAX_FINGERS = 4;
+
+interface Candidate {
+  frets: number[];
+  barre?: Barre;
+  score: number;
+}
+
+/**
+ * Fingers needed to fret a shape, using a barre across the lowest fret when
+ * four fingers are not enough
+ */
+function fingerShape(
+  frets: number[],
+  firstString: number,
+): { playable: boolean; barre?: Barre } {
+  const fretted = frets.filter((fret) => fret > 0);
+  if (fretted.length <= MAX_FINGERS) {
+    return { playable: true };
+  }
+  const lowest = Math.min(...fretted);
+  const barred = frets
+    .map((fret, index) => (fret === lowest ? index : -1))
+    .filter((index) => index !== -1);
+  const from = barred[0];
+  const to = barred[barred.length - 1];
+  // A barre cannot hold down a string that rings open or sits below it
+  const blocked = frets
+    .slice(from, to + 1)
+    .some((fret) => fret === 0 || fret < lowest);
+  const fingers = fretted.length - barred.length + 1;
+  if (barred.length < 2 || blocked || fingers > MAX_FINGERS) {
+    return { playable: false };
+  }
+  return {
+    playable: true,
+    barre: { fret: lowest, from: from + firstString, to: to + firstString },
+  };
+}
+
+function scoreShape(
+  frets: number[],
+  tones: ChordTones,
+  tuning: Tuning,
+  required: number[],
+): Candidate | null {
+  const sounding = frets.map(
+    (fret, index) =>
+      (tuning.strings[tuning.strings.length - frets.length + index] + fret) %
+      12,
+  );
+  if (required.some((tone) => !sounding.includes(tone))) {
+    return null;
+  }
+  const firstString = tuning.strings.length - frets.length;
+  const { playable, barre } = fingerShape(frets, firstString);
+  if (!playable) {
+    return null;
+  }
+  const fretted = frets.filter((fret) => fret > 0);
+  const position = fretted.length > 0 ? Math.min(...fretted) : 0;
+  const span = fretted.length > 0 ? Math.max(...fretted) - position : 0;
+  const openStrings = frets.filter((fret) => fret === 0).length;
+  // Open strings ring out of place once the hand leaves first position
+  const openAwayFromNut =
+    openStrings > 0 && position + span > tuning.openPositionFrets ? 1 : 0;
+  const fifth = (tones.root + 7) % 12;
+  const missingFifth =
+    tones.intervals.includes(7) && !sounding.includes(fifth) ? 1 : 0;
+
+  return {
+    frets,
+    barre,
+    score:
+      position +
+      span * 0.5 +
+      (barre ? 2 : 0) +
+      missingFifth +
+      openAwayFromNut * 4 -
+      frets.length * 2 -
+      openStrings * 0.5,
+  };
+}
+
+function searchFretted(
+  tones: ChordTones,
+  instrument: FrettedVoicing["instrument"],
+): FrettedVoicing | null {
+  const tuning = TUNINGS[instrument];
+  const chordTones = new Set([
+    ...tones.intervals.map((i) => (tones.root + i) % 12),
+    tones.bass,
+  ]);
+  // The fifth can be left out when the chord has a third or suspension
+  const hasThird = tones.intervals.some((i) => [2, 3, 4, 5].includes(i));
+  const required = Array.from(chordTones).filter(
+    (tone) => !(hasThird && tone === (tones.root + 7) % 12),
+  );
+  if (required.length > tuning.strings.length) {
+    return null;
+  }
+
+  let best: Candidate | null = null;
+  for (let position = 1; position <= HIGHEST_POSITION; position++) {
+    const reachable = (open: number, accept: (tone: number) => boolean) => {
+      const frets = [0];
+      for (let fret = position; fret <= position + FRET_SPAN; fret++) {
+        frets.push(fret);
+      }
+      return frets.filter((fret) => accept((open + fret) % 12));
+    };
+
+    for (let muted = 0; muted <= tuning.maxMutedStrings; muted++) {
+      const strings = tuning.strings.slice(muted);
+      const options = strings.map((open, index) =>
+        reachable(open, (tone) =>
+          index === 0 && tuning.bassOnLowestString
+            ? tone === tones.bass
+            : chordTones.has(tone),
+        ),
+      );
+
+      const walk = (index: number, frets: number[]) => {
+        if (index === options.length) {
+          const candidate = scoreShape(frets, tones, tuning, required);
+          if (candidate && (!best || candidate.score < best.score)) {
+            best = candidate;
+          }
+          return;
+        }
+        for (const fret of options[index]) {
+          walk(index + 1, [...frets, fret]);
+        }
+      };
+      walk(0, []);
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+  const { frets, barre } = best as Candidate;
+  const muted = tuning.strings.length - frets.length;
+  const fretted = frets.filter((fret) => fret > 0);
+  const highest = fretted.length > 0 ? Math.max(...fretted) : 0;
+  return {
+    instrument,
+    frets: [...Array<null>(muted).fill(null), ...frets],
+    // Shapes that fit in the first four frets are drawn from the nut
+    baseFret: highest <= 4 ? 1 : Math.min(...fretted),
+    barre,
+  };
+}
+
+// ==================== Piano ====================
+
+const MIDDLE_C = 60;
+
+function pianoVoicing(tones: ChordTones): KeyboardVoicing {
+  // Keep the chord around middle C: roots from G upwards start below it
+  const root = MIDDLE_C + tones.root - (tones.root >= 7 ? 12 : 0);
+  const notes = tones.intervals.map((interval) => root + interval);
+  if (tones.bass !== tones.root) {
+    const below = (root - tones.bass + 12) % 12 || 12;
+    notes.unshift(root - below);
+  }
+  return { instrument: "piano", notes };
+}
+
+// ==================== Lookup ====================
+
+const voicingCache = new Map<string, ChordVoicing | null>();
+
+/**
+ * Find a voicing for a chord on the given instrument
+ * @param chord - Chord in English letters, e.g. `Bm7/A`
+ * @returns Voicing, or null if the chord cannot be read or played
+ */
+export function getChordVoicing(
+  chord: string,
+  instrument: Instrument,
+): ChordVoicing | null {
+  const cacheKey = `${instrument}:${chord}`;
+  const cached = voicingCache.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const tones = parseChordTones(chord);
+  const voicing = !tones
+    ? null
+    : instrument === "piano"
+      ? pianoVoicing(tones)
+      : searchFretted(tones, instrument);
+  voicingCache.set(cacheKey, voicing);
+  return voicing;
+}
@@ -6,6 +6,7 @@ import {
   useState,
 } from "react";
 import { useUser, useClerk, useAuth } from "@clerk/clerk-react";
+import { setAuthTokenProvider } from "../utils/api-helpers";
 
 // User interface matching the backend User model
 export interface User {
@@ -18,6 +19,7 @@ export interface User {
     defaultKey?: string;
     fontSize: number;
     theme: "light" | "dark" | "stage";
+    notation?: "english" | "german" | "latin";
   };
   profile: {
     bio?: string;
@@ -109,6 +111,12 @@ export function AuthProvider({ children }: AuthProviderProps) {
     error: null,
   });
 
+  // Attach the Clerk session token to authenticated API requests
+  useEffect(() => {
+    setAuthTokenProvider(isSignedIn ? () => getToken() : null);
+    return () => setAuthTokenProvider(null);
+  }, [isSignedIn, getToken]);
+
   // Sync Clerk user with backend and local state
   useEffect(() => {
     const syncUser = async () => {
@@ -139,7 +147,6 @@ export function AuthProvider({ children }: AuthProviderProps) {
             Authorization: `Bearer ${token}`,
           },
           body: JSON.stringify({
-            clerkId: clerkUser.id,
             email: clerkUser.primaryEmailAddress?.emailAddress,
             name: clerkUser.fullName || clerkUser.firstName || "User",
           }),
@@ -153,10 +153,43 @@ export function useCachedSetlists() {
     [isReady],
   );
 
+  const getSharedSetlist = useCallback(
+    async (shareToken: string) => {
+      if (!isReady) {
+        return null;
+      }
+      return await indexedDB.getSetlistByShareToken(shareToken);
+    },
+    [isReady],
+  );
+
+  const markSetlistPending = useCallback(
+    async (id: string) => {
+      if (!isReady) {
+        return;
+      }
+      await indexedDB.updateSetlistSyncStatus(id, "pending");
+    },
+    [isReady],
+  );
+
+  const removeCachedSetlist = useCallback(
+    async (id: string) => {
+      if (!isReady) {
+        return;
+      }
+      await indexedDB.removeSetlist(id);
+    },
+    [isReady],
+  );
+
   return {
     cacheSetlist,
     getCachedSetlist,
     getUserSetlists,
+    getSharedSetlist,
+    markSetlistPending,
+    removeCachedSetlist,
   };
 }
 
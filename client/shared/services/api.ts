@@ -1,5 +1,6 @@
 // API client for interacting with the backend server
 import type { DatabaseStatus } from "../../../shared/types/api.types";
+import { authFetch } from "../utils/api-helpers";
 
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL ||
@@ -82,7 +83,7 @@ class APIClient {
     };
 
     try {
-      const response = await fetch(url, config);
+      const response = await authFetch(url, config);
 
       if (!response.ok) {
         throw new Error(
@@ -40,3 +40,46 @@ export const getFavoritesListEndpoint = (
 ): string => {
   return `/api/users/${userId}/favorites?type=${type}`;
 };
+
+type AuthTokenProvider = () => Promise<string | null>;
+
+let authTokenProvider: AuthTokenProvider | null = null;
+
+/**
+ * Registers the function used to obtain the current session token
+ * @param provider - Returns a bearer token, or null when signed out
+ */
+export const setAuthTokenProvider = (
+  provider: AuthTokenProvider | null,
+): void => {
+  authTokenProvider = provider;
+};
+
+/**
+ * Builds the Authorization header for the current session
+ * @returns Headers to merge into a request, empty when signed out
+ */
+export const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const token = authTokenProvider ? await authTokenProvider() : null;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+/**
+ * fetch wrapper that attaches the session token when one is available
+ * @param input - The request URL
+ * @param init - Standard fetch options
+ * @returns The fetch response
+ */
+export const authFetch = async (
+  input: string,
+  init: RequestInit = {},
+): Promise<Response> => {
+  const authHeaders = await getAuthHeaders();
+  if (!authHeaders.Authorization) {
+    return fetch(input, init);
+  }
+
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", authHeaders.Authorization);
+  return fetch(input, { ...init, headers });
+};
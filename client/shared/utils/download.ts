@@ -0,0 +1,18 @@
+/**
+ * Save text content as a file through a temporary object URL
+ */
+export function downloadTextFile(
+  content: string,
+  filename: string,
+  mimeType = "text/plain",
+): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -258,6 +258,14 @@ class IndexedDBManager {
     return await db.getAllFromIndex("setlists", "by-created-by", userId);
   }
 
+  async getSetlistByShareToken(
+    shareToken: string,
+  ): Promise<HSASongbookDB["setlists"]["value"] | undefined> {
+    const db = this.ensureDB();
+    const setlists = await db.getAll("setlists");
+    return setlists.find((s) => s.metadata?.shareToken === shareToken);
+  }
+
   async updateSetlistSyncStatus(
     id: string,
     status: "synced" | "pending" | "conflict",
@@ -275,6 +283,15 @@ class IndexedDBManager {
     }
   }
 
+  async removeSetlist(id: string): Promise<void> {
+    const db = this.ensureDB();
+    const tx = db.transaction("setlists", "readwrite");
+    await tx.store.delete(id);
+    await tx.done;
+
+    await this.updateStorageStats();
+  }
+
   // Sync queue operations
   async addToSyncQueue(
     operation: Omit<
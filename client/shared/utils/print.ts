@@ -0,0 +1,52 @@
+import { authFetch } from "./api-helpers";
+
+/**
+ * Send a standalone HTML document to the browser print dialog using a
+ * hidden iframe, so the current page is left untouched
+ */
+export function printHtmlDocument(html: string): void {
+  const iframe = document.createElement("iframe");
+  iframe.setAttribute("aria-hidden", "true");
+  iframe.style.position = "fixed";
+  iframe.style.width = "0";
+  iframe.style.height = "0";
+  iframe.style.border = "0";
+  document.body.appendChild(iframe);
+
+  const frameWindow = iframe.contentWindow;
+  if (!frameWindow) {
+    iframe.remove();
+    return;
+  }
+
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+
+  const cleanup = () => setTimeout(() => iframe.remove(), 1000);
+  frameWindow.addEventListener("afterprint", cleanup, { once: true });
+  frameWindow.focus();
+  frameWindow.print();
+}
+
+/**
+ * Fetch a generated print document from the server, rendering it locally
+ * when the network is unavailable
+ */
+export async function loadPrintDocument(
+  url: string,
+  renderOffline: () => string,
+): Promise<string> {
+  let response: Response;
+  try {
+    response = await authFetch(url);
+  } catch {
+    return renderOffline();
+  }
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => null);
+    throw new Error(result?.error?.message || "Failed to generate document");
+  }
+  return response.text();
+}
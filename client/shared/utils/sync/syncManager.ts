@@ -1,4 +1,5 @@
 import { indexedDB } from "../indexeddb/database";
+import { authFetch } from "../api-helpers";
 
 export interface SyncOperation {
   id: string;
@@ -158,7 +159,7 @@ export class SyncManager {
       clientLastSync: await this.getLastSyncTimestamp(),
     };
 
-    const response = await fetch("/api/sync/batch", {
+    const response = await authFetch("/api/sync/batch", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -277,7 +278,7 @@ export class SyncManager {
       data,
     };
 
-    const response = await fetch("/api/sync/resolve", {
+    const response = await authFetch("/api/sync/resolve", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -182,6 +182,7 @@ vi.mock("lucide-react", () => ({
   Layout: createIcon("Layout"),
   Link: createIcon("Link"),
   Link2: createIcon("Link2"),
+  ListMusic: createIcon("ListMusic"),
   Map: createIcon("Map"),
   MapPin: createIcon("MapPin"),
   Maximize: createIcon("Maximize"),
@@ -229,4 +230,5 @@ vi.mock("lucide-react", () => ({
 
   // ChordDisplay specific icons
   Keyboard: createIcon("Keyboard"),
+  Guitar: createIcon("Guitar"),
 }));
@@ -1,5 +1,7 @@
 import { Schema, model, Document, Model, Types } from "mongoose";
 import { MusicalKey } from "./User.js"; // Import MusicalKey
+import { countMashupBars } from "../../utils/setlistDuration";
+import { indexChordProgression } from "@shared/arrangements/chordProgression";
 
 // Difficulty levels (moved from Song model)
 export type Difficulty = "beginner" | "intermediate" | "advanced";
@@ -12,6 +14,7 @@ export interface IArrangement extends Document {
   songIds: Types.ObjectId[]; // Array supports mashups
   createdBy: Types.ObjectId; // Reference to User, indexed
   chordData: string; // ChordPro format, max 500KB
+  chordProgression: string; // Chords as degrees of the key, e.g. "1 5 6m 4"
   key: MusicalKey;
   tempo?: number; // 40-200 BPM
   timeSignature: string; // Default "4/4"
@@ -51,7 +54,7 @@ export interface IArrangement extends Document {
   updateViews(): Promise<IArrangement>;
   addRating(rating: number): Promise<IArrangement>;
   getDecompressedChordData(): Promise<string>;
-  getMashupDuration(): number;
+  getMashupDuration(): number; // Bars covered by the mashup sections
   incrementSetlistCount(): Promise<IArrangement>;
   decrementSetlistCount(): Promise<IArrangement>;
 }
@@ -134,6 +137,12 @@ const arrangementSchema = new Schema<IArrangement>(
         message: "Chord data exceeds 500KB limit",
       },
     },
+    // Kept in step with chordData and key on save for progression search
+    chordProgression: {
+      type: String,
+      default: "",
+      select: false,
+    },
     key: {
       type: String,
       enum: [
@@ -342,6 +351,10 @@ arrangementSchema.pre("save", async function (this: IArrangement, next) {
     this.metadata.mashupSections = undefined;
   }
 
+  if (this.isModified("chordData") || this.isModified("key")) {
+    this.chordProgression = indexChordProgression(this.chordData, this.key);
+  }
+
   // Document size will be calculated post-save to avoid circular dependencies
   next();
 });
@@ -381,17 +394,12 @@ arrangementSchema.methods.getDecompressedChordData =
     return this.chordData || "";
   };
 
+// Bars covered by the mashup's sections, the same count setlist timing uses
 arrangementSchema.methods.getMashupDuration = function () {
-  if (!this.metadata.isMashup || !this.metadata.mashupSections) {
+  if (!this.metadata.isMashup) {
     return 0;
   }
-
-  return this.metadata.mashupSections.reduce((total: number, section: any) => {
-    if (section.startBar && section.endBar) {
-      return total + (section.endBar - section.startBar + 1);
-    }
-    return total;
-  }, 0);
+  return countMashupBars(this.metadata.mashupSections);
 };
 
 arrangementSchema.methods.incrementSetlistCount = function () {
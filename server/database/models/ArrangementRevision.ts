@@ -0,0 +1,160 @@
+import { Schema, model, Document, Model, Types } from "mongoose";
+import { MusicalKey } from "./User.js";
+
+// Arrangement fields captured in each revision
+export const REVISION_FIELDS = [
+  "chordData",
+  "key",
+  "tempo",
+  "structure",
+] as const;
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+// Interface for ArrangementRevision document - immutable snapshot
+export interface IArrangementRevision extends Document {
+  _id: Types.ObjectId;
+  arrangementId: Types.ObjectId; // Reference to Arrangement
+  revision: number; // 1-based, increasing per arrangement
+  chordData: string; // ChordPro snapshot
+  key: MusicalKey;
+  tempo?: number;
+  structure: string[];
+  changedFields: RevisionField[]; // Fields that differ from the previous revision
+  author: Types.ObjectId; // Reference to User who made the change
+  restoredFrom?: number; // Set when the revision restores an older one
+  createdAt: Date;
+}
+
+// Interface for ArrangementRevision model (static methods)
+export interface IArrangementRevisionModel extends Model<IArrangementRevision> {
+  findByArrangement(
+    arrangementId: string | Types.ObjectId,
+  ): Promise<IArrangementRevision[]>;
+  findRevision(
+    arrangementId: string | Types.ObjectId,
+    revision: number,
+  ): Promise<IArrangementRevision | null>;
+  findLatest(
+    arrangementId: string | Types.ObjectId,
+  ): Promise<IArrangementRevision | null>;
+}
+
+// Schema definition
+const arrangementRevisionSchema = new Schema<
+  IArrangementRevision,
+  IArrangementRevisionModel
+>(
+  {
+    arrangementId: {
+      type: Schema.Types.ObjectId,
+      ref: "Arrangement",
+      required: true,
+      immutable: true,
+    },
+    revision: {
+      type: Number,
+      required: true,
+      min: 1,
+      immutable: true,
+    },
+    chordData: {
+      type: String,
+      required: true,
+      immutable: true,
+    },
+    key: {
+      type: String,
+      required: true,
+      immutable: true,
+    },
+    tempo: {
+      type: Number,
+      immutable: true,
+    },
+    structure: {
+      type: [String],
+      default: [],
+      immutable: true,
+    },
+    changedFields: {
+      type: [{ type: String, enum: REVISION_FIELDS }],
+      default: [],
+      immutable: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      immutable: true,
+    },
+    restoredFrom: {
+      type: Number,
+      min: 1,
+      immutable: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+      immutable: true,
+    },
+  },
+  {
+    collection: "arrangement_revisions",
+  },
+);
+
+// One revision number per arrangement, newest first
+arrangementRevisionSchema.index(
+  { arrangementId: 1, revision: -1 },
+  { unique: true },
+);
+
+// Revisions are append-only: block edits to saved documents
+arrangementRevisionSchema.pre("save", function (next) {
+  if (!this.isNew) {
+    return next(new Error("Arrangement revisions are immutable"));
+  }
+  next();
+});
+
+arrangementRevisionSchema.pre(
+  ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne"],
+  function (next) {
+    next(new Error("Arrangement revisions are immutable"));
+  },
+);
+
+// Static methods
+arrangementRevisionSchema.statics.findByArrangement = async function (
+  arrangementId: string | Types.ObjectId,
+): Promise<IArrangementRevision[]> {
+  return await this.find({ arrangementId })
+    .select("-chordData")
+    .populate("author", "name")
+    .sort({ revision: -1 });
+};
+
+arrangementRevisionSchema.statics.findRevision = async function (
+  arrangementId: string | Types.ObjectId,
+  revision: number,
+): Promise<IArrangementRevision | null> {
+  return await this.findOne({ arrangementId, revision }).populate(
+    "author",
+    "name",
+  );
+};
+
+arrangementRevisionSchema.statics.findLatest = async function (
+  arrangementId: string | Types.ObjectId,
+): Promise<IArrangementRevision | null> {
+  return await this.findOne({ arrangementId }).sort({ revision: -1 });
+};
+
+// Create and export the model
+export const ArrangementRevision = model<
+  IArrangementRevision,
+  IArrangementRevisionModel
+>("ArrangementRevision", arrangementRevisionSchema);
+
+// Export schema for testing
+export { arrangementRevisionSchema };
@@ -0,0 +1,127 @@
+import { Schema, model, Document, Model, Types } from "mongoose";
+
+export type CategoryRuleType =
+  | "theme"
+  | "source"
+  | "artist"
+  | "title_pattern"
+  | "lyrics_pattern";
+
+export const CATEGORY_RULE_TYPES: CategoryRuleType[] = [
+  "theme",
+  "source",
+  "artist",
+  "title_pattern",
+  "lyrics_pattern",
+];
+
+// A rule adds its weight to the category when a song field contains a value
+export interface ICategoryRule {
+  type: CategoryRuleType;
+  values: string[]; // Matched case-insensitively
+  weight: number; // 1-10
+}
+
+// Interface for Category document
+export interface ICategory extends Document {
+  _id: Types.ObjectId;
+  categoryId: string; // Stable ID stored on songs, e.g. "classic-hymns"
+  name: string;
+  description: string;
+  color: string; // Tailwind color name, e.g. "blue"
+  rules: ICategoryRule[];
+  order: number; // Position when listed
+  isActive: boolean; // Inactive categories are not assigned
+  lastModifiedBy?: Types.ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Interface for Category model (static methods)
+export interface ICategoryModel extends Model<ICategory> {
+  findActive(): Promise<ICategory[]>;
+}
+
+const categoryRuleSchema = new Schema<ICategoryRule>(
+  {
+    type: {
+      type: String,
+      enum: CATEGORY_RULE_TYPES,
+      required: true,
+    },
+    values: {
+      type: [{ type: String, trim: true, lowercase: true, maxlength: 100 }],
+      validate: {
+        validator: (values: string[]) => values.length > 0,
+        message: "A rule needs at least one value",
+      },
+    },
+    weight: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 10,
+    },
+  },
+  { _id: false },
+);
+
+// Schema definition
+const categorySchema = new Schema<ICategory, ICategoryModel>(
+  {
+    categoryId: {
+      type: String,
+      required: true,
+      unique: true,
+      match: /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+      maxlength: 50,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+      default: "",
+    },
+    color: {
+      type: String,
+      default: "gray",
+    },
+    rules: [categoryRuleSchema],
+    order: {
+      type: Number,
+      default: 0,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true,
+    },
+    lastModifiedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Static methods
+categorySchema.statics.findActive = function () {
+  return this.find({ isActive: true }).sort({ order: 1, name: 1 });
+};
+
+// Create and export the model
+export const Category = model<ICategory, ICategoryModel>(
+  "Category",
+  categorySchema,
+);
+
+// Export schema for testing
+export { categorySchema };
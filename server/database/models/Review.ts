@@ -1,4 +1,12 @@
-import { Schema, model, Document, Model, Types } from "mongoose";
+import {
+  Schema,
+  model,
+  Document,
+  Model,
+  Types,
+  type FilterQuery,
+} from "mongoose";
+import { cursorFilter, type CursorSort } from "../../utils/cursorPagination";
 
 // Interface for Review document
 export interface IReview extends Document {
@@ -21,11 +29,21 @@ export interface IReview extends Document {
   getHelpfulCount(): number;
 }
 
+// Cursor paging for an arrangement's reviews; without a limit all are returned
+export interface ReviewPage {
+  cursor?: string;
+  limit?: number; // One more is fetched to tell whether a next page exists
+}
+
+// Newest first, with _id breaking ties between reviews saved together
+export const REVIEW_ORDER: CursorSort = { createdAt: -1, _id: -1 };
+
 // Interface for Review model (static methods)
 export interface IReviewModel extends Model<IReview> {
   findByArrangement(
     arrangementId: string | Types.ObjectId,
     includeReported?: boolean,
+    page?: ReviewPage,
   ): Promise<IReview[]>;
   findByUser(userId: string | Types.ObjectId): Promise<IReview[]>;
   findUserReview(
@@ -134,15 +152,20 @@ reviewSchema.methods.getHelpfulCount = function () {
 reviewSchema.statics.findByArrangement = async function (
   arrangementId: string | Types.ObjectId,
   includeReported: boolean = false,
+  { cursor, limit }: ReviewPage = {},
 ): Promise<IReview[]> {
   const query: FilterQuery<IReview> = { arrangementId };
   if (!includeReported) {
     query.reported = false;
   }
+  if (cursor) {
+    Object.assign(query, cursorFilter(cursor, REVIEW_ORDER));
+  }
 
-  return await this.find(query)
+  const reviews = this.find(query)
     .populate("userId", "name email")
-    .sort({ "helpful.length": -1, createdAt: -1 });
+    .sort(REVIEW_ORDER);
+  return await (limit ? reviews.limit(limit + 1) : reviews);
 };
 
 reviewSchema.statics.findByUser = async function (
@@ -1,12 +1,20 @@
 import { Schema, model, Document, Types, Model } from "mongoose";
+import { Arrangement } from "./Arrangement";
+import {
+  estimateSetlistDuration,
+  type TimedArrangement,
+} from "../../utils/setlistDuration";
 
 // Interface for SetlistItem subdocument - Per PRD specifications
 export interface ISetlistItem {
   songId: Types.ObjectId; // Required reference to Song
   arrangementId?: Types.ObjectId; // Optional arrangement override
   transpose: number; // Semitones -11 to +11
+  capo?: number; // Capo fret 0 to 11 for this performance
+  singerId?: Types.ObjectId; // User leading this song, checked against their vocal range
   notes?: string; // Performance notes, max 500 chars
   order: number; // Required, min 0
+  durationOverride?: number; // Seconds, replaces the estimate for this item
 }
 
 // Interface for Setlist document - Updated per PRD specifications
@@ -23,6 +31,7 @@ export interface ISetlist extends Document {
     estimatedDuration: number; // Minutes, calculated
     lastUsedAt?: Date;
     usageCount: number; // Auto-increment
+    sharedUsageBy: Types.ObjectId[]; // Users counted through the share link
   };
   createdAt: Date;
   updatedAt: Date;
@@ -70,6 +79,17 @@ const setlistItemSchema = new Schema(
       min: -11,
       max: 11,
     },
+    capo: {
+      type: Number,
+      min: 0,
+      max: 11,
+      // Optional - capo fret for this performance
+    },
+    singerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      // Optional - singer leading this song
+    },
     notes: {
       type: String,
       maxlength: 500,
@@ -80,6 +100,12 @@ const setlistItemSchema = new Schema(
       required: true,
       min: 0,
     },
+    durationOverride: {
+      type: Number,
+      min: 0,
+      max: 3600,
+      // Optional - manual duration in seconds
+    },
   },
   { _id: false },
 );
@@ -133,6 +159,11 @@ const setlistSchema = new Schema<ISetlist>(
         default: 0,
         min: 0,
       },
+      sharedUsageBy: {
+        type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+        default: [],
+        select: false,
+      },
     },
   },
   {
@@ -157,7 +188,7 @@ setlistSchema.index(
 ); // Public sharing
 
 // Pre-save middleware
-setlistSchema.pre("save", function (this: ISetlist) {
+setlistSchema.pre("save", async function (this: ISetlist) {
   // Generate share token if setlist is public and doesn't have one
   if (this.metadata.isPublic && !this.metadata.shareToken) {
     this.metadata.shareToken = this.generateShareToken();
@@ -176,8 +207,23 @@ setlistSchema.pre("save", function (this: ISetlist) {
     song.order = index;
   });
 
-  // Auto-calculate estimated duration (4 minutes per song average)
-  this.metadata.estimatedDuration = this.songs.length * 4;
+  // Estimate duration from each arrangement's tempo, time signature and bars
+  const arrangementIds = this.songs
+    .filter((song) => song.arrangementId && song.durationOverride === undefined)
+    .map((song) => song.arrangementId);
+  const arrangements: TimedArrangement[] =
+    arrangementIds.length > 0
+      ? await Arrangement.find({ _id: { $in: arrangementIds } })
+          .select(
+            "tempo timeSignature chordData structure metadata.isMashup metadata.mashupSections",
+          )
+          .lean()
+      : [];
+  const estimate = estimateSetlistDuration(
+    this.songs,
+    new Map(arrangements.map((a) => [String(a._id), a])),
+  );
+  this.metadata.estimatedDuration = Math.min(estimate.estimatedMinutes, 500);
 });
 
 // Instance methods
@@ -249,7 +295,7 @@ setlistSchema.methods.updateSongTranspose = function (
 };
 
 setlistSchema.methods.estimateDuration = function (): Promise<number> {
-  // Estimated duration is auto-calculated in pre-save middleware
+  // Estimated duration is calculated in pre-save middleware
   return this.save().then(() => this.metadata.estimatedDuration);
 };
 
@@ -286,10 +332,15 @@ setlistSchema.statics.findByUser = function (
 };
 
 setlistSchema.statics.findByShareToken = function (shareToken: string) {
-  return this.findOne({ "metadata.shareToken": shareToken })
-    .populate("songs.songId", "title artist key tempo difficulty")
-    .populate("songs.arrangementId", "name key tempo difficulty")
-    .populate("createdBy", "name email");
+  return this.findOne({
+    "metadata.shareToken": shareToken,
+    "metadata.isPublic": true,
+  })
+    .populate({
+      path: "songs.arrangementId",
+      populate: { path: "songIds", select: "title artist" },
+    })
+    .populate("createdBy", "name");
 };
 
 setlistSchema.statics.findByTag = function (tag: string, limit = 20) {
@@ -1,4 +1,5 @@
 import { Schema, model, Document, Model, Types } from "mongoose";
+import { categorizeSong } from "../../utils/songCategories";
 
 // Interface for Song document - Updated to contain only metadata
 export interface ISong extends Document {
@@ -10,6 +11,7 @@ export interface ISong extends Document {
   ccli?: string; // CCLI number for licensing
   themes: string[]; // Max 50 chars each
   source?: string; // Max 100 chars, indexed
+  categories: string[]; // Category IDs from the mapping rules, indexed
   lyrics?: string; // Max 10,000 chars
   notes?: string; // Max 2,000 chars
   defaultArrangement?: Types.ObjectId; // Reference to default Arrangement
@@ -90,6 +92,13 @@ const songSchema = new Schema<ISong>(
       maxlength: 100,
       index: true,
     },
+    // Kept in step with the fields the category rules read on save; the
+    // re-categorize job updates every song when the rules change
+    categories: {
+      type: [String],
+      default: [],
+      index: true,
+    },
     lyrics: {
       type: String,
       maxlength: 10000,
@@ -185,6 +194,15 @@ songSchema.pre("save", async function (this: ISong, next) {
     this.slug = `${baseSlug}-${randomSuffix}`;
   }
 
+  if (
+    this.isNew ||
+    ["title", "artist", "themes", "source", "lyrics"].some((field) =>
+      this.isModified(field),
+    )
+  ) {
+    this.categories = await categorizeSong(this);
+  }
+
   next();
 });
 
@@ -0,0 +1,137 @@
+import { Schema, model, Document, Model, Types } from "mongoose";
+
+// Song fields tracked in the change log
+export const SONG_CHANGE_FIELDS = [
+  "title",
+  "artist",
+  "compositionYear",
+  "ccli",
+  "themes",
+  "source",
+  "lyrics",
+  "notes",
+] as const;
+export type SongChangeField = (typeof SONG_CHANGE_FIELDS)[number];
+
+export type SongChangeSource = "edit" | "sync" | "revert";
+
+// Interface for SongChange document - one entry per changed field
+export interface ISongChange extends Document {
+  _id: Types.ObjectId;
+  songId: Types.ObjectId; // Reference to Song
+  field: SongChangeField;
+  oldValue?: unknown; // Value before the change (undefined if unset)
+  newValue?: unknown; // Value after the change (undefined if cleared)
+  changedBy: Types.ObjectId; // Reference to User
+  source: SongChangeSource; // How the change was made
+  revertOf?: Types.ObjectId; // The change this entry reverts
+  createdAt: Date;
+}
+
+// Interface for SongChange model (static methods)
+export interface ISongChangeModel extends Model<ISongChange> {
+  findBySong(
+    songId: string | Types.ObjectId,
+    limit?: number,
+  ): Promise<ISongChange[]>;
+  findReverted(songId: string | Types.ObjectId): Promise<Types.ObjectId[]>;
+}
+
+// Schema definition
+const songChangeSchema = new Schema<ISongChange, ISongChangeModel>(
+  {
+    songId: {
+      type: Schema.Types.ObjectId,
+      ref: "Song",
+      required: true,
+      immutable: true,
+    },
+    field: {
+      type: String,
+      enum: SONG_CHANGE_FIELDS,
+      required: true,
+      immutable: true,
+    },
+    oldValue: {
+      type: Schema.Types.Mixed,
+      immutable: true,
+    },
+    newValue: {
+      type: Schema.Types.Mixed,
+      immutable: true,
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      immutable: true,
+    },
+    source: {
+      type: String,
+      enum: ["edit", "sync", "revert"],
+      required: true,
+      immutable: true,
+    },
+    revertOf: {
+      type: Schema.Types.ObjectId,
+      ref: "SongChange",
+      immutable: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+      immutable: true,
+    },
+  },
+  {
+    collection: "song_changes",
+  },
+);
+
+// Indexes for the per-song log and revert lookups
+songChangeSchema.index({ songId: 1, createdAt: -1 });
+songChangeSchema.index({ revertOf: 1 }, { sparse: true });
+
+// The change log is append-only: block edits to saved entries
+songChangeSchema.pre("save", function (next) {
+  if (!this.isNew) {
+    return next(new Error("Song changes are immutable"));
+  }
+  next();
+});
+
+songChangeSchema.pre(
+  ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne"],
+  function (next) {
+    next(new Error("Song changes are immutable"));
+  },
+);
+
+// Static methods
+songChangeSchema.statics.findBySong = async function (
+  songId: string | Types.ObjectId,
+  limit = 100,
+): Promise<ISongChange[]> {
+  return await this.find({ songId })
+    .populate("changedBy", "name")
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit);
+};
+
+songChangeSchema.statics.findReverted = async function (
+  songId: string | Types.ObjectId,
+): Promise<Types.ObjectId[]> {
+  return await this.distinct("revertOf", {
+    songId,
+    revertOf: { $exists: true },
+  });
+};
+
+// Create and export the model
+export const SongChange = model<ISongChange, ISongChangeModel>(
+  "SongChange",
+  songChangeSchema,
+);
+
+// Export schema for testing
+export { songChangeSchema };
@@ -31,11 +31,17 @@ export interface IUser extends Document {
     defaultKey?: MusicalKey;
     fontSize: number; // 12-32px range
     theme: "light" | "dark" | "stage";
+    notation: "english" | "german" | "latin"; // Chord note names
+    scrollSpeeds?: Map<string, number>; // Auto-scroll speed by arrangement ID
   };
   profile: {
     bio?: string; // Max 500 characters
     website?: string; // Max 200 characters
     location?: string; // Max 100 characters
+    vocalRange?: {
+      low: string; // e.g., "A2"
+      high: string; // e.g., "E4"
+    };
   };
   profilePrivacy: {
     isPublic: boolean; // Master privacy switch - default false for privacy by design
@@ -159,6 +165,16 @@ const userSchema = new Schema<IUser>(
         enum: ["light", "dark", "stage"],
         default: "light",
       },
+      notation: {
+        type: String,
+        enum: ["english", "german", "latin"],
+        default: "english",
+      },
+      scrollSpeeds: {
+        type: Map,
+        of: { type: Number, min: 0.25, max: 4 },
+        default: undefined,
+      },
     },
     profile: {
       bio: {
@@ -176,6 +192,22 @@ const userSchema = new Schema<IUser>(
         maxlength: 100,
         trim: true,
       },
+      vocalRange: {
+        low: {
+          type: String,
+          match: [
+            /^[A-G][#b]?\d$/,
+            "Vocal range must be in format like 'C3', 'F#4', 'Bb2'",
+          ],
+        },
+        high: {
+          type: String,
+          match: [
+            /^[A-G][#b]?\d$/,
+            "Vocal range must be in format like 'C3', 'F#4', 'Bb2'",
+          ],
+        },
+      },
     },
     profilePrivacy: {
       isPublic: {
@@ -4,7 +4,27 @@ export { User, type IUser, type MusicalKey } from "./User";
 export { Arrangement, type IArrangement } from "./Arrangement";
 export { Setlist, type ISetlist, type ISetlistItem } from "./Setlist";
 export { Verse, type IVerse, type VerseStatus } from "./Verse";
-export { Review, type IReview } from "./Review";
+export { Review, REVIEW_ORDER, type IReview, type ReviewPage } from "./Review";
+export {
+  ArrangementRevision,
+  REVISION_FIELDS,
+  type IArrangementRevision,
+  type RevisionField,
+} from "./ArrangementRevision";
+export {
+  SongChange,
+  SONG_CHANGE_FIELDS,
+  type ISongChange,
+  type SongChangeField,
+  type SongChangeSource,
+} from "./SongChange";
+export {
+  Category,
+  CATEGORY_RULE_TYPES,
+  type ICategory,
+  type ICategoryRule,
+  type CategoryRuleType,
+} from "./Category";
 
 // Re-export mongoose types for convenience
 export { Types } from "mongoose";
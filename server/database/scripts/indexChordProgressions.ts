@@ -0,0 +1,72 @@
+#!/usr/bin/env tsx
+
+import { config } from "dotenv";
+import { join } from "path";
+import { Arrangement } from "../models";
+import { database } from "../connection";
+import { indexChordProgression } from "@shared/arrangements/chordProgression";
+
+// Load environment variables
+config({ path: join(process.cwd(), ".env") });
+
+/**
+ * Migration script to index the chord progressions of existing arrangements.
+ * New and edited arrangements are indexed when saved.
+ * Run with: npx tsx server/database/scripts/indexChordProgressions.ts
+ */
+async function indexChordProgressions() {
+  try {
+    console.log("🔌 Connecting to database...");
+    await database.connect();
+    console.log("✅ Connected to database");
+
+    const arrangements = await Arrangement.find({
+      chordProgression: { $exists: false },
+    }).select("name chordData key");
+
+    console.log(
+      `📊 Found ${arrangements.length} arrangements without a progression index`,
+    );
+
+    let successCount = 0;
+    let errorCount = 0;
+
+    for (const arrangement of arrangements) {
+      try {
+        await Arrangement.updateOne(
+          { _id: arrangement._id },
+          {
+            chordProgression: indexChordProgression(
+              arrangement.chordData,
+              arrangement.key,
+            ),
+          },
+        );
+        successCount++;
+      } catch (error) {
+        errorCount++;
+        console.error(
+          `❌ Failed to index arrangement ${arrangement._id}:`,
+          error,
+        );
+      }
+    }
+
+    console.log("\n📊 Migration Summary:");
+    console.log(`✅ Indexed ${successCount} arrangements`);
+    if (errorCount > 0) {
+      console.log(`❌ Failed to index ${errorCount} arrangements`);
+    }
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  } finally {
+    console.log("🔌 Disconnecting from database...");
+    await database.disconnect();
+    console.log("✅ Disconnected from database");
+    process.exit(0);
+  }
+}
+
+// Run the migration
+indexChordProgressions().catch(console.error);
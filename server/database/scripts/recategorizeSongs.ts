@@ -0,0 +1,42 @@
+#!/usr/bin/env tsx
+
+import { config } from "dotenv";
+import { join } from "path";
+import { database } from "../connection";
+import { recategorizeSongs } from "../../utils/recategorizeSongs";
+
+// Load environment variables
+config({ path: join(process.cwd(), ".env") });
+
+/**
+ * Stores category IDs on every song using the category rules in the
+ * database, seeding the built-in categories if there are none. The server
+ * runs the same job when an admin edits the rules.
+ * Run with: npx tsx server/database/scripts/recategorizeSongs.ts
+ */
+async function runRecategorization() {
+  try {
+    console.log("🔌 Connecting to database...");
+    await database.connect();
+    console.log("✅ Connected to database");
+
+    const { processed, updated } = await recategorizeSongs((processedSoFar) =>
+      console.log(`⏳ Processed ${processedSoFar} songs`),
+    );
+
+    console.log("\n📊 Re-categorization Summary:");
+    console.log(`✅ Processed ${processed} songs`);
+    console.log(`✅ Updated categories of ${updated} songs`);
+  } catch (error) {
+    console.error("❌ Re-categorization failed:", error);
+    process.exit(1);
+  } finally {
+    console.log("🔌 Disconnecting from database...");
+    await database.disconnect();
+    console.log("✅ Disconnected from database");
+    process.exit(0);
+  }
+}
+
+// Run the job
+runRecategorization().catch(console.error);
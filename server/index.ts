@@ -3,6 +3,12 @@ import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
 import { database } from "./database/connection";
+import {
+  authenticate,
+  requireAuth,
+  requireSelf,
+  requireSession,
+} from "./middleware/auth";
 
 export async function createServer() {
   const app = express();
@@ -15,6 +21,9 @@ export async function createServer() {
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
+  // Verify Clerk session tokens and attach req.user
+  app.use("/api", authenticate);
+
   // Import API route handlers
   const songsRoutes = await import("./routes/songs");
   const setlistsRoutes = await import("./routes/setlists");
@@ -25,6 +34,13 @@ export async function createServer() {
   const versesRoutes = await import("./routes/verses");
   const reviewsRoutes = await import("./routes/reviews");
   const categoriesRoutes = await import("./routes/categories");
+  const revisionsRoutes = await import("./routes/revisions");
+  const songChangesRoutes = await import("./routes/songChanges");
+  const printRoutes = await import("./routes/print");
+  const exportRoutes = await import("./routes/export");
+  const importRoutes = await import("./routes/import");
+  const searchRoutes = await import("./routes/search");
+  const recommendationsRoutes = await import("./routes/recommendations");
 
   // Example API routes
   app.get("/api/ping", (_req, res) => {
@@ -34,20 +50,56 @@ export async function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // Search across songs, arrangements and setlists
+  app.get("/api/search", searchRoutes.search);
+  app.get("/api/search/progressions", searchRoutes.searchProgressions);
+
   // Songs API
   app.get("/api/songs", songsRoutes.getSongs);
-  app.post("/api/songs", songsRoutes.createSong);
+  app.post("/api/songs", requireAuth, songsRoutes.createSong);
+  app.post(
+    "/api/songs/import",
+    requireAuth,
+    express.text({ type: () => true, limit: "1mb" }),
+    importRoutes.importSong,
+  );
   app.get("/api/songs/search", songsRoutes.searchSongs);
   app.get("/api/songs/stats", songsRoutes.getSongsStats);
   app.get("/api/songs/slug/:slug", songsRoutes.getSongBySlug);
   app.get("/api/songs/ccli/:ccli", songsRoutes.getSongByCCLI);
   app.get("/api/songs/:id", songsRoutes.getSong);
-  app.put("/api/songs/:id", songsRoutes.updateSong);
-  app.delete("/api/songs/:id", songsRoutes.deleteSong);
-  app.post("/api/songs/:id/rate", songsRoutes.rateSong);
+  app.get("/api/songs/:id/similar", recommendationsRoutes.getSimilarSongs);
+  app.put("/api/songs/:id", requireAuth, songsRoutes.updateSong);
+  app.delete("/api/songs/:id", requireAuth, songsRoutes.deleteSong);
+  app.post("/api/songs/:id/rate", requireAuth, songsRoutes.rateSong);
+
+  // Song change log API
+  app.get("/api/songs/:id/changes", songChangesRoutes.getSongChanges);
+  app.post(
+    "/api/songs/:id/changes/:changeId/revert",
+    requireAuth,
+    songChangesRoutes.revertSongChange,
+  );
 
   // Categories API
+  app.get("/api/categories", categoriesRoutes.getCategories);
+  app.post("/api/categories", requireAuth, categoriesRoutes.createCategory);
   app.get("/api/categories/stats", categoriesRoutes.getCategoryStats);
+  app.post(
+    "/api/categories/recategorize",
+    requireAuth,
+    categoriesRoutes.recategorize,
+  );
+  app.put(
+    "/api/categories/:categoryId",
+    requireAuth,
+    categoriesRoutes.updateCategory,
+  );
+  app.delete(
+    "/api/categories/:categoryId",
+    requireAuth,
+    categoriesRoutes.deleteCategory,
+  );
   app.get(
     "/api/categories/:categoryId/songs",
     categoriesRoutes.getCategorySongs,
@@ -63,61 +115,131 @@ export async function createServer() {
     arrangementsRoutes.getArrangementBySlug,
   );
   app.get("/api/arrangements/:id", arrangementsRoutes.getArrangementById);
-  app.post("/api/arrangements", arrangementsRoutes.createArrangement);
-  app.put("/api/arrangements/:id", arrangementsRoutes.updateArrangement);
-  app.delete("/api/arrangements/:id", arrangementsRoutes.deleteArrangement);
-  app.post("/api/arrangements/:id/rate", arrangementsRoutes.rateArrangement);
+  app.post(
+    "/api/arrangements",
+    requireAuth,
+    arrangementsRoutes.createArrangement,
+  );
+  app.put(
+    "/api/arrangements/:id",
+    requireAuth,
+    arrangementsRoutes.updateArrangement,
+  );
+  app.delete(
+    "/api/arrangements/:id",
+    requireAuth,
+    arrangementsRoutes.deleteArrangement,
+  );
+  app.post(
+    "/api/arrangements/:id/rate",
+    requireAuth,
+    arrangementsRoutes.rateArrangement,
+  );
+
+  // Arrangement print and export API
+  app.get("/api/arrangements/:id/print", printRoutes.printArrangement);
+  app.get("/api/arrangements/:id/export", exportRoutes.exportArrangement);
+
+  // Arrangement revision history API
+  app.get("/api/arrangements/:id/revisions", revisionsRoutes.getRevisions);
+  app.get(
+    "/api/arrangements/:id/revisions/diff",
+    revisionsRoutes.getRevisionDiff,
+  );
+  app.get(
+    "/api/arrangements/:id/revisions/:revision",
+    revisionsRoutes.getRevision,
+  );
+  app.post(
+    "/api/arrangements/:id/revisions/:revision/restore",
+    requireAuth,
+    revisionsRoutes.restoreRevision,
+  );
 
   // Verses API
   app.get("/api/songs/:songId/verses", versesRoutes.getVersesBySong);
-  app.post("/api/songs/:songId/verses", versesRoutes.submitVerse);
-  app.post("/api/verses/:id/upvote", versesRoutes.upvoteVerse);
-  app.put("/api/verses/:id", versesRoutes.updateVerse);
-  app.delete("/api/verses/:id", versesRoutes.deleteVerse);
+  app.post("/api/songs/:songId/verses", requireAuth, versesRoutes.submitVerse);
+  app.post("/api/verses/:id/upvote", requireAuth, versesRoutes.upvoteVerse);
+  app.put("/api/verses/:id", requireAuth, versesRoutes.updateVerse);
+  app.delete("/api/verses/:id", requireAuth, versesRoutes.deleteVerse);
 
   // Reviews API
   app.get("/api/arrangements/:arrangementId/reviews", reviewsRoutes.getReviews);
   app.post(
     "/api/arrangements/:arrangementId/reviews",
+    requireAuth,
     reviewsRoutes.createOrUpdateReview,
   );
-  app.post("/api/reviews/:id/helpful", reviewsRoutes.markHelpful);
-  app.post("/api/reviews/:id/report", reviewsRoutes.reportReview);
-  app.get("/api/reviews/reported", reviewsRoutes.getReportedReviews);
-  app.put("/api/reviews/:id/clear-report", reviewsRoutes.clearReport);
-  app.delete("/api/reviews/:id", reviewsRoutes.deleteReview);
+  app.post("/api/reviews/:id/helpful", requireAuth, reviewsRoutes.markHelpful);
+  app.post("/api/reviews/:id/report", requireAuth, reviewsRoutes.reportReview);
+  app.get(
+    "/api/reviews/reported",
+    requireAuth,
+    reviewsRoutes.getReportedReviews,
+  );
+  app.put(
+    "/api/reviews/:id/clear-report",
+    requireAuth,
+    reviewsRoutes.clearReport,
+  );
+  app.delete("/api/reviews/:id", requireAuth, reviewsRoutes.deleteReview);
 
   // Setlists API
   app.get("/api/setlists", setlistsRoutes.getSetlists);
-  app.post("/api/setlists", setlistsRoutes.createSetlist);
+  app.post("/api/setlists", requireAuth, setlistsRoutes.createSetlist);
   app.get("/api/setlists/:id", setlistsRoutes.getSetlist);
-  app.put("/api/setlists/:id", setlistsRoutes.updateSetlist);
-  app.delete("/api/setlists/:id", setlistsRoutes.deleteSetlist);
+  app.put("/api/setlists/:id", requireAuth, setlistsRoutes.updateSetlist);
+  app.delete("/api/setlists/:id", requireAuth, setlistsRoutes.deleteSetlist);
   app.get("/api/setlists/share/:token", setlistsRoutes.getSetlistByToken);
-  app.post("/api/setlists/:id/songs", setlistsRoutes.addSongToSetlist);
+  app.post(
+    "/api/setlists/share/:token/usage",
+    requireAuth,
+    setlistsRoutes.recordSharedSetlistUsage,
+  );
+  app.get("/api/setlists/:id/print", printRoutes.printSetlist);
+  app.post(
+    "/api/setlists/:id/usage",
+    requireAuth,
+    setlistsRoutes.recordSetlistUsage,
+  );
+  app.post(
+    "/api/setlists/:id/songs",
+    requireAuth,
+    setlistsRoutes.addSongToSetlist,
+  );
   app.delete(
     "/api/setlists/:id/songs/:arrangementId",
+    requireAuth,
     setlistsRoutes.removeSongFromSetlist,
   );
-  app.put("/api/setlists/:id/reorder", setlistsRoutes.reorderSetlistSongs);
+  app.put(
+    "/api/setlists/:id/reorder",
+    requireAuth,
+    setlistsRoutes.reorderSetlistSongs,
+  );
 
   // Storage monitoring API
   app.get("/api/storage/stats", storageRoutes.getStorageStats);
-  app.post("/api/storage/cleanup", storageRoutes.triggerCleanup);
+  app.post("/api/storage/cleanup", requireAuth, storageRoutes.triggerCleanup);
   app.get("/api/storage/compression", storageRoutes.getCompressionStats);
 
   // Sync API
-  app.post("/api/sync/batch", syncRoutes.batchSync);
-  app.get("/api/sync/status", syncRoutes.getSyncStatus);
-  app.post("/api/sync/resolve", syncRoutes.resolveConflicts);
+  app.post("/api/sync/batch", requireAuth, syncRoutes.batchSync);
+  app.get("/api/sync/status", requireAuth, syncRoutes.getSyncStatus);
+  app.post("/api/sync/resolve", requireAuth, syncRoutes.resolveConflicts);
 
-  // User sync endpoint for development/testing
+  // User sync endpoint - links the verified Clerk session to a User
   const userSyncRoutes = await import("./routes/test-user-sync");
-  app.post("/api/users/sync", userSyncRoutes.syncUser);
+  app.post("/api/users/sync", requireSession, userSyncRoutes.syncUser);
 
   // Users Profile API
+  app.get("/api/users/singers", requireAuth, usersRoutes.getSingers);
   app.get("/api/users/:userId/profile", usersRoutes.getUserProfile);
-  app.put("/api/users/:userId/profile", usersRoutes.updateUserProfile);
+  app.put(
+    "/api/users/:userId/profile",
+    requireSelf(),
+    usersRoutes.updateUserProfile,
+  );
   app.get("/api/users/:userId/contributions", usersRoutes.getUserContributions);
   app.get("/api/users/:userId/activity", usersRoutes.getUserActivity);
 
@@ -125,25 +247,34 @@ export async function createServer() {
   app.get("/api/users/:userId/favorites", usersRoutes.getFavorites); // New endpoint with type parameter
   app.post(
     "/api/users/:userId/favorites/songs/:songId",
+    requireSelf(),
     usersRoutes.addSongFavorite,
   );
   app.delete(
     "/api/users/:userId/favorites/songs/:songId",
+    requireSelf(),
     usersRoutes.removeSongFavorite,
   );
   app.post(
     "/api/users/:userId/favorites/arrangements/:arrangementId",
+    requireSelf(),
     usersRoutes.addArrangementFavorite,
   );
   app.delete(
     "/api/users/:userId/favorites/arrangements/:arrangementId",
+    requireSelf(),
     usersRoutes.removeArrangementFavorite,
   );
 
   // Legacy favorites endpoints for backward compatibility
-  app.post("/api/users/:userId/favorites/:songId", usersRoutes.addFavorite);
+  app.post(
+    "/api/users/:userId/favorites/:songId",
+    requireSelf(),
+    usersRoutes.addFavorite,
+  );
   app.delete(
     "/api/users/:userId/favorites/:songId",
+    requireSelf(),
     usersRoutes.removeFavorite,
   );
   app.get(
@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { generateKeyPairSync, sign, type KeyObject } from "crypto";
+import { Request, Response } from "express";
+import {
+  authenticate,
+  configureAuth,
+  requireAuth,
+  requireSelf,
+  verifySessionToken,
+} from "../auth";
+import { User } from "../../database/models";
+
+// Mock the models
+vi.mock("../../database/models", () => ({
+  User: {
+    findByClerkId: vi.fn(),
+  },
+}));
+
+// Mock console to avoid test noise
+vi.stubGlobal("console", { error: vi.fn(), log: vi.fn(), warn: vi.fn() });
+
+const ISSUER = "https://clerk.example.com";
+const KID = "test-key";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+const { privateKey: otherPrivateKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+// Build a signed RS256 token with sensible default claims
+const createToken = (
+  claims: Record<string, unknown> = {},
+  key: KeyObject = privateKey,
+) => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encode({ alg: "RS256", kid: KID, typ: "JWT" });
+  const payload = encode({
+    sub: "user_clerk123",
+    iss: ISSUER,
+    iat: now,
+    exp: now + 60,
+    ...claims,
+  });
+  const signature = sign(
+    "RSA-SHA256",
+    Buffer.from(`${header}.${payload}`),
+    key,
+  ).toString("base64url");
+  return `${header}.${payload}.${signature}`;
+};
+
+const createMockReqRes = (
+  headers: Record<string, string> = {},
+  params: Record<string, string> = {},
+) => {
+  const req = { headers, params } as unknown as Request;
+  const res = {
+    json: vi.fn().mockReturnThis(),
+    status: vi.fn().mockReturnThis(),
+  } as unknown as Response;
+  const next = vi.fn();
+  return { req, res, next };
+};
+
+const mockUser = {
+  _id: { toString: () => "507f1f77bcf86cd799439011" },
+  email: "john@example.com",
+  name: "John Doe",
+  role: "USER",
+  clerkId: "user_clerk123",
+  isActive: true,
+};
+
+describe("Auth Middleware", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    configureAuth({
+      issuer: ISSUER,
+      jwks: {
+        keys: [
+          {
+            ...publicKey.export({ format: "jwk" }),
+            kid: KID,
+            alg: "RS256",
+            use: "sig",
+          },
+        ],
+      },
+    });
+  });
+
+  afterAll(() => {
+    configureAuth(null);
+  });
+
+  describe("verifySessionToken", () => {
+    it("returns claims for a valid token", async () => {
+      const claims = await verifySessionToken(createToken());
+
+      expect(claims.sub).toBe("user_clerk123");
+      expect(claims.iss).toBe(ISSUER);
+    });
+
+    it("rejects expired tokens", async () => {
+      const token = createToken({ exp: Math.floor(Date.now() / 1000) - 600 });
+
+      await expect(verifySessionToken(token)).rejects.toMatchObject({
+        code: "TOKEN_EXPIRED",
+      });
+    });
+
+    it("rejects tokens signed by another key", async () => {
+      const token = createToken({}, otherPrivateKey);
+
+      await expect(verifySessionToken(token)).rejects.toMatchObject({
+        code: "INVALID_SIGNATURE",
+      });
+    });
+
+    it("rejects tokens from an untrusted issuer", async () => {
+      const token = createToken({ iss: "https://evil.example.com" });
+
+      await expect(verifySessionToken(token)).rejects.toMatchObject({
+        code: "INVALID_ISSUER",
+      });
+    });
+
+    it("rejects unsigned tokens", async () => {
+      const header = encode({ alg: "none", kid: KID });
+      const payload = encode({ sub: "user_clerk123", iss: ISSUER });
+
+      await expect(
+        verifySessionToken(`${header}.${payload}.`),
+      ).rejects.toMatchObject({ code: "UNSUPPORTED_ALGORITHM" });
+    });
+  });
+
+  describe("authenticate", () => {
+    it("continues anonymously without a bearer token", async () => {
+      const { req, res, next } = createMockReqRes();
+
+      await authenticate(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.user).toBeUndefined();
+      expect(User.findByClerkId).not.toHaveBeenCalled();
+    });
+
+    it("attaches the matching user for a valid token", async () => {
+      (User.findByClerkId as any).mockResolvedValue(mockUser);
+      const { req, res, next } = createMockReqRes({
+        authorization: `Bearer ${createToken()}`,
+      });
+
+      await authenticate(req, res, next);
+
+      expect(User.findByClerkId).toHaveBeenCalledWith("user_clerk123");
+      expect(req.auth?.sub).toBe("user_clerk123");
+      expect(req.user).toEqual({
+        id: "507f1f77bcf86cd799439011",
+        email: "john@example.com",
+        name: "John Doe",
+        role: "USER",
+        clerkId: "user_clerk123",
+        isActive: true,
+      });
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("returns 401 for an invalid token", async () => {
+      const { req, res, next } = createMockReqRes({
+        authorization: `Bearer ${createToken({}, otherPrivateKey)}`,
+      });
+
+      await authenticate(req, res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: "INVALID_SIGNATURE",
+          message: "Token signature is invalid",
+        },
+      });
+    });
+  });
+
+  describe("requireAuth", () => {
+    it("returns 401 without an authenticated user", () => {
+      const { req, res, next } = createMockReqRes();
+
+      requireAuth(req, res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+
+    it("returns 403 for deactivated accounts", () => {
+      const { req, res, next } = createMockReqRes();
+      req.user = { id: "507f1f77bcf86cd799439011", isActive: false };
+
+      requireAuth(req, res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe("requireSelf", () => {
+    it("allows the user to act on their own account by Clerk ID", () => {
+      const { req, res, next } = createMockReqRes(
+        {},
+        { userId: "user_clerk123" },
+      );
+      req.user = { id: "507f1f77bcf86cd799439011", clerkId: "user_clerk123" };
+
+      requireSelf()(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("returns 403 for another user's account", () => {
+      const { req, res, next } = createMockReqRes(
+        {},
+        { userId: "507f1f77bcf86cd799439099" },
+      );
+      req.user = { id: "507f1f77bcf86cd799439011", clerkId: "user_clerk123" };
+
+      requireSelf()(req, res, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: "FORBIDDEN",
+          message: "You can only modify your own account",
+        },
+      });
+    });
+  });
+});
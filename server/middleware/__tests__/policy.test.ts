@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from "vitest";
+import { Response } from "express";
+import { can, getOwnerId, sendForbidden } from "../policy";
+
+const OWNER_ID = "507f1f77bcf86cd799439011";
+const OTHER_ID = "507f1f77bcf86cd799439022";
+
+const privateSong = {
+  metadata: { createdBy: OWNER_ID, isPublic: false },
+};
+
+const privateSetlist = {
+  createdBy: { _id: OWNER_ID, name: "Owner" },
+  metadata: { isPublic: false },
+};
+
+describe("Authorization Policy", () => {
+  describe("getOwnerId", () => {
+    it("reads song owners from metadata", () => {
+      expect(getOwnerId("song", privateSong)).toBe(OWNER_ID);
+    });
+
+    it("handles populated owner references", () => {
+      expect(getOwnerId("setlist", privateSetlist)).toBe(OWNER_ID);
+    });
+  });
+
+  describe("can", () => {
+    it("lets anyone view public resources", () => {
+      expect(
+        can(undefined, "view", "song", {
+          metadata: { createdBy: OWNER_ID, isPublic: true },
+        }),
+      ).toBe(true);
+    });
+
+    it("limits private resources to the owner and privileged roles", () => {
+      expect(can(undefined, "view", "song", privateSong)).toBe(false);
+      expect(can({ id: OTHER_ID }, "view", "song", privateSong)).toBe(false);
+      expect(can({ id: OWNER_ID }, "view", "song", privateSong)).toBe(true);
+      expect(
+        can({ id: OTHER_ID, role: "MODERATOR" }, "view", "song", privateSong),
+      ).toBe(true);
+    });
+
+    it("lets owners, admins and moderators change songs", () => {
+      expect(can({ id: OWNER_ID }, "update", "song", privateSong)).toBe(true);
+      expect(
+        can({ id: OTHER_ID, role: "ADMIN" }, "delete", "song", privateSong),
+      ).toBe(true);
+      expect(
+        can({ id: OTHER_ID, role: "MODERATOR" }, "update", "song", privateSong),
+      ).toBe(true);
+      expect(
+        can({ id: OTHER_ID, role: "USER" }, "update", "song", privateSong),
+      ).toBe(false);
+    });
+
+    it("keeps moderators out of other users' setlists", () => {
+      expect(
+        can(
+          { id: OTHER_ID, role: "MODERATOR" },
+          "update",
+          "setlist",
+          privateSetlist,
+        ),
+      ).toBe(false);
+      expect(
+        can(
+          { id: OTHER_ID, role: "ADMIN" },
+          "delete",
+          "setlist",
+          privateSetlist,
+        ),
+      ).toBe(true);
+    });
+
+    it("denies deactivated accounts", () => {
+      expect(
+        can({ id: OWNER_ID, isActive: false }, "update", "song", privateSong),
+      ).toBe(false);
+    });
+  });
+
+  describe("sendForbidden", () => {
+    it("sends the shared 403 shape", () => {
+      const res = {
+        status: vi.fn().mockReturnThis(),
+        json: vi.fn().mockReturnThis(),
+      } as unknown as Response;
+
+      sendForbidden(res, "delete", "arrangement");
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: "FORBIDDEN",
+          message: "You do not have permission to delete this arrangement",
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,326 @@
+import {
+  createPublicKey,
+  verify,
+  type JsonWebKey,
+  type KeyObject,
+} from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { User, type IUser } from "../database/models";
+import type { AuthUser, SessionClaims } from "../../shared/types/express.types";
+
+// JSON Web Key Set as served by Clerk's /.well-known/jwks.json
+export interface JwkSet {
+  keys: Array<JsonWebKey & { kid?: string; alg?: string; use?: string }>;
+}
+
+export interface AuthConfig {
+  jwksUrl?: string; // Remote key set, fetched and cached
+  jwks?: JwkSet; // Inline key set, used instead of jwksUrl (tests, offline setups)
+  issuer?: string; // Expected "iss" claim, e.g. https://clerk.example.com
+  authorizedParties?: string[]; // Accepted "azp" origins
+  clockSkewSeconds?: number;
+  cacheTtlMs?: number;
+}
+
+interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 5;
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const MIN_REFETCH_INTERVAL_MS = 30 * 1000; // Throttle reloads for unknown key IDs
+
+// Custom error class for token verification failures
+export class AuthError extends Error {
+  constructor(
+    public code: string,
+    message: string,
+    public status = 401,
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+let authConfig: AuthConfig | null = null;
+let signingKeys = new Map<string, KeyObject>();
+let keysLoadedAt = 0;
+
+// Build configuration from environment variables
+function configFromEnv(): AuthConfig {
+  const issuer = process.env.CLERK_ISSUER;
+  const inlineJwks = process.env.CLERK_JWKS;
+
+  return {
+    issuer,
+    jwksUrl:
+      process.env.CLERK_JWKS_URL ||
+      (issuer ? `${issuer.replace(/\/$/, "")}/.well-known/jwks.json` : ""),
+    jwks: inlineJwks ? (JSON.parse(inlineJwks) as JwkSet) : undefined,
+    authorizedParties: process.env.CLERK_AUTHORIZED_PARTIES
+      ? process.env.CLERK_AUTHORIZED_PARTIES.split(",").map((p) => p.trim())
+      : undefined,
+  };
+}
+
+function getConfig(): AuthConfig {
+  if (!authConfig) {
+    authConfig = configFromEnv();
+  }
+  return authConfig;
+}
+
+/**
+ * Overrides the token verification settings and drops cached keys.
+ * Pass null to fall back to environment configuration.
+ */
+export function configureAuth(config: AuthConfig | null): void {
+  authConfig = config;
+  signingKeys = new Map();
+  keysLoadedAt = 0;
+}
+
+async function loadSigningKeys(): Promise<void> {
+  const config = getConfig();
+  let jwks = config.jwks;
+
+  if (!jwks) {
+    if (!config.jwksUrl) {
+      throw new AuthError(
+        "AUTH_NOT_CONFIGURED",
+        "Token verification is not configured",
+        500,
+      );
+    }
+
+    const response = await fetch(config.jwksUrl);
+    if (!response.ok) {
+      throw new AuthError(
+        "JWKS_UNAVAILABLE",
+        `Failed to fetch signing keys: ${response.status}`,
+        503,
+      );
+    }
+    jwks = (await response.json()) as JwkSet;
+  }
+
+  const keys = new Map<string, KeyObject>();
+  for (const jwk of jwks.keys) {
+    if (jwk.kty !== "RSA" || (jwk.use && jwk.use !== "sig")) {
+      continue;
+    }
+    keys.set(jwk.kid || "", createPublicKey({ key: jwk, format: "jwk" }));
+  }
+
+  signingKeys = keys;
+  keysLoadedAt = Date.now();
+}
+
+async function getSigningKey(kid = ""): Promise<KeyObject> {
+  const ttl = getConfig().cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  const age = Date.now() - keysLoadedAt;
+
+  // Reload on expiry, or when an unknown key ID shows up (key rotation)
+  if (age > ttl || (!signingKeys.has(kid) && age > MIN_REFETCH_INTERVAL_MS)) {
+    await loadSigningKeys();
+  }
+
+  const key = signingKeys.get(kid);
+  if (!key) {
+    throw new AuthError("UNKNOWN_SIGNING_KEY", "Token signed by unknown key");
+  }
+  return key;
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+  } catch {
+    throw new AuthError("MALFORMED_TOKEN", "Token could not be decoded");
+  }
+}
+
+/**
+ * Verifies a Clerk session JWT (RS256) and returns its claims
+ */
+export async function verifySessionToken(
+  token: string,
+): Promise<SessionClaims> {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    throw new AuthError("MALFORMED_TOKEN", "Token must have three segments");
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = segments;
+  const header = decodeSegment<JwtHeader>(encodedHeader);
+
+  if (header.alg !== "RS256") {
+    throw new AuthError("UNSUPPORTED_ALGORITHM", "Token algorithm not allowed");
+  }
+
+  const key = await getSigningKey(header.kid);
+  const isValidSignature = verify(
+    "RSA-SHA256",
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    key,
+    Buffer.from(encodedSignature, "base64url"),
+  );
+
+  if (!isValidSignature) {
+    throw new AuthError("INVALID_SIGNATURE", "Token signature is invalid");
+  }
+
+  const claims = decodeSegment<SessionClaims>(encodedPayload);
+  const config = getConfig();
+  const now = Math.floor(Date.now() / 1000);
+  const skew = config.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS;
+
+  if (typeof claims.exp !== "number" || claims.exp < now - skew) {
+    throw new AuthError("TOKEN_EXPIRED", "Token has expired");
+  }
+  if (claims.nbf && claims.nbf > now + skew) {
+    throw new AuthError("TOKEN_NOT_ACTIVE", "Token is not yet valid");
+  }
+  if (config.issuer && claims.iss !== config.issuer) {
+    throw new AuthError("INVALID_ISSUER", "Token issuer is not trusted");
+  }
+  if (
+    config.authorizedParties?.length &&
+    claims.azp &&
+    !config.authorizedParties.includes(claims.azp)
+  ) {
+    throw new AuthError("INVALID_PARTY", "Token was issued for another origin");
+  }
+  if (!claims.sub) {
+    throw new AuthError("MALFORMED_TOKEN", "Token has no subject");
+  }
+
+  return claims;
+}
+
+// Map a User document to the request-scoped identity
+export function toAuthUser(user: IUser): AuthUser {
+  return {
+    id: user._id.toString(),
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    clerkId: user.clerkId,
+    isActive: user.isActive,
+  };
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith("Bearer ")) {
+    return null;
+  }
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+function sendAuthError(res: Response, error: AuthError) {
+  return res.status(error.status).json({
+    success: false,
+    error: {
+      code: error.code,
+      message: error.message,
+    },
+  });
+}
+
+/**
+ * Verifies the bearer token, if any, and attaches req.auth and req.user.
+ * Requests without a token continue anonymously; invalid tokens get a 401.
+ */
+export async function authenticate(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const token = getBearerToken(req);
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const claims = await verifySessionToken(token);
+    req.auth = claims;
+
+    const user = await User.findByClerkId(claims.sub);
+    if (user) {
+      req.user = toAuthUser(user);
+    }
+
+    next();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return sendAuthError(res, error);
+    }
+
+    console.error("Error authenticating request:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to authenticate request",
+      },
+    });
+  }
+}
+
+// Require a verified Clerk session, even if no User exists for it yet
+export function requireSession(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  if (!req.auth) {
+    return sendAuthError(
+      res,
+      new AuthError("UNAUTHORIZED", "User authentication required"),
+    );
+  }
+  next();
+}
+
+// Require a verified session that maps to an active User
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
+    return sendAuthError(
+      res,
+      new AuthError("UNAUTHORIZED", "User authentication required"),
+    );
+  }
+  if (req.user.isActive === false) {
+    return sendAuthError(
+      res,
+      new AuthError("ACCOUNT_INACTIVE", "User account is deactivated", 403),
+    );
+  }
+  next();
+}
+
+/**
+ * Require that the route parameter names the authenticated user,
+ * either by MongoDB ID or Clerk ID.
+ */
+export function requireSelf(param = "userId") {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const target = req.params[param];
+    if (!req.user) {
+      return sendAuthError(
+        res,
+        new AuthError("UNAUTHORIZED", "User authentication required"),
+      );
+    }
+    if (target !== req.user.id && target !== req.user.clerkId) {
+      return sendAuthError(
+        res,
+        new AuthError("FORBIDDEN", "You can only modify your own account", 403),
+      );
+    }
+    next();
+  };
+}
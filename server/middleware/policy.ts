@@ -0,0 +1,130 @@
+import { Response } from "express";
+import type { AuthUser } from "../../shared/types/express.types";
+
+export type PolicyResource = "song" | "arrangement" | "setlist";
+export type PolicyAction = "view" | "update" | "delete";
+type UserRole = "USER" | "ADMIN" | "MODERATOR";
+
+// Any reference shape Mongoose may hand back for an owner field
+type OwnerRef =
+  | { _id?: { toString(): string }; toString(): string }
+  | string
+  | null
+  | undefined;
+
+// Minimal document shape the policy needs to make a decision
+export interface PolicySubject {
+  createdBy?: OwnerRef;
+  metadata?: {
+    createdBy?: OwnerRef;
+    isPublic?: boolean;
+  };
+}
+
+/**
+ * Roles allowed to act on resources they do not own. Owners may always
+ * view, update and delete their own resources, and anyone may view a
+ * public one. Setlists are personal, so only admins can manage others'.
+ */
+const ROLE_POLICIES: Record<
+  PolicyResource,
+  Record<PolicyAction, readonly UserRole[]>
+> = {
+  song: {
+    view: ["ADMIN", "MODERATOR"],
+    update: ["ADMIN", "MODERATOR"],
+    delete: ["ADMIN", "MODERATOR"],
+  },
+  arrangement: {
+    view: ["ADMIN", "MODERATOR"],
+    update: ["ADMIN", "MODERATOR"],
+    delete: ["ADMIN", "MODERATOR"],
+  },
+  setlist: {
+    view: ["ADMIN"],
+    update: ["ADMIN"],
+    delete: ["ADMIN"],
+  },
+};
+
+function refToString(ref: OwnerRef): string | undefined {
+  if (!ref) {
+    return undefined;
+  }
+  if (typeof ref === "string") {
+    return ref;
+  }
+  // Populated references carry the ID on _id
+  return ref._id ? ref._id.toString() : ref.toString();
+}
+
+// Songs keep their owner under metadata, other resources at the top level
+export function getOwnerId(
+  resource: PolicyResource,
+  subject: PolicySubject,
+): string | undefined {
+  return refToString(
+    resource === "song" ? subject.metadata?.createdBy : subject.createdBy,
+  );
+}
+
+export function isOwner(
+  user: AuthUser | undefined,
+  resource: PolicyResource,
+  subject: PolicySubject,
+): boolean {
+  const ownerId = getOwnerId(resource, subject);
+  return !!user && !!ownerId && ownerId === user.id;
+}
+
+export function hasRole(
+  user: AuthUser | undefined,
+  roles: readonly UserRole[],
+): boolean {
+  return !!user?.role && roles.includes(user.role);
+}
+
+/**
+ * Decides whether the user may perform an action on a resource
+ */
+export function can(
+  user: AuthUser | undefined,
+  action: PolicyAction,
+  resource: PolicyResource,
+  subject: PolicySubject,
+): boolean {
+  if (action === "view" && subject.metadata?.isPublic !== false) {
+    return true;
+  }
+  if (!user || user.isActive === false) {
+    return false;
+  }
+  return (
+    isOwner(user, resource, subject) ||
+    hasRole(user, ROLE_POLICIES[resource][action])
+  );
+}
+
+export function forbiddenMessage(
+  action: PolicyAction,
+  resource: PolicyResource,
+) {
+  return action === "view"
+    ? `Access denied to private ${resource}`
+    : `You do not have permission to ${action} this ${resource}`;
+}
+
+// Send the shared 403 response for a denied policy check
+export function sendForbidden(
+  res: Response,
+  action: PolicyAction,
+  resource: PolicyResource,
+) {
+  return res.status(403).json({
+    success: false,
+    error: {
+      code: "FORBIDDEN",
+      message: forbiddenMessage(action, resource),
+    },
+  });
+}
@@ -0,0 +1,277 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response } from "express";
+import {
+  createCategory,
+  getCategorySongs,
+  getCategoryStats,
+  recategorize,
+  updateCategory,
+} from "../categories";
+import { Category } from "../../database/models/Category";
+import { Song } from "../../database/models/Song";
+import { startRecategorizeJob } from "../../utils/recategorizeSongs";
+import { invalidateCategoryRules } from "../../utils/songCategories";
+
+// Mock the models
+vi.mock("../../database/models/Category", () => ({
+  Category: {
+    countDocuments: vi.fn(),
+    insertMany: vi.fn(),
+    findActive: vi.fn(),
+    findOne: vi.fn(),
+    exists: vi.fn(),
+    create: vi.fn(),
+  },
+  CATEGORY_RULE_TYPES: [
+    "theme",
+    "source",
+    "artist",
+    "title_pattern",
+    "lyrics_pattern",
+  ],
+}));
+
+vi.mock("../../database/models/Song", () => ({
+  Song: {
+    aggregate: vi.fn(),
+    find: vi.fn(),
+    countDocuments: vi.fn(),
+  },
+}));
+
+vi.mock("../../database/connection", () => ({
+  database: { isConnectedToDatabase: () => true },
+}));
+
+vi.mock("../../utils/recategorizeSongs", () => ({
+  startRecategorizeJob: vi.fn(() => ({ state: "running", queued: false })),
+  getRecategorizeJobStatus: vi.fn(() => ({ state: "idle", queued: false })),
+}));
+
+// Mock console to avoid test noise
+vi.stubGlobal("console", { error: vi.fn(), log: vi.fn(), warn: vi.fn() });
+
+const ADMIN = { id: "507f1f77bcf86cd799439011", role: "ADMIN" };
+const USER = { id: "507f1f77bcf86cd799439013", role: "USER" };
+
+const createMockReqRes = ({
+  params = {},
+  query = {},
+  body = {},
+  user = ADMIN,
+}: any = {}) => {
+  const req = { params, query, body, user } as unknown as Request;
+  const res = {
+    json: vi.fn().mockReturnThis(),
+    status: vi.fn().mockReturnThis(),
+  } as unknown as Response;
+  return { req, res };
+};
+
+const hymns = {
+  categoryId: "classic-hymns",
+  name: "Classic Hymns",
+  description: "Traditional hymns",
+  color: "amber",
+  rules: [{ type: "theme", values: ["hymn"], weight: 9 }],
+  order: 0,
+  isActive: true,
+};
+
+const mockQuery = (docs: unknown[]) => {
+  const query: any = {
+    select: vi.fn(() => query),
+    sort: vi.fn(() => query),
+    skip: vi.fn(() => query),
+    limit: vi.fn(() => query),
+    lean: vi.fn().mockResolvedValue(docs),
+  };
+  return query;
+};
+
+describe("Categories API", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidateCategoryRules();
+    vi.mocked(Category.countDocuments).mockResolvedValue(1 as never);
+    vi.mocked(Category.findActive).mockResolvedValue([hymns] as never);
+  });
+
+  describe("getCategoryStats", () => {
+    it("counts the categories stored on songs", async () => {
+      vi.mocked(Song.aggregate).mockResolvedValue([
+        { id: "classic-hymns", name: "Classic Hymns", songCount: 3 },
+      ]);
+      const { req, res } = createMockReqRes();
+
+      await getCategoryStats(req, res);
+
+      const pipeline = vi.mocked(Song.aggregate).mock.calls[0][0] as any[];
+      expect(pipeline[0]).toEqual({
+        $match: {
+          "metadata.isPublic": true,
+          categories: { $in: ["classic-hymns"] },
+        },
+      });
+      expect(pipeline[1]).toEqual({ $unwind: "$categories" });
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ success: true }),
+      );
+    });
+
+    it("stores the built-in categories when there are none", async () => {
+      vi.mocked(Category.countDocuments).mockResolvedValue(0 as never);
+      vi.mocked(Song.aggregate).mockResolvedValue([]);
+      const { req, res } = createMockReqRes();
+
+      await getCategoryStats(req, res);
+
+      expect(Category.insertMany).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          expect.objectContaining({ categoryId: "classic-hymns" }),
+        ]),
+      );
+    });
+
+    it("reloads the categories once the cache expires", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.mocked(Song.aggregate).mockResolvedValue([]);
+      const { req, res } = createMockReqRes();
+
+      await getCategoryStats(req, res);
+      await getCategoryStats(req, res);
+      expect(Category.findActive).toHaveBeenCalledTimes(1);
+
+      vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+      await getCategoryStats(req, res);
+      expect(Category.findActive).toHaveBeenCalledTimes(2);
+      vi.useRealTimers();
+    });
+  });
+
+  describe("getCategorySongs", () => {
+    it("lists songs stored in the category", async () => {
+      vi.mocked(Song.find).mockReturnValue(mockQuery([]) as never);
+      vi.mocked(Song.countDocuments).mockResolvedValue(0 as never);
+      const { req, res } = createMockReqRes({
+        params: { categoryId: "classic-hymns" },
+      });
+
+      await getCategorySongs(req, res);
+
+      expect(Song.find).toHaveBeenCalledWith({
+        "metadata.isPublic": true,
+        categories: "classic-hymns",
+      });
+    });
+
+    it("returns 404 for a category that is not active", async () => {
+      const { req, res } = createMockReqRes({
+        params: { categoryId: "new-holy" },
+      });
+
+      await getCategorySongs(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe("updateCategory", () => {
+    const createDoc = () => {
+      const doc: any = { ...hymns, modified: new Set<string>() };
+      doc.set = vi.fn((changes: Record<string, unknown>) => {
+        Object.keys(changes).forEach((field) => doc.modified.add(field));
+        Object.assign(doc, changes);
+      });
+      doc.isModified = (field: string) => doc.modified.has(field);
+      doc.save = vi.fn().mockResolvedValue(doc);
+      return doc;
+    };
+
+    it("saves new rules and starts the re-categorize job", async () => {
+      const doc = createDoc();
+      vi.mocked(Category.findOne).mockResolvedValue(doc);
+      const rules = [{ type: "source", values: ["hymnal"], weight: 8 }];
+      const { req, res } = createMockReqRes({
+        params: { categoryId: "classic-hymns" },
+        body: { rules },
+      });
+
+      await updateCategory(req, res);
+
+      expect(doc.set).toHaveBeenCalledWith(expect.objectContaining({ rules }));
+      expect(doc.save).toHaveBeenCalled();
+      expect(startRecategorizeJob).toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            id: "classic-hymns",
+            mappingRules: rules,
+          }),
+          meta: { recategorization: { state: "running", queued: false } },
+        }),
+      );
+    });
+
+    it("does not reprocess songs when only the name changes", async () => {
+      vi.mocked(Category.findOne).mockResolvedValue(createDoc());
+      const { req, res } = createMockReqRes({
+        params: { categoryId: "classic-hymns" },
+        body: { name: "Hymns" },
+      });
+
+      await updateCategory(req, res);
+
+      expect(startRecategorizeJob).not.toHaveBeenCalled();
+    });
+
+    it("rejects rules without values", async () => {
+      const { req, res } = createMockReqRes({
+        params: { categoryId: "classic-hymns" },
+        body: { rules: [{ type: "theme", values: [], weight: 5 }] },
+      });
+
+      await updateCategory(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(Category.findOne).not.toHaveBeenCalled();
+    });
+
+    it("is limited to admins", async () => {
+      const { req, res } = createMockReqRes({
+        params: { categoryId: "classic-hymns" },
+        body: { name: "Hymns" },
+        user: USER,
+      });
+
+      await updateCategory(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe("createCategory", () => {
+    it("returns 409 when the ID is taken", async () => {
+      vi.mocked(Category.exists).mockResolvedValue({ _id: "x" } as never);
+      const { req, res } = createMockReqRes({
+        body: { categoryId: "classic-hymns", name: "Hymns", rules: [] },
+      });
+
+      await createCategory(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(Category.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("recategorize", () => {
+    it("starts the job for admins", async () => {
+      const { req, res } = createMockReqRes();
+
+      await recategorize(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(202);
+      expect(startRecategorizeJob).toHaveBeenCalled();
+    });
+  });
+});
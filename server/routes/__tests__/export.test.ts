@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response } from "express";
+import { exportArrangement } from "../export";
+import { Arrangement } from "../../database/models";
+
+// Mock the models
+vi.mock("../../database/models", () => ({
+  Arrangement: {
+    findById: vi.fn(),
+  },
+}));
+
+// Mock console to avoid test noise
+vi.stubGlobal("console", { error: vi.fn(), log: vi.fn(), warn: vi.fn() });
+
+const ARRANGEMENT_ID = "60f7b1c3e4b0c72a1a123456";
+const OWNER_ID = "507f1f77bcf86cd799439013";
+
+const createMockReqRes = (query: any = {}, params: any = {}) => {
+  const req = {
+    query,
+    params,
+    body: {},
+    user: { id: OWNER_ID },
+  } as unknown as Request;
+
+  const res = {
+    json: vi.fn().mockReturnThis(),
+    status: vi.fn().mockReturnThis(),
+    send: vi.fn().mockReturnThis(),
+    setHeader: vi.fn(),
+  } as unknown as Response;
+
+  return { req, res };
+};
+
+const createArrangement = (overrides: any = {}) => ({
+  _id: ARRANGEMENT_ID,
+  name: "Acoustic",
+  createdBy: OWNER_ID,
+  chordData: "{start_of_verse}\n[G]Amazing [C]grace\n{end_of_verse}",
+  key: "G",
+  tempo: 72,
+  timeSignature: "3/4",
+  songIds: [{ title: "Amazing Grace", artist: "John Newton" }],
+  metadata: { isPublic: true },
+  ...overrides,
+});
+
+const mockArrangementQuery = (arrangement: any) => {
+  (Arrangement.findById as any).mockReturnValue({
+    populate: vi.fn().mockReturnValue({
+      lean: vi.fn().mockResolvedValue(arrangement),
+    }),
+  });
+};
+
+const sentBody = (res: Response) => (res.send as any).mock.calls[0][0];
+
+describe("Export API Routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("exports OnSong at the requested transposition", async () => {
+    const { req, res } = createMockReqRes(
+      { format: "onsong", transpose: "2" },
+      { id: ARRANGEMENT_ID },
+    );
+    mockArrangementQuery(createArrangement());
+
+    await exportArrangement(req, res);
+
+    expect(res.setHeader).toHaveBeenCalledWith(
+      "Content-Disposition",
+      'attachment; filename="amazing-grace.onsong"',
+    );
+    const body = sentBody(res);
+    expect(body).toContain("Amazing Grace\nJohn Newton\nKey: A");
+    expect(body).toContain("Verse:\n[A]Amazing [D]grace");
+  });
+
+  it("fills ChordPro directives from the arrangement", async () => {
+    const { req, res } = createMockReqRes(
+      { format: "chordpro" },
+      { id: ARRANGEMENT_ID },
+    );
+    mockArrangementQuery(createArrangement());
+
+    await exportArrangement(req, res);
+
+    expect(res.setHeader).toHaveBeenCalledWith(
+      "Content-Type",
+      "application/x-chordpro; charset=utf-8",
+    );
+    const body = sentBody(res);
+    expect(body).toContain("{title: Amazing Grace}");
+    expect(body).toContain("{time: 3/4}");
+  });
+
+  it("returns 400 for an unknown format", async () => {
+    const { req, res } = createMockReqRes(
+      { format: "pdf" },
+      { id: ARRANGEMENT_ID },
+    );
+
+    await exportArrangement(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(Arrangement.findById).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 when the chart is empty", async () => {
+    const { req, res } = createMockReqRes(
+      { format: "text" },
+      { id: ARRANGEMENT_ID },
+    );
+    mockArrangementQuery(createArrangement({ chordData: "" }));
+
+    await exportArrangement(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it("returns 403 for another user's private arrangement", async () => {
+    const { req, res } = createMockReqRes(
+      { format: "lyrics" },
+      { id: ARRANGEMENT_ID },
+    );
+    req.user = { id: "507f1f77bcf86cd799439099" } as any;
+    mockArrangementQuery(createArrangement({ metadata: { isPublic: false } }));
+
+    await exportArrangement(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.send).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 when the arrangement is missing", async () => {
+    const { req, res } = createMockReqRes(
+      { format: "text" },
+      { id: ARRANGEMENT_ID },
+    );
+    mockArrangementQuery(null);
+
+    await exportArrangement(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
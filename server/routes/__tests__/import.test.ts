@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response } from "express";
+import { importSong } from "../import";
+import { Arrangement, Song } from "../../database/models";
+import { recordArrangementRevision } from "../../utils/arrangementRevisions";
+
+// Mock the models
+vi.mock("../../database/models", () => {
+  const MockSong = vi.fn();
+  Object.assign(MockSong, {
+    deleteOne: vi.fn(),
+  });
+
+  const MockArrangement = vi.fn();
+
+  return {
+    Song: MockSong,
+    Arrangement: MockArrangement,
+  };
+});
+
+vi.mock("../../utils/arrangementRevisions", () => ({
+  recordArrangementRevision: vi.fn(),
+}));
+
+// Mock console to avoid test noise
+vi.stubGlobal("console", { error: vi.fn(), log: vi.fn(), warn: vi.fn() });
+
+const SONG_ID = "60f7b1c3e4b0c72a1a111111";
+const ARRANGEMENT_ID = "60f7b1c3e4b0c72a1a123456";
+
+const openSong = `<song>
+  <title>How Great Thou Art</title>
+  <author>Carl Boberg</author>
+  <key>Bb</key>
+  <lyrics>[V1]
+.Bb             Eb
+ O Lord my God, when I in awesome wonder</lyrics>
+</song>`;
+
+const createMockReqRes = (body: unknown, query: any = {}) => {
+  const req = {
+    query,
+    params: {},
+    body,
+    user: { id: "507f1f77bcf86cd799439013" },
+  } as unknown as Request;
+
+  const res = {
+    json: vi.fn().mockReturnThis(),
+    status: vi.fn().mockReturnThis(),
+  } as unknown as Response;
+
+  return { req, res };
+};
+
+const mockModels = () => {
+  const song: any = {
+    _id: SONG_ID,
+    slug: "how-great-thou-art",
+    save: vi.fn().mockResolvedValue(undefined),
+  };
+  const arrangement: any = {
+    _id: ARRANGEMENT_ID,
+    slug: "how-great-thou-art-x7k2n",
+    save: vi.fn().mockResolvedValue(undefined),
+  };
+  (Song as any).mockImplementation((data: any) => Object.assign(song, data));
+  (Arrangement as any).mockImplementation((data: any) =>
+    Object.assign(arrangement, data),
+  );
+  return { song, arrangement };
+};
+
+describe("Import API Routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns a preview without saving on a dry run", async () => {
+    const { req, res } = createMockReqRes(openSong, { dryRun: "true" });
+
+    await importSong(req, res);
+
+    const { data } = (res.json as any).mock.calls[0][0];
+    expect(data.draft.format).toBe("opensong");
+    expect(data.draft.song.title).toBe("How Great Thou Art");
+    expect(data.draft.arrangement.chordData).toContain(
+      "[Bb]O Lord my God, [Eb]when I in awesome wonder",
+    );
+    expect(data.report.isValid).toBe(true);
+    expect(Song).not.toHaveBeenCalled();
+  });
+
+  it("saves the song and arrangement with preview corrections", async () => {
+    const { req, res } = createMockReqRes(openSong, {
+      title: "How Great Thou Art (Hymn)",
+      key: "C",
+    });
+    const { song, arrangement } = mockModels();
+
+    await importSong(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(song.title).toBe("How Great Thou Art (Hymn)");
+    expect(arrangement.key).toBe("C");
+    expect(arrangement.chordData).toContain("{key: C}");
+    expect(arrangement.songIds).toEqual([SONG_ID]);
+    expect(song.defaultArrangement).toBe(ARRANGEMENT_ID);
+    expect(recordArrangementRevision).toHaveBeenCalled();
+  });
+
+  it("rejects files with blocking errors", async () => {
+    const { req, res } = createMockReqRes("Lyrics with no chords or title");
+
+    await importSong(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    const { error } = (res.json as any).mock.calls[0][0];
+    expect(error.details).toContainEqual(
+      expect.objectContaining({ severity: "error", field: "key" }),
+    );
+    expect(Song).not.toHaveBeenCalled();
+  });
+
+  it("removes the song when the arrangement cannot be saved", async () => {
+    const { req, res } = createMockReqRes(openSong);
+    const { arrangement } = mockModels();
+    arrangement.save.mockRejectedValue(new Error("write failed"));
+
+    await importSong(req, res);
+
+    expect(Song.deleteOne).toHaveBeenCalledWith({ _id: SONG_ID });
+    expect(res.status).toHaveBeenCalledWith(500);
+  });
+
+  it("returns 400 for an empty or unreadable file", async () => {
+    const { req, res } = createMockReqRes("<song><title>Oops</song>");
+
+    await importSong(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+
+  it("returns 401 without a user", async () => {
+    const { req, res } = createMockReqRes(openSong);
+    req.user = undefined;
+
+    await importSong(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response } from "express";
+import { printArrangement, printSetlist } from "../print";
+import { Arrangement, Setlist } from "../../database/models";
+
+// Mock the models
+vi.mock("../../database/models", () => ({
+  Arrangement: {
+    findById: vi.fn(),
+  },
+  Setlist: {
+    findById: vi.fn(),
+  },
+}));
+
+// Mock console to avoid test noise
+vi.stubGlobal("console", { error: vi.fn(), log: vi.fn(), warn: vi.fn() });
+
+const ARRANGEMENT_ID = "60f7b1c3e4b0c72a1a123456";
+const SETLIST_ID = "60f7b1c3e4b0c72a1a654321";
+const SONG_ID = "60f7b1c3e4b0c72a1a111111";
+const OWNER_ID = "507f1f77bcf86cd799439013";
+
+const createMockReqRes = (query: any = {}, params: any = {}) => {
+  const req = {
+    query,
+    params,
+    body: {},
+    user: { id: OWNER_ID },
+  } as unknown as Request;
+
+  const res = {
+    json: vi.fn().mockReturnThis(),
+    status: vi.fn().mockReturnThis(),
+    send: vi.fn().mockReturnThis(),
+    setHeader: vi.fn(),
+  } as unknown as Response;
+
+  return { req, res };
+};
+
+const createArrangement = (overrides: any = {}) => ({
+  _id: ARRANGEMENT_ID,
+  name: "Acoustic",
+  createdBy: OWNER_ID,
+  chordData: "{title: Amazing Grace}\n[G]Amazing [C]grace",
+  key: "G",
+  tempo: 72,
+  timeSignature: "3/4",
+  songIds: [
+    { _id: SONG_ID, title: "Amazing Grace", artist: "Newton", ccli: "22025" },
+  ],
+  metadata: { isPublic: true },
+  ...overrides,
+});
+
+const mockArrangementQuery = (arrangement: any) => {
+  (Arrangement.findById as any).mockReturnValue({
+    populate: vi.fn().mockReturnValue({
+      lean: vi.fn().mockResolvedValue(arrangement),
+    }),
+  });
+};
+
+const sentHtml = (res: Response) => (res.send as any).mock.calls[0][0];
+
+describe("Print API Routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("printArrangement", () => {
+    it("returns a print document with header details", async () => {
+      const { req, res } = createMockReqRes(
+        { transpose: "2", columns: "2" },
+        { id: ARRANGEMENT_ID },
+      );
+      mockArrangementQuery(createArrangement());
+
+      await printArrangement(req, res);
+
+      expect(res.setHeader).toHaveBeenCalledWith(
+        "Content-Type",
+        "text/html; charset=utf-8",
+      );
+      expect(res.setHeader).toHaveBeenCalledWith(
+        "Content-Security-Policy",
+        "default-src 'none'; style-src 'unsafe-inline'",
+      );
+      const html = sentHtml(res);
+      expect(html).toContain("Amazing Grace");
+      expect(html).toContain("Key: A");
+      expect(html).toContain("Tempo: 72 BPM");
+      expect(html).toContain("Time: 3/4");
+      expect(html).toContain("CCLI: 22025");
+      expect(html).toContain("column-count: 2");
+    });
+
+    it("sets an attachment filename when downloading", async () => {
+      const { req, res } = createMockReqRes(
+        { download: "true" },
+        { id: ARRANGEMENT_ID },
+      );
+      mockArrangementQuery(createArrangement());
+
+      await printArrangement(req, res);
+
+      expect(res.setHeader).toHaveBeenCalledWith(
+        "Content-Disposition",
+        'attachment; filename="Amazing Grace.html"',
+      );
+    });
+
+    it("returns 403 for another user's private arrangement", async () => {
+      const { req, res } = createMockReqRes({}, { id: ARRANGEMENT_ID });
+      req.user = { id: "507f1f77bcf86cd799439099" } as any;
+      mockArrangementQuery(
+        createArrangement({ metadata: { isPublic: false } }),
+      );
+
+      await printArrangement(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.send).not.toHaveBeenCalled();
+    });
+
+    it("returns 404 when the arrangement is missing", async () => {
+      const { req, res } = createMockReqRes({}, { id: ARRANGEMENT_ID });
+      mockArrangementQuery(null);
+
+      await printArrangement(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+
+    it("returns 400 for invalid options", async () => {
+      const { req, res } = createMockReqRes(
+        { columns: "3" },
+        { id: ARRANGEMENT_ID },
+      );
+
+      await printArrangement(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe("printSetlist", () => {
+    const createSetlist = (overrides: any = {}) => ({
+      _id: SETLIST_ID,
+      name: "Sunday Morning",
+      description: "Communion",
+      createdBy: OWNER_ID,
+      songs: [
+        {
+          songId: SONG_ID,
+          arrangementId: createArrangement(),
+          transpose: -2,
+          notes: "Slow intro",
+          order: 0,
+        },
+        { songId: "60f7b1c3e4b0c72a1a222222", transpose: 0, order: 1 },
+      ],
+      metadata: { isPublic: false },
+      ...overrides,
+    });
+
+    it("returns a booklet with cover, contents and charts", async () => {
+      const { req, res } = createMockReqRes({}, { id: SETLIST_ID });
+      (Setlist.findById as any).mockReturnValue({
+        populate: vi.fn().mockResolvedValue(createSetlist()),
+      });
+
+      await printSetlist(req, res);
+
+      const html = sentHtml(res);
+      expect(html).toContain('<section class="cover">');
+      expect(html).toContain("Sunday Morning");
+      expect(html).toContain("1 song");
+      expect(html).toContain('<a href="#song-1">Amazing Grace</a>');
+      expect(html).toContain("Key: F");
+      expect(html).toContain("Slow intro");
+    });
+
+    it("returns 403 for another user's private setlist", async () => {
+      const { req, res } = createMockReqRes({}, { id: SETLIST_ID });
+      req.user = { id: "507f1f77bcf86cd799439099" } as any;
+      (Setlist.findById as any).mockReturnValue({
+        populate: vi.fn().mockResolvedValue(createSetlist()),
+      });
+
+      await printSetlist(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+  });
+});
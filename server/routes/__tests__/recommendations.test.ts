@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response } from "express";
+import { getSimilarSongs } from "../recommendations";
+import { Setlist, Song, User } from "../../database/models";
+
+// Mock the models
+vi.mock("../../database/models", () => ({
+  Song: {
+    findById: vi.fn(),
+    find: vi.fn(),
+  },
+  Setlist: {
+    aggregate: vi.fn(),
+  },
+  User: {
+    aggregate: vi.fn(),
+  },
+}));
+
+// Mock console to avoid test noise
+vi.stubGlobal("console", { error: vi.fn(), log: vi.fn(), warn: vi.fn() });
+
+const SONG_ID = "507f1f77bcf86cd799439011";
+const PARTNER_ID = "507f1f77bcf86cd799439012";
+const THEMED_ID = "507f1f77bcf86cd799439013";
+
+const createMockReqRes = ({
+  params = { id: SONG_ID },
+  query = {},
+}: any = {}) => {
+  const req = { params, query } as unknown as Request;
+  const res = {
+    json: vi.fn().mockReturnThis(),
+    status: vi.fn().mockReturnThis(),
+  } as unknown as Response;
+  return { req, res };
+};
+
+const mockQuery = (result: unknown) => {
+  const query: any = {
+    populate: vi.fn(() => query),
+    sort: vi.fn(() => query),
+    limit: vi.fn(() => query),
+    lean: vi.fn().mockResolvedValue(result),
+  };
+  return query;
+};
+
+const createSong = (id: string, overrides: Record<string, unknown> = {}) => ({
+  _id: { toString: () => id },
+  title: `Song ${id.slice(-2)}`,
+  slug: `song-${id.slice(-2)}`,
+  themes: [],
+  categories: [],
+  metadata: { isPublic: true, ratings: { average: 0, count: 0 } },
+  ...overrides,
+});
+
+describe("Recommendations API", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(Song.findById).mockReturnValue(
+      mockQuery(
+        createSong(SONG_ID, {
+          themes: ["grace"],
+          defaultArrangement: { key: "G", tempo: 72 },
+        }),
+      ) as never,
+    );
+    vi.mocked(Setlist.aggregate).mockResolvedValue([
+      { _id: { toString: () => PARTNER_ID }, count: 4 },
+    ]);
+    vi.mocked(User.aggregate).mockResolvedValue([]);
+  });
+
+  it("ranks candidates by shared setlists, themes, key and tempo", async () => {
+    vi.mocked(Song.find).mockReturnValue(
+      mockQuery([
+        createSong(THEMED_ID, {
+          themes: ["grace"],
+          defaultArrangement: { key: "A", tempo: 120 },
+        }),
+        createSong(PARTNER_ID, {
+          defaultArrangement: { key: "G", tempo: 70 },
+        }),
+      ]) as never,
+    );
+    const { req, res } = createMockReqRes();
+
+    await getSimilarSongs(req, res);
+
+    const [[filter]] = vi.mocked(Song.find).mock.calls as any[];
+    expect(filter.$or).toEqual([
+      { _id: { $in: [PARTNER_ID] } },
+      { themes: { $in: ["grace"] } },
+    ]);
+    const data = vi.mocked(res.json).mock.calls[0][0].data;
+    expect(data.map((item: any) => item.song.id)).toEqual([
+      PARTNER_ID,
+      THEMED_ID,
+    ]);
+    expect(data[0].reasons[0]).toBe("Together in 4 setlists");
+  });
+
+  it("leaves out excluded songs and the song itself", async () => {
+    vi.mocked(Song.find).mockReturnValue(mockQuery([]) as never);
+    const { req, res } = createMockReqRes({
+      query: { exclude: PARTNER_ID, limit: "3" },
+    });
+
+    await getSimilarSongs(req, res);
+
+    const [[filter]] = vi.mocked(Song.find).mock.calls as any[];
+    expect(filter._id.$nin.map(String)).toEqual([SONG_ID, PARTNER_ID]);
+    expect(res.json).toHaveBeenCalledWith({ success: true, data: [] });
+  });
+
+  it("rejects invalid excluded IDs", async () => {
+    const { req, res } = createMockReqRes({ query: { exclude: "nope" } });
+
+    await getSimilarSongs(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(Song.findById).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 when the song does not exist", async () => {
+    vi.mocked(Song.findById).mockReturnValue(mockQuery(null) as never);
+    const { req, res } = createMockReqRes();
+
+    await getSimilarSongs(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
@@ -132,6 +132,7 @@ describe("Reviews API Routes", () => {
       expect(Review.findByArrangement).toHaveBeenCalledWith(
         "507f1f77bcf86cd799439011",
         false,
+        {},
       );
       expect(Review.findUserReview).toHaveBeenCalledWith(
         "507f1f77bcf86cd799439011",
@@ -216,6 +217,7 @@ describe("Reviews API Routes", () => {
       expect(Review.findByArrangement).toHaveBeenCalledWith(
         "507f1f77bcf86cd799439011",
         true,
+        {},
       );
     });
   });
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response } from "express";
+import { getRevisions, getRevisionDiff, restoreRevision } from "../revisions";
+import { Arrangement, ArrangementRevision } from "../../database/models";
+
+// Mock the models
+vi.mock("../../database/models", () => ({
+  Arrangement: {
+    findById: vi.fn(),
+  },
+  ArrangementRevision: {
+    findByArrangement: vi.fn(),
+    findRevision: vi.fn(),
+    findLatest: vi.fn(),
+    create: vi.fn(),
+  },
+  REVISION_FIELDS: ["chordData", "key", "tempo", "structure"],
+}));
+
+// Mock console to avoid test noise
+vi.stubGlobal("console", { error: vi.fn(), log: vi.fn(), warn: vi.fn() });
+
+const ARRANGEMENT_ID = "60f7b1c3e4b0c72a1a123456";
+const OWNER_ID = "507f1f77bcf86cd799439013";
+
+const createMockReqRes = (
+  query: any = {},
+  params: any = {},
+  body: any = {},
+) => {
+  const req = {
+    query,
+    params,
+    body,
+    user: { id: OWNER_ID },
+  } as unknown as Request;
+
+  const res = {
+    json: vi.fn().mockReturnThis(),
+    status: vi.fn().mockReturnThis(),
+  } as unknown as Response;
+
+  return { req, res };
+};
+
+const createArrangement = () => ({
+  _id: ARRANGEMENT_ID,
+  createdBy: OWNER_ID,
+  chordData: "{title: Song}\n[G]Amazing grace",
+  key: "G",
+  tempo: 72,
+  structure: ["V1", "C"],
+  metadata: { isPublic: true },
+  save: vi.fn().mockResolvedValue(undefined),
+});
+
+const createRevision = (revision: number, overrides: any = {}) => ({
+  revision,
+  chordData: "{title: Song}\n[G]Amazing grace",
+  key: "G",
+  tempo: 72,
+  structure: ["V1", "C"],
+  changedFields: ["chordData"],
+  author: { _id: OWNER_ID, name: "Worship Leader" },
+  createdAt: new Date("2024-02-01T00:00:00Z"),
+  ...overrides,
+});
+
+describe("Arrangement Revisions API Routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("getRevisions", () => {
+    it("lists revisions for an arrangement", async () => {
+      const { req, res } = createMockReqRes({}, { id: ARRANGEMENT_ID });
+
+      (Arrangement.findById as any).mockResolvedValue(createArrangement());
+      (ArrangementRevision.findByArrangement as any).mockResolvedValue([
+        createRevision(2),
+        createRevision(1),
+      ]);
+
+      await getRevisions(req, res);
+
+      expect(ArrangementRevision.findByArrangement).toHaveBeenCalledWith(
+        ARRANGEMENT_ID,
+      );
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          data: [
+            expect.objectContaining({
+              revision: 2,
+              author: { _id: OWNER_ID, name: "Worship Leader" },
+            }),
+            expect.objectContaining({ revision: 1 }),
+          ],
+          meta: { total: 2 },
+        }),
+      );
+    });
+
+    it("hides revisions of private arrangements from other users", async () => {
+      const { req, res } = createMockReqRes({}, { id: ARRANGEMENT_ID });
+      req.user = { id: "507f1f77bcf86cd799439099" };
+
+      (Arrangement.findById as any).mockResolvedValue({
+        ...createArrangement(),
+        metadata: { isPublic: false },
+      });
+
+      await getRevisions(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(ArrangementRevision.findByArrangement).not.toHaveBeenCalled();
+    });
+
+    it("returns 404 for a missing arrangement", async () => {
+      const { req, res } = createMockReqRes({}, { id: ARRANGEMENT_ID });
+
+      (Arrangement.findById as any).mockResolvedValue(null);
+
+      await getRevisions(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe("getRevisionDiff", () => {
+    it("returns a line diff between two revisions", async () => {
+      const { req, res } = createMockReqRes(
+        { from: "1", to: "2" },
+        { id: ARRANGEMENT_ID },
+      );
+
+      (Arrangement.findById as any).mockResolvedValue(createArrangement());
+      (ArrangementRevision.findRevision as any).mockImplementation(
+        (_id: string, revision: number) =>
+          Promise.resolve(
+            revision === 1
+              ? createRevision(1)
+              : createRevision(2, {
+                  chordData: "{title: Song}\n[A]Amazing grace",
+                  key: "A",
+                }),
+          ),
+      );
+
+      await getRevisionDiff(req, res);
+
+      const payload = (res.json as any).mock.calls[0][0];
+      expect(payload.success).toBe(true);
+      expect(payload.data.changedFields).toEqual(["chordData", "key"]);
+      expect(payload.data.summary).toEqual({
+        added: 1,
+        removed: 1,
+        unchanged: 1,
+      });
+      expect(payload.data.lines[1]).toEqual({
+        type: "removed",
+        text: "[G]Amazing grace",
+        oldLine: 2,
+      });
+    });
+
+    it("validates revision numbers", async () => {
+      const { req, res } = createMockReqRes(
+        { from: "abc" },
+        { id: ARRANGEMENT_ID },
+      );
+
+      await getRevisionDiff(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe("restoreRevision", () => {
+    it("restores an old revision as a new revision", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: ARRANGEMENT_ID, revision: "1" },
+      );
+      const arrangement = {
+        ...createArrangement(),
+        chordData: "{title: Song}\n[A]Amazing grace",
+        key: "A",
+      };
+
+      (Arrangement.findById as any).mockResolvedValue(arrangement);
+      (ArrangementRevision.findRevision as any).mockResolvedValue(
+        createRevision(1),
+      );
+      (ArrangementRevision.findLatest as any).mockResolvedValue(
+        createRevision(2),
+      );
+      (ArrangementRevision.create as any).mockImplementation((data: any) =>
+        Promise.resolve(data),
+      );
+
+      await restoreRevision(req, res);
+
+      expect(arrangement.chordData).toBe("{title: Song}\n[G]Amazing grace");
+      expect(arrangement.key).toBe("G");
+      expect(arrangement.save).toHaveBeenCalled();
+      expect(ArrangementRevision.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          revision: 3,
+          changedFields: ["chordData", "key"],
+          restoredFrom: 1,
+        }),
+      );
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          data: expect.objectContaining({ revision: 3, restoredFrom: 1 }),
+        }),
+      );
+    });
+
+    it("returns 403 when the user cannot edit the arrangement", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: ARRANGEMENT_ID, revision: "1" },
+      );
+      req.user = { id: "507f1f77bcf86cd799439099", role: "USER" };
+      const arrangement = createArrangement();
+
+      (Arrangement.findById as any).mockResolvedValue(arrangement);
+
+      await restoreRevision(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(arrangement.save).not.toHaveBeenCalled();
+    });
+
+    it("returns 409 when nothing would change", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: ARRANGEMENT_ID, revision: "1" },
+      );
+
+      (Arrangement.findById as any).mockResolvedValue(createArrangement());
+      (ArrangementRevision.findRevision as any).mockResolvedValue(
+        createRevision(1),
+      );
+
+      await restoreRevision(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(ArrangementRevision.create).not.toHaveBeenCalled();
+    });
+  });
+});
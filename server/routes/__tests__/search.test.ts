@@ -0,0 +1,308 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response } from "express";
+import { search, searchProgressions } from "../search";
+import { Song, Arrangement, Setlist } from "../../database/models";
+
+vi.mock("../../database/models", () => ({
+  Song: { find: vi.fn() },
+  // Song titles arrive already populated in these documents
+  Arrangement: { find: vi.fn(), populate: vi.fn(async (docs) => docs) },
+  Setlist: { find: vi.fn() },
+}));
+
+vi.stubGlobal("console", { error: vi.fn(), log: vi.fn(), warn: vi.fn() });
+
+const createMockReqRes = (query: any = {}, user?: { id: string }) => {
+  const req = { query, user };
+  const res = {
+    json: vi.fn().mockReturnThis(),
+    status: vi.fn().mockReturnThis(),
+  };
+  return { req, res } as unknown as { req: Request; res: Response };
+};
+
+// find().populate().select().sort().limit().lean() resolving to `docs`,
+// or streaming them through cursor()
+const mockQuery = (docs: unknown[]) => {
+  const query: any = {
+    populate: vi.fn(() => query),
+    select: vi.fn(() => query),
+    sort: vi.fn(() => query),
+    limit: vi.fn(() => query),
+    lean: vi.fn(() => query),
+    cursor: vi.fn(() => docs),
+    then: (resolve: (value: unknown[]) => unknown) => resolve(docs),
+  };
+  return query;
+};
+
+const song = (
+  id: string,
+  title: string,
+  ratings: { average: number; count: number },
+  views: number,
+) => ({
+  _id: id,
+  slug: title.toLowerCase().replace(/ /g, "-"),
+  title,
+  artist: "John Newton",
+  themes: ["hymn"],
+  metadata: { ratings, views },
+});
+
+// Whether a song query also asks for songs by ID, as lyric matches do
+const byId = (filter: any) =>
+  filter.$or?.some((clause: object) => "_id" in clause);
+
+describe("GET /api/search", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (Song.find as any).mockReturnValue(mockQuery([]));
+    (Arrangement.find as any).mockReturnValue(mockQuery([]));
+    (Setlist.find as any).mockReturnValue(mockQuery([]));
+  });
+
+  it("finds misspelt songs and ranks them with ratings and views", async () => {
+    (Song.find as any).mockReturnValue(
+      mockQuery([
+        song("1", "Amazing Grace (My Chains)", { average: 2, count: 3 }, 10),
+        song("2", "Amazing Grace", { average: 4.9, count: 80 }, 9000),
+        song("3", "Amazing Love", { average: 5, count: 10 }, 100),
+      ]),
+    );
+    const { req, res } = createMockReqRes({ q: "amazng grace" });
+
+    await search(req, res);
+
+    const { data, meta } = (res.json as any).mock.calls[0][0];
+    expect(data.songs.map((s: any) => s.id)).toEqual(["2", "1"]);
+    expect(data.songs[0].highlights[0]).toEqual({
+      field: "title",
+      text: "Amazing Grace",
+      ranges: [
+        [0, 7],
+        [8, 13],
+      ],
+    });
+    expect(meta.total).toBe(2);
+    expect(Song.find).toHaveBeenCalledWith({
+      "metadata.isPublic": true,
+      $or: [
+        { title: /\b(ama|gra)/i },
+        { artist: /\b(ama|gra)/i },
+        { themes: /\b(ama|gra)/i },
+      ],
+    });
+  });
+
+  it("scores every candidate before keeping the best", async () => {
+    (Song.find as any).mockReturnValue(
+      mockQuery([
+        song("1", "Grace Alone", { average: 1, count: 1 }, 1),
+        song("2", "Grace", { average: 1, count: 1 }, 1),
+        song("3", "Amazing Grace", { average: 5, count: 90 }, 9000),
+      ]),
+    );
+    const { req, res } = createMockReqRes({
+      q: "amazing grace",
+      types: "songs",
+      limit: "1",
+    });
+
+    await search(req, res);
+
+    const { data } = (res.json as any).mock.calls[0][0];
+    expect(data.songs.map((s: any) => s.id)).toEqual(["3"]);
+  });
+
+  it("groups arrangements and setlists and includes the requester's own setlists", async () => {
+    (Arrangement.find as any).mockReturnValue(
+      mockQuery([
+        {
+          _id: "a1",
+          slug: "grace-acoustic",
+          name: "Grace (Acoustic)",
+          key: "G",
+          tags: [],
+          songIds: [{ title: "Amazing Grace" }],
+          metadata: { ratings: { average: 4 }, views: 50 },
+        },
+      ]),
+    );
+    (Setlist.find as any).mockReturnValue(
+      mockQuery([
+        {
+          _id: "s1",
+          name: "Sunday Grace",
+          createdBy: "user-1",
+          songs: [{}, {}],
+          tags: [],
+          metadata: { isPublic: false, usageCount: 3 },
+        },
+      ]),
+    );
+    const { req, res } = createMockReqRes({ q: "grace" }, { id: "user-1" });
+
+    await search(req, res);
+
+    const { data } = (res.json as any).mock.calls[0][0];
+    expect(data.arrangements[0]).toMatchObject({
+      id: "a1",
+      slug: "grace-acoustic",
+      songTitles: ["Amazing Grace"],
+    });
+    expect(data.setlists[0]).toMatchObject({
+      id: "s1",
+      songCount: 2,
+      isOwner: true,
+      shareToken: undefined,
+    });
+    expect((Setlist.find as any).mock.calls[0][0].$and[0]).toEqual({
+      $or: [{ "metadata.isPublic": true }, { createdBy: "user-1" }],
+    });
+  });
+
+  it("searches only the requested types", async () => {
+    const { req, res } = createMockReqRes({ q: "grace", types: "songs" });
+
+    await search(req, res);
+
+    expect(Song.find).toHaveBeenCalled();
+    // Arrangements are only read for their lyrics
+    expect(Arrangement.find).toHaveBeenCalledTimes(1);
+    expect(Arrangement.find).toHaveBeenCalledWith(
+      expect.objectContaining({ chordData: expect.any(RegExp) }),
+    );
+    expect(Setlist.find).not.toHaveBeenCalled();
+  });
+
+  it("finds songs by a phrase from their lyrics with the lines around it", async () => {
+    const hymn = {
+      ...song("1", "It Is Well", { average: 4, count: 2 }, 10),
+      lyrics:
+        "When peace like a river\nAttendeth my way\nWhen sorrows like sea billows roll",
+    };
+    (Song.find as any).mockImplementation((filter: any) =>
+      mockQuery(filter.lyrics?.test(hymn.lyrics) || byId(filter) ? [hymn] : []),
+    );
+    const { req, res } = createMockReqRes({ q: "attendeth my way" });
+
+    await search(req, res);
+
+    const { data } = (res.json as any).mock.calls[0][0];
+    expect(data.songs).toHaveLength(1);
+    expect(data.songs[0].snippet).toEqual({
+      source: "lyrics",
+      lines: [
+        { text: "When peace like a river", ranges: [] },
+        { text: "Attendeth my way", ranges: [[0, 16]] },
+        { text: "When sorrows like sea billows roll", ranges: [] },
+      ],
+    });
+  });
+
+  it("finds songs through the lyrics of their arrangements, chords stripped", async () => {
+    const cornerstone = song("2", "Cornerstone", { average: 5, count: 9 }, 500);
+    (Arrangement.find as any).mockImplementation((filter: any) =>
+      mockQuery(
+        filter.chordData
+          ? [
+              {
+                _id: "a2",
+                name: "Cornerstone (Live)",
+                songIds: ["2"],
+                chordData:
+                  "{start_of_verse}\n[C]My hope is [F]built on [C]nothing less\n{end_of_verse}",
+              },
+            ]
+          : [],
+      ),
+    );
+    (Song.find as any).mockImplementation((filter: any) =>
+      mockQuery(byId(filter) ? [cornerstone] : []),
+    );
+    const { req, res } = createMockReqRes({ q: "built on nothing" });
+
+    await search(req, res);
+
+    const { data } = (res.json as any).mock.calls[0][0];
+    expect((Song.find as any).mock.calls.at(-1)[0].$or).toContainEqual({
+      _id: { $in: ["2"] },
+    });
+    expect(data.songs[0]).toMatchObject({
+      id: "2",
+      snippet: {
+        source: "arrangement",
+        arrangementName: "Cornerstone (Live)",
+        lines: [
+          { text: "My hope is built on nothing less", ranges: [[11, 27]] },
+        ],
+      },
+    });
+  });
+
+  it("rejects a missing query", async () => {
+    const { req, res } = createMockReqRes({ q: "  " });
+
+    await search(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(Song.find).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/search/progressions", () => {
+  const chart = `{start_of_verse}
+[G]Amazing [D]grace how [Em]sweet the [C]sound
+{end_of_verse}
+{start_of_chorus}
+[Am7]My [D]chains are [G]gone, [D]I've been set [Em]free [C]
+{end_of_chorus}`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("finds a progression in any key with the sections that play it", async () => {
+    const once = {
+      _id: "a1",
+      slug: "grace-acoustic",
+      name: "Grace Acoustic",
+      key: "G",
+      chordData:
+        "{start_of_verse}\n[G]Grace [D]so [Em]sweet [C]\n{end_of_verse}",
+      songIds: [{ title: "Amazing Grace" }],
+    };
+    const twice = { ...once, _id: "a2", name: "Grace Live", chordData: chart };
+    (Arrangement.find as any).mockReturnValue(mockQuery([once, twice]));
+    const { req, res } = createMockReqRes({ q: "A E F#m D" });
+
+    await searchProgressions(req, res);
+
+    expect(Arrangement.find).toHaveBeenCalledWith({
+      "metadata.isPublic": true,
+      chordProgression: /(?:^| )1 5 6m 4(?= |$)/,
+    });
+    const { data } = (res.json as any).mock.calls[0][0];
+    expect(data.progression).toBe("I–V–vi–IV");
+    expect(data.key).toBe("A");
+    expect(data.arrangements.map((a: any) => a.id)).toEqual(["a2", "a1"]);
+    expect(data.arrangements[0].occurrences).toEqual([
+      { section: "Verse", chords: ["G", "D", "Em", "C"] },
+      { section: "Chorus", chords: ["G", "D", "Em", "C"] },
+    ]);
+    expect(data.arrangements[0].songTitles).toEqual(["Amazing Grace"]);
+  });
+
+  it("rejects a progression it cannot read", async () => {
+    const { req, res } = createMockReqRes({ q: "I V banana" });
+
+    await searchProgressions(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect((res.json as any).mock.calls[0][0].error.code).toBe(
+      "INVALID_PROGRESSION",
+    );
+    expect(Arrangement.find).not.toHaveBeenCalled();
+  });
+});
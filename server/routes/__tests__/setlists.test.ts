@@ -10,8 +10,11 @@ import {
   addSongToSetlist,
   removeSongFromSetlist,
   reorderSetlistSongs,
+  recordSetlistUsage,
+  recordSharedSetlistUsage,
 } from "../setlists";
 import { Setlist } from "../../database/models";
+import { Types } from "mongoose";
 
 // Mock the Setlist model
 vi.mock("../../database/models", () => {
@@ -22,6 +25,8 @@ vi.mock("../../database/models", () => {
     findByIdAndDelete: vi.fn(),
     countDocuments: vi.fn(),
     findByShareToken: vi.fn(),
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
   });
 
   return {
@@ -37,6 +42,14 @@ const mockConsole = {
 };
 vi.stubGlobal("console", mockConsole);
 
+// Authenticated user who owns the mock setlist
+const mockOwnerId = "507f1f77bcf86cd799439013";
+
+// Public setlists and the user's own, added unless the user is an admin
+const visibleToOwner = {
+  $and: [{ $or: [{ "metadata.isPublic": true }, { createdBy: mockOwnerId }] }],
+};
+
 // Helper to create mock request and response objects
 const createMockReqRes = (
   query: any = {},
@@ -47,6 +60,7 @@ const createMockReqRes = (
     query,
     params,
     body,
+    user: { id: mockOwnerId },
   };
 
   const res = {
@@ -62,15 +76,17 @@ const mockSetlist = {
   _id: "60f7b1c3e4b0c72a1a654321",
   name: "Sunday Morning Worship",
   description: "Songs for Sunday morning service",
-  createdBy: "user123",
+  createdBy: mockOwnerId,
   songs: [
     {
+      songId: "song1",
       arrangementId: "arr1",
       transposeBy: 0,
       notes: "Start quietly",
       order: 1,
     },
     {
+      songId: "song2",
       arrangementId: "arr2",
       transposeBy: 2,
       notes: "Full band",
@@ -129,8 +145,8 @@ describe("Setlists API Routes", () => {
 
       await getSetlists(req as Request, res as Response);
 
-      expect((Setlist as any).find).toHaveBeenCalledWith({});
-      expect(mockQuery.limit).toHaveBeenCalledWith(20);
+      expect((Setlist as any).find).toHaveBeenCalledWith(visibleToOwner);
+      expect(mockQuery.limit).toHaveBeenCalledWith(21); // One extra for the next cursor
       expect(mockQuery.skip).toHaveBeenCalledWith(0);
       expect(res.json).toHaveBeenCalledWith({
         success: true,
@@ -139,10 +155,42 @@ describe("Setlists API Routes", () => {
           total: 10,
           page: 1,
           limit: 20,
+          nextCursor: null,
         },
       });
     });
 
+    it("filters to the authenticated user's setlists", async () => {
+      const { req, res } = createMockReqRes({ mine: "true" });
+
+      const mockQuery = {
+        populate: vi.fn().mockReturnThis(),
+        sort: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockReturnThis(),
+        skip: vi.fn().mockReturnThis(),
+        lean: vi.fn().mockResolvedValue([mockSetlist]),
+      };
+
+      (Setlist as any).find.mockReturnValue(mockQuery);
+      (Setlist as any).countDocuments.mockResolvedValue(1);
+
+      await getSetlists(req as Request, res as Response);
+
+      expect((Setlist as any).find).toHaveBeenCalledWith({
+        createdBy: mockOwnerId,
+      });
+    });
+
+    it("requires authentication for the mine filter", async () => {
+      const { req, res } = createMockReqRes({ mine: "true" });
+      delete req.user;
+
+      await getSetlists(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect((Setlist as any).find).not.toHaveBeenCalled();
+    });
+
     it("applies search filter correctly", async () => {
       const { req, res } = createMockReqRes({ search: "Sunday" });
 
@@ -161,6 +209,7 @@ describe("Setlists API Routes", () => {
 
       expect((Setlist as any).find).toHaveBeenCalledWith({
         $text: { $search: "Sunday" },
+        ...visibleToOwner,
       });
       expect(mockQuery.sort).toHaveBeenCalledWith({
         score: { $meta: "textScore" },
@@ -185,6 +234,7 @@ describe("Setlists API Routes", () => {
 
       expect((Setlist as any).find).toHaveBeenCalledWith({
         createdBy: "user123",
+        ...visibleToOwner,
       });
     });
 
@@ -206,6 +256,7 @@ describe("Setlists API Routes", () => {
 
       expect((Setlist as any).find).toHaveBeenCalledWith({
         tags: { $in: ["worship", "sunday"] },
+        ...visibleToOwner,
       });
     });
 
@@ -227,9 +278,52 @@ describe("Setlists API Routes", () => {
 
       expect((Setlist as any).find).toHaveBeenCalledWith({
         "metadata.isPublic": true,
+        ...visibleToOwner,
       });
     });
 
+    it("lists only public setlists to anonymous users", async () => {
+      const { req, res } = createMockReqRes();
+      delete req.user;
+
+      const mockQuery = {
+        populate: vi.fn().mockReturnThis(),
+        sort: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockReturnThis(),
+        skip: vi.fn().mockReturnThis(),
+        lean: vi.fn().mockResolvedValue([]),
+      };
+
+      (Setlist as any).find.mockReturnValue(mockQuery);
+      (Setlist as any).countDocuments.mockResolvedValue(0);
+
+      await getSetlists(req as Request, res as Response);
+
+      expect((Setlist as any).find).toHaveBeenCalledWith({
+        $and: [{ "metadata.isPublic": true }],
+      });
+    });
+
+    it("lists every setlist to admins", async () => {
+      const { req, res } = createMockReqRes();
+      req.user = { id: mockOwnerId, role: "ADMIN" } as any;
+
+      const mockQuery = {
+        populate: vi.fn().mockReturnThis(),
+        sort: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockReturnThis(),
+        skip: vi.fn().mockReturnThis(),
+        lean: vi.fn().mockResolvedValue([]),
+      };
+
+      (Setlist as any).find.mockReturnValue(mockQuery);
+      (Setlist as any).countDocuments.mockResolvedValue(0);
+
+      await getSetlists(req as Request, res as Response);
+
+      expect((Setlist as any).find).toHaveBeenCalledWith({});
+    });
+
     it("handles validation errors", async () => {
       const { req, res } = createMockReqRes({ limit: "invalid" });
 
@@ -295,6 +389,83 @@ describe("Setlists API Routes", () => {
       expect(res.json).toHaveBeenCalledWith({
         success: true,
         data: mockSetlist,
+        meta: {
+          duration: {
+            totalSeconds: 480,
+            estimatedMinutes: 8,
+            items: [
+              expect.objectContaining({
+                songId: "song1",
+                arrangementId: "arr1",
+                source: "default",
+              }),
+              expect.objectContaining({
+                songId: "song2",
+                arrangementId: "arr2",
+                source: "default",
+              }),
+            ],
+          },
+        },
+      });
+    });
+
+    it("returns a per-song duration breakdown from populated arrangements", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a654321" },
+      );
+
+      const timedSetlist = {
+        ...mockSetlist,
+        songs: [
+          {
+            songId: "song1",
+            arrangementId: {
+              _id: "arr1",
+              tempo: 60,
+              timeSignature: "4/4",
+              structure: ["V1", "C"],
+            },
+            order: 0,
+          },
+          {
+            songId: "song2",
+            arrangementId: { _id: "arr2", tempo: 120 },
+            order: 1,
+            durationOverride: 150,
+          },
+        ],
+      };
+      (Setlist as any).findById.mockReturnValue({
+        populate: vi.fn().mockResolvedValue(timedSetlist),
+      });
+
+      await getSetlist(req as Request, res as Response);
+
+      const payload = (res.json as any).mock.calls[0][0];
+      expect(payload.meta.duration).toEqual({
+        totalSeconds: 278,
+        estimatedMinutes: 5,
+        items: [
+          {
+            songId: "song1",
+            arrangementId: "arr1",
+            order: 0,
+            seconds: 128,
+            source: "structure",
+            bars: 32,
+            tempo: 60,
+            timeSignature: "4/4",
+          },
+          {
+            songId: "song2",
+            arrangementId: "arr2",
+            order: 1,
+            seconds: 150,
+            source: "override",
+          },
+        ],
       });
     });
 
@@ -326,6 +497,7 @@ describe("Setlists API Routes", () => {
         {},
         { id: "60f7b1c3e4b0c72a1a654321" },
       );
+      req.user = { id: "507f1f77bcf86cd799439099" };
 
       (Setlist as any).findById.mockReturnValue({
         populate: vi.fn().mockResolvedValue(privateSetlist),
@@ -343,6 +515,30 @@ describe("Setlists API Routes", () => {
       });
     });
 
+    it("returns a private setlist to its owner", async () => {
+      const privateSetlist = {
+        ...mockSetlist,
+        metadata: { ...mockSetlist.metadata, isPublic: false },
+      };
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a654321" },
+      );
+
+      (Setlist as any).findById.mockReturnValue({
+        populate: vi.fn().mockResolvedValue(privateSetlist),
+      });
+
+      await getSetlist(req as Request, res as Response);
+
+      expect(res.status).not.toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: privateSetlist,
+        meta: { duration: expect.any(Object) },
+      });
+    });
+
     it("handles database errors", async () => {
       const { req, res } = createMockReqRes(
         {},
@@ -422,7 +618,6 @@ describe("Setlists API Routes", () => {
     const validSetlistData = {
       name: "New Setlist",
       description: "Test setlist",
-      createdBy: "user123",
       songs: [
         {
           songId: "60f7b1c3e4b0c72a1a123455", // Valid ObjectId string format
@@ -466,6 +661,22 @@ describe("Setlists API Routes", () => {
       });
     });
 
+    it("requires an authenticated user", async () => {
+      const { req, res } = createMockReqRes({}, {}, validSetlistData);
+      delete req.user;
+
+      await createSetlist(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "User authentication required",
+        },
+      });
+    });
+
     it("handles validation errors", async () => {
       const invalidData = { name: "" }; // Missing required fields
       const { req, res } = createMockReqRes({}, {}, invalidData);
@@ -539,6 +750,98 @@ describe("Setlists API Routes", () => {
       });
     });
 
+    it("saves the capo of each song next to its transpose", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a654321" },
+        {
+          songs: [
+            {
+              songId: "60f7b1c3e4b0c72a1a123455",
+              transpose: 2,
+              capo: 3,
+              order: 0,
+            },
+          ],
+        },
+      );
+
+      const mockSetlistInstance = { ...mockSetlist };
+      (Setlist as any).findById.mockResolvedValue(mockSetlistInstance);
+
+      await updateSetlist(req as Request, res as Response);
+
+      expect(mockSetlistInstance.songs[0]).toMatchObject({
+        transpose: 2,
+        capo: 3,
+      });
+      expect(mockSetlistInstance.save).toHaveBeenCalled();
+    });
+
+    it("saves the singer assigned to each song", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a654321" },
+        {
+          songs: [
+            {
+              songId: "60f7b1c3e4b0c72a1a123455",
+              singerId: "507f1f77bcf86cd799439012",
+              order: 0,
+            },
+          ],
+        },
+      );
+
+      const mockSetlistInstance = { ...mockSetlist };
+      (Setlist as any).findById.mockResolvedValue(mockSetlistInstance);
+
+      await updateSetlist(req as Request, res as Response);
+
+      expect(String((mockSetlistInstance.songs[0] as any).singerId)).toBe(
+        "507f1f77bcf86cd799439012",
+      );
+      expect(mockSetlistInstance.save).toHaveBeenCalled();
+    });
+
+    it("rejects a capo beyond the eleventh fret", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a654321" },
+        {
+          songs: [{ songId: "60f7b1c3e4b0c72a1a123455", capo: 12, order: 0 }],
+        },
+      );
+
+      await updateSetlist(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it("returns 403 when the user does not own the setlist", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a654321" },
+        updateData,
+      );
+      req.user = { id: "507f1f77bcf86cd799439099", role: "MODERATOR" };
+
+      const mockSetlistInstance = { ...mockSetlist, save: vi.fn() };
+      (Setlist as any).findById.mockResolvedValue(mockSetlistInstance);
+
+      await updateSetlist(req as Request, res as Response);
+
+      expect(mockSetlistInstance.save).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: "FORBIDDEN",
+          message: "You do not have permission to update this setlist",
+        },
+      });
+    });
+
     it("returns 404 for non-existent setlist", async () => {
       const { req, res } = createMockReqRes(
         {},
@@ -627,6 +930,24 @@ describe("Setlists API Routes", () => {
       });
     });
 
+    it("allows an admin to delete another user's setlist", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a654321" },
+      );
+      req.user = { id: "507f1f77bcf86cd799439099", role: "ADMIN" };
+
+      (Setlist as any).findById.mockResolvedValue(mockSetlist);
+      (Setlist as any).findByIdAndDelete.mockResolvedValue(mockSetlist);
+
+      await deleteSetlist(req as Request, res as Response);
+
+      expect((Setlist as any).findByIdAndDelete).toHaveBeenCalledWith(
+        "60f7b1c3e4b0c72a1a654321",
+      );
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
     it("returns 404 for non-existent setlist", async () => {
       const { req, res } = createMockReqRes({}, { id: "nonexistent" });
 
@@ -844,6 +1165,23 @@ describe("Setlists API Routes", () => {
       });
     });
 
+    it("returns 403 when the user does not own the setlist", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a654321" },
+        { songOrder: ["arr2", "arr1"] },
+      );
+      req.user = { id: "507f1f77bcf86cd799439099" };
+
+      const mockSetlistInstance = { ...mockSetlist, reorderSongs: vi.fn() };
+      (Setlist as any).findById.mockResolvedValue(mockSetlistInstance);
+
+      await reorderSetlistSongs(req as Request, res as Response);
+
+      expect(mockSetlistInstance.reorderSongs).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
     it("returns 400 for invalid song order", async () => {
       const { req, res } = createMockReqRes(
         {},
@@ -906,6 +1244,154 @@ describe("Setlists API Routes", () => {
     });
   });
 
+  describe("recordSetlistUsage", () => {
+    const createUsageSetlist = (isPublic = true) => {
+      const setlist = {
+        ...mockSetlist,
+        metadata: { ...mockSetlist.metadata, isPublic, usageCount: 3 },
+        incrementUsage: vi.fn(),
+      };
+      setlist.incrementUsage.mockImplementation(async () => {
+        setlist.metadata.usageCount += 1;
+        return setlist;
+      });
+      return setlist;
+    };
+
+    it("increments usage for a visible setlist", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a654321" },
+      );
+      const setlist = createUsageSetlist();
+      (Setlist as any).findById.mockResolvedValue(setlist);
+
+      await recordSetlistUsage(req as Request, res as Response);
+
+      expect(setlist.incrementUsage).toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: { usageCount: 4, lastUsedAt: undefined },
+      });
+    });
+
+    it("counts another user once for a public setlist", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a654321" },
+      );
+      req.user = { id: "507f1f77bcf86cd799439099" };
+      const setlist = createUsageSetlist();
+      (Setlist as any).findById.mockResolvedValue(setlist);
+      (Setlist as any).findOneAndUpdate.mockResolvedValue(null);
+
+      await recordSetlistUsage(req as Request, res as Response);
+
+      expect(setlist.incrementUsage).not.toHaveBeenCalled();
+      expect((Setlist as any).findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: setlist._id,
+          "metadata.sharedUsageBy": { $ne: expect.any(Types.ObjectId) },
+        },
+        expect.anything(),
+        { new: true },
+      );
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: { usageCount: 3, lastUsedAt: undefined },
+      });
+    });
+
+    it("returns 403 for another user's private setlist", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a654321" },
+      );
+      req.user = { id: "507f1f77bcf86cd799439099" };
+      const setlist = createUsageSetlist(false);
+      (Setlist as any).findById.mockResolvedValue(setlist);
+
+      await recordSetlistUsage(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(setlist.incrementUsage).not.toHaveBeenCalled();
+    });
+
+    it("returns 404 for a missing setlist", async () => {
+      const { req, res } = createMockReqRes({}, { id: "missing" });
+      (Setlist as any).findById.mockResolvedValue(null);
+
+      await recordSetlistUsage(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+
+    it("counts a signed-in user once per shared setlist", async () => {
+      const { req, res } = createMockReqRes({}, { token: "share-token" });
+      const setlist = createUsageSetlist();
+      const lastUsedAt = new Date("2024-03-01T12:00:00Z");
+      (Setlist as any).findOne.mockResolvedValue(setlist);
+      (Setlist as any).findOneAndUpdate.mockResolvedValue({
+        metadata: { usageCount: 4, lastUsedAt },
+      });
+
+      await recordSharedSetlistUsage(req as Request, res as Response);
+
+      expect((Setlist as any).findOne).toHaveBeenCalledWith({
+        "metadata.shareToken": "share-token",
+        "metadata.isPublic": true,
+      });
+      expect((Setlist as any).findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: setlist._id,
+          "metadata.sharedUsageBy": { $ne: expect.any(Types.ObjectId) },
+        },
+        expect.objectContaining({
+          $inc: { "metadata.usageCount": 1 },
+        }),
+        { new: true },
+      );
+      expect(setlist.incrementUsage).not.toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: { usageCount: 4, lastUsedAt },
+      });
+    });
+
+    it("does not count a repeat from the same user", async () => {
+      const { req, res } = createMockReqRes({}, { token: "share-token" });
+      const setlist = createUsageSetlist();
+      (Setlist as any).findOne.mockResolvedValue(setlist);
+      (Setlist as any).findOneAndUpdate.mockResolvedValue(null);
+
+      await recordSharedSetlistUsage(req as Request, res as Response);
+
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: { usageCount: 3, lastUsedAt: undefined },
+      });
+    });
+
+    it("requires a signed-in user for share token usage", async () => {
+      const { req, res } = createMockReqRes({}, { token: "share-token" });
+      req.user = undefined;
+
+      await recordSharedSetlistUsage(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect((Setlist as any).findOne).not.toHaveBeenCalled();
+    });
+
+    it("returns 404 for an invalid share token", async () => {
+      const { req, res } = createMockReqRes({}, { token: "bad-token" });
+      (Setlist as any).findOne.mockResolvedValue(null);
+
+      await recordSharedSetlistUsage(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(404);
+    });
+  });
+
   describe("Edge Cases and Error Handling", () => {
     it("handles malformed ObjectId in getSetlist", async () => {
       const { req, res } = createMockReqRes({}, { id: "invalid-id" });
@@ -951,8 +1437,9 @@ describe("Setlists API Routes", () => {
         createdBy: "user123",
         tags: { $in: ["sunday", "evening"] },
         "metadata.isPublic": true,
+        ...visibleToOwner,
       });
-      expect(mockQuery.limit).toHaveBeenCalledWith(10);
+      expect(mockQuery.limit).toHaveBeenCalledWith(11);
       expect(mockQuery.skip).toHaveBeenCalledWith(5);
     });
 
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response } from "express";
+import { getSongChanges, revertSongChange } from "../songChanges";
+import { Song, SongChange } from "../../database/models";
+
+// Mock the models
+vi.mock("../../database/models", () => ({
+  Song: {
+    findById: vi.fn(),
+  },
+  SongChange: {
+    findBySong: vi.fn(),
+    findReverted: vi.fn(),
+    findOne: vi.fn(),
+    exists: vi.fn(),
+    insertMany: vi.fn(),
+  },
+  SONG_CHANGE_FIELDS: [
+    "title",
+    "artist",
+    "compositionYear",
+    "ccli",
+    "themes",
+    "source",
+    "lyrics",
+    "notes",
+  ],
+}));
+
+// Mock console to avoid test noise
+vi.stubGlobal("console", { error: vi.fn(), log: vi.fn(), warn: vi.fn() });
+
+const SONG_ID = "60f7b1c3e4b0c72a1a123456";
+const CHANGE_ID = "60f7b1c3e4b0c72a1a123999";
+const OWNER_ID = "507f1f77bcf86cd799439013";
+const MODERATOR_ID = "507f1f77bcf86cd799439055";
+
+const createMockReqRes = (params: any = {}, user: any = { id: OWNER_ID }) => {
+  const req = {
+    query: {},
+    params,
+    body: {},
+    user,
+  } as unknown as Request;
+
+  const res = {
+    json: vi.fn().mockReturnThis(),
+    status: vi.fn().mockReturnThis(),
+  } as unknown as Response;
+
+  return { req, res };
+};
+
+const createSong = (overrides: any = {}) => {
+  const song: any = {
+    _id: SONG_ID,
+    title: "Amazing Grace (My Chains Are Gone)",
+    artist: "Chris Tomlin",
+    themes: ["grace"],
+    metadata: { createdBy: OWNER_ID, isPublic: true },
+    save: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+  song.set = vi.fn((field: string, value: unknown) => {
+    song[field] = value;
+  });
+  return song;
+};
+
+const createChange = (overrides: any = {}) => ({
+  _id: CHANGE_ID,
+  songId: SONG_ID,
+  field: "title",
+  oldValue: "Amazing Grace",
+  newValue: "Amazing Grace (My Chains Are Gone)",
+  changedBy: { _id: OWNER_ID, name: "Worship Leader" },
+  source: "edit",
+  createdAt: new Date("2024-02-01T00:00:00Z"),
+  ...overrides,
+});
+
+describe("Song Changes API Routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("getSongChanges", () => {
+    it("lists changes and flags reverted ones", async () => {
+      const { req, res } = createMockReqRes({ id: SONG_ID });
+
+      (Song.findById as any).mockResolvedValue(createSong());
+      (SongChange.findBySong as any).mockResolvedValue([createChange()]);
+      (SongChange.findReverted as any).mockResolvedValue([CHANGE_ID]);
+
+      await getSongChanges(req, res);
+
+      expect(SongChange.findBySong).toHaveBeenCalledWith(SONG_ID, 100);
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: [
+          expect.objectContaining({
+            id: CHANGE_ID,
+            field: "title",
+            oldValue: "Amazing Grace",
+            reverted: true,
+            changedBy: { _id: OWNER_ID, name: "Worship Leader" },
+          }),
+        ],
+        meta: { total: 1, canRevert: false },
+      });
+    });
+
+    it("hides the log of private songs from other users", async () => {
+      const { req, res } = createMockReqRes(
+        { id: SONG_ID },
+        { id: "507f1f77bcf86cd799439099" },
+      );
+
+      (Song.findById as any).mockResolvedValue(
+        createSong({ metadata: { createdBy: OWNER_ID, isPublic: false } }),
+      );
+
+      await getSongChanges(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(SongChange.findBySong).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("revertSongChange", () => {
+    const params = { id: SONG_ID, changeId: CHANGE_ID };
+
+    it("reverts a single field and records the revert", async () => {
+      const { req, res } = createMockReqRes(params, {
+        id: MODERATOR_ID,
+        role: "MODERATOR",
+      });
+      const song = createSong();
+
+      (Song.findById as any).mockResolvedValue(song);
+      (SongChange.findOne as any).mockResolvedValue(createChange());
+      (SongChange.exists as any).mockResolvedValue(null);
+      (SongChange.insertMany as any).mockImplementation((docs: any[]) =>
+        Promise.resolve(docs.map((doc) => ({ ...doc, _id: "revert1" }))),
+      );
+
+      await revertSongChange(req, res);
+
+      expect(song.title).toBe("Amazing Grace");
+      // Later edits to other fields are left alone
+      expect(song.artist).toBe("Chris Tomlin");
+      expect(song.save).toHaveBeenCalled();
+      expect(SongChange.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          field: "title",
+          oldValue: "Amazing Grace (My Chains Are Gone)",
+          newValue: "Amazing Grace",
+          source: "revert",
+          revertOf: CHANGE_ID,
+        }),
+      ]);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          data: expect.objectContaining({ source: "revert" }),
+        }),
+      );
+    });
+
+    it("only allows moderators and admins to revert", async () => {
+      const { req, res } = createMockReqRes(params);
+
+      await revertSongChange(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(Song.findById).not.toHaveBeenCalled();
+    });
+
+    it("returns 409 when the field changed again since", async () => {
+      const { req, res } = createMockReqRes(params, {
+        id: MODERATOR_ID,
+        role: "ADMIN",
+      });
+      const song = createSong({ title: "Amazing Grace (Live)" });
+
+      (Song.findById as any).mockResolvedValue(song);
+      (SongChange.findOne as any).mockResolvedValue(createChange());
+      (SongChange.exists as any).mockResolvedValue(null);
+
+      await revertSongChange(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(song.save).not.toHaveBeenCalled();
+    });
+
+    it("returns 409 when the change was already reverted", async () => {
+      const { req, res } = createMockReqRes(params, {
+        id: MODERATOR_ID,
+        role: "MODERATOR",
+      });
+
+      (Song.findById as any).mockResolvedValue(createSong());
+      (SongChange.findOne as any).mockResolvedValue(createChange());
+      (SongChange.exists as any).mockResolvedValue({ _id: "revert1" });
+
+      await revertSongChange(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          error: expect.objectContaining({ code: "ALREADY_REVERTED" }),
+        }),
+      );
+    });
+  });
+});
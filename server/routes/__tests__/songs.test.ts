@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { Request, Response } from "express";
+import { Types } from "mongoose";
 import {
   getSongs,
   getSong,
@@ -9,13 +10,14 @@ import {
   rateSong,
   searchSongs,
 } from "../songs";
-import { Song } from "../../database/models";
+import { Song, SongChange } from "../../database/models";
 
 // Mock the Song model
 vi.mock("../../database/models", () => {
   const MockSong = vi.fn();
   Object.assign(MockSong, {
     find: vi.fn(),
+    aggregate: vi.fn(),
     findById: vi.fn(),
     findByIdAndDelete: vi.fn(),
     countDocuments: vi.fn(),
@@ -24,6 +26,19 @@ vi.mock("../../database/models", () => {
 
   return {
     Song: MockSong,
+    SongChange: {
+      insertMany: vi.fn().mockResolvedValue([]),
+    },
+    SONG_CHANGE_FIELDS: [
+      "title",
+      "artist",
+      "compositionYear",
+      "ccli",
+      "themes",
+      "source",
+      "lyrics",
+      "notes",
+    ],
   };
 });
 
@@ -35,6 +50,9 @@ const mockConsole = {
 };
 vi.stubGlobal("console", mockConsole);
 
+// Authenticated user who owns the mock song
+const mockOwnerId = "507f1f77bcf86cd799439013";
+
 // Helper to create mock request and response objects
 const createMockReqRes = (
   query: any = {},
@@ -45,6 +63,7 @@ const createMockReqRes = (
     query,
     params,
     body,
+    user: { id: mockOwnerId },
   };
 
   const res = {
@@ -69,7 +88,7 @@ const mockSong = {
   source: "traditional",
   lyrics: "Amazing grace, how sweet the sound...",
   metadata: {
-    createdBy: "user123",
+    createdBy: mockOwnerId,
     isPublic: true,
     ratings: {
       average: 4.5,
@@ -107,144 +126,186 @@ describe("Songs API Routes", () => {
   });
 
   describe("getSongs", () => {
-    it("returns songs with default pagination", async () => {
+    const facets = {
+      theme: [{ _id: "grace", count: 2 }],
+      key: [
+        { _id: "G", count: 1 },
+        { _id: "A", count: 1 },
+      ],
+      difficulty: [],
+      tempo: [{ _id: "medium", count: 2 }],
+      timeSignature: [{ _id: "4/4", count: 2 }],
+      source: [],
+      decade: [{ _id: "1770", count: 1 }],
+      category: [{ _id: "classic-hymns", count: 1 }],
+    };
+
+    // The page, then the single document the facets aggregation returns
+    const mockCatalog = (songs: unknown[], total: number) =>
+      (Song as any).aggregate
+        .mockResolvedValueOnce(songs)
+        .mockResolvedValueOnce([
+          { total: total ? [{ count: total }] : [], ...facets },
+        ]);
+
+    const pipeline = () => (Song as any).aggregate.mock.calls[0][0];
+    const stageIndex = (stage: string) =>
+      pipeline().findIndex((step: object) => stage in step);
+    const catalogFacet = () =>
+      (Song as any).aggregate.mock.calls[1][0].at(-1).$facet;
+
+    // Signed-in users see public songs and their own private ones
+    const ownOrPublic = {
+      $or: [
+        { "metadata.isPublic": true },
+        { "metadata.createdBy": new Types.ObjectId(mockOwnerId) },
+      ],
+    };
+
+    it("returns songs with default pagination and facet counts", async () => {
       const { req, res } = createMockReqRes();
+      mockCatalog(mockSongs, 25);
 
-      // Mock mongoose chain methods
-      const mockQuery = {
-        sort: vi.fn().mockReturnThis(),
-        limit: vi.fn().mockReturnThis(),
-        skip: vi.fn().mockReturnThis(),
-        lean: vi.fn().mockResolvedValue(mockSongs),
-      };
+      await getSongs(req as Request, res as Response);
 
-      (Song as any).find.mockReturnValue(mockQuery);
-      (Song as any).countDocuments.mockResolvedValue(25);
+      expect(pipeline()[0]).toEqual({ $match: { $and: [ownOrPublic] } });
+      expect(pipeline().slice(1, 4)).toEqual([
+        { $sort: { createdAt: -1, _id: 1 } },
+        { $skip: 0 },
+        { $limit: 21 }, // One extra for the next cursor
+      ]);
+      // Only the page's songs have their arrangements joined in
+      expect(stageIndex("$lookup")).toBeGreaterThan(stageIndex("$limit"));
+      const { data, meta } = (res.json as any).mock.calls[0][0];
+      expect(data).toHaveLength(2);
+      expect(meta).toMatchObject({ total: 25, page: 1, limit: 20 });
+      expect(meta.facets.key).toEqual([
+        { value: "G", count: 1 },
+        { value: "A", count: 1 },
+      ]);
+      expect(meta.facets.decade).toEqual([{ value: "1770", count: 1 }]);
+      expect(meta.facets.source).toEqual([]);
+    });
+
+    it("lists only public songs to anonymous visitors", async () => {
+      const { req, res } = createMockReqRes({ isPublic: "false" });
+      delete req.user;
+      mockCatalog(mockSongs, 2);
 
       await getSongs(req as Request, res as Response);
 
-      expect((Song as any).find).toHaveBeenCalledWith({
-        "metadata.isPublic": true,
-      });
-      expect(mockQuery.limit).toHaveBeenCalledWith(20);
-      expect(mockQuery.skip).toHaveBeenCalledWith(0);
-      expect(res.json).toHaveBeenCalledWith({
-        success: true,
-        data: mockSongs,
-        meta: {
-          total: 25,
-          page: 1,
-          limit: 20,
-          compressed: true,
-          cacheHit: false,
-        },
+      expect(pipeline()[0]).toEqual({
+        $match: { "metadata.isPublic": true },
       });
     });
 
-    it("applies search filter correctly", async () => {
-      const { req, res } = createMockReqRes({ search: "Amazing Grace" });
+    it("lists every song to moderators", async () => {
+      const { req, res } = createMockReqRes();
+      req.user = { id: mockOwnerId, role: "MODERATOR" } as Request["user"];
+      mockCatalog(mockSongs, 2);
 
-      const mockQuery = {
-        sort: vi.fn().mockReturnThis(),
-        limit: vi.fn().mockReturnThis(),
-        skip: vi.fn().mockReturnThis(),
-        lean: vi.fn().mockResolvedValue([mockSong]),
-      };
+      await getSongs(req as Request, res as Response);
 
-      (Song as any).find.mockReturnValue(mockQuery);
-      (Song as any).countDocuments.mockResolvedValue(1);
+      expect(pipeline()[0]).toEqual({ $match: {} });
+    });
+
+    it("applies search filter correctly", async () => {
+      const { req, res } = createMockReqRes({ search: "Amazing Grace" });
+      mockCatalog([mockSong], 1);
 
       await getSongs(req as Request, res as Response);
 
-      expect((Song as any).find).toHaveBeenCalledWith({
-        "metadata.isPublic": true,
-        $text: { $search: "Amazing Grace" },
+      expect(pipeline()[0]).toEqual({
+        $match: {
+          $and: [ownOrPublic],
+          $text: { $search: "Amazing Grace" },
+        },
       });
-      expect(mockQuery.sort).toHaveBeenCalledWith({
-        score: { $meta: "textScore" },
+      expect(pipeline()).toContainEqual({
+        $sort: { searchScore: -1, _id: 1 },
       });
     });
 
-    it("applies key filter correctly", async () => {
+    it("applies key filter to the songs but not to the key counts", async () => {
       const { req, res } = createMockReqRes({ key: "G" });
-
-      const mockQuery = {
-        sort: vi.fn().mockReturnThis(),
-        limit: vi.fn().mockReturnThis(),
-        skip: vi.fn().mockReturnThis(),
-        lean: vi.fn().mockResolvedValue([mockSong]),
-      };
-
-      (Song as any).find.mockReturnValue(mockQuery);
-      (Song as any).countDocuments.mockResolvedValue(1);
+      mockCatalog([mockSong], 1);
 
       await getSongs(req as Request, res as Response);
 
-      expect((Song as any).find).toHaveBeenCalledWith({
-        "metadata.isPublic": true,
-        key: "G",
+      expect(pipeline()).toContainEqual({
+        $match: { "facetValues.key": "G" },
+      });
+      // Arrangement values are matched once they are joined in
+      expect(stageIndex("$lookup")).toBeLessThan(stageIndex("$sort"));
+      expect(catalogFacet().total[0]).toEqual({
+        $match: { "facetValues.key": "G" },
+      });
+      expect(catalogFacet().key[0]).toEqual({ $match: {} });
+      expect(catalogFacet().theme[0]).toEqual({
+        $match: { "facetValues.key": "G" },
       });
     });
 
     it("applies difficulty filter correctly", async () => {
-      const { req, res } = createMockReqRes({ difficulty: "beginner" });
-
-      const mockQuery = {
-        sort: vi.fn().mockReturnThis(),
-        limit: vi.fn().mockReturnThis(),
-        skip: vi.fn().mockReturnThis(),
-        lean: vi.fn().mockResolvedValue([mockSong]),
-      };
-
-      (Song as any).find.mockReturnValue(mockQuery);
-      (Song as any).countDocuments.mockResolvedValue(1);
+      const { req, res } = createMockReqRes({
+        difficulty: "beginner",
+        tempo: "slow",
+      });
+      mockCatalog([mockSong], 1);
 
       await getSongs(req as Request, res as Response);
 
-      expect((Song as any).find).toHaveBeenCalledWith({
-        "metadata.isPublic": true,
-        difficulty: "beginner",
+      expect(pipeline()).toContainEqual({
+        $match: {
+          "facetValues.difficulty": "beginner",
+          "facetValues.tempo": "slow",
+        },
       });
     });
 
-    it("applies themes filter correctly", async () => {
-      const { req, res } = createMockReqRes({ themes: "grace,salvation" });
-
-      const mockQuery = {
-        sort: vi.fn().mockReturnThis(),
-        limit: vi.fn().mockReturnThis(),
-        skip: vi.fn().mockReturnThis(),
-        lean: vi.fn().mockResolvedValue([mockSong]),
-      };
-
-      (Song as any).find.mockReturnValue(mockQuery);
-      (Song as any).countDocuments.mockResolvedValue(1);
+    it("applies theme, decade and category filters correctly", async () => {
+      const { req, res } = createMockReqRes({
+        theme: "grace",
+        decade: "1770",
+        category: "classic-hymns",
+      });
+      mockCatalog([mockSong], 1);
 
       await getSongs(req as Request, res as Response);
 
-      expect((Song as any).find).toHaveBeenCalledWith({
-        "metadata.isPublic": true,
-        themes: { $in: ["grace", "salvation"] },
+      // Song fields are matched before anything is joined in
+      expect(pipeline()[0]).toEqual({
+        $match: {
+          $and: [ownOrPublic],
+          themes: "grace",
+          categories: "classic-hymns",
+          compositionYear: { $gte: 1770, $lt: 1780 },
+        },
       });
+      expect(stageIndex("$lookup")).toBeGreaterThan(stageIndex("$limit"));
+      expect(catalogFacet().category.slice(0, 2)).toEqual([
+        { $match: { themes: "grace", "facetValues.decade": "1770" } },
+        { $unwind: "$categories" },
+      ]);
     });
 
     it("handles pagination correctly", async () => {
-      const { req, res } = createMockReqRes({ limit: "10", offset: "20" });
-
-      const mockQuery = {
-        sort: vi.fn().mockReturnThis(),
-        limit: vi.fn().mockReturnThis(),
-        skip: vi.fn().mockReturnThis(),
-        lean: vi.fn().mockResolvedValue(mockSongs),
-      };
-
-      (Song as any).find.mockReturnValue(mockQuery);
-      (Song as any).countDocuments.mockResolvedValue(25);
+      const { req, res } = createMockReqRes({
+        limit: "10",
+        offset: "20",
+        sort: "title",
+      });
+      mockCatalog(mockSongs, 25);
 
       await getSongs(req as Request, res as Response);
 
-      expect(mockQuery.limit).toHaveBeenCalledWith(10);
-      expect(mockQuery.skip).toHaveBeenCalledWith(20);
+      expect(pipeline()).toEqual(
+        expect.arrayContaining([
+          { $sort: { title: 1, _id: 1 } },
+          { $skip: 20 },
+          { $limit: 11 },
+        ]),
+      );
       expect(res.json).toHaveBeenCalledWith(
         expect.objectContaining({
           meta: expect.objectContaining({
@@ -255,6 +316,67 @@ describe("Songs API Routes", () => {
       );
     });
 
+    it("gives a cursor for the next page and resumes from it", async () => {
+      const first = createMockReqRes({ limit: "1", sort: "title" });
+      mockCatalog(mockSongs, 25);
+
+      await getSongs(first.req as Request, first.res as Response);
+
+      const { data, meta } = (first.res.json as any).mock.calls[0][0];
+      expect(data).toHaveLength(1);
+      expect(meta.nextCursor).toEqual(expect.any(String));
+
+      vi.clearAllMocks();
+      const next = createMockReqRes({
+        limit: "1",
+        sort: "title",
+        cursor: meta.nextCursor,
+      });
+      (Song as any).aggregate.mockResolvedValueOnce([]);
+
+      await getSongs(next.req as Request, next.res as Response);
+
+      // The facets and total come with the first page only
+      expect((Song as any).aggregate).toHaveBeenCalledTimes(1);
+
+      expect(pipeline()).toEqual(
+        expect.arrayContaining([
+          {
+            $match: {
+              $or: [
+                { title: { $gt: "Amazing Grace" } },
+                { title: "Amazing Grace", _id: { $gt: mockSong._id } },
+              ],
+            },
+          },
+          { $skip: 0 },
+        ]),
+      );
+      const nextMeta = (next.res.json as any).mock.calls[0][0].meta;
+      expect(nextMeta.nextCursor).toBe(null);
+      expect(nextMeta.total).toBeUndefined();
+      expect(nextMeta.facets).toBeUndefined();
+    });
+
+    it("rejects a cursor made for another sort", async () => {
+      const { req, res } = createMockReqRes({ limit: "1", sort: "title" });
+      mockCatalog(mockSongs, 25);
+      await getSongs(req as Request, res as Response);
+      const { nextCursor } = (res.json as any).mock.calls[0][0].meta;
+
+      vi.clearAllMocks();
+      const next = createMockReqRes({ sort: "popular", cursor: nextCursor });
+
+      await getSongs(next.req as Request, next.res as Response);
+
+      expect(next.res.status).toHaveBeenCalledWith(400);
+      expect(next.res.json).toHaveBeenCalledWith({
+        success: false,
+        error: { code: "INVALID_CURSOR", message: "Invalid or expired cursor" },
+      });
+      expect(Song.aggregate).not.toHaveBeenCalled();
+    });
+
     it("handles validation errors", async () => {
       const { req, res } = createMockReqRes({ limit: "invalid" });
 
@@ -274,9 +396,7 @@ describe("Songs API Routes", () => {
     it("handles database errors", async () => {
       const { req, res } = createMockReqRes();
 
-      (Song as any).find.mockImplementation(() => {
-        throw new Error("Database error");
-      });
+      (Song as any).aggregate.mockRejectedValue(new Error("Database error"));
 
       await getSongs(req as Request, res as Response);
 
@@ -342,6 +462,7 @@ describe("Songs API Routes", () => {
         {},
         { id: "60f7b1c3e4b0c72a1a123456" },
       );
+      req.user = { id: "507f1f77bcf86cd799439099" };
 
       (Song as any).findById.mockResolvedValue(privateSong);
 
@@ -388,7 +509,6 @@ describe("Songs API Routes", () => {
       difficulty: "intermediate",
       themes: ["test"],
       source: "test",
-      createdBy: "user123",
       isPublic: true,
     };
 
@@ -418,6 +538,22 @@ describe("Songs API Routes", () => {
       });
     });
 
+    it("requires an authenticated user", async () => {
+      const { req, res } = createMockReqRes({}, {}, validSongData);
+      delete req.user;
+
+      await createSong(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "User authentication required",
+        },
+      });
+    });
+
     it("handles validation errors", async () => {
       const invalidData = { title: "" }; // Missing required fields
       const { req, res } = createMockReqRes({}, {}, invalidData);
@@ -513,6 +649,29 @@ describe("Songs API Routes", () => {
       });
     });
 
+    it("records a change log entry for each changed field", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a123456" },
+        { title: "Updated Song Title", artist: "John Newton" },
+      );
+
+      const mockSongInstance = { ...mockSong };
+      (Song as any).findById.mockResolvedValue(mockSongInstance);
+
+      await updateSong(req as Request, res as Response);
+
+      expect(SongChange.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          songId: mockSong._id,
+          field: "title",
+          oldValue: "Amazing Grace",
+          newValue: "Updated Song Title",
+          source: "edit",
+        }),
+      ]);
+    });
+
     it("returns 404 for non-existent song", async () => {
       const { req, res } = createMockReqRes(
         {},
@@ -601,6 +760,45 @@ describe("Songs API Routes", () => {
       });
     });
 
+    it("returns 403 when the user does not own the song", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a123456" },
+      );
+      req.user = { id: "507f1f77bcf86cd799439099", role: "USER" };
+
+      (Song as any).findById.mockResolvedValue(mockSong);
+
+      await deleteSong(req as Request, res as Response);
+
+      expect((Song as any).findByIdAndDelete).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: "FORBIDDEN",
+          message: "You do not have permission to delete this song",
+        },
+      });
+    });
+
+    it("allows a moderator to delete another user's song", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { id: "60f7b1c3e4b0c72a1a123456" },
+      );
+      req.user = { id: "507f1f77bcf86cd799439099", role: "MODERATOR" };
+
+      (Song as any).findById.mockResolvedValue(mockSong);
+      (Song as any).findByIdAndDelete.mockResolvedValue(mockSong);
+
+      await deleteSong(req as Request, res as Response);
+
+      expect((Song as any).findByIdAndDelete).toHaveBeenCalledWith(
+        "60f7b1c3e4b0c72a1a123456",
+      );
+    });
+
     it("returns 404 for non-existent song", async () => {
       const { req, res } = createMockReqRes({}, { id: "nonexistent" });
 
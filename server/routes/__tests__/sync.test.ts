@@ -1,7 +1,14 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { Request, Response } from "express";
 import { batchSync, getSyncStatus, resolveConflicts } from "../sync";
-import { Song, Setlist, Arrangement, User } from "../../database/models";
+import {
+  Song,
+  Setlist,
+  Arrangement,
+  User,
+  SongChange,
+} from "../../database/models";
+import { recordArrangementRevision } from "../../utils/arrangementRevisions";
 
 // Mock the models
 vi.mock("../../database/models", () => ({
@@ -17,6 +24,27 @@ vi.mock("../../database/models", () => ({
   User: vi.fn().mockImplementation(() => ({
     save: vi.fn(),
   })),
+  SongChange: {
+    insertMany: vi.fn().mockResolvedValue([]),
+  },
+  SONG_CHANGE_FIELDS: [
+    "title",
+    "artist",
+    "compositionYear",
+    "ccli",
+    "themes",
+    "source",
+    "lyrics",
+    "notes",
+  ],
+  REVISION_FIELDS: ["chordData", "key", "tempo", "structure"],
+}));
+
+vi.mock("../../utils/arrangementRevisions", async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import("../../utils/arrangementRevisions")
+  >()),
+  recordArrangementRevision: vi.fn(),
 }));
 
 // Add static methods to the constructors
@@ -52,6 +80,8 @@ const mockConsole = {
 vi.stubGlobal("console", mockConsole);
 
 // Helper to create mock request and response objects
+const mockAuthUserId = "507f1f77bcf86cd799439013";
+
 const createMockReqRes = (
   query: any = {},
   params: any = {},
@@ -61,6 +91,7 @@ const createMockReqRes = (
     query,
     params,
     body,
+    user: { id: mockAuthUserId },
   };
 
   const res = {
@@ -76,6 +107,7 @@ const mockSong = {
   _id: "song123",
   title: "Amazing Grace",
   artist: "John Newton",
+  metadata: { createdBy: mockAuthUserId },
   updatedAt: new Date("2024-01-15T10:00:00Z"),
   save: vi.fn(),
 };
@@ -83,6 +115,7 @@ const mockSong = {
 const mockSetlist = {
   _id: "setlist123",
   name: "Sunday Service",
+  createdBy: mockAuthUserId,
   updatedAt: new Date("2024-01-15T10:00:00Z"),
   save: vi.fn(),
 };
@@ -90,6 +123,7 @@ const mockSetlist = {
 const mockArrangement = {
   _id: "arrangement123",
   name: "Piano Arrangement",
+  createdBy: mockAuthUserId,
   updatedAt: new Date("2024-01-15T10:00:00Z"),
   save: vi.fn(),
 };
@@ -156,7 +190,13 @@ describe("Sync API Routes", () => {
 
       await batchSync(req as Request, res as Response);
 
-      expect(Song).toHaveBeenCalledWith(validSyncOperation.data);
+      expect(Song).toHaveBeenCalledWith({
+        ...validSyncOperation.data,
+        metadata: {
+          createdBy: mockAuthUserId,
+          lastModifiedBy: mockAuthUserId,
+        },
+      });
       expect(mockSongInstance.save).toHaveBeenCalled();
 
       expect(res.json).toHaveBeenCalledWith({
@@ -235,6 +275,56 @@ describe("Sync API Routes", () => {
       });
     });
 
+    it("records song field changes made through sync", async () => {
+      const updateOperation = {
+        ...validSyncOperation,
+        operation: "update" as const,
+        data: {
+          title: "Amazing Grace (My Chains Are Gone)",
+          artist: "John Newton",
+          updatedAt: new Date("2024-01-15T11:00:00Z"), // Later than server
+        },
+      };
+
+      const { req, res } = createMockReqRes(
+        {},
+        {},
+        {
+          operations: [updateOperation],
+        },
+      );
+
+      const existingSong = {
+        ...mockSong,
+        save: vi.fn().mockResolvedValue(mockSong),
+      };
+      (Song.findById as any).mockResolvedValue(existingSong);
+
+      // Mock server changes query
+      (Song.find as any).mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      });
+      (Setlist.find as any).mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      });
+      (Arrangement.find as any).mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      });
+
+      await batchSync(req as Request, res as Response);
+
+      expect(existingSong.save).toHaveBeenCalled();
+      expect(SongChange.insertMany).toHaveBeenCalledWith([
+        expect.objectContaining({
+          songId: "song123",
+          field: "title",
+          oldValue: "Amazing Grace",
+          newValue: "Amazing Grace (My Chains Are Gone)",
+          source: "sync",
+        }),
+      ]);
+    });
+
     it("processes song deletion successfully", async () => {
       const deleteOperation = {
         ...validSyncOperation,
@@ -249,6 +339,7 @@ describe("Sync API Routes", () => {
         },
       );
 
+      (Song.findById as any).mockResolvedValue(mockSong);
       (Song.findByIdAndDelete as any).mockResolvedValue(mockSong);
 
       // Mock server changes query
@@ -283,6 +374,76 @@ describe("Sync API Routes", () => {
       });
     });
 
+    it("rejects updating and deleting other users' content", async () => {
+      const otherOwner = "507f1f77bcf86cd799439099";
+      const { req, res } = createMockReqRes(
+        {},
+        {},
+        {
+          operations: [
+            {
+              ...validSyncOperation,
+              operation: "update" as const,
+              data: { title: "Hijacked", updatedAt: new Date() },
+            },
+            {
+              ...validSyncOperation,
+              id: "op124",
+              entity: "setlist" as const,
+              entityId: "setlist123",
+              operation: "delete" as const,
+            },
+          ],
+        },
+      );
+
+      const existingSong = {
+        ...mockSong,
+        metadata: { createdBy: otherOwner },
+        save: vi.fn(),
+      };
+      (Song.findById as any).mockResolvedValue(existingSong);
+      (Setlist.findById as any).mockResolvedValue({
+        ...mockSetlist,
+        createdBy: otherOwner,
+      });
+
+      // Mock server changes query
+      (Song.find as any).mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      });
+      (Setlist.find as any).mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      });
+      (Arrangement.find as any).mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      });
+
+      await batchSync(req as Request, res as Response);
+
+      expect(existingSong.save).not.toHaveBeenCalled();
+      expect(Setlist.findByIdAndDelete).not.toHaveBeenCalled();
+      const { results } = (res.json as any).mock.calls[0][0].data;
+      expect(results).toEqual([
+        {
+          operationId: "op123",
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: "You do not have permission to update this song",
+          },
+        },
+        {
+          operationId: "op124",
+          success: false,
+          error: {
+            code: "FORBIDDEN",
+            message: "You do not have permission to delete this setlist",
+          },
+        },
+      ]);
+    });
+
     it("processes setlist operations", async () => {
       const setlistOperation = {
         ...validSyncOperation,
@@ -321,7 +482,10 @@ describe("Sync API Routes", () => {
 
       await batchSync(req as Request, res as Response);
 
-      expect(Setlist).toHaveBeenCalledWith(setlistOperation.data);
+      expect(Setlist).toHaveBeenCalledWith({
+        ...setlistOperation.data,
+        createdBy: mockAuthUserId,
+      });
       expect(mockSetlistInstance.save).toHaveBeenCalled();
     });
 
@@ -363,8 +527,148 @@ describe("Sync API Routes", () => {
 
       await batchSync(req as Request, res as Response);
 
-      expect(Arrangement).toHaveBeenCalledWith(arrangementOperation.data);
+      expect(Arrangement).toHaveBeenCalledWith({
+        ...arrangementOperation.data,
+        createdBy: mockAuthUserId,
+      });
       expect(mockArrangementInstance.save).toHaveBeenCalled();
+      expect(recordArrangementRevision).toHaveBeenCalledWith(
+        mockArrangementInstance,
+        expect.objectContaining({ authorId: mockAuthUserId }),
+      );
+    });
+
+    it("records arrangement revisions for chart edits made through sync", async () => {
+      const updateOperation = {
+        ...validSyncOperation,
+        operation: "update" as const,
+        entity: "arrangement" as const,
+        entityId: "arrangement123",
+        data: {
+          chordData: "{title: Test}\n[D]Amazing grace",
+          updatedAt: new Date("2024-01-15T11:00:00Z"), // Later than server
+        },
+      };
+
+      const { req, res } = createMockReqRes(
+        {},
+        {},
+        {
+          operations: [updateOperation],
+        },
+      );
+
+      const existingArrangement = {
+        ...mockArrangement,
+        chordData: "{title: Test}\n[G]Amazing grace",
+        key: "G",
+        structure: [],
+        save: vi.fn().mockResolvedValue(mockArrangement),
+      };
+      (Arrangement.findById as any).mockResolvedValue(existingArrangement);
+
+      // Mock server changes query
+      (Song.find as any).mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      });
+      (Setlist.find as any).mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      });
+      (Arrangement.find as any).mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      });
+
+      await batchSync(req as Request, res as Response);
+
+      expect(existingArrangement.save).toHaveBeenCalled();
+      expect(recordArrangementRevision).toHaveBeenCalledWith(
+        existingArrangement,
+        expect.objectContaining({
+          authorId: mockAuthUserId,
+          changedFields: ["chordData"],
+          previous: expect.objectContaining({
+            chordData: "{title: Test}\n[G]Amazing grace",
+          }),
+        }),
+      );
+    });
+
+    it("ignores server-managed fields sent by the client", async () => {
+      const setlistUpdate = {
+        ...validSyncOperation,
+        id: "op-setlist",
+        operation: "update" as const,
+        entity: "setlist" as const,
+        entityId: "setlist123",
+        data: {
+          name: "Renamed",
+          metadata: { usageCount: 9999, shareToken: "forged" },
+          updatedAt: new Date("2024-01-15T11:00:00Z"),
+        },
+      };
+      const userUpdate = {
+        ...validSyncOperation,
+        id: "op-user",
+        operation: "update" as const,
+        entity: "user" as const,
+        entityId: mockAuthUserId,
+        data: {
+          name: "Jane",
+          isActive: true,
+          stats: { songsCreated: 500 },
+        },
+      };
+      const { req, res } = createMockReqRes(
+        {},
+        {},
+        { operations: [setlistUpdate, userUpdate] },
+      );
+
+      const metadata = { usageCount: 2, shareToken: "real" };
+      const existingSetlist = { ...mockSetlist, metadata, save: vi.fn() };
+      (Setlist.findById as any).mockResolvedValue(existingSetlist);
+      const stats = { songsCreated: 1 };
+      const existingUser = {
+        ...mockUser,
+        isActive: false,
+        stats,
+        save: vi.fn(),
+      };
+      (User.findById as any).mockResolvedValue(existingUser);
+
+      await batchSync(req as Request, res as Response);
+
+      expect(existingSetlist.name).toBe("Renamed");
+      expect(existingSetlist.metadata).toBe(metadata);
+      expect(metadata).toEqual({ usageCount: 2, shareToken: "real" });
+      expect(existingUser.name).toBe("Jane");
+      expect(existingUser.isActive).toBe(false);
+      expect(existingUser.stats).toBe(stats);
+    });
+
+    it("applies a setlist share toggle made offline", async () => {
+      const setlistUpdate = {
+        ...validSyncOperation,
+        operation: "update" as const,
+        entity: "setlist" as const,
+        entityId: "setlist123",
+        data: { isPublic: true, updatedAt: new Date("2024-01-15T11:00:00Z") },
+      };
+      const { req, res } = createMockReqRes(
+        {},
+        {},
+        { operations: [setlistUpdate] },
+      );
+
+      const metadata = { isPublic: false, usageCount: 2 };
+      const existingSetlist = { ...mockSetlist, metadata, save: vi.fn() };
+      (Setlist.findById as any).mockResolvedValue(existingSetlist);
+
+      await batchSync(req as Request, res as Response);
+
+      expect(metadata).toEqual({ isPublic: true, usageCount: 2 });
+      expect(existingSetlist).not.toHaveProperty("isPublic");
+      expect(existingSetlist.save).toHaveBeenCalled();
     });
 
     it("processes user operations with upsert behavior", async () => {
@@ -372,7 +676,7 @@ describe("Sync API Routes", () => {
         ...validSyncOperation,
         entity: "user" as const,
         operation: "update" as const,
-        entityId: "user123",
+        entityId: mockAuthUserId,
         data: {
           name: "John Doe",
           email: "john@example.com",
@@ -408,9 +712,9 @@ describe("Sync API Routes", () => {
 
       await batchSync(req as Request, res as Response);
 
-      expect(User.findById).toHaveBeenCalledWith("user123");
+      expect(User.findById).toHaveBeenCalledWith(mockAuthUserId);
       expect(User).toHaveBeenCalledWith({
-        _id: "user123",
+        _id: mockAuthUserId,
         ...userOperation.data,
       });
       expect(mockUserInstance.save).toHaveBeenCalled();
@@ -459,6 +763,34 @@ describe("Sync API Routes", () => {
       });
     });
 
+    it("only returns server changes the user may view", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        {},
+        { operations: [], clientLastSync: Date.now() - 60000 },
+      );
+      for (const model of [Song, Setlist, Arrangement]) {
+        (model.find as any).mockReturnValue({
+          lean: vi.fn().mockResolvedValue([]),
+        });
+      }
+
+      await batchSync(req as Request, res as Response);
+
+      expect((Song.find as any).mock.calls[0][0].$or).toEqual([
+        { "metadata.isPublic": true },
+        { "metadata.createdBy": mockAuthUserId },
+      ]);
+      expect((Setlist.find as any).mock.calls[0][0].$or).toEqual([
+        { "metadata.isPublic": true },
+        { createdBy: mockAuthUserId },
+      ]);
+      expect((Arrangement.find as any).mock.calls[0][0].$or).toEqual([
+        { "metadata.isPublic": true },
+        { createdBy: mockAuthUserId },
+      ]);
+    });
+
     it("handles validation errors", async () => {
       const invalidOperations = [
         {
@@ -569,6 +901,53 @@ describe("Sync API Routes", () => {
         },
       });
     });
+
+    it("rejects syncing another user's record", async () => {
+      const userOperation = {
+        ...validSyncOperation,
+        entity: "user" as const,
+        operation: "update" as const,
+        entityId: "someone-else",
+        data: { role: "ADMIN" },
+      };
+
+      const { req, res } = createMockReqRes(
+        {},
+        {},
+        {
+          operations: [userOperation],
+        },
+      );
+
+      await batchSync(req as Request, res as Response);
+
+      expect(User.findById).not.toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            results: [
+              {
+                operationId: "op123",
+                success: false,
+                error: {
+                  code: "SYNC_FAILED",
+                  message: "Cannot sync another user's record",
+                },
+              },
+            ],
+          }),
+        }),
+      );
+    });
+
+    it("requires an authenticated user", async () => {
+      const { req, res } = createMockReqRes({}, {}, { operations: [] });
+      delete req.user;
+
+      await batchSync(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
   });
 
   describe("getSyncStatus", () => {
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Request, Response } from "express";
+import { syncUser } from "../test-user-sync";
+import { User } from "../../database/models";
+
+vi.mock("../../database/models", () => ({
+  User: {
+    findByClerkId: vi.fn(),
+    findByEmail: vi.fn(),
+    create: vi.fn(),
+  },
+}));
+
+vi.stubGlobal("console", { error: vi.fn(), log: vi.fn(), warn: vi.fn() });
+
+const createMockReqRes = (auth: object, body: object) => {
+  const req = { auth, body } as unknown as Request;
+  const res = {
+    json: vi.fn().mockReturnThis(),
+    status: vi.fn().mockReturnThis(),
+  } as unknown as Response;
+  return { req, res };
+};
+
+const legacyAdmin = () => ({
+  _id: "507f1f77bcf86cd799439011",
+  email: "admin@example.com",
+  name: "Admin",
+  role: "ADMIN",
+  save: vi.fn(),
+});
+
+describe("POST /api/users/sync", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(User.findByClerkId).mockResolvedValue(null);
+  });
+
+  it("links an existing account to the session's verified email", async () => {
+    const admin = legacyAdmin();
+    vi.mocked(User.findByEmail).mockResolvedValue(admin as never);
+    const { req, res } = createMockReqRes(
+      { sub: "user_1", email: "Admin@example.com" },
+      {},
+    );
+
+    await syncUser(req, res);
+
+    expect(admin.save).toHaveBeenCalled();
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        success: true,
+        data: expect.objectContaining({ clerkId: "user_1" }),
+      }),
+    );
+  });
+
+  it("does not link an existing account to an email from the body", async () => {
+    const admin = legacyAdmin();
+    vi.mocked(User.findByEmail).mockResolvedValue(admin as never);
+    const { req, res } = createMockReqRes(
+      { sub: "user_2" },
+      { email: "admin@example.com" },
+    );
+
+    await syncUser(req, res);
+
+    expect(admin.save).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.objectContaining({ code: "EMAIL_NOT_VERIFIED" }),
+      }),
+    );
+  });
+
+  it("creates a new user when no account has the email", async () => {
+    vi.mocked(User.findByEmail).mockResolvedValue(null);
+    vi.mocked(User.create).mockResolvedValue({
+      _id: "507f1f77bcf86cd799439012",
+      clerkId: "user_3",
+      email: "new@example.com",
+      name: "new",
+      role: "USER",
+    } as never);
+    const { req, res } = createMockReqRes(
+      { sub: "user_3" },
+      { email: "new@example.com" },
+    );
+
+    await syncUser(req, res);
+
+    expect(User.create).toHaveBeenCalledWith(
+      expect.objectContaining({ clerkId: "user_3", role: "USER" }),
+    );
+  });
+});
@@ -10,6 +10,8 @@ import {
   addFavorite,
   removeFavorite,
   checkFavorite,
+  updateUserProfile,
+  getSingers,
 } from "../users";
 import { User, Song, Arrangement } from "../../database/models";
 
@@ -18,6 +20,7 @@ vi.mock("../../database/models", () => {
   const MockUser = vi.fn();
   Object.assign(MockUser, {
     findById: vi.fn(),
+    find: vi.fn(),
   });
 
   const MockSong = vi.fn();
@@ -565,4 +568,178 @@ describe("Users API Routes - Dual Favorites", () => {
       });
     });
   });
+
+  describe("PUT /api/users/:userId/profile", () => {
+    it("should save the chord notation preference", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { userId: "507f1f77bcf86cd799439011" },
+        { preferences: { notation: "german" } },
+      );
+
+      const mockUser = {
+        _id: "507f1f77bcf86cd799439011",
+        name: "Test User",
+        profile: {},
+        preferences: { fontSize: 16, theme: "light", notation: "english" },
+        save: vi.fn().mockResolvedValue(undefined),
+      };
+
+      (User.findById as any).mockResolvedValue(mockUser);
+
+      await updateUserProfile(req as Request, res as Response);
+
+      expect(mockUser.preferences.notation).toBe("german");
+      expect(mockUser.save).toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          data: expect.objectContaining({
+            preferences: expect.objectContaining({ notation: "german" }),
+          }),
+        }),
+      );
+    });
+
+    it("should reject an unknown notation", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { userId: "507f1f77bcf86cd799439011" },
+        { preferences: { notation: "dutch" } },
+      );
+
+      await updateUserProfile(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(User.findById).not.toHaveBeenCalled();
+    });
+
+    it("should save and clear the vocal range", async () => {
+      const mockUser = {
+        _id: "507f1f77bcf86cd799439011",
+        name: "Test User",
+        profile: {} as Record<string, unknown>,
+        preferences: {},
+        save: vi.fn().mockResolvedValue(undefined),
+      };
+      (User.findById as any).mockResolvedValue(mockUser);
+
+      const saved = createMockReqRes(
+        {},
+        { userId: "507f1f77bcf86cd799439011" },
+        { profile: { vocalRange: { low: "A2", high: "E4" } } },
+      );
+      await updateUserProfile(saved.req as Request, saved.res as Response);
+      expect(mockUser.profile.vocalRange).toEqual({ low: "A2", high: "E4" });
+
+      const cleared = createMockReqRes(
+        {},
+        { userId: "507f1f77bcf86cd799439011" },
+        { profile: { vocalRange: null } },
+      );
+      await updateUserProfile(cleared.req as Request, cleared.res as Response);
+      expect(mockUser.profile.vocalRange).toBeUndefined();
+    });
+
+    it("should save and forget auto-scroll speeds per arrangement", async () => {
+      const mockUser = {
+        _id: "507f1f77bcf86cd799439011",
+        name: "Test User",
+        profile: {},
+        preferences: {
+          scrollSpeeds: new Map([["507f1f77bcf86cd799439021", 0.75]]),
+        } as Record<string, any>,
+        save: vi.fn().mockResolvedValue(undefined),
+      };
+      (User.findById as any).mockResolvedValue(mockUser);
+
+      const { req, res } = createMockReqRes(
+        {},
+        { userId: "507f1f77bcf86cd799439011" },
+        {
+          preferences: {
+            scrollSpeeds: {
+              "507f1f77bcf86cd799439021": null,
+              "507f1f77bcf86cd799439022": 1.5,
+            },
+          },
+        },
+      );
+      await updateUserProfile(req as Request, res as Response);
+
+      expect(Object.fromEntries(mockUser.preferences.scrollSpeeds)).toEqual({
+        "507f1f77bcf86cd799439022": 1.5,
+      });
+      expect(mockUser.save).toHaveBeenCalled();
+    });
+
+    it("should reject an auto-scroll speed out of bounds", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { userId: "507f1f77bcf86cd799439011" },
+        { preferences: { scrollSpeeds: { "507f1f77bcf86cd799439021": 10 } } },
+      );
+
+      await updateUserProfile(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(User.findById).not.toHaveBeenCalled();
+    });
+
+    it("should reject a vocal range whose low note is not below the high note", async () => {
+      const { req, res } = createMockReqRes(
+        {},
+        { userId: "507f1f77bcf86cd799439011" },
+        { profile: { vocalRange: { low: "E4", high: "A2" } } },
+      );
+
+      await updateUserProfile(req as Request, res as Response);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(User.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /api/users/singers", () => {
+    it("should list public singers and the requester with their ranges", async () => {
+      const { req, res } = createMockReqRes();
+      (req as any).user = { id: "507f1f77bcf86cd799439011" };
+
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        sort: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockReturnThis(),
+        lean: vi.fn().mockResolvedValue([
+          {
+            _id: "507f1f77bcf86cd799439012",
+            name: "Alto",
+            profile: { vocalRange: { low: "F3", high: "D5" } },
+          },
+        ]),
+      };
+      (User.find as any).mockReturnValue(query);
+
+      await getSingers(req as Request, res as Response);
+
+      expect(User.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          "profile.vocalRange.low": { $exists: true },
+          $or: [
+            { "profilePrivacy.isPublic": true },
+            { _id: "507f1f77bcf86cd799439011" },
+          ],
+        }),
+      );
+      expect(res.json).toHaveBeenCalledWith({
+        success: true,
+        data: [
+          {
+            _id: "507f1f77bcf86cd799439012",
+            name: "Alto",
+            vocalRange: { low: "F3", high: "D5" },
+          },
+        ],
+      });
+    });
+  });
 });
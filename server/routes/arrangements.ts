@@ -8,6 +8,22 @@ import {
 import { z } from "zod";
 import { Types, type Document } from "mongoose";
 import { createArrangementSlug } from "../utils/slug";
+import { can, sendForbidden } from "../middleware/policy";
+import {
+  getChangedRevisionFields,
+  recordArrangementRevision,
+  takeRevisionSnapshot,
+} from "../utils/arrangementRevisions";
+import { findKeyMismatch } from "@shared/songs/keyDetection";
+import { vocalRangeSchema } from "@shared/songs/vocalRange";
+import { validateMashupSections } from "@shared/arrangements/mashup";
+import {
+  InvalidCursorError,
+  cursorFilter,
+  sendInvalidCursor,
+  toCursorPage,
+  type CursorSort,
+} from "../utils/cursorPagination";
 
 // Validation schemas
 const createArrangementSchema = z.object({
@@ -40,7 +56,8 @@ const createArrangementSchema = z.object({
     .default("intermediate"),
   description: z.string().max(1000).optional(),
   tags: z.array(z.string().max(50)).default([]),
-  createdBy: z.string(), // User ID
+  structure: z.array(z.string().max(10)).optional(),
+  vocalRange: vocalRangeSchema.optional(),
   isPublic: z.boolean().default(true),
   mashupSections: z
     .array(
@@ -87,6 +104,30 @@ function isValidChordData(chordData: string): boolean {
   return true;
 }
 
+/**
+ * Warnings about saved content that is allowed but likely a mistake, such
+ * as a key that the chords do not fit
+ */
+function getArrangementWarnings(
+  arrangement: Pick<IArrangement, "key" | "chordData">,
+) {
+  const mismatch = findKeyMismatch(arrangement.key, arrangement.chordData);
+  return mismatch
+    ? [{ code: "KEY_MISMATCH", field: "key", message: mismatch.message }]
+    : [];
+}
+
+// Mashup sections must cover bars that exist in the chart they describe
+function sendInvalidMashupSections(res: Response, message: string) {
+  return res.status(400).json({
+    success: false,
+    error: {
+      code: "INVALID_MASHUP_SECTIONS",
+      message,
+    },
+  });
+}
+
 // Transform arrangement to client format
 interface ClientArrangement {
   _id: string;
@@ -97,6 +138,7 @@ interface ClientArrangement {
   songIds: string[];
   songs?: Array<{ _id: string; title: string; artist?: string }>;
   tags?: string[];
+  vocalRange?: { low: string; high: string };
   createdAt: string;
   updatedAt: string;
 }
@@ -153,6 +195,7 @@ function transformArrangementToClientFormat(
     difficulty: doc.difficulty || "intermediate",
     description: doc.description,
     tags: doc.tags || [],
+    vocalRange: doc.vocalRange?.low ? doc.vocalRange : undefined,
     metadata: doc.metadata || {
       isPublic: true,
       ratings: { average: 0, count: 0 },
@@ -184,6 +227,19 @@ function transformArrangementToClientFormat(
   };
 }
 
+// Without a limit every arrangement of the song is returned
+const arrangementsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  // Opaque cursor from a previous page's meta.nextCursor
+  cursor: z.string().max(500).optional(),
+});
+
+const ARRANGEMENT_ORDER: CursorSort = {
+  "metadata.ratings.average": -1,
+  "metadata.views": -1,
+  _id: 1,
+};
+
 // Get arrangements for a specific song
 export async function getArrangementsBySong(req: Request, res: Response) {
   try {
@@ -200,6 +256,19 @@ export async function getArrangementsBySong(req: Request, res: Response) {
       });
     }
 
+    const queryResult = arrangementsQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid query parameters",
+          details: queryResult.error.errors,
+        },
+      });
+    }
+    const { limit, cursor } = queryResult.data;
+
     // Check if song exists
     const songExists = await Song.exists({ _id: songId });
     if (!songExists) {
@@ -214,14 +283,26 @@ export async function getArrangementsBySong(req: Request, res: Response) {
 
     // Find all arrangements that include this song
     console.log(`🔍 Searching for arrangements for song ID: ${songId}`);
-    const arrangements = await Arrangement.find({
-      songIds: songId,
-      "metadata.isPublic": true,
-    })
+    const filter = { songIds: songId, "metadata.isPublic": true };
+    const arrangementsQuery = Arrangement.find(
+      cursor
+        ? { ...filter, ...cursorFilter(cursor, ARRANGEMENT_ORDER) }
+        : filter,
+    )
       .populate("songIds", "title artist")
       .populate("createdBy", "name email")
-      .sort({ "metadata.ratings.average": -1, "metadata.views": -1 })
-      .lean();
+      .sort(ARRANGEMENT_ORDER);
+    const [found, total] = await Promise.all([
+      limit
+        ? arrangementsQuery.limit(limit + 1).lean()
+        : arrangementsQuery.lean(),
+      limit ? Arrangement.countDocuments(filter) : undefined,
+    ]);
+    const { items: arrangements, nextCursor } = toCursorPage(
+      found,
+      limit ?? found.length,
+      ARRANGEMENT_ORDER,
+    );
 
     console.log(
       `📊 Found ${arrangements.length} arrangements for song ${songId}`,
@@ -250,10 +331,15 @@ export async function getArrangementsBySong(req: Request, res: Response) {
       success: true,
       data: transformedArrangements,
       meta: {
-        total: transformedArrangements.length,
+        total: total ?? transformedArrangements.length,
+        nextCursor,
       },
     });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendInvalidCursor(res, error);
+    }
+
     console.error(
       "❌ Error fetching arrangements for song:",
       req.params.songId,
@@ -285,6 +371,16 @@ export async function getArrangementsBySong(req: Request, res: Response) {
 // Create new arrangement
 export async function createArrangement(req: Request, res: Response) {
   try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "User authentication required",
+        },
+      });
+    }
+
     console.log(
       "📝 Creating arrangement with data:",
       JSON.stringify(req.body, null, 2),
@@ -312,30 +408,20 @@ export async function createArrangement(req: Request, res: Response) {
       });
     }
 
-    // Create arrangement
-    console.log(
-      "🔍 Creating arrangement with user ID:",
-      arrangementData.createdBy,
-    );
-    let createdByObjectId;
-    try {
-      createdByObjectId = new Types.ObjectId(arrangementData.createdBy);
-      console.log("✅ Successfully created ObjectId from user ID");
-    } catch (error) {
-      console.error(
-        "❌ Failed to create ObjectId from user ID:",
-        arrangementData.createdBy,
-        error,
+    if (arrangementData.mashupSections && songIds.length > 1) {
+      const mashupError = validateMashupSections(
+        arrangementData.chordData,
+        arrangementData.mashupSections,
+        arrangementData.songIds,
       );
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: "INVALID_USER_ID",
-          message: "Invalid user ID format",
-        },
-      });
+      if (mashupError) {
+        return sendInvalidMashupSections(res, mashupError);
+      }
     }
 
+    // Create arrangement owned by the authenticated user
+    const createdByObjectId = new Types.ObjectId(req.user.id);
+
     // Generate slug using the first song's title
     const firstSong = songs[0];
     const slug = createArrangementSlug(firstSong.title);
@@ -355,6 +441,8 @@ export async function createArrangement(req: Request, res: Response) {
       difficulty: arrangementData.difficulty,
       description: arrangementData.description,
       tags: arrangementData.tags,
+      structure: arrangementData.structure,
+      vocalRange: arrangementData.vocalRange,
       metadata: {
         isMashup: songIds.length > 1,
         mashupSections: arrangementData.mashupSections,
@@ -374,15 +462,24 @@ export async function createArrangement(req: Request, res: Response) {
     await arrangement.save();
     console.log("✅ Arrangement saved successfully with ID:", arrangement._id);
 
+    // Start the revision history with the initial content
+    await recordArrangementRevision(arrangement, {
+      authorId: createdByObjectId,
+      changedFields: ["chordData", "key", "tempo", "structure"],
+    });
+
     // Reload the arrangement with populated fields
     console.log("🔄 Reloading arrangement with populated fields...");
     const savedArrangement = await Arrangement.findById(arrangement._id)
       .populate("songIds", "title artist")
       .populate("createdBy", "name email");
 
+    const warnings = getArrangementWarnings(arrangementData);
+
     res.status(201).json({
       success: true,
       data: transformArrangementToClientFormat(savedArrangement),
+      ...(warnings.length > 0 && { warnings }),
     });
   } catch (error) {
     console.error("Error creating arrangement:", error);
@@ -426,7 +523,13 @@ export async function updateArrangement(req: Request, res: Response) {
       });
     }
 
-    // TODO: Add authorization check - only owner or admin can update
+    // Only the owner, an admin or a moderator can update
+    if (!can(req.user, "update", "arrangement", arrangement)) {
+      return sendForbidden(res, "update", "arrangement");
+    }
+
+    // Snapshot revisioned fields so changes can be recorded after saving
+    const previousSnapshot = takeRevisionSnapshot(arrangement);
 
     // Update fields
     if (updateData.name !== undefined) {
@@ -453,6 +556,12 @@ export async function updateArrangement(req: Request, res: Response) {
     if (updateData.tags !== undefined) {
       arrangement.tags = updateData.tags;
     }
+    if (updateData.structure !== undefined) {
+      arrangement.structure = updateData.structure;
+    }
+    if (updateData.vocalRange !== undefined) {
+      arrangement.vocalRange = updateData.vocalRange;
+    }
     if (updateData.isPublic !== undefined) {
       (arrangement as any).isPublic = updateData.isPublic;
       arrangement.metadata.isPublic = updateData.isPublic;
@@ -491,8 +600,50 @@ export async function updateArrangement(req: Request, res: Response) {
       arrangement.metadata.isMashup = songIds.length > 1;
     }
 
+    // Recheck section bars whenever the chart or the sections change
+    const mashupSections = arrangement.metadata.mashupSections;
+    if (
+      (updateData.chordData !== undefined ||
+        updateData.mashupSections !== undefined) &&
+      arrangement.songIds.length > 1 &&
+      mashupSections &&
+      mashupSections.length > 0
+    ) {
+      const mashupError = validateMashupSections(
+        arrangement.chordData,
+        mashupSections.map((section) => ({
+          songId: section.songId.toString(),
+          title: section.title,
+          startBar: section.startBar,
+          endBar: section.endBar,
+        })),
+        arrangement.songIds.map((id) => id.toString()),
+      );
+      if (mashupError) {
+        return sendInvalidMashupSections(res, mashupError);
+      }
+    }
+
     await arrangement.save();
 
+    const warnings =
+      updateData.chordData !== undefined || updateData.key !== undefined
+        ? getArrangementWarnings(arrangement)
+        : [];
+
+    // Keep an immutable revision of every content change
+    const changedFields = getChangedRevisionFields(
+      previousSnapshot,
+      takeRevisionSnapshot(arrangement),
+    );
+    if (changedFields.length > 0 && req.user) {
+      await recordArrangementRevision(arrangement, {
+        authorId: req.user.id,
+        changedFields,
+        previous: previousSnapshot,
+      });
+    }
+
     // Reload the arrangement to trigger decompression middleware
     const updatedArrangement = await Arrangement.findById(arrangement._id)
       .populate("songIds", "title artist")
@@ -501,6 +652,7 @@ export async function updateArrangement(req: Request, res: Response) {
     res.json({
       success: true,
       data: transformArrangementToClientFormat(updatedArrangement),
+      ...(warnings.length > 0 && { warnings }),
     });
   } catch (error) {
     console.error("Error updating arrangement:", error);
@@ -543,7 +695,10 @@ export async function deleteArrangement(req: Request, res: Response) {
       });
     }
 
-    // TODO: Add authorization check - only owner or admin can delete
+    // Only the owner, an admin or a moderator can delete
+    if (!can(req.user, "delete", "arrangement", arrangement)) {
+      return sendForbidden(res, "delete", "arrangement");
+    }
     // TODO: Check if arrangement is used in any setlists before deleting
 
     await Arrangement.findByIdAndDelete(id);
@@ -2,54 +2,29 @@ import { Request, Response } from "express";
 import { z } from "zod";
 import { Song } from "../database/models/Song";
 import type { QueryFilter, SortCriteria } from "../../shared/types/api.types";
-
-// Spiritual category mapping rules (server-side version)
-const CATEGORY_MAPPING_RULES = [
-  {
-    categoryId: "traditional-holy",
-    name: "Traditional Holy Songs",
-    themes: ["holy", "sacred", "divine principle", "true parents"],
-    sources: ["holy songbook", "unification hymnal"],
-    titlePatterns: ["holy", "sacred", "divine"],
-  },
-  {
-    categoryId: "new-holy",
-    name: "New Holy Songs",
-    themes: ["new age", "restoration", "cheon il guk"],
-    sources: ["recent compositions", "modern holy songs"],
-    titlePatterns: [],
-  },
-  {
-    categoryId: "american-pioneer",
-    name: "American Pioneer Songs",
-    themes: ["pioneering", "witnessing", "generation of righteousness"],
-    sources: ["american pioneers", "1970s-1980s"],
-    artists: ["joshua cotter", "dan fefferman", "julia moon"],
-    titlePatterns: [],
-  },
-  {
-    categoryId: "contemporary-christian",
-    name: "Contemporary Christian",
-    themes: ["praise", "contemporary worship", "modern christian"],
-    sources: ["hillsong", "bethel", "elevation", "ccm"],
-    artists: ["chris tomlin", "hillsong", "bethel music"],
-    titlePatterns: [],
-  },
-  {
-    categoryId: "classic-hymns",
-    name: "Classic Hymns",
-    themes: ["hymn", "traditional", "classic", "historic"],
-    sources: ["hymnal", "traditional hymns", "church history"],
-    titlePatterns: ["amazing grace", "how great thou art", "blessed assurance"],
-  },
-  {
-    categoryId: "original-interchurch",
-    name: "Original Interchurch",
-    themes: ["community", "fellowship", "local church"],
-    sources: ["community submitted", "interchurch", "user contributed"],
-    titlePatterns: [],
-  },
-];
+import {
+  Category,
+  CATEGORY_RULE_TYPES,
+  type CategoryRuleType,
+  type ICategory,
+} from "../database/models/Category";
+import { hasRole } from "../middleware/policy";
+import {
+  getActiveCategories,
+  invalidateCategoryRules,
+  seedDefaultCategories,
+} from "../utils/songCategories";
+import {
+  getRecategorizeJobStatus,
+  startRecategorizeJob,
+} from "../utils/recategorizeSongs";
+import {
+  InvalidCursorError,
+  cursorFilter,
+  sendInvalidCursor,
+  toCursorPage,
+  type CursorSort,
+} from "../utils/cursorPagination";
 
 // Validation schema for category stats query
 const categoryStatsQuerySchema = z.object({
@@ -66,8 +41,21 @@ const categorySongsQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(20),
   sortBy: z.enum(["popular", "recent", "rating", "title"]).default("popular"),
   searchQuery: z.string().optional(),
+  // Opaque cursor from a previous page's meta, used in place of the page
+  cursor: z.string().max(500).optional(),
 });
 
+// Each ends with _id so cursor pages never overlap
+const CATEGORY_SONG_ORDERS: Record<
+  z.infer<typeof categorySongsQuerySchema>["sortBy"],
+  CursorSort
+> = {
+  popular: { "metadata.views": -1, "metadata.ratings.average": -1, _id: 1 },
+  recent: { createdAt: -1, _id: 1 },
+  rating: { "metadata.ratings.average": -1, "metadata.views": -1, _id: 1 },
+  title: { title: 1, _id: 1 },
+};
+
 export async function getCategoryStats(req: Request, res: Response) {
   try {
     // Check database connection first
@@ -99,154 +87,30 @@ export async function getCategoryStats(req: Request, res: Response) {
 
     const { includeEmpty, sortBy, limit } = queryResult.data;
 
-    // Efficient MongoDB aggregation for category statistics
+    const categories = await getActiveCategories();
+    const categoryIds = categories.map((category) => category.categoryId);
+    const categoryNames = categories.map((category) => category.name);
+
+    // Efficient MongoDB aggregation over the categories stored on songs
     const categoryStats = await Song.aggregate([
-      // Stage 1: Match published songs only
+      // Stage 1: Match published songs in an active category
       {
         $match: {
           "metadata.isPublic": true,
-          $or: [
-            { themes: { $exists: true, $not: { $size: 0 } } },
-            { source: { $exists: true, $ne: "" } },
-            { artist: { $exists: true, $ne: "" } },
-          ],
+          categories: { $in: categoryIds },
         },
       },
 
-      // Stage 2: Add category assignments based on mapping rules
-      {
-        $addFields: {
-          assignedCategories: {
-            $filter: {
-              input: CATEGORY_MAPPING_RULES.map((rule) => ({
-                categoryId: rule.categoryId,
-                name: rule.name,
-                score: {
-                  $add: [
-                    // Theme matching score
-                    {
-                      $cond: [
-                        {
-                          $gt: [
-                            {
-                              $size: {
-                                $setIntersection: ["$themes", rule.themes],
-                              },
-                            },
-                            0,
-                          ],
-                        },
-                        10,
-                        0,
-                      ],
-                    },
-                    // Source matching score
-                    {
-                      $cond: [
-                        {
-                          $and: [
-                            { $ne: ["$source", null] },
-                            {
-                              $gt: [
-                                {
-                                  $size: {
-                                    $filter: {
-                                      input: rule.sources,
-                                      cond: {
-                                        $regexMatch: {
-                                          input: { $toLower: "$source" },
-                                          regex: { $toLower: "$$this" },
-                                        },
-                                      },
-                                    },
-                                  },
-                                },
-                                0,
-                              ],
-                            },
-                          ],
-                        },
-                        8,
-                        0,
-                      ],
-                    },
-                    // Artist matching score
-                    {
-                      $cond: [
-                        {
-                          $and: [
-                            { $ne: ["$artist", null] },
-                            {
-                              $gt: [
-                                {
-                                  $size: {
-                                    $filter: {
-                                      input: rule.artists || [],
-                                      cond: {
-                                        $regexMatch: {
-                                          input: { $toLower: "$artist" },
-                                          regex: { $toLower: "$$this" },
-                                        },
-                                      },
-                                    },
-                                  },
-                                },
-                                0,
-                              ],
-                            },
-                          ],
-                        },
-                        7,
-                        0,
-                      ],
-                    },
-                    // Title pattern matching score
-                    {
-                      $cond: [
-                        {
-                          $gt: [
-                            {
-                              $size: {
-                                $filter: {
-                                  input: rule.titlePatterns,
-                                  cond: {
-                                    $regexMatch: {
-                                      input: { $toLower: "$title" },
-                                      regex: { $toLower: "$$this" },
-                                    },
-                                  },
-                                },
-                              },
-                            },
-                            0,
-                          ],
-                        },
-                        6,
-                        0,
-                      ],
-                    },
-                  ],
-                },
-              })),
-              cond: { $gte: ["$$this.score", 5] }, // Minimum score threshold
-            },
-          },
-        },
-      },
+      // Stage 2: Unwind categories for grouping
+      { $unwind: "$categories" },
 
-      // Stage 3: Unwind categories for grouping
-      {
-        $unwind: {
-          path: "$assignedCategories",
-          preserveNullAndEmptyArrays: false,
-        },
-      },
+      // Stage 3: Drop categories that have since been deactivated
+      { $match: { categories: { $in: categoryIds } } },
 
       // Stage 4: Group by category with statistics
       {
         $group: {
-          _id: "$assignedCategories.categoryId",
-          name: { $first: "$assignedCategories.name" },
+          _id: "$categories",
           songCount: { $sum: 1 },
           avgRating: { $avg: "$metadata.ratings.average" },
           totalViews: { $sum: "$metadata.views" },
@@ -284,6 +148,12 @@ export async function getCategoryStats(req: Request, res: Response) {
       // Stage 5: Calculate popularity score and format results
       {
         $addFields: {
+          name: {
+            $arrayElemAt: [
+              categoryNames,
+              { $indexOfArray: [categoryIds, "$_id"] },
+            ],
+          },
           popularityScore: {
             $add: [
               { $multiply: [{ $ifNull: ["$avgRating", 0] }, 2] },
@@ -340,18 +210,18 @@ export async function getCategoryStats(req: Request, res: Response) {
     // Add missing categories with zero counts if requested
     if (includeEmpty) {
       const existingCategoryIds = new Set(categoryStats.map((stat) => stat.id));
-      const missingCategories = CATEGORY_MAPPING_RULES.filter(
-        (rule) => !existingCategoryIds.has(rule.categoryId),
-      ).map((rule) => ({
-        id: rule.categoryId,
-        name: rule.name,
-        songCount: 0,
-        avgRating: 0,
-        recentCount: 0,
-        popularityScore: 0,
-        topSongs: [],
-        lastUpdated: new Date(),
-      }));
+      const missingCategories = categories
+        .filter((category) => !existingCategoryIds.has(category.categoryId))
+        .map((category) => ({
+          id: category.categoryId,
+          name: category.name,
+          songCount: 0,
+          avgRating: 0,
+          recentCount: 0,
+          popularityScore: 0,
+          topSongs: [],
+          lastUpdated: new Date(),
+        }));
 
       categoryStats.push(...missingCategories);
     }
@@ -394,10 +264,10 @@ export async function getCategorySongs(req: Request, res: Response) {
     const { categoryId } = req.params;
 
     // Validate category ID
-    const validCategoryIds = CATEGORY_MAPPING_RULES.map(
-      (rule) => rule.categoryId,
+    const category = (await getActiveCategories()).find(
+      (active) => active.categoryId === categoryId,
     );
-    if (!validCategoryIds.includes(categoryId)) {
+    if (!category) {
       return res.status(404).json({
         success: false,
         error: {
@@ -420,111 +290,50 @@ export async function getCategorySongs(req: Request, res: Response) {
       });
     }
 
-    const { page, limit, sortBy, searchQuery } = queryResult.data;
-    const skip = (page - 1) * limit;
+    const { page, limit, sortBy, searchQuery, cursor } = queryResult.data;
+    const search = searchQuery?.trim();
+    const skip = cursor ? 0 : (page - 1) * limit;
 
-    // Get category mapping rule
-    const categoryRule = CATEGORY_MAPPING_RULES.find(
-      (rule) => rule.categoryId === categoryId,
-    );
-    if (!categoryRule) {
-      return res.status(404).json({
-        success: false,
-        error: {
-          code: "CATEGORY_NOT_FOUND",
-          message: "Category not found",
-        },
-      });
+    // Relevance order cannot be resumed from a cursor
+    if (cursor && search) {
+      return sendInvalidCursor(
+        res,
+        new InvalidCursorError("Search results are paged by page number"),
+      );
     }
 
-    // Build category filter query
+    // Songs store the categories their fields were matched to
     const categoryFilter: QueryFilter = {
       "metadata.isPublic": true,
-      $or: [],
+      categories: categoryId,
     };
 
-    // Add theme filters
-    if (categoryRule.themes.length > 0 && categoryFilter.$or) {
-      categoryFilter.$or.push({
-        themes: { $in: categoryRule.themes.map((t) => new RegExp(t, "i")) },
-      });
-    }
-
-    // Add source filters
-    if (
-      categoryRule.sources &&
-      categoryRule.sources.length > 0 &&
-      categoryFilter.$or
-    ) {
-      categoryFilter.$or.push({
-        source: { $in: categoryRule.sources.map((s) => new RegExp(s, "i")) },
-      });
-    }
-
-    // Add artist filters
-    if (
-      categoryRule.artists &&
-      categoryRule.artists.length > 0 &&
-      categoryFilter.$or
-    ) {
-      categoryFilter.$or.push({
-        artist: { $in: categoryRule.artists.map((a) => new RegExp(a, "i")) },
-      });
-    }
-
-    // Add title pattern filters
-    if (categoryRule.titlePatterns.length > 0 && categoryFilter.$or) {
-      categoryFilter.$or.push({
-        title: {
-          $in: categoryRule.titlePatterns.map((p) => new RegExp(p, "i")),
-        },
-      });
-    }
-
-    // If no OR conditions, remove the $or operator
-    if (categoryFilter.$or && categoryFilter.$or.length === 0) {
-      delete categoryFilter.$or;
-    }
-
     // Add search query filter if provided
-    if (searchQuery && searchQuery.trim()) {
-      categoryFilter.$text = { $search: searchQuery.trim() };
-    }
-
-    // Build sort criteria
-    let sortCriteria: SortCriteria = {};
-    switch (sortBy) {
-      case "popular":
-        sortCriteria = { "metadata.views": -1, "metadata.ratings.average": -1 };
-        break;
-      case "recent":
-        sortCriteria = { createdAt: -1 };
-        break;
-      case "rating":
-        sortCriteria = { "metadata.ratings.average": -1, "metadata.views": -1 };
-        break;
-      case "title":
-        sortCriteria = { title: 1 };
-        break;
-      default:
-        sortCriteria = { "metadata.ratings.average": -1 };
+    if (search) {
+      categoryFilter.$text = { $search: search };
     }
 
+    const order = CATEGORY_SONG_ORDERS[sortBy];
     // If using text search, sort by relevance first
-    if (searchQuery && searchQuery.trim()) {
-      sortCriteria = { score: { $meta: "textScore" }, ...sortCriteria };
-    }
+    const sortCriteria: SortCriteria = search
+      ? { score: { $meta: "textScore" }, ...order }
+      : order;
 
     // Execute query with pagination
-    const [songs, totalCount] = await Promise.all([
-      Song.find(categoryFilter)
+    const [found, totalCount] = await Promise.all([
+      Song.find(
+        cursor
+          ? { ...categoryFilter, ...cursorFilter(cursor, order) }
+          : categoryFilter,
+      )
         .select("title artist slug themes source metadata createdAt")
         .sort(sortCriteria)
         .skip(skip)
-        .limit(limit)
+        .limit(limit + 1)
         .lean(),
       Song.countDocuments(categoryFilter),
     ]);
+    const { items: songs, nextCursor } = toCursorPage(found, limit, order);
 
     // Transform songs to client format
     const transformedSongs = songs.map((song) => ({
@@ -550,12 +359,13 @@ export async function getCategorySongs(req: Request, res: Response) {
           limit,
           total: totalCount,
           totalPages,
-          hasNextPage: page < totalPages,
+          hasNextPage: found.length > limit,
           hasPrevPage: page > 1,
+          nextCursor: search ? null : nextCursor,
         },
         category: {
           id: categoryId,
-          name: categoryRule.name,
+          name: category.name,
         },
         appliedFilters: {
           sortBy,
@@ -564,6 +374,10 @@ export async function getCategorySongs(req: Request, res: Response) {
       },
     });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendInvalidCursor(res, error);
+    }
+
     console.error("Category songs error:", error);
     res.status(500).json({
       success: false,
@@ -574,3 +388,246 @@ export async function getCategorySongs(req: Request, res: Response) {
     });
   }
 }
+
+const ADMIN_ROLES = ["ADMIN"] as const;
+
+const categoryRuleSchema = z.object({
+  type: z.enum(
+    CATEGORY_RULE_TYPES as [CategoryRuleType, ...CategoryRuleType[]],
+  ),
+  values: z.array(z.string().trim().min(1).max(100)).min(1).max(50),
+  weight: z.number().int().min(1).max(10),
+});
+
+const updateCategorySchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  color: z.string().max(20).optional(),
+  rules: z.array(categoryRuleSchema).max(20).optional(),
+  order: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const createCategorySchema = updateCategorySchema.extend({
+  categoryId: z
+    .string()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase words and dashes")
+    .max(50),
+  name: z.string().trim().min(1).max(100),
+  rules: z.array(categoryRuleSchema).max(20),
+});
+
+// Shape sent to the client, matching the client's SpiritualCategory fields
+function transformCategory(category: ICategory) {
+  return {
+    id: category.categoryId,
+    name: category.name,
+    description: category.description,
+    color: category.color,
+    mappingRules: category.rules.map(({ type, values, weight }) => ({
+      type,
+      values,
+      weight,
+    })),
+    order: category.order,
+    isActive: category.isActive,
+    updatedAt: category.updatedAt,
+  };
+}
+
+function sendAdminOnly(res: Response) {
+  return res.status(403).json({
+    success: false,
+    error: {
+      code: "FORBIDDEN",
+      message: "Only admins can manage categories",
+    },
+  });
+}
+
+function sendCategoryNotFound(res: Response) {
+  return res.status(404).json({
+    success: false,
+    error: {
+      code: "CATEGORY_NOT_FOUND",
+      message: "Category not found",
+    },
+  });
+}
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    success: false,
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Invalid category data",
+      details: error.errors,
+    },
+  });
+}
+
+// Rules changed: drop the cached rules and reprocess the catalog
+function applyRuleChange() {
+  invalidateCategoryRules();
+  return startRecategorizeJob();
+}
+
+/**
+ * All categories with their mapping rules, inactive ones included, and the
+ * state of the re-categorize job
+ */
+export async function getCategories(_req: Request, res: Response) {
+  try {
+    await seedDefaultCategories();
+    const categories = await Category.find().sort({ order: 1, name: 1 });
+
+    res.json({
+      success: true,
+      data: categories.map(transformCategory),
+      meta: { recategorization: getRecategorizeJobStatus() },
+    });
+  } catch (error) {
+    console.error("Categories error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "CATEGORIES_ERROR",
+        message: "Failed to fetch categories",
+      },
+    });
+  }
+}
+
+export async function createCategory(req: Request, res: Response) {
+  try {
+    if (!hasRole(req.user, ADMIN_ROLES)) {
+      return sendAdminOnly(res);
+    }
+
+    const parsed = createCategorySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    if (await Category.exists({ categoryId: parsed.data.categoryId })) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: "CATEGORY_EXISTS",
+          message: "A category with this ID already exists",
+        },
+      });
+    }
+
+    const category = await Category.create({
+      ...parsed.data,
+      lastModifiedBy: req.user!.id,
+    });
+    const job = applyRuleChange();
+
+    res.status(201).json({
+      success: true,
+      data: transformCategory(category),
+      meta: { recategorization: job },
+    });
+  } catch (error) {
+    console.error("Create category error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "CATEGORY_CREATE_ERROR",
+        message: "Failed to create category",
+      },
+    });
+  }
+}
+
+export async function updateCategory(req: Request, res: Response) {
+  try {
+    if (!hasRole(req.user, ADMIN_ROLES)) {
+      return sendAdminOnly(res);
+    }
+
+    const parsed = updateCategorySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    const category = await Category.findOne({
+      categoryId: req.params.categoryId,
+    });
+    if (!category) {
+      return sendCategoryNotFound(res);
+    }
+
+    category.set({ ...parsed.data, lastModifiedBy: req.user!.id });
+    // Only rule and status changes move songs between categories
+    const rulesChanged =
+      category.isModified("rules") || category.isModified("isActive");
+    await category.save();
+
+    invalidateCategoryRules();
+    const job = rulesChanged
+      ? startRecategorizeJob()
+      : getRecategorizeJobStatus();
+
+    res.json({
+      success: true,
+      data: transformCategory(category),
+      meta: { recategorization: job },
+    });
+  } catch (error) {
+    console.error("Update category error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "CATEGORY_UPDATE_ERROR",
+        message: "Failed to update category",
+      },
+    });
+  }
+}
+
+export async function deleteCategory(req: Request, res: Response) {
+  try {
+    if (!hasRole(req.user, ADMIN_ROLES)) {
+      return sendAdminOnly(res);
+    }
+
+    const category = await Category.findOneAndDelete({
+      categoryId: req.params.categoryId,
+    });
+    if (!category) {
+      return sendCategoryNotFound(res);
+    }
+
+    const job = applyRuleChange();
+
+    res.json({
+      success: true,
+      data: { id: category.categoryId },
+      meta: { recategorization: job },
+    });
+  } catch (error) {
+    console.error("Delete category error:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "CATEGORY_DELETE_ERROR",
+        message: "Failed to delete category",
+      },
+    });
+  }
+}
+
+// Reprocesses the catalog on demand, e.g. after importing songs in bulk
+export async function recategorize(req: Request, res: Response) {
+  if (!hasRole(req.user, ADMIN_ROLES)) {
+    return sendAdminOnly(res);
+  }
+
+  res.status(202).json({
+    success: true,
+    data: applyRuleChange(),
+  });
+}
@@ -0,0 +1,110 @@
+import { Request, Response } from "express";
+import { Arrangement } from "../database/models";
+import { z } from "zod";
+import { can, sendForbidden } from "../middleware/policy";
+import {
+  ChordExportError,
+  EXPORT_FORMATS,
+  exportChordChart,
+  getExportFilename,
+  type ExportFormat,
+} from "@shared/songs/chordExport";
+
+// Validation schemas
+const idParamsSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid ID format"),
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(
+    Object.keys(EXPORT_FORMATS) as [ExportFormat, ...ExportFormat[]],
+  ),
+  transpose: z.coerce.number().int().min(-11).max(11).default(0),
+});
+
+interface ExportableSong {
+  title?: string;
+  artist?: string;
+}
+
+// GET /api/arrangements/:id/export?format= - Download the chart in another format
+export async function exportArrangement(req: Request, res: Response) {
+  try {
+    const { id } = idParamsSchema.parse(req.params);
+    const { format, transpose } = exportQuerySchema.parse(req.query);
+
+    const arrangement = await Arrangement.findById(id)
+      .populate("songIds", "title artist")
+      .lean();
+    if (!arrangement) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Arrangement not found",
+        },
+      });
+    }
+    if (!can(req.user, "view", "arrangement", arrangement)) {
+      return sendForbidden(res, "view", "arrangement");
+    }
+
+    const songs = (arrangement.songIds as unknown as ExportableSong[]).filter(
+      (song) => typeof song === "object" && song.title,
+    );
+    const title =
+      songs.length === 1 && songs[0].title ? songs[0].title : arrangement.name;
+
+    const output = exportChordChart(arrangement.chordData || "", format, {
+      transpose,
+      metadata: {
+        title,
+        artist: songs.length === 1 ? songs[0].artist : undefined,
+        key: arrangement.key,
+        tempo: arrangement.tempo,
+        timeSignature: arrangement.timeSignature,
+      },
+    });
+
+    res.setHeader(
+      "Content-Type",
+      `${EXPORT_FORMATS[format].mimeType}; charset=utf-8`,
+    );
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${getExportFilename(title, format)}"`,
+    );
+    res.send(output);
+  } catch (error) {
+    console.error("Error exporting arrangement:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid export options",
+          details: error.errors,
+        },
+      });
+    }
+
+    if (error instanceof ChordExportError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: error.message,
+        },
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to export arrangement",
+      },
+    });
+  }
+}
@@ -0,0 +1,193 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { z } from "zod";
+import { Arrangement, Song } from "../database/models";
+import { createArrangementSlug } from "../utils/slug";
+import { recordArrangementRevision } from "../utils/arrangementRevisions";
+import {
+  IMPORT_FORMATS,
+  parseSongImport,
+  SongImportError,
+  updateImportDraft,
+  validateImportDraft,
+  type ImportFormat,
+} from "@shared/songs/songImport";
+import { MUSICAL_KEYS, type MusicalKey } from "@shared/types/music.types";
+
+// Validation schemas
+const importQuerySchema = z.object({
+  filename: z.string().max(255).optional(),
+  format: z
+    .enum(Object.keys(IMPORT_FORMATS) as [ImportFormat, ...ImportFormat[]])
+    .optional(),
+  dryRun: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((v) => v === "true"),
+  // Corrections made in the preview
+  title: z.string().max(200).optional(),
+  artist: z.string().max(100).optional(),
+  key: z.enum(MUSICAL_KEYS as [MusicalKey, ...MusicalKey[]]).optional(),
+  isPublic: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((v) => v !== "false"),
+});
+
+// POST /api/songs/import - Convert an uploaded song file, then save it
+// unless dryRun=true. The request body is the raw file content.
+export async function importSong(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "User authentication required",
+        },
+      });
+    }
+
+    const query = importQuerySchema.parse(req.query);
+    const content = typeof req.body === "string" ? req.body : "";
+
+    const draft = updateImportDraft(
+      parseSongImport(content, {
+        format: query.format,
+        filename: query.filename,
+      }),
+      {
+        title: query.title,
+        artist: query.artist,
+        key: query.key,
+      },
+    );
+    const report = validateImportDraft(draft);
+
+    if (query.dryRun) {
+      return res.json({
+        success: true,
+        data: { draft, report },
+      });
+    }
+
+    if (!report.isValid) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "The imported song has errors",
+          details: report.issues,
+        },
+      });
+    }
+
+    const userId = new Types.ObjectId(req.user.id);
+    const song = new Song({
+      title: draft.song.title,
+      artist: draft.song.artist,
+      ccli: draft.song.ccli,
+      themes: draft.song.themes,
+      metadata: {
+        createdBy: userId,
+        lastModifiedBy: userId,
+        isPublic: query.isPublic,
+        ratings: { average: 0, count: 0 },
+        views: 0,
+      },
+      documentSize: 0,
+    });
+    await song.save();
+
+    const arrangement = new Arrangement({
+      slug: createArrangementSlug(song.title),
+      name: draft.arrangement.name,
+      songIds: [song._id],
+      createdBy: userId,
+      chordData: draft.arrangement.chordData,
+      key: draft.arrangement.key,
+      tempo: draft.arrangement.tempo,
+      timeSignature: draft.arrangement.timeSignature,
+      structure: draft.arrangement.structure,
+      metadata: {
+        isMashup: false,
+        isPublic: query.isPublic,
+        ratings: { average: 0, count: 0 },
+        views: 0,
+      },
+    });
+    try {
+      await arrangement.save();
+    } catch (error) {
+      // Don't leave a song without its chart behind
+      await Song.deleteOne({ _id: song._id });
+      throw error;
+    }
+
+    song.defaultArrangement = arrangement._id as Types.ObjectId;
+    await song.save();
+
+    await recordArrangementRevision(arrangement, {
+      authorId: userId,
+      changedFields: ["chordData", "key", "tempo", "structure"],
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        song: {
+          id: song._id.toString(),
+          title: song.title,
+          slug: song.slug,
+        },
+        arrangement: {
+          id: arrangement._id.toString(),
+          name: arrangement.name,
+          slug: arrangement.slug,
+        },
+        report,
+      },
+    });
+  } catch (error) {
+    console.error("Error importing song:", error);
+
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid import options",
+          details: error.errors,
+        },
+      });
+    }
+
+    if (error instanceof SongImportError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: error.message,
+        },
+      });
+    }
+
+    if (error instanceof Error && error.message.includes("duplicate key")) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: "DUPLICATE_SLUG",
+          message: "Song with similar title already exists",
+        },
+      });
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to import song",
+      },
+    });
+  }
+}
@@ -0,0 +1,231 @@
+import { Request, Response } from "express";
+import { Arrangement, Setlist } from "../database/models";
+import { z } from "zod";
+import { can, sendForbidden } from "../middleware/policy";
+import {
+  renderChartDocument,
+  renderSetlistBooklet,
+  type PrintChart,
+  type PrintOptions,
+} from "@shared/songs/printRenderer";
+
+// Validation schemas
+const idParamsSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid ID format"),
+});
+
+const printQuerySchema = z.object({
+  columns: z.coerce
+    .number()
+    .int()
+    .refine((n) => n === 1 || n === 2, "Columns must be 1 or 2")
+    .default(1),
+  paper: z.enum(["letter", "a4"]).default("letter"),
+  download: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((v) => v === "true"),
+});
+
+const arrangementPrintQuerySchema = printQuerySchema.extend({
+  transpose: z.coerce.number().int().min(-11).max(11).default(0),
+});
+
+interface PrintableSong {
+  _id?: { toString(): string };
+  title?: string;
+  artist?: string;
+  ccli?: string;
+}
+
+interface PrintableArrangement {
+  name?: string;
+  key?: string;
+  tempo?: number;
+  timeSignature?: string;
+  chordData?: string;
+  songIds?: PrintableSong[];
+}
+
+// Header fields come from the arrangement, with the song supplying title and CCLI
+function toPrintChart(
+  arrangement: PrintableArrangement,
+  songId?: string,
+): PrintChart {
+  const songs = (arrangement.songIds || []).filter(
+    (song) => typeof song === "object" && song.title,
+  );
+  const song =
+    songs.find((s) => songId && s._id?.toString() === songId) || songs[0];
+
+  return {
+    title: songs.length > 1 ? arrangement.name : song?.title,
+    artist: song?.artist,
+    key: arrangement.key,
+    tempo: arrangement.tempo,
+    timeSignature: arrangement.timeSignature,
+    ccli:
+      songs
+        .map((s) => s.ccli)
+        .filter(Boolean)
+        .join(", ") || undefined,
+    chordData: arrangement.chordData || "",
+  };
+}
+
+function toPrintOptions(query: z.infer<typeof printQuerySchema>): PrintOptions {
+  return {
+    columns: query.columns as 1 | 2,
+    paperSize: query.paper,
+  };
+}
+
+// Print documents carry user content, so they may not run scripts or load
+// anything beyond their own inline styles
+const PRINT_CONTENT_SECURITY_POLICY =
+  "default-src 'none'; style-src 'unsafe-inline'";
+
+function sendDocument(
+  res: Response,
+  html: string,
+  filename: string,
+  download: boolean,
+) {
+  res.setHeader("Content-Type", "text/html; charset=utf-8");
+  res.setHeader("Content-Security-Policy", PRINT_CONTENT_SECURITY_POLICY);
+  if (download) {
+    const safeName = filename.replace(/[^a-z0-9-_ ]/gi, "").trim() || "chart";
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${safeName}.html"`,
+    );
+  }
+  res.send(html);
+}
+
+function sendNotFound(res: Response, message: string) {
+  return res.status(404).json({
+    success: false,
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    success: false,
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Invalid print options",
+      details: error.errors,
+    },
+  });
+}
+
+// GET /api/arrangements/:id/print - Printable chord chart
+export async function printArrangement(req: Request, res: Response) {
+  try {
+    const { id } = idParamsSchema.parse(req.params);
+    const query = arrangementPrintQuerySchema.parse(req.query);
+
+    const arrangement = await Arrangement.findById(id)
+      .populate("songIds", "title artist ccli")
+      .lean();
+    if (!arrangement) {
+      return sendNotFound(res, "Arrangement not found");
+    }
+    if (!can(req.user, "view", "arrangement", arrangement)) {
+      return sendForbidden(res, "view", "arrangement");
+    }
+
+    const chart = {
+      ...toPrintChart(arrangement as unknown as PrintableArrangement),
+      transpose: query.transpose,
+    };
+
+    sendDocument(
+      res,
+      renderChartDocument(chart, toPrintOptions(query)),
+      chart.title || arrangement.name,
+      query.download,
+    );
+  } catch (error) {
+    console.error("Error printing arrangement:", error);
+
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to print arrangement",
+      },
+    });
+  }
+}
+
+// GET /api/setlists/:id/print - Setlist booklet with cover and contents
+export async function printSetlist(req: Request, res: Response) {
+  try {
+    const { id } = idParamsSchema.parse(req.params);
+    const query = printQuerySchema.parse(req.query);
+
+    const setlist = await Setlist.findById(id).populate({
+      path: "songs.arrangementId",
+      populate: {
+        path: "songIds",
+        select: "title artist ccli",
+      },
+    });
+    if (!setlist) {
+      return sendNotFound(res, "Setlist not found");
+    }
+    if (!can(req.user, "view", "setlist", setlist)) {
+      return sendForbidden(res, "view", "setlist");
+    }
+
+    const charts: PrintChart[] = setlist.songs
+      .filter((item) => item.arrangementId)
+      .map((item) => ({
+        ...toPrintChart(
+          item.arrangementId as unknown as PrintableArrangement,
+          item.songId?.toString(),
+        ),
+        transpose: item.transpose,
+        ...(item.capo ? { capo: item.capo } : {}),
+        notes: item.notes,
+      }));
+
+    sendDocument(
+      res,
+      renderSetlistBooklet(
+        {
+          name: setlist.name,
+          description: setlist.description,
+          charts,
+        },
+        toPrintOptions(query),
+      ),
+      setlist.name,
+      query.download,
+    );
+  } catch (error) {
+    console.error("Error printing setlist:", error);
+
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to print setlist",
+      },
+    });
+  }
+}
@@ -0,0 +1,185 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { z } from "zod";
+import { Setlist, Song, User } from "../database/models";
+import { can, sendForbidden } from "../middleware/policy";
+import {
+  scoreSongSimilarity,
+  type CoOccurrence,
+  type RecommendationSubject,
+} from "../utils/songRecommendations";
+import { transformSongToClientFormat } from "./songs";
+
+const objectIdSchema = z
+  .string()
+  .refine((id) => Types.ObjectId.isValid(id), "Invalid ID");
+
+const similarQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+  // Songs to leave out, e.g. those already in a setlist
+  exclude: z
+    .string()
+    .transform((ids) => ids.split(",").filter(Boolean))
+    .pipe(z.array(objectIdSchema).max(100))
+    .default(""),
+});
+
+// Songs looked at beyond those found through setlists and favorites
+const CANDIDATE_LIMIT = 200;
+// Most frequent partners kept from setlists and favorites
+const PARTNER_LIMIT = 50;
+
+const ARRANGEMENT_FIELDS = "key tempo difficulty chordData";
+
+// Songs appearing in the same setlists, by number of shared setlists
+function findSetlistPartners(songId: Types.ObjectId) {
+  return Setlist.aggregate<{ _id: Types.ObjectId; count: number }>([
+    { $match: { "songs.songId": songId } },
+    // A song listed twice in one setlist counts once
+    { $project: { songIds: { $setUnion: ["$songs.songId", []] } } },
+    { $unwind: "$songIds" },
+    { $match: { songIds: { $ne: songId } } },
+    { $group: { _id: "$songIds", count: { $sum: 1 } } },
+    { $sort: { count: -1 } },
+    { $limit: PARTNER_LIMIT },
+  ]);
+}
+
+// Songs favorited by the users who favorited this one
+function findFavoritePartners(songId: Types.ObjectId) {
+  return User.aggregate<{ _id: Types.ObjectId; count: number }>([
+    { $match: { favoriteSongs: songId } },
+    { $unwind: "$favoriteSongs" },
+    { $match: { favoriteSongs: { $ne: songId } } },
+    { $group: { _id: "$favoriteSongs", count: { $sum: 1 } } },
+    { $sort: { count: -1 } },
+    { $limit: PARTNER_LIMIT },
+  ]);
+}
+
+/**
+ * "Pairs well with": public songs ranked by shared themes and categories,
+ * key and tempo compatibility, and how often they share setlists and
+ * favorites with the song
+ */
+export async function getSimilarSongs(req: Request, res: Response) {
+  try {
+    const idResult = objectIdSchema.safeParse(req.params.id);
+    const queryResult = similarQuerySchema.safeParse(req.query);
+    if (!idResult.success || !queryResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid song ID or query parameters",
+          details: (idResult.error ?? queryResult.error)?.errors,
+        },
+      });
+    }
+
+    const songId = new Types.ObjectId(idResult.data);
+    const { limit, exclude } = queryResult.data;
+
+    const song = await Song.findById(songId)
+      .populate({ path: "defaultArrangement", select: "key tempo" })
+      .lean();
+    if (!song) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Song not found",
+        },
+      });
+    }
+    if (!can(req.user, "view", "song", song)) {
+      return sendForbidden(res, "view", "song");
+    }
+
+    const [setlistPartners, favoritePartners] = await Promise.all([
+      findSetlistPartners(songId),
+      findFavoritePartners(songId),
+    ]);
+
+    const coOccurrence = new Map<string, CoOccurrence>();
+    const partner = (id: Types.ObjectId) => {
+      const key = id.toString();
+      const counts = coOccurrence.get(key) ?? { setlists: 0, favorites: 0 };
+      coOccurrence.set(key, counts);
+      return counts;
+    };
+    setlistPartners.forEach(
+      ({ _id, count }) => (partner(_id).setlists = count),
+    );
+    favoritePartners.forEach(
+      ({ _id, count }) => (partner(_id).favorites = count),
+    );
+
+    const themes = song.themes ?? [];
+    const categories = song.categories ?? [];
+    const candidates = await Song.find({
+      _id: {
+        $nin: [songId, ...exclude.map((id) => new Types.ObjectId(id))],
+      },
+      "metadata.isPublic": true,
+      $or: [
+        { _id: { $in: [...coOccurrence.keys()] } },
+        ...(themes.length > 0 ? [{ themes: { $in: themes } }] : []),
+        ...(categories.length > 0 ? [{ categories: { $in: categories } }] : []),
+      ],
+    })
+      .populate({ path: "defaultArrangement", select: ARRANGEMENT_FIELDS })
+      .sort({ "metadata.ratings.average": -1 })
+      .limit(CANDIDATE_LIMIT)
+      .lean();
+
+    const subject = (doc: {
+      themes?: string[];
+      categories?: string[];
+      defaultArrangement?: unknown;
+    }): RecommendationSubject => {
+      const arrangement = doc.defaultArrangement as
+        | { key?: string; tempo?: number }
+        | undefined;
+      return {
+        themes: doc.themes,
+        categories: doc.categories,
+        key: arrangement?.key,
+        tempo: arrangement?.tempo,
+      };
+    };
+
+    // Ties keep the rating order of the candidate query
+    const recommendations = candidates
+      .map((candidate) => ({
+        candidate,
+        ...scoreSongSimilarity(
+          subject(song),
+          subject(candidate),
+          coOccurrence.get(candidate._id.toString()),
+        ),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ candidate, score, reasons }) => ({
+        song: transformSongToClientFormat(candidate),
+        score,
+        reasons,
+      }));
+
+    res.json({
+      success: true,
+      data: recommendations,
+    });
+  } catch (error) {
+    console.error("Error fetching similar songs:", error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to fetch similar songs",
+      },
+    });
+  }
+}
@@ -1,7 +1,12 @@
 import { Request, Response } from "express";
-import { Review, Arrangement, User } from "../database/models";
+import { Review, Arrangement, User, REVIEW_ORDER } from "../database/models";
 import { z } from "zod";
 import { Types } from "mongoose";
+import {
+  InvalidCursorError,
+  sendInvalidCursor,
+  toCursorPage,
+} from "../utils/cursorPagination";
 
 // Validation schemas
 const createReviewSchema = z.object({
@@ -13,6 +18,13 @@ const reportReviewSchema = z.object({
   reason: z.string().trim().max(500).optional(),
 });
 
+// Without a limit every review is returned
+const reviewsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  // Opaque cursor from a previous page's meta.nextCursor
+  cursor: z.string().max(500).optional(),
+});
+
 // Helper to check if user is admin/moderator
 const canModerateReviews = (user: { role: string }): boolean => {
   return user && (user.role === "ADMIN" || user.role === "MODERATOR");
@@ -23,7 +35,7 @@ export const getReviews = async (req: Request, res: Response) => {
   try {
     const { arrangementId } = req.params;
     const { includeReported } = req.query;
-    const userId = req.query.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
 
     // Validate arrangementId
     if (!Types.ObjectId.isValid(arrangementId)) {
@@ -36,6 +48,19 @@ export const getReviews = async (req: Request, res: Response) => {
       });
     }
 
+    const pageResult = reviewsQuerySchema.safeParse(req.query);
+    if (!pageResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: "VALIDATION_ERROR",
+          message: "Invalid query parameters",
+          details: pageResult.error.errors,
+        },
+      });
+    }
+    const { limit, cursor } = pageResult.data;
+
     // Check if arrangement exists
     const arrangement = await Arrangement.findById(arrangementId).populate(
       "songIds",
@@ -60,7 +85,15 @@ export const getReviews = async (req: Request, res: Response) => {
     }
 
     // Get reviews
-    const reviews = await Review.findByArrangement(arrangementId, showReported);
+    const found = await Review.findByArrangement(arrangementId, showReported, {
+      cursor,
+      limit,
+    });
+    const { items: reviews, nextCursor } = toCursorPage(
+      found,
+      limit ?? found.length,
+      REVIEW_ORDER,
+    );
 
     // Get average rating
     const { average, count } = await Review.getAverageRating(arrangementId);
@@ -88,11 +121,8 @@ export const getReviews = async (req: Request, res: Response) => {
 
     // Find current user's review if logged in
     let currentUserReview = null;
-    if (userId && Types.ObjectId.isValid(userId as string)) {
-      const userReview = await Review.findUserReview(
-        arrangementId,
-        userId as string,
-      );
+    if (userId && Types.ObjectId.isValid(userId)) {
+      const userReview = await Review.findUserReview(arrangementId, userId);
       if (userReview) {
         currentUserReview = {
           id: userReview._id.toString(),
@@ -121,8 +151,13 @@ export const getReviews = async (req: Request, res: Response) => {
           })),
         },
       },
+      meta: { nextCursor },
     });
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return sendInvalidCursor(res, error);
+    }
+
     console.error("Error fetching reviews:", error);
     res.status(500).json({
       success: false,
@@ -138,10 +173,10 @@ export const getReviews = async (req: Request, res: Response) => {
 export const createOrUpdateReview = async (req: Request, res: Response) => {
   try {
     const { arrangementId } = req.params;
-    const userId = req.body.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
 
     // Validate user
-    if (!userId || !Types.ObjectId.isValid(userId as string)) {
+    if (!userId || !Types.ObjectId.isValid(userId)) {
       return res.status(401).json({
         success: false,
         error: {
@@ -202,7 +237,7 @@ export const createOrUpdateReview = async (req: Request, res: Response) => {
     }
 
     // Check for existing review (one review per user per arrangement)
-    let review = await Review.findUserReview(arrangementId, userId as string);
+    let review = await Review.findUserReview(arrangementId, userId);
 
     if (review) {
       // Update existing review
@@ -271,10 +306,10 @@ export const createOrUpdateReview = async (req: Request, res: Response) => {
 export const markHelpful = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.body.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
 
     // Validate user
-    if (!userId || !Types.ObjectId.isValid(userId as string)) {
+    if (!userId || !Types.ObjectId.isValid(userId)) {
       return res.status(401).json({
         success: false,
         error: {
@@ -319,7 +354,7 @@ export const markHelpful = async (req: Request, res: Response) => {
     }
 
     // Toggle helpful status
-    const userObjectId = new Types.ObjectId(userId as string);
+    const userObjectId = new Types.ObjectId(userId);
     const hasMarkedHelpful = review.helpful.some((id) =>
       id.equals(userObjectId),
     );
@@ -354,10 +389,10 @@ export const markHelpful = async (req: Request, res: Response) => {
 export const reportReview = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.body.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
 
     // Validate user
-    if (!userId || !Types.ObjectId.isValid(userId as string)) {
+    if (!userId || !Types.ObjectId.isValid(userId)) {
       return res.status(401).json({
         success: false,
         error: {
@@ -443,11 +478,11 @@ export const reportReview = async (req: Request, res: Response) => {
 // GET /api/reviews/reported - Get all reported reviews (admin/moderator only)
 export const getReportedReviews = async (req: Request, res: Response) => {
   try {
-    const userId = req.query.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
     const { limit = "50" } = req.query;
 
     // Validate user
-    if (!userId || !Types.ObjectId.isValid(userId as string)) {
+    if (!userId || !Types.ObjectId.isValid(userId)) {
       return res.status(401).json({
         success: false,
         error: {
@@ -512,10 +547,10 @@ export const getReportedReviews = async (req: Request, res: Response) => {
 export const clearReport = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.body.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
 
     // Validate user
-    if (!userId || !Types.ObjectId.isValid(userId as string)) {
+    if (!userId || !Types.ObjectId.isValid(userId)) {
       return res.status(401).json({
         success: false,
         error: {
@@ -585,10 +620,10 @@ export const clearReport = async (req: Request, res: Response) => {
 export const deleteReview = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.body.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
 
     // Validate user
-    if (!userId || !Types.ObjectId.isValid(userId as string)) {
+    if (!userId || !Types.ObjectId.isValid(userId)) {
       return res.status(401).json({
         success: false,
         error: {
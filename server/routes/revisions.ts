@@ -0,0 +1,291 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import {
+  Arrangement,
+  ArrangementRevision,
+  type IArrangementRevision,
+} from "../database/models";
+import { z } from "zod";
+import { can, sendForbidden } from "../middleware/policy";
+import { diffLines, summarizeDiff } from "../utils/lineDiff";
+import {
+  getChangedRevisionFields,
+  recordArrangementRevision,
+  takeRevisionSnapshot,
+} from "../utils/arrangementRevisions";
+
+// Validation schemas
+const arrangementParamsSchema = z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid arrangement ID format"),
+});
+
+const revisionParamsSchema = arrangementParamsSchema.extend({
+  revision: z.coerce.number().int().min(1),
+});
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+});
+
+// The author is populated with their name when revisions are read back
+interface PopulatedAuthor {
+  _id: Types.ObjectId;
+  name?: string;
+}
+
+type RevisionWithAuthor = Omit<IArrangementRevision, "author"> & {
+  author: Types.ObjectId | PopulatedAuthor | null;
+};
+
+// Format a revision for API responses
+function formatRevision(revision: RevisionWithAuthor, includeContent = false) {
+  const author = revision.author;
+  return {
+    revision: revision.revision,
+    key: revision.key,
+    tempo: revision.tempo,
+    structure: revision.structure || [],
+    changedFields: revision.changedFields || [],
+    restoredFrom: revision.restoredFrom,
+    author: {
+      _id: author?._id?.toString(),
+      name: author && "name" in author ? author.name : undefined,
+    },
+    createdAt: revision.createdAt,
+    ...(includeContent ? { chordData: revision.chordData } : {}),
+  };
+}
+
+function sendNotFound(res: Response, message: string) {
+  return res.status(404).json({
+    success: false,
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    success: false,
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Invalid request parameters",
+      details: error.errors,
+    },
+  });
+}
+
+// GET /api/arrangements/:id/revisions - List revisions, newest first
+export async function getRevisions(req: Request, res: Response) {
+  try {
+    const { id } = arrangementParamsSchema.parse(req.params);
+
+    const arrangement = await Arrangement.findById(id);
+    if (!arrangement) {
+      return sendNotFound(res, "Arrangement not found");
+    }
+    if (!can(req.user, "view", "arrangement", arrangement)) {
+      return sendForbidden(res, "view", "arrangement");
+    }
+
+    const revisions = await ArrangementRevision.findByArrangement(id);
+
+    res.json({
+      success: true,
+      data: revisions.map((revision) => formatRevision(revision)),
+      meta: {
+        total: revisions.length,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching arrangement revisions:", error);
+
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to fetch revisions",
+      },
+    });
+  }
+}
+
+// GET /api/arrangements/:id/revisions/diff?from=&to= - Line diff between two revisions
+export async function getRevisionDiff(req: Request, res: Response) {
+  try {
+    const { id } = arrangementParamsSchema.parse(req.params);
+    const { from, to } = diffQuerySchema.parse(req.query);
+
+    const arrangement = await Arrangement.findById(id);
+    if (!arrangement) {
+      return sendNotFound(res, "Arrangement not found");
+    }
+    if (!can(req.user, "view", "arrangement", arrangement)) {
+      return sendForbidden(res, "view", "arrangement");
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([
+      ArrangementRevision.findRevision(id, from),
+      ArrangementRevision.findRevision(id, to),
+    ]);
+    if (!fromRevision || !toRevision) {
+      return sendNotFound(res, "Revision not found");
+    }
+
+    const lines = diffLines(fromRevision.chordData, toRevision.chordData);
+
+    res.json({
+      success: true,
+      data: {
+        from: formatRevision(fromRevision),
+        to: formatRevision(toRevision),
+        changedFields: getChangedRevisionFields(
+          takeRevisionSnapshot(fromRevision),
+          takeRevisionSnapshot(toRevision),
+        ),
+        lines,
+        summary: summarizeDiff(lines),
+      },
+    });
+  } catch (error) {
+    console.error("Error diffing arrangement revisions:", error);
+
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to compare revisions",
+      },
+    });
+  }
+}
+
+// GET /api/arrangements/:id/revisions/:revision - Single revision with content
+export async function getRevision(req: Request, res: Response) {
+  try {
+    const { id, revision } = revisionParamsSchema.parse(req.params);
+
+    const arrangement = await Arrangement.findById(id);
+    if (!arrangement) {
+      return sendNotFound(res, "Arrangement not found");
+    }
+    if (!can(req.user, "view", "arrangement", arrangement)) {
+      return sendForbidden(res, "view", "arrangement");
+    }
+
+    const found = await ArrangementRevision.findRevision(id, revision);
+    if (!found) {
+      return sendNotFound(res, "Revision not found");
+    }
+
+    res.json({
+      success: true,
+      data: formatRevision(found, true),
+    });
+  } catch (error) {
+    console.error("Error fetching arrangement revision:", error);
+
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to fetch revision",
+      },
+    });
+  }
+}
+
+// POST /api/arrangements/:id/revisions/:revision/restore - Restore an old revision
+export async function restoreRevision(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "User authentication required",
+        },
+      });
+    }
+
+    const { id, revision } = revisionParamsSchema.parse(req.params);
+
+    const arrangement = await Arrangement.findById(id);
+    if (!arrangement) {
+      return sendNotFound(res, "Arrangement not found");
+    }
+    if (!can(req.user, "update", "arrangement", arrangement)) {
+      return sendForbidden(res, "update", "arrangement");
+    }
+
+    const target = await ArrangementRevision.findRevision(id, revision);
+    if (!target) {
+      return sendNotFound(res, "Revision not found");
+    }
+
+    const previousSnapshot = takeRevisionSnapshot(arrangement);
+    const restoredSnapshot = takeRevisionSnapshot(target);
+    const changedFields = getChangedRevisionFields(
+      previousSnapshot,
+      restoredSnapshot,
+    );
+
+    if (changedFields.length === 0) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: "NO_CHANGES",
+          message: "Arrangement already matches this revision",
+        },
+      });
+    }
+
+    arrangement.chordData = restoredSnapshot.chordData;
+    arrangement.key = restoredSnapshot.key;
+    arrangement.tempo = restoredSnapshot.tempo;
+    arrangement.structure = restoredSnapshot.structure;
+    await arrangement.save();
+
+    // Restoring is itself a change, recorded as a new revision
+    const created = await recordArrangementRevision(arrangement, {
+      authorId: req.user.id,
+      changedFields,
+      previous: previousSnapshot,
+      restoredFrom: revision,
+    });
+
+    res.json({
+      success: true,
+      data: formatRevision(created),
+    });
+  } catch (error) {
+    console.error("Error restoring arrangement revision:", error);
+
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to restore revision",
+      },
+    });
+  }
+}
@@ -0,0 +1,516 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { Song, Arrangement, Setlist } from "../database/models";
+import type { ISong } from "../database/models/Song";
+import type { IArrangement } from "../database/models/Arrangement";
+import type { ISetlist } from "../database/models/Setlist";
+import {
+  blendScore,
+  candidatePattern,
+  scoreFields,
+  type Popularity,
+  type SearchHighlight,
+  type SearchMatch,
+} from "../utils/search";
+import {
+  chordProLyrics,
+  findLyricSnippet,
+  lyricLines,
+  phrasePattern,
+  type SnippetLine,
+} from "../utils/lyricSearch";
+import {
+  findProgression,
+  formatProgression,
+  parseProgression,
+  progressionPattern,
+} from "@shared/arrangements/chordProgression";
+
+// A sung phrase ranks a song below a title match but above a weak one
+const LYRIC_RELEVANCE = 0.75;
+
+const SEARCH_TYPES = ["songs", "arrangements", "setlists"] as const;
+type SearchType = (typeof SEARCH_TYPES)[number];
+
+// The fields each search reads, so candidates stream in small
+const SONG_FIELDS = "slug title artist themes metadata";
+type SongCandidate = Pick<
+  ISong,
+  "_id" | "slug" | "title" | "artist" | "themes" | "metadata"
+>;
+
+const ARRANGEMENT_FIELDS = "slug name key description tags songIds metadata";
+type ArrangementCandidate = Pick<
+  IArrangement,
+  | "_id"
+  | "slug"
+  | "name"
+  | "key"
+  | "description"
+  | "tags"
+  | "songIds"
+  | "metadata"
+>;
+
+const SETLIST_FIELDS = "name description tags songs createdBy metadata";
+type SetlistCandidate = Pick<
+  ISetlist,
+  "_id" | "name" | "description" | "tags" | "songs" | "createdBy" | "metadata"
+>;
+
+const PROGRESSION_FIELDS = "slug name key chordData songIds metadata.views";
+type ProgressionCandidate = Pick<
+  IArrangement,
+  "_id" | "slug" | "name" | "key" | "chordData" | "songIds" | "metadata"
+>;
+
+// Songs listed by title next to an arrangement
+type SongTitles = { songIds: Pick<ISong, "_id" | "title">[] };
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  types: z
+    .string()
+    .optional()
+    .transform((value) =>
+      value
+        ? value
+            .split(",")
+            .filter((type): type is SearchType =>
+              SEARCH_TYPES.includes(type as SearchType),
+            )
+        : [...SEARCH_TYPES],
+    ),
+});
+
+const progressionQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  key: z
+    .string()
+    .regex(/^[A-G][#b]?m?$/)
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+interface Ranked<T> {
+  item: T;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+/**
+ * The best `limit` candidates, best first. Every candidate the prefilter
+ * lets through is scored as it streams in; only the leaders are kept.
+ */
+async function rank<T>(
+  items: AsyncIterable<T>,
+  matchOf: (item: T) => SearchMatch | null,
+  popularityOf: (item: T) => Popularity,
+  limit: number,
+): Promise<Ranked<T>[]> {
+  const ranked: Ranked<T>[] = [];
+  for await (const item of items) {
+    const match = matchOf(item);
+    if (!match) {
+      continue;
+    }
+    const score = blendScore(match.relevance, popularityOf(item));
+    const position = ranked.findIndex((other) => score > other.score);
+    if (position === -1) {
+      if (ranked.length < limit) {
+        ranked.push({ item, score, highlights: match.highlights });
+      }
+      continue;
+    }
+    ranked.splice(position, 0, { item, score, highlights: match.highlights });
+    ranked.length = Math.min(ranked.length, limit);
+  }
+  return ranked;
+}
+
+const roundScore = (score: number) => Math.round(score * 1000) / 1000;
+
+interface LyricSnippet {
+  source: "lyrics" | "arrangement";
+  arrangementName?: string;
+  lines: SnippetLine[];
+}
+
+/**
+ * Snippets for the songs whose lyrics, or the lyrics of one of their
+ * arrangements, contain the query as a phrase, keyed by song ID
+ */
+async function findLyricSnippets(
+  query: string,
+): Promise<Map<string, LyricSnippet>> {
+  const lyricsPattern = phrasePattern(query);
+  const chordProPattern = phrasePattern(query, { inChordPro: true });
+  const snippets = new Map<string, LyricSnippet>();
+  if (!lyricsPattern || !chordProPattern) {
+    return snippets;
+  }
+
+  const songs = Song.find({ "metadata.isPublic": true, lyrics: lyricsPattern })
+    .select("lyrics")
+    .lean<Pick<ISong, "_id" | "lyrics">[]>()
+    .cursor();
+  for await (const song of songs) {
+    const lines = findLyricSnippet(lyricLines(song.lyrics), query);
+    if (lines) {
+      snippets.set(song._id.toString(), { source: "lyrics", lines });
+    }
+  }
+
+  const arrangements = Arrangement.find({
+    "metadata.isPublic": true,
+    chordData: chordProPattern,
+  })
+    .select("name songIds chordData")
+    .lean<Pick<IArrangement, "name" | "songIds" | "chordData">[]>()
+    .cursor();
+  for await (const arrangement of arrangements) {
+    const lines = findLyricSnippet(
+      chordProLyrics(arrangement.chordData),
+      query,
+    );
+    if (!lines) {
+      continue;
+    }
+    // A song's own lyrics win over an arrangement's
+    for (const songId of arrangement.songIds) {
+      if (!snippets.has(songId.toString())) {
+        snippets.set(songId.toString(), {
+          source: "arrangement",
+          arrangementName: arrangement.name,
+          lines,
+        });
+      }
+    }
+  }
+
+  return snippets;
+}
+
+async function searchSongs(query: string, pattern: RegExp, limit: number) {
+  const snippets = await findLyricSnippets(query);
+  const candidates = Song.find({
+    "metadata.isPublic": true,
+    $or: [
+      { title: pattern },
+      { artist: pattern },
+      { themes: pattern },
+      // Songs sung with the phrase, whatever their title
+      ...(snippets.size > 0 ? [{ _id: { $in: [...snippets.keys()] } }] : []),
+    ],
+  })
+    .select(SONG_FIELDS)
+    .lean<SongCandidate[]>()
+    .cursor();
+
+  const ranked = await rank(
+    candidates,
+    (song) => {
+      const match = scoreFields(query, [
+        { field: "title", text: song.title, weight: 1 },
+        { field: "artist", text: song.artist || "", weight: 0.8 },
+        { field: "themes", text: (song.themes || []).join(", "), weight: 0.6 },
+      ]);
+      if (!snippets.has(song._id.toString())) {
+        return match;
+      }
+      return {
+        relevance: Math.max(match?.relevance ?? 0, LYRIC_RELEVANCE),
+        highlights: match?.highlights ?? [],
+      };
+    },
+    (song) => ({
+      rating: song.metadata?.ratings?.average,
+      views: song.metadata?.views,
+    }),
+    limit,
+  );
+
+  return ranked.map(({ item: song, score, highlights }) => ({
+    id: song._id.toString(),
+    slug: song.slug,
+    title: song.title,
+    artist: song.artist || "",
+    score: roundScore(score),
+    highlights,
+    snippet: snippets.get(song._id.toString()),
+  }));
+}
+
+async function searchArrangements(
+  query: string,
+  pattern: RegExp,
+  limit: number,
+) {
+  const candidates = Arrangement.find({
+    "metadata.isPublic": true,
+    $or: [{ name: pattern }, { description: pattern }, { tags: pattern }],
+  })
+    .select(ARRANGEMENT_FIELDS)
+    .lean<ArrangementCandidate[]>()
+    .cursor();
+
+  const ranked = await rank(
+    candidates,
+    (arrangement) =>
+      scoreFields(query, [
+        { field: "name", text: arrangement.name, weight: 1 },
+        {
+          field: "tags",
+          text: (arrangement.tags || []).join(", "),
+          weight: 0.6,
+        },
+        {
+          field: "description",
+          text: arrangement.description || "",
+          weight: 0.5,
+        },
+      ]),
+    (arrangement) => ({
+      rating: arrangement.metadata?.ratings?.average,
+      views: arrangement.metadata?.views,
+    }),
+    limit,
+  );
+
+  // Song titles are only looked up for the arrangements returned
+  const arrangements = await Arrangement.populate<SongTitles>(
+    ranked.map(({ item }) => item),
+    { path: "songIds", select: "title" },
+  );
+
+  return ranked.map(({ score, highlights }, index) => {
+    const arrangement = arrangements[index];
+    return {
+      id: arrangement._id.toString(),
+      slug: arrangement.slug,
+      name: arrangement.name,
+      key: arrangement.key,
+      songTitles: (arrangement.songIds || [])
+        .map((song) => song?.title)
+        .filter(Boolean),
+      score: roundScore(score),
+      highlights,
+    };
+  });
+}
+
+async function searchSetlists(
+  query: string,
+  pattern: RegExp,
+  limit: number,
+  userId?: string,
+) {
+  // Setlists have no ratings or views, so usage stands in for popularity
+  const candidates = Setlist.find({
+    $and: [
+      userId
+        ? { $or: [{ "metadata.isPublic": true }, { createdBy: userId }] }
+        : { "metadata.isPublic": true },
+      { $or: [{ name: pattern }, { description: pattern }, { tags: pattern }] },
+    ],
+  })
+    .select(SETLIST_FIELDS)
+    .lean<SetlistCandidate[]>()
+    .cursor();
+
+  const ranked = await rank(
+    candidates,
+    (setlist) =>
+      scoreFields(query, [
+        { field: "name", text: setlist.name, weight: 1 },
+        { field: "tags", text: (setlist.tags || []).join(", "), weight: 0.6 },
+        {
+          field: "description",
+          text: setlist.description || "",
+          weight: 0.5,
+        },
+      ]),
+    (setlist) => ({ views: setlist.metadata?.usageCount }),
+    limit,
+  );
+
+  return ranked.map(({ item: setlist, score, highlights }) => ({
+    id: setlist._id.toString(),
+    name: setlist.name,
+    songCount: setlist.songs?.length || 0,
+    isOwner: Boolean(userId && setlist.createdBy?.toString() === userId),
+    shareToken: setlist.metadata?.isPublic
+      ? setlist.metadata.shareToken
+      : undefined,
+    score: roundScore(score),
+    highlights,
+  }));
+}
+
+/**
+ * GET /api/search - Typo-tolerant search across songs, arrangements and
+ * setlists, grouped by type and ranked by relevance, ratings and views.
+ * Songs also match phrases from their lyrics, returned as snippets.
+ */
+export async function search(req: Request, res: Response) {
+  const parsed = searchQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: "VALIDATION_ERROR",
+        message: "Search query is required",
+        details: parsed.error.errors,
+      },
+    });
+  }
+
+  const { q: query, limit, types } = parsed.data;
+  const pattern = candidatePattern(query);
+  // Punctuation-only queries have no words to match
+  if (!pattern) {
+    return res.json({
+      success: true,
+      data: { songs: [], arrangements: [], setlists: [] },
+      meta: { query, total: 0 },
+    });
+  }
+
+  try {
+    const [songs, arrangements, setlists] = await Promise.all([
+      types.includes("songs") ? searchSongs(query, pattern, limit) : [],
+      types.includes("arrangements")
+        ? searchArrangements(query, pattern, limit)
+        : [],
+      types.includes("setlists")
+        ? searchSetlists(query, pattern, limit, req.user?.id)
+        : [],
+    ]);
+
+    res.json({
+      success: true,
+      data: { songs, arrangements, setlists },
+      meta: {
+        query,
+        total: songs.length + arrangements.length + setlists.length,
+      },
+    });
+  } catch (error) {
+    console.error("Error searching:", error);
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Search failed",
+      },
+    });
+  }
+}
+
+/**
+ * GET /api/search/progressions - Public arrangements that play a chord
+ * progression, written as numbers, Roman numerals or letter chords in any
+ * key, with the sections where it is played
+ */
+export async function searchProgressions(req: Request, res: Response) {
+  const parsed = progressionQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: "VALIDATION_ERROR",
+        message: "Progression query is required",
+        details: parsed.error.errors,
+      },
+    });
+  }
+
+  const { q: query, key, limit } = parsed.data;
+  const progression = parseProgression(query, key);
+  if (!progression) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: "INVALID_PROGRESSION",
+        message:
+          "Write 2 to 8 chords as numbers (1 5 6m 4), Roman numerals (I V vi IV) or chords (G D Em C)",
+      },
+    });
+  }
+
+  try {
+    const candidates = Arrangement.find({
+      "metadata.isPublic": true,
+      chordProgression: progressionPattern(progression.steps),
+    })
+      .select(PROGRESSION_FIELDS)
+      .lean<ProgressionCandidate[]>()
+      .cursor();
+
+    // Arrangements that play it most often first, then by views. Every
+    // candidate is checked; only the best `limit` are kept.
+    const matches: {
+      arrangement: ProgressionCandidate;
+      occurrences: ReturnType<typeof findProgression>;
+    }[] = [];
+    for await (const arrangement of candidates) {
+      const occurrences = findProgression(
+        arrangement.chordData,
+        arrangement.key,
+        progression.steps,
+      );
+      if (occurrences.length === 0) {
+        continue;
+      }
+      matches.push({ arrangement, occurrences });
+      matches.sort(
+        (a, b) =>
+          b.occurrences.length - a.occurrences.length ||
+          (b.arrangement.metadata?.views ?? 0) -
+            (a.arrangement.metadata?.views ?? 0),
+      );
+      matches.length = Math.min(matches.length, limit);
+    }
+
+    // Song titles are only looked up for the arrangements returned
+    const arrangements = await Arrangement.populate<SongTitles>(
+      matches.map(({ arrangement }) => arrangement),
+      { path: "songIds", select: "title" },
+    );
+    const results = matches.map(({ occurrences }, index) => {
+      const arrangement = arrangements[index];
+      return {
+        id: arrangement._id.toString(),
+        slug: arrangement.slug,
+        name: arrangement.name,
+        key: arrangement.key,
+        songTitles: (arrangement.songIds || [])
+          .map((song) => song?.title)
+          .filter(Boolean),
+        occurrences,
+      };
+    });
+
+    res.json({
+      success: true,
+      data: {
+        progression: formatProgression(progression.steps),
+        key: progression.key,
+        arrangements: results,
+      },
+      meta: { query, total: results.length },
+    });
+  } catch (error) {
+    console.error("Error searching progressions:", error);
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Progression search failed",
+      },
+    });
+  }
+}
@@ -2,6 +2,15 @@ import { Request, Response } from "express";
 import { Setlist, type ISetlist } from "../database/models";
 import { z } from "zod";
 import { Types, type FilterQuery } from "mongoose";
+import { can, sendForbidden } from "../middleware/policy";
+import { estimateSetlistDuration } from "../utils/setlistDuration";
+import {
+  InvalidCursorError,
+  cursorFilter,
+  sendInvalidCursor,
+  toCursorPage,
+  type CursorSort,
+} from "../utils/cursorPagination";
 
 // Validation schemas
 const setlistItemSchema = z.object({
@@ -14,14 +23,20 @@ const setlistItemSchema = z.object({
     .optional()
     .transform((id) => (id ? new Types.ObjectId(id) : undefined)),
   transpose: z.number().min(-11).max(11).default(0),
+  capo: z.number().int().min(0).max(11).optional(),
+  singerId: z
+    .string()
+    .regex(/^[0-9a-fA-F]{24}$/, "Invalid singer ID format")
+    .optional()
+    .transform((id) => (id ? new Types.ObjectId(id) : undefined)),
   notes: z.string().max(500).optional(),
   order: z.number().min(0),
+  durationOverride: z.number().int().min(0).max(3600).optional(), // Seconds
 });
 
 const createSetlistSchema = z.object({
   name: z.string().min(1).max(200),
   description: z.string().max(1000).optional(),
-  createdBy: z.string().min(1),
   songs: z.array(setlistItemSchema).default([]),
   tags: z.array(z.string().max(50)).default([]),
   isPublic: z.boolean().default(false),
@@ -32,6 +47,10 @@ const updateSetlistSchema = createSetlistSchema.partial();
 const querySchema = z.object({
   search: z.string().optional(),
   createdBy: z.string().optional(),
+  mine: z
+    .string()
+    .transform((v) => v === "true")
+    .optional(), // Only the authenticated user's setlists
   tags: z.string().optional(), // Comma-separated
   isPublic: z
     .string()
@@ -43,8 +62,13 @@ const querySchema = z.object({
     .pipe(z.number().min(1).max(50))
     .default("20"),
   offset: z.string().transform(Number).pipe(z.number().min(0)).default("0"),
+  // Opaque cursor from a previous page's meta.nextCursor
+  cursor: z.string().max(500).optional(),
 });
 
+// Newest first; text searches are ranked by relevance and paged by offset
+const SETLIST_ORDER: CursorSort = { createdAt: -1, _id: -1 };
+
 // Get all setlists with optional filtering
 export async function getSetlists(req: Request, res: Response) {
   try {
@@ -61,6 +85,33 @@ export async function getSetlists(req: Request, res: Response) {
       filter.createdBy = query.createdBy;
     }
 
+    if (query.mine) {
+      if (!req.user) {
+        return res.status(401).json({
+          success: false,
+          error: {
+            code: "UNAUTHORIZED",
+            message: "User authentication required",
+          },
+        });
+      }
+      filter.createdBy = req.user.id;
+    }
+
+    // Others' private setlists are listed only for roles that may view them
+    if (
+      !query.mine &&
+      !can(req.user, "view", "setlist", { metadata: { isPublic: false } })
+    ) {
+      filter.$and = [
+        req.user
+          ? {
+              $or: [{ "metadata.isPublic": true }, { createdBy: req.user.id }],
+            }
+          : { "metadata.isPublic": true },
+      ];
+    }
+
     if (query.search) {
       filter.$text = { $search: query.search };
     }
@@ -70,9 +121,20 @@ export async function getSetlists(req: Request, res: Response) {
       filter.tags = { $in: tagArray };
     }
 
+    if (query.cursor && query.search) {
+      return sendInvalidCursor(
+        res,
+        new InvalidCursorError("Search results are paged by offset"),
+      );
+    }
+
     // Execute query with pagination and population
     const [setlists, total] = await Promise.all([
-      Setlist.find(filter)
+      Setlist.find(
+        query.cursor
+          ? { ...filter, ...cursorFilter(query.cursor, SETLIST_ORDER) }
+          : filter,
+      )
         .populate({
           path: "songs.arrangementId",
           populate: {
@@ -80,27 +142,35 @@ export async function getSetlists(req: Request, res: Response) {
             select: "title artist key tempo difficulty",
           },
         })
-        .sort(
-          query.search ? { score: { $meta: "textScore" } } : { createdAt: -1 },
-        )
-        .limit(query.limit)
-        .skip(query.offset)
+        .sort(query.search ? { score: { $meta: "textScore" } } : SETLIST_ORDER)
+        .limit(query.limit + 1)
+        .skip(query.cursor ? 0 : query.offset)
         .lean(),
       Setlist.countDocuments(filter),
     ]);
+    const { items, nextCursor } = toCursorPage(
+      setlists,
+      query.limit,
+      SETLIST_ORDER,
+    );
 
     res.json({
       success: true,
-      data: setlists,
+      data: items,
       meta: {
         total,
         page: Math.floor(query.offset / query.limit) + 1,
         limit: query.limit,
+        nextCursor: query.search ? null : nextCursor,
       },
     });
   } catch (error) {
     console.error("Error fetching setlists:", error);
 
+    if (error instanceof InvalidCursorError) {
+      return sendInvalidCursor(res, error);
+    }
+
     if (error instanceof z.ZodError) {
       return res.status(400).json({
         success: false,
@@ -145,21 +215,18 @@ export async function getSetlist(req: Request, res: Response) {
       });
     }
 
-    // Check if setlist is public or user has access
-    if (!setlist.metadata.isPublic) {
-      // TODO: Add user authorization check
-      return res.status(403).json({
-        success: false,
-        error: {
-          code: "FORBIDDEN",
-          message: "Access denied to private setlist",
-        },
-      });
+    // Private setlists are visible to their owner and admins
+    if (!can(req.user, "view", "setlist", setlist)) {
+      return sendForbidden(res, "view", "setlist");
     }
 
     res.json({
       success: true,
       data: setlist,
+      meta: {
+        // Per-song timing from the populated arrangements
+        duration: estimateSetlistDuration(setlist.songs),
+      },
     });
   } catch (error) {
     console.error("Error fetching setlist:", error);
@@ -211,12 +278,22 @@ export async function getSetlistByToken(req: Request, res: Response) {
 // Create new setlist
 export async function createSetlist(req: Request, res: Response) {
   try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "User authentication required",
+        },
+      });
+    }
+
     const setlistData = createSetlistSchema.parse(req.body);
 
     const setlist = new Setlist({
       name: setlistData.name,
       description: setlistData.description,
-      createdBy: setlistData.createdBy,
+      createdBy: req.user.id,
       songs: setlistData.songs,
       tags: setlistData.tags,
       metadata: {
@@ -281,7 +358,10 @@ export async function updateSetlist(req: Request, res: Response) {
       });
     }
 
-    // TODO: Add authorization check - only owner can update
+    // Only the owner or an admin can update
+    if (!can(req.user, "update", "setlist", setlist)) {
+      return sendForbidden(res, "update", "setlist");
+    }
 
     // Update basic fields
     if (updateData.name) {
@@ -298,8 +378,11 @@ export async function updateSetlist(req: Request, res: Response) {
         songId: song.songId!,
         arrangementId: song.arrangementId,
         transpose: song.transpose ?? 0,
+        capo: song.capo,
+        singerId: song.singerId,
         notes: song.notes,
         order: song.order!,
+        durationOverride: song.durationOverride,
       }));
     }
 
@@ -364,7 +447,10 @@ export async function deleteSetlist(req: Request, res: Response) {
       });
     }
 
-    // TODO: Add authorization check - only owner can delete
+    // Only the owner or an admin can delete
+    if (!can(req.user, "delete", "setlist", setlist)) {
+      return sendForbidden(res, "delete", "setlist");
+    }
 
     await Setlist.findByIdAndDelete(id);
 
@@ -413,7 +499,10 @@ export async function addSongToSetlist(req: Request, res: Response) {
       });
     }
 
-    // TODO: Add authorization check
+    // Only the owner or an admin can edit the song list
+    if (!can(req.user, "update", "setlist", setlist)) {
+      return sendForbidden(res, "update", "setlist");
+    }
 
     await setlist.addSong(arrangementId, transposeBy, notes);
 
@@ -451,7 +540,10 @@ export async function removeSongFromSetlist(req: Request, res: Response) {
       });
     }
 
-    // TODO: Add authorization check
+    // Only the owner or an admin can edit the song list
+    if (!can(req.user, "update", "setlist", setlist)) {
+      return sendForbidden(res, "update", "setlist");
+    }
 
     await setlist.removeSong(arrangementId);
 
@@ -500,7 +592,10 @@ export async function reorderSetlistSongs(req: Request, res: Response) {
       });
     }
 
-    // TODO: Add authorization check
+    // Only the owner or an admin can edit the song list
+    if (!can(req.user, "update", "setlist", setlist)) {
+      return sendForbidden(res, "update", "setlist");
+    }
 
     await setlist.reorderSongs(songOrder);
 
@@ -520,3 +615,126 @@ export async function reorderSetlistSongs(req: Request, res: Response) {
     });
   }
 }
+
+// Count a user's performance of a setlist once. The update matches only
+// while the user is uncounted, so repeats change nothing
+async function countUsageOnce(setlist: ISetlist, userId: string) {
+  const user = new Types.ObjectId(userId);
+  const counted = await Setlist.findOneAndUpdate(
+    { _id: setlist._id, "metadata.sharedUsageBy": { $ne: user } },
+    {
+      $addToSet: { "metadata.sharedUsageBy": user },
+      $inc: { "metadata.usageCount": 1 },
+      $set: { "metadata.lastUsedAt": new Date() },
+    },
+    { new: true },
+  );
+  return (counted ?? setlist).metadata;
+}
+
+// Record a finished performance of a setlist
+export async function recordSetlistUsage(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const setlist = await Setlist.findById(id);
+
+    if (!setlist) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Setlist not found",
+        },
+      });
+    }
+
+    if (!can(req.user, "view", "setlist", setlist)) {
+      return sendForbidden(res, "view", "setlist");
+    }
+
+    // Other viewers of a public setlist are counted once each, as they are
+    // through its share link
+    let usage = setlist.metadata;
+    if (can(req.user, "update", "setlist", setlist)) {
+      await setlist.incrementUsage();
+    } else if (req.user) {
+      usage = await countUsageOnce(setlist, req.user.id);
+    }
+    const { usageCount, lastUsedAt } = usage;
+
+    res.json({
+      success: true,
+      data: {
+        usageCount,
+        lastUsedAt,
+      },
+    });
+  } catch (error) {
+    console.error("Error recording setlist usage:", error);
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to record setlist usage",
+      },
+    });
+  }
+}
+
+// Record a finished performance started from a public share link. Anyone
+// can open the link, so each signed-in user is counted once per setlist
+export async function recordSharedSetlistUsage(req: Request, res: Response) {
+  try {
+    const { token } = req.params;
+
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "User authentication required",
+        },
+      });
+    }
+
+    const setlist = await Setlist.findOne({
+      "metadata.shareToken": token,
+      "metadata.isPublic": true,
+    });
+
+    if (!setlist) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: "NOT_FOUND",
+          message: "Setlist not found or share token invalid",
+        },
+      });
+    }
+
+    const { usageCount, lastUsedAt } = await countUsageOnce(
+      setlist,
+      req.user.id,
+    );
+
+    res.json({
+      success: true,
+      data: {
+        usageCount,
+        lastUsedAt,
+      },
+    });
+  } catch (error) {
+    console.error("Error recording shared setlist usage:", error);
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to record setlist usage",
+      },
+    });
+  }
+}
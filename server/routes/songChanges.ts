@@ -0,0 +1,213 @@
+import { Request, Response } from "express";
+import { Song, SongChange, type ISongChange } from "../database/models";
+import { z } from "zod";
+import { Types } from "mongoose";
+import { can, hasRole, sendForbidden } from "../middleware/policy";
+import { isSameSongValue, recordSongChanges } from "../utils/songChanges";
+
+// Validation schemas
+const objectIdSchema = z
+  .string()
+  .regex(/^[0-9a-fA-F]{24}$/, "Invalid ID format");
+
+const songParamsSchema = z.object({
+  id: objectIdSchema,
+});
+
+const changeParamsSchema = songParamsSchema.extend({
+  changeId: objectIdSchema,
+});
+
+const changesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Roles allowed to revert individual changes on any song
+const REVERT_ROLES = ["ADMIN", "MODERATOR"] as const;
+
+// The editor is populated with their name when changes are read back
+interface PopulatedEditor {
+  _id: Types.ObjectId;
+  name?: string;
+}
+
+type ChangeWithEditor = Omit<ISongChange, "changedBy"> & {
+  changedBy: Types.ObjectId | PopulatedEditor | null;
+};
+
+// Format a change log entry for API responses
+function formatChange(change: ChangeWithEditor, revertedIds: Set<string>) {
+  const changedBy = change.changedBy;
+  return {
+    id: change._id.toString(),
+    field: change.field,
+    oldValue: change.oldValue ?? null,
+    newValue: change.newValue ?? null,
+    source: change.source,
+    revertOf: change.revertOf?.toString(),
+    reverted: revertedIds.has(change._id.toString()),
+    changedBy: {
+      _id: changedBy?._id?.toString(),
+      name: changedBy && "name" in changedBy ? changedBy.name : undefined,
+    },
+    createdAt: change.createdAt,
+  };
+}
+
+function sendNotFound(res: Response, message: string) {
+  return res.status(404).json({
+    success: false,
+    error: {
+      code: "NOT_FOUND",
+      message,
+    },
+  });
+}
+
+function sendValidationError(res: Response, error: z.ZodError) {
+  return res.status(400).json({
+    success: false,
+    error: {
+      code: "VALIDATION_ERROR",
+      message: "Invalid request parameters",
+      details: error.errors,
+    },
+  });
+}
+
+// GET /api/songs/:id/changes - Field change log, newest first
+export async function getSongChanges(req: Request, res: Response) {
+  try {
+    const { id } = songParamsSchema.parse(req.params);
+    const { limit } = changesQuerySchema.parse(req.query);
+
+    const song = await Song.findById(id);
+    if (!song) {
+      return sendNotFound(res, "Song not found");
+    }
+    if (!can(req.user, "view", "song", song)) {
+      return sendForbidden(res, "view", "song");
+    }
+
+    const [changes, reverted] = await Promise.all([
+      SongChange.findBySong(id, limit),
+      SongChange.findReverted(id),
+    ]);
+    const revertedIds = new Set(
+      reverted.map((revertId) => revertId.toString()),
+    );
+
+    res.json({
+      success: true,
+      data: changes.map((change) => formatChange(change, revertedIds)),
+      meta: {
+        total: changes.length,
+        canRevert: hasRole(req.user, REVERT_ROLES),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching song changes:", error);
+
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to fetch song changes",
+      },
+    });
+  }
+}
+
+// POST /api/songs/:id/changes/:changeId/revert - Undo a single field change
+export async function revertSongChange(req: Request, res: Response) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "User authentication required",
+        },
+      });
+    }
+
+    const { id, changeId } = changeParamsSchema.parse(req.params);
+
+    // Only moderators and admins can revert changes
+    if (!hasRole(req.user, REVERT_ROLES)) {
+      return res.status(403).json({
+        success: false,
+        error: {
+          code: "FORBIDDEN",
+          message: "Only moderators can revert song changes",
+        },
+      });
+    }
+
+    const song = await Song.findById(id);
+    if (!song) {
+      return sendNotFound(res, "Song not found");
+    }
+
+    const change = await SongChange.findOne({ _id: changeId, songId: id });
+    if (!change) {
+      return sendNotFound(res, "Change not found");
+    }
+
+    if (await SongChange.exists({ revertOf: change._id })) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: "ALREADY_REVERTED",
+          message: "This change has already been reverted",
+        },
+      });
+    }
+
+    // Later edits to the same field would be lost, so they must be reverted first
+    const field = change.field;
+    if (!isSameSongValue(song[field], change.newValue)) {
+      return res.status(409).json({
+        success: false,
+        error: {
+          code: "CONFLICT",
+          message: `The ${field} field has been changed since; revert the later change first`,
+        },
+      });
+    }
+
+    const currentValue = song[field] ?? null;
+    song.set(field, change.oldValue ?? undefined);
+    song.metadata.lastModifiedBy = new Types.ObjectId(req.user.id);
+    await song.save();
+
+    const [revert] = await recordSongChanges(
+      song._id,
+      [{ field, oldValue: currentValue, newValue: change.oldValue ?? null }],
+      { changedBy: req.user.id, source: "revert", revertOf: change._id },
+    );
+
+    res.json({
+      success: true,
+      data: formatChange(revert, new Set()),
+    });
+  } catch (error) {
+    console.error("Error reverting song change:", error);
+
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+
+    res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to revert song change",
+      },
+    });
+  }
+}
@@ -2,7 +2,29 @@ import { Request, Response } from "express";
 import { Song } from "../database/models";
 import { z } from "zod";
 import type { ISong } from "../database/models/Song";
-import type { FilterQuery } from "mongoose";
+import { Types, type FilterQuery } from "mongoose";
+import { can, sendForbidden } from "../middleware/policy";
+import {
+  diffSongFields,
+  recordSongChanges,
+  takeSongFieldSnapshot,
+} from "../utils/songChanges";
+import {
+  SONG_SORTS,
+  buildSongFacetsPipeline,
+  buildSongPagePipeline,
+  readSongCatalog,
+  songSortOrder,
+  type CatalogSong,
+  type SongCatalogQuery,
+  type SongFacetsAggregate,
+} from "../utils/songFacets";
+import {
+  InvalidCursorError,
+  sendInvalidCursor,
+  toCursorPage,
+} from "../utils/cursorPagination";
+import { SONG_FACETS, TEMPO_RANGES } from "@shared/songs/songFacets";
 
 // Helper function to extract basic chords from ChordPro data
 function extractBasicChords(chordData: string): string[] {
@@ -26,7 +48,7 @@ function extractBasicChords(chordData: string): string[] {
 }
 
 // Helper function to transform MongoDB song to client format
-function transformSongToClientFormat(song: ISong | any) {
+export function transformSongToClientFormat(song: ISong | any) {
   try {
     // For now, we don't have arrangement data populated
     // This would need to be populated via .populate('defaultArrangement') in the query
@@ -50,12 +72,15 @@ function transformSongToClientFormat(song: ISong | any) {
       ccli: song.ccli,
       themes: song.themes || [],
       source: song.source,
+      categories: song.categories || [],
       lyrics: song.lyrics,
       notes: song.notes,
       viewCount: song.metadata?.views || 0,
       avgRating: song.metadata?.ratings?.average || 0,
       ratingCount: song.metadata?.ratings?.count || 0,
-      defaultArrangementId: song.defaultArrangement?.toString(),
+      defaultArrangementId: (
+        song.defaultArrangement?._id ?? song.defaultArrangement
+      )?.toString(),
       createdBy: song.metadata?.createdBy?.toString(),
       lastModifiedBy: song.metadata?.lastModifiedBy?.toString(),
       isPublic: song.metadata?.isPublic ?? true,
@@ -64,6 +89,7 @@ function transformSongToClientFormat(song: ISong | any) {
       // Add missing ClientSong fields - these come from arrangement if populated
       key: song.defaultArrangement?.key,
       tempo: song.defaultArrangement?.tempo,
+      timeSignature: song.defaultArrangement?.timeSignature,
       difficulty: song.defaultArrangement?.difficulty || "intermediate",
       basicChords,
       lastUsed: undefined, // Client-side only field
@@ -90,7 +116,6 @@ const createSongSchema = z.object({
   source: z.string().max(100).optional(),
   lyrics: z.string().max(10000).optional(),
   notes: z.string().max(2000).optional(),
-  createdBy: z.string().min(1),
   isPublic: z.boolean().default(true),
 });
 
@@ -99,17 +124,34 @@ const updateSongSchema = createSongSchema.partial();
 const querySchema = z.object({
   search: z.string().optional(),
   theme: z.string().optional(),
+  key: z.string().optional(),
+  difficulty: z.enum(["beginner", "intermediate", "advanced"]).optional(),
+  tempo: z
+    .enum(TEMPO_RANGES.map((range) => range.value) as [string, ...string[]])
+    .optional(),
+  timeSignature: z.string().optional(),
+  source: z.string().optional(),
+  decade: z
+    .string()
+    .regex(/^\d{3}0$/)
+    .optional(),
+  category: z.string().optional(),
   compositionYear: z.string().transform(Number).pipe(z.number()).optional(),
+  // Limits the catalog to these songs, e.g. the matches of a search
+  ids: z
+    .string()
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(z.string().regex(/^[0-9a-fA-F]{24}$/)).max(50))
+    .optional(),
+  sort: z.enum(SONG_SORTS).optional(),
   limit: z
     .string()
     .transform(Number)
     .pipe(z.number().min(1).max(50))
     .default("20"),
   offset: z.string().transform(Number).pipe(z.number().min(0)).default("0"),
-  isPublic: z
-    .string()
-    .transform((v) => v === "true")
-    .default("true"),
+  // Opaque cursor from a previous page's meta.nextCursor
+  cursor: z.string().max(500).optional(),
 });
 
 // Get all songs with optional filtering
@@ -118,51 +160,89 @@ export async function getSongs(req: Request, res: Response) {
     const query = querySchema.parse(req.query);
 
     // Build MongoDB query
-    const filter: FilterQuery<ISong> = { "metadata.isPublic": query.isPublic };
+    const match: FilterQuery<ISong> = {};
+
+    // Others' private songs are listed only for roles that may view them
+    if (!can(req.user, "view", "song", { metadata: { isPublic: false } })) {
+      if (req.user) {
+        match.$and = [
+          {
+            $or: [
+              { "metadata.isPublic": true },
+              { "metadata.createdBy": new Types.ObjectId(req.user.id) },
+            ],
+          },
+        ];
+      } else {
+        match["metadata.isPublic"] = true;
+      }
+    }
 
     if (query.search) {
-      filter.$text = { $search: query.search };
+      match.$text = { $search: query.search };
     }
 
-    if (query.theme) {
-      filter.themes = query.theme;
+    if (query.compositionYear) {
+      match.compositionYear = query.compositionYear;
     }
 
-    if (query.compositionYear) {
-      filter.compositionYear = query.compositionYear;
-    }
-
-    // Execute query with pagination
-    const [songs, total] = await Promise.all([
-      Song.find(filter)
-        .populate({
-          path: "defaultArrangement",
-          select: "key tempo difficulty chordData",
-        })
-        .sort(
-          query.search ? { score: { $meta: "textScore" } } : { createdAt: -1 },
-        )
-        .limit(query.limit)
-        .skip(query.offset)
-        .lean(),
-      Song.countDocuments(filter),
+    if (query.ids) {
+      match._id = { $in: query.ids.map((id) => new Types.ObjectId(id)) };
+    }
+
+    // The page and the facet counts are separate aggregations, so the page
+    // is not held up by joining arrangements for every matching song
+    const sort = query.sort ?? (query.search ? "relevance" : "recent");
+    const catalogQuery: SongCatalogQuery = {
+      match,
+      filters: Object.fromEntries(
+        SONG_FACETS.flatMap((facet) =>
+          query[facet] ? [[facet, query[facet]]] : [],
+        ),
+      ),
+      sort,
+      offset: query.offset,
+      limit: query.limit,
+      cursor: query.cursor,
+    };
+    // Later cursor pages keep the first page's total and facet counts
+    const firstPage = !query.cursor;
+    const [page, facetResults] = await Promise.all([
+      Song.aggregate<CatalogSong>(buildSongPagePipeline(catalogQuery)),
+      firstPage
+        ? Song.aggregate<SongFacetsAggregate>(
+            buildSongFacetsPipeline(catalogQuery),
+          )
+        : undefined,
     ]);
+    const { songs, total, facets } = readSongCatalog(page, facetResults?.[0]);
+    const { items, nextCursor } = toCursorPage(
+      songs,
+      query.limit,
+      songSortOrder(sort),
+    );
 
     // Transform songs to client format
-    const transformedSongs = songs.map(transformSongToClientFormat);
+    const transformedSongs = items.map(transformSongToClientFormat);
 
     res.json({
       success: true,
       data: transformedSongs,
       meta: {
-        total,
+        total: firstPage ? total : undefined,
         page: Math.floor(query.offset / query.limit) + 1,
         limit: query.limit,
+        nextCursor,
+        facets: firstPage ? facets : undefined,
       },
     });
   } catch (error) {
     console.error("Error fetching songs:", error);
 
+    if (error instanceof InvalidCursorError) {
+      return sendInvalidCursor(res, error);
+    }
+
     if (error instanceof z.ZodError) {
       return res.status(400).json({
         success: false,
@@ -204,16 +284,9 @@ export async function getSong(req: Request, res: Response) {
       });
     }
 
-    // Check if song is public or user has access
-    if (!song.metadata.isPublic) {
-      // TODO: Add user authorization check
-      return res.status(403).json({
-        success: false,
-        error: {
-          code: "FORBIDDEN",
-          message: "Access denied to private song",
-        },
-      });
+    // Private songs are visible to their owner, admins and moderators
+    if (!can(req.user, "view", "song", song)) {
+      return sendForbidden(res, "view", "song");
     }
 
     // Update view count
@@ -280,16 +353,9 @@ export async function getSongBySlug(req: Request, res: Response) {
       });
     }
 
-    // Check if song is public or user has access
-    if (!song.metadata.isPublic) {
-      // TODO: Add user authorization check
-      return res.status(403).json({
-        success: false,
-        error: {
-          code: "FORBIDDEN",
-          message: "Access denied to private song",
-        },
-      });
+    // Private songs are visible to their owner, admins and moderators
+    if (!can(req.user, "view", "song", song)) {
+      return sendForbidden(res, "view", "song");
     }
 
     // Update view count
@@ -353,6 +419,16 @@ export async function getSongBySlug(req: Request, res: Response) {
 // Create new song
 export async function createSong(req: Request, res: Response) {
   try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "User authentication required",
+        },
+      });
+    }
+
     const songData = createSongSchema.parse(req.body);
 
     const song = new Song({
@@ -365,8 +441,8 @@ export async function createSong(req: Request, res: Response) {
       lyrics: songData.lyrics,
       notes: songData.notes,
       metadata: {
-        createdBy: songData.createdBy,
-        lastModifiedBy: songData.createdBy,
+        createdBy: req.user.id,
+        lastModifiedBy: req.user.id,
         isPublic: songData.isPublic,
         ratings: {
           average: 0,
@@ -439,7 +515,12 @@ export async function updateSong(req: Request, res: Response) {
       });
     }
 
-    // TODO: Add authorization check - only owner or admin can update
+    // Only the owner, an admin or a moderator can update
+    if (!can(req.user, "update", "song", song)) {
+      return sendForbidden(res, "update", "song");
+    }
+
+    const previousFields = takeSongFieldSnapshot(song);
 
     // Update fields
     if (updateData.title !== undefined) {
@@ -471,13 +552,21 @@ export async function updateSong(req: Request, res: Response) {
       song.metadata.isPublic = updateData.isPublic;
     }
 
-    // Update lastModifiedBy
-    if (updateData.createdBy) {
-      song.metadata.lastModifiedBy = updateData.createdBy as any;
+    // Record the authenticated editor
+    if (req.user) {
+      song.metadata.lastModifiedBy = new Types.ObjectId(req.user.id);
     }
 
     await song.save();
 
+    if (req.user) {
+      await recordSongChanges(
+        song._id,
+        diffSongFields(previousFields, takeSongFieldSnapshot(song)),
+        { changedBy: req.user.id, source: "edit" },
+      );
+    }
+
     // Transform to client format
     const transformedSong = transformSongToClientFormat(song);
 
@@ -526,7 +615,10 @@ export async function deleteSong(req: Request, res: Response) {
       });
     }
 
-    // TODO: Add authorization check - only owner or admin can delete
+    // Only the owner, an admin or a moderator can delete
+    if (!can(req.user, "delete", "song", song)) {
+      return sendForbidden(res, "delete", "song");
+    }
     // TODO: Check if song has arrangements before deleting
 
     await Song.findByIdAndDelete(id);
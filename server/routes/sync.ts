@@ -10,6 +10,24 @@ import {
   type IUser,
 } from "../database/models";
 import { z } from "zod";
+import type { AuthUser } from "../../shared/types/express.types";
+import {
+  diffSongFields,
+  recordSongChanges,
+  takeSongFieldSnapshot,
+} from "../utils/songChanges";
+import {
+  getChangedRevisionFields,
+  recordArrangementRevision,
+  takeRevisionSnapshot,
+} from "../utils/arrangementRevisions";
+import {
+  can,
+  forbiddenMessage,
+  type PolicyAction,
+  type PolicyResource,
+  type PolicySubject,
+} from "../middleware/policy";
 
 // Validation schemas
 const syncOperationSchema = z.object({
@@ -30,6 +48,17 @@ const batchSyncSchema = z.object({
 // Batch sync endpoint - processes multiple operations
 export async function batchSync(req: Request, res: Response) {
   try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "User authentication required",
+        },
+      });
+    }
+    const user = req.user;
+
     const { operations, clientLastSync } = batchSyncSchema.parse(req.body);
 
     const results = [];
@@ -38,7 +67,7 @@ export async function batchSync(req: Request, res: Response) {
     // Process each operation
     for (const operation of operations) {
       try {
-        const result = await processSyncOperation(operation);
+        const result = await processSyncOperation(operation, user);
         results.push({
           operationId: operation.id,
           success: true,
@@ -48,7 +77,16 @@ export async function batchSync(req: Request, res: Response) {
         console.error("Sync operation failed:", operation, error);
 
         // Check if it's a conflict
-        if (error instanceof ConflictError) {
+        if (error instanceof ForbiddenError) {
+          results.push({
+            operationId: operation.id,
+            success: false,
+            error: {
+              code: "FORBIDDEN",
+              message: error.message,
+            },
+          });
+        } else if (error instanceof ConflictError) {
           conflicts.push({
             operationId: operation.id,
             type: "conflict",
@@ -71,7 +109,7 @@ export async function batchSync(req: Request, res: Response) {
 
     // Get server changes since client's last sync
     const serverChanges = clientLastSync
-      ? await getServerChangesSince(clientLastSync)
+      ? await getServerChangesSince(clientLastSync, user)
       : [];
 
     res.json({
@@ -152,6 +190,17 @@ export async function getSyncStatus(req: Request, res: Response) {
 // Resolve conflicts endpoint
 export async function resolveConflicts(req: Request, res: Response) {
   try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "User authentication required",
+        },
+      });
+    }
+    const user = req.user;
+
     const { resolutions } = req.body;
 
     if (!Array.isArray(resolutions)) {
@@ -174,27 +223,33 @@ export async function resolveConflicts(req: Request, res: Response) {
 
         if (choice === "client") {
           // Apply client version
-          result = await processSyncOperation({
-            id: operationId,
-            operation: "update",
-            entity: resolution.entity,
-            entityId: resolution.entityId,
-            data,
-            timestamp: Date.now(),
-          });
+          result = await processSyncOperation(
+            {
+              id: operationId,
+              operation: "update",
+              entity: resolution.entity,
+              entityId: resolution.entityId,
+              data,
+              timestamp: Date.now(),
+            },
+            user,
+          );
         } else if (choice === "server") {
           // Keep server version (no action needed)
           result = { message: "Server version kept" };
         } else if (choice === "merge") {
           // Apply merged data
-          result = await processSyncOperation({
-            id: operationId,
-            operation: "update",
-            entity: resolution.entity,
-            entityId: resolution.entityId,
-            data,
-            timestamp: Date.now(),
-          });
+          result = await processSyncOperation(
+            {
+              id: operationId,
+              operation: "update",
+              entity: resolution.entity,
+              entityId: resolution.entityId,
+              data,
+              timestamp: Date.now(),
+            },
+            user,
+          );
         }
 
         results.push({
@@ -207,7 +262,10 @@ export async function resolveConflicts(req: Request, res: Response) {
           operationId,
           success: false,
           error: {
-            code: "RESOLUTION_FAILED",
+            code:
+              error instanceof ForbiddenError
+                ? "FORBIDDEN"
+                : "RESOLUTION_FAILED",
             message: error instanceof Error ? error.message : "Unknown error",
           },
         });
@@ -234,18 +292,19 @@ export async function resolveConflicts(req: Request, res: Response) {
 // Helper function to process individual sync operations
 async function processSyncOperation(
   operation: z.infer<typeof syncOperationSchema>,
+  user: AuthUser,
 ) {
   const { entity, operation: op, entityId, data } = operation;
 
   switch (entity) {
     case "song":
-      return await processSongSync(op, entityId, data);
+      return await processSongSync(op, entityId, data, user);
     case "setlist":
-      return await processSetlistSync(op, entityId, data);
+      return await processSetlistSync(op, entityId, data, user);
     case "arrangement":
-      return await processArrangementSync(op, entityId, data);
+      return await processArrangementSync(op, entityId, data, user);
     case "user":
-      return await processUserSync(op, entityId, data);
+      return await processUserSync(op, entityId, data, user);
     default:
       throw new Error(`Unknown entity type: ${entity}`);
   }
@@ -256,10 +315,18 @@ async function processSongSync(
   operation: string,
   entityId: string,
   data: Partial<ISong>,
+  user: AuthUser,
 ) {
   switch (operation) {
     case "create": {
-      const song = new Song(data);
+      const song = new Song({
+        ...data,
+        metadata: {
+          ...data.metadata,
+          createdBy: user.id,
+          lastModifiedBy: user.id,
+        },
+      });
       await song.save();
       return song;
     }
@@ -269,6 +336,7 @@ async function processSongSync(
       if (!existingSong) {
         throw new Error("Song not found");
       }
+      assertCan(user, "update", "song", existingSong);
 
       // Check for conflicts (last-write-wins for now)
       const serverModified = new Date(existingSong.updatedAt).getTime();
@@ -278,12 +346,26 @@ async function processSongSync(
         throw new ConflictError(existingSong, serverModified);
       }
 
-      Object.assign(existingSong, data);
+      // Metadata (owner, ratings, views) is server-managed
+      const { metadata: _metadata, ...songData } = data;
+      const previousFields = takeSongFieldSnapshot(existingSong);
+      Object.assign(existingSong, songData);
       await existingSong.save();
+
+      await recordSongChanges(
+        existingSong._id,
+        diffSongFields(previousFields, takeSongFieldSnapshot(existingSong)),
+        { changedBy: user.id, source: "sync" },
+      );
       return existingSong;
     }
 
     case "delete": {
+      const existingSong = await Song.findById(entityId);
+      if (!existingSong) {
+        return { deleted: true };
+      }
+      assertCan(user, "delete", "song", existingSong);
       await Song.findByIdAndDelete(entityId);
       return { deleted: true };
     }
@@ -297,11 +379,25 @@ async function processSongSync(
 async function processSetlistSync(
   operation: string,
   entityId: string,
-  data: Partial<ISetlist>,
+  data: Partial<ISetlist> & { isPublic?: boolean },
+  user: AuthUser,
 ) {
+  // Owner, usage counts and the share link are server-managed; only the
+  // visibility is taken from the client, as the setlists API does
+  const {
+    createdBy: _createdBy,
+    metadata: _metadata,
+    isPublic,
+    ...setlistData
+  } = data;
+
   switch (operation) {
     case "create": {
-      const setlist = new Setlist(data);
+      const setlist = new Setlist({
+        ...setlistData,
+        createdBy: user.id,
+        ...(isPublic !== undefined && { metadata: { isPublic } }),
+      });
       await setlist.save();
       return setlist;
     }
@@ -311,6 +407,7 @@ async function processSetlistSync(
       if (!existingSetlist) {
         throw new Error("Setlist not found");
       }
+      assertCan(user, "update", "setlist", existingSetlist);
 
       // Check for conflicts
       const serverModified = new Date(existingSetlist.updatedAt).getTime();
@@ -320,12 +417,20 @@ async function processSetlistSync(
         throw new ConflictError(existingSetlist, serverModified);
       }
 
-      Object.assign(existingSetlist, data);
+      Object.assign(existingSetlist, setlistData);
+      if (isPublic !== undefined) {
+        existingSetlist.metadata.isPublic = isPublic;
+      }
       await existingSetlist.save();
       return existingSetlist;
     }
 
     case "delete": {
+      const existingSetlist = await Setlist.findById(entityId);
+      if (!existingSetlist) {
+        return { deleted: true };
+      }
+      assertCan(user, "delete", "setlist", existingSetlist);
       await Setlist.findByIdAndDelete(entityId);
       return { deleted: true };
     }
@@ -339,12 +444,30 @@ async function processSetlistSync(
 async function processArrangementSync(
   operation: string,
   entityId: string,
-  data: Partial<IArrangement>,
+  data: Partial<IArrangement> & { isPublic?: boolean },
+  user: AuthUser,
 ) {
+  // Owner, ratings, views and counts are server-managed; only the
+  // visibility is taken from the client, as the arrangements API does
+  const {
+    createdBy: _createdBy,
+    metadata: _metadata,
+    isPublic,
+    ...arrangementData
+  } = data;
+
   switch (operation) {
     case "create": {
-      const arrangement = new Arrangement(data);
+      const arrangement = new Arrangement({
+        ...arrangementData,
+        createdBy: user.id,
+        ...(isPublic !== undefined && { metadata: { isPublic } }),
+      });
       await arrangement.save();
+      await recordArrangementRevision(arrangement, {
+        authorId: user.id,
+        changedFields: ["chordData", "key", "tempo", "structure"],
+      });
       return arrangement;
     }
 
@@ -353,6 +476,7 @@ async function processArrangementSync(
       if (!existingArrangement) {
         throw new Error("Arrangement not found");
       }
+      assertCan(user, "update", "arrangement", existingArrangement);
 
       // Check for conflicts
       const serverModified = new Date(existingArrangement.updatedAt).getTime();
@@ -362,12 +486,34 @@ async function processArrangementSync(
         throw new ConflictError(existingArrangement, serverModified);
       }
 
-      Object.assign(existingArrangement, data);
+      const previousSnapshot = takeRevisionSnapshot(existingArrangement);
+      Object.assign(existingArrangement, arrangementData);
+      if (isPublic !== undefined) {
+        existingArrangement.metadata.isPublic = isPublic;
+      }
       await existingArrangement.save();
+
+      // Offline edits get the same revision history as online ones
+      const changedFields = getChangedRevisionFields(
+        previousSnapshot,
+        takeRevisionSnapshot(existingArrangement),
+      );
+      if (changedFields.length > 0) {
+        await recordArrangementRevision(existingArrangement, {
+          authorId: user.id,
+          changedFields,
+          previous: previousSnapshot,
+        });
+      }
       return existingArrangement;
     }
 
     case "delete": {
+      const existingArrangement = await Arrangement.findById(entityId);
+      if (!existingArrangement) {
+        return { deleted: true };
+      }
+      assertCan(user, "delete", "arrangement", existingArrangement);
       await Arrangement.findByIdAndDelete(entityId);
       return { deleted: true };
     }
@@ -382,24 +528,43 @@ async function processUserSync(
   operation: string,
   entityId: string,
   data: Partial<IUser>,
+  user: AuthUser,
 ) {
+  // Users may only sync their own record
+  if (entityId !== user.id) {
+    throw new Error("Cannot sync another user's record");
+  }
+
+  // Identity, role, account state and counts are never taken from client data
+  const {
+    _id: _ignoredId,
+    clerkId: _ignoredClerkId,
+    role: _ignoredRole,
+    isActive: _ignoredIsActive,
+    stats: _ignoredStats,
+    reviews: _ignoredReviews,
+    submittedVerses: _ignoredVerses,
+    lastLoginAt: _ignoredLastLogin,
+    ...safeData
+  } = data;
+
   switch (operation) {
     case "create": {
-      const user = new User({ _id: entityId, ...data });
-      await user.save();
-      return user;
+      const newUser = new User({ _id: entityId, ...safeData });
+      await newUser.save();
+      return newUser;
     }
 
     case "update": {
       const existingUser = await User.findById(entityId);
       if (!existingUser) {
         // Create user if it doesn't exist (common for Clerk users)
-        const newUser = new User({ _id: entityId, ...data });
+        const newUser = new User({ _id: entityId, ...safeData });
         await newUser.save();
         return newUser;
       }
 
-      Object.assign(existingUser, data);
+      Object.assign(existingUser, safeData);
       await existingUser.save();
       return existingUser;
     }
@@ -414,14 +579,35 @@ async function processUserSync(
   }
 }
 
-// Get server changes since a timestamp
-async function getServerChangesSince(timestamp: number): Promise<any[]> {
+/**
+ * What the user may view of a resource: public documents and their own,
+ * or everything for roles that may view others' private ones
+ */
+function visibleTo(user: AuthUser, resource: PolicyResource) {
+  if (can(user, "view", resource, { metadata: { isPublic: false } })) {
+    return {};
+  }
+  const ownerField = resource === "song" ? "metadata.createdBy" : "createdBy";
+  return { $or: [{ "metadata.isPublic": true }, { [ownerField]: user.id }] };
+}
+
+// Get server changes since a timestamp that the user may view
+async function getServerChangesSince(
+  timestamp: number,
+  user: AuthUser,
+): Promise<any[]> {
   const since = new Date(timestamp);
 
   const [songs, setlists, arrangements] = await Promise.all([
-    Song.find({ updatedAt: { $gt: since } }).lean(),
-    Setlist.find({ updatedAt: { $gt: since } }).lean(),
-    Arrangement.find({ updatedAt: { $gt: since } }).lean(),
+    Song.find({ updatedAt: { $gt: since }, ...visibleTo(user, "song") }).lean(),
+    Setlist.find({
+      updatedAt: { $gt: since },
+      ...visibleTo(user, "setlist"),
+    }).lean(),
+    Arrangement.find({
+      updatedAt: { $gt: since },
+      ...visibleTo(user, "arrangement"),
+    }).lean(),
   ]);
 
   return [
@@ -434,6 +620,26 @@ async function getServerChangesSince(timestamp: number): Promise<any[]> {
   ];
 }
 
+// Custom error class for operations the policy denies
+class ForbiddenError extends Error {
+  constructor(action: PolicyAction, resource: PolicyResource) {
+    super(forbiddenMessage(action, resource));
+    this.name = "ForbiddenError";
+  }
+}
+
+// Checked before conflicts, so a denied user never receives the server copy
+function assertCan(
+  user: AuthUser,
+  action: PolicyAction,
+  resource: PolicyResource,
+  subject: PolicySubject,
+) {
+  if (!can(user, action, resource, subject)) {
+    throw new ForbiddenError(action, resource);
+  }
+}
+
 // Custom error class for conflicts
 class ConflictError extends Error {
   constructor(
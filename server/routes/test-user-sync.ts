@@ -4,14 +4,29 @@ import { User } from "../database/models";
 // POST /api/users/sync - Sync Clerk user with database
 export const syncUser = async (req: Request, res: Response) => {
   try {
-    const { clerkId, email, name } = req.body;
+    // The Clerk ID always comes from the verified session, never the body
+    const clerkId = req.auth?.sub;
+    // Only an email from the verified session can claim an existing account
+    const verifiedEmail = req.auth?.email;
+    const email = verifiedEmail || req.body.email;
+    const { name } = req.body;
 
-    if (!clerkId || !email) {
+    if (!clerkId) {
+      return res.status(401).json({
+        success: false,
+        error: {
+          code: "UNAUTHORIZED",
+          message: "A valid session is required",
+        },
+      });
+    }
+
+    if (!email) {
       return res.status(400).json({
         success: false,
         error: {
           code: "MISSING_FIELDS",
-          message: "clerkId and email are required",
+          message: "email is required",
         },
       });
     }
@@ -23,6 +38,28 @@ export const syncUser = async (req: Request, res: Response) => {
       // Check if user exists with this email (migration case)
       user = await User.findByEmail(email);
 
+      if (user && user.clerkId) {
+        // Email already belongs to a different Clerk account
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: "EMAIL_IN_USE",
+            message: "Email is already linked to another account",
+          },
+        });
+      }
+
+      if (user && user.email !== verifiedEmail?.toLowerCase().trim()) {
+        // Anyone can post an email, so it cannot prove who owns the account
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: "EMAIL_NOT_VERIFIED",
+            message: "A verified email is required to link this account",
+          },
+        });
+      }
+
       if (user) {
         // Update existing user with Clerk ID
         user.clerkId = clerkId;
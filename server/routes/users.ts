@@ -9,6 +9,8 @@ import {
 } from "../database/models";
 import { MusicalKey } from "../database/models/User";
 import { z } from "zod";
+import { vocalRangeSchema } from "@shared/songs/vocalRange";
+import { scrollSpeedSchema } from "@shared/arrangements/autoScroll";
 
 // Import privacy settings type
 interface UserPrivacySettings {
@@ -50,6 +52,8 @@ const updateProfileSchema = z.object({
       bio: z.string().max(500).optional(),
       website: z.string().url().max(200).optional().or(z.literal("")),
       location: z.string().max(100).optional(),
+      // null clears a stored range
+      vocalRange: vocalRangeSchema.nullable().optional(),
     })
     .optional(),
   preferences: z
@@ -60,6 +64,14 @@ const updateProfileSchema = z.object({
       ]).optional(),
       fontSize: z.number().min(12).max(32).optional(),
       theme: z.enum(["light", "dark", "stage"]).optional(),
+      notation: z.enum(["english", "german", "latin"]).optional(),
+      // Keyed by arrangement ID; null forgets the saved speed
+      scrollSpeeds: z
+        .record(
+          z.string().regex(/^[0-9a-fA-F]{24}$/),
+          scrollSpeedSchema.nullable(),
+        )
+        .optional(),
     })
     .optional(),
 });
@@ -554,7 +566,7 @@ function applyPrivacyFilter(
       email: user.email,
       name: user.name,
       role: user.role,
-      preferences: user.preferences || { fontSize: 16, theme: "light" },
+      preferences: user.preferences || { fontSize: 16, theme: "light", notation: "english" },
       profile: user.profile || {},
       profilePrivacy: user.profilePrivacy,
       stats: user.stats || { songsCreated: 0, arrangementsCreated: 0, setlistsCreated: 0 },
@@ -580,7 +592,7 @@ function applyPrivacyFilter(
       role: user.role,
       // Return empty profile and preferences objects for consistent structure
       profile: {},
-      preferences: user.preferences || { fontSize: 16, theme: "light" },
+      preferences: user.preferences || { fontSize: 16, theme: "light", notation: "english" },
       // Always show contributions for ministry value even if profile is private
       stats: privacy.showContributions
         ? {
@@ -603,8 +615,9 @@ function applyPrivacyFilter(
       bio: privacy.showBio ? user.profile?.bio : undefined,
       website: privacy.showWebsite ? user.profile?.website : undefined,
       location: privacy.showLocation ? user.profile?.location : undefined,
+      vocalRange: user.profile?.vocalRange,
     },
-    preferences: user.preferences || { fontSize: 16, theme: "light" },
+    preferences: user.preferences || { fontSize: 16, theme: "light", notation: "english" },
     stats: privacy.showStats
       ? user.stats
       : { songsCreated: 0, arrangementsCreated: 0, setlistsCreated: 0 },
@@ -637,8 +650,7 @@ export const getUserProfile = async (req: Request, res: Response) => {
     }
 
     // Check if this is the user's own profile
-    // Get requester ID from auth context (assuming it's set by auth middleware)
-    const requesterId = (req as any).userId || (req as any).user?.id;
+    const requesterId = req.user?.id;
     const isOwnProfile =
       requesterId === userId ||
       requesterId === user._id.toString() ||
@@ -706,6 +718,9 @@ export const updateUserProfile = async (req: Request, res: Response) => {
       if (updates.profile.location !== undefined) {
         user.profile.location = updates.profile.location;
       }
+      if (updates.profile.vocalRange !== undefined) {
+        user.profile.vocalRange = updates.profile.vocalRange ?? undefined;
+      }
     }
     if (updates.preferences) {
       if (updates.preferences.defaultKey !== undefined) {
@@ -717,6 +732,22 @@ export const updateUserProfile = async (req: Request, res: Response) => {
       if (updates.preferences.theme !== undefined) {
         user.preferences.theme = updates.preferences.theme;
       }
+      if (updates.preferences.notation !== undefined) {
+        user.preferences.notation = updates.preferences.notation;
+      }
+      if (updates.preferences.scrollSpeeds) {
+        const scrollSpeeds = user.preferences.scrollSpeeds ?? new Map();
+        for (const [arrangementId, speed] of Object.entries(
+          updates.preferences.scrollSpeeds,
+        )) {
+          if (speed === null) {
+            scrollSpeeds.delete(arrangementId);
+          } else {
+            scrollSpeeds.set(arrangementId, speed);
+          }
+        }
+        user.preferences.scrollSpeeds = scrollSpeeds;
+      }
     }
 
     await user.save();
@@ -754,6 +785,46 @@ export const updateUserProfile = async (req: Request, res: Response) => {
   }
 };
 
+// GET /api/users/singers - Users with a vocal range, for assigning setlist singers
+export const getSingers = async (req: Request, res: Response) => {
+  try {
+    const requesterId = req.user?.id;
+
+    // Other users' ranges are only listed when their profile is public
+    const singers = await User.find({
+      "profile.vocalRange.low": { $exists: true },
+      isActive: true,
+      $or: [
+        { "profilePrivacy.isPublic": true },
+        ...(requesterId ? [{ _id: requesterId }] : []),
+      ],
+    })
+      .select("_id name profile.vocalRange")
+      .sort("name")
+      .limit(100)
+      .lean();
+
+    return res.json({
+      success: true,
+      data: singers.map((singer: any) => ({
+        _id: singer._id,
+        name: singer.name,
+        vocalRange: singer.profile.vocalRange,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching singers:", error);
+
+    return res.status(500).json({
+      success: false,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: "Failed to fetch singers",
+      },
+    });
+  }
+};
+
 // GET /api/users/:userId/contributions - Get user contributions
 export const getUserContributions = async (req: Request, res: Response) => {
   try {
@@ -997,7 +1068,7 @@ export const updateUserPrivacy = async (req: Request, res: Response) => {
     const updates = updatePrivacySchema.parse(req.body);
 
     // Check if this is the user's own profile (only allow users to update their own privacy)
-    const requesterId = (req as any).userId || (req as any).user?.id;
+    const requesterId = req.user?.id;
 
     const user = await findUserByIdOrClerkId(userId);
     if (!user) {
@@ -1015,8 +1086,7 @@ export const updateUserPrivacy = async (req: Request, res: Response) => {
       requesterId === user._id.toString() ||
       requesterId === user.clerkId;
     const isAdmin =
-      (req as any).user?.role &&
-      ["ADMIN", "MODERATOR"].includes((req as any).user.role);
+      !!req.user?.role && ["ADMIN", "MODERATOR"].includes(req.user.role);
 
     if (!isOwnProfile && !isAdmin) {
       return res.status(403).json({
@@ -52,7 +52,7 @@ export const getVersesBySong = async (req: Request, res: Response) => {
     const query: FilterQuery<IVerse> = { songId };
 
     // Non-moderators can only see approved verses
-    const userId = req.query.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
     if (userId) {
       const user = await User.findById(userId);
       if (!canModerateVerses(user) && status !== "approved") {
@@ -117,10 +117,10 @@ export const getVersesBySong = async (req: Request, res: Response) => {
 export const submitVerse = async (req: Request, res: Response) => {
   try {
     const { songId } = req.params;
-    const userId = req.body.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
 
     // Validate user
-    if (!userId || !Types.ObjectId.isValid(userId as string)) {
+    if (!userId || !Types.ObjectId.isValid(userId)) {
       return res.status(401).json({
         success: false,
         error: {
@@ -250,10 +250,10 @@ export const submitVerse = async (req: Request, res: Response) => {
 export const upvoteVerse = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.body.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
 
     // Validate user
-    if (!userId || !Types.ObjectId.isValid(userId as string)) {
+    if (!userId || !Types.ObjectId.isValid(userId)) {
       return res.status(401).json({
         success: false,
         error: {
@@ -298,7 +298,7 @@ export const upvoteVerse = async (req: Request, res: Response) => {
     }
 
     // Toggle upvote
-    const userObjectId = new Types.ObjectId(userId as string);
+    const userObjectId = new Types.ObjectId(userId);
     const hasUpvoted = verse.upvotes.some((id) => id.equals(userObjectId));
 
     if (hasUpvoted) {
@@ -331,10 +331,10 @@ export const upvoteVerse = async (req: Request, res: Response) => {
 export const updateVerse = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.body.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
 
     // Validate user
-    if (!userId || !Types.ObjectId.isValid(userId as string)) {
+    if (!userId || !Types.ObjectId.isValid(userId)) {
       return res.status(401).json({
         success: false,
         error: {
@@ -439,10 +439,10 @@ export const updateVerse = async (req: Request, res: Response) => {
 export const deleteVerse = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const userId = req.body.userId || req.headers["x-user-id"];
+    const userId = req.user?.id;
 
     // Validate user
-    if (!userId || !Types.ObjectId.isValid(userId as string)) {
+    if (!userId || !Types.ObjectId.isValid(userId)) {
       return res.status(401).json({
         success: false,
         error: {
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Types } from "mongoose";
+import {
+  ArrangementRevision,
+  type IArrangement,
+  type IArrangementRevision,
+} from "../../database/models";
+import { recordArrangementRevision } from "../arrangementRevisions";
+
+vi.mock("../../database/models", () => ({
+  REVISION_FIELDS: ["chordData", "key", "tempo", "structure"],
+  ArrangementRevision: {
+    findLatest: vi.fn(),
+    create: vi.fn(),
+  },
+}));
+
+const AUTHOR_ID = "507f1f77bcf86cd799439013";
+
+const arrangement = {
+  _id: new Types.ObjectId(),
+  chordData: "{title: Test}\n[G]Amazing grace",
+  key: "G",
+  tempo: 72,
+  structure: ["Verse 1"],
+  createdBy: new Types.ObjectId(AUTHOR_ID),
+} as unknown as IArrangement;
+
+const latest = (revision: number) => ({ revision }) as IArrangementRevision;
+
+const duplicateKeyError = Object.assign(new Error("E11000 duplicate key"), {
+  code: 11000,
+});
+
+describe("recordArrangementRevision", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(ArrangementRevision.create).mockImplementation(
+      async (data: unknown) => data as never,
+    );
+  });
+
+  it("appends after the latest revision", async () => {
+    vi.mocked(ArrangementRevision.findLatest).mockResolvedValue(latest(3));
+
+    const created = await recordArrangementRevision(arrangement, {
+      authorId: AUTHOR_ID,
+      changedFields: ["chordData"],
+    });
+
+    expect(created.revision).toBe(4);
+    expect(ArrangementRevision.create).toHaveBeenCalledTimes(1);
+  });
+
+  it("takes the next number when a concurrent edit claimed it first", async () => {
+    vi.mocked(ArrangementRevision.findLatest)
+      .mockResolvedValueOnce(latest(3))
+      .mockResolvedValueOnce(latest(4));
+    vi.mocked(ArrangementRevision.create).mockRejectedValueOnce(
+      duplicateKeyError,
+    );
+
+    const created = await recordArrangementRevision(arrangement, {
+      authorId: AUTHOR_ID,
+      changedFields: ["chordData"],
+    });
+
+    expect(created.revision).toBe(5);
+    expect(ArrangementRevision.create).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after repeated collisions", async () => {
+    vi.mocked(ArrangementRevision.findLatest).mockResolvedValue(latest(3));
+    vi.mocked(ArrangementRevision.create).mockRejectedValue(duplicateKeyError);
+
+    await expect(
+      recordArrangementRevision(arrangement, {
+        authorId: AUTHOR_ID,
+        changedFields: ["chordData"],
+      }),
+    ).rejects.toBe(duplicateKeyError);
+    expect(ArrangementRevision.create).toHaveBeenCalledTimes(5);
+  });
+
+  it("rethrows other errors without retrying", async () => {
+    const error = new Error("Validation failed");
+    vi.mocked(ArrangementRevision.findLatest).mockResolvedValue(null);
+    vi.mocked(ArrangementRevision.create).mockRejectedValue(error);
+
+    await expect(
+      recordArrangementRevision(arrangement, {
+        authorId: AUTHOR_ID,
+        changedFields: ["chordData"],
+      }),
+    ).rejects.toBe(error);
+    expect(ArrangementRevision.create).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { Types } from "mongoose";
+import {
+  InvalidCursorError,
+  cursorFilter,
+  decodeCursor,
+  encodeCursor,
+  toCursorPage,
+  withIdTiebreak,
+} from "../cursorPagination";
+
+const ID = new Types.ObjectId("507f1f77bcf86cd799439011");
+const CREATED = new Date("2024-01-15T10:00:00Z");
+
+describe("cursorPagination", () => {
+  const recent = withIdTiebreak({ createdAt: -1 });
+
+  it("appends _id to the sort once", () => {
+    expect(recent).toEqual({ createdAt: -1, _id: 1 });
+    expect(withIdTiebreak(recent)).toBe(recent);
+  });
+
+  it("round-trips dates, ObjectIds and nested fields", () => {
+    const sort = withIdTiebreak({ createdAt: -1, "metadata.views": -1 });
+    const cursor = encodeCursor(
+      { _id: ID, createdAt: CREATED, metadata: { views: 12 } },
+      sort,
+    );
+
+    expect(cursor).toMatch(/^[\w-]+$/);
+    expect(decodeCursor(cursor, sort)).toEqual([CREATED, 12, ID]);
+  });
+
+  it("rejects malformed cursors and cursors made for another sort", () => {
+    const cursor = encodeCursor({ _id: ID, createdAt: CREATED }, recent);
+
+    expect(() => decodeCursor("not-a-cursor", recent)).toThrow(
+      InvalidCursorError,
+    );
+    expect(() => decodeCursor(cursor, withIdTiebreak({ title: 1 }))).toThrow(
+      InvalidCursorError,
+    );
+  });
+
+  it("matches the items after the cursor", () => {
+    const cursor = encodeCursor({ _id: ID, createdAt: CREATED }, recent);
+
+    expect(cursorFilter(cursor, recent)).toEqual({
+      $or: [
+        { $or: [{ createdAt: { $lt: CREATED } }, { createdAt: null }] },
+        { createdAt: CREATED, _id: { $gt: ID } },
+      ],
+    });
+  });
+
+  it("continues past missing values in ascending order", () => {
+    const sort = withIdTiebreak({ title: 1 });
+    const cursor = encodeCursor({ _id: ID }, sort);
+
+    expect(cursorFilter(cursor, sort)).toEqual({
+      $or: [{ title: { $ne: null } }, { title: null, _id: { $gt: ID } }],
+    });
+  });
+
+  it("only gives a next cursor when an extra item was fetched", () => {
+    const docs = [1, 2, 3].map((day) => ({
+      _id: new Types.ObjectId(),
+      createdAt: new Date(2024, 0, day),
+    }));
+
+    const page = toCursorPage(docs, 2, recent);
+    expect(page.items).toEqual(docs.slice(0, 2));
+    expect(decodeCursor(page.nextCursor!, recent)).toEqual([
+      docs[1].createdAt,
+      docs[1]._id,
+    ]);
+    expect(toCursorPage(docs, 3, recent).nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, summarizeDiff } from "../lineDiff";
+
+// Rebuild either side of a diff to check it is a valid edit script
+const rebuild = (
+  lines: ReturnType<typeof diffLines>,
+  side: "old" | "new",
+): string =>
+  lines
+    .filter((line) =>
+      side === "old" ? line.type !== "added" : line.type !== "removed",
+    )
+    .map((line) => line.text)
+    .join("\n");
+
+describe("diffLines", () => {
+  it("marks identical texts as unchanged", () => {
+    const text = "{title: Amazing Grace}\n[G]Amazing [C]grace";
+    const lines = diffLines(text, text);
+
+    expect(lines.every((line) => line.type === "equal")).toBe(true);
+    expect(summarizeDiff(lines)).toEqual({
+      added: 0,
+      removed: 0,
+      unchanged: 2,
+    });
+  });
+
+  it("reports a changed chord line as a removal and an addition", () => {
+    const oldText = "{title: Song}\n[G]Amazing [C]grace\nHow sweet";
+    const newText = "{title: Song}\n[A]Amazing [D]grace\nHow sweet";
+
+    expect(diffLines(oldText, newText)).toEqual([
+      { type: "equal", text: "{title: Song}", oldLine: 1, newLine: 1 },
+      { type: "removed", text: "[G]Amazing [C]grace", oldLine: 2 },
+      { type: "added", text: "[A]Amazing [D]grace", newLine: 2 },
+      { type: "equal", text: "How sweet", oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  it("aligns interleaved insertions and deletions", () => {
+    const oldText = ["a", "b", "c", "d", "e", "f"].join("\n");
+    const newText = ["a", "x", "c", "d", "y", "f", "g"].join("\n");
+    const lines = diffLines(oldText, newText);
+
+    expect(rebuild(lines, "old")).toBe(oldText);
+    expect(rebuild(lines, "new")).toBe(newText);
+    expect(summarizeDiff(lines)).toEqual({
+      added: 3,
+      removed: 2,
+      unchanged: 4,
+    });
+  });
+
+  it("handles empty texts", () => {
+    expect(diffLines("", "")).toEqual([]);
+    expect(diffLines("", "one\ntwo")).toEqual([
+      { type: "added", text: "one", newLine: 1 },
+      { type: "added", text: "two", newLine: 2 },
+    ]);
+  });
+
+  it("treats Windows line endings like Unix ones", () => {
+    const lines = diffLines("one\r\ntwo", "one\ntwo");
+
+    expect(summarizeDiff(lines).unchanged).toBe(2);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  chordProLyrics,
+  findLyricSnippet,
+  lyricLines,
+  phrasePattern,
+} from "../lyricSearch";
+
+const chart = `{title: Cornerstone}
+{start_of_verse}
+[C]My hope is [F]built on [C]nothing less
+Than [G]Jesus' blood and righ[C]teous[G]ness
+# capo 2 for the choir
+| C | F | C |
+{end_of_verse}`;
+
+describe("phrasePattern", () => {
+  it("matches the words in order across punctuation and line breaks", () => {
+    const pattern = phrasePattern("Nothing less, than Jesus");
+
+    expect(pattern?.test("built on nothing less\nThan Jesus' blood")).toBe(
+      true,
+    );
+    expect(pattern?.test("than Jesus, nothing less")).toBe(false);
+    expect(phrasePattern("hm")).toBeNull();
+  });
+
+  it("skips chords between and inside words in ChordPro", () => {
+    const pattern = phrasePattern("blood and righteousness", {
+      inChordPro: true,
+    });
+
+    expect(pattern?.test(chart)).toBe(true);
+    expect(phrasePattern("blood and righteousness")?.test(chart)).toBe(false);
+  });
+});
+
+describe("chordProLyrics", () => {
+  it("keeps only the sung lines, without chords", () => {
+    expect(chordProLyrics(chart)).toEqual([
+      "My hope is built on nothing less",
+      "Than Jesus' blood and righteousness",
+    ]);
+    expect(chordProLyrics(undefined)).toEqual([]);
+  });
+});
+
+describe("findLyricSnippet", () => {
+  const lines = lyricLines(
+    "Amazing grace\nHow sweet the sound\n\nThat saved a wretch like me\nI once was lost",
+  );
+
+  it("returns the matching line with one line of context either side", () => {
+    expect(findLyricSnippet(lines, "saved a wretch")).toEqual([
+      { text: "How sweet the sound", ranges: [] },
+      { text: "That saved a wretch like me", ranges: [[5, 19]] },
+      { text: "I once was lost", ranges: [] },
+    ]);
+  });
+
+  it("marks a phrase sung across a line break on both lines", () => {
+    expect(findLyricSnippet(lines, "grace how sweet")).toEqual([
+      { text: "Amazing grace", ranges: [[8, 13]] },
+      { text: "How sweet the sound", ranges: [[0, 9]] },
+      { text: "That saved a wretch like me", ranges: [] },
+    ]);
+  });
+
+  it("returns null when the phrase is not sung", () => {
+    expect(findLyricSnippet(lines, "wretch saved")).toBeNull();
+  });
+});
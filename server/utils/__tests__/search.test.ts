@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  blendScore,
+  candidatePattern,
+  editDistance,
+  matchWord,
+  scoreFields,
+} from "../search";
+
+describe("editDistance", () => {
+  it("counts insertions, deletions, substitutions and swaps", () => {
+    expect(editDistance("amazng", "amazing")).toBe(1);
+    expect(editDistance("grcae", "grace")).toBe(1);
+    expect(editDistance("holy", "holy")).toBe(0);
+    expect(editDistance("", "abc")).toBe(3);
+  });
+});
+
+describe("matchWord", () => {
+  it("prefers exact over prefix over fuzzy matches", () => {
+    const exact = matchWord("grace", "grace");
+    const prefix = matchWord("gra", "grace");
+    const fuzzy = matchWord("amazng", "amazing");
+
+    expect(exact).toBeGreaterThan(prefix);
+    expect(prefix).toBeGreaterThan(fuzzy);
+    expect(fuzzy).toBeGreaterThan(0);
+  });
+
+  it("tolerates typos in partial words but not in short ones", () => {
+    expect(matchWord("cornrst", "cornerstone")).toBeGreaterThan(0);
+    expect(matchWord("gce", "grace")).toBe(0);
+    expect(matchWord("love", "holy")).toBe(0);
+  });
+});
+
+describe("scoreFields", () => {
+  const fields = [
+    { field: "title", text: "Amazing Grace", weight: 1 },
+    { field: "artist", text: "John Newton", weight: 0.8 },
+  ];
+
+  it("matches misspelt and partial words and reports where they are", () => {
+    const match = scoreFields("amazng gra", fields);
+
+    expect(match).not.toBeNull();
+    expect(match?.highlights).toEqual([
+      {
+        field: "title",
+        text: "Amazing Grace",
+        ranges: [
+          [0, 7],
+          [8, 13],
+        ],
+      },
+    ]);
+  });
+
+  it("needs every query word to match somewhere", () => {
+    expect(scoreFields("grace newton", fields)?.highlights).toHaveLength(2);
+    expect(scoreFields("grace hillsong", fields)).toBeNull();
+    expect(scoreFields("   ", fields)).toBeNull();
+  });
+
+  it("weights matches by field", () => {
+    const title = scoreFields("john", [
+      { field: "title", text: "John", weight: 1 },
+    ]);
+    const artist = scoreFields("john", fields);
+
+    expect(title!.relevance).toBeGreaterThan(artist!.relevance);
+  });
+});
+
+describe("blendScore", () => {
+  it("lets ratings and views break ties between equally relevant results", () => {
+    const popular = blendScore(0.9, { rating: 4.8, views: 5000 });
+    const unknown = blendScore(0.9, {});
+
+    expect(popular).toBeGreaterThan(unknown);
+    expect(blendScore(1, {})).toBeGreaterThan(
+      blendScore(0.6, { rating: 5, views: 100000 }),
+    );
+  });
+});
+
+describe("candidatePattern", () => {
+  it("matches words starting with each query word's first letters", () => {
+    const pattern = candidatePattern("Amazng (grace)");
+
+    expect(pattern?.test("Amazing Grace")).toBe(true);
+    expect(pattern?.test("Gracefully")).toBe(true);
+    expect(pattern?.test("Cornerstone")).toBe(false);
+    expect(candidatePattern("!!")).toBeNull();
+  });
+});
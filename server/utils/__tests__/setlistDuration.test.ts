@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_ITEM_SECONDS,
+  barsToSeconds,
+  countChordProBars,
+  countMashupBars,
+  countStructureBars,
+  estimateItemDuration,
+  estimateSetlistDuration,
+} from "../setlistDuration";
+
+describe("setlistDuration", () => {
+  describe("bar counting", () => {
+    it("counts bars written with bar lines", () => {
+      const chordData = [
+        "{title: Amazing Grace}",
+        "{start_of_verse}",
+        "| G | G/B | C | G |",
+        "|G|Em|D|D|",
+        "[G]Amazing [C]grace",
+        "{end_of_verse}",
+      ].join("\n");
+
+      expect(countChordProBars(chordData)).toBe(8);
+    });
+
+    it("ignores charts without bar lines", () => {
+      expect(countChordProBars("[G]Amazing [C]grace")).toBe(0);
+      expect(countChordProBars(undefined)).toBe(0);
+    });
+
+    it("counts typical bars per structure label", () => {
+      expect(
+        countStructureBars(["I", "V1", "C", "V2", "C", "B", "C", "O"]),
+      ).toBe(4 + 16 + 16 + 16 + 16 + 8 + 16 + 4);
+      expect(countStructureBars(["Verse 1", "Pre-Chorus", "Chorus"])).toBe(
+        16 + 8 + 16,
+      );
+    });
+
+    it("sums mashup section bar ranges", () => {
+      expect(
+        countMashupBars([
+          { startBar: 1, endBar: 16 },
+          { startBar: 17, endBar: 40 },
+          { startBar: 5 },
+        ]),
+      ).toBe(40);
+    });
+  });
+
+  describe("barsToSeconds", () => {
+    it("uses the beats per bar from the time signature", () => {
+      expect(barsToSeconds(32, 120, "4/4")).toBe(64);
+      expect(barsToSeconds(32, 120, "3/4")).toBe(48);
+      expect(barsToSeconds(32, 120, "6/8")).toBe(96);
+    });
+
+    it("falls back to 4/4 for unreadable signatures", () => {
+      expect(barsToSeconds(10, 60, "free")).toBe(40);
+    });
+  });
+
+  describe("estimateItemDuration", () => {
+    const item = { songId: "song1", arrangementId: "arr1", order: 0 };
+
+    it("prefers mashup sections, then bar lines, then structure", () => {
+      const arrangement = {
+        tempo: 60,
+        timeSignature: "4/4",
+        chordData: "| G | C |",
+        structure: ["V", "C"],
+        metadata: {
+          isMashup: true,
+          mashupSections: [{ startBar: 1, endBar: 8 }],
+        },
+      };
+
+      expect(estimateItemDuration(item, arrangement)).toMatchObject({
+        source: "mashup",
+        bars: 8,
+        seconds: 32,
+      });
+      expect(
+        estimateItemDuration(item, { ...arrangement, metadata: undefined }),
+      ).toMatchObject({ source: "chordpro", bars: 2, seconds: 8 });
+      expect(
+        estimateItemDuration(item, {
+          ...arrangement,
+          metadata: undefined,
+          chordData: "[G]Amazing grace",
+        }),
+      ).toMatchObject({ source: "structure", bars: 32, seconds: 128 });
+    });
+
+    it("uses the manual override when set", () => {
+      expect(
+        estimateItemDuration(
+          { ...item, durationOverride: 300 },
+          { tempo: 60, structure: ["V"] },
+        ),
+      ).toMatchObject({ source: "override", seconds: 300 });
+    });
+
+    it("falls back to a default without tempo or bars", () => {
+      expect(estimateItemDuration(item, { structure: ["V"] })).toMatchObject({
+        source: "default",
+        seconds: DEFAULT_ITEM_SECONDS,
+      });
+      expect(estimateItemDuration(item, { tempo: 90 })).toMatchObject({
+        source: "default",
+        seconds: DEFAULT_ITEM_SECONDS,
+      });
+    });
+  });
+
+  describe("estimateSetlistDuration", () => {
+    it("totals items in order using looked-up arrangements", () => {
+      const estimate = estimateSetlistDuration(
+        [
+          { songId: "song2", arrangementId: "arr2", order: 1 },
+          { songId: "song1", arrangementId: "arr1", order: 0 },
+          { songId: "song3", order: 2 },
+        ],
+        new Map([
+          ["arr1", { tempo: 120, structure: ["V", "C", "V", "C"] }],
+          ["arr2", { tempo: 90, timeSignature: "3/4", chordData: "|D|G|" }],
+        ]),
+      );
+
+      expect(estimate.items.map((item) => item.songId)).toEqual([
+        "song1",
+        "song2",
+        "song3",
+      ]);
+      expect(estimate.items.map((item) => item.seconds)).toEqual([
+        128,
+        4,
+        DEFAULT_ITEM_SECONDS,
+      ]);
+      expect(estimate.totalSeconds).toBe(372);
+      expect(estimate.estimatedMinutes).toBe(6);
+    });
+  });
+});
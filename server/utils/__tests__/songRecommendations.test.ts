@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import {
+  SIMILARITY_WEIGHTS,
+  keyCompatibility,
+  scoreSongSimilarity,
+} from "../songRecommendations";
+
+describe("songRecommendations", () => {
+  describe("keyCompatibility", () => {
+    it("matches the same key across enharmonic spellings", () => {
+      expect(keyCompatibility("G", "G")).toBe("same");
+      expect(keyCompatibility("F#", "Gb")).toBe("same");
+    });
+
+    it("finds keys a fifth or a whole step apart", () => {
+      expect(keyCompatibility("G", "D")).toBe("neighbor");
+      expect(keyCompatibility("G", "C")).toBe("neighbor");
+      expect(keyCompatibility("G", "A")).toBe("step");
+      expect(keyCompatibility("G", "Eb")).toBeNull();
+    });
+
+    it("ignores missing or unknown keys", () => {
+      expect(keyCompatibility(undefined, "G")).toBeNull();
+      expect(keyCompatibility("G", "H")).toBeNull();
+    });
+  });
+
+  describe("scoreSongSimilarity", () => {
+    it("adds up shared themes, key and tempo", () => {
+      const result = scoreSongSimilarity(
+        { themes: ["Grace", "hope"], key: "G", tempo: 72 },
+        { themes: ["grace", "hope", "joy"], key: "G", tempo: 76 },
+      );
+
+      expect(result.score).toBe(
+        2 * SIMILARITY_WEIGHTS.theme +
+          SIMILARITY_WEIGHTS.sameKey +
+          SIMILARITY_WEIGHTS.closeTempo,
+      );
+      expect(result.reasons).toEqual([
+        "Shared themes: grace, hope",
+        "Same key (G)",
+        "Similar tempo (76 BPM)",
+      ]);
+    });
+
+    it("puts setlist and favorite co-occurrence first when strongest", () => {
+      const result = scoreSongSimilarity(
+        { key: "G", tempo: 72 },
+        { key: "D", tempo: 140 },
+        { setlists: 12, favorites: 1 },
+      );
+
+      expect(result.reasons[0]).toBe("Together in 12 setlists");
+      expect(result.reasons).toContain("Favorited together by 1 user");
+      expect(result.reasons).toContain("Related key (D)");
+      expect(result.score).toBe(
+        5 * SIMILARITY_WEIGHTS.setlist +
+          SIMILARITY_WEIGHTS.favorite +
+          SIMILARITY_WEIGHTS.neighborKey,
+      );
+    });
+
+    it("scores unrelated songs as zero", () => {
+      expect(
+        scoreSongSimilarity(
+          { themes: ["grace"], categories: ["classic-hymns"], tempo: 60 },
+          { themes: ["joy"], categories: ["modern-worship"], tempo: 130 },
+        ),
+      ).toEqual({ score: 0, reasons: [] });
+    });
+  });
+});
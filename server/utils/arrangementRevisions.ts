@@ -0,0 +1,102 @@
+import { Types } from "mongoose";
+import {
+  ArrangementRevision,
+  REVISION_FIELDS,
+  type IArrangement,
+  type IArrangementRevision,
+  type RevisionField,
+} from "../database/models";
+
+// The revisioned part of an arrangement
+export interface RevisionSnapshot {
+  chordData: string;
+  key: IArrangement["key"];
+  tempo?: number;
+  structure: string[];
+}
+
+export function takeRevisionSnapshot(
+  source: Pick<IArrangement, RevisionField>,
+): RevisionSnapshot {
+  return {
+    chordData: source.chordData,
+    key: source.key,
+    tempo: source.tempo ?? undefined,
+    structure: source.structure ? [...source.structure] : [],
+  };
+}
+
+// List the revisioned fields that differ between two snapshots
+export function getChangedRevisionFields(
+  before: RevisionSnapshot,
+  after: RevisionSnapshot,
+): RevisionField[] {
+  return REVISION_FIELDS.filter((field) => {
+    if (field === "structure") {
+      return before.structure.join("\u0000") !== after.structure.join("\u0000");
+    }
+    return before[field] !== after[field];
+  });
+}
+
+interface RecordRevisionOptions {
+  authorId: string | Types.ObjectId;
+  changedFields: RevisionField[];
+  previous?: RevisionSnapshot; // State before the change, for arrangements without history
+  restoredFrom?: number;
+}
+
+// Concurrent edits can pick the same next number; the unique index on
+// { arrangementId, revision } rejects the loser, which then tries again
+const MAX_REVISION_ATTEMPTS = 5;
+
+const isDuplicateKeyError = (error: unknown): boolean =>
+  (error as { code?: number } | null)?.code === 11000;
+
+async function appendRevision(
+  arrangement: IArrangement,
+  options: RecordRevisionOptions,
+): Promise<IArrangementRevision> {
+  const latest = await ArrangementRevision.findLatest(arrangement._id);
+  let nextRevision = latest ? latest.revision + 1 : 1;
+
+  if (!latest && options.previous) {
+    await ArrangementRevision.create({
+      arrangementId: arrangement._id,
+      revision: nextRevision,
+      ...options.previous,
+      changedFields: [...REVISION_FIELDS],
+      author: arrangement.createdBy,
+    });
+    nextRevision += 1;
+  }
+
+  return await ArrangementRevision.create({
+    arrangementId: arrangement._id,
+    revision: nextRevision,
+    ...takeRevisionSnapshot(arrangement),
+    changedFields: options.changedFields,
+    author: new Types.ObjectId(options.authorId.toString()),
+    restoredFrom: options.restoredFrom,
+  });
+}
+
+/**
+ * Appends a revision holding the arrangement's current state. Arrangements
+ * created before revisions existed get their prior state saved first, so
+ * the original content can still be restored.
+ */
+export async function recordArrangementRevision(
+  arrangement: IArrangement,
+  options: RecordRevisionOptions,
+): Promise<IArrangementRevision> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await appendRevision(arrangement, options);
+    } catch (error) {
+      if (!isDuplicateKeyError(error) || attempt >= MAX_REVISION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
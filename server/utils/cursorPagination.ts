@@ -0,0 +1,160 @@
+/**
+ * Opaque cursors for keyset pagination: a cursor holds the sort values and
+ * `_id` of the last item sent, and the next page starts right after it, so
+ * deep pages cost the same as the first
+ */
+
+import { Response } from "express";
+import { Types } from "mongoose";
+
+export type CursorSort = Record<string, 1 | -1>;
+
+// Raised for cursors that are malformed or were made for another sort
+export class InvalidCursorError extends Error {
+  constructor(message = "Invalid or expired cursor") {
+    super(message);
+    this.name = "InvalidCursorError";
+  }
+}
+
+// Dates and ObjectIds are tagged so they survive the round trip through JSON
+type EncodedValue =
+  | string
+  | number
+  | boolean
+  | null
+  | { $date: string }
+  | { $oid: string };
+
+interface CursorPayload {
+  k: string; // Sort fields, so a cursor cannot be replayed under another sort
+  v: EncodedValue[];
+}
+
+/** The sort with `_id` appended, so every item has a distinct position */
+export function withIdTiebreak(sort: CursorSort): CursorSort {
+  return "_id" in sort ? sort : { ...sort, _id: 1 };
+}
+
+const getPath = (doc: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      doc,
+    );
+
+function encodeValue(value: unknown): EncodedValue {
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (value instanceof Types.ObjectId) {
+    return { $oid: value.toHexString() };
+  }
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return value;
+  }
+  return null;
+}
+
+function decodeValue(value: EncodedValue): unknown {
+  if (value && typeof value === "object") {
+    if ("$date" in value && !isNaN(Date.parse(value.$date))) {
+      return new Date(value.$date);
+    }
+    if ("$oid" in value && Types.ObjectId.isValid(value.$oid)) {
+      return new Types.ObjectId(value.$oid);
+    }
+    throw new InvalidCursorError();
+  }
+  return value;
+}
+
+/** A cursor pointing just past the given document */
+export function encodeCursor(doc: unknown, sort: CursorSort): string {
+  const payload: CursorPayload = {
+    k: Object.keys(sort).join(","),
+    v: Object.keys(sort).map((field) => encodeValue(getPath(doc, field))),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/** The sort values a cursor holds, in sort order */
+export function decodeCursor(cursor: string, sort: CursorSort): unknown[] {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  const fields = Object.keys(sort);
+  if (
+    payload?.k !== fields.join(",") ||
+    !Array.isArray(payload.v) ||
+    payload.v.length !== fields.length
+  ) {
+    throw new InvalidCursorError();
+  }
+  return payload.v.map(decodeValue);
+}
+
+// Items after `value` in one field. Missing values sort lowest, so they
+// come last when descending and first when ascending
+function afterValue(field: string, direction: 1 | -1, value: unknown) {
+  if (value === null) {
+    return direction === 1 ? { [field]: { $ne: null } } : null;
+  }
+  return direction === 1
+    ? { [field]: { $gt: value } }
+    : { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+}
+
+/**
+ * A filter for the items after the cursor: greater on the first field,
+ * or equal on it and greater on the next, and so on
+ */
+export function cursorFilter(cursor: string, sort: CursorSort) {
+  const values = decodeCursor(cursor, sort);
+  const fields = Object.entries(sort);
+  const branches = fields.flatMap(([field, direction], index) => {
+    const after = afterValue(field, direction, values[index]);
+    if (!after) {
+      return [];
+    }
+    const equal = Object.fromEntries(
+      fields.slice(0, index).map(([previous], i) => [previous, values[i]]),
+    );
+    return [{ ...equal, ...after }];
+  });
+  return { $or: branches };
+}
+
+/**
+ * Splits off the extra item fetched to tell whether another page exists
+ * (queries ask for `limit + 1`)
+ */
+export function toCursorPage<T>(docs: T[], limit: number, sort: CursorSort) {
+  const items = docs.slice(0, limit);
+  return {
+    items,
+    nextCursor:
+      docs.length > limit ? encodeCursor(items[items.length - 1], sort) : null,
+  };
+}
+
+export function sendInvalidCursor(res: Response, error: InvalidCursorError) {
+  return res.status(400).json({
+    success: false,
+    error: {
+      code: "INVALID_CURSOR",
+      message: error.message,
+    },
+  });
+}
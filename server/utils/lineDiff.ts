@@ -0,0 +1,190 @@
+/**
+ * Line-based diff for ChordPro text (Myers' O(ND) algorithm)
+ */
+
+export type DiffLineType = "equal" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLine?: number; // 1-based line number in the old text
+  newLine?: number; // 1-based line number in the new text
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+// Beyond this many edits, fall back to a whole-block replacement
+const MAX_EDIT_DISTANCE = 2000;
+
+function splitLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  return text.replace(/\r\n?/g, "\n").split("\n");
+}
+
+/**
+ * Computes the edit script between two line arrays as a list of
+ * operations, each pointing at an index in `a` (removed/equal) or `b` (added).
+ */
+function myers(
+  a: string[],
+  b: string[],
+): Array<{ type: DiffLineType; aIndex: number; bIndex: number }> | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(trace, n, m);
+      }
+    }
+    // Keep only the diagonals reachable at this depth
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number) {
+  const ops: Array<{ type: DiffLineType; aIndex: number; bIndex: number }> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ type: "equal", aIndex: x, bIndex: y });
+    }
+
+    if (prevK === k + 1) {
+      y--;
+      ops.push({ type: "added", aIndex: x, bIndex: y });
+    } else {
+      x--;
+      ops.push({ type: "removed", aIndex: x, bIndex: y });
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    ops.push({ type: "equal", aIndex: x, bIndex: y });
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Diffs two texts line by line. Unchanged leading and trailing lines are
+ * matched directly so typical edits only run the algorithm on a small window.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < start; i++) {
+    result.push({ type: "equal", text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const ops = myers(middleA, middleB);
+
+  if (ops) {
+    for (const op of ops) {
+      const oldLine = start + op.aIndex + 1;
+      const newLine = start + op.bIndex + 1;
+      if (op.type === "equal") {
+        result.push({
+          type: "equal",
+          text: middleA[op.aIndex],
+          oldLine,
+          newLine,
+        });
+      } else if (op.type === "removed") {
+        result.push({ type: "removed", text: middleA[op.aIndex], oldLine });
+      } else {
+        result.push({ type: "added", text: middleB[op.bIndex], newLine });
+      }
+    }
+  } else {
+    // Too many edits to align: show the whole block as replaced
+    middleA.forEach((text, i) =>
+      result.push({ type: "removed", text, oldLine: start + i + 1 }),
+    );
+    middleB.forEach((text, i) =>
+      result.push({ type: "added", text, newLine: start + i + 1 }),
+    );
+  }
+
+  for (let i = 0; i < a.length - endA; i++) {
+    result.push({
+      type: "equal",
+      text: a[endA + i],
+      oldLine: endA + i + 1,
+      newLine: endB + i + 1,
+    });
+  }
+
+  return result;
+}
+
+export function summarizeDiff(lines: DiffLine[]): DiffSummary {
+  return lines.reduce(
+    (summary, line) => {
+      if (line.type === "added") {
+        summary.added++;
+      } else if (line.type === "removed") {
+        summary.removed++;
+      } else {
+        summary.unchanged++;
+      }
+      return summary;
+    },
+    { added: 0, removed: 0, unchanged: 0 },
+  );
+}
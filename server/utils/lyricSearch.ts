@@ -0,0 +1,115 @@
+/**
+ * Phrase search over lyrics: song lyrics as written, and arrangement
+ * ChordPro with the chords and directives stripped out
+ */
+
+export interface SnippetLine {
+  text: string;
+  ranges: Array<[number, number]>; // [start, end) of the matched phrase
+}
+
+// Shorter phrases match almost every song
+export const MIN_PHRASE_LENGTH = 3;
+const CONTEXT_LINES = 1;
+
+const CHORD = "\\[[^\\]]*\\]";
+// Anything between two words: spaces, punctuation and line breaks
+const WORD_GAP = "[^a-z0-9]+";
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function phraseWords(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Case-insensitive pattern for the query's words in order, whatever
+ * punctuation or line breaks sit between them. With `inChordPro` it also
+ * skips chords placed between or inside the words.
+ */
+export function phrasePattern(
+  query: string,
+  { inChordPro = false } = {},
+): RegExp | null {
+  if (query.trim().length < MIN_PHRASE_LENGTH) {
+    return null;
+  }
+  const words = phraseWords(query);
+  if (words.length === 0) {
+    return null;
+  }
+
+  // The phrase starts at the start of a word but may end mid-word
+  if (!inChordPro) {
+    return new RegExp(`\\b${words.map(escapeRegExp).join(WORD_GAP)}`, "i");
+  }
+  const chords = `(?:${CHORD})*`;
+  const word = (value: string) => Array.from(value, escapeRegExp).join(chords);
+  return new RegExp(
+    `\\b${words.map(word).join(`(?:[^a-z0-9[]|${CHORD})+`)}`,
+    "i",
+  );
+}
+
+/** The sung lines of a ChordPro chart */
+export function chordProLyrics(chordData = ""): string[] {
+  return chordData
+    .split(/\r?\n/)
+    .filter((line) => !/^\s*[{#|]/.test(line))
+    .map((line) =>
+      line.replace(new RegExp(CHORD, "g"), "").replace(/\s+/g, " ").trim(),
+    )
+    .filter(Boolean);
+}
+
+export function lyricLines(lyrics = ""): string[] {
+  return lyrics
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The first place the phrase is sung, with a line of context either side.
+ * A phrase running over a line break is marked on both lines.
+ */
+export function findLyricSnippet(
+  lines: string[],
+  query: string,
+): SnippetLine[] | null {
+  const pattern = phrasePattern(query);
+  const text = lines.join("\n");
+  const match = pattern?.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const matchStart = match.index;
+  const matchEnd = match.index + match[0].length;
+  let offset = 0;
+  const spans = lines.map((line) => {
+    const span = { line, start: offset, end: offset + line.length };
+    offset = span.end + 1;
+    return span;
+  });
+
+  const first = spans.findIndex((span) => span.end > matchStart);
+  const last = spans.findIndex((span) => span.end >= matchEnd);
+  return spans
+    .slice(
+      Math.max(0, first - CONTEXT_LINES),
+      Math.min(spans.length, last + CONTEXT_LINES + 1),
+    )
+    .map(({ line, start, end }): SnippetLine => {
+      const from = Math.max(matchStart, start);
+      const to = Math.min(matchEnd, end);
+      return {
+        text: line,
+        ranges: from < to ? [[from - start, to - start]] : [],
+      };
+    });
+}
@@ -0,0 +1,120 @@
+/**
+ * Re-categorize job: stores fresh category IDs on every song after the
+ * mapping rules change
+ */
+
+import { scoreSongCategories } from "@shared/categories/categoryRules";
+import { Song } from "../database/models/Song";
+import { getCategoryRules, invalidateCategoryRules } from "./songCategories";
+
+export interface RecategorizeJobStatus {
+  state: "idle" | "running" | "failed";
+  queued: boolean; // Rules changed again while running, so it runs again
+  processed: number;
+  updated: number;
+  startedAt?: Date;
+  finishedAt?: Date;
+  error?: string;
+}
+
+const BATCH_SIZE = 500;
+
+let status: RecategorizeJobStatus = {
+  state: "idle",
+  queued: false,
+  processed: 0,
+  updated: 0,
+};
+
+const sameCategories = (a: string[] = [], b: string[]) =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+/**
+ * Scores every song with the current rules and saves the categories that
+ * changed. Songs are written in batches without re-running save hooks.
+ */
+export async function recategorizeSongs(
+  onProgress?: (processed: number, updated: number) => void,
+): Promise<{ processed: number; updated: number }> {
+  invalidateCategoryRules();
+  const rules = await getCategoryRules();
+
+  let processed = 0;
+  let updated = 0;
+  let updates: Parameters<typeof Song.bulkWrite>[0] = [];
+
+  const flush = async () => {
+    if (updates.length > 0) {
+      await Song.bulkWrite(updates, { ordered: false });
+      updated += updates.length;
+      updates = [];
+    }
+    onProgress?.(processed, updated);
+  };
+
+  const cursor = Song.find()
+    .select("title artist themes source lyrics categories")
+    .lean()
+    .cursor({ batchSize: BATCH_SIZE });
+
+  for await (const song of cursor) {
+    processed++;
+    const { categories } = scoreSongCategories(song, rules);
+    if (!sameCategories(song.categories, categories)) {
+      updates.push({
+        updateOne: { filter: { _id: song._id }, update: { categories } },
+      });
+    }
+    if (processed % BATCH_SIZE === 0) {
+      await flush();
+    }
+  }
+  await flush();
+
+  return { processed, updated };
+}
+
+export function getRecategorizeJobStatus(): RecategorizeJobStatus {
+  return { ...status };
+}
+
+/**
+ * Starts the job in the background. A request while it runs queues one
+ * more run, so the last rule change is always applied.
+ */
+export function startRecategorizeJob(): RecategorizeJobStatus {
+  if (status.state === "running") {
+    status.queued = true;
+    return getRecategorizeJobStatus();
+  }
+
+  status = {
+    state: "running",
+    queued: false,
+    processed: 0,
+    updated: 0,
+    startedAt: new Date(),
+  };
+
+  recategorizeSongs((processed, updated) => {
+    status.processed = processed;
+    status.updated = updated;
+  })
+    .then(() => {
+      status.state = "idle";
+    })
+    .catch((error) => {
+      console.error("Re-categorize job failed:", error);
+      status.state = "failed";
+      status.error = error instanceof Error ? error.message : String(error);
+    })
+    .finally(() => {
+      status.finishedAt = new Date();
+      if (status.queued) {
+        status.state = "idle";
+        startRecategorizeJob();
+      }
+    });
+
+  return getRecategorizeJobStatus();
+}
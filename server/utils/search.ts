@@ -0,0 +1,206 @@
+/**
+ * Typo-tolerant search scoring. MongoDB narrows the candidates with word
+ * prefixes; these helpers rank them by fuzzy and prefix matches and report
+ * where each match sits so the client can highlight it.
+ */
+
+export interface SearchField {
+  field: string;
+  text: string;
+  weight: number;
+}
+
+export interface SearchHighlight {
+  field: string;
+  text: string;
+  ranges: Array<[number, number]>; // [start, end) character offsets
+}
+
+export interface SearchMatch {
+  relevance: number; // 0-1
+  highlights: SearchHighlight[];
+}
+
+export interface Popularity {
+  rating?: number; // 0-5
+  views?: number;
+}
+
+// Letters of a query word that must match exactly before typos are allowed.
+// Candidates are fetched by these prefixes.
+export const CANDIDATE_PREFIX_LENGTH = 3;
+
+const RELEVANCE_WEIGHT = 0.8;
+// Views are scored on a log scale that tops out here
+const VIEWS_FOR_FULL_SCORE = 10000;
+
+const MATCH_SCORES = { exact: 1, prefix: 0.85, fuzzy: 0.7 };
+
+const stripAccents = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+export function tokenize(text: string): string[] {
+  return (
+    stripAccents(text)
+      .replace(/'/g, "")
+      .match(/[a-z0-9]+/g) ?? []
+  );
+}
+
+interface Word {
+  value: string;
+  start: number;
+  end: number;
+}
+
+function findWords(text: string): Word[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}']+/gu), (match) => ({
+    value: stripAccents(match[0]).replace(/'/g, ""),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+/** Damerau-Levenshtein distance with adjacent transpositions */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0,
+    ),
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// Short words must be spelled right; longer ones may have one or two typos
+const allowedTypos = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+/** How well a query word matches a word of the text, 0 for no match */
+export function matchWord(query: string, word: string): number {
+  if (word === query) {
+    return MATCH_SCORES.exact;
+  }
+  if (query.length >= 2 && word.startsWith(query)) {
+    return MATCH_SCORES.prefix;
+  }
+
+  const typos = allowedTypos(query.length);
+  if (typos === 0) {
+    return 0;
+  }
+  // A misspelt partial word is compared with starts of the word that are
+  // as long as the query give or take the typos allowed
+  let distance = editDistance(query, word);
+  for (
+    let length = query.length - typos;
+    length <= query.length + typos && length < word.length;
+    length++
+  ) {
+    distance = Math.min(distance, editDistance(query, word.slice(0, length)));
+  }
+  return distance <= typos
+    ? MATCH_SCORES.fuzzy * (1 - distance / (query.length + 1))
+    : 0;
+}
+
+/**
+ * Scores text fields against a query. Every query word must match a word
+ * somewhere in the fields, otherwise there is no match.
+ */
+export function scoreFields(
+  query: string,
+  fields: SearchField[],
+): SearchMatch | null {
+  const queryWords = [...new Set(tokenize(query))];
+  if (queryWords.length === 0) {
+    return null;
+  }
+
+  const fieldWords = fields.map((field) => findWords(field.text));
+  const ranges = fields.map(() => new Map<number, number>());
+  let total = 0;
+
+  for (const queryWord of queryWords) {
+    let best = 0;
+    const hits: Array<{ fieldIndex: number; word: Word }> = [];
+
+    fields.forEach((field, fieldIndex) => {
+      for (const word of fieldWords[fieldIndex]) {
+        const score = matchWord(queryWord, word.value) * field.weight;
+        if (score > 0) {
+          hits.push({ fieldIndex, word });
+          best = Math.max(best, score);
+        }
+      }
+    });
+
+    if (best === 0) {
+      return null;
+    }
+    total += best;
+    for (const { fieldIndex, word } of hits) {
+      ranges[fieldIndex].set(word.start, word.end);
+    }
+  }
+
+  const highlights = fields.flatMap((field, index) =>
+    ranges[index].size > 0
+      ? [
+          {
+            field: field.field,
+            text: field.text,
+            ranges: [...ranges[index].entries()].sort(([a], [b]) => a - b),
+          },
+        ]
+      : [],
+  );
+
+  return { relevance: total / queryWords.length, highlights };
+}
+
+/** Relevance blended with how well rated and viewed a result is */
+export function blendScore(relevance: number, popularity: Popularity): number {
+  const rating = Math.min(Math.max(popularity.rating ?? 0, 0), 5) / 5;
+  const views = Math.min(
+    Math.log10((popularity.views ?? 0) + 1) / Math.log10(VIEWS_FOR_FULL_SCORE),
+    1,
+  );
+  return (
+    RELEVANCE_WEIGHT * relevance +
+    (1 - RELEVANCE_WEIGHT) * ((rating + views) / 2)
+  );
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Case-insensitive pattern for candidate documents: any word starting
+ * with the first letters of any query word
+ */
+export function candidatePattern(query: string): RegExp | null {
+  const prefixes = [
+    ...new Set(
+      tokenize(query).map((word) => word.slice(0, CANDIDATE_PREFIX_LENGTH)),
+    ),
+  ];
+  if (prefixes.length === 0) {
+    return null;
+  }
+  return new RegExp(`\\b(${prefixes.map(escapeRegExp).join("|")})`, "i");
+}
@@ -0,0 +1,240 @@
+/**
+ * Setlist duration estimation from arrangement tempo, time signature and bars
+ */
+
+// Used when an item has no arrangement or not enough data to time it
+export const DEFAULT_ITEM_SECONDS = 240;
+
+// Typical bar counts for structure labels such as "V1", "C" or "Bridge"
+const SECTION_BARS: Record<string, number> = {
+  I: 4, // Intro
+  V: 16, // Verse
+  PC: 8, // Pre-chorus
+  C: 16, // Chorus
+  B: 8, // Bridge
+  INT: 4, // Interlude
+  INST: 8, // Instrumental
+  T: 4, // Tag
+  O: 4, // Outro
+  E: 4, // Ending
+};
+const DEFAULT_SECTION_BARS = 8;
+
+const SECTION_ALIASES: Record<string, string> = {
+  INTRO: "I",
+  VERSE: "V",
+  PRECHORUS: "PC",
+  CHORUS: "C",
+  BRIDGE: "B",
+  INTERLUDE: "INT",
+  INSTRUMENTAL: "INST",
+  TAG: "T",
+  OUTRO: "O",
+  ENDING: "E",
+};
+
+export type DurationSource =
+  | "override"
+  | "mashup"
+  | "chordpro"
+  | "structure"
+  | "default";
+
+// The arrangement fields needed to time an item
+export interface TimedArrangement {
+  _id?: { toString(): string } | string;
+  tempo?: number;
+  timeSignature?: string;
+  chordData?: string;
+  structure?: string[];
+  metadata?: {
+    isMashup?: boolean;
+    mashupSections?: Array<{ startBar?: number; endBar?: number }>;
+  };
+}
+
+export interface TimedSetlistItem {
+  songId: { toString(): string } | string;
+  arrangementId?: { toString(): string } | string | TimedArrangement | null;
+  order: number;
+  durationOverride?: number; // Seconds
+}
+
+export interface ItemDurationEstimate {
+  songId: string;
+  arrangementId?: string;
+  order: number;
+  seconds: number;
+  source: DurationSource;
+  bars?: number;
+  tempo?: number;
+  timeSignature?: string;
+}
+
+export interface SetlistDurationEstimate {
+  totalSeconds: number;
+  estimatedMinutes: number;
+  items: ItemDurationEstimate[];
+}
+
+export function parseTimeSignature(timeSignature = "4/4"): {
+  beats: number;
+  unit: number;
+} {
+  const match = /^(\d+)\/(\d+)$/.exec(timeSignature.trim());
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+    return { beats: 4, unit: 4 };
+  }
+  return { beats: Number(match[1]), unit: Number(match[2]) };
+}
+
+/**
+ * Counts bars written with "|" separators, e.g. "| G | C | D | G |".
+ * Directive and comment lines are skipped.
+ */
+export function countChordProBars(chordData?: string): number {
+  if (!chordData) {
+    return 0;
+  }
+
+  return chordData.split(/\r?\n/).reduce((total, rawLine) => {
+    const line = rawLine.trim();
+    if (!line.includes("|") || line.startsWith("{") || line.startsWith("#")) {
+      return total;
+    }
+    return total + line.split("|").filter((bar) => bar.trim()).length;
+  }, 0);
+}
+
+export function countStructureBars(structure?: string[]): number {
+  if (!structure) {
+    return 0;
+  }
+
+  return structure.reduce((total, label) => {
+    const name = label
+      .toUpperCase()
+      .replace(/[^A-Z]/g, "")
+      .replace(/^PRE(CHORUS)?$/, "PRECHORUS");
+    const key = SECTION_ALIASES[name] || name;
+    return total + (SECTION_BARS[key] ?? DEFAULT_SECTION_BARS);
+  }, 0);
+}
+
+export function countMashupBars(
+  sections?: Array<{ startBar?: number; endBar?: number }>,
+): number {
+  if (!sections) {
+    return 0;
+  }
+
+  return sections.reduce((total, section) => {
+    if (section.startBar && section.endBar) {
+      return total + (section.endBar - section.startBar + 1);
+    }
+    return total;
+  }, 0);
+}
+
+// Tempo is counted in the time signature's beat unit
+export function barsToSeconds(
+  bars: number,
+  tempo: number,
+  timeSignature?: string,
+): number {
+  const { beats } = parseTimeSignature(timeSignature);
+  return Math.round((bars * beats * 60) / tempo);
+}
+
+function idToString(
+  ref: { toString(): string } | string | undefined,
+): string | undefined {
+  return ref ? ref.toString() : undefined;
+}
+
+// Populated arrangements are objects with their own fields, not bare IDs
+function isTimedArrangement(ref: unknown): ref is TimedArrangement {
+  return (
+    !!ref &&
+    typeof ref === "object" &&
+    ("tempo" in ref || "chordData" in ref || "structure" in ref)
+  );
+}
+
+/**
+ * Estimates one item. A manual override wins; otherwise bars come from
+ * mashup sections, then ChordPro bar lines, then the structure.
+ */
+export function estimateItemDuration(
+  item: TimedSetlistItem,
+  arrangement?: TimedArrangement | null,
+): ItemDurationEstimate {
+  const base = {
+    songId: item.songId.toString(),
+    arrangementId: isTimedArrangement(item.arrangementId)
+      ? idToString(item.arrangementId._id)
+      : idToString(item.arrangementId ?? undefined),
+    order: item.order,
+  };
+
+  if (item.durationOverride !== undefined && item.durationOverride !== null) {
+    return { ...base, seconds: item.durationOverride, source: "override" };
+  }
+
+  if (!arrangement?.tempo) {
+    return { ...base, seconds: DEFAULT_ITEM_SECONDS, source: "default" };
+  }
+
+  const candidates: Array<[DurationSource, number]> = [
+    [
+      "mashup",
+      arrangement.metadata?.isMashup
+        ? countMashupBars(arrangement.metadata.mashupSections)
+        : 0,
+    ],
+    ["chordpro", countChordProBars(arrangement.chordData)],
+    ["structure", countStructureBars(arrangement.structure)],
+  ];
+  const found = candidates.find(([, bars]) => bars > 0);
+
+  if (!found) {
+    return { ...base, seconds: DEFAULT_ITEM_SECONDS, source: "default" };
+  }
+
+  const [source, bars] = found;
+  const timeSignature = arrangement.timeSignature || "4/4";
+  return {
+    ...base,
+    seconds: barsToSeconds(bars, arrangement.tempo, timeSignature),
+    source,
+    bars,
+    tempo: arrangement.tempo,
+    timeSignature,
+  };
+}
+
+/**
+ * Estimates every item of a setlist. Arrangements are taken from populated
+ * items or looked up in `arrangements` by ID.
+ */
+export function estimateSetlistDuration(
+  items: TimedSetlistItem[],
+  arrangements: Map<string, TimedArrangement> = new Map(),
+): SetlistDurationEstimate {
+  const estimates = [...items]
+    .sort((a, b) => a.order - b.order)
+    .map((item) => {
+      const arrangement = isTimedArrangement(item.arrangementId)
+        ? item.arrangementId
+        : arrangements.get(idToString(item.arrangementId ?? undefined) || "");
+      return estimateItemDuration(item, arrangement);
+    });
+
+  const totalSeconds = estimates.reduce((sum, item) => sum + item.seconds, 0);
+
+  return {
+    totalSeconds,
+    estimatedMinutes: Math.round(totalSeconds / 60),
+    items: estimates,
+  };
+}
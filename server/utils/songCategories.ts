@@ -0,0 +1,73 @@
+/**
+ * Spiritual categories a song belongs to, decided by the mapping rules
+ * stored with each category
+ */
+
+import {
+  BUILT_IN_CATEGORIES,
+  scoreSongCategories,
+  type CategorizableSong,
+} from "@shared/categories/categoryRules";
+import type { CategoryRuleSet } from "@shared/types/category.types";
+import { Category, type ICategory } from "../database/models/Category";
+
+export type CategoryRules = CategoryRuleSet[];
+
+// The built-in categories, stored when the collection is empty
+export const DEFAULT_CATEGORIES = BUILT_IN_CATEGORIES.map(
+  (category, order) => ({
+    categoryId: category.id,
+    name: category.name,
+    description: category.description,
+    color: category.color,
+    rules: category.mappingRules,
+    order,
+  }),
+);
+
+// Edits made through another server instance show up after this long
+const CATEGORY_CACHE_TTL_MS = 60 * 1000; // 1 minute
+
+let cachedCategories: ICategory[] | null = null;
+let categoriesLoadedAt = 0;
+
+/** Stores the built-in categories unless categories already exist */
+export async function seedDefaultCategories(): Promise<void> {
+  if ((await Category.countDocuments()) === 0) {
+    await Category.insertMany(DEFAULT_CATEGORIES);
+  }
+}
+
+/**
+ * The active categories, reloaded when the cache expires or they are
+ * edited here (see invalidateCategoryRules)
+ */
+export async function getActiveCategories(): Promise<ICategory[]> {
+  if (
+    !cachedCategories ||
+    Date.now() - categoriesLoadedAt > CATEGORY_CACHE_TTL_MS
+  ) {
+    await seedDefaultCategories();
+    cachedCategories = await Category.findActive();
+    categoriesLoadedAt = Date.now();
+  }
+  return cachedCategories;
+}
+
+export async function getCategoryRules(): Promise<CategoryRules> {
+  return (await getActiveCategories()).map((category) => ({
+    id: category.categoryId,
+    mappingRules: category.rules,
+  }));
+}
+
+export function invalidateCategoryRules(): void {
+  cachedCategories = null;
+}
+
+/** IDs of the categories a song belongs to, best match first */
+export async function categorizeSong(
+  song: CategorizableSong,
+): Promise<string[]> {
+  return scoreSongCategories(song, await getCategoryRules()).categories;
+}
@@ -0,0 +1,92 @@
+import { Types } from "mongoose";
+import {
+  SongChange,
+  SONG_CHANGE_FIELDS,
+  type ISong,
+  type ISongChange,
+  type SongChangeField,
+  type SongChangeSource,
+} from "../database/models";
+
+export type SongFieldSnapshot = Record<SongChangeField, unknown>;
+
+export interface SongFieldChange {
+  field: SongChangeField;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Unset and empty values are stored as null so they compare equal
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === "") {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return [...value];
+  }
+  return value;
+}
+
+export function isSameSongValue(a: unknown, b: unknown): boolean {
+  const left = normalizeValue(a);
+  const right = normalizeValue(b);
+  if (Array.isArray(left) || Array.isArray(right)) {
+    return JSON.stringify(left ?? []) === JSON.stringify(right ?? []);
+  }
+  return left === right;
+}
+
+export function takeSongFieldSnapshot(
+  song: Partial<Pick<ISong, SongChangeField>>,
+): SongFieldSnapshot {
+  return SONG_CHANGE_FIELDS.reduce((snapshot, field) => {
+    snapshot[field] = normalizeValue(song[field]);
+    return snapshot;
+  }, {} as SongFieldSnapshot);
+}
+
+// List the tracked fields that differ between two snapshots
+export function diffSongFields(
+  before: SongFieldSnapshot,
+  after: SongFieldSnapshot,
+): SongFieldChange[] {
+  return SONG_CHANGE_FIELDS.filter(
+    (field) => !isSameSongValue(before[field], after[field]),
+  ).map((field) => ({
+    field,
+    oldValue: before[field],
+    newValue: after[field],
+  }));
+}
+
+interface RecordSongChangesOptions {
+  changedBy: string | Types.ObjectId;
+  source: SongChangeSource;
+  revertOf?: Types.ObjectId;
+}
+
+/**
+ * Appends one change log entry per changed field of a song.
+ */
+export async function recordSongChanges(
+  songId: Types.ObjectId,
+  changes: SongFieldChange[],
+  options: RecordSongChangesOptions,
+): Promise<ISongChange[]> {
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const changedBy = new Types.ObjectId(options.changedBy.toString());
+  return await SongChange.insertMany(
+    changes.map((change) => ({
+      songId,
+      field: change.field,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      changedBy,
+      source: options.source,
+      revertOf: options.revertOf,
+    })),
+  );
+}
@@ -0,0 +1,303 @@
+/**
+ * The song catalog as two aggregations under the same filters: a page of
+ * songs, and the total with counts for every facet
+ */
+
+import type { FilterQuery, PipelineStage } from "mongoose";
+import { SONG_FACETS, TEMPO_RANGES } from "@shared/songs/songFacets";
+import type {
+  SongFacet,
+  SongFacetFilters,
+  SongFacets,
+} from "@shared/types/facet.types";
+import type { ISong } from "../database/models/Song";
+import type { IArrangement } from "../database/models/Arrangement";
+import {
+  cursorFilter,
+  withIdTiebreak,
+  type CursorSort,
+} from "./cursorPagination";
+
+export const SONG_SORTS = ["recent", "popular", "rating", "title"] as const;
+// Relevance needs a text search, so it is only chosen by the server
+export type SongSort = (typeof SONG_SORTS)[number] | "relevance";
+
+export interface SongCatalogQuery {
+  match: FilterQuery<ISong>; // Applied before anything else, e.g. $text
+  filters: SongFacetFilters;
+  sort: SongSort;
+  offset: number;
+  limit: number;
+  cursor?: string; // Resumes after a previous page, in place of the offset
+}
+
+const ARRANGEMENT_FIELDS = {
+  key: 1,
+  tempo: 1,
+  difficulty: 1,
+  timeSignature: 1,
+  chordData: 1,
+} as const;
+
+// A catalog song, with its default arrangement joined in
+export type CatalogSong = Omit<ISong, "defaultArrangement"> & {
+  defaultArrangement?: Pick<
+    IArrangement,
+    "_id" | keyof typeof ARRANGEMENT_FIELDS
+  >;
+  searchScore?: number; // Only when sorting by relevance
+};
+
+type FacetBuckets = { _id: unknown; count: number }[];
+
+// The single document the facets pipeline returns
+export type SongFacetsAggregate = Record<SongFacet, FacetBuckets> & {
+  total: { count: number }[];
+};
+
+export interface SongCatalogResult {
+  songs: CatalogSong[];
+  total: number;
+  facets: SongFacets;
+}
+
+// Themes and sources are open-ended, so only the most common are listed
+const FACET_BUCKET_LIMIT = 50;
+
+// Facets read from the default arrangement, so they can only be matched
+// once it is joined in
+const ARRANGEMENT_FACETS: SongFacet[] = [
+  "key",
+  "difficulty",
+  "tempo",
+  "timeSignature",
+];
+
+// Where each facet's value sits on a song, and whether a song has several
+const FACET_FIELDS: Record<SongFacet, { path: string; multiple?: boolean }> = {
+  theme: { path: "themes", multiple: true },
+  key: { path: "facetValues.key" },
+  difficulty: { path: "facetValues.difficulty" },
+  tempo: { path: "facetValues.tempo" },
+  timeSignature: { path: "facetValues.timeSignature" },
+  source: { path: "source" },
+  decade: { path: "facetValues.decade" },
+  category: { path: "categories", multiple: true },
+};
+
+const SORT_STAGES: Record<SongSort, Record<string, 1 | -1>> = {
+  recent: { createdAt: -1 },
+  popular: { "metadata.views": -1 },
+  rating: { "metadata.ratings.average": -1 },
+  title: { title: 1 },
+  relevance: { searchScore: -1 },
+};
+
+/** The full sort order, ending with `_id` so pages never overlap */
+export function songSortOrder(sort: SongSort): CursorSort {
+  return withIdTiebreak(SORT_STAGES[sort]);
+}
+
+// Key, tempo, difficulty and time signature come from the default
+// arrangement, with the same defaults the client is sent
+const facetValuesStage: PipelineStage = {
+  $addFields: {
+    facetValues: {
+      key: "$defaultArrangement.key",
+      difficulty: {
+        $ifNull: ["$defaultArrangement.difficulty", "intermediate"],
+      },
+      tempo: {
+        $switch: {
+          branches: TEMPO_RANGES.map((range) => ({
+            case: {
+              $and: [
+                { $isNumber: "$defaultArrangement.tempo" },
+                { $gte: ["$defaultArrangement.tempo", range.min] },
+                ...(Number.isFinite(range.max)
+                  ? [{ $lt: ["$defaultArrangement.tempo", range.max] }]
+                  : []),
+              ],
+            },
+            then: range.value,
+          })),
+          default: null,
+        },
+      },
+      timeSignature: {
+        $cond: [
+          { $ifNull: ["$defaultArrangement._id", false] },
+          { $ifNull: ["$defaultArrangement.timeSignature", "4/4"] },
+          null,
+        ],
+      },
+      decade: {
+        $cond: [
+          { $isNumber: "$compositionYear" },
+          {
+            $toString: {
+              $subtract: [
+                { $toInt: "$compositionYear" },
+                { $mod: [{ $toInt: "$compositionYear" }, 10] },
+              ],
+            },
+          },
+          null,
+        ],
+      },
+    },
+  },
+};
+
+/** The filters as a match on the computed facet values */
+function matchFilters(
+  filters: SongFacetFilters,
+  facets: SongFacet[] = SONG_FACETS,
+) {
+  return Object.fromEntries(
+    facets
+      .filter((facet) => filters[facet] !== undefined)
+      .map((facet) => [FACET_FIELDS[facet].path, filters[facet]]),
+  );
+}
+
+/**
+ * The filters on the song's own fields, which narrow the catalog before
+ * arrangements are joined in. The decade is matched on the composition year
+ * so the year index applies.
+ */
+function matchSongFilters(filters: SongFacetFilters): FilterQuery<ISong> {
+  const { decade } = filters;
+  return {
+    ...matchFilters(
+      filters,
+      SONG_FACETS.filter(
+        (facet) => facet !== "decade" && !ARRANGEMENT_FACETS.includes(facet),
+      ),
+    ),
+    ...(decade !== undefined && {
+      compositionYear: { $gte: Number(decade), $lt: Number(decade) + 10 },
+    }),
+  };
+}
+
+// Counted under every filter but its own
+function facetPipeline(
+  facet: SongFacet,
+  filters: SongFacetFilters,
+): PipelineStage.FacetPipelineStage[] {
+  const { path, multiple } = FACET_FIELDS[facet];
+  return [
+    {
+      $match: matchFilters(
+        filters,
+        SONG_FACETS.filter((f) => f !== facet),
+      ),
+    },
+    ...(multiple ? [{ $unwind: `$${path}` }] : []),
+    { $group: { _id: `$${path}`, count: { $sum: 1 } } },
+    { $match: { _id: { $nin: [null, ""] } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: FACET_BUCKET_LIMIT },
+  ];
+}
+
+// Joins in the default arrangement and computes the facet values from it
+const arrangementStages: PipelineStage[] = [
+  {
+    $lookup: {
+      from: "arrangements",
+      let: { arrangementId: "$defaultArrangement" },
+      pipeline: [
+        { $match: { $expr: { $eq: ["$_id", "$$arrangementId"] } } },
+        { $project: ARRANGEMENT_FIELDS },
+      ],
+      as: "defaultArrangement",
+    },
+  },
+  {
+    $unwind: {
+      path: "$defaultArrangement",
+      preserveNullAndEmptyArrays: true,
+    },
+  },
+  facetValuesStage,
+];
+
+/**
+ * One page of songs. Without arrangement filters the page is cut before
+ * arrangements are joined in, so only its songs are looked up; with them
+ * the lookup covers the songs that pass the song filters.
+ */
+export function buildSongPagePipeline({
+  match,
+  filters,
+  sort,
+  offset,
+  limit,
+  cursor,
+}: SongCatalogQuery): PipelineStage[] {
+  const order = songSortOrder(sort);
+  const arrangementMatch = matchFilters(filters, ARRANGEMENT_FACETS);
+  const filterArrangements = Object.keys(arrangementMatch).length > 0;
+  const page: PipelineStage[] = [
+    ...(cursor ? [{ $match: cursorFilter(cursor, order) }] : []),
+    { $sort: order },
+    { $skip: cursor ? 0 : offset },
+    // One extra to tell whether there is a next page
+    { $limit: limit + 1 },
+  ];
+
+  return [
+    { $match: { ...match, ...matchSongFilters(filters) } },
+    ...(sort === "relevance"
+      ? [{ $addFields: { searchScore: { $meta: "textScore" } } }]
+      : []),
+    ...(filterArrangements
+      ? [...arrangementStages, { $match: arrangementMatch }, ...page]
+      : [...page, ...arrangementStages]),
+    // The search score stays for the next cursor
+    { $project: { facetValues: 0 } },
+  ];
+}
+
+/** The total and counts for every facet, under the same filters as the page */
+export function buildSongFacetsPipeline({
+  match,
+  filters,
+}: Pick<SongCatalogQuery, "match" | "filters">): PipelineStage[] {
+  return [
+    { $match: match },
+    ...arrangementStages,
+    {
+      $facet: {
+        total: [{ $match: matchFilters(filters) }, { $count: "count" }],
+        ...Object.fromEntries(
+          SONG_FACETS.map((facet) => [facet, facetPipeline(facet, filters)]),
+        ),
+      },
+    },
+  ];
+}
+
+/** Puts a page together with the document the facets pipeline returns */
+export function readSongCatalog(
+  songs: CatalogSong[],
+  result: SongFacetsAggregate | undefined,
+): SongCatalogResult {
+  const facets = Object.fromEntries(
+    SONG_FACETS.map((facet) => [
+      facet,
+      (result?.[facet] ?? []).map(({ _id, count }) => ({
+        value: String(_id),
+        count,
+      })),
+    ]),
+  ) as SongFacets;
+
+  return {
+    songs,
+    total: result?.total?.[0]?.count ?? 0,
+    facets,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * "Pairs well with" scoring: how well a song goes with another, from what
+ * they share and how worship leaders and listeners combine them
+ */
+
+export interface RecommendationSubject {
+  themes?: string[];
+  categories?: string[];
+  key?: string;
+  tempo?: number;
+}
+
+// How often a candidate appears alongside the song
+export interface CoOccurrence {
+  setlists: number; // Setlists containing both songs
+  favorites: number; // Users who favorited both songs
+}
+
+export interface SongSimilarity {
+  score: number;
+  reasons: string[]; // Strongest first, shown to the user
+}
+
+export const SIMILARITY_WEIGHTS = {
+  theme: 3, // Per shared theme
+  category: 4, // Per shared category
+  sameKey: 3,
+  neighborKey: 2, // A fifth apart, an easy transition
+  stepKey: 1, // A whole step apart, a common lift into the next song
+  closeTempo: 2, // Within CLOSE_TEMPO BPM
+  nearTempo: 1, // Within NEAR_TEMPO BPM
+  setlist: 2, // Per shared setlist
+  favorite: 1.5, // Per shared favorite
+};
+
+const CLOSE_TEMPO = 8;
+const NEAR_TEMPO = 16;
+// Counted up to this many, so one heavily used pair cannot drown out the rest
+const MAX_SHARED = 5;
+
+const NOTE_PITCHES: Record<string, number> = {
+  C: 0,
+  "C#": 1,
+  Db: 1,
+  D: 2,
+  "D#": 3,
+  Eb: 3,
+  E: 4,
+  F: 5,
+  "F#": 6,
+  Gb: 6,
+  G: 7,
+  "G#": 8,
+  Ab: 8,
+  A: 9,
+  "A#": 10,
+  Bb: 10,
+  B: 11,
+};
+
+/** How easily one key moves to another in a set */
+export function keyCompatibility(
+  a?: string,
+  b?: string,
+): "same" | "neighbor" | "step" | null {
+  const pitchA = a ? NOTE_PITCHES[a] : undefined;
+  const pitchB = b ? NOTE_PITCHES[b] : undefined;
+  if (pitchA === undefined || pitchB === undefined) {
+    return null;
+  }
+  const interval = (pitchB - pitchA + 12) % 12;
+  if (interval === 0) {
+    return "same";
+  }
+  if (interval === 5 || interval === 7) {
+    return "neighbor";
+  }
+  if (interval === 2 || interval === 10) {
+    return "step";
+  }
+  return null;
+}
+
+const shared = (a: string[] = [], b: string[] = []) => {
+  const lower = new Set(a.map((value) => value.toLowerCase()));
+  return b.filter((value) => lower.has(value.toLowerCase()));
+};
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+export function scoreSongSimilarity(
+  song: RecommendationSubject,
+  candidate: RecommendationSubject,
+  coOccurrence: CoOccurrence = { setlists: 0, favorites: 0 },
+): SongSimilarity {
+  const parts: Array<{ points: number; reason: string }> = [];
+  const add = (points: number, reason: string) => {
+    if (points > 0) {
+      parts.push({ points, reason });
+    }
+  };
+
+  const themes = shared(song.themes, candidate.themes).slice(0, MAX_SHARED);
+  add(
+    themes.length * SIMILARITY_WEIGHTS.theme,
+    `Shared ${themes.length === 1 ? "theme" : "themes"}: ${themes.join(", ")}`,
+  );
+
+  const categories = shared(song.categories, candidate.categories);
+  add(categories.length * SIMILARITY_WEIGHTS.category, "Same category");
+
+  const setlists = Math.min(coOccurrence.setlists, MAX_SHARED);
+  add(
+    setlists * SIMILARITY_WEIGHTS.setlist,
+    `Together in ${plural(coOccurrence.setlists, "setlist")}`,
+  );
+
+  const favorites = Math.min(coOccurrence.favorites, MAX_SHARED);
+  add(
+    favorites * SIMILARITY_WEIGHTS.favorite,
+    `Favorited together by ${plural(coOccurrence.favorites, "user")}`,
+  );
+
+  switch (keyCompatibility(song.key, candidate.key)) {
+    case "same":
+      add(SIMILARITY_WEIGHTS.sameKey, `Same key (${candidate.key})`);
+      break;
+    case "neighbor":
+      add(SIMILARITY_WEIGHTS.neighborKey, `Related key (${candidate.key})`);
+      break;
+    case "step":
+      add(SIMILARITY_WEIGHTS.stepKey, `Key a step away (${candidate.key})`);
+      break;
+  }
+
+  if (song.tempo && candidate.tempo) {
+    const difference = Math.abs(song.tempo - candidate.tempo);
+    if (difference <= CLOSE_TEMPO) {
+      add(
+        SIMILARITY_WEIGHTS.closeTempo,
+        `Similar tempo (${candidate.tempo} BPM)`,
+      );
+    } else if (difference <= NEAR_TEMPO) {
+      add(SIMILARITY_WEIGHTS.nearTempo, `Close tempo (${candidate.tempo} BPM)`);
+    }
+  }
+
+  parts.sort((a, b) => b.points - a.points);
+  return {
+    score: parts.reduce((total, part) => total + part.points, 0),
+    reasons: parts.map((part) => part.reason),
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  getBeatsPerBar,
+  getChartDuration,
+  getPracticeTempo,
+  getScrollRate,
+  getSectionTimings,
+  nudgeScrollSpeed,
+  parseTimeSignature,
+} from "../autoScroll";
+
+const chart = `{start_of_verse}
+| G | C | G | D |
+{end_of_verse}
+
+{start_of_chorus}
+[C]Praise [G]him
+{end_of_chorus}
+
+{c: Outro}
+No chords here`;
+
+describe("autoScroll", () => {
+  it("parses time signatures and counts compound meters in dotted beats", () => {
+    expect(parseTimeSignature("6/8")).toEqual({ beats: 6, noteValue: 8 });
+    expect(parseTimeSignature("four")).toEqual({ beats: 4, noteValue: 4 });
+    expect(getBeatsPerBar("3/4")).toBe(3);
+    expect(getBeatsPerBar("6/8")).toBe(2);
+    expect(getBeatsPerBar("12/8")).toBe(4);
+    expect(getBeatsPerBar(undefined)).toBe(4);
+  });
+
+  it("times each section from the tempo and its bars", () => {
+    expect(
+      getSectionTimings(chart, 120, "4/4").map(
+        ({ label, startSeconds, seconds }) => [label, startSeconds, seconds],
+      ),
+    ).toEqual([
+      ["Verse", 0, 8],
+      ["Chorus", 8, 4],
+      // A section without chords still takes a bar
+      ["Outro", 12, 2],
+    ]);
+    expect(getChartDuration(chart, 60, "3/4")).toBe(21);
+  });
+
+  it("paces the scroll to the chart and the chosen speed", () => {
+    expect(getScrollRate(1200, 60)).toBe(20);
+    expect(getScrollRate(1200, 60, 1.5)).toBe(30);
+    expect(getScrollRate(-100, 60)).toBe(0);
+  });
+
+  it("nudges the speed within its bounds", () => {
+    expect(nudgeScrollSpeed(1, 1)).toBe(1.25);
+    expect(nudgeScrollSpeed(0.25, -1)).toBe(0.25);
+    expect(nudgeScrollSpeed(4, 2)).toBe(4);
+  });
+
+  it("slows the practice tempo by a percentage", () => {
+    expect(getPracticeTempo(120, 75)).toBe(90);
+    expect(getPracticeTempo(undefined, 50)).toBe(50);
+    expect(getPracticeTempo(40, 50)).toBe(30);
+  });
+});
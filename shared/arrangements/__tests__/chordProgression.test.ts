@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  chordToDegree,
+  findProgression,
+  formatProgression,
+  indexChordProgression,
+  parseProgression,
+  progressionPattern,
+} from "../chordProgression";
+
+const chart = `{title: Grace}
+{key: G}
+{start_of_verse}
+[G]Amazing [Gmaj7]grace how [D/F#]sweet the [Em7]sound
+[Csus2]That saved a [C]wretch like [G]me
+{end_of_verse}
+{start_of_chorus}
+| Am7 | D | G | G |
+{end_of_chorus}`;
+
+describe("chordToDegree", () => {
+  it("keeps the root's degree and triad quality only", () => {
+    expect(chordToDegree("Em7", "G")).toBe("6m");
+    expect(chordToDegree("D/F#", "G")).toBe("5");
+    expect(chordToDegree("F#m7b5", "G")).toBe("7dim");
+    expect(chordToDegree("F", "G")).toBe("b7");
+    expect(chordToDegree("6m7", "G")).toBe("6m");
+  });
+});
+
+describe("indexChordProgression", () => {
+  it("lists the chart's chords as degrees with repeats merged", () => {
+    expect(indexChordProgression(chart, "G")).toBe("1 5 6m 4 1 2m 5 1");
+  });
+});
+
+describe("parseProgression", () => {
+  it("reads Roman numerals by their case", () => {
+    const parsed = parseProgression("I–V–vi–IV");
+
+    expect(parsed?.steps).toEqual([
+      { degree: "1", quality: "" },
+      { degree: "5", quality: "" },
+      { degree: "6", quality: "m" },
+      { degree: "4", quality: "" },
+    ]);
+    expect(formatProgression(parsed!.steps)).toBe("I–V–vi–IV");
+  });
+
+  it("matches bare numbers whatever the chord quality", () => {
+    const parsed = parseProgression("1-5-6-4");
+
+    expect(parsed?.steps.map((step) => step.quality)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ]);
+    expect(progressionPattern(parsed!.steps).test("4 1 5 6m 4 1")).toBe(true);
+  });
+
+  it("reads letter chords in the key they suggest or the one given", () => {
+    expect(parseProgression("Dm G7 C")).toMatchObject({
+      key: "C",
+      steps: [
+        { degree: "2", quality: "m" },
+        { degree: "5", quality: "" },
+        { degree: "1", quality: "" },
+      ],
+    });
+    expect(formatProgression(parseProgression("Dm G7 C", "F")!.steps)).toBe(
+      "vi–II–V",
+    );
+  });
+
+  it("rejects unreadable or too short progressions", () => {
+    expect(parseProgression("I V banana")).toBeNull();
+    expect(parseProgression("vI V")).toBeNull();
+    expect(parseProgression("G")).toBeNull();
+  });
+});
+
+describe("progressionPattern", () => {
+  it("matches whole chords only", () => {
+    const pattern = progressionPattern(parseProgression("ii V I")!.steps);
+
+    expect(pattern.test("6m 2m 5 1")).toBe(true);
+    expect(pattern.test("2m 5 1m")).toBe(false);
+    expect(pattern.test("b2m 5 1")).toBe(false);
+  });
+});
+
+describe("findProgression", () => {
+  it("names the section each occurrence starts in, with its chords", () => {
+    expect(
+      findProgression(chart, "G", parseProgression("ii V I")!.steps),
+    ).toEqual([{ section: "Chorus", chords: ["Am7", "D", "G"] }]);
+    expect(
+      findProgression(chart, "G", parseProgression("IV I ii")!.steps),
+    ).toEqual([{ section: "Verse", chords: ["Csus2", "G", "Am7"] }]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildMashup,
+  countChordProSectionBars,
+  splitChordProSections,
+  validateMashupSections,
+} from "../mashup";
+
+const amazingGrace = `{title: Amazing Grace}
+{key: G}
+
+{start_of_verse}
+[G]Amazing [C]grace how [G]sweet the sound
+{end_of_verse}
+
+{start_of_verse}
+[G]'Twas grace that [D]taught
+{end_of_verse}
+
+{start_of_chorus: Tag}
+| G | D | G |
+{end_of_chorus}`;
+
+const cornerstone = `{c: Chorus}
+[C]Christ alone, [F]cornerstone
+[Am]Weak made [G]strong`;
+
+describe("mashup", () => {
+  it("counts bar lines, or one bar per chord without them", () => {
+    expect(countChordProSectionBars("| G | C | D |\n[G]la [C]la")).toBe(5);
+    expect(countChordProSectionBars("{start_of_verse}\nNo chords")).toBe(0);
+  });
+
+  it("splits charts at environments and headings", () => {
+    expect(
+      splitChordProSections(amazingGrace).map(({ label, bars }) => [
+        label,
+        bars,
+      ]),
+    ).toEqual([
+      ["Verse", 3],
+      ["Verse 2", 2],
+      ["Tag", 3],
+    ]);
+    expect(splitChordProSections(cornerstone)).toEqual([
+      expect.objectContaining({ label: "Chorus", bars: 4 }),
+    ]);
+    expect(splitChordProSections("[G]Just a line")).toEqual([
+      expect.objectContaining({ label: "Intro", bars: 1 }),
+    ]);
+  });
+
+  it("joins sections in order with their bar ranges", () => {
+    const [verse, , tag] = splitChordProSections(amazingGrace);
+    const [chorus] = splitChordProSections(cornerstone);
+
+    const mashup = buildMashup([
+      { songId: "grace", songTitle: "Amazing Grace", section: verse },
+      { songId: "corner", songTitle: "Cornerstone", section: chorus },
+      { songId: "grace", songTitle: "Amazing Grace", section: tag },
+    ]);
+
+    expect(mashup.sections).toEqual([
+      {
+        songId: "grace",
+        title: "Amazing Grace: Verse",
+        startBar: 1,
+        endBar: 3,
+      },
+      {
+        songId: "corner",
+        title: "Cornerstone: Chorus",
+        startBar: 4,
+        endBar: 7,
+      },
+      { songId: "grace", title: "Amazing Grace: Tag", startBar: 8, endBar: 10 },
+    ]);
+    expect(mashup.chordData).toContain("{comment: Cornerstone}");
+    expect(countChordProSectionBars(mashup.chordData)).toBe(10);
+    expect(
+      validateMashupSections(mashup.chordData, mashup.sections, [
+        "grace",
+        "corner",
+      ]),
+    ).toBeNull();
+  });
+
+  it("rejects ranges the chart does not have", () => {
+    const chart = "| G | C | D | G |";
+    const section = { songId: "a", title: "A: Verse" };
+
+    expect(
+      validateMashupSections(chart, [{ ...section, startBar: 1, endBar: 6 }]),
+    ).toBe('Section "A: Verse" ends at bar 6 but the chart has 4 bars');
+    expect(
+      validateMashupSections(chart, [
+        { ...section, startBar: 1, endBar: 3 },
+        { ...section, startBar: 3, endBar: 4 },
+      ]),
+    ).toMatch(/overlaps/);
+    expect(validateMashupSections(chart, [section])).toMatch(
+      /needs a start and end bar/,
+    );
+    expect(
+      validateMashupSections(
+        chart,
+        [{ ...section, startBar: 1, endBar: 2 }],
+        ["b"],
+      ),
+    ).toMatch(/not part of the mashup/);
+  });
+});
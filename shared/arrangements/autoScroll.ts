@@ -0,0 +1,116 @@
+import { z } from "zod";
+import { splitChordProSections } from "./mashup";
+
+export const SCROLL_SPEED_BOUNDS = { min: 0.25, max: 4 } as const;
+export const SCROLL_SPEED_STEP = 0.25;
+
+/** Auto-scroll speed as a multiple of the arrangement's own pace */
+export const scrollSpeedSchema = z
+  .number()
+  .min(SCROLL_SPEED_BOUNDS.min)
+  .max(SCROLL_SPEED_BOUNDS.max);
+
+export const PRACTICE_TEMPO_PERCENTAGES = [50, 60, 70, 75, 80, 90, 100];
+
+// Charts without a tempo still scroll, at a moderate pace
+const DEFAULT_TEMPO = 100;
+const MIN_PRACTICE_TEMPO = 30;
+
+export interface TimeSignature {
+  beats: number;
+  noteValue: number;
+}
+
+export interface SectionTiming {
+  label: string;
+  content: string;
+  bars: number;
+  startSeconds: number;
+  seconds: number;
+}
+
+export function parseTimeSignature(value?: string): TimeSignature {
+  const match = value?.trim().match(/^(\d{1,2})\/(\d{1,2})$/);
+  if (match) {
+    const beats = Number(match[1]);
+    const noteValue = Number(match[2]);
+    if (beats > 0 && [1, 2, 4, 8, 16].includes(noteValue)) {
+      return { beats, noteValue };
+    }
+  }
+  return { beats: 4, noteValue: 4 };
+}
+
+/**
+ * Beats the tempo counts in one bar. Compound meters (6/8, 9/8, 12/8) are
+ * counted in dotted beats, so 6/8 has two.
+ */
+export function getBeatsPerBar(timeSignature?: string): number {
+  const { beats, noteValue } = parseTimeSignature(timeSignature);
+  return noteValue >= 8 && beats > 3 && beats % 3 === 0 ? beats / 3 : beats;
+}
+
+export function getSecondsPerBar(tempo?: number, timeSignature?: string) {
+  return (getBeatsPerBar(timeSignature) * 60) / (tempo || DEFAULT_TEMPO);
+}
+
+/**
+ * How long each section of a chart lasts. A section without chords still
+ * takes one bar so the chart never jumps past it.
+ */
+export function getSectionTimings(
+  chordData: string,
+  tempo?: number,
+  timeSignature?: string,
+): SectionTiming[] {
+  const secondsPerBar = getSecondsPerBar(tempo, timeSignature);
+  let startSeconds = 0;
+
+  return splitChordProSections(chordData).map((section) => {
+    const seconds = Math.max(section.bars, 1) * secondsPerBar;
+    const timing = { ...section, startSeconds, seconds };
+    startSeconds += seconds;
+    return timing;
+  });
+}
+
+export function getChartDuration(
+  chordData: string,
+  tempo?: number,
+  timeSignature?: string,
+): number {
+  return getSectionTimings(chordData, tempo, timeSignature).reduce(
+    (total, section) => total + section.seconds,
+    0,
+  );
+}
+
+/** Pixels per second that cover `distance` in `duration` at the given speed */
+export function getScrollRate(
+  distance: number,
+  duration: number,
+  speed = 1,
+): number {
+  if (distance <= 0 || duration <= 0) {
+    return 0;
+  }
+  return (distance / duration) * speed;
+}
+
+export function clampScrollSpeed(speed: number): number {
+  return Math.min(
+    SCROLL_SPEED_BOUNDS.max,
+    Math.max(SCROLL_SPEED_BOUNDS.min, speed),
+  );
+}
+
+export function nudgeScrollSpeed(speed: number, steps: number): number {
+  return clampScrollSpeed(speed + steps * SCROLL_SPEED_STEP);
+}
+
+export function getPracticeTempo(tempo: number | undefined, percent: number) {
+  return Math.max(
+    MIN_PRACTICE_TEMPO,
+    Math.round(((tempo || DEFAULT_TEMPO) * percent) / 100),
+  );
+}
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Chord progressions as scale degrees of the song key
+ * @module shared/arrangements/chordProgression
+ *
+ * A chart's chords are indexed as degrees of its key with their triad
+ * quality, e.g. `1 5 6m 4`, so a progression is found whatever key it is
+ * played in. Extensions, suspensions and slash bass notes are dropped, and
+ * a chord repeated back to back counts once.
+ */
+
+import { chordToNashville, isNashvilleChord } from "../songs/nashvilleNumbers";
+import { detectKeyFromChords } from "../songs/keyDetection";
+import { splitChordProSections } from "./mashup";
+
+// ==================== Types ====================
+
+export type ChordQuality = "" | "m" | "dim";
+
+/**
+ * One chord of a searched progression. Without a quality any chord on the
+ * degree matches.
+ */
+export interface ProgressionStep {
+  degree: string; // e.g. "1", "b7"
+  quality?: ChordQuality;
+}
+
+export interface ParsedProgression {
+  steps: ProgressionStep[];
+  key?: string; // Key letter chords were read in
+}
+
+export interface ProgressionOccurrence {
+  section: string;
+  chords: string[]; // As written in the chart
+}
+
+interface ChartChord {
+  section: string;
+  chord: string;
+  degree: string;
+}
+
+// ==================== Tables ====================
+
+export const PROGRESSION_LENGTH = { min: 2, max: 8 };
+
+const ROMAN_NUMERALS = ["i", "ii", "iii", "iv", "v", "vi", "vii"];
+
+const ROMAN_CHORD = /^([#b]?)(vii|iii|ii|iv|vi|v|i)(?![iv])(.*)$/i;
+const NUMBER_CHORD = /^([#b]?[1-7])(.*)$/;
+const LETTER_CHORD = /^[A-G][#b]?/;
+const BRACKETED_CHORD = /\[([^\]\s]+)\]/g;
+// Dashes, arrows, commas and bar lines between the chords of a query
+const STEP_SEPARATOR = /[\s,|>→–—-]+/;
+
+// ==================== Chords ====================
+
+/**
+ * Triad quality of a chord suffix: `m7` is minor, `m7b5` and `°` are
+ * diminished, and `maj7`, `7` or `sus4` count as major
+ */
+export function chordQuality(suffix: string): ChordQuality {
+  if (/^(dim|°|o(?![a-z])|m7b5|ø)/i.test(suffix)) {
+    return "dim";
+  }
+  if (/^(m(?!aj)|min|-)/.test(suffix)) {
+    return "m";
+  }
+  return "";
+}
+
+/**
+ * Scale degree and quality of a chord in a key, e.g. `Em7` in G is `6m`.
+ * Chords already written as Nashville numbers are read as they are.
+ */
+export function chordToDegree(chord: string, key: string): string | null {
+  const number = isNashvilleChord(chord) ? chord : chordToNashville(chord, key);
+  const match = number?.split("/")[0].match(NUMBER_CHORD);
+  return match ? `${match[1]}${chordQuality(match[2])}` : null;
+}
+
+// Bracketed chords, or bare chords on bar lines such as `| G | D/F# |`
+function lineChords(line: string): string[] {
+  const bracketed = Array.from(line.matchAll(BRACKETED_CHORD), ([, c]) => c);
+  if (bracketed.length > 0 || !line.includes("|")) {
+    return bracketed;
+  }
+  return line
+    .split(/[\s|]+/)
+    .filter((token) => LETTER_CHORD.test(token) || isNashvilleChord(token));
+}
+
+/** The chart's chords in playing order, with repeats merged */
+function chartChords(chordData: string, key: string): ChartChord[] {
+  const chords: ChartChord[] = [];
+  for (const section of splitChordProSections(chordData)) {
+    for (const line of section.content.split(/\r?\n/)) {
+      if (/^\s*[{#]/.test(line)) {
+        continue;
+      }
+      for (const chord of lineChords(line)) {
+        const degree = chordToDegree(chord, key);
+        if (degree && degree !== chords[chords.length - 1]?.degree) {
+          chords.push({ section: section.label, chord, degree });
+        }
+      }
+    }
+  }
+  return chords;
+}
+
+/**
+ * The searchable form of a chart: its chords as space-separated degrees
+ * of the key, e.g. `1 5 6m 4 1 5 4`
+ */
+export function indexChordProgression(chordData: string, key: string): string {
+  return chartChords(chordData, key)
+    .map((chord) => chord.degree)
+    .join(" ");
+}
+
+// ==================== Queries ====================
+
+function parseNumberStep(token: string): ProgressionStep | null {
+  const roman = token.match(ROMAN_CHORD);
+  if (roman) {
+    const [, accidental, numeral, suffix] = roman;
+    const lower = numeral === numeral.toLowerCase();
+    if (!lower && numeral !== numeral.toUpperCase()) {
+      return null;
+    }
+    const degree = `${accidental}${ROMAN_NUMERALS.indexOf(numeral.toLowerCase()) + 1}`;
+    // Case gives the quality unless the suffix spells it out, as in `viiø`
+    return { degree, quality: chordQuality(suffix) || (lower ? "m" : "") };
+  }
+
+  // A bare number matches the degree whatever its quality
+  const number = token.match(NUMBER_CHORD);
+  if (!number) {
+    return null;
+  }
+  return number[2]
+    ? { degree: number[1], quality: chordQuality(number[2]) }
+    : { degree: number[1] };
+}
+
+/**
+ * Read a progression written as numbers (`1 5 6m 4`), Roman numerals
+ * (`I–V–vi–IV`) or letter chords in any key (`G D Em C`). Letter chords
+ * are read in the given key, or else the key their chords suggest.
+ * @returns The steps, or null if a chord cannot be read
+ */
+export function parseProgression(
+  input: string,
+  key?: string,
+): ParsedProgression | null {
+  const tokens = input.trim().split(STEP_SEPARATOR).filter(Boolean);
+  if (
+    tokens.length < PROGRESSION_LENGTH.min ||
+    tokens.length > PROGRESSION_LENGTH.max
+  ) {
+    return null;
+  }
+
+  // Roman numerals like "vi" never start with a chord letter
+  if (!tokens.every((token) => LETTER_CHORD.test(token))) {
+    const steps = tokens.map(parseNumberStep);
+    return steps.every(Boolean) ? { steps: steps as ProgressionStep[] } : null;
+  }
+
+  const letterKey =
+    key ||
+    detectKeyFromChords(tokens.map((token) => `[${token}]`).join(" ")) ||
+    tokens[0].match(LETTER_CHORD)![0];
+  const steps: ProgressionStep[] = [];
+  for (const token of tokens) {
+    const degree = chordToDegree(token, letterKey)?.match(NUMBER_CHORD);
+    if (!degree) {
+      return null;
+    }
+    steps.push({ degree: degree[1], quality: degree[2] as ChordQuality });
+  }
+  return { steps, key: letterKey };
+}
+
+const matchesStep = (step: ProgressionStep, degree: string) =>
+  step.quality === undefined
+    ? degree.replace(/(m|dim)$/, "") === step.degree
+    : degree === `${step.degree}${step.quality}`;
+
+/**
+ * Pattern finding the progression in an indexed chart
+ * (see indexChordProgression)
+ */
+export function progressionPattern(steps: ProgressionStep[]): RegExp {
+  const chords = steps.map(
+    (step) => `${step.degree}${step.quality ?? "(?:m|dim)?"}`,
+  );
+  return new RegExp(`(?:^| )${chords.join(" ")}(?= |$)`);
+}
+
+/**
+ * Every place a chart plays the progression, named by the section it
+ * starts in
+ */
+export function findProgression(
+  chordData: string,
+  key: string,
+  steps: ProgressionStep[],
+): ProgressionOccurrence[] {
+  const chords = chartChords(chordData, key);
+  const occurrences: ProgressionOccurrence[] = [];
+  for (let start = 0; start + steps.length <= chords.length; start++) {
+    const played = chords.slice(start, start + steps.length);
+    if (
+      played.every((chord, index) => matchesStep(steps[index], chord.degree))
+    ) {
+      occurrences.push({
+        section: played[0].section,
+        chords: played.map((chord) => chord.chord),
+      });
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Roman numeral form of a progression, e.g. `I–V–vi–IV`. Steps of any
+ * quality are shown as numbers.
+ */
+export function formatProgression(steps: ProgressionStep[]): string {
+  return steps
+    .map(({ degree, quality }) => {
+      if (quality === undefined) {
+        return degree;
+      }
+      const [, accidental, number] = degree.match(/^([#b]?)(\d)$/)!;
+      const numeral = ROMAN_NUMERALS[Number(number) - 1];
+      return `${accidental}${quality === "" ? numeral.toUpperCase() : numeral}${quality === "dim" ? "°" : ""}`;
+    })
+    .join("–");
+}
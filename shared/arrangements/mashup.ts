@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Mashup ChordPro generation and bar ranges
+ * @module shared/arrangements/mashup
+ *
+ * A mashup is built from sections of other arrangements. Charts are split
+ * into sections at `{start_of_*}` environments and `{comment:}` headings,
+ * the chosen sections are joined in order, and each one is given the bar
+ * range it covers in the joined chart.
+ *
+ * A line with `|` bar lines counts one bar per measure; any other line
+ * counts one bar per chord. The same rule is used when the server checks
+ * a mashup's sections against its chart.
+ */
+
+export interface ChordProSection {
+  label: string;
+  /** Section lines, including its start and end directives */
+  content: string;
+  bars: number;
+}
+
+export interface MashupPart {
+  songId: string;
+  songTitle: string;
+  section: ChordProSection;
+}
+
+export interface MashupSectionRange {
+  songId: string;
+  title: string;
+  startBar?: number;
+  endBar?: number;
+}
+
+export interface GeneratedMashup {
+  chordData: string;
+  sections: Required<MashupSectionRange>[];
+}
+
+const SECTION_START =
+  /^\{\s*(?:start_of_(\w+)|so([cvbt]))\s*(?::\s*(.*?))?\s*\}$/i;
+const SECTION_END = /^\{\s*(?:end_of_\w+|eo[cvbt])\s*\}$/i;
+const HEADING = /^\{\s*(?:comment|c)\s*:\s*(.+?)\s*\}$/i;
+const SHORT_TYPES: Record<string, string> = {
+  c: "chorus",
+  v: "verse",
+  b: "bridge",
+  t: "tab",
+};
+
+const capitalize = (word: string) =>
+  word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+/**
+ * Count the bars in a piece of ChordPro. Directive and comment lines are
+ * skipped.
+ */
+export function countChordProSectionBars(content: string): number {
+  return content.split(/\r?\n/).reduce((total, rawLine) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("{") || line.startsWith("#")) {
+      return total;
+    }
+    if (line.includes("|")) {
+      return total + line.split("|").filter((bar) => bar.trim()).length;
+    }
+    return total + (line.match(/\[[^\]]+\]/g)?.length ?? 0);
+  }, 0);
+}
+
+/**
+ * Split a chart into its sections. Unlabelled sections are named after
+ * their type, numbered when the type repeats, e.g. "Verse", "Verse 2".
+ * Metadata directives outside sections are dropped.
+ */
+export function splitChordProSections(chordData: string): ChordProSection[] {
+  type Draft = { label: string; lines: string[] };
+  const sections: Draft[] = [];
+  const typeCounts: Record<string, number> = {};
+  let current: Draft | null = null;
+  let inEnvironment = false;
+
+  for (const rawLine of chordData.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const start = line.match(SECTION_START);
+    const heading = line.match(HEADING);
+    let label: string | null = null;
+
+    if (start) {
+      const type = (
+        start[1] || SHORT_TYPES[start[2].toLowerCase()]
+      ).toLowerCase();
+      typeCounts[type] = (typeCounts[type] ?? 0) + 1;
+      const count = typeCounts[type];
+      label = start[3] || `${capitalize(type)}${count > 1 ? ` ${count}` : ""}`;
+      inEnvironment = true;
+    } else if (SECTION_END.test(line)) {
+      current?.lines.push(rawLine);
+      current = null;
+      inEnvironment = false;
+      continue;
+    } else if (heading && !inEnvironment) {
+      label = heading[1];
+    } else if (current) {
+      current.lines.push(rawLine);
+      continue;
+    } else if (line && !line.startsWith("{")) {
+      label = sections.length === 0 ? "Intro" : "Section";
+    }
+
+    if (label !== null) {
+      current = { label, lines: [rawLine] };
+      sections.push(current);
+    }
+  }
+
+  return sections
+    .map(({ label, lines }) => {
+      const content = lines.join("\n").trim();
+      return { label, content, bars: countChordProSectionBars(content) };
+    })
+    .filter((section) => section.content.length > 0);
+}
+
+/**
+ * Join sections from several songs into one chart. A heading names the
+ * song whenever it changes, and each section gets the bars it covers.
+ */
+export function buildMashup(parts: MashupPart[]): GeneratedMashup {
+  const blocks: string[] = [];
+  const sections: Required<MashupSectionRange>[] = [];
+  let bar = 1;
+
+  parts.forEach((part, index) => {
+    if (index === 0 || parts[index - 1].songId !== part.songId) {
+      blocks.push(`{comment: ${part.songTitle}}`);
+    }
+    blocks.push(part.section.content);
+
+    const bars = countChordProSectionBars(part.section.content);
+    sections.push({
+      songId: part.songId,
+      title: `${part.songTitle}: ${part.section.label}`,
+      startBar: bar,
+      endBar: bar + bars - 1,
+    });
+    bar += bars;
+  });
+
+  return { chordData: blocks.join("\n\n"), sections };
+}
+
+/**
+ * Check mashup sections against the chart they describe: every section
+ * needs a bar range inside the chart, in order and without overlaps, and
+ * must belong to one of the arrangement's songs.
+ * @returns A message describing the first problem, or null when valid
+ */
+export function validateMashupSections(
+  chordData: string,
+  sections: MashupSectionRange[],
+  songIds?: string[],
+): string | null {
+  const totalBars = countChordProSectionBars(chordData);
+  let previousEnd = 0;
+
+  for (const section of sections) {
+    const name = `Section "${section.title}"`;
+    if (songIds && !songIds.includes(section.songId)) {
+      return `${name} belongs to a song that is not part of the mashup`;
+    }
+    if (!section.startBar || !section.endBar) {
+      return `${name} needs a start and end bar`;
+    }
+    if (section.endBar < section.startBar) {
+      return `${name} ends before it starts`;
+    }
+    if (section.startBar <= previousEnd) {
+      return `${name} overlaps the section before it`;
+    }
+    if (section.endBar > totalBars) {
+      return `${name} ends at bar ${section.endBar} but the chart has ${totalBars} bars`;
+    }
+    previousEnd = section.endBar;
+  }
+  return null;
+}
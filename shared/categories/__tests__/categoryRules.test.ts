@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { scoreSongCategories } from "../categoryRules";
+import type { CategoryMappingRule } from "../../types/category.types";
+
+const rule = (
+  type: CategoryMappingRule["type"],
+  values: string[],
+  weight: number,
+): CategoryMappingRule => ({ type, values, weight });
+
+const categories = [
+  {
+    id: "classic-hymns",
+    mappingRules: [
+      rule("theme", ["hymn"], 9),
+      rule("title_pattern", ["amazing grace"], 10),
+    ],
+  },
+  {
+    id: "contemporary-christian",
+    mappingRules: [rule("artist", ["chris tomlin"], 8)],
+  },
+  { id: "community", mappingRules: [rule("source", ["fellowship"], 3)] },
+];
+
+describe("scoreSongCategories", () => {
+  it("adds the weight of every matching rule, ignoring case", () => {
+    const { categories: assigned, scores } = scoreSongCategories(
+      {
+        title: "Amazing Grace (My Chains Are Gone)",
+        artist: "Chris Tomlin",
+        themes: ["Hymns", "grace"],
+      },
+      categories,
+    );
+
+    expect(scores).toEqual({
+      "classic-hymns": 19,
+      "contemporary-christian": 8,
+    });
+    expect(assigned).toEqual(["classic-hymns", "contemporary-christian"]);
+  });
+
+  it("leaves out categories below the threshold", () => {
+    const { categories: assigned, scores } = scoreSongCategories(
+      { title: "Bind Us Together", source: "Fellowship Songs" },
+      categories,
+    );
+
+    expect(scores).toEqual({ community: 3 });
+    expect(assigned).toEqual([]);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Built-in spiritual categories and the scoring that places
+ * songs in them
+ * @module shared/categories/categoryRules
+ */
+
+import type {
+  CategoryDefinition,
+  CategoryRuleSet,
+} from "../types/category.types";
+
+// The categories stored when none exist yet; admins edit them from there
+export const BUILT_IN_CATEGORIES: CategoryDefinition[] = [
+  {
+    id: "traditional-holy",
+    name: "Traditional Holy Songs",
+    description:
+      "Core sacred repertoire, foundational to Unification teachings",
+    color: "blue",
+    mappingRules: [
+      {
+        type: "theme",
+        values: ["holy", "sacred", "divine principle", "true parents"],
+        weight: 10,
+      },
+      {
+        type: "source",
+        values: ["holy songbook", "unification hymnal"],
+        weight: 9,
+      },
+      {
+        type: "title_pattern",
+        values: ["holy", "sacred", "divine"],
+        weight: 7,
+      },
+    ],
+  },
+  {
+    id: "new-holy",
+    name: "New Holy Songs",
+    description: "Modern additions to the holy canon",
+    color: "purple",
+    mappingRules: [
+      {
+        type: "theme",
+        values: ["new age", "restoration", "cheon il guk"],
+        weight: 10,
+      },
+      {
+        type: "source",
+        values: ["recent compositions", "modern holy songs"],
+        weight: 8,
+      },
+    ],
+  },
+  {
+    id: "american-pioneer",
+    name: "American Pioneer Songs",
+    description:
+      "Songs from American Unification pioneers like Joshua Cotter, Dan Fefferman",
+    color: "green",
+    mappingRules: [
+      {
+        type: "artist",
+        values: ["joshua cotter", "dan fefferman", "julia moon"],
+        weight: 10,
+      },
+      {
+        type: "theme",
+        values: ["pioneering", "witnessing", "generation of righteousness"],
+        weight: 8,
+      },
+      {
+        type: "source",
+        values: ["american pioneers", "1970s-1980s"],
+        weight: 7,
+      },
+    ],
+  },
+  {
+    id: "contemporary-christian",
+    name: "Contemporary Christian",
+    description: "Modern worship songs from broader Christian traditions",
+    color: "orange",
+    mappingRules: [
+      {
+        type: "theme",
+        values: ["praise", "contemporary worship", "modern christian"],
+        weight: 9,
+      },
+      {
+        type: "source",
+        values: ["hillsong", "bethel", "elevation", "ccm"],
+        weight: 8,
+      },
+      {
+        type: "artist",
+        values: ["chris tomlin", "hillsong", "bethel music"],
+        weight: 8,
+      },
+    ],
+  },
+  {
+    id: "classic-hymns",
+    name: "Classic Hymns",
+    description: "Traditional Christian hymns and timeless worship songs",
+    color: "amber",
+    mappingRules: [
+      {
+        type: "theme",
+        values: ["hymn", "traditional", "classic", "historic"],
+        weight: 9,
+      },
+      {
+        type: "source",
+        values: ["hymnal", "traditional hymns", "church history"],
+        weight: 8,
+      },
+      {
+        type: "title_pattern",
+        values: ["amazing grace", "how great thou art", "blessed assurance"],
+        weight: 10,
+      },
+    ],
+  },
+  {
+    id: "original-interchurch",
+    name: "Original Interchurch",
+    description: "User-contributed songs from various Unification communities",
+    color: "teal",
+    mappingRules: [
+      {
+        type: "source",
+        values: ["community submitted", "interchurch", "user contributed"],
+        weight: 9,
+      },
+      {
+        type: "theme",
+        values: ["community", "fellowship", "local church"],
+        weight: 7,
+      },
+    ],
+  },
+];
+
+// Songs need this much rule weight to be placed in a category
+export const CATEGORY_SCORE_THRESHOLD = 5;
+
+// Song fields the mapping rules look at
+export interface CategorizableSong {
+  title: string;
+  artist?: string;
+  themes?: string[];
+  source?: string;
+  lyrics?: string;
+}
+
+const containsAny = (text: string | undefined, values: string[]) =>
+  !!text &&
+  values.some((value) => text.toLowerCase().includes(value.toLowerCase()));
+
+/**
+ * Category assignment algorithm. The server stores the result on each song.
+ * Each matching rule adds its weight to the category.
+ * @returns Categories at or above the threshold, highest score first
+ */
+export function scoreSongCategories(
+  song: CategorizableSong,
+  categories: CategoryRuleSet[],
+): {
+  categories: string[];
+  scores: Record<string, number>;
+} {
+  const categoryScores: Record<string, number> = {};
+
+  categories.forEach((category) => {
+    let score = 0;
+
+    category.mappingRules.forEach((rule) => {
+      const matches = {
+        theme: song.themes?.some((theme) => containsAny(theme, rule.values)),
+        source: containsAny(song.source, rule.values),
+        artist: containsAny(song.artist, rule.values),
+        title_pattern: containsAny(song.title, rule.values),
+        lyrics_pattern: containsAny(song.lyrics, rule.values),
+      }[rule.type];
+      if (matches) {
+        score += rule.weight;
+      }
+    });
+
+    if (score > 0) {
+      categoryScores[category.id] = score;
+    }
+  });
+
+  const assigned = Object.entries(categoryScores)
+    .filter(([_, score]) => score >= CATEGORY_SCORE_THRESHOLD)
+    .sort(([_, a], [__, b]) => b - a)
+    .map(([categoryId]) => categoryId);
+
+  return { categories: assigned, scores: categoryScores };
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import {
+  ChordLyricsPair,
+  ChordProFormatter,
+  ChordsOverWordsParser,
+  Song,
+} from "chordsheetjs";
+import {
+  ChordExportError,
+  exportChordChart,
+  getExportFilename,
+  isExportFormat,
+} from "../chordExport";
+import { parseChordProContent } from "../chordSheetHelpers";
+
+const amazingGrace = `{t: Amazing Grace}
+{st: John Newton}
+{key: G}
+{tempo: 72}
+
+{start_of_verse: Verse 1}
+A[G]mazing [G7]grace how [C]sweet the [G]sound
+That [G]saved a wretch like [D]me
+{end_of_verse}
+
+{c: Slowly}
+{soc}
+[C]My chains are [G]gone
+{eoc}`;
+
+// Chord and lyric content of every line that carries chords
+function chordLines(song: Song) {
+  return song.lines
+    .map((line) => {
+      const pairs = line.items.filter(
+        (item): item is ChordLyricsPair => item instanceof ChordLyricsPair,
+      );
+      return {
+        chords: pairs.map((pair) => pair.chords).filter(Boolean),
+        lyrics: pairs
+          .map((pair) => pair.lyrics)
+          .join("")
+          .replace(/\s+/g, " ")
+          .trim(),
+      };
+    })
+    .filter((line) => line.chords.length > 0);
+}
+
+function parse(content: string): Song {
+  const { song, error } = parseChordProContent(content);
+  if (!song) {
+    throw new Error(error?.message);
+  }
+  return song;
+}
+
+const transposedSource = parse(amazingGrace).transpose(2);
+
+describe("chordExport", () => {
+  describe("chordpro", () => {
+    it("normalizes directives", () => {
+      const output = exportChordChart(amazingGrace, "chordpro");
+
+      expect(output).toContain("{title: Amazing Grace}");
+      expect(output).toContain("{subtitle: John Newton}");
+      expect(output).toContain("{comment: Slowly}");
+      expect(output).toContain("{start_of_chorus}");
+      expect(output).not.toMatch(/\{(t|st|c|soc|eoc)[:}]/);
+    });
+
+    it("round-trips at the current transposition", () => {
+      const output = exportChordChart(amazingGrace, "chordpro", {
+        transpose: 2,
+      });
+      const song = parse(output);
+
+      expect(song.key).toBe("A");
+      expect(chordLines(song)).toEqual(chordLines(transposedSource));
+      expect(exportChordChart(output, "chordpro")).toBe(output);
+    });
+  });
+
+  describe("text", () => {
+    it("places chords above the lyrics", () => {
+      const output = exportChordChart(amazingGrace, "text", { transpose: 2 });
+
+      expect(output).toContain(" A      A7        D         A\n");
+      expect(output).toContain("Amazing grace how sweet the sound\n");
+      expect(output).not.toContain("[");
+    });
+
+    it("round-trips through the chords-over-lyrics parser", () => {
+      const output = exportChordChart(amazingGrace, "text", { transpose: 2 });
+      const chordPro = new ChordProFormatter().format(
+        new ChordsOverWordsParser().parse(output),
+      );
+      const song = parse(chordPro);
+
+      expect(song.title).toBe("Amazing Grace");
+      expect(chordLines(song)).toEqual(chordLines(transposedSource));
+    });
+  });
+
+  describe("onsong", () => {
+    it("writes the OnSong header and section labels", () => {
+      const output = exportChordChart(amazingGrace, "onsong", {
+        transpose: 2,
+        metadata: { timeSignature: "3/4" },
+      });
+
+      expect(output.split("\n").slice(0, 6)).toEqual([
+        "Amazing Grace",
+        "John Newton",
+        "Key: A",
+        "Tempo: 72",
+        "Time: 3/4",
+        "",
+      ]);
+      expect(output).toContain("Verse 1:\nA[A]mazing [A7]grace");
+      expect(output).toContain("Chorus:\n[D]My chains are [A]gone");
+    });
+
+    it("keeps chord placement when the body is parsed as ChordPro", () => {
+      const output = exportChordChart(amazingGrace, "onsong", {
+        transpose: 2,
+      });
+
+      expect(chordLines(parse(output))).toEqual(chordLines(transposedSource));
+    });
+  });
+
+  describe("lyrics", () => {
+    it("drops chords and directions but keeps section labels", () => {
+      const output = exportChordChart(amazingGrace, "lyrics");
+
+      expect(output).toBe(
+        [
+          "Amazing Grace",
+          "",
+          "Verse 1",
+          "Amazing grace how sweet the sound",
+          "That saved a wretch like me",
+          "",
+          "Chorus",
+          "My chains are gone",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("round-trips the lyric text", () => {
+      const song = parse(exportChordChart(amazingGrace, "lyrics"));
+      const lyrics = song.lines
+        .map((line) =>
+          line.items
+            .filter((item) => item instanceof ChordLyricsPair)
+            .map((item) => (item as ChordLyricsPair).lyrics)
+            .join(""),
+        )
+        .filter(Boolean);
+
+      expect(lyrics).toContain("Amazing grace how sweet the sound");
+      expect(lyrics).toContain("My chains are gone");
+    });
+  });
+
+  it("adds metadata missing from the chart", () => {
+    const output = exportChordChart("[C]Hello", "chordpro", {
+      metadata: { title: "Hello", key: "C", tempo: 90 },
+    });
+
+    expect(output).toContain("{title: Hello}");
+    expect(output).toContain("{key: C}");
+    expect(output).toContain("{tempo: 90}");
+  });
+
+  it("throws on empty content", () => {
+    expect(() => exportChordChart("", "text")).toThrow(ChordExportError);
+  });
+
+  it("validates formats and builds file names", () => {
+    expect(isExportFormat("onsong")).toBe(true);
+    expect(isExportFormat("toString")).toBe(false);
+    expect(getExportFilename("Amazing Grace!", "onsong")).toBe(
+      "amazing-grace.onsong",
+    );
+  });
+});
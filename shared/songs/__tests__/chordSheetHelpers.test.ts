@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { calculateTransposedKey } from "../chordSheetHelpers";
+
+describe("calculateTransposedKey", () => {
+  it("moves by semitones in both directions", () => {
+    expect(calculateTransposedKey("C", 2)).toBe("D");
+    expect(calculateTransposedKey("G", 2)).toBe("A");
+    expect(calculateTransposedKey("D", -2)).toBe("C");
+    expect(calculateTransposedKey("A", 5)).toBe("D");
+  });
+
+  it("keeps the original sharp or flat spelling", () => {
+    expect(calculateTransposedKey("F#", 1)).toBe("G");
+    expect(calculateTransposedKey("C#", 2)).toBe("D#");
+    expect(calculateTransposedKey("Bb", 1)).toBe("B");
+    expect(calculateTransposedKey("Eb", 2)).toBe("F");
+    expect(calculateTransposedKey("Eb", -1)).toBe("D");
+    expect(calculateTransposedKey("Ab", 1)).toBe("A");
+    expect(calculateTransposedKey("Db", 1)).toBe("D");
+    expect(calculateTransposedKey("Db", 3)).toBe("E");
+    expect(calculateTransposedKey("Gb", 4)).toBe("Bb");
+  });
+
+  it("uses conventional spellings from natural keys", () => {
+    expect(calculateTransposedKey("G", 1)).toBe("Ab");
+    expect(calculateTransposedKey("E", 2)).toBe("F#");
+    expect(calculateTransposedKey("C", -2)).toBe("Bb");
+  });
+});
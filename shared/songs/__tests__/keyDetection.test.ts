@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { detectKeyCandidates, findKeyMismatch } from "../keyDetection";
+import { detectMusicalKey } from "../chordSheetHelpers";
+
+const chart = (chords: string) =>
+  chords
+    .split(" ")
+    .map((chord) => `[${chord}]la `)
+    .join("");
+
+const topKey = (chords: string) => detectKeyCandidates(chart(chords))[0]?.key;
+
+describe("keyDetection", () => {
+  it("ranks keys with confidences that favour the tonic", () => {
+    const candidates = detectKeyCandidates(chart("G D Em C G D Em C"));
+
+    expect(candidates).toHaveLength(5);
+    expect(candidates[0]).toEqual({
+      key: "G",
+      tonic: "G",
+      mode: "major",
+      majorKey: "G",
+      confidence: expect.any(Number),
+    });
+    expect(candidates[0].confidence).toBeGreaterThan(0.5);
+    expect(candidates[1].confidence).toBeLessThanOrEqual(
+      candidates[0].confidence,
+    );
+  });
+
+  it("tells relative major and minor keys apart", () => {
+    expect(topKey("C G Am F C G Am F")).toBe("C");
+    expect(topKey("Am F C G Am F C G Am")).toBe("Am");
+    expect(topKey("Am Dm E Am")).toBe("Am");
+
+    const [minor] = detectKeyCandidates(chart("Em C G D Em C G D Em"));
+    expect(minor).toMatchObject({ key: "Em", mode: "minor", majorKey: "G" });
+  });
+
+  it("weights cadences into the tonic over the most common chord", () => {
+    // A appears most often, but every phrase resolves A to D
+    expect(topKey("D A A A G A D Bm A A D")).toBe("D");
+  });
+
+  it("keeps the chart's spelling of the tonic", () => {
+    expect(topKey("Bb Eb Bb F Bb Eb F Bb")).toBe("Bb");
+    expect(topKey("A# D# A# F A# D# F A#")).toBe("A#");
+  });
+
+  it("spreads confidence when there is little to go on", () => {
+    const [candidate] = detectKeyCandidates(chart("G C"));
+
+    expect(candidate.confidence).toBeLessThan(0.5);
+    expect(detectKeyCandidates("No chords here")).toEqual([]);
+    expect(detectKeyCandidates(chart("1 4 5 1"))).toEqual([]);
+  });
+
+  it("drives detectMusicalKey when the chart has no key", () => {
+    expect(detectMusicalKey(chart("Em C G D Em C G D Em"))).toBe("G");
+    expect(detectMusicalKey(`{key: E}\n${chart("G D Em C G")}`)).toBe("E");
+  });
+
+  describe("findKeyMismatch", () => {
+    const content = chart("G D Em C G D Em C G");
+
+    it("reports a key the chords do not fit", () => {
+      expect(findKeyMismatch("Bb", content)).toMatchObject({
+        declaredKey: "Bb",
+        detected: { key: "G" },
+        message: expect.stringMatching(
+          /Key is set to Bb but the chords suggest G/,
+        ),
+      });
+    });
+
+    it("accepts the tonic or the relative major of a minor song", () => {
+      const minor = chart("Em C G D Em C G D Em");
+
+      expect(findKeyMismatch("G", content)).toBeNull();
+      expect(findKeyMismatch("E", minor)).toBeNull();
+      expect(findKeyMismatch("G", minor)).toBeNull();
+      expect(findKeyMismatch("Em", minor)).toBeNull();
+      expect(findKeyMismatch("Em", content)).toBeNull();
+    });
+
+    it("stays quiet on short or unclear charts", () => {
+      expect(findKeyMismatch("F", chart("G C D"))).toBeNull();
+      expect(findKeyMismatch("F", "")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  chordProToNashville,
+  chordToNashville,
+  getChartKey,
+  hasNashvilleChords,
+  isNashvilleChord,
+  nashvilleToChord,
+  nashvilleToChordPro,
+  songToNashville,
+} from "../nashvilleNumbers";
+import { formatSongToHtml, parseChordProContent } from "../chordSheetHelpers";
+
+describe("nashvilleNumbers", () => {
+  describe("chordToNashville", () => {
+    it("keeps quality, extensions and slash bass", () => {
+      expect(chordToNashville("Am7", "C")).toBe("6m7");
+      expect(chordToNashville("F/C", "C")).toBe("4/1");
+      expect(chordToNashville("D/F#", "G")).toBe("5/7");
+      expect(chordToNashville("Dsus4", "D")).toBe("1sus4");
+      expect(chordToNashville("C6/9", "C")).toBe("16/9");
+    });
+
+    it("marks chords outside the scale with accidentals", () => {
+      expect(chordToNashville("Bb", "C")).toBe("b7");
+      expect(chordToNashville("Eb", "C")).toBe("b3");
+      expect(chordToNashville("F#m7b5", "C")).toBe("#4m7b5");
+      expect(chordToNashville("G", "Ab")).toBe("7");
+    });
+
+    it("counts from the tonic of minor keys", () => {
+      expect(chordToNashville("Em", "Em")).toBe("1m");
+      expect(chordToNashville("C", "Em")).toBe("b6");
+    });
+
+    it("returns null for chords it cannot read", () => {
+      expect(chordToNashville("N.C.", "C")).toBeNull();
+      expect(chordToNashville("Am", "H")).toBeNull();
+    });
+  });
+
+  describe("nashvilleToChord", () => {
+    it("spells numbers from the key's scale", () => {
+      expect(nashvilleToChord("6m7", "G")).toBe("Em7");
+      expect(nashvilleToChord("4/1", "Bb")).toBe("Eb/Bb");
+      expect(nashvilleToChord("5/7", "E")).toBe("B/D#");
+      expect(nashvilleToChord("b7", "E")).toBe("D");
+      expect(nashvilleToChord("#4m7b5", "D")).toBe("G#m7b5");
+    });
+
+    it("round-trips letter chords in every key", () => {
+      const chords = ["C", "Dm7", "Em", "F/A", "G7", "Am", "Bdim", "Bb"];
+      for (const key of ["C", "Db", "D", "Eb", "E", "F", "F#", "G", "Ab"]) {
+        const transposed = chords.map((chord) =>
+          nashvilleToChord(chordToNashville(chord, "C")!, key),
+        );
+        expect(
+          transposed.map((chord) => chordToNashville(chord!, key)),
+        ).toEqual(chords.map((chord) => chordToNashville(chord, "C")));
+      }
+    });
+  });
+
+  it("tells numbers from letter chords", () => {
+    expect(isNashvilleChord("6m7")).toBe(true);
+    expect(isNashvilleChord("b7/1")).toBe(true);
+    expect(isNashvilleChord("Bb")).toBe(false);
+    expect(isNashvilleChord("8")).toBe(false);
+  });
+
+  describe("charts", () => {
+    const chart =
+      "{title: Test}\n{key: G}\n\n[G]Praise him [Em7]all [D/F#]creatures";
+
+    it("converts a chart to numbers and back in another key", () => {
+      const numbers = chordProToNashville(chart, "G");
+      expect(numbers).toContain("[1]Praise him [6m7]all [5/7]creatures");
+      expect(numbers).toContain("{key: G}");
+      expect(hasNashvilleChords(numbers)).toBe(true);
+      expect(hasNashvilleChords(chart)).toBe(false);
+
+      const inA = nashvilleToChordPro(numbers, "A");
+      expect(inA).toContain("[A]Praise him [F#m7]all [E/G#]creatures");
+      expect(getChartKey(inA)).toBe("A");
+      expect(inA).not.toContain("{key: G}");
+    });
+
+    it("renders a parsed song as numbers", () => {
+      const { song } = parseChordProContent(chart);
+      const html = formatSongToHtml(songToNashville(song!, "G"));
+
+      expect(html).toContain(">6m7<");
+      expect(html).toContain(">5/7<");
+      expect(html).not.toContain(">Em7<");
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildPrintStyles,
+  escapeHtml,
+  renderChartDocument,
+  renderSetlistBooklet,
+  resolveChartHeader,
+} from "../printRenderer";
+
+const amazingGrace = `{title: Amazing Grace}
+{artist: John Newton}
+{key: G}
+{tempo: 72}
+{capo: 2}
+
+{start_of_verse}
+[G]Amazing [C]grace how [G]sweet the sound
+{end_of_verse}`;
+
+describe("printRenderer", () => {
+  describe("resolveChartHeader", () => {
+    it("reads header values from ChordPro directives", () => {
+      expect(resolveChartHeader({ chordData: amazingGrace })).toEqual({
+        title: "Amazing Grace",
+        artist: "John Newton",
+        key: "G",
+        tempo: 72,
+        timeSignature: undefined,
+        capo: 2,
+        ccli: undefined,
+      });
+    });
+
+    it("prefers explicit values and transposes the key", () => {
+      const header = resolveChartHeader({
+        chordData: amazingGrace,
+        title: "Amazing Grace (My Chains)",
+        ccli: "4768151",
+        transpose: 2,
+      });
+
+      expect(header.title).toBe("Amazing Grace (My Chains)");
+      expect(header.key).toBe("A");
+      expect(header.ccli).toBe("4768151");
+    });
+  });
+
+  describe("renderChartDocument", () => {
+    it("renders a standalone document with header and transposed chords", () => {
+      const html = renderChartDocument(
+        { chordData: amazingGrace, transpose: 2, ccli: "22025" },
+        { columns: 2 },
+      );
+
+      expect(html).toContain("<!DOCTYPE html>");
+      expect(html).toContain('<h1 class="chart-title">Amazing Grace</h1>');
+      expect(html).toContain("Key: A");
+      expect(html).toContain("Capo: 2");
+      expect(html).toContain("CCLI: 22025");
+      expect(html).toContain("column-count: 2");
+      expect(html).toMatch(/class="chord">\s*A\s*</);
+    });
+
+    it("escapes lyrics, comments and directive values in the chart body", () => {
+      const html = renderChartDocument({
+        chordData: `{title: <img src=x onerror=alert(1)>}
+{comment: <script>alert(2)</script>}
+[G]Hello <b onclick="steal()">world</b> & friends`,
+      });
+      const body = html.slice(html.indexOf('<div class="chart-body">'));
+
+      expect(body).not.toContain("<img");
+      expect(body).not.toContain("<script");
+      expect(body).not.toContain("<b ");
+      expect(body).toContain("&lt;img src=x onerror=alert(1)&gt;");
+      expect(body).toContain("&lt;script&gt;alert(2)&lt;/script&gt;");
+      expect(body).toContain("&amp; friends");
+      expect(body).toContain('<div class="chord">G</div>');
+    });
+
+    it("reports charts that cannot be parsed", () => {
+      const html = renderChartDocument({ chordData: "", title: "Empty" });
+
+      expect(html).toContain('class="chart-error"');
+    });
+  });
+
+  describe("renderSetlistBooklet", () => {
+    it("renders a cover page, contents and one section per chart", () => {
+      const html = renderSetlistBooklet({
+        name: "Sunday <Morning>",
+        description: "Communion service",
+        charts: [
+          { chordData: amazingGrace },
+          { chordData: "{title: How Great}\n[C]Then sings my soul", key: "C" },
+        ],
+      });
+
+      expect(html).toContain('<section class="cover">');
+      expect(html).toContain("Sunday &lt;Morning&gt;");
+      expect(html).toContain("2 songs");
+      expect(html).toContain('<a href="#song-1">Amazing Grace</a>');
+      expect(html).toContain('<a href="#song-2">How Great</a>');
+      expect(html).toContain('id="song-2"');
+    });
+  });
+
+  it("uses page-break rules in the print styles", () => {
+    const styles = buildPrintStyles({ paperSize: "a4" });
+
+    expect(styles).toContain("size: a4");
+    expect(styles).toContain("break-inside: avoid");
+    expect(styles).toContain("column-count: 1");
+  });
+
+  it("escapes HTML", () => {
+    expect(escapeHtml("<b>\"Tom\" & 'Jerry'</b>")).toBe(
+      "&lt;b&gt;&quot;Tom&quot; &amp; &#39;Jerry&#39;&lt;/b&gt;",
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { formatFacetValue, getDecade, getTempoRange } from "../songFacets";
+
+describe("songFacets", () => {
+  it("buckets tempos with the lower bound inclusive", () => {
+    expect(getTempoRange(72)).toBe("slow");
+    expect(getTempoRange(80)).toBe("medium");
+    expect(getTempoRange(119)).toBe("medium");
+    expect(getTempoRange(120)).toBe("fast");
+    expect(getTempoRange(undefined)).toBeUndefined();
+  });
+
+  it("reads the decade a song was composed in", () => {
+    expect(getDecade(1994)).toBe("1990");
+    expect(getDecade(2000)).toBe("2000");
+    expect(getDecade(undefined)).toBeUndefined();
+  });
+
+  it("formats facet values for the filter bar", () => {
+    expect(formatFacetValue("tempo", "fast")).toBe("Fast (120+ BPM)");
+    expect(formatFacetValue("decade", "1990")).toBe("1990s");
+    expect(formatFacetValue("difficulty", "beginner")).toBe("Beginner");
+    expect(formatFacetValue("key", "G")).toBe("G");
+  });
+});
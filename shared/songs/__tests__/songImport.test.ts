@@ -0,0 +1,238 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectImportFormat,
+  importSongFile,
+  parseSongImport,
+  SongImportError,
+  updateImportDraft,
+  validateImportDraft,
+} from "../songImport";
+import { isChordLine, mergeChordLine } from "../songImportParsers";
+import { exportChordChart } from "../chordExport";
+import { parseChordProContent } from "../chordSheetHelpers";
+
+const openLyrics = `<?xml version="1.0" encoding="UTF-8"?>
+<song xmlns="http://openlyrics.info/namespace/2009/song" version="0.8">
+  <properties>
+    <titles><title>Amazing Grace</title></titles>
+    <authors><author>John Newton</author></authors>
+    <ccliNo>22025</ccliNo>
+    <key>G</key>
+    <tempo type="bpm">72</tempo>
+    <verseOrder>v1 c</verseOrder>
+    <themes><theme>Grace</theme></themes>
+  </properties>
+  <lyrics>
+    <verse name="v1">
+      <lines><chord name="G"/>Amazing grace how <chord name="C"/>sweet the sound<br/>
+        That saved a wretch like <chord name="D"/>me</lines>
+    </verse>
+    <verse name="c">
+      <lines><chord name="C"/>My chains are <chord name="G"/>gone</lines>
+    </verse>
+  </lyrics>
+</song>`;
+
+const openSong = `<?xml version="1.0" encoding="UTF-8"?>
+<song>
+  <title>How Great Thou Art</title>
+  <author>Carl Boberg</author>
+  <ccli>14181</ccli>
+  <key>Bb</key>
+  <tempo>Moderate</tempo>
+  <time_sig>3/4</time_sig>
+  <presentation>V1 C</presentation>
+  <theme>Praise; Creation</theme>
+  <lyrics>[V1]
+.Bb             Eb
+ O Lord my God, when I in awesome wonder
+;Gently
+
+[C]
+.Bb         F
+ Then sings my soul</lyrics>
+</song>`;
+
+const chordsOverLyrics = `title: Blessed Assurance
+artist: Fanny Crosby
+key: D
+
+Verse 1
+D                  G        D
+Blessed assurance, Jesus is mine
+
+Chorus
+A7         D
+This is my story`;
+
+describe("songImport", () => {
+  it("detects the file format", () => {
+    expect(detectImportFormat(openLyrics)).toBe("openlyrics");
+    expect(detectImportFormat(openSong)).toBe("opensong");
+    expect(detectImportFormat(chordsOverLyrics)).toBe("text");
+  });
+
+  it("imports OpenLyrics with chords and sections", () => {
+    const { draft, report } = importSongFile(openLyrics);
+
+    expect(draft.song).toEqual({
+      title: "Amazing Grace",
+      artist: "John Newton",
+      ccli: "22025",
+      themes: ["Grace"],
+    });
+    expect(draft.arrangement).toMatchObject({
+      key: "G",
+      tempo: 72,
+      structure: ["V1", "C"],
+    });
+    expect(draft.arrangement.chordData).toContain(
+      "{start_of_verse: Verse 1}\n[G]Amazing grace how [C]sweet the sound\nThat saved a wretch like [D]me\n{end_of_verse}",
+    );
+    expect(draft.arrangement.chordData).toContain(
+      "{start_of_chorus: Chorus}\n[C]My chains are [G]gone",
+    );
+    expect(report.isValid).toBe(true);
+    expect(parseChordProContent(draft.arrangement.chordData).error).toBeNull();
+  });
+
+  it("imports OpenSong chord lines, comments and metadata", () => {
+    const { draft, report } = importSongFile(openSong);
+
+    expect(draft.format).toBe("opensong");
+    expect(draft.song.themes).toEqual(["Praise", "Creation"]);
+    expect(draft.arrangement).toMatchObject({
+      key: "Bb",
+      tempo: undefined,
+      timeSignature: "3/4",
+      structure: ["V1", "C"],
+    });
+    expect(draft.arrangement.chordData).toContain(
+      "[Bb]O Lord my God, [Eb]when I in awesome wonder",
+    );
+    expect(draft.arrangement.chordData).toContain("{comment: Gently}");
+    expect(draft.arrangement.chordData).toContain(
+      "{start_of_chorus: Chorus}\n[Bb]Then sings [F]my soul",
+    );
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ severity: "warning", field: "tempo" }),
+    );
+  });
+
+  it("imports chords over lyrics text", () => {
+    const { draft } = importSongFile(chordsOverLyrics);
+
+    expect(draft.song.title).toBe("Blessed Assurance");
+    expect(draft.song.artist).toBe("Fanny Crosby");
+    expect(draft.arrangement.chordData).toContain(
+      "[D]Blessed assurance, [G]Jesus is [D]mine",
+    );
+    expect(draft.arrangement.chordData).toContain(
+      "{start_of_chorus: Chorus}\n[A7]This is my [D]story",
+    );
+  });
+
+  it("re-imports its own chords-over-lyrics export", () => {
+    const source = `{title: Amazing Grace}
+{key: G}
+
+{start_of_verse: Verse 1}
+[G]Amazing [G7]grace how [C]sweet the [G]sound
+{end_of_verse}`;
+    const { draft } = importSongFile(exportChordChart(source, "text"));
+
+    expect(draft.song.title).toBe("Amazing Grace");
+    expect(draft.arrangement.key).toBe("G");
+    expect(draft.arrangement.chordData).toContain(
+      "[G]Amazing [G7]grace how [C]sweet the [G]sound",
+    );
+  });
+
+  it("falls back to the file name and detected key", () => {
+    const { draft, report } = importSongFile("G    C    D    G\nHello world", {
+      filename: "my_song.txt",
+    });
+
+    expect(draft.song.title).toBe("my song");
+    expect(draft.arrangement.key).toBe("G");
+    expect(report.isValid).toBe(true);
+    expect(report.issues.map((issue) => issue.field)).toEqual(["title", "key"]);
+  });
+
+  it("saves a detected minor key as its relative major", () => {
+    const { draft, report } = importSongFile(
+      "Am      F     C     G\nHello darkness\nAm      F     E     Am\nmy old friend",
+    );
+
+    expect(draft.arrangement.key).toBe("C");
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({
+        field: "key",
+        message: expect.stringMatching(
+          /detected Am from the chords .*saved as C/,
+        ),
+      }),
+    );
+  });
+
+  it("warns when the file's key does not fit the chords", () => {
+    const { draft, report } = importSongFile(
+      "title: Hello\nkey: F\n\nG     D      Em    C\nHello world\nG     D      C     G\nHello again",
+    );
+
+    expect(draft.arrangement.key).toBe("F");
+    expect(report.isValid).toBe(true);
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({
+        severity: "warning",
+        field: "key",
+        message: expect.stringMatching(
+          /Key is set to F but the chords suggest G/,
+        ),
+      }),
+    );
+  });
+
+  it("reports blocking errors", () => {
+    const { report } = importSongFile("Just some lyrics\nwith no chords");
+
+    expect(report.isValid).toBe(false);
+    expect(report.issues).toContainEqual(
+      expect.objectContaining({ severity: "error", field: "key" }),
+    );
+  });
+
+  it("keeps directives in step with preview edits", () => {
+    const draft = updateImportDraft(parseSongImport(openLyrics), {
+      title: "Amazing Grace (My Chains)",
+      key: "A",
+    });
+
+    expect(draft.song.title).toBe("Amazing Grace (My Chains)");
+    expect(draft.arrangement.chordData).toContain(
+      "{title: Amazing Grace (My Chains)}",
+    );
+    expect(draft.arrangement.chordData).toContain("{key: A}");
+    expect(draft.arrangement.chordData).not.toContain("{key: G}");
+    expect(validateImportDraft(draft).isValid).toBe(true);
+  });
+
+  it("rejects malformed XML", () => {
+    expect(() => parseSongImport("<song><title>Oops</song>")).toThrow(
+      SongImportError,
+    );
+    expect(() => parseSongImport("   ")).toThrow(SongImportError);
+  });
+
+  describe("chord lines", () => {
+    it("recognizes chord lines", () => {
+      expect(isChordLine("G   D/F#   Em  | C")).toBe(true);
+      expect(isChordLine("A mighty fortress")).toBe(false);
+    });
+
+    it("places chords at their columns", () => {
+      expect(mergeChordLine("   C      G", "Oh Lord")).toBe("Oh [C]Lord   [G]");
+      expect(mergeChordLine("G  C")).toBe("[G] [C]");
+    });
+  });
+});
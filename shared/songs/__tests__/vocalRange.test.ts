@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeRangeFit,
+  getRangeFit,
+  isValidVocalRange,
+  midiToNote,
+  noteToMidi,
+  recommendTranspose,
+} from "../vocalRange";
+
+describe("vocalRange", () => {
+  it("converts between note names and MIDI numbers", () => {
+    expect(noteToMidi("C4")).toBe(60);
+    expect(noteToMidi("Bb2")).toBe(46);
+    expect(noteToMidi("F#4")).toBe(66);
+    expect(noteToMidi("H4")).toBeNull();
+    expect(midiToNote(46)).toBe("A#2");
+  });
+
+  it("requires the low note to be below the high note", () => {
+    expect(isValidVocalRange({ low: "A2", high: "E4" })).toBe(true);
+    expect(isValidVocalRange({ low: "E4", high: "A2" })).toBe(false);
+    expect(isValidVocalRange({ low: "C4", high: "C4" })).toBe(false);
+    expect(isValidVocalRange({ low: "", high: "C4" })).toBe(false);
+  });
+
+  it("measures how far a transposed melody leaves the range", () => {
+    const melody = { low: "C4", high: "D5" };
+    const singer = { low: "A3", high: "C5" };
+
+    expect(getRangeFit(melody, singer)).toEqual({
+      below: 0,
+      above: 2,
+      fits: false,
+    });
+    expect(getRangeFit(melody, singer, -2)?.fits).toBe(true);
+    expect(getRangeFit(melody, singer, -5)).toEqual({
+      below: 2,
+      above: 0,
+      fits: false,
+    });
+    expect(getRangeFit(melody, { low: "C5", high: "C4" })).toBeNull();
+  });
+
+  it("describes where the melody leaves the range", () => {
+    expect(
+      describeRangeFit({ below: 0, above: 1, fits: false }, "your range"),
+    ).toBe("The melody goes 1 semitone above your range");
+    expect(
+      describeRangeFit({ below: 3, above: 2, fits: false }, "Sam's range"),
+    ).toBe(
+      "The melody goes 3 semitones below and 2 semitones above Sam's range",
+    );
+    expect(
+      describeRangeFit({ below: 0, above: 0, fits: true }, "your range"),
+    ).toBeNull();
+  });
+
+  it("recommends the transposition that centres the melody", () => {
+    // A tenor melody for an alto: up a fourth sits in the middle
+    expect(
+      recommendTranspose(
+        { low: "D3", high: "D4" },
+        { low: "F3", high: "F4" },
+        "G",
+      ),
+    ).toEqual({ transpose: 3, key: "Bb", fits: true });
+  });
+
+  it("prefers the smallest change when the melody is centred either way", () => {
+    expect(
+      recommendTranspose({ low: "C4", high: "C5" }, { low: "C4", high: "C5" }),
+    ).toEqual({ transpose: 0, fits: true });
+  });
+
+  it("keeps the overflow smallest when the melody cannot fit", () => {
+    const melody = { low: "G3", high: "E5" };
+    const singer = { low: "C4", high: "C5" };
+    const result = recommendTranspose(melody, singer, "D");
+
+    expect(result).toEqual({ transpose: 0, key: "D", fits: false });
+    expect(getRangeFit(melody, singer, result!.transpose)).toEqual({
+      below: 5,
+      above: 4,
+      fits: false,
+    });
+  });
+});
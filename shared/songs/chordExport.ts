@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Export ChordPro charts to other chord chart formats
+ * @module shared/songs/chordExport
+ *
+ * Every export parses the ChordPro source, applies the requested
+ * transposition and serializes the result. The module has no DOM
+ * dependencies so the editor and the export endpoint share it.
+ */
+
+import {
+  ChordLyricsPair,
+  ChordProFormatter,
+  ChordsOverWordsFormatter,
+  Line,
+  Song,
+  Tag,
+} from "chordsheetjs";
+import {
+  extractSongMetadata,
+  parseChordProContent,
+  transposeSong,
+} from "./chordSheetHelpers";
+
+// ==================== Types ====================
+
+export type ExportFormat = "text" | "onsong" | "chordpro" | "lyrics";
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  text: {
+    label: "Chords over lyrics",
+    extension: "txt",
+    mimeType: "text/plain",
+  },
+  onsong: {
+    label: "OnSong",
+    extension: "onsong",
+    mimeType: "text/plain",
+  },
+  chordpro: {
+    label: "ChordPro",
+    extension: "chordpro",
+    mimeType: "application/x-chordpro",
+  },
+  lyrics: {
+    label: "Lyrics only",
+    extension: "txt",
+    mimeType: "text/plain",
+  },
+};
+
+/**
+ * Header values used when the ChordPro source has no matching directive
+ */
+export interface ExportMetadata {
+  title?: string;
+  artist?: string;
+  key?: string;
+  tempo?: number;
+  timeSignature?: string;
+  capo?: number;
+}
+
+export interface ExportOptions {
+  transpose?: number;
+  metadata?: ExportMetadata;
+}
+
+export class ChordExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChordExportError";
+  }
+}
+
+// ==================== Helpers ====================
+
+const DIRECTIVES: Array<[keyof ExportMetadata, string]> = [
+  ["title", "title"],
+  ["artist", "artist"],
+  ["key", "key"],
+  ["tempo", "tempo"],
+  ["timeSignature", "time"],
+  ["capo", "capo"],
+];
+
+/**
+ * Prepend directives for metadata the chart does not declare itself
+ */
+function withMetadataDirectives(
+  chordData: string,
+  metadata: ExportMetadata = {},
+): string {
+  const { song } = parseChordProContent(chordData);
+  const declared = song ? extractSongMetadata(song) : {};
+
+  const missing = DIRECTIVES.filter(([field, directive]) => {
+    const value = metadata[field];
+    return value !== undefined && value !== "" && !declared[directive];
+  }).map(([field, directive]) => `{${directive}: ${metadata[field]}}`);
+
+  return missing.length > 0 ? `${missing.join("\n")}\n${chordData}` : chordData;
+}
+
+function toSong(chordData: string, options: ExportOptions): Song {
+  if (!chordData.trim()) {
+    throw new ChordExportError("Chord chart is empty");
+  }
+  const { song, error } = parseChordProContent(
+    withMetadataDirectives(chordData, options.metadata),
+  );
+  if (!song) {
+    throw new ChordExportError(error?.message || "Unable to parse chord chart");
+  }
+  return transposeSong(song, options.transpose || 0).transposedSong;
+}
+
+/**
+ * Label for a line that opens a section, e.g. "Verse 1" or "Chorus"
+ */
+function sectionStartLabel(line: Line): string | null {
+  const tag = line.items.find(
+    (item): item is Tag => item instanceof Tag && item.isSectionStart(),
+  );
+  if (!tag) {
+    return null;
+  }
+  return tag.label || line.type.charAt(0).toUpperCase() + line.type.slice(1);
+}
+
+function isSectionEnd(line: Line): boolean {
+  return line.items.some((item) => item instanceof Tag && item.isSectionEnd());
+}
+
+function lineLyrics(line: Line): string {
+  return line.items
+    .filter((item): item is ChordLyricsPair => item instanceof ChordLyricsPair)
+    .map((pair) => pair.lyrics || "")
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function lineChordPro(line: Line): string {
+  return line.items
+    .filter((item): item is ChordLyricsPair => item instanceof ChordLyricsPair)
+    .map((pair) => `${pair.chords ? `[${pair.chords}]` : ""}${pair.lyrics}`)
+    .join("")
+    .trimEnd();
+}
+
+function lineComment(line: Line): string | null {
+  const tag = line.items.find(
+    (item): item is Tag => item instanceof Tag && item.name === "comment",
+  );
+  return tag ? tag.value : null;
+}
+
+function collapseBlankLines(lines: string[]): string {
+  return `${lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()}\n`;
+}
+
+// ==================== Formats ====================
+
+function toChordsOverLyrics(song: Song): string {
+  return `${new ChordsOverWordsFormatter().format(song).trimEnd()}\n`;
+}
+
+/**
+ * ChordPro output with long-form directive names, so `{t:}` and `{soc}`
+ * become `{title:}` and `{start_of_chorus}`
+ */
+class NormalizedChordProFormatter extends ChordProFormatter {
+  formatTag(tag: Tag): string {
+    return super.formatTag(tag).replace(`{${tag.originalName}`, `{${tag.name}`);
+  }
+}
+
+function toChordPro(song: Song): string {
+  return `${new NormalizedChordProFormatter().format(song).trimEnd()}\n`;
+}
+
+/**
+ * OnSong files open with the title and artist lines followed by
+ * `Name: value` metadata, mark sections with a `Label:` line and keep
+ * chords inline in square brackets
+ */
+function toOnSong(song: Song): string {
+  const meta = extractSongMetadata(song);
+  const header = [
+    meta.title || "Untitled",
+    meta.artist,
+    meta.key && `Key: ${meta.key}`,
+    meta.tempo && `Tempo: ${meta.tempo}`,
+    meta.time && `Time: ${meta.time}`,
+    meta.capo && `Capo: ${meta.capo}`,
+  ].filter(Boolean) as string[];
+
+  const body = song.lines.map((line) => {
+    const label = sectionStartLabel(line);
+    if (label) {
+      return `${label}:`;
+    }
+    const comment = lineComment(line);
+    return comment ? `{comment: ${comment}}` : lineChordPro(line);
+  });
+
+  return collapseBlankLines([...header, "", ...body]);
+}
+
+/**
+ * Title, section labels and lyric lines without chords or directions,
+ * suitable for projection software
+ */
+function toLyrics(song: Song): string {
+  const meta = extractSongMetadata(song);
+  const output = [meta.title || "Untitled", ""];
+
+  for (const line of song.lines) {
+    if (line.type === "tab") {
+      continue;
+    }
+    output.push(sectionStartLabel(line) ?? lineLyrics(line));
+    if (isSectionEnd(line)) {
+      output.push("");
+    }
+  }
+
+  return collapseBlankLines(output);
+}
+
+const FORMATTERS: Record<ExportFormat, (song: Song) => string> = {
+  text: toChordsOverLyrics,
+  onsong: toOnSong,
+  chordpro: toChordPro,
+  lyrics: toLyrics,
+};
+
+// ==================== Public API ====================
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
+
+/**
+ * Export ChordPro content to the given format at a transposition
+ * @throws ChordExportError when the content cannot be parsed
+ */
+export function exportChordChart(
+  chordData: string,
+  format: ExportFormat,
+  options: ExportOptions = {},
+): string {
+  return FORMATTERS[format](toSong(chordData, options));
+}
+
+/**
+ * File name for an exported chart, e.g. `amazing-grace.onsong`
+ */
+export function getExportFilename(title: string, format: ExportFormat): string {
+  const base =
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "chart";
+  return `${base}.${EXPORT_FORMATS[format].extension}`;
+}
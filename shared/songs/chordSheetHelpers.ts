@@ -1,16 +1,17 @@
 /**
  * @fileoverview Utility functions for ChordSheetJS integration and chord processing
- * @module features/songs/utils/chordSheetHelpers
+ * @module shared/songs/chordSheetHelpers
  */
 
-import { ChordProParser, HtmlDivFormatter, Song } from "chordsheetjs";
+import { Chord, ChordProParser, HtmlDivFormatter, Song } from "chordsheetjs";
 import {
   ChordParsingError,
   ChordSheetMeta,
   MusicalKey,
   MUSICAL_KEYS,
   TRANSPOSITION_BOUNDS,
-} from "../types/chord.types";
+} from "../types/music.types";
+import { detectKeyFromChords } from "./keyDetection";
 
 // ==================== Parser Instances ====================
 
@@ -152,6 +153,20 @@ export function transposeSong(
   }
 }
 
+/**
+ * Transpose a single chord name such as `Bm7/A`
+ * @param chord - Chord in English letters
+ * @param semitones - Number of semitones to transpose
+ * @returns Transposed chord, or null if the chord cannot be parsed
+ */
+export function transposeChord(
+  chord: string,
+  semitones: number,
+): string | null {
+  const parsed = Chord.parse(chord);
+  return parsed ? parsed.transpose(semitones).toString() : null;
+}
+
 // ==================== HTML Sanitization ====================
 
 /**
@@ -231,12 +246,12 @@ export function extractSongMetadata(song: Song): ChordSheetMeta {
 // ==================== Key Detection and Transposition ====================
 
 /**
- * Detect the musical key from ChordPro content or metadata
+ * Read the key a chart declares in its metadata or a {key:} directive
  * @param content - ChordPro content string
  * @param metadata - Optional metadata object
- * @returns Detected key or null if not found
+ * @returns Declared key or null if there is none
  */
-export function detectMusicalKey(
+export function getDeclaredKey(
   content: string,
   metadata?: ChordSheetMeta,
 ): MusicalKey | null {
@@ -254,33 +269,93 @@ export function detectMusicalKey(
     }
   }
 
-  // Try to analyze chord progression (basic heuristic)
-  const chords = extractChordsFromContent(content);
-  if (chords.length > 0) {
-    return guessKeyFromChords(chords);
-  }
-
   return null;
 }
 
+/**
+ * Detect the musical key from ChordPro content or metadata
+ *
+ * Without a declared key, the key is worked out statistically from the
+ * chords; minor keys come back as their relative major.
+ * @param content - ChordPro content string
+ * @param metadata - Optional metadata object
+ * @returns Detected key or null if not found
+ */
+export function detectMusicalKey(
+  content: string,
+  metadata?: ChordSheetMeta,
+): MusicalKey | null {
+  return getDeclaredKey(content, metadata) ?? detectKeyFromChords(content);
+}
+
+const SHARP_KEYS: MusicalKey[] = [
+  "C",
+  "C#",
+  "D",
+  "D#",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "A#",
+  "B",
+];
+const FLAT_KEYS: MusicalKey[] = [
+  "C",
+  "Db",
+  "D",
+  "Eb",
+  "E",
+  "F",
+  "Gb",
+  "G",
+  "Ab",
+  "A",
+  "Bb",
+  "B",
+];
+// Conventional spelling for major keys when the original has no accidental
+const NATURAL_KEY_SPELLING: MusicalKey[] = [
+  "C",
+  "Db",
+  "D",
+  "Eb",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "Ab",
+  "A",
+  "Bb",
+  "B",
+];
+
 /**
  * Calculate the target key after transposition
  * @param originalKey - Original musical key
  * @param semitones - Transposition in semitones
- * @returns Target key after transposition
+ * @returns Target key after transposition, keeping the original's sharp or flat spelling
  */
 export function calculateTransposedKey(
   originalKey: MusicalKey,
   semitones: number,
 ): MusicalKey {
-  const keyIndex = MUSICAL_KEYS.indexOf(originalKey);
-  if (keyIndex === -1) {
+  const pitch = Math.max(
+    SHARP_KEYS.indexOf(originalKey),
+    FLAT_KEYS.indexOf(originalKey),
+  );
+  if (pitch === -1) {
     return originalKey;
   }
 
-  const newIndex =
-    (keyIndex + semitones + MUSICAL_KEYS.length) % MUSICAL_KEYS.length;
-  return MUSICAL_KEYS[newIndex];
+  const spelling = originalKey.includes("#")
+    ? SHARP_KEYS
+    : originalKey.includes("b")
+      ? FLAT_KEYS
+      : NATURAL_KEY_SPELLING;
+  return spelling[(((pitch + semitones) % 12) + 12) % 12];
 }
 
 /**
@@ -293,6 +368,55 @@ export function getAvailableKeys(_originalKey?: MusicalKey): MusicalKey[] {
   return [...MUSICAL_KEYS];
 }
 
+// ==================== Chart Editing ====================
+
+/**
+ * Set, replace or remove (when value is empty) a header directive such as
+ * {key: G}. New directives are added at the top of the chart.
+ * @param content - ChordPro format content
+ * @param name - Directive name
+ * @param value - Directive value
+ * @returns Updated ChordPro content
+ */
+export function setChordProDirective(
+  content: string,
+  name: string,
+  value?: string,
+): string {
+  const pattern = new RegExp(`^\\{${name}:[^}]*\\}\\n?`, "m");
+  if (!value) {
+    return content.replace(pattern, "");
+  }
+  const directive = `{${name}: ${value}}`;
+  return pattern.test(content)
+    ? content.replace(pattern, `${directive}\n`)
+    : `${directive}\n${content}`;
+}
+
+/**
+ * Rewrite every bracketed chord of a ChordPro chart, leaving directive
+ * lines alone
+ * @param content - ChordPro format content
+ * @param convert - Returns the replacement chord, or null to keep it
+ * @returns Updated ChordPro content
+ */
+export function mapChordProChords(
+  content: string,
+  convert: (chord: string) => string | null,
+): string {
+  return content
+    .split("\n")
+    .map((line) =>
+      line.trimStart().startsWith("{")
+        ? line
+        : line.replace(/\[([^\]\s]+)\]/g, (token, chord: string) => {
+            const converted = convert(chord);
+            return converted ? `[${converted}]` : token;
+          }),
+    )
+    .join("\n");
+}
+
 // ==================== Chord Analysis ====================
 
 /**
@@ -326,49 +450,6 @@ export function isValidChord(chord: string): boolean {
   return chordPattern.test(chord);
 }
 
-/**
- * Guess musical key from chord progression using basic music theory
- * @param chords - Array of chord names
- * @returns Most likely key or null
- */
-function guessKeyFromChords(chords: string[]): MusicalKey | null {
-  if (chords.length === 0) {
-    return null;
-  }
-
-  // Simplified key detection - look for common chord patterns
-  const rootNotes = chords
-    .map((chord) => {
-      const match = chord.match(/^([A-G][#b]?)/);
-      return match ? match[1] : null;
-    })
-    .filter(Boolean);
-
-  if (rootNotes.length === 0) {
-    return null;
-  }
-
-  // Count frequency of root notes
-  const noteFrequency = rootNotes.reduce(
-    (acc, note) => {
-      if (note) {
-        acc[note] = (acc[note] || 0) + 1;
-      }
-      return acc;
-    },
-    {} as Record<string, number>,
-  );
-
-  // Return the most frequent root note as likely key
-  const mostFrequentNote = Object.entries(noteFrequency).sort(
-    (a, b) => b[1] - a[1],
-  )[0]?.[0];
-
-  return isValidMusicalKey(mostFrequentNote)
-    ? (mostFrequentNote as MusicalKey)
-    : null;
-}
-
 // ==================== Validation Functions ====================
 
 /**
@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Statistical key detection from the chords in a chart
+ * @module shared/songs/keyDetection
+ *
+ * Every major and minor key is scored against the chart's chords: how well
+ * each chord fits the key, weighted by how often it is played, whether the
+ * song starts and ends on the tonic, and how often dominant and plagal
+ * cadences resolve to it. Scores are turned into confidences that add up to
+ * one across all 24 keys.
+ */
+
+import {
+  isMusicalKey,
+  type KeyCandidate,
+  type KeyMode,
+  type MusicalKey,
+} from "../types/music.types";
+
+// ==================== Types ====================
+
+export interface KeyMismatch {
+  declaredKey: string;
+  detected: KeyCandidate;
+  message: string;
+}
+
+type Quality = "major" | "minor" | "diminished";
+
+interface PlayedChord {
+  root: number;
+  spelling: string;
+  quality: Quality;
+}
+
+// ==================== Tables ====================
+
+const LETTER_PITCHES: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+// Diatonic triads by semitones above the tonic. Minor keys also allow the
+// major V and IV borrowed from the harmonic and melodic minor.
+const DIATONIC: Record<KeyMode, Record<number, Quality[]>> = {
+  major: {
+    0: ["major"],
+    2: ["minor"],
+    4: ["minor"],
+    5: ["major"],
+    7: ["major"],
+    9: ["minor"],
+    11: ["diminished"],
+  },
+  minor: {
+    0: ["minor"],
+    2: ["diminished"],
+    3: ["major"],
+    5: ["minor", "major"],
+    7: ["minor", "major"],
+    8: ["major"],
+    10: ["major"],
+  },
+};
+
+// Usual spellings when the chart never writes the tonic as a chord root
+const MAJOR_SPELLINGS: MusicalKey[] = [
+  "C",
+  "Db",
+  "D",
+  "Eb",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "Ab",
+  "A",
+  "Bb",
+  "B",
+];
+const MINOR_SPELLINGS: MusicalKey[] = [
+  "C",
+  "C#",
+  "D",
+  "Eb",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "Bb",
+  "B",
+];
+
+const WEIGHTS = {
+  tonic: 1.5,
+  diatonic: 1,
+  // A scale degree played with a borrowed quality, e.g. a secondary dominant
+  altered: 0.25,
+  outOfKey: -0.5,
+  firstChord: 0.75,
+  lastChord: 0.5,
+  cadence: 1.5,
+  // Breaks ties between relative keys in favour of major
+  major: 0.05,
+};
+
+// Softmax sharpness: higher values give the leading key more confidence.
+// Charts with only a few chords are spread more evenly.
+const CONFIDENCE_SCALE = 3;
+const FULL_EVIDENCE_CHORDS = 8;
+
+// Charts with fewer chords than this are not checked against their key
+const MIN_CHORDS_FOR_MISMATCH = 4;
+const MIN_MISMATCH_CONFIDENCE = 0.5;
+
+// ==================== Parsing ====================
+
+const CHORD_PATTERN = /^([A-G])([#b]?)([^/]*)/;
+
+function parsePlayedChord(chord: string): PlayedChord | null {
+  const match = chord.trim().match(CHORD_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, letter, accidental, suffix] = match;
+  const offset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
+  const root = (LETTER_PITCHES[letter] + offset + 12) % 12;
+
+  let quality: Quality = "major";
+  if (/^(dim|°|o\b|m7b5|ø)/.test(suffix)) {
+    quality = "diminished";
+  } else if (/^(m(?!aj)|min|-)/.test(suffix)) {
+    quality = "minor";
+  }
+  return { root, spelling: letter + accidental, quality };
+}
+
+// Every chord in the order it is played, repeats included
+function getPlayedChords(content: string): PlayedChord[] {
+  return Array.from(content.matchAll(/\[([^\]]+)\]/g))
+    .map((match) => parsePlayedChord(match[1]))
+    .filter((chord): chord is PlayedChord => chord !== null);
+}
+
+function parseKeyName(key: string): { tonic: number; minor: boolean } | null {
+  const match = key.trim().match(/^([A-G])([#b]?)(m|min)?$/);
+  if (!match) {
+    return null;
+  }
+  const [, letter, accidental, minor] = match;
+  const offset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
+  return {
+    tonic: (LETTER_PITCHES[letter] + offset + 12) % 12,
+    minor: Boolean(minor),
+  };
+}
+
+// ==================== Scoring ====================
+
+function fitsKey(chord: PlayedChord, tonic: number, mode: KeyMode): number {
+  const degree = (chord.root - tonic + 12) % 12;
+  const qualities = DIATONIC[mode][degree];
+  if (!qualities) {
+    return WEIGHTS.outOfKey;
+  }
+  if (!qualities.includes(chord.quality)) {
+    return WEIGHTS.altered;
+  }
+  return degree === 0 ? WEIGHTS.tonic : WEIGHTS.diatonic;
+}
+
+function isTonicChord(chord: PlayedChord, tonic: number, mode: KeyMode) {
+  return chord.root === tonic && chord.quality === mode;
+}
+
+function scoreKey(chords: PlayedChord[], tonic: number, mode: KeyMode) {
+  const fit =
+    chords.reduce((sum, chord) => sum + fitsKey(chord, tonic, mode), 0) /
+    chords.length;
+
+  let score = fit + (mode === "major" ? WEIGHTS.major : 0);
+  if (isTonicChord(chords[0], tonic, mode)) {
+    score += WEIGHTS.firstChord;
+  }
+  if (isTonicChord(chords[chords.length - 1], tonic, mode)) {
+    score += WEIGHTS.lastChord;
+  }
+
+  // V–I counts fully; IV–I and, in minor, VII–i count half
+  let cadences = 0;
+  for (let i = 1; i < chords.length; i++) {
+    if (!isTonicChord(chords[i], tonic, mode)) {
+      continue;
+    }
+    const from = (chords[i - 1].root - tonic + 12) % 12;
+    if (from === 7 && chords[i - 1].quality === "major") {
+      cadences += 1;
+    } else if (from === 5 || (mode === "minor" && from === 10)) {
+      cadences += 0.5;
+    }
+  }
+  if (chords.length > 1) {
+    score += (WEIGHTS.cadence * cadences) / (chords.length - 1);
+  }
+  return score;
+}
+
+// Use the chart's own spelling of the tonic when it has one
+function spellTonic(
+  tonic: number,
+  mode: KeyMode,
+  chords: PlayedChord[],
+): MusicalKey {
+  const written = chords.find((chord) => chord.root === tonic)?.spelling;
+  const defaults = mode === "major" ? MAJOR_SPELLINGS : MINOR_SPELLINGS;
+  return written && isMusicalKey(written) ? written : defaults[tonic];
+}
+
+// ==================== Public API ====================
+
+/**
+ * Rank major and minor keys by how well they explain a chart's chords
+ * @param content - ChordPro content with chords in English letters
+ * @param limit - Number of candidates to return
+ * @returns Candidates, most likely first; empty when there are no chords
+ */
+export function detectKeyCandidates(
+  content: string,
+  limit: number = 5,
+): KeyCandidate[] {
+  const chords = getPlayedChords(content);
+  if (chords.length === 0) {
+    return [];
+  }
+
+  const scored = (["major", "minor"] as KeyMode[]).flatMap((mode) =>
+    Array.from({ length: 12 }, (_, tonic) => ({
+      tonic,
+      mode,
+      score: scoreKey(chords, tonic, mode),
+    })),
+  );
+
+  const sharpness =
+    CONFIDENCE_SCALE * Math.min(1, chords.length / FULL_EVIDENCE_CHORDS);
+  const best = Math.max(...scored.map((entry) => entry.score));
+  const weights = scored.map((entry) =>
+    Math.exp(sharpness * (entry.score - best)),
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return scored
+    .map((entry, index): KeyCandidate => {
+      const tonic = spellTonic(entry.tonic, entry.mode, chords);
+      const majorPitch =
+        entry.mode === "major" ? entry.tonic : (entry.tonic + 3) % 12;
+      return {
+        key: entry.mode === "major" ? tonic : `${tonic}m`,
+        tonic,
+        mode: entry.mode,
+        majorKey:
+          entry.mode === "major"
+            ? tonic
+            : spellTonic(majorPitch, "major", chords),
+        confidence: Math.round((weights[index] / total) * 100) / 100,
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
+
+/**
+ * Most likely key of a chart, as a major key signature
+ * @param content - ChordPro content with chords in English letters
+ * @returns The leading candidate's major key, or null without chords
+ */
+export function detectKeyFromChords(content: string): MusicalKey | null {
+  return detectKeyCandidates(content, 1)[0]?.majorKey ?? null;
+}
+
+// A stored key names either the tonic or, since arrangement keys are
+// major only, the relative major of a minor song
+function keyAgrees(declared: string, candidate: KeyCandidate): boolean {
+  const parsed = parseKeyName(declared);
+  const tonic = parseKeyName(candidate.key);
+  const major = parseKeyName(candidate.majorKey);
+  if (!parsed || !tonic || !major) {
+    return false;
+  }
+  if (parsed.minor) {
+    return candidate.mode === "minor"
+      ? parsed.tonic === tonic.tonic
+      : parsed.tonic === (tonic.tonic + 9) % 12;
+  }
+  return parsed.tonic === tonic.tonic || parsed.tonic === major.tonic;
+}
+
+/**
+ * Check a declared key against the chords in a chart. Only reports charts
+ * where the detection is confident and no agreeing key comes close.
+ * @param declaredKey - Key stored on the arrangement or in the file
+ * @param content - ChordPro content with chords in English letters
+ * @returns The mismatch, or null when the key fits or the chart is unclear
+ */
+export function findKeyMismatch(
+  declaredKey: string,
+  content: string,
+): KeyMismatch | null {
+  if (getPlayedChords(content).length < MIN_CHORDS_FOR_MISMATCH) {
+    return null;
+  }
+  const candidates = detectKeyCandidates(content, 24);
+  const [detected] = candidates;
+  if (!detected || detected.confidence < MIN_MISMATCH_CONFIDENCE) {
+    return null;
+  }
+  const agreeing = candidates.find((candidate) =>
+    keyAgrees(declaredKey, candidate),
+  );
+  if (agreeing && agreeing.confidence >= detected.confidence / 2) {
+    return null;
+  }
+
+  return {
+    declaredKey,
+    detected,
+    message: `Key is set to ${declaredKey} but the chords suggest ${detected.key} (${Math.round(detected.confidence * 100)}% confidence)`,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * @fileoverview Nashville Number System conversion for chord charts
+ * @module shared/songs/nashvilleNumbers
+ *
+ * Chords are written as scale degrees of the song key, so `Am7` in C is
+ * `6m7` and `F/C` is `4/1`. Quality, extensions and slash bass notes are
+ * kept as written. Numbers are spelled back to letters from the key's
+ * scale, so `b7` in E becomes `D` rather than `C##`.
+ */
+
+import { ChordLyricsPair, type Song } from "chordsheetjs";
+import { mapChordProChords, setChordProDirective } from "./chordSheetHelpers";
+
+const LETTERS = ["C", "D", "E", "F", "G", "A", "B"];
+const LETTER_PITCHES = [0, 2, 4, 5, 7, 9, 11];
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+
+// Spelling for intervals that cannot be written from the key's letters
+const DEFAULT_DEGREES = [
+  "1",
+  "b2",
+  "2",
+  "b3",
+  "3",
+  "4",
+  "#4",
+  "5",
+  "b6",
+  "6",
+  "b7",
+  "7",
+];
+const SHARP_NOTES = [
+  "C",
+  "C#",
+  "D",
+  "D#",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "A#",
+  "B",
+];
+const FLAT_NOTES = [
+  "C",
+  "Db",
+  "D",
+  "Eb",
+  "E",
+  "F",
+  "Gb",
+  "G",
+  "Ab",
+  "A",
+  "Bb",
+  "B",
+];
+
+const LETTER_CHORD = /^([A-G])([#b]?)(\S*?)(?:\/([A-G])([#b]?))?$/;
+const NUMBER_CHORD = /^([#b]?)([1-7])(\S*?)(?:\/([#b]?)([1-7]))?$/;
+const CHORD_TOKEN = /\[([^\]\s]+)\]/g;
+// Keys written with flats: F, flat majors and their relative minors
+const FLAT_KEY = /^([A-G]b|F$|[DGCF]m)/;
+
+interface Note {
+  letter: number;
+  pitch: number;
+}
+
+function parseNote(letter: string, accidental = ""): Note {
+  const index = LETTERS.indexOf(letter);
+  const offset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
+  return { letter: index, pitch: (LETTER_PITCHES[index] + offset + 12) % 12 };
+}
+
+/**
+ * Tonic of a key such as "G", "Bb" or "F#m"
+ */
+function parseKey(key: string): Note | null {
+  const match = key.trim().match(/^([A-G])([#b]?)/);
+  return match ? parseNote(match[1], match[2]) : null;
+}
+
+// Distance in semitones folded into -6..5
+function semitoneDistance(from: number, to: number): number {
+  return ((((to - from) % 12) + 18) % 12) - 6;
+}
+
+function noteToDegree(note: Note, tonic: Note): string {
+  const step = (note.letter - tonic.letter + 7) % 7;
+  const interval = (note.pitch - tonic.pitch + 12) % 12;
+  const offset = semitoneDistance(MAJOR_SCALE[step], interval);
+  if (Math.abs(offset) > 1) {
+    return DEFAULT_DEGREES[interval];
+  }
+  return `${offset < 0 ? "b" : offset > 0 ? "#" : ""}${step + 1}`;
+}
+
+function degreeToNote(
+  accidental: string,
+  degree: string,
+  tonic: Note,
+  preferFlats: boolean,
+): string {
+  const step = parseInt(degree, 10) - 1;
+  const offset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
+  const pitch = (tonic.pitch + MAJOR_SCALE[step] + offset + 12) % 12;
+  const letter = (tonic.letter + step) % 7;
+  const difference = semitoneDistance(LETTER_PITCHES[letter], pitch);
+  if (Math.abs(difference) > 1) {
+    return (preferFlats ? FLAT_NOTES : SHARP_NOTES)[pitch];
+  }
+  return `${LETTERS[letter]}${difference < 0 ? "b" : difference > 0 ? "#" : ""}`;
+}
+
+// ==================== Chords ====================
+
+/**
+ * Check whether a chord is written as a Nashville number, e.g. `6m7` or `4/1`
+ */
+export function isNashvilleChord(chord: string): boolean {
+  return NUMBER_CHORD.test(chord);
+}
+
+/**
+ * Convert a letter chord to a Nashville number relative to the key
+ * @param chord - Letter chord such as `Am7` or `D/F#`
+ * @param key - Song key such as `G` or `Em`
+ * @returns Number chord, or null if the chord or key cannot be read
+ */
+export function chordToNashville(chord: string, key: string): string | null {
+  const tonic = parseKey(key);
+  const match = chord.match(LETTER_CHORD);
+  if (!tonic || !match) {
+    return null;
+  }
+  const [, root, accidental, suffix, bass, bassAccidental] = match;
+  const number = noteToDegree(parseNote(root, accidental), tonic);
+  const bassNumber = bass
+    ? `/${noteToDegree(parseNote(bass, bassAccidental), tonic)}`
+    : "";
+  return `${number}${suffix}${bassNumber}`;
+}
+
+/**
+ * Convert a Nashville number to a letter chord in the key
+ * @param number - Number chord such as `6m7` or `4/1`
+ * @param key - Target key such as `G` or `Em`
+ * @returns Letter chord, or null if the number or key cannot be read
+ */
+export function nashvilleToChord(number: string, key: string): string | null {
+  const tonic = parseKey(key);
+  const match = number.match(NUMBER_CHORD);
+  if (!tonic || !match) {
+    return null;
+  }
+  const [, accidental, degree, suffix, bassAccidental, bassDegree] = match;
+  const preferFlats = FLAT_KEY.test(key.trim());
+  const root = degreeToNote(accidental, degree, tonic, preferFlats);
+  const bass = bassDegree
+    ? `/${degreeToNote(bassAccidental, bassDegree, tonic, preferFlats)}`
+    : "";
+  return `${root}${suffix}${bass}`;
+}
+
+// ==================== Charts ====================
+
+/**
+ * Check whether a ChordPro chart has any chords written as numbers
+ */
+export function hasNashvilleChords(content: string): boolean {
+  return Array.from(content.matchAll(CHORD_TOKEN)).some(([, chord]) =>
+    isNashvilleChord(chord),
+  );
+}
+
+/**
+ * Read the key from a chart's {key:} directive
+ */
+export function getChartKey(content: string): string | null {
+  const match = content.match(/\{key:\s*([^}]+)\}/i);
+  return match && parseKey(match[1]) ? match[1].trim() : null;
+}
+
+/**
+ * Rewrite the letter chords of a ChordPro chart as Nashville numbers.
+ * Chords that are already numbers are left as they are.
+ */
+export function chordProToNashville(content: string, key: string): string {
+  return mapChordProChords(content, (chord) => chordToNashville(chord, key));
+}
+
+/**
+ * Spell the Nashville numbers of a ChordPro chart as letter chords in the
+ * given key and set the chart's {key:} directive to match
+ */
+export function nashvilleToChordPro(content: string, key: string): string {
+  return setChordProDirective(
+    mapChordProChords(content, (chord) => nashvilleToChord(chord, key)),
+    "key",
+    key,
+  );
+}
+
+/**
+ * Show the chords of a parsed song as Nashville numbers relative to the key
+ */
+export function songToNashville(song: Song, key: string): Song {
+  return song.mapItems((item) => {
+    if (!(item instanceof ChordLyricsPair) || !item.chords) {
+      return item;
+    }
+    const number = chordToNashville(item.chords, key);
+    return number ? item.set({ chords: number }) : item;
+  });
+}
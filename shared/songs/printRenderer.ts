@@ -0,0 +1,280 @@
+/**
+ * @fileoverview Print layouts for chord charts and setlist booklets
+ * @module shared/songs/printRenderer
+ *
+ * Builds standalone HTML documents from ChordPro content. The output has no
+ * DOM dependencies, so the browser print flow and the server print
+ * endpoints share the same renderer.
+ */
+
+import {
+  ChordLyricsPair,
+  Comment,
+  Literal,
+  Tag,
+  type Song,
+} from "chordsheetjs";
+import {
+  calculateTransposedKey,
+  extractSongMetadata,
+  formatSongToHtml,
+  isValidMusicalKey,
+  parseChordProContent,
+  transposeSong,
+} from "./chordSheetHelpers";
+import type { MusicalKey } from "../types/music.types";
+
+// ==================== Types ====================
+
+/**
+ * A single chart to print. Header fields fall back to the ChordPro
+ * directives in `chordData` when they are not provided.
+ */
+export interface PrintChart {
+  title?: string;
+  artist?: string;
+  key?: string;
+  tempo?: number;
+  timeSignature?: string;
+  capo?: number;
+  ccli?: string;
+  chordData: string;
+  transpose?: number;
+  notes?: string;
+}
+
+export interface PrintOptions {
+  /** Flow each chart into two columns */
+  columns?: 1 | 2;
+  paperSize?: "letter" | "a4";
+  /** Base font size in points */
+  fontSize?: number;
+}
+
+export interface SetlistBooklet {
+  name: string;
+  description?: string;
+  date?: string;
+  charts: PrintChart[];
+}
+
+/**
+ * Header values shown above a chart after transposition
+ */
+export interface PrintChartHeader {
+  title: string;
+  artist?: string;
+  key?: string;
+  tempo?: number;
+  timeSignature?: string;
+  capo?: number;
+  ccli?: string;
+}
+
+const DEFAULT_OPTIONS: Required<PrintOptions> = {
+  columns: 1,
+  paperSize: "letter",
+  fontSize: 11,
+};
+
+// ==================== Helpers ====================
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Resolve header values from the chart and its ChordPro directives,
+ * moving the key by the chart's transposition
+ */
+export function resolveChartHeader(chart: PrintChart): PrintChartHeader {
+  const { song } = parseChordProContent(chart.chordData);
+  const meta = song ? extractSongMetadata(song) : {};
+  const originalKey = chart.key || meta.key;
+  const transpose = chart.transpose || 0;
+
+  return {
+    title: chart.title || meta.title || "Untitled",
+    artist: chart.artist || meta.artist,
+    key:
+      originalKey && transpose !== 0 && isValidMusicalKey(originalKey)
+        ? calculateTransposedKey(originalKey as MusicalKey, transpose)
+        : originalKey,
+    tempo: chart.tempo ?? toNumber(meta.tempo),
+    timeSignature: chart.timeSignature || meta.time,
+    capo: chart.capo ?? toNumber(meta.capo),
+    ccli: chart.ccli,
+  };
+}
+
+function renderHeader(header: PrintChartHeader): string {
+  const details = [
+    header.key && `Key: ${header.key}`,
+    header.tempo && `Tempo: ${header.tempo} BPM`,
+    header.timeSignature && `Time: ${header.timeSignature}`,
+    header.capo ? `Capo: ${header.capo}` : undefined,
+    header.ccli && `CCLI: ${header.ccli}`,
+  ].filter(Boolean) as string[];
+
+  return `<header class="chart-header">
+  <h1 class="chart-title">${escapeHtml(header.title)}</h1>
+  ${header.artist ? `<p class="chart-artist">${escapeHtml(header.artist)}</p>` : ""}
+  ${details.length > 0 ? `<p class="chart-details">${details.map((d) => `<span>${escapeHtml(d)}</span>`).join("")}</p>` : ""}
+</header>`;
+}
+
+/**
+ * Copy of a song with every chord, lyric, comment and directive value
+ * HTML-escaped, since the chart formatter writes them out as they are
+ */
+function escapeSongContent(song: Song): Song {
+  return song.mapItems((item) => {
+    if (item instanceof ChordLyricsPair) {
+      return item.set({
+        chords: escapeHtml(item.chords),
+        lyrics: escapeHtml(item.lyrics || ""),
+      });
+    }
+    if (item instanceof Tag) {
+      return item.set({ value: escapeHtml(item.value) });
+    }
+    if (item instanceof Comment) {
+      return new Comment(escapeHtml(item.content));
+    }
+    if (item instanceof Literal) {
+      return new Literal(escapeHtml(item.string));
+    }
+    return item;
+  });
+}
+
+function renderChartBody(chart: PrintChart): string {
+  const { song, error } = parseChordProContent(chart.chordData);
+  if (!song) {
+    return `<p class="chart-error">${escapeHtml(error?.message || "Unable to parse chord chart")}</p>`;
+  }
+  // Transpose first, so chords are parsed before they are escaped
+  const { transposedSong } = transposeSong(song, chart.transpose || 0);
+  return formatSongToHtml(escapeSongContent(transposedSong));
+}
+
+/**
+ * Render one chart as a print section. Sections start on a new page when
+ * printed one after another.
+ */
+export function renderChartSection(chart: PrintChart, id?: string): string {
+  const header = resolveChartHeader(chart);
+  return `<section class="chart"${id ? ` id="${escapeHtml(id)}"` : ""}>
+${renderHeader(header)}
+${chart.notes ? `<p class="chart-notes">${escapeHtml(chart.notes)}</p>` : ""}
+<div class="chart-body">${renderChartBody(chart)}</div>
+</section>`;
+}
+
+// ==================== Styles ====================
+
+export function buildPrintStyles(options: PrintOptions = {}): string {
+  const { columns, paperSize, fontSize } = { ...DEFAULT_OPTIONS, ...options };
+
+  return `
+@page { size: ${paperSize}; margin: 0.6in 0.5in; }
+* { box-sizing: border-box; }
+body { font-family: Helvetica, Arial, sans-serif; font-size: ${fontSize}pt; color: #000; margin: 0; }
+.chart + .chart, .cover + .toc, .toc + .chart { break-before: page; page-break-before: always; }
+.chart-header { border-bottom: 1px solid #000; margin-bottom: 0.75em; padding-bottom: 0.4em; break-after: avoid; page-break-after: avoid; }
+.chart-title { font-size: 1.8em; margin: 0; }
+.chart-artist { margin: 0.15em 0 0; font-style: italic; }
+.chart-details { margin: 0.3em 0 0; font-size: 0.9em; }
+.chart-details span + span::before { content: " \\00b7  "; }
+.chart-notes { margin: 0 0 0.75em; padding: 0.4em 0.6em; border-left: 3px solid #999; font-style: italic; }
+.chart-body { column-count: ${columns}; column-gap: 2em; column-fill: auto; }
+.chart-body .title, .chart-body .subtitle { display: none; }
+.paragraph { margin-bottom: 1em; break-inside: avoid; page-break-inside: avoid; }
+.row { display: flex; flex-wrap: wrap; }
+.column { display: flex; flex-direction: column; }
+.chord { font-weight: bold; min-height: 1.2em; white-space: pre; }
+.lyrics { white-space: pre; }
+.comment, .label { font-weight: bold; font-style: italic; margin-bottom: 0.2em; }
+.chart-error { color: #b00; }
+.cover { display: flex; flex-direction: column; justify-content: center; text-align: center; min-height: 8in; }
+.cover h1 { font-size: 2.6em; margin: 0 0 0.3em; }
+.cover p { margin: 0.2em 0; }
+.toc h2 { font-size: 1.6em; margin: 0 0 0.75em; }
+.toc ol { padding-left: 1.5em; font-size: 1.15em; line-height: 1.8; }
+.toc a { color: inherit; text-decoration: none; }
+.toc .toc-key { color: #555; margin-left: 0.5em; }
+`.trim();
+}
+
+function wrapDocument(title: string, body: string, options: PrintOptions) {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${buildPrintStyles(options)}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+// ==================== Documents ====================
+
+/**
+ * Standalone print document for a single chart
+ */
+export function renderChartDocument(
+  chart: PrintChart,
+  options: PrintOptions = {},
+): string {
+  const header = resolveChartHeader(chart);
+  return wrapDocument(header.title, renderChartSection(chart), options);
+}
+
+/**
+ * Setlist booklet with a cover page, a table of contents and one chart per
+ * section in setlist order
+ */
+export function renderSetlistBooklet(
+  booklet: SetlistBooklet,
+  options: PrintOptions = {},
+): string {
+  const headers = booklet.charts.map(resolveChartHeader);
+
+  const cover = `<section class="cover">
+<h1>${escapeHtml(booklet.name)}</h1>
+${booklet.description ? `<p>${escapeHtml(booklet.description)}</p>` : ""}
+${booklet.date ? `<p>${escapeHtml(booklet.date)}</p>` : ""}
+<p>${booklet.charts.length} ${booklet.charts.length === 1 ? "song" : "songs"}</p>
+</section>`;
+
+  const toc = `<section class="toc">
+<h2>Contents</h2>
+<ol>
+${headers
+  .map(
+    (header, index) =>
+      `<li><a href="#song-${index + 1}">${escapeHtml(header.title)}</a>${header.key ? `<span class="toc-key">${escapeHtml(header.key)}</span>` : ""}</li>`,
+  )
+  .join("\n")}
+</ol>
+</section>`;
+
+  const charts = booklet.charts
+    .map((chart, index) => renderChartSection(chart, `song-${index + 1}`))
+    .join("\n");
+
+  return wrapDocument(booklet.name, `${cover}\n${toc}\n${charts}`, options);
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Facets of the song catalog shared by the songs API and the
+ * filter bar
+ * @module shared/songs/songFacets
+ */
+
+import type { SongFacet } from "../types/facet.types";
+
+export const SONG_FACETS: SongFacet[] = [
+  "theme",
+  "key",
+  "difficulty",
+  "tempo",
+  "timeSignature",
+  "source",
+  "decade",
+  "category",
+];
+
+// Tempo buckets in BPM: min inclusive, max exclusive
+export const TEMPO_RANGES = [
+  { value: "slow", label: "Slow (under 80 BPM)", min: 0, max: 80 },
+  { value: "medium", label: "Medium (80-119 BPM)", min: 80, max: 120 },
+  { value: "fast", label: "Fast (120+ BPM)", min: 120, max: Infinity },
+];
+
+/** The tempo bucket a BPM falls in */
+export function getTempoRange(tempo?: number): string | undefined {
+  if (tempo === undefined || tempo === null) {
+    return undefined;
+  }
+  return TEMPO_RANGES.find((range) => tempo >= range.min && tempo < range.max)
+    ?.value;
+}
+
+/** The decade a year falls in, e.g. "1990" for 1994 */
+export function getDecade(year?: number): string | undefined {
+  return year ? String(Math.floor(year / 10) * 10) : undefined;
+}
+
+/** How a facet value reads in the filter bar */
+export function formatFacetValue(facet: SongFacet, value: string): string {
+  switch (facet) {
+    case "tempo":
+      return (
+        TEMPO_RANGES.find((range) => range.value === value)?.label ?? value
+      );
+    case "decade":
+      return `${value}s`;
+    case "difficulty":
+      return value.charAt(0).toUpperCase() + value.slice(1);
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,379 @@
+/**
+ * @fileoverview Import pipeline for songs from other worship software
+ * @module shared/songs/songImport
+ *
+ * Turns an OpenLyrics, OpenSong or chords-over-lyrics file into a song and
+ * arrangement draft with the chart converted to ChordPro, together with a
+ * validation report. The preview re-runs validation after edits and the
+ * import endpoint runs the same checks before saving.
+ */
+
+import type { MusicalKey } from "../types/music.types";
+import {
+  extractChordsFromContent,
+  isValidChord,
+  isValidMusicalKey,
+  setChordProDirective,
+  validateChordProContent,
+} from "./chordSheetHelpers";
+import {
+  parseChordsOverLyrics,
+  parseOpenLyrics,
+  parseOpenSong,
+  SongImportError,
+  type ParsedSongFile,
+} from "./songImportParsers";
+import { detectKeyCandidates, findKeyMismatch } from "./keyDetection";
+import { XmlParseError } from "./xmlReader";
+
+export { SongImportError } from "./songImportParsers";
+
+// ==================== Types ====================
+
+export type ImportFormat = "openlyrics" | "opensong" | "text";
+
+export const IMPORT_FORMATS: Record<ImportFormat, string> = {
+  openlyrics: "OpenLyrics (OpenLP)",
+  opensong: "OpenSong",
+  text: "Chords over lyrics",
+};
+
+export interface ImportedSongDraft {
+  title: string;
+  artist?: string;
+  ccli?: string;
+  themes: string[];
+}
+
+export interface ImportedArrangementDraft {
+  name: string;
+  chordData: string;
+  key?: MusicalKey;
+  tempo?: number;
+  timeSignature: string;
+  structure?: string[];
+}
+
+export interface ImportIssue {
+  severity: "error" | "warning";
+  field?: string;
+  message: string;
+}
+
+export interface ImportDraft {
+  format: ImportFormat;
+  song: ImportedSongDraft;
+  arrangement: ImportedArrangementDraft;
+  /** Notes about values that were changed or dropped while converting */
+  conversionIssues: ImportIssue[];
+}
+
+export interface ImportReport {
+  isValid: boolean;
+  issues: ImportIssue[];
+}
+
+export interface ImportOptions {
+  format?: ImportFormat;
+  /** Used for the title when the file does not name the song */
+  filename?: string;
+}
+
+const PARSERS: Record<ImportFormat, (content: string) => ParsedSongFile> = {
+  openlyrics: parseOpenLyrics,
+  opensong: parseOpenSong,
+  text: parseChordsOverLyrics,
+};
+
+// Mirrors the song and arrangement create schemas on the server
+const LIMITS = {
+  title: 200,
+  artist: 100,
+  theme: 50,
+  structure: 10,
+  minTempo: 40,
+  maxTempo: 200,
+};
+
+// ==================== Detection ====================
+
+export function isImportFormat(value: string): value is ImportFormat {
+  return Object.prototype.hasOwnProperty.call(IMPORT_FORMATS, value);
+}
+
+/**
+ * Guess the format from the file contents. OpenLyrics declares its
+ * namespace; any other XML song is treated as OpenSong.
+ */
+export function detectImportFormat(content: string): ImportFormat {
+  const trimmed = content.replace(/^\uFEFF/, "").trimStart();
+  if (!trimmed.startsWith("<")) {
+    return "text";
+  }
+  if (/openlyrics\.info|<verse\s+name=/i.test(trimmed)) {
+    return "openlyrics";
+  }
+  return "opensong";
+}
+
+// ==================== Conversion ====================
+
+function titleFromFilename(filename?: string): string {
+  return (filename || "")
+    .replace(/^.*[\\/]/, "")
+    .replace(/\.[^.]+$/, "")
+    .replace(/[_-]+/g, " ")
+    .trim();
+}
+
+function buildChordData(
+  parsed: ParsedSongFile,
+  song: ImportedSongDraft,
+  arrangement: Omit<ImportedArrangementDraft, "chordData" | "name">,
+): string {
+  const directives = [
+    `{title: ${song.title}}`,
+    song.artist && `{artist: ${song.artist}}`,
+    arrangement.key && `{key: ${arrangement.key}}`,
+    arrangement.tempo && `{tempo: ${arrangement.tempo}}`,
+    parsed.timeSignature && `{time: ${arrangement.timeSignature}}`,
+    parsed.capo && /^\d+$/.test(parsed.capo) && `{capo: ${parsed.capo}}`,
+  ].filter(Boolean);
+  return `${directives.join("\n")}\n\n${parsed.body}\n`;
+}
+
+function convert(
+  parsed: ParsedSongFile,
+  format: ImportFormat,
+  filename?: string,
+): ImportDraft {
+  const issues: ImportIssue[] = [];
+
+  let title = parsed.title?.trim() || "";
+  if (!title) {
+    title = titleFromFilename(filename);
+    if (title) {
+      issues.push({
+        severity: "warning",
+        field: "title",
+        message: `No title in the file; using "${title}" from the file name`,
+      });
+    }
+  }
+
+  let ccli = parsed.ccli?.replace(/\s+/g, "");
+  if (ccli && !/^\d+$/.test(ccli)) {
+    issues.push({
+      severity: "warning",
+      field: "ccli",
+      message: `CCLI number "${parsed.ccli}" is not numeric and was skipped`,
+    });
+    ccli = undefined;
+  }
+
+  let tempo: number | undefined;
+  if (parsed.tempo) {
+    const value = parseInt(parsed.tempo, 10);
+    if (value >= LIMITS.minTempo && value <= LIMITS.maxTempo) {
+      tempo = value;
+    } else {
+      issues.push({
+        severity: "warning",
+        field: "tempo",
+        message: `Tempo "${parsed.tempo}" is not between ${LIMITS.minTempo} and ${LIMITS.maxTempo} BPM and was skipped`,
+      });
+    }
+  }
+
+  let key: MusicalKey | undefined;
+  const declaredKey = parsed.key?.trim();
+  if (declaredKey && isValidMusicalKey(declaredKey)) {
+    key = declaredKey as MusicalKey;
+  } else {
+    const [detected] = detectKeyCandidates(parsed.body, 1);
+    if (detected) {
+      key = detected.majorKey;
+      const found = `detected ${detected.key} from the chords (${Math.round(detected.confidence * 100)}% confidence)`;
+      const saved = detected.mode === "minor" ? `, saved as ${key}` : "";
+      issues.push({
+        severity: "warning",
+        field: "key",
+        message: declaredKey
+          ? `Key "${declaredKey}" is not supported; ${found}${saved}`
+          : `No key in the file; ${found}${saved}`,
+      });
+    }
+  }
+
+  const song: ImportedSongDraft = {
+    title,
+    artist: parsed.artist?.trim() || undefined,
+    ccli,
+    themes: parsed.themes.map((theme) => theme.slice(0, LIMITS.theme)),
+  };
+
+  const details = {
+    key,
+    tempo,
+    timeSignature: parsed.timeSignature?.trim() || "4/4",
+    structure: parsed.structure.length > 0 ? parsed.structure : undefined,
+  };
+
+  return {
+    format,
+    song,
+    arrangement: {
+      name: "Original",
+      chordData: buildChordData(parsed, song, details),
+      ...details,
+    },
+    conversionIssues: issues,
+  };
+}
+
+/**
+ * Parse an import file into a song and arrangement draft
+ * @throws SongImportError when the file cannot be read in the given format
+ */
+export function parseSongImport(
+  content: string,
+  options: ImportOptions = {},
+): ImportDraft {
+  const text = content.replace(/^\uFEFF/, "");
+  if (!text.trim()) {
+    throw new SongImportError("The file is empty");
+  }
+
+  const format = options.format ?? detectImportFormat(text);
+  try {
+    return convert(PARSERS[format](text), format, options.filename);
+  } catch (error) {
+    if (error instanceof XmlParseError) {
+      throw new SongImportError(`Invalid XML: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply preview edits to a draft, keeping the chart's header directives
+ * in step with the edited values
+ */
+export function updateImportDraft(
+  draft: ImportDraft,
+  changes: Partial<Pick<ImportedSongDraft, "title" | "artist">> & {
+    key?: MusicalKey;
+  },
+): ImportDraft {
+  const title = changes.title?.trim();
+  const artist = changes.artist?.trim();
+  let chordData = draft.arrangement.chordData;
+  if (title !== undefined) {
+    chordData = setChordProDirective(chordData, "title", title);
+  }
+  if (artist !== undefined) {
+    chordData = setChordProDirective(chordData, "artist", artist);
+  }
+  if (changes.key !== undefined) {
+    chordData = setChordProDirective(chordData, "key", changes.key);
+  }
+
+  return {
+    ...draft,
+    song: {
+      ...draft.song,
+      title: title ?? draft.song.title,
+      artist: artist !== undefined ? artist || undefined : draft.song.artist,
+    },
+    arrangement: {
+      ...draft.arrangement,
+      key: changes.key ?? draft.arrangement.key,
+      chordData,
+    },
+  };
+}
+
+// ==================== Validation ====================
+
+/**
+ * Check a draft against the rules the song and arrangement APIs enforce.
+ * Errors block saving; warnings are shown in the preview.
+ */
+export function validateImportDraft(draft: ImportDraft): ImportReport {
+  const issues: ImportIssue[] = [...draft.conversionIssues];
+  const error = (field: string, message: string) =>
+    issues.push({ severity: "error", field, message });
+  const { song, arrangement } = draft;
+
+  if (!song.title.trim()) {
+    error("title", "Title is required");
+  } else if (song.title.length > LIMITS.title) {
+    error("title", `Title must be at most ${LIMITS.title} characters`);
+  }
+  if (song.artist && song.artist.length > LIMITS.artist) {
+    error("artist", `Artist must be at most ${LIMITS.artist} characters`);
+  }
+  if (song.ccli && !/^\d+$/.test(song.ccli)) {
+    error("ccli", "CCLI must be numeric");
+  }
+  if (!arrangement.key || !isValidMusicalKey(arrangement.key)) {
+    error("key", "Choose the key of the song");
+  } else {
+    const mismatch = findKeyMismatch(arrangement.key, arrangement.chordData);
+    if (mismatch) {
+      issues.push({
+        severity: "warning",
+        field: "key",
+        message: mismatch.message,
+      });
+    }
+  }
+  if (
+    arrangement.tempo !== undefined &&
+    (arrangement.tempo < LIMITS.minTempo || arrangement.tempo > LIMITS.maxTempo)
+  ) {
+    error(
+      "tempo",
+      `Tempo must be between ${LIMITS.minTempo} and ${LIMITS.maxTempo} BPM`,
+    );
+  }
+  if (arrangement.structure?.some((part) => part.length > LIMITS.structure)) {
+    error(
+      "structure",
+      `Section order entries must be at most ${LIMITS.structure} characters`,
+    );
+  }
+
+  const chart = validateChordProContent(arrangement.chordData);
+  chart.errors.forEach((message) => error("chordData", message));
+
+  const chords = extractChordsFromContent(arrangement.chordData);
+  if (chords.length === 0) {
+    issues.push({
+      severity: "warning",
+      field: "chordData",
+      message: "No chords were found; the chart will show lyrics only",
+    });
+  }
+  const unknown = chords.filter((chord) => !isValidChord(chord));
+  if (unknown.length > 0) {
+    issues.push({
+      severity: "warning",
+      field: "chordData",
+      message: `Unrecognized chords: ${unknown.join(", ")}`,
+    });
+  }
+
+  return {
+    isValid: !issues.some((issue) => issue.severity === "error"),
+    issues,
+  };
+}
+
+/**
+ * Parse and validate an import file in one step
+ */
+export function importSongFile(content: string, options: ImportOptions = {}) {
+  const draft = parseSongImport(content, options);
+  return { draft, report: validateImportDraft(draft) };
+}
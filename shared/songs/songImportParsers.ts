@@ -0,0 +1,428 @@
+/**
+ * @fileoverview Format parsers for song imports
+ * @module shared/songs/songImportParsers
+ *
+ * Converts OpenLyrics XML, OpenSong XML and chords-over-lyrics text into
+ * ChordPro plus the song details found in the file. Validation of the
+ * result lives in songImport.
+ */
+
+import { isValidChord } from "./chordSheetHelpers";
+import {
+  childElements,
+  findElement,
+  parseXml,
+  textContent,
+  type XmlElement,
+  type XmlNode,
+} from "./xmlReader";
+
+/**
+ * Raw values read from an import file before validation
+ */
+export interface ParsedSongFile {
+  title?: string;
+  artist?: string;
+  ccli?: string;
+  key?: string;
+  tempo?: string;
+  timeSignature?: string;
+  capo?: string;
+  themes: string[];
+  structure: string[];
+  /** Chart body as ChordPro, without header directives */
+  body: string;
+}
+
+export class SongImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SongImportError";
+  }
+}
+
+// ==================== Sections ====================
+
+const SECTION_CODES: Record<string, string> = {
+  v: "Verse",
+  c: "Chorus",
+  b: "Bridge",
+  p: "Pre-Chorus",
+  t: "Tag",
+  i: "Intro",
+  o: "Outro",
+  e: "Ending",
+};
+
+const SECTION_ENVIRONMENTS = ["verse", "chorus", "bridge"];
+
+/**
+ * Expand a section code such as "v1" or "C" to "Verse 1" or "Chorus"
+ */
+export function sectionLabelFromCode(code: string): string {
+  const match = code.trim().match(/^([a-z])(\d*)[a-z]?$/i);
+  const name = match && SECTION_CODES[match[1].toLowerCase()];
+  if (!match || !name) {
+    return code.trim();
+  }
+  return match[2] ? `${name} ${match[2]}` : name;
+}
+
+function sectionToChordPro(label: string, lines: string[]): string {
+  const type = label.toLowerCase().split(/\s+/)[0];
+  if (SECTION_ENVIRONMENTS.includes(type)) {
+    return [`{start_of_${type}: ${label}}`, ...lines, `{end_of_${type}}`].join(
+      "\n",
+    );
+  }
+  return [`{comment: ${label}}`, ...lines].join("\n");
+}
+
+/**
+ * Collects chart lines, wrapping labelled sections in ChordPro
+ * environments. A blank line closes the open section.
+ */
+function createChartWriter() {
+  const output: string[] = [];
+  let section: { label: string; lines: string[] } | null = null;
+
+  const endSection = () => {
+    if (section && section.lines.length > 0) {
+      output.push(sectionToChordPro(section.label, section.lines), "");
+    } else if (section) {
+      output.push(`{comment: ${section.label}}`, "");
+    }
+    section = null;
+  };
+
+  return {
+    startSection(label: string) {
+      endSection();
+      section = { label, lines: [] };
+    },
+    addLine(line: string) {
+      (section ? section.lines : output).push(line);
+    },
+    addBlank() {
+      if (section) {
+        if (section.lines.length > 0) {
+          endSection();
+        }
+      } else {
+        output.push("");
+      }
+    },
+    toString() {
+      endSection();
+      return output
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+    },
+  };
+}
+
+// ==================== Chords over lyrics ====================
+
+const BAR_TOKENS = /^(\||\/|-|%|x\d+|\d+x|N\.?C\.?)$/i;
+
+function chordToken(token: string): string | null {
+  const chord = token.replace(/^\(|\)$/g, "");
+  return isValidChord(chord) ? chord : null;
+}
+
+/**
+ * A chord line holds only chord names and bar marks
+ */
+export function isChordLine(line: string): boolean {
+  const tokens = line.trim().split(/\s+/).filter(Boolean);
+  return (
+    tokens.some((token) => chordToken(token)) &&
+    tokens.every((token) => chordToken(token) || BAR_TOKENS.test(token))
+  );
+}
+
+/**
+ * Merge a chord line into the lyric line below it, placing each chord at
+ * the column where it appears
+ */
+export function mergeChordLine(chordLine: string, lyricLine = ""): string {
+  const chords: Array<{ position: number; chord: string }> = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(chordLine))) {
+    const chord = chordToken(match[0]);
+    if (chord) {
+      chords.push({ position: match.index, chord });
+    }
+  }
+
+  if (!lyricLine.trim()) {
+    return chords.map(({ chord }) => `[${chord}]`).join(" ");
+  }
+
+  const lastPosition = chords.length ? chords[chords.length - 1].position : 0;
+  const lyrics = lyricLine.trimEnd().padEnd(lastPosition, " ");
+  let result = "";
+  let cursor = 0;
+  for (const { position, chord } of chords) {
+    result += `${lyrics.slice(cursor, position)}[${chord}]`;
+    cursor = position;
+  }
+  return `${result}${lyrics.slice(cursor)}`.trimEnd();
+}
+
+const HEADING_PATTERN =
+  /^\s*[[(]?((?:pre-?chorus|verse|chorus|bridge|intro|outro|tag|ending|interlude|instrumental|refrain|coda|turnaround)(?:\s*\d+)?)[\])]?\s*:?\s*$/i;
+
+const META_PATTERN =
+  /^\s*(title|artist|author|subtitle|key|tempo|time|capo|ccli)\s*:\s*(.+?)\s*$/i;
+
+function headingLabel(line: string): string | null {
+  const match = line.match(HEADING_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const label = match[1].replace(/\s+/g, " ").trim();
+  return label.charAt(0).toUpperCase() + label.slice(1).toLowerCase();
+}
+
+/**
+ * Plain text with chord lines above lyric lines. Leading `Name: value`
+ * lines are read as metadata and a lone first line as the title.
+ */
+export function parseChordsOverLyrics(content: string): ParsedSongFile {
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  const parsed: ParsedSongFile = { themes: [], structure: [], body: "" };
+
+  let index = 0;
+  const skipBlank = () => {
+    while (index < lines.length && !lines[index].trim()) {
+      index++;
+    }
+  };
+
+  skipBlank();
+  let meta: RegExpMatchArray | null;
+  while (index < lines.length && (meta = lines[index].match(META_PATTERN))) {
+    const [, name, value] = meta;
+    switch (name.toLowerCase()) {
+      case "title":
+        parsed.title = value;
+        break;
+      case "artist":
+      case "author":
+      case "subtitle":
+        parsed.artist = value;
+        break;
+      case "time":
+        parsed.timeSignature = value;
+        break;
+      default:
+        parsed[name.toLowerCase() as "key" | "tempo" | "capo" | "ccli"] = value;
+    }
+    index++;
+  }
+  skipBlank();
+
+  const first = lines[index]?.trim();
+  if (
+    !parsed.title &&
+    first &&
+    !isChordLine(first) &&
+    !headingLabel(first) &&
+    !lines[index + 1]?.trim()
+  ) {
+    parsed.title = first;
+    index++;
+  }
+
+  const writer = createChartWriter();
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    const label = headingLabel(line);
+    if (label) {
+      writer.startSection(label);
+    } else if (!line.trim()) {
+      writer.addBlank();
+    } else if (isChordLine(line)) {
+      const next = lines[index + 1];
+      const hasLyrics =
+        next !== undefined &&
+        next.trim() !== "" &&
+        !isChordLine(next) &&
+        !headingLabel(next);
+      writer.addLine(mergeChordLine(line, hasLyrics ? next : ""));
+      if (hasLyrics) {
+        index++;
+      }
+    } else {
+      writer.addLine(line.trimEnd());
+    }
+  }
+
+  parsed.body = writer.toString();
+  return parsed;
+}
+
+// ==================== OpenSong ====================
+
+function field(root: XmlElement, name: string): string | undefined {
+  return textContent(findElement(root, name)).trim() || undefined;
+}
+
+function splitList(value: string | undefined, separator: RegExp): string[] {
+  return (value || "")
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * OpenSong stores lyrics as text inside the XML. Lines starting with `.`
+ * hold chords, `[V1]` starts a section, `;` is a comment and lyric lines
+ * start with a space or a verse number.
+ */
+export function parseOpenSong(content: string): ParsedSongFile {
+  const root = parseXml(content);
+  if (root.name !== "song") {
+    throw new SongImportError("OpenSong files must have a <song> root element");
+  }
+
+  const lines = textContent(findElement(root, "lyrics"))
+    .replace(/\r\n?/g, "\n")
+    .split("\n");
+  const writer = createChartWriter();
+  const lyricText = (line: string) => line.slice(1).replace(/\|/g, " ");
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const section = line.match(/^\[([^\]]+)\]/);
+    if (section) {
+      writer.startSection(sectionLabelFromCode(section[1]));
+    } else if (line.startsWith(".")) {
+      const next = lines[index + 1];
+      const hasLyrics = next !== undefined && /^[ \d]/.test(next);
+      writer.addLine(
+        mergeChordLine(line.slice(1), hasLyrics ? lyricText(next) : ""),
+      );
+      if (hasLyrics) {
+        index++;
+      }
+    } else if (line.startsWith(";")) {
+      writer.addLine(`{comment: ${line.slice(1).trim()}}`);
+    } else if (!line.trim() || /^(---|-!!)/.test(line)) {
+      writer.addBlank();
+    } else {
+      writer.addLine(lyricText(line).trim());
+    }
+  }
+
+  return {
+    title: field(root, "title"),
+    artist: field(root, "author"),
+    ccli: field(root, "ccli"),
+    key: field(root, "key"),
+    tempo: field(root, "tempo"),
+    timeSignature: field(root, "time_sig"),
+    capo: field(root, "capo"),
+    themes: splitList(field(root, "theme"), /[;,]/),
+    structure: splitList(field(root, "presentation"), /\s+/),
+    body: writer.toString(),
+  };
+}
+
+// ==================== OpenLyrics ====================
+
+function openLyricsChord(element: XmlElement): string {
+  const { name, root, bass } = element.attributes;
+  if (name) {
+    return name;
+  }
+  return root ? `${root}${bass ? `/${bass}` : ""}` : "";
+}
+
+/**
+ * Flatten a <lines> element to ChordPro text. Whitespace in the XML is
+ * not significant; <br/> ends a line and <chord> marks a chord position.
+ */
+function openLyricsLines(nodes: XmlNode[]): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === "string") {
+        return node.replace(/\s+/g, " ");
+      }
+      switch (node.name) {
+        case "br":
+          return "\n";
+        case "comment":
+          return "";
+        case "chord": {
+          const chord = openLyricsChord(node);
+          return `${chord ? `[${chord}]` : ""}${openLyricsLines(node.children)}`;
+        }
+        default:
+          return openLyricsLines(node.children);
+      }
+    })
+    .join("");
+}
+
+/**
+ * OpenLyrics XML as exported by OpenLP
+ */
+export function parseOpenLyrics(content: string): ParsedSongFile {
+  const root = parseXml(content);
+  if (root.name !== "song") {
+    throw new SongImportError(
+      "OpenLyrics files must have a <song> root element",
+    );
+  }
+
+  const properties = findElement(root, "properties");
+  const property = (...path: string[]) =>
+    properties
+      ? textContent(findElement(properties, ...path)).trim() || undefined
+      : undefined;
+  const authors = properties
+    ? childElements(findElement(properties, "authors") ?? properties, "author")
+        .filter((author) => author.attributes.type !== "translation")
+        .map((author) => textContent(author).trim())
+        .filter(Boolean)
+    : [];
+  const themes = properties
+    ? childElements(findElement(properties, "themes") ?? properties, "theme")
+        .map((theme) => textContent(theme).trim())
+        .filter(Boolean)
+    : [];
+
+  const writer = createChartWriter();
+  const lyrics = findElement(root, "lyrics");
+  for (const verse of lyrics ? childElements(lyrics, "verse") : []) {
+    writer.startSection(sectionLabelFromCode(verse.attributes.name || ""));
+    const text = childElements(verse, "lines")
+      .map((lines) => openLyricsLines(lines.children))
+      .join("\n");
+    for (const line of text.split("\n")) {
+      if (line.trim()) {
+        writer.addLine(line.trim());
+      }
+    }
+    writer.addBlank();
+  }
+
+  return {
+    title: property("titles", "title"),
+    artist: authors.length > 0 ? authors.join(", ") : undefined,
+    ccli: property("ccliNo"),
+    key: property("key"),
+    tempo: property("tempo"),
+    timeSignature: property("timeSignature"),
+    capo: undefined,
+    themes,
+    structure: splitList(property("verseOrder"), /\s+/).map((code) =>
+      code.toUpperCase(),
+    ),
+    body: writer.toString(),
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Vocal ranges and transposition recommendations
+ * @module shared/songs/vocalRange
+ *
+ * Ranges are stored as scientific pitch names such as "A2" or "F#4", the
+ * same format the arrangement model validates. Recommendations try every
+ * transposition a setlist item allows and keep the one that leaves the
+ * least of the melody outside the singer's range, preferring the one that
+ * sits closest to the middle of their voice and then the smallest change.
+ */
+
+import { z } from "zod";
+import {
+  TRANSPOSITION_BOUNDS,
+  type MusicalKey,
+  type VocalRange,
+} from "../types/music.types";
+import { calculateTransposedKey } from "./chordSheetHelpers";
+
+const NOTE_PATTERN = /^([A-G])([#b]?)(\d)$/;
+const LETTER_PITCHES: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+const NOTE_NAMES = [
+  "C",
+  "C#",
+  "D",
+  "D#",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "A#",
+  "B",
+];
+
+/**
+ * MIDI number of a note name, with C4 as middle C (60)
+ * @returns The MIDI number, or null if the name is not a note
+ */
+export function noteToMidi(note: string): number | null {
+  const match = note.trim().match(NOTE_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, letter, accidental, octave] = match;
+  const offset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
+  return (Number(octave) + 1) * 12 + LETTER_PITCHES[letter] + offset;
+}
+
+/** Note name of a MIDI number, spelled with sharps */
+export function midiToNote(midi: number): string {
+  return `${NOTE_NAMES[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+// Choices offered by range pickers, from a low bass to a high soprano
+export const VOCAL_RANGE_NOTES: string[] = Array.from({ length: 49 }, (_, i) =>
+  midiToNote(36 + i),
+);
+
+/** Whether both ends are notes and the low note is below the high one */
+export function isValidVocalRange(range: VocalRange): boolean {
+  const low = noteToMidi(range.low);
+  const high = noteToMidi(range.high);
+  return low !== null && high !== null && low < high;
+}
+
+// Request body validation shared by profile and arrangement routes
+export const vocalRangeSchema = z
+  .object({
+    low: z.string().regex(NOTE_PATTERN, "Use a note such as C3, F#4 or Bb2"),
+    high: z.string().regex(NOTE_PATTERN, "Use a note such as C3, F#4 or Bb2"),
+  })
+  .refine(isValidVocalRange, {
+    message: "The lowest note must be below the highest note",
+    path: ["high"],
+  });
+
+export interface RangeFit {
+  /** Semitones the melody goes below the singer's lowest note */
+  below: number;
+  /** Semitones the melody goes above the singer's highest note */
+  above: number;
+  fits: boolean;
+}
+
+/**
+ * How a melody sits in a singer's range after transposing
+ * @returns The fit, or null if either range cannot be read
+ */
+export function getRangeFit(
+  melody: VocalRange,
+  singer: VocalRange,
+  transpose: number = 0,
+): RangeFit | null {
+  if (!isValidVocalRange(melody) || !isValidVocalRange(singer)) {
+    return null;
+  }
+  const below = Math.max(
+    0,
+    noteToMidi(singer.low)! - (noteToMidi(melody.low)! + transpose),
+  );
+  const above = Math.max(
+    0,
+    noteToMidi(melody.high)! + transpose - noteToMidi(singer.high)!,
+  );
+  return { below, above, fits: below === 0 && above === 0 };
+}
+
+const semitones = (count: number) =>
+  `${count} semitone${count === 1 ? "" : "s"}`;
+
+/**
+ * Describe where a melody leaves a range, e.g. "The melody goes 2
+ * semitones above your range"
+ * @param rangeName - Whose range it is, e.g. "your range" or "Sam's range"
+ * @returns The description, or null when the melody fits
+ */
+export function describeRangeFit(fit: RangeFit, rangeName: string) {
+  if (fit.fits) {
+    return null;
+  }
+  const parts = [
+    fit.below > 0 && `${semitones(fit.below)} below`,
+    fit.above > 0 && `${semitones(fit.above)} above`,
+  ].filter(Boolean);
+  return `The melody goes ${parts.join(" and ")} ${rangeName}`;
+}
+
+export interface TransposeRecommendation {
+  transpose: number;
+  /** Key after transposing, when the original key is known */
+  key?: MusicalKey;
+  fits: boolean;
+}
+
+/**
+ * Pick the transposition that best fits a melody into a singer's range
+ * @param melody - Lowest and highest melody notes at the written key
+ * @param singer - Lowest and highest notes the singer is comfortable with
+ * @param originalKey - Written key, used to name the recommended key
+ * @returns The recommendation, or null if either range cannot be read
+ */
+export function recommendTranspose(
+  melody: VocalRange,
+  singer: VocalRange,
+  originalKey?: MusicalKey,
+): TransposeRecommendation | null {
+  if (!isValidVocalRange(melody) || !isValidVocalRange(singer)) {
+    return null;
+  }
+  const melodyCenter = (noteToMidi(melody.low)! + noteToMidi(melody.high)!) / 2;
+  const singerCenter = (noteToMidi(singer.low)! + noteToMidi(singer.high)!) / 2;
+
+  let best: { transpose: number; overflow: number; offCenter: number } | null =
+    null;
+  for (
+    let transpose = TRANSPOSITION_BOUNDS.MIN;
+    transpose <= TRANSPOSITION_BOUNDS.MAX;
+    transpose++
+  ) {
+    const fit = getRangeFit(melody, singer, transpose)!;
+    const candidate = {
+      transpose,
+      overflow: fit.below + fit.above,
+      offCenter: Math.abs(melodyCenter + transpose - singerCenter),
+    };
+    if (
+      !best ||
+      candidate.overflow < best.overflow ||
+      (candidate.overflow === best.overflow &&
+        (candidate.offCenter < best.offCenter ||
+          (candidate.offCenter === best.offCenter &&
+            Math.abs(transpose) < Math.abs(best.transpose))))
+    ) {
+      best = candidate;
+    }
+  }
+
+  return {
+    transpose: best!.transpose,
+    ...(originalKey && {
+      key: calculateTransposedKey(originalKey, best!.transpose),
+    }),
+    fits: best!.overflow === 0,
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Minimal XML reader for song file imports
+ * @module shared/songs/xmlReader
+ *
+ * Parses well-formed XML into a plain element tree without relying on
+ * DOMParser, so imports run the same in the browser and on the server.
+ * Namespace prefixes are dropped from element and attribute names.
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+export class XmlParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XmlParseError";
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function localName(name: string): string {
+  const index = name.indexOf(":");
+  return index === -1 ? name : name.slice(index + 1);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    if (match[1] === "xmlns" || match[1].startsWith("xmlns:")) {
+      continue;
+    }
+    attributes[localName(match[1])] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Parse an XML document and return its root element
+ * @throws XmlParseError when the markup is not well formed
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const tagPattern =
+    /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([^\s/>]+)([^>]*?)(\/?)>/gi;
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(source))) {
+    const parent = stack[stack.length - 1];
+    const text = source.slice(lastIndex, match.index);
+    if (text) {
+      parent.children.push(decodeEntities(text));
+    }
+    lastIndex = tagPattern.lastIndex;
+
+    const [, cdata, closing, rawName, rawAttributes, selfClosing] = match;
+    if (cdata !== undefined) {
+      parent.children.push(cdata);
+      continue;
+    }
+    if (!rawName) {
+      continue; // Comment, processing instruction or doctype
+    }
+
+    const name = localName(rawName);
+    if (closing) {
+      if (stack.length === 1 || parent.name !== name) {
+        throw new XmlParseError(`Unexpected closing tag </${rawName}>`);
+      }
+      stack.pop();
+      continue;
+    }
+
+    const element: XmlElement = {
+      name,
+      attributes: parseAttributes(rawAttributes),
+      children: [],
+    };
+    parent.children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new XmlParseError(`Missing closing tag for <${stack[1].name}>`);
+  }
+  const documentElement = root.children.find(
+    (child): child is XmlElement => typeof child !== "string",
+  );
+  if (!documentElement) {
+    throw new XmlParseError("Document has no root element");
+  }
+  return documentElement;
+}
+
+// ==================== Queries ====================
+
+export function childElements(element: XmlElement, name?: string) {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      typeof child !== "string" && (!name || child.name === name),
+  );
+}
+
+/**
+ * Find the first descendant element following a path of element names
+ */
+export function findElement(
+  element: XmlElement,
+  ...path: string[]
+): XmlElement | undefined {
+  let current: XmlElement | undefined = element;
+  for (const name of path) {
+    current = current && childElements(current, name)[0];
+  }
+  return current;
+}
+
+export function textContent(element: XmlElement | undefined): string {
+  if (!element) {
+    return "";
+  }
+  return element.children
+    .map((child) => (typeof child === "string" ? child : textContent(child)))
+    .join("");
+}
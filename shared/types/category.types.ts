@@ -0,0 +1,31 @@
+// Type definitions for spiritual categories and their mapping rules
+
+/**
+ * Rule for automatically mapping songs to categories
+ * @interface CategoryMappingRule
+ */
+export interface CategoryMappingRule {
+  type: "theme" | "source" | "artist" | "title_pattern" | "lyrics_pattern";
+  values: string[];
+  weight: number; // 1-10 for fuzzy matching
+}
+
+/**
+ * A category and the rules that place songs in it
+ * @interface CategoryDefinition
+ */
+export interface CategoryDefinition {
+  /** Unique category identifier */
+  id: string;
+  /** Display name of the category */
+  name: string;
+  /** Detailed description of the category's purpose */
+  description: string;
+  /** Tailwind color class for theming (e.g., "blue", "green") */
+  color: string;
+  /** Rules for automatically categorizing songs */
+  mappingRules: CategoryMappingRule[];
+}
+
+// What scoring needs from each category
+export type CategoryRuleSet = Pick<CategoryDefinition, "id" | "mappingRules">;
@@ -25,6 +25,26 @@ export interface AuthUser {
   permissions?: string[];
 }
 
+// Verified claims from a Clerk session token
+export interface SessionClaims {
+  sub: string; // Clerk user ID
+  iss: string;
+  exp: number;
+  nbf?: number;
+  iat?: number;
+  azp?: string; // Origin the token was issued for
+  sid?: string; // Clerk session ID
+  email?: string; // Primary email, when the session token template adds it
+}
+
+// Populated by the authenticate middleware (server/middleware/auth.ts)
+declare module "express-serve-static-core" {
+  interface Request {
+    user?: AuthUser;
+    auth?: SessionClaims;
+  }
+}
+
 // Route handler types
 export type AsyncRouteHandler<
   TBody = Record<string, unknown>,
@@ -0,0 +1,30 @@
+// Type definitions for the faceted song catalog
+
+export type SongFacet =
+  | "theme"
+  | "key"
+  | "difficulty"
+  | "tempo"
+  | "timeSignature"
+  | "source"
+  | "decade"
+  | "category";
+
+/**
+ * One value of a facet with the number of songs that have it
+ * @interface FacetBucket
+ */
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+/**
+ * Counts for every facet. Each facet is counted with all other filters
+ * applied but not its own, so the alternatives to a chosen value stay
+ * visible.
+ */
+export type SongFacets = Record<SongFacet, FacetBucket[]>;
+
+/** Values chosen for each facet; a missing facet is not filtered */
+export type SongFacetFilters = Partial<Record<SongFacet, string>>;
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Musical keys, chord sheet metadata and parsing errors,
+ * used by the chord sheet logic on both the client and the server
+ * @module shared/types/music.types
+ */
+
+// ==================== Types ====================
+
+/**
+ * Standardized error interface for chord parsing failures
+ */
+export interface ChordParsingError {
+  /** Type of parsing error */
+  type: "parse_error" | "format_error" | "transpose_error";
+  /** Human-readable error message */
+  message: string;
+  /** Original content that caused the error */
+  originalContent: string;
+  /** Line number where error occurred (if applicable) */
+  line?: number;
+  /** Column number where error occurred (if applicable) */
+  column?: number;
+}
+
+/**
+ * Metadata extracted from ChordPro content
+ */
+export interface ChordSheetMeta {
+  /** Song title from {title:} directive */
+  title?: string;
+  /** Artist name from {subtitle:} or {artist:} directive */
+  artist?: string;
+  /** Original key from {key:} directive */
+  key?: string;
+  /** Tempo from {tempo:} directive */
+  tempo?: string;
+  /** Time signature from {time:} directive */
+  time?: string;
+  /** Capo position from {capo:} directive */
+  capo?: string;
+  /** Additional custom metadata */
+  [key: string]: string | undefined;
+}
+
+/**
+ * Valid musical keys for transposition
+ */
+export type MusicalKey =
+  | "C"
+  | "C#"
+  | "Db"
+  | "D"
+  | "D#"
+  | "Eb"
+  | "E"
+  | "F"
+  | "F#"
+  | "Gb"
+  | "G"
+  | "G#"
+  | "Ab"
+  | "A"
+  | "A#"
+  | "Bb"
+  | "B";
+
+/**
+ * Major or minor tonality of a detected key
+ */
+export type KeyMode = "major" | "minor";
+
+/**
+ * A key ranked by how well it explains a chart's chords
+ */
+export interface KeyCandidate {
+  /** Key as written in a chart, such as `G` or `Em` */
+  key: string;
+  tonic: MusicalKey;
+  mode: KeyMode;
+  /** Major key with the same key signature; the tonic for major keys */
+  majorKey: MusicalKey;
+  /** Share of the evidence for this key, from 0 to 1 */
+  confidence: number;
+}
+
+/**
+ * Lowest and highest notes of a melody or a singer's voice, e.g. "A2"
+ * @interface VocalRange
+ */
+export interface VocalRange {
+  low: string;
+  high: string;
+}
+
+// ==================== Constants ====================
+
+/**
+ * Array of all valid musical keys in chromatic order
+ */
+export const MUSICAL_KEYS: MusicalKey[] = [
+  "C",
+  "C#",
+  "Db",
+  "D",
+  "D#",
+  "Eb",
+  "E",
+  "F",
+  "F#",
+  "Gb",
+  "G",
+  "G#",
+  "Ab",
+  "A",
+  "A#",
+  "Bb",
+  "B",
+];
+
+/**
+ * Transposition bounds for safety
+ */
+export const TRANSPOSITION_BOUNDS = {
+  MIN: -11,
+  MAX: 11,
+} as const;
+
+// ==================== Type Guards ====================
+
+/**
+ * Type guard to check if a value is a valid musical key
+ */
+export function isMusicalKey(value: string): value is MusicalKey {
+  return MUSICAL_KEYS.includes(value as MusicalKey);
+}